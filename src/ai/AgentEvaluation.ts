@@ -0,0 +1,303 @@
+/**
+ * 📈 AGENT EVALUATION
+ * Training loop and held-out evaluation of RL agents on the trading environment,
+ * benchmarked against buy-and-hold over the same candles and costs
+ */
+
+import type { ReinforcementLearningEngine, TradingAction, TradingState } from './ReinforcementLearningEngine';
+import { type StepInfo, TradingEnv, type TradingEnvConfig, WARMUP_CANDLES } from './TradingEnvironment';
+
+export interface TradingPolicy {
+  name: string;
+  reset?(): void;
+  act(state: TradingState, env: TradingEnv): Promise<TradingAction | number> | TradingAction | number;
+}
+
+export interface EpisodeRange {
+  start: number; // candle indices, inclusive
+  end: number;
+}
+
+export interface EpisodeResult {
+  policy: string;
+  start: number;
+  end: number;
+  steps: number;
+  initialEquity: number;
+  finalEquity: number;
+  totalReturn: number;
+  annualizedReturn: number;
+  volatility: number; // annualized
+  sharpeRatio: number; // annualized, zero risk-free rate
+  maxDrawdown: number; // 0-1
+  trades: number;
+  fees: number;
+  slippage: number;
+  funding: number;
+  averageExposure: number; // mean |exposure|
+  totalReward: number;
+  equityCurve: number[];
+}
+
+export interface PolicyComparison {
+  period: EpisodeRange;
+  benchmark: EpisodeResult;
+  results: Array<EpisodeResult & { excessReturn: number; excessSharpe: number }>;
+}
+
+export interface PolicySummary {
+  policy: string;
+  periods: number;
+  meanReturn: number;
+  meanExcessReturn: number;
+  meanSharpe: number;
+  worstDrawdown: number;
+  periodsBeatingBenchmark: number;
+}
+
+export interface EvaluationReport {
+  periods: PolicyComparison[];
+  summary: PolicySummary[];
+}
+
+/**
+ * Holds `size` of equity from the first step on, topping up fills the participation cap cut short
+ */
+export function buyAndHoldPolicy(size: number = 1): TradingPolicy {
+  return {
+    name: 'buy-and-hold',
+    act: state => {
+      const gap = size - state.portfolio.position;
+      return gap > 0.01 ? { type: 'market', side: 'buy', size: gap, confidence: 1 } : 0;
+    }
+  };
+}
+
+/**
+ * Greedy policy from a trained engine (exploration off)
+ */
+export function enginePolicy(engine: ReinforcementLearningEngine, name: string = 'rl-engine'): TradingPolicy {
+  return {
+    name,
+    reset: () => engine.setTrainingMode(false),
+    act: state => engine.selectAction(state)
+  };
+}
+
+export async function runEpisode(
+  env: TradingEnv,
+  policy: TradingPolicy,
+  options: { start?: number } = {}
+): Promise<EpisodeResult> {
+  policy.reset?.();
+  let state = env.reset(options);
+  const start = env.currentIndex;
+  const infos: StepInfo[] = [];
+  let totalReward = 0;
+
+  while (!env.isDone) {
+    const action = await policy.act(state, env);
+    const transition = env.step(action);
+    state = transition.state;
+    totalReward += transition.reward;
+    infos.push(transition.info as StepInfo);
+  }
+
+  return summarizeEpisode(env, policy.name, start, infos, totalReward);
+}
+
+/**
+ * Runs training episodes, feeding every transition to the engine. Episodes start at random
+ * points when the environment has an episodeLength
+ */
+export async function trainEngine(
+  engine: ReinforcementLearningEngine,
+  env: TradingEnv,
+  options: { episodes: number; onEpisode?: (result: EpisodeResult, episode: number) => void }
+): Promise<EpisodeResult[]> {
+  const results: EpisodeResult[] = [];
+  engine.setTrainingMode(true);
+
+  try {
+    for (let episode = 0; episode < options.episodes; episode++) {
+      let state = env.reset();
+      const start = env.currentIndex;
+      const infos: StepInfo[] = [];
+      let totalReward = 0;
+
+      while (!env.isDone) {
+        const action = await engine.selectAction(state);
+        const transition = env.step(action);
+        await engine.train({
+          state,
+          action: transition.action,
+          reward: transition.reward,
+          nextState: transition.state,
+          done: transition.done
+        });
+        state = transition.state;
+        totalReward += transition.reward;
+        infos.push(transition.info as StepInfo);
+      }
+
+      const result = summarizeEpisode(env, 'rl-engine', start, infos, totalReward);
+      results.push(result);
+      options.onEpisode?.(result, episode);
+    }
+  } finally {
+    engine.setTrainingMode(false);
+  }
+
+  return results;
+}
+
+/**
+ * Runs each policy and buy-and-hold over every held-out period with identical costs.
+ * Indicators see the candles before each period, trading starts at period.start
+ */
+export async function evaluateAgainstBuyAndHold(
+  envConfig: Omit<TradingEnvConfig, 'start' | 'end' | 'episodeLength'>,
+  policies: TradingPolicy[],
+  periods: EpisodeRange[]
+): Promise<EvaluationReport> {
+  if (periods.length === 0) throw new Error('At least one evaluation period is required');
+  const comparisons: PolicyComparison[] = [];
+
+  for (const period of periods) {
+    const env = new TradingEnv({ ...envConfig, start: period.start, end: period.end });
+    const benchmark = await runEpisode(env, buyAndHoldPolicy(env.limits.maxPosition));
+    const results: PolicyComparison['results'] = [];
+
+    for (const policy of policies) {
+      const result = await runEpisode(env, policy);
+      results.push({
+        ...result,
+        excessReturn: result.totalReturn - benchmark.totalReturn,
+        excessSharpe: result.sharpeRatio - benchmark.sharpeRatio
+      });
+    }
+    comparisons.push({ period, benchmark, results });
+  }
+
+  const summary = policies.map(policy => {
+    const runs = comparisons.map(comparison => comparison.results.find(result => result.policy === policy.name)!);
+    const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+    return {
+      policy: policy.name,
+      periods: runs.length,
+      meanReturn: mean(runs.map(run => run.totalReturn)),
+      meanExcessReturn: mean(runs.map(run => run.excessReturn)),
+      meanSharpe: mean(runs.map(run => run.sharpeRatio)),
+      worstDrawdown: Math.max(...runs.map(run => run.maxDrawdown)),
+      periodsBeatingBenchmark: runs.filter(run => run.excessReturn > 0).length
+    };
+  });
+
+  return { periods: comparisons, summary };
+}
+
+/**
+ * Train on the first part of the candles, hold out the rest. The test range starts one
+ * candle after training ends so no candle is traded in both
+ */
+export function splitHoldout(
+  candleCount: number,
+  options: { testRatio?: number; warmup?: number } = {}
+): { train: EpisodeRange; test: EpisodeRange } {
+  const warmup = options.warmup ?? WARMUP_CANDLES;
+  const testRatio = options.testRatio ?? 0.3;
+  const tradable = candleCount - 1 - warmup;
+  const testSteps = Math.floor(tradable * testRatio);
+  if (testSteps < 1 || tradable - testSteps < 2) {
+    throw new Error(`Not enough candles (${candleCount}) for a ${testRatio} holdout after ${warmup} warm-up candles`);
+  }
+
+  const trainEnd = candleCount - 1 - testSteps;
+  return {
+    train: { start: warmup, end: trainEnd },
+    test: { start: trainEnd, end: candleCount - 1 }
+  };
+}
+
+/**
+ * Rolling train/test windows for walk-forward evaluation
+ */
+export function walkForwardRanges(
+  candleCount: number,
+  options: { trainSize: number; testSize: number; step?: number; warmup?: number }
+): Array<{ train: EpisodeRange; test: EpisodeRange }> {
+  const warmup = options.warmup ?? WARMUP_CANDLES;
+  const step = options.step ?? options.testSize;
+  if (options.trainSize < 2 || options.testSize < 1 || step < 1) {
+    throw new Error('trainSize must be at least 2, testSize and step at least 1');
+  }
+
+  const ranges: Array<{ train: EpisodeRange; test: EpisodeRange }> = [];
+  for (let start = warmup; start + options.trainSize + options.testSize <= candleCount - 1; start += step) {
+    const trainEnd = start + options.trainSize;
+    ranges.push({
+      train: { start, end: trainEnd },
+      test: { start: trainEnd, end: trainEnd + options.testSize }
+    });
+  }
+  return ranges;
+}
+
+function summarizeEpisode(
+  env: TradingEnv,
+  policy: string,
+  start: number,
+  infos: StepInfo[],
+  totalReward: number
+): EpisodeResult {
+  const equityCurve = [env.initialCapital, ...infos.map(info => info.equity)];
+  const returns = equityCurve.slice(1).map((equity, i) => (equityCurve[i] > 0 ? equity / equityCurve[i] - 1 : -1));
+  const finalEquity = equityCurve[equityCurve.length - 1];
+  const totalReturn = finalEquity / env.initialCapital - 1;
+
+  const periodsPerYear = estimatePeriodsPerYear(env, start, start + infos.length);
+  const mean = returns.reduce((a, b) => a + b, 0) / Math.max(returns.length, 1);
+  const variance = returns.length > 1
+    ? returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1)
+    : 0;
+
+  let peak = equityCurve[0];
+  let maxDrawdown = 0;
+  for (const equity of equityCurve) {
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, 1 - equity / peak);
+  }
+
+  const fills = infos.filter(info => info.fill);
+  return {
+    policy,
+    start,
+    end: start + infos.length,
+    steps: infos.length,
+    initialEquity: env.initialCapital,
+    finalEquity,
+    totalReturn,
+    annualizedReturn: infos.length > 0 && finalEquity > 0
+      ? Math.pow(finalEquity / env.initialCapital, periodsPerYear / infos.length) - 1
+      : -1,
+    volatility: Math.sqrt(variance * periodsPerYear),
+    sharpeRatio: variance > 0 ? (mean / Math.sqrt(variance)) * Math.sqrt(periodsPerYear) : 0,
+    maxDrawdown,
+    trades: fills.length,
+    fees: fills.reduce((sum, info) => sum + info.fill!.fee, 0),
+    slippage: fills.reduce((sum, info) => sum + info.fill!.slippageCost, 0),
+    funding: infos.reduce((sum, info) => sum + info.funding, 0),
+    averageExposure: infos.reduce((sum, info) => sum + Math.abs(info.exposure), 0) / Math.max(infos.length, 1),
+    totalReward,
+    equityCurve
+  };
+}
+
+// Median candle spacing, so gaps in the data don't skew it
+function estimatePeriodsPerYear(env: TradingEnv, start: number, end: number): number {
+  const times = env.candles.slice(start, end + 1).map(candle => new Date(candle.date).getTime());
+  const spacings = times.slice(1).map((time, i) => time - times[i]).filter(spacing => spacing > 0).sort((a, b) => a - b);
+  if (spacings.length === 0) return 365;
+  const median = spacings[Math.floor(spacings.length / 2)];
+  return (365 * 24 * 60 * 60 * 1000) / median;
+}
@@ -0,0 +1,591 @@
+/**
+ * 🏋️ TRADING ENVIRONMENT
+ * Gym-style reset/step environment over historical candles for the RL agents
+ *
+ * - Orders decided on candle t fill at the open of candle t+1 (no look-ahead)
+ * - Fees, slippage with square-root market impact, volume participation caps
+ * - Position limits, funding on open positions and borrow cost on shorts
+ * - Pluggable rewards: P&L, differential Sharpe (Moody & Saffell, 2001), drawdown-penalized
+ */
+
+import type { Candle } from '@/lib/backtesting/types';
+import { mulberry32 } from '@/lib/math';
+import { atr, bollingerBands, macd, rsi, stochastic } from '@/lib/technicalIndicators';
+import type { TradingAction, TradingEnvironment, TradingState } from './ReinforcementLearningEngine';
+
+export interface ExecutionCosts {
+  feeRate: number; // per fill, fraction of notional
+  slippage: number; // fraction of price paid against us on market and stop orders
+  impact: number; // extra slippage per sqrt(fraction of candle volume traded)
+  fundingRate: number; // per candle on position notional; longs pay, shorts receive when positive
+  borrowRate: number; // per candle on short notional
+}
+
+export interface PositionLimits {
+  maxPosition: number; // max |exposure| as a fraction of equity, above 1 is leverage
+  allowShort: boolean;
+  minTradeSize: number; // orders below this fraction of equity are skipped
+  maxParticipation: number; // max fraction of a candle's volume one fill may take
+}
+
+export interface TradingEnvConfig {
+  candles: Candle[];
+  initialCapital?: number;
+  windowSize?: number; // candles of price history in each observation
+  start?: number; // first tradable candle index, after indicator warm-up by default
+  end?: number; // last candle index episodes may reach
+  episodeLength?: number; // steps per episode, random start within [start, end] when set
+  discreteOrderSize?: number; // fraction of equity traded by action indices (0 hold, 1 buy, 2 sell)
+  maxDrawdown?: number; // episode ends once drawdown from the peak exceeds this fraction
+  costs?: Partial<ExecutionCosts>;
+  limits?: Partial<PositionLimits>;
+  reward?: RewardFunction | RewardFunctionName;
+  seed?: number;
+}
+
+export interface Fill {
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  fee: number;
+  slippageCost: number; // versus filling at the reference price
+  partial: boolean;
+}
+
+export interface StepInfo {
+  step: number;
+  index: number; // candle index the step ended on
+  timestamp: number;
+  price: number;
+  equity: number;
+  cash: number;
+  position: number; // units, negative when short
+  exposure: number; // position notional / equity
+  fill: Fill | null;
+  rejected?: string;
+  funding: number; // paid this step, negative when received
+  costs: number; // fees + slippage + funding this step
+  drawdown: number; // 0-1 from the episode's peak equity
+  truncated: boolean; // ended by running out of candles rather than a terminal condition
+}
+
+export const WARMUP_CANDLES = 35; // MACD(12, 26, 9) needs the most history
+
+const DEFAULT_COSTS: ExecutionCosts = {
+  feeRate: 0.001,
+  slippage: 0.0005,
+  impact: 0.01,
+  fundingRate: 0,
+  borrowRate: 0
+};
+
+const DEFAULT_LIMITS: PositionLimits = {
+  maxPosition: 1,
+  allowShort: false,
+  minTradeSize: 0.001,
+  maxParticipation: 0.1
+};
+
+interface IndicatorSeries {
+  rsi: number[];
+  macd: number[];
+  macdSignal: number[];
+  bbands: Array<{ upper: number; middle: number; lower: number }>;
+  atr: number[];
+  adx: number[];
+  stochK: number[];
+  stochD: number[];
+}
+
+export class TradingEnv {
+  readonly candles: Candle[];
+  readonly initialCapital: number;
+  readonly costs: ExecutionCosts;
+  readonly limits: PositionLimits;
+  readonly reward: RewardFunction;
+
+  private config: TradingEnvConfig;
+  private windowSize: number;
+  private firstIndex: number;
+  private lastIndex: number;
+  private indicators: IndicatorSeries;
+  private random: () => number;
+
+  // Episode state
+  private index = 0;
+  private episodeEnd = 0;
+  private stepCount = 0;
+  private cash = 0;
+  private position = 0;
+  private avgEntryPrice = 0;
+  private realizedPnL = 0;
+  private peakEquity = 0;
+  private equityReturns: number[] = [];
+  private done = true;
+
+  constructor(config: TradingEnvConfig) {
+    this.config = config;
+    this.candles = config.candles;
+    this.initialCapital = config.initialCapital ?? 10_000;
+    this.windowSize = config.windowSize ?? 10;
+    this.costs = { ...DEFAULT_COSTS, ...config.costs };
+    this.limits = { ...DEFAULT_LIMITS, ...config.limits };
+    this.reward = typeof config.reward === 'object'
+      ? config.reward
+      : createRewardFunction(config.reward ?? 'pnl');
+    this.random = mulberry32(config.seed ?? 42);
+
+    this.firstIndex = config.start ?? Math.max(WARMUP_CANDLES, this.windowSize);
+    this.lastIndex = config.end ?? this.candles.length - 1;
+    if (this.firstIndex < this.windowSize) {
+      throw new Error(`start must leave ${this.windowSize} candles of history`);
+    }
+    if (this.lastIndex >= this.candles.length || this.lastIndex <= this.firstIndex) {
+      throw new Error(`Need candles after index ${this.firstIndex} to step through, got ${this.candles.length}`);
+    }
+    if (config.episodeLength !== undefined && config.episodeLength > this.lastIndex - this.firstIndex) {
+      throw new Error(`episodeLength ${config.episodeLength} exceeds the ${this.lastIndex - this.firstIndex} steps available`);
+    }
+
+    this.indicators = computeIndicators(this.candles);
+  }
+
+  get equity(): number {
+    return this.cash + this.position * this.candles[this.index].close;
+  }
+
+  get isDone(): boolean {
+    return this.done;
+  }
+
+  get currentIndex(): number {
+    return this.index;
+  }
+
+  /**
+   * Starts an episode with all capital in cash and returns the first observation
+   */
+  reset(options: { start?: number } = {}): TradingState {
+    const length = this.config.episodeLength;
+    let start = options.start ?? this.firstIndex;
+    if (options.start === undefined && length !== undefined) {
+      const latestStart = this.lastIndex - length;
+      start = this.firstIndex + Math.floor(this.random() * (latestStart - this.firstIndex + 1));
+    }
+    if (start < this.firstIndex || start >= this.lastIndex) {
+      throw new Error(`Episode start ${start} outside [${this.firstIndex}, ${this.lastIndex - 1}]`);
+    }
+
+    this.index = start;
+    this.episodeEnd = length !== undefined ? Math.min(start + length, this.lastIndex) : this.lastIndex;
+    this.stepCount = 0;
+    this.cash = this.initialCapital;
+    this.position = 0;
+    this.avgEntryPrice = 0;
+    this.realizedPnL = 0;
+    this.peakEquity = this.initialCapital;
+    this.equityReturns = [];
+    this.done = false;
+    this.reward.reset();
+
+    return this.observe();
+  }
+
+  /**
+   * Executes an action at the next candle's open, marks to its close and returns the
+   * transition. Action indices follow the engine's ActionMapper: 0 hold, 1 buy, 2 sell
+   */
+  step(input: TradingAction | number): TradingEnvironment {
+    if (this.done) throw new Error('Episode is done, call reset() first');
+    const action = typeof input === 'number' ? this.actionFromIndex(input) : input;
+
+    const previousEquity = this.equity;
+    const previousDrawdown = 1 - previousEquity / this.peakEquity;
+    this.index++;
+    this.stepCount++;
+    const candle = this.candles[this.index];
+
+    // Funding and borrow accrue on the position held into this candle
+    const notional = this.position * candle.open;
+    const funding = notional * this.costs.fundingRate + Math.max(0, -notional) * this.costs.borrowRate;
+    this.cash -= funding;
+
+    const { fill, rejected } = this.execute(action, candle, previousEquity);
+
+    const equity = this.equity;
+    this.peakEquity = Math.max(this.peakEquity, equity);
+    const drawdown = 1 - equity / this.peakEquity;
+    const stepReturn = previousEquity > 0 ? equity / previousEquity - 1 : -1;
+    this.equityReturns.push(stepReturn);
+
+    const costs = (fill ? fill.fee + fill.slippageCost : 0) + funding;
+    const bankrupt = equity <= 0;
+    const stoppedOut = this.config.maxDrawdown !== undefined && drawdown > this.config.maxDrawdown;
+    const truncated = this.index >= this.episodeEnd;
+    this.done = bankrupt || stoppedOut || truncated;
+
+    const reward = this.reward.compute({
+      previousEquity,
+      equity,
+      stepReturn,
+      drawdown,
+      previousDrawdown,
+      costs,
+      exposure: equity > 0 ? (this.position * candle.close) / equity : 0,
+      initialCapital: this.initialCapital,
+      done: this.done
+    });
+
+    const info: StepInfo = {
+      step: this.stepCount,
+      index: this.index,
+      timestamp: new Date(candle.date).getTime(),
+      price: candle.close,
+      equity,
+      cash: this.cash,
+      position: this.position,
+      exposure: equity > 0 ? (this.position * candle.close) / equity : 0,
+      fill,
+      ...(rejected ? { rejected } : {}),
+      funding,
+      costs,
+      drawdown,
+      truncated: truncated && !bankrupt && !stoppedOut
+    };
+
+    return { state: this.observe(), action, reward, done: this.done, info };
+  }
+
+  private actionFromIndex(index: number): TradingAction {
+    const side = (['hold', 'buy', 'sell'] as const)[index];
+    if (!side) throw new Error(`Unknown action index ${index}`);
+    return { type: 'market', side, size: this.config.discreteOrderSize ?? 0.25, confidence: 1 };
+  }
+
+  private execute(
+    action: TradingAction,
+    candle: Candle,
+    equity: number
+  ): { fill: Fill | null; rejected?: string } {
+    if (action.side === 'hold' || !(action.size > 0)) return { fill: null };
+    if (equity <= 0) return { fill: null, rejected: 'No equity left' };
+
+    const direction = action.side === 'buy' ? 1 : -1;
+    let reference: number;
+    let slipped = true;
+
+    switch (action.type) {
+      case 'limit': {
+        if (action.price === undefined) return { fill: null, rejected: 'Limit order without a price' };
+        const touched = direction > 0 ? candle.low <= action.price : candle.high >= action.price;
+        if (!touched) return { fill: null, rejected: 'Limit price not reached' };
+        // Gapping through the limit fills at the better open
+        reference = direction > 0 ? Math.min(candle.open, action.price) : Math.max(candle.open, action.price);
+        slipped = false;
+        break;
+      }
+      case 'stop': {
+        if (action.price === undefined) return { fill: null, rejected: 'Stop order without a price' };
+        const triggered = direction > 0 ? candle.high >= action.price : candle.low <= action.price;
+        if (!triggered) return { fill: null, rejected: 'Stop price not reached' };
+        reference = direction > 0 ? Math.max(candle.open, action.price) : Math.min(candle.open, action.price);
+        break;
+      }
+      default:
+        reference = candle.open;
+    }
+
+    // Size in units against the equity at decision time, then clamp to the position limits
+    let quantity = (action.size * equity) / reference;
+    const maxUnits = (this.limits.maxPosition * equity) / reference;
+    const minPosition = this.limits.allowShort ? -maxUnits : 0;
+    const target = Math.max(minPosition, Math.min(maxUnits, this.position + direction * quantity));
+    quantity = Math.abs(target - this.position);
+    if (quantity === 0) return { fill: null, rejected: 'Position limit reached' };
+
+    let partial = false;
+    if (candle.volume > 0 && quantity > candle.volume * this.limits.maxParticipation) {
+      quantity = candle.volume * this.limits.maxParticipation;
+      partial = true;
+    }
+
+    const participation = candle.volume > 0 ? quantity / candle.volume : 0;
+    const slippage = slipped ? this.costs.slippage + this.costs.impact * Math.sqrt(participation) : 0;
+    const price = reference * (1 + direction * slippage);
+
+    // Without leverage a buy can't spend more cash than there is
+    if (direction > 0 && this.limits.maxPosition <= 1) {
+      const affordable = Math.max(0, this.cash / (price * (1 + this.costs.feeRate)));
+      if (quantity > affordable) {
+        quantity = affordable;
+        partial = true;
+      }
+    }
+
+    if (quantity * reference < this.limits.minTradeSize * equity) {
+      return { fill: null, rejected: 'Order below minimum trade size after limits' };
+    }
+
+    const fee = quantity * price * this.costs.feeRate;
+    this.applyFill(direction * quantity, price);
+    this.cash -= fee;
+
+    return {
+      fill: {
+        side: action.side,
+        quantity,
+        price,
+        fee,
+        slippageCost: quantity * Math.abs(price - reference),
+        partial
+      }
+    };
+  }
+
+  private applyFill(signedQuantity: number, price: number): void {
+    const previous = this.position;
+    const next = previous + signedQuantity;
+    this.cash -= signedQuantity * price;
+
+    if (previous === 0 || Math.sign(previous) === Math.sign(signedQuantity)) {
+      // Opening or adding: volume-weighted entry
+      this.avgEntryPrice = (Math.abs(previous) * this.avgEntryPrice + Math.abs(signedQuantity) * price) / Math.abs(next);
+    } else {
+      const closed = Math.min(Math.abs(previous), Math.abs(signedQuantity));
+      this.realizedPnL += closed * (price - this.avgEntryPrice) * Math.sign(previous);
+      if (Math.abs(signedQuantity) > Math.abs(previous)) this.avgEntryPrice = price; // flipped
+      else if (Math.abs(next) < 1e-12) this.avgEntryPrice = 0;
+    }
+    this.position = Math.abs(next) < 1e-12 ? 0 : next;
+  }
+
+  private observe(): TradingState {
+    const i = this.index;
+    const candle = this.candles[i];
+    const window = this.candles.slice(i - this.windowSize, i + 1);
+    const closes = window.map(c => c.close);
+    const returns = closes.slice(1).map((close, k) => Math.log(close / closes[k]));
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const volatility = Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / returns.length);
+
+    const equity = this.equity;
+    const range = candle.high - candle.low;
+    const closeLocation = range > 0 ? (candle.close - candle.low) / range : 0.5;
+    const atrValue = this.indicators.atr[i];
+    const atrPercent = (atrValue / candle.close) * 100;
+    const maxVolume = Math.max(...window.map(c => c.volume));
+    const middle = this.indicators.bbands[i].middle;
+
+    return {
+      priceFeatures: closes,
+      returns,
+      volatility,
+      technicalIndicators: {
+        rsi: this.indicators.rsi[i],
+        macd: this.indicators.macd[i],
+        macdSignal: this.indicators.macdSignal[i],
+        bbands: this.indicators.bbands[i],
+        atr: atrValue,
+        adx: this.indicators.adx[i],
+        stochastic: { k: this.indicators.stochK[i], d: this.indicators.stochD[i] }
+      },
+      // No recorded book: volume is split by where the candle closed in its range
+      orderBook: {
+        bidVolume: candle.volume * closeLocation,
+        askVolume: candle.volume * (1 - closeLocation),
+        spread: this.costs.slippage * 2,
+        imbalance: closeLocation * 2 - 1
+      },
+      portfolio: {
+        position: equity > 0 ? (this.position * candle.close) / equity : 0,
+        avgEntryPrice: this.avgEntryPrice,
+        unrealizedPnL: (this.position * (candle.close - this.avgEntryPrice)) / this.initialCapital,
+        realizedPnL: this.realizedPnL / this.initialCapital,
+        drawdown: -(1 - equity / this.peakEquity),
+        sharpeRatio: sharpe(this.equityReturns)
+      },
+      regime: {
+        trend: Math.tanh(((candle.close - middle) / middle) * 20),
+        volatilityRegime: atrPercent < 1 ? 'low' : atrPercent > 3 ? 'high' : 'medium',
+        liquidityLevel: maxVolume > 0 ? candle.volume / maxVolume : 0
+      }
+    };
+  }
+}
+
+/**
+ * Indicator values aligned to candle indices. The helpers return series that end at the
+ * last candle, so each is right-aligned and the warm-up is back-filled with neutral values
+ */
+function computeIndicators(candles: Candle[]): IndicatorSeries {
+  const close = candles.map(c => c.close);
+  const high = candles.map(c => c.high);
+  const low = candles.map(c => c.low);
+  const n = candles.length;
+
+  const align = <T>(series: T[], neutral: (i: number) => T): T[] =>
+    Array.from({ length: n }, (_, i) => series[i - (n - series.length)] ?? neutral(i));
+
+  const macdSeries = macd(close);
+  const stochSeries = stochastic(high, low, close);
+  const finite = (value: number, fallback: number) => (Number.isFinite(value) ? value : fallback);
+
+  return {
+    rsi: align(rsi(close).map(r => r.value), () => 50),
+    macd: align(macdSeries.map(m => m.macd), () => 0),
+    macdSignal: align(macdSeries.map(m => m.signal), () => 0),
+    bbands: align(
+      bollingerBands(close).map(b => ({ upper: b.upper, middle: b.middle, lower: b.lower })),
+      i => ({ upper: close[i], middle: close[i], lower: close[i] })
+    ),
+    atr: align(atr(high, low, close).map(a => a.value), i => high[i] - low[i]),
+    adx: align(averageDirectionalIndex(high, low, close), () => 0),
+    // Flat ranges divide by zero in %K
+    stochK: align(stochSeries.map(s => finite(s.percentK, 50)), () => 50),
+    stochD: align(stochSeries.map(s => finite(s.percentD, 50)), () => 50)
+  };
+}
+
+/**
+ * Wilder's ADX, one value per candle from index 2 * period onwards
+ */
+function averageDirectionalIndex(high: number[], low: number[], close: number[], period: number = 14): number[] {
+  const tr: number[] = [];
+  const plusDM: number[] = [];
+  const minusDM: number[] = [];
+  for (let i = 1; i < close.length; i++) {
+    const up = high[i] - high[i - 1];
+    const down = low[i - 1] - low[i];
+    plusDM.push(up > down && up > 0 ? up : 0);
+    minusDM.push(down > up && down > 0 ? down : 0);
+    tr.push(Math.max(high[i] - low[i], Math.abs(high[i] - close[i - 1]), Math.abs(low[i] - close[i - 1])));
+  }
+  if (tr.length < period * 2) return [];
+
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  let smoothedTR = sum(tr.slice(0, period));
+  let smoothedPlus = sum(plusDM.slice(0, period));
+  let smoothedMinus = sum(minusDM.slice(0, period));
+  const dx: number[] = [];
+
+  for (let i = period; i <= tr.length; i++) {
+    if (i > period) {
+      smoothedTR = smoothedTR - smoothedTR / period + tr[i - 1];
+      smoothedPlus = smoothedPlus - smoothedPlus / period + plusDM[i - 1];
+      smoothedMinus = smoothedMinus - smoothedMinus / period + minusDM[i - 1];
+    }
+    const plusDI = smoothedTR > 0 ? (100 * smoothedPlus) / smoothedTR : 0;
+    const minusDI = smoothedTR > 0 ? (100 * smoothedMinus) / smoothedTR : 0;
+    dx.push(plusDI + minusDI > 0 ? (100 * Math.abs(plusDI - minusDI)) / (plusDI + minusDI) : 0);
+  }
+
+  const adx: number[] = [];
+  let current = sum(dx.slice(0, period)) / period;
+  adx.push(current);
+  for (let i = period; i < dx.length; i++) {
+    current = (current * (period - 1) + dx[i]) / period;
+    adx.push(current);
+  }
+  return adx;
+}
+
+function sharpe(returns: number[]): number {
+  if (returns.length < 2) return 0;
+  const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  return variance > 0 ? mean / Math.sqrt(variance) : 0;
+}
+
+// Reward Functions
+
+export interface RewardContext {
+  previousEquity: number;
+  equity: number;
+  stepReturn: number; // simple return of equity over the step
+  drawdown: number; // 0-1
+  previousDrawdown: number;
+  costs: number; // fees + slippage + funding paid this step
+  exposure: number;
+  initialCapital: number;
+  done: boolean;
+}
+
+export interface RewardFunction {
+  readonly name: string;
+  reset(): void;
+  compute(context: RewardContext): number;
+}
+
+export type RewardFunctionName = 'pnl' | 'differential_sharpe' | 'drawdown_penalized';
+
+/**
+ * Change in equity as a fraction of starting capital, net of every cost
+ */
+export class PnLReward implements RewardFunction {
+  readonly name = 'pnl';
+
+  reset(): void {}
+
+  compute(context: RewardContext): number {
+    return (context.equity - context.previousEquity) / context.initialCapital;
+  }
+}
+
+/**
+ * Differential Sharpe ratio: the first-order effect of this step's return on an
+ * exponentially weighted Sharpe ratio, so the agent optimises risk-adjusted return online
+ */
+export class DifferentialSharpeReward implements RewardFunction {
+  readonly name = 'differential_sharpe';
+  private meanReturn = 0; // A, EWMA of returns
+  private meanSquare = 0; // B, EWMA of squared returns
+
+  constructor(private eta: number = 0.01) {}
+
+  reset(): void {
+    this.meanReturn = 0;
+    this.meanSquare = 0;
+  }
+
+  compute({ stepReturn }: RewardContext): number {
+    const deltaA = stepReturn - this.meanReturn;
+    const deltaB = stepReturn * stepReturn - this.meanSquare;
+    const variance = this.meanSquare - this.meanReturn * this.meanReturn;
+
+    const reward = variance > 1e-12
+      ? (this.meanSquare * deltaA - 0.5 * this.meanReturn * deltaB) / Math.pow(variance, 1.5)
+      : stepReturn; // no variance estimate yet
+
+    this.meanReturn += this.eta * deltaA;
+    this.meanSquare += this.eta * deltaB;
+    return reward;
+  }
+}
+
+/**
+ * Step return minus a penalty on every new increase in drawdown
+ */
+export class DrawdownPenalizedReward implements RewardFunction {
+  readonly name = 'drawdown_penalized';
+
+  constructor(private penalty: number = 2) {}
+
+  reset(): void {}
+
+  compute({ stepReturn, drawdown, previousDrawdown }: RewardContext): number {
+    return stepReturn - this.penalty * Math.max(0, drawdown - previousDrawdown);
+  }
+}
+
+export function createRewardFunction(name: RewardFunctionName): RewardFunction {
+  switch (name) {
+    case 'pnl':
+      return new PnLReward();
+    case 'differential_sharpe':
+      return new DifferentialSharpeReward();
+    case 'drawdown_penalized':
+      return new DrawdownPenalizedReward();
+    default:
+      throw new Error(`Unknown reward function: ${name}`);
+  }
+}
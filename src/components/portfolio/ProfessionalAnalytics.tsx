@@ -19,7 +19,7 @@ import {
 import { format, subDays, startOfDay, addDays } from 'date-fns';
 import { Portfolio, PortfolioMetrics, RiskAnalysis, AIInsight } from '@/types/portfolio';
 import { AIAnalysisEngine } from '@/lib/services/AIAnalysisEngine';
-import { PortfolioExporter } from '@/lib/services/PortfolioExporter';
+import { PortfolioExporter, type ExportFormat } from '@/lib/services/PortfolioExporter';
 
 interface ProfessionalAnalyticsProps {
   portfolio: Portfolio | null;
@@ -49,7 +49,7 @@ export function ProfessionalAnalytics({ portfolio, walletAddress, className = ''
   const [loading, setLoading] = useState(false);
   const [timeframe, setTimeframe] = useState('30d');
   const [activeTab, setActiveTab] = useState('overview');
-  const [exportFormat, setExportFormat] = useState<'csv' | 'pdf'>('csv');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
   
   const aiEngine = useMemo(() => new AIAnalysisEngine(), []);
   const exporter = useMemo(() => new PortfolioExporter(), []);
@@ -151,11 +151,7 @@ export function ProfessionalAnalytics({ portfolio, walletAddress, className = ''
     
     setLoading(true);
     try {
-      if (exportFormat === 'csv') {
-        await exporter.exportToCSV(portfolio);
-      } else {
-        await exporter.exportToPDF(portfolio);
-      }
+      await exporter.export(portfolio, exportFormat);
     } catch (error) {
       console.error('Export failed:', error);
     }
@@ -189,13 +185,15 @@ export function ProfessionalAnalytics({ portfolio, walletAddress, className = ''
             </p>
           </div>
           <div className="flex items-center gap-3">
-            <Select value={exportFormat} onValueChange={(v: 'csv' | 'pdf') => setExportFormat(v)}>
+            <Select value={exportFormat} onValueChange={(v: ExportFormat) => setExportFormat(v)}>
               <SelectTrigger className="w-32 bg-gray-800 border-gray-600">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="xlsx">Excel</SelectItem>
                 <SelectItem value="pdf">PDF</SelectItem>
+                <SelectItem value="json">JSON (backup)</SelectItem>
               </SelectContent>
             </Select>
             <Button onClick={handleExport} disabled={loading} className="bg-orange-600 hover:bg-orange-700">
@@ -3,12 +3,18 @@
  */
 
 import { useState, useCallback, useRef } from 'react';
-import { BacktestingEngine, BacktestConfig, BacktestResult } from '@/lib/backtesting/backtesting-engine';
-import { Strategy } from '@/lib/backtesting/strategies';
+import { BacktestingEngine, type BacktestConfig, type BacktestResult } from '@/lib/backtesting/backtesting-engine';
+import type { Strategy, ParameterizedStrategy } from '@/lib/backtesting/strategies';
+import { WalkForwardOptimizer, type WalkForwardOptions, type WalkForwardReport } from '@/lib/backtesting/optimizer';
+import { compileStrategy, type CompiledStrategy, RuleContext, signalAt } from '@/lib/backtesting/rules';
+import type { Candle, CandleInterval, TradingStrategy } from '@/lib/backtesting/types';
 
 export interface BacktestingHook {
-  runBacktest: (strategy: Strategy, data: any[]) => Promise<void>;
+  runBacktest: (strategy: Strategy, data: Candle[]) => Promise<void>;
+  runRuleBacktest: (strategy: TradingStrategy, data: Candle[], interval: CandleInterval) => Promise<void>;
+  runOptimization: (strategy: ParameterizedStrategy, data: Candle[], options: WalkForwardOptions) => Promise<void>;
   results: BacktestResult | null;
+  optimization: WalkForwardReport | null;
   isRunning: boolean;
   progress: number;
   error: string | null;
@@ -29,9 +35,11 @@ export function useBacktesting(config?: Partial<BacktestConfig>): BacktestingHoo
   const [isRunning, setIsRunning] = useState(false);
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [optimization, setOptimization] = useState<WalkForwardReport | null>(null);
   const engineRef = useRef<BacktestingEngine | null>(null);
+  const optimizerRef = useRef<WalkForwardOptimizer | null>(null);
 
-  const runBacktest = useCallback(async (strategy: Strategy, data: any[]) => {
+  const runBacktest = useCallback(async (strategy: Strategy, data: Candle[]) => {
     try {
       setIsRunning(true);
       setError(null);
@@ -61,15 +69,77 @@ export function useBacktesting(config?: Partial<BacktestConfig>): BacktestingHoo
     }
   }, [config]);
 
+  // Estratégias declarativas: os indicadores são calculados uma vez sobre toda a série e as
+  // regras avaliadas candle a candle (os indicadores só dependem dos candles até o índice)
+  const runRuleBacktest = useCallback(async (strategy: TradingStrategy, data: Candle[], interval: CandleInterval) => {
+    let compiled: CompiledStrategy;
+    try {
+      compiled = compileStrategy(strategy);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid strategy rules');
+      return;
+    }
+
+    const ctx = new RuleContext(data, interval);
+    let index = -1;
+    await runBacktest({
+      name: strategy.name,
+      description: 'Declarative rule strategy',
+      // O engine percorre `data` em ordem, um candle por chamada
+      execute: async () => signalAt(compiled, ctx, ++index)
+    }, data);
+  }, [runBacktest]);
+
+  const runOptimization = useCallback(async (
+    strategy: ParameterizedStrategy,
+    data: Candle[],
+    options: WalkForwardOptions
+  ) => {
+    try {
+      setIsRunning(true);
+      setError(null);
+      setProgress(0);
+      setOptimization(null);
+
+      const optimizer = new WalkForwardOptimizer();
+      optimizerRef.current = optimizer;
+
+      optimizer.on('optimizer:progress', (event) => {
+        setProgress(event.progress);
+      });
+
+      const bars = data.map(candle => ({ timestamp: candle.date, close: candle.close }));
+
+      const report = await optimizer.optimize(strategy, bars, {
+        commission: config?.commission ?? defaultConfig.commission,
+        slippage: config?.slippage ?? defaultConfig.slippage,
+        ...options
+      });
+      setOptimization(report);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      optimizerRef.current = null;
+      setIsRunning(false);
+      setProgress(100);
+    }
+  }, [config]);
+
   const stop = useCallback(() => {
     if (engineRef.current) {
       engineRef.current.stop();
     }
+    if (optimizerRef.current) {
+      optimizerRef.current.stop();
+    }
   }, []);
 
   return {
     runBacktest,
+    runRuleBacktest,
+    runOptimization,
     results,
+    optimization,
     isRunning,
     progress,
     error,
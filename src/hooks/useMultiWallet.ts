@@ -8,6 +8,15 @@ import { useWallet } from '@/contexts/WalletContext'; // Bitcoin wallets
 import EVMWalletService, { type EVMWalletConnection } from '@/lib/evmWalletConnect';
 import SolanaWalletService, { type SolanaWalletConnection } from '@/lib/solanaWalletConnect';
 import { NetworkDetectionService, ASSET_WALLET_MAPPING } from '@/lib/networkDetection';
+import {
+  watchOnlyWallets,
+  type DescriptorImportOptions,
+  type ExtendedKeyImportOptions,
+  type WatchOnlyWallet,
+  type WatchOnlyWalletConfig
+} from '@/services/wallet/WatchOnlyWallets';
+
+const WATCH_ONLY_STORAGE_KEY = 'cypher-watch-only-wallets';
 
 export interface MultiWalletState {
   // Bitcoin wallets (via existing WalletContext)
@@ -37,6 +46,13 @@ export interface MultiWalletState {
     error: string | null;
   };
   
+  // Watch-only wallets (xpub/descriptor), tracked but unable to sign
+  watchOnly: {
+    wallets: WatchOnlyWallet[];
+    isSyncing: boolean;
+    error: string | null;
+  };
+  
   // Global state
   isInitialized: boolean;
   recommendedWallet: {
@@ -87,10 +103,32 @@ export function useMultiWallet() {
       isConnecting: false,
       error: null
     },
+    watchOnly: {
+      wallets: [],
+      isSyncing: false,
+      error: null
+    },
     isInitialized: false,
     recommendedWallet: null
   });
 
+  /**
+   * Sincroniza carteiras watch-only e atualiza o estado
+   */
+  const syncWatchOnlyWallets = useCallback(async () => {
+    setState(prev => ({
+      ...prev,
+      watchOnly: { ...prev.watchOnly, isSyncing: true, error: null }
+    }));
+    
+    await watchOnlyWallets.syncAll();
+    
+    setState(prev => ({
+      ...prev,
+      watchOnly: { ...prev.watchOnly, wallets: watchOnlyWallets.getWallets(), isSyncing: false }
+    }));
+  }, []);
+
   /**
    * Inicializa detecção de carteiras
    */
@@ -104,6 +142,11 @@ export function useMultiWallet() {
       // Detectar carteiras Solana disponíveis
       const solanaWallets = await solanaService.detectAvailableWallets();
       
+      // Restaurar carteiras watch-only salvas
+      if (watchOnlyWallets.getWallets().length === 0) {
+        watchOnlyWallets.restore(loadWatchOnlyWallets());
+      }
+      
       setState(prev => ({
         ...prev,
         evm: {
@@ -114,9 +157,17 @@ export function useMultiWallet() {
           ...prev.solana,
           availableWallets: solanaWallets
         },
+        watchOnly: {
+          ...prev.watchOnly,
+          wallets: watchOnlyWallets.getWallets()
+        },
         isInitialized: true
       }));
       
+      if (watchOnlyWallets.getWallets().length > 0) {
+        syncWatchOnlyWallets();
+      }
+      
       console.log('✅ Multi-wallet system initialized:', {
         evm: evmWallets,
         solana: solanaWallets
@@ -125,7 +176,7 @@ export function useMultiWallet() {
     } catch (error) {
       console.error('❌ Error initializing wallets:', error);
     }
-  }, [evmService, solanaService]);
+  }, [evmService, solanaService, syncWatchOnlyWallets]);
 
   /**
    * Conecta carteira EVM
@@ -245,6 +296,56 @@ export function useMultiWallet() {
     }
   }, [solanaService]);
 
+  /**
+   * Importa carteira watch-only a partir de xpub/ypub/zpub ou descriptor
+   */
+  const importWatchOnlyWallet = useCallback(async (
+    source: string,
+    options: ExtendedKeyImportOptions & DescriptorImportOptions = {}
+  ) => {
+    setState(prev => ({
+      ...prev,
+      watchOnly: { ...prev.watchOnly, isSyncing: true, error: null }
+    }));
+    
+    try {
+      // Descriptors sempre têm parênteses, chaves estendidas nunca
+      const wallet = source.includes('(')
+        ? await watchOnlyWallets.importDescriptor(source, options)
+        : await watchOnlyWallets.importExtendedKey(source, options);
+      
+      saveWatchOnlyWallets();
+      setState(prev => ({
+        ...prev,
+        watchOnly: { wallets: watchOnlyWallets.getWallets(), isSyncing: false, error: null }
+      }));
+      
+      return wallet;
+      
+    } catch (error: any) {
+      // A carteira pode ter sido importada mesmo se a sincronização falhou
+      saveWatchOnlyWallets();
+      setState(prev => ({
+        ...prev,
+        watchOnly: { wallets: watchOnlyWallets.getWallets(), isSyncing: false, error: error.message }
+      }));
+      throw error;
+    }
+  }, []);
+
+  /**
+   * Remove carteira watch-only
+   */
+  const removeWatchOnlyWallet = useCallback((walletId: string) => {
+    watchOnlyWallets.removeWallet(walletId);
+    saveWatchOnlyWallets();
+    
+    setState(prev => ({
+      ...prev,
+      watchOnly: { ...prev.watchOnly, wallets: watchOnlyWallets.getWallets() }
+    }));
+  }, []);
+
   /**
    * Recomenda melhor carteira para um ativo
    */
@@ -499,6 +600,11 @@ export function useMultiWallet() {
     connectSolanaWallet,
     disconnectSolanaWallet,
     
+    // Métodos watch-only
+    importWatchOnlyWallet,
+    removeWatchOnlyWallet,
+    syncWatchOnlyWallets,
+    
     // Métodos inteligentes
     getWalletRecommendation,
     connectForAsset,
@@ -509,8 +615,23 @@ export function useMultiWallet() {
     
     // Status geral
     hasAnyConnection: state.bitcoin.isConnected || state.evm.connections.length > 0 || state.solana.connections.length > 0,
-    totalConnections: (state.bitcoin.isConnected ? 1 : 0) + state.evm.connections.length + state.solana.connections.length
+    totalConnections: (state.bitcoin.isConnected ? 1 : 0) + state.evm.connections.length + state.solana.connections.length,
+    totalWatchOnly: state.watchOnly.wallets.length
   };
 }
 
+function loadWatchOnlyWallets(): WatchOnlyWalletConfig[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    return JSON.parse(localStorage.getItem(WATCH_ONLY_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function saveWatchOnlyWallets(): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(WATCH_ONLY_STORAGE_KEY, JSON.stringify(watchOnlyWallets.getConfigs()));
+}
+
 export default useMultiWallet;
\ No newline at end of file
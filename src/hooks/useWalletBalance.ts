@@ -1,21 +1,29 @@
-import { useEffect, useState, useCallback } from 'react'
+import { useEffect, useState, useCallback, useRef } from 'react'
 import { useWallet } from '@/contexts/WalletContext'
+import { utxoManager } from '@/services/wallet/UtxoManager'
 
 interface WalletBalance {
   confirmed: number
   unconfirmed: number
   total: number
+  spendable: number | null // excludes inscription, rune and rare sat UTXOs; null when the UTXO set couldn't be loaded
+  protected: number | null
   address: string
   lastUpdate: Date
 }
 
+// Tagging UTXOs costs an inscription, rune and sat range lookup per output, so polls reuse the
+// last result until the address sees a new transaction or this much time has passed
+const UTXO_REFRESH_INTERVAL = 10 * 60 * 1000
+
 export function useWalletBalance() {
   const { isConnected, address } = useWallet()
   const [balance, setBalance] = useState<WalletBalance | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const utxoSync = useRef<{ address: string; txCount: number; refreshedAt: number } | null>(null)
 
-  const fetchBalance = useCallback(async () => {
+  const fetchBalance = useCallback(async (refreshUtxos: boolean = false) => {
     if (!address) {
       setBalance(null)
       return
@@ -40,11 +48,34 @@ export function useWalletBalance() {
       }
 
       const data = await response.json()
+
+      const txCount = data.chain_stats.tx_count + data.mempool_stats.tx_count
+      const synced = utxoSync.current
+      const stale = refreshUtxos
+        || !synced
+        || synced.address !== address
+        || synced.txCount !== txCount
+        || Date.now() - synced.refreshedAt > UTXO_REFRESH_INTERVAL
+
+      const utxoBalance = stale
+        ? await utxoManager.refresh(address)
+          .then(() => {
+            utxoSync.current = { address, txCount, refreshedAt: Date.now() }
+            return utxoManager.getBalance(address)
+          })
+          .catch(err => {
+            console.error('Error tagging wallet UTXOs:', err)
+            utxoSync.current = null
+            return null
+          })
+        : utxoManager.getBalance(address)
       
       const balanceData: WalletBalance = {
         confirmed: data.chain_stats.funded_txo_sum / 100000000, // Convert from satoshis to BTC
         unconfirmed: data.mempool_stats.funded_txo_sum / 100000000,
         total: (data.chain_stats.funded_txo_sum + data.mempool_stats.funded_txo_sum) / 100000000,
+        spendable: utxoBalance ? utxoBalance.spendable / 100000000 : null,
+        protected: utxoBalance ? utxoBalance.protected / 100000000 : null,
         address,
         lastUpdate: new Date()
       }
@@ -63,16 +94,19 @@ export function useWalletBalance() {
       fetchBalance()
       
       // Refresh balance every 30 seconds
-      const interval = setInterval(fetchBalance, 30000)
+      const interval = setInterval(() => fetchBalance(), 30000)
       
       return () => clearInterval(interval)
     }
   }, [isConnected, address, fetchBalance])
 
+  // A manual refetch always re-tags the UTXOs
+  const refetch = useCallback(() => fetchBalance(true), [fetchBalance])
+
   return {
     balance,
     loading,
     error,
-    refetch: fetchBalance
+    refetch
   }
 }
\ No newline at end of file
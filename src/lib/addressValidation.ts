@@ -1,11 +1,13 @@
 /**
  * Bitcoin Address Validation System
- * Comprehensive validation for Bitcoin addresses
- * 
- * @version 1.0.0
+ * Comprehensive validation for Bitcoin addresses and address <-> scriptPubKey conversion
+ *
+ * @version 1.1.0
  * @author CYPHER ORDI FUTURE - Agent 5
  */
 
+import { getBytes, sha256 as ethersSha256 } from 'ethers';
+
 // Address Type Enum
 export enum AddressType {
   P2PKH = 'P2PKH',         // Pay to Public Key Hash (Legacy)
@@ -13,18 +15,44 @@ export enum AddressType {
   P2WPKH = 'P2WPKH',       // Pay to Witness Public Key Hash (Bech32)
   P2WSH = 'P2WSH',         // Pay to Witness Script Hash (Bech32)
   P2TR = 'P2TR',           // Pay to Taproot (Bech32m)
+  WITNESS_UNKNOWN = 'WITNESS_UNKNOWN', // Future witness version (Bech32m)
+  SILENT_PAYMENT = 'SILENT_PAYMENT',   // BIP352 silent payment (sp1...)
   UNKNOWN = 'UNKNOWN'
 }
 
+export type BitcoinNetwork = 'mainnet' | 'testnet' | 'signet' | 'regtest';
+
+// Silent payment keys; the output script is derived per transaction
+export interface SilentPaymentKeys {
+  version: number;
+  scanKey: string;  // 33-byte compressed pubkey (hex)
+  spendKey: string; // 33-byte compressed pubkey (hex)
+}
+
 // Address Validation Result
 export interface AddressValidationResult {
   isValid: boolean;
   addressType: AddressType;
-  network: 'mainnet' | 'testnet' | 'regtest';
+  network: BitcoinNetwork;
   errors: string[];
   warnings: string[];
   normalizedAddress?: string;
   checksum?: boolean;
+  scriptPubKey?: string;   // hex; absent for silent payment addresses
+  witnessVersion?: number;
+  witnessProgram?: string; // hex
+  silentPayment?: SilentPaymentKeys;
+}
+
+// Decoded address, as consumed by PSBT and fee tooling
+export interface DecodedAddress {
+  address: string;
+  network: BitcoinNetwork;
+  addressType: AddressType;
+  scriptPubKey?: string;
+  witnessVersion?: number;
+  witnessProgram?: string;
+  silentPayment?: SilentPaymentKeys;
 }
 
 // Network Configuration
@@ -33,29 +61,47 @@ interface NetworkConfig {
   p2sh: number[];
   bech32: string;
   bech32m: string;
+  silentPayment: string;
 }
 
-const NETWORK_CONFIGS: Record<string, NetworkConfig> = {
+// Signet shares testnet's prefixes, so a signet address is only told apart
+// from a testnet one by the networks the caller allows
+const NETWORK_CONFIGS: Record<BitcoinNetwork, NetworkConfig> = {
   mainnet: {
     p2pkh: [0x00],
     p2sh: [0x05],
     bech32: 'bc',
-    bech32m: 'bc'
+    bech32m: 'bc',
+    silentPayment: 'sp'
   },
   testnet: {
     p2pkh: [0x6f],
     p2sh: [0xc4],
     bech32: 'tb',
-    bech32m: 'tb'
+    bech32m: 'tb',
+    silentPayment: 'tsp'
+  },
+  signet: {
+    p2pkh: [0x6f],
+    p2sh: [0xc4],
+    bech32: 'tb',
+    bech32m: 'tb',
+    silentPayment: 'tsp'
   },
   regtest: {
     p2pkh: [0x6f],
     p2sh: [0xc4],
     bech32: 'bcrt',
-    bech32m: 'bcrt'
+    bech32m: 'bcrt',
+    silentPayment: 'sprt'
   }
 };
 
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+const SEGWIT_MAX_LENGTH = 90;
+const SILENT_PAYMENT_MAX_LENGTH = 1023;
+
 /**
  * Bitcoin Address Validator Class
  */
@@ -84,8 +130,12 @@ export class AddressValidator {
         return result;
       }
 
+      address = address.trim();
+
       // Determine address type and validate accordingly
-      if (this.isBech32Address(address)) {
+      if (this.isSilentPaymentAddress(address)) {
+        return this.validateSilentPaymentAddress(address, allowedNetworks);
+      } else if (this.isBech32Address(address)) {
         return this.validateBech32Address(address, allowedNetworks);
       } else if (this.isBase58Address(address)) {
         return this.validateBase58Address(address, allowedNetworks);
@@ -120,8 +170,10 @@ export class AddressValidator {
       return false;
     }
 
-    // Length validation
-    if (address.length < 26 || address.length > 62) {
+    // Length validation (the shortest is a 2-byte witness program; silent
+    // payment addresses carry two public keys). Base58 lengths are checked by format
+    const maxLength = this.isSilentPaymentAddress(address) ? SILENT_PAYMENT_MAX_LENGTH : SEGWIT_MAX_LENGTH;
+    if (address.length < 14 || address.length > maxLength) {
       result.errors.push('Invalid address length');
       return false;
     }
@@ -152,49 +204,40 @@ export class AddressValidator {
     };
 
     try {
-      // Parse HRP (Human Readable Part) and data
-      const separatorIndex = address.lastIndexOf('1');
-      if (separatorIndex === -1) {
-        result.errors.push('Invalid bech32 format: missing separator');
+      const parsed = this.parseBech32(address, result);
+      if (!parsed) {
         return result;
       }
-
-      const hrp = address.substring(0, separatorIndex).toLowerCase();
-      const data = address.substring(separatorIndex + 1).toLowerCase();
+      const { hrp, values } = parsed;
 
       // Validate HRP
-      const network = this.getNetworkFromHRP(hrp);
+      const network = this.resolveNetwork(
+        this.getNetworksMatching(config => config.bech32 === hrp),
+        allowedNetworks,
+        result
+      );
       if (!network) {
-        result.errors.push('Invalid network prefix');
         return result;
       }
+      result.network = network;
 
-      if (!allowedNetworks.includes(network)) {
-        result.errors.push(`Network ${network} not allowed`);
+      // Extract witness version and program
+      const witnessVersion = values[0];
+      if (witnessVersion > 16) {
+        result.errors.push('Invalid witness version');
         return result;
       }
 
-      result.network = network as any;
-
-      // Validate data part
-      if (data.length < 6) {
-        result.errors.push('Bech32 data too short');
+      // v0 uses bech32, v1+ uses bech32m (BIP350)
+      const useBech32m = witnessVersion !== 0;
+      if (!this.validateBech32Checksum(hrp, values, useBech32m)) {
+        result.errors.push(useBech32m ? 'Invalid bech32m checksum' : 'Invalid bech32 checksum');
         return result;
       }
 
-      // Convert to 5-bit groups
-      const decoded = this.bech32Decode(data);
-      if (!decoded) {
-        result.errors.push('Invalid bech32 encoding');
-        return result;
-      }
-
-      // Extract witness version and program
-      const witnessVersion = decoded[0];
-      const witnessProgram = decoded.slice(1);
-
-      if (witnessVersion > 16) {
-        result.errors.push('Invalid witness version');
+      const witnessProgram = this.convertBits(values.slice(1, -6), 5, 8, false);
+      if (!witnessProgram) {
+        result.errors.push('Invalid witness program padding');
         return result;
       }
 
@@ -214,40 +257,21 @@ export class AddressValidator {
           result.errors.push('Invalid witness program length for version 0');
           return result;
         }
-
-        // Validate bech32 checksum for v0
-        if (!this.validateBech32Checksum(hrp, decoded, false)) {
-          result.errors.push('Invalid bech32 checksum');
-          return result;
-        }
-      } else if (witnessVersion === 1) {
-        if (witnessProgram.length === 32) {
-          result.addressType = AddressType.P2TR;
-        } else {
-          result.errors.push('Invalid witness program length for version 1 (Taproot)');
-          return result;
-        }
-
-        // Validate bech32m checksum for v1+
-        if (!this.validateBech32Checksum(hrp, decoded, true)) {
-          result.errors.push('Invalid bech32m checksum');
-          return result;
-        }
+      } else if (witnessVersion === 1 && witnessProgram.length === 32) {
+        result.addressType = AddressType.P2TR;
       } else {
-        // Future witness versions
-        result.addressType = AddressType.UNKNOWN;
+        // Future witness versions are valid but not spendable by today's rules
+        result.addressType = AddressType.WITNESS_UNKNOWN;
         result.warnings.push(`Future witness version ${witnessVersion}`);
-        
-        // Use bech32m for v1+
-        if (!this.validateBech32Checksum(hrp, decoded, true)) {
-          result.errors.push('Invalid bech32m checksum');
-          return result;
-        }
       }
 
+      const program = new Uint8Array(witnessProgram);
       result.isValid = true;
       result.normalizedAddress = address.toLowerCase();
       result.checksum = true;
+      result.witnessVersion = witnessVersion;
+      result.witnessProgram = bytesToHex(program);
+      result.scriptPubKey = bytesToHex(this.witnessScript(witnessVersion, program));
 
       return result;
 
@@ -257,6 +281,90 @@ export class AddressValidator {
     }
   }
 
+  /**
+   * Validate BIP352 silent payment addresses (sp1..., tsp1..., sprt1...)
+   */
+  private validateSilentPaymentAddress(
+    address: string,
+    allowedNetworks: string[]
+  ): AddressValidationResult {
+    const result: AddressValidationResult = {
+      isValid: false,
+      addressType: AddressType.UNKNOWN,
+      network: 'mainnet',
+      errors: [],
+      warnings: []
+    };
+
+    try {
+      const parsed = this.parseBech32(address, result);
+      if (!parsed) {
+        return result;
+      }
+      const { hrp, values } = parsed;
+
+      const network = this.resolveNetwork(
+        this.getNetworksMatching(config => config.silentPayment === hrp),
+        allowedNetworks,
+        result
+      );
+      if (!network) {
+        return result;
+      }
+      result.network = network;
+
+      const version = values[0];
+      if (version === 31) {
+        result.errors.push('Silent payment version 31 is reserved');
+        return result;
+      }
+
+      if (!this.validateBech32Checksum(hrp, values, true)) {
+        result.errors.push('Invalid bech32m checksum');
+        return result;
+      }
+
+      const payload = this.convertBits(values.slice(1, -6), 5, 8, false);
+      if (!payload) {
+        result.errors.push('Invalid silent payment padding');
+        return result;
+      }
+
+      // v0 carries exactly scan + spend keys; later versions may append data
+      if (version === 0 ? payload.length !== 66 : payload.length < 66) {
+        result.errors.push('Invalid silent payment payload length');
+        return result;
+      }
+
+      const scanKey = new Uint8Array(payload.slice(0, 33));
+      const spendKey = new Uint8Array(payload.slice(33, 66));
+      if (!this.isCompressedPubkey(scanKey) || !this.isCompressedPubkey(spendKey)) {
+        result.errors.push('Silent payment keys must be compressed public keys');
+        return result;
+      }
+
+      if (version > 0) {
+        result.warnings.push(`Future silent payment version ${version}`);
+      }
+
+      result.isValid = true;
+      result.addressType = AddressType.SILENT_PAYMENT;
+      result.normalizedAddress = address.toLowerCase();
+      result.checksum = true;
+      result.silentPayment = {
+        version,
+        scanKey: bytesToHex(scanKey),
+        spendKey: bytesToHex(spendKey)
+      };
+
+      return result;
+
+    } catch (error: any) {
+      result.errors.push(`Silent payment validation error: ${error.message}`);
+      return result;
+    }
+  }
+
   /**
    * Validate Base58 addresses (Legacy P2PKH, P2SH)
    */
@@ -295,12 +403,12 @@ export class AddressValidator {
         return result;
       }
 
-      if (!allowedNetworks.includes(networkInfo.network)) {
-        result.errors.push(`Network ${networkInfo.network} not allowed`);
+      const network = this.resolveNetwork(networkInfo.networks, allowedNetworks, result);
+      if (!network) {
         return result;
       }
 
-      result.network = networkInfo.network as any;
+      result.network = network;
       result.addressType = networkInfo.type;
 
       // Validate hash length
@@ -312,6 +420,11 @@ export class AddressValidator {
       result.isValid = true;
       result.normalizedAddress = address;
       result.checksum = true;
+      result.scriptPubKey = bytesToHex(
+        networkInfo.type === AddressType.P2PKH
+          ? concatBytes([0x76, 0xa9, 0x14], hash, [0x88, 0xac])
+          : concatBytes([0xa9, 0x14], hash, [0x87])
+      );
 
       return result;
 
@@ -321,15 +434,122 @@ export class AddressValidator {
     }
   }
 
+  /**
+   * Decode an address into its scriptPubKey and witness data.
+   * Throws when the address is invalid or not on an allowed network.
+   */
+  decodeAddress(
+    address: string,
+    allowedNetworks: string[] = ['mainnet', 'testnet', 'signet', 'regtest']
+  ): DecodedAddress {
+    const result = this.validateBitcoinAddress(address, allowedNetworks);
+    if (!result.isValid) {
+      throw new Error(`Invalid address ${address}: ${result.errors.join(', ')}`);
+    }
+
+    return {
+      address: result.normalizedAddress!,
+      network: result.network,
+      addressType: result.addressType,
+      scriptPubKey: result.scriptPubKey,
+      witnessVersion: result.witnessVersion,
+      witnessProgram: result.witnessProgram,
+      silentPayment: result.silentPayment
+    };
+  }
+
+  /**
+   * scriptPubKey (hex) paying to an address
+   */
+  addressToScriptPubKey(
+    address: string,
+    allowedNetworks: string[] = ['mainnet', 'testnet', 'signet', 'regtest']
+  ): string {
+    const decoded = this.decodeAddress(address, allowedNetworks);
+    if (!decoded.scriptPubKey) {
+      throw new Error('Silent payment addresses have no fixed scriptPubKey; derive the output per transaction');
+    }
+    return decoded.scriptPubKey;
+  }
+
+  /**
+   * Encode a scriptPubKey back into an address for the given network
+   */
+  scriptPubKeyToAddress(scriptPubKey: string | Uint8Array, network: BitcoinNetwork = 'mainnet'): string {
+    const script = typeof scriptPubKey === 'string' ? hexToBytes(scriptPubKey) : scriptPubKey;
+    const config = NETWORK_CONFIGS[network];
+    if (!config) {
+      throw new Error(`Unknown network ${network}`);
+    }
+
+    switch (this.getScriptType(script)) {
+      case AddressType.P2PKH:
+        return this.base58CheckEncode(concatBytes([config.p2pkh[0]], script.slice(3, 23)));
+      case AddressType.P2SH:
+        return this.base58CheckEncode(concatBytes([config.p2sh[0]], script.slice(2, 22)));
+      case AddressType.P2WPKH:
+      case AddressType.P2WSH:
+      case AddressType.P2TR:
+      case AddressType.WITNESS_UNKNOWN: {
+        const version = script[0] === 0 ? 0 : script[0] - 0x50;
+        const hrp = version === 0 ? config.bech32 : config.bech32m;
+        return this.bech32Encode(hrp, [version, ...this.convertBits(Array.from(script.slice(2)), 8, 5, true)!], version !== 0);
+      }
+      default:
+        throw new Error(`Unsupported scriptPubKey ${bytesToHex(script)}`);
+    }
+  }
+
+  /**
+   * Classify a scriptPubKey by the address type that pays to it
+   */
+  getScriptType(scriptPubKey: string | Uint8Array): AddressType {
+    const script = typeof scriptPubKey === 'string' ? hexToBytes(scriptPubKey) : scriptPubKey;
+
+    if (script.length === 25 && script[0] === 0x76 && script[1] === 0xa9 && script[2] === 0x14 &&
+        script[23] === 0x88 && script[24] === 0xac) {
+      return AddressType.P2PKH;
+    }
+
+    if (script.length === 23 && script[0] === 0xa9 && script[1] === 0x14 && script[22] === 0x87) {
+      return AddressType.P2SH;
+    }
+
+    // Witness output: OP_0 or OP_1..OP_16 followed by a single 2-40 byte push
+    const isWitnessVersion = script[0] === 0x00 || (script[0] >= 0x51 && script[0] <= 0x60);
+    if (script.length >= 4 && script.length <= 42 && isWitnessVersion && script[1] === script.length - 2) {
+      const version = script[0] === 0 ? 0 : script[0] - 0x50;
+      const programLength = script.length - 2;
+
+      if (version === 0) {
+        if (programLength === 20) return AddressType.P2WPKH;
+        if (programLength === 32) return AddressType.P2WSH;
+        return AddressType.UNKNOWN;
+      }
+      if (version === 1 && programLength === 32) return AddressType.P2TR;
+      return AddressType.WITNESS_UNKNOWN;
+    }
+
+    return AddressType.UNKNOWN;
+  }
+
   /**
    * Check if address is Bech32 format
    */
   private isBech32Address(address: string): boolean {
-    return address.toLowerCase().startsWith('bc1') || 
-           address.toLowerCase().startsWith('tb1') || 
+    return address.toLowerCase().startsWith('bc1') ||
+           address.toLowerCase().startsWith('tb1') ||
            address.toLowerCase().startsWith('bcrt1');
   }
 
+  /**
+   * Check if address is a BIP352 silent payment address
+   */
+  private isSilentPaymentAddress(address: string): boolean {
+    const lower = address.trim().toLowerCase();
+    return lower.startsWith('sp1') || lower.startsWith('tsp1') || lower.startsWith('sprt1');
+  }
+
   /**
    * Check if address is Base58 format
    */
@@ -339,53 +559,104 @@ export class AddressValidator {
   }
 
   /**
-   * Get network from HRP (Human Readable Part)
+   * Networks whose prefixes satisfy a predicate, in declaration order
    */
-  private getNetworkFromHRP(hrp: string): string | null {
-    switch (hrp) {
-      case 'bc': return 'mainnet';
-      case 'tb': return 'testnet';
-      case 'bcrt': return 'regtest';
-      default: return null;
+  private getNetworksMatching(predicate: (config: NetworkConfig) => boolean): BitcoinNetwork[] {
+    return (Object.keys(NETWORK_CONFIGS) as BitcoinNetwork[]).filter(network => predicate(NETWORK_CONFIGS[network]));
+  }
+
+  /**
+   * Pick the first candidate network the caller allows
+   */
+  private resolveNetwork(
+    candidates: BitcoinNetwork[],
+    allowedNetworks: string[],
+    result: AddressValidationResult
+  ): BitcoinNetwork | null {
+    if (candidates.length === 0) {
+      result.errors.push('Invalid network prefix');
+      return null;
     }
+
+    const network = candidates.find(candidate => allowedNetworks.includes(candidate));
+    if (!network) {
+      result.errors.push(`Network ${candidates[0]} not allowed`);
+      return null;
+    }
+    return network;
   }
 
   /**
    * Get network and type from version byte
    */
   private getNetworkFromVersionByte(versionByte: number): {
-    network: string;
+    networks: BitcoinNetwork[];
     type: AddressType;
   } | null {
-    for (const [network, config] of Object.entries(NETWORK_CONFIGS)) {
-      if (config.p2pkh.includes(versionByte)) {
-        return { network, type: AddressType.P2PKH };
-      }
-      if (config.p2sh.includes(versionByte)) {
-        return { network, type: AddressType.P2SH };
-      }
+    const p2pkh = this.getNetworksMatching(config => config.p2pkh.includes(versionByte));
+    if (p2pkh.length > 0) {
+      return { networks: p2pkh, type: AddressType.P2PKH };
     }
+
+    const p2sh = this.getNetworksMatching(config => config.p2sh.includes(versionByte));
+    if (p2sh.length > 0) {
+      return { networks: p2sh, type: AddressType.P2SH };
+    }
+
     return null;
   }
 
   /**
-   * Decode Bech32 data
+   * Split a bech32 string into HRP and 5-bit values (checksum included)
    */
-  private bech32Decode(data: string): number[] | null {
-    try {
-      const decoded: number[] = [];
-      for (const char of data) {
-        const value = this.bech32Charset.indexOf(char);
-        if (value === -1) return null;
-        decoded.push(value);
-      }
+  private parseBech32(
+    address: string,
+    result: AddressValidationResult
+  ): { hrp: string; values: number[] } | null {
+    if (address !== address.toLowerCase() && address !== address.toUpperCase()) {
+      result.errors.push('Mixed-case bech32 address');
+      return null;
+    }
 
-      // Convert from 5-bit to 8-bit
-      const converted = this.convertBits(decoded.slice(0, -6), 5, 8, false);
-      return converted ? [decoded[0], ...converted] : null;
-    } catch {
+    // Parse HRP (Human Readable Part) and data
+    const lower = address.toLowerCase();
+    const separatorIndex = lower.lastIndexOf('1');
+    if (separatorIndex < 1) {
+      result.errors.push('Invalid bech32 format: missing separator');
+      return null;
+    }
+
+    const hrp = lower.substring(0, separatorIndex);
+    const data = lower.substring(separatorIndex + 1);
+
+    // Validate data part
+    if (data.length < 7) {
+      result.errors.push('Bech32 data too short');
       return null;
     }
+
+    const values: number[] = [];
+    for (const char of data) {
+      const value = this.bech32Charset.indexOf(char);
+      if (value === -1) {
+        result.errors.push('Invalid bech32 encoding');
+        return null;
+      }
+      values.push(value);
+    }
+
+    return { hrp, values };
+  }
+
+  /**
+   * Encode 5-bit values (without checksum) as bech32/bech32m
+   */
+  private bech32Encode(hrp: string, values: number[], useBech32m: boolean): string {
+    const polymod = this.bech32Polymod([...this.hrpExpand(hrp), ...values, 0, 0, 0, 0, 0, 0]) ^
+      (useBech32m ? BECH32M_CONST : BECH32_CONST);
+    const checksum = Array.from({ length: 6 }, (_, i) => (polymod >> (5 * (5 - i))) & 31);
+
+    return hrp + '1' + [...values, ...checksum].map(value => this.bech32Charset[value]).join('');
   }
 
   /**
@@ -396,7 +667,7 @@ export class AddressValidator {
     data: number[],
     useBech32m: boolean
   ): boolean {
-    const const1 = useBech32m ? 0x2bc830a3 : 1;
+    const const1 = useBech32m ? BECH32M_CONST : BECH32_CONST;
     return this.bech32Polymod([...this.hrpExpand(hrp), ...data]) === const1;
   }
 
@@ -406,7 +677,7 @@ export class AddressValidator {
   private bech32Polymod(values: number[]): number {
     const generator = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
     let chk = 1;
-    
+
     for (const value of values) {
       const top = chk >> 25;
       chk = (chk & 0x1ffffff) << 5 ^ value;
@@ -414,7 +685,7 @@ export class AddressValidator {
         chk ^= (top >> i) & 1 ? generator[i] : 0;
       }
     }
-    return chk;
+    return chk >>> 0;
   }
 
   /**
@@ -466,6 +737,17 @@ export class AddressValidator {
     return result;
   }
 
+  /**
+   * OP_n <program>
+   */
+  private witnessScript(version: number, program: Uint8Array): Uint8Array {
+    return concatBytes([version === 0 ? 0x00 : 0x50 + version, program.length], program);
+  }
+
+  private isCompressedPubkey(key: Uint8Array): boolean {
+    return key.length === 33 && (key[0] === 0x02 || key[0] === 0x03);
+  }
+
   /**
    * Base58Check decode
    */
@@ -492,6 +774,13 @@ export class AddressValidator {
     }
   }
 
+  /**
+   * Base58Check encode
+   */
+  private base58CheckEncode(payload: Uint8Array): string {
+    return this.base58Encode(concatBytes(payload, this.doubleSha256(payload).slice(0, 4)));
+  }
+
   /**
    * Base58 decode
    */
@@ -499,7 +788,7 @@ export class AddressValidator {
     try {
       let num = BigInt(0);
       const alphabet = this.base58Alphabet;
-      
+
       for (const char of s) {
         const index = alphabet.indexOf(char);
         if (index === -1) return null;
@@ -526,24 +815,34 @@ export class AddressValidator {
   }
 
   /**
-   * Double SHA256 hash
+   * Base58 encode
    */
-  private doubleSha256(data: Uint8Array): Uint8Array {
-    // This is a simplified implementation
-    // In a real scenario, you would use crypto.subtle.digest or a crypto library
-    const hash1 = this.sha256(data);
-    const hash2 = this.sha256(hash1);
-    return hash2;
+  private base58Encode(bytes: Uint8Array): string {
+    let num = BigInt(0);
+    for (const byte of bytes) {
+      num = num * BigInt(256) + BigInt(byte);
+    }
+
+    let encoded = '';
+    while (num > 0) {
+      encoded = this.base58Alphabet[Number(num % BigInt(58))] + encoded;
+      num = num / BigInt(58);
+    }
+
+    // Leading zero bytes become '1'
+    for (const byte of bytes) {
+      if (byte === 0) encoded = '1' + encoded;
+      else break;
+    }
+
+    return encoded;
   }
 
   /**
-   * Simplified SHA256 (placeholder)
-   * In production, use crypto.subtle.digest or a proper crypto library
+   * Double SHA256 hash
    */
-  private sha256(data: Uint8Array): Uint8Array {
-    // This is a placeholder - use actual SHA256 implementation
-    // For now, return a mock hash for demonstration
-    return new Uint8Array(32).fill(0);
+  private doubleSha256(data: Uint8Array): Uint8Array {
+    return sha256(sha256(data));
   }
 
   /**
@@ -565,11 +864,11 @@ export class AddressValidator {
     allowedNetworks: string[] = ['mainnet', 'testnet']
   ): Map<string, AddressValidationResult> {
     const results = new Map<string, AddressValidationResult>();
-    
+
     for (const address of addresses) {
       results.set(address, this.validateBitcoinAddress(address, allowedNetworks));
     }
-    
+
     return results;
   }
 
@@ -590,5 +889,39 @@ export class AddressValidator {
   }
 }
 
+/**
+ * Byte helpers shared by the address, descriptor, BIP32 and PSBT modules. Hashes come from
+ * ethers, which is pure JS and also runs in the browser
+ */
+
+export function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function concatBytes(...parts: Array<Uint8Array | number[]>): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+export function sha256(data: Uint8Array): Uint8Array {
+  return getBytes(ethersSha256(data));
+}
+
 // Export singleton instance
-export const addressValidator = new AddressValidator();
\ No newline at end of file
+export const addressValidator = new AddressValidator();
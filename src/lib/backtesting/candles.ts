@@ -0,0 +1,132 @@
+/**
+ * 🕯️ Utilitários de candles
+ * Intervalos, verificação de integridade e reamostragem (sem dependências de I/O)
+ */
+
+import type { Candle, CandleGap, CandleInterval, CandleIntegrityReport } from './types';
+
+export const INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': 60_000,
+  '5m': 5 * 60_000,
+  '15m': 15 * 60_000,
+  '1h': 60 * 60_000,
+  '4h': 4 * 60 * 60_000,
+  '1d': 24 * 60 * 60_000,
+  '1w': 7 * 24 * 60 * 60_000
+};
+
+// 1970-01-01 foi uma quinta-feira; a primeira segunda-feira foi 1970-01-05
+const WEEK_OFFSET_MS = 4 * INTERVAL_MS['1d'];
+
+/**
+ * Início (UTC) do bucket que contém `time`. Semanas começam na segunda-feira, como na ISO 8601
+ */
+export function bucketStart(time: number, interval: CandleInterval): number {
+  const step = INTERVAL_MS[interval];
+  const offset = interval === '1w' ? WEEK_OFFSET_MS : 0;
+  return Math.floor((time - offset) / step) * step + offset;
+}
+
+// ============================================================================
+// Integridade
+// ============================================================================
+
+function isValidCandle(candle: Candle): boolean {
+  const { open, high, low, close, volume } = candle;
+  if (isNaN(candle.date.getTime())) return false;
+  if (![open, high, low, close, volume].every(Number.isFinite)) return false;
+  if (open <= 0 || high <= 0 || low <= 0 || close <= 0 || volume < 0) return false;
+  return high >= low && high >= Math.max(open, close) && low <= Math.min(open, close);
+}
+
+function sameCandle(a: Candle, b: Candle): boolean {
+  return a.open === b.open && a.high === b.high && a.low === b.low &&
+    a.close === b.close && a.volume === b.volume;
+}
+
+/**
+ * Ordena, remove candles inválidos e duplicados (mantém a primeira ocorrência)
+ * e relata buracos em relação ao intervalo esperado.
+ */
+export function normalizeCandles(
+  candles: Candle[],
+  interval: CandleInterval,
+  source = 'unknown'
+): { candles: Candle[]; report: CandleIntegrityReport } {
+  const report: CandleIntegrityReport = {
+    source,
+    total: candles.length,
+    duplicates: 0,
+    conflictingDuplicates: 0,
+    invalid: 0,
+    gaps: []
+  };
+
+  const byTime = new Map<number, Candle>();
+  for (const candle of candles) {
+    if (!isValidCandle(candle)) {
+      report.invalid++;
+      continue;
+    }
+
+    const time = candle.date.getTime();
+    const existing = byTime.get(time);
+    if (existing) {
+      report.duplicates++;
+      if (!sameCandle(existing, candle)) report.conflictingDuplicates++;
+      continue;
+    }
+    byTime.set(time, candle);
+  }
+
+  const sorted = Array.from(byTime.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+  report.gaps = findGaps(sorted, interval);
+
+  return { candles: sorted, report };
+}
+
+/**
+ * Encontra buracos numa série ordenada de candles
+ */
+export function findGaps(candles: Candle[], interval: CandleInterval): CandleGap[] {
+  const step = INTERVAL_MS[interval];
+  const gaps: CandleGap[] = [];
+
+  for (let i = 1; i < candles.length; i++) {
+    const diff = candles[i].date.getTime() - candles[i - 1].date.getTime();
+    if (diff > step) {
+      gaps.push({
+        from: candles[i - 1].date,
+        to: candles[i].date,
+        missing: Math.round(diff / step) - 1
+      });
+    }
+  }
+
+  return gaps;
+}
+
+/**
+ * Agrega candles (ou pontos de preço) em buckets do intervalo pedido
+ */
+export function resampleCandles(candles: Candle[], interval: CandleInterval): Candle[] {
+  const buckets = new Map<number, Candle>();
+
+  const sorted = [...candles].sort((a, b) => a.date.getTime() - b.date.getTime());
+  for (const candle of sorted) {
+    const bucketTime = bucketStart(candle.date.getTime(), interval);
+    const bucket = buckets.get(bucketTime);
+
+    if (!bucket) {
+      buckets.set(bucketTime, { ...candle, date: new Date(bucketTime) });
+      continue;
+    }
+
+    bucket.high = Math.max(bucket.high, candle.high);
+    bucket.low = Math.min(bucket.low, candle.low);
+    bucket.close = candle.close;
+    bucket.volume += candle.volume;
+  }
+
+  return Array.from(buckets.values());
+}
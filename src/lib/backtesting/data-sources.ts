@@ -0,0 +1,373 @@
+/**
+ * 📈 Fontes de dados históricos para o Backtesting Engine
+ * Adaptadores de candles (arquivos, Mempool.space, Binance), cache em disco
+ * e verificação de integridade (buracos e duplicados)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { type MempoolService, mempoolService } from '@/services/MempoolService';
+import { type BinanceConnector, binance } from '@/lib/exchanges/binance-connector';
+import type { Candle, CandleInterval, CandleQuery, CandleSource } from './types';
+import { INTERVAL_MS, bucketStart, normalizeCandles, resampleCandles } from './candles';
+
+export { INTERVAL_MS, findGaps, normalizeCandles, resampleCandles } from './candles';
+
+function inRange(candle: Candle, query: CandleQuery): boolean {
+  const time = candle.date.getTime();
+  return time >= query.startDate.getTime() && time <= query.endDate.getTime();
+}
+
+// ============================================================================
+// Arquivos locais (CSV / JSON)
+// ============================================================================
+
+function parseTimestamp(value: unknown): Date {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value.trim()))) {
+    const numeric = Number(value);
+    // Timestamps em segundos têm no máximo 10 dígitos
+    return new Date(numeric < 1e11 ? numeric * 1000 : numeric);
+  }
+  return new Date(String(value));
+}
+
+const TIME_COLUMNS = ['date', 'time', 'timestamp', 'datetime', 'open_time', 'opentime'];
+
+/**
+ * Lê OHLCV em CSV. Aceita cabeçalho (date|time|timestamp, open, high, low,
+ * close, volume em qualquer ordem) ou colunas posicionais sem cabeçalho.
+ */
+export function parseCandlesCsv(text: string): Candle[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length === 0) return [];
+
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+  const firstRow = lines[0].split(delimiter).map(cell => cell.trim().toLowerCase());
+  const hasHeader = firstRow.some(cell => cell === 'open' || cell === 'close');
+
+  let columns = { time: 0, open: 1, high: 2, low: 3, close: 4, volume: 5 };
+  if (hasHeader) {
+    columns = {
+      time: firstRow.findIndex(cell => TIME_COLUMNS.includes(cell)),
+      open: firstRow.indexOf('open'),
+      high: firstRow.indexOf('high'),
+      low: firstRow.indexOf('low'),
+      close: firstRow.indexOf('close'),
+      volume: firstRow.indexOf('volume')
+    };
+    if (columns.time < 0 || columns.open < 0 || columns.high < 0 || columns.low < 0 || columns.close < 0) {
+      throw new Error(`CSV header must contain time, open, high, low and close columns: ${lines[0]}`);
+    }
+  }
+
+  return lines.slice(hasHeader ? 1 : 0).map(line => {
+    const cells = line.split(delimiter).map(cell => cell.trim());
+    return {
+      date: parseTimestamp(cells[columns.time]),
+      open: parseFloat(cells[columns.open]),
+      high: parseFloat(cells[columns.high]),
+      low: parseFloat(cells[columns.low]),
+      close: parseFloat(cells[columns.close]),
+      volume: columns.volume >= 0 ? parseFloat(cells[columns.volume]) || 0 : 0
+    };
+  });
+}
+
+type JsonCandleValue = number | string;
+
+// [time, open, high, low, close, volume?]
+type JsonCandleArray = [JsonCandleValue, JsonCandleValue, JsonCandleValue, JsonCandleValue, JsonCandleValue, JsonCandleValue?];
+
+interface JsonCandleObject {
+  date?: JsonCandleValue;
+  time?: JsonCandleValue;
+  timestamp?: JsonCandleValue;
+  openTime?: JsonCandleValue;
+  open: JsonCandleValue;
+  high: JsonCandleValue;
+  low: JsonCandleValue;
+  close: JsonCandleValue;
+  volume?: JsonCandleValue;
+}
+
+type JsonCandleRow = JsonCandleArray | JsonCandleObject;
+
+/**
+ * Lê OHLCV em JSON: array de objetos ({ date|time|timestamp, open, ... })
+ * ou de arrays no formato [time, open, high, low, close, volume]
+ */
+export function parseCandlesJson(text: string): Candle[] {
+  const parsed: JsonCandleRow[] | { candles?: JsonCandleRow[] } | null = JSON.parse(text);
+  const rows = Array.isArray(parsed) ? parsed : parsed?.candles;
+  if (!Array.isArray(rows)) {
+    throw new Error('JSON candle file must be an array or an object with a "candles" array');
+  }
+
+  return rows.map(row => {
+    if (Array.isArray(row)) {
+      return {
+        date: parseTimestamp(row[0]),
+        open: Number(row[1]),
+        high: Number(row[2]),
+        low: Number(row[3]),
+        close: Number(row[4]),
+        volume: Number(row[5] ?? 0)
+      };
+    }
+
+    const time = row.date ?? row.time ?? row.timestamp ?? row.openTime;
+    return {
+      date: parseTimestamp(time),
+      open: Number(row.open),
+      high: Number(row.high),
+      low: Number(row.low),
+      close: Number(row.close),
+      volume: Number(row.volume ?? 0)
+    };
+  });
+}
+
+/**
+ * Candles de arquivos locais. O caminho pode conter {symbol} e {interval},
+ * ex: `data/candles/{symbol}-{interval}.csv`
+ */
+export class FileCandleSource implements CandleSource {
+  readonly name = 'file';
+
+  constructor(
+    private filePattern: string,
+    private format?: 'csv' | 'json'
+  ) {}
+
+  async getCandles(query: CandleQuery): Promise<Candle[]> {
+    const filePath = this.filePattern
+      .replace('{symbol}', query.symbol)
+      .replace('{interval}', query.interval);
+
+    const text = await fs.readFile(filePath, 'utf8');
+    const format = this.format || (path.extname(filePath).toLowerCase() === '.json' ? 'json' : 'csv');
+    const candles = format === 'json' ? parseCandlesJson(text) : parseCandlesCsv(text);
+
+    return candles.filter(candle => inRange(candle, query));
+  }
+}
+
+// ============================================================================
+// Mempool.space
+// ============================================================================
+
+type MempoolPeriod = '1w' | '1m' | '3m' | '6m' | '1y' | '2y' | '3y';
+
+const MEMPOOL_PERIODS: Array<[MempoolPeriod, number]> = [
+  ['1w', 7],
+  ['1m', 31],
+  ['3m', 92],
+  ['6m', 183],
+  ['1y', 366],
+  ['2y', 731],
+  ['3y', 1096]
+];
+
+/**
+ * Preço do BTC do Mempool.space. A API só fornece preços pontuais, então cada
+ * ponto vira um candle (open = high = low = close) antes de ser reamostrado.
+ */
+export class MempoolCandleSource implements CandleSource {
+  readonly name = 'mempool';
+
+  constructor(
+    private service: MempoolService = mempoolService,
+    private currency: 'USD' | 'EUR' | 'GBP' | 'CAD' | 'CHF' | 'AUD' | 'JPY' = 'USD'
+  ) {}
+
+  async getCandles(query: CandleQuery): Promise<Candle[]> {
+    if (!/^BTC/i.test(query.symbol)) {
+      throw new Error(`Mempool.space only provides BTC prices, got ${query.symbol}`);
+    }
+
+    const daysBack = (Date.now() - query.startDate.getTime()) / INTERVAL_MS['1d'];
+    const period = (MEMPOOL_PERIODS.find(([, days]) => days >= daysBack) || MEMPOOL_PERIODS[MEMPOOL_PERIODS.length - 1])[0];
+
+    const prices = await this.service.getHistoricalPrices(period);
+    const points: Candle[] = prices
+      .filter(point => Number.isFinite(point[this.currency]) && point[this.currency] > 0)
+      .map(point => {
+        const price = point[this.currency];
+        return { date: parseTimestamp(point.time), open: price, high: price, low: price, close: price, volume: 0 };
+      });
+
+    return resampleCandles(points, query.interval).filter(candle => inRange(candle, query));
+  }
+}
+
+// ============================================================================
+// Binance
+// ============================================================================
+
+const BINANCE_KLINE_LIMIT = 1000;
+
+export class BinanceCandleSource implements CandleSource {
+  readonly name = 'binance';
+
+  constructor(private connector: BinanceConnector = binance) {}
+
+  async getCandles(query: CandleQuery): Promise<Candle[]> {
+    const symbol = query.symbol.replace(/[-/]/g, '').toUpperCase();
+    const endTime = query.endDate.getTime();
+    const candles: Candle[] = [];
+    let startTime = query.startDate.getTime();
+
+    while (startTime <= endTime) {
+      const klines = await this.connector.getKlines(symbol, query.interval, {
+        startTime,
+        endTime,
+        limit: BINANCE_KLINE_LIMIT
+      });
+      if (klines.length === 0) break;
+
+      for (const kline of klines) {
+        candles.push({
+          date: new Date(kline.openTime),
+          open: kline.open,
+          high: kline.high,
+          low: kline.low,
+          close: kline.close,
+          volume: kline.volume
+        });
+      }
+
+      if (klines.length < BINANCE_KLINE_LIMIT) break;
+      startTime = klines[klines.length - 1].openTime + INTERVAL_MS[query.interval];
+    }
+
+    return candles;
+  }
+}
+
+// ============================================================================
+// Cache em disco
+// ============================================================================
+
+interface CandleCacheFile {
+  symbol: string;
+  interval: CandleInterval;
+  coveredFrom: number;
+  coveredTo: number;
+  candles: Array<[number, number, number, number, number, number]>;
+}
+
+export interface CachedCandleStoreOptions {
+  directory?: string;
+  offline?: boolean; // nunca consulta a fonte; usa apenas o que está em disco
+}
+
+/**
+ * Guarda candles de outra fonte em disco e só busca os trechos que ainda
+ * não foram baixados. Com `offline`, um backtest pode ser refeito sem rede
+ * a partir exatamente do mesmo dataset.
+ */
+export class CachedCandleStore implements CandleSource {
+  readonly name: string;
+  private directory: string;
+  private offline: boolean;
+
+  constructor(private upstream: CandleSource, options: CachedCandleStoreOptions = {}) {
+    this.name = `cache:${upstream.name}`;
+    this.directory = options.directory || path.join(process.cwd(), '.cache', 'candles', upstream.name);
+    this.offline = options.offline ?? false;
+  }
+
+  async getCandles(query: CandleQuery): Promise<Candle[]> {
+    const start = query.startDate.getTime();
+    const end = query.endDate.getTime();
+    const cached = await this.read(query.symbol, query.interval);
+
+    if (cached && cached.coveredFrom <= start && cached.coveredTo >= end) {
+      return this.toCandles(cached).filter(candle => inRange(candle, query));
+    }
+
+    if (this.offline) {
+      const range = cached
+        ? `${new Date(cached.coveredFrom).toISOString()} - ${new Date(cached.coveredTo).toISOString()}`
+        : 'nothing';
+      throw new Error(`Offline candle cache for ${query.symbol} ${query.interval} covers ${range}`);
+    }
+
+    // Busca apenas os trechos que faltam antes e depois do que já está em disco
+    const fetched: Candle[] = [];
+    if (!cached) {
+      fetched.push(...await this.upstream.getCandles(query));
+    } else {
+      if (start < cached.coveredFrom) {
+        fetched.push(...await this.upstream.getCandles({
+          ...query,
+          endDate: new Date(cached.coveredFrom - 1)
+        }));
+      }
+      if (end > cached.coveredTo) {
+        fetched.push(...await this.upstream.getCandles({
+          ...query,
+          startDate: new Date(cached.coveredTo + 1)
+        }));
+      }
+    }
+
+    // O que veio da fonte vem antes do cache: normalizeCandles mantém a primeira ocorrência,
+    // então um candle que ainda estava se formando é substituído pelo fechado
+    if (cached) fetched.push(...this.toCandles(cached));
+
+    // Só conta como coberto até o último candle fechado; o que está em formação é buscado de novo
+    const lastClosed = bucketStart(Date.now(), query.interval) - INTERVAL_MS[query.interval];
+    const { candles } = normalizeCandles(fetched, query.interval, this.name);
+    await this.write({
+      symbol: query.symbol,
+      interval: query.interval,
+      coveredFrom: Math.min(start, cached?.coveredFrom ?? start),
+      coveredTo: Math.min(Math.max(end, cached?.coveredTo ?? end), lastClosed),
+      candles: candles.map(c => [c.date.getTime(), c.open, c.high, c.low, c.close, c.volume])
+    });
+
+    return candles.filter(candle => inRange(candle, query));
+  }
+
+  private filePath(symbol: string, interval: CandleInterval): string {
+    const safeSymbol = symbol.replace(/[^A-Za-z0-9_-]/g, '_');
+    return path.join(this.directory, `${safeSymbol}-${interval}.json`);
+  }
+
+  private async read(symbol: string, interval: CandleInterval): Promise<CandleCacheFile | null> {
+    try {
+      const text = await fs.readFile(this.filePath(symbol, interval), 'utf8');
+      return JSON.parse(text) as CandleCacheFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async write(file: CandleCacheFile): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = this.filePath(file.symbol, file.interval);
+    // Escreve em arquivo temporário e renomeia para não corromper o cache
+    await fs.writeFile(`${target}.tmp`, JSON.stringify(file));
+    await fs.rename(`${target}.tmp`, target);
+  }
+
+  private toCandles(file: CandleCacheFile): Candle[] {
+    return file.candles.map(([time, open, high, low, close, volume]) => ({
+      date: new Date(time),
+      open,
+      high,
+      low,
+      close,
+      volume
+    }));
+  }
+}
+
+/**
+ * Fonte padrão do engine: Binance com cache em disco
+ */
+export function createDefaultCandleSource(options: CachedCandleStoreOptions = {}): CandleSource {
+  return new CachedCandleStore(new BinanceCandleSource(), options);
+}
@@ -3,11 +3,14 @@
  * Motor principal para testar estratégias
  */
 
-import { BacktestConfig, BacktestResult, TradeResult, EquityPoint } from './types';
+import type { BacktestConfig, BacktestResult, TradeResult, EquityPoint, Candle, CandleIntegrityReport } from './types';
+import { createDefaultCandleSource, normalizeCandles } from './data-sources';
+import { compileStrategy, type CompiledStrategy, RuleContext } from './rules';
 
 export class BacktestingEngine {
   private config: BacktestConfig;
-  private historicalData: any[] = [];
+  private historicalData: Candle[] = [];
+  private dataReport: CandleIntegrityReport | null = null;
   private trades: TradeResult[] = [];
   private equity: number;
   private positions: Map<string, any> = new Map();
@@ -17,27 +20,33 @@ export class BacktestingEngine {
     this.equity = config.initialCapital;
   }
 
-  async loadHistoricalData(symbol: string): Promise<void> {
-    // Em produção, carregar dados reais de uma API
-    console.log(`Loading historical data for ${symbol}`);
-    
-    // Mock data para demonstração
-    const days = Math.floor((this.config.endDate.getTime() - this.config.startDate.getTime()) / (1000 * 60 * 60 * 24));
-    
-    this.historicalData = Array.from({ length: days }, (_, i) => {
-      const date = new Date(this.config.startDate);
-      date.setDate(date.getDate() + i);
-      
-      const basePrice = 50000 + Math.random() * 20000;
-      return {
-        date,
-        open: basePrice,
-        high: basePrice * (1 + Math.random() * 0.03),
-        low: basePrice * (1 - Math.random() * 0.03),
-        close: basePrice * (0.98 + Math.random() * 0.04),
-        volume: 1000000 + Math.random() * 5000000
-      };
+  async loadHistoricalData(symbol: string): Promise<CandleIntegrityReport> {
+    const interval = this.config.interval || '1d';
+    const source = this.config.dataSource || createDefaultCandleSource();
+    console.log(`Loading historical data for ${symbol} from ${source.name}`);
+
+    const raw = await source.getCandles({
+      symbol,
+      interval,
+      startDate: this.config.startDate,
+      endDate: this.config.endDate
     });
+
+    const { candles, report } = normalizeCandles(raw, interval, source.name);
+    if (report.duplicates > 0 || report.invalid > 0 || report.gaps.length > 0) {
+      console.warn(
+        `Historical data for ${symbol}: ${report.duplicates} duplicates ` +
+        `(${report.conflictingDuplicates} conflicting), ${report.invalid} invalid, ${report.gaps.length} gaps`
+      );
+    }
+
+    this.historicalData = candles;
+    this.dataReport = report;
+    return report;
+  }
+
+  getDataReport(): CandleIntegrityReport | null {
+    return this.dataReport;
   }
 
   async runBacktest(): Promise<BacktestResult> {
@@ -46,21 +55,24 @@ export class BacktestingEngine {
     const equityCurve: EquityPoint[] = [];
     const initialEquity = this.equity;
     
+    const compiled = compileStrategy(this.config.strategy);
+    const ctx = new RuleContext(this.historicalData, this.config.interval || '1d');
+    const maxOpen = this.config.strategy.riskManagement?.maxOpenPositions || 1;
+
     // Process each candle
     for (let i = 0; i < this.historicalData.length; i++) {
       const candle = this.historicalData[i];
-      const indicators = this.calculateIndicators(i);
+      
+      // Check exit rules
+      this.checkExitConditions(candle, compiled, compiled.exit.evaluate(ctx, i));
       
       // Check entry rules
-      if (this.shouldEnter(indicators, candle)) {
-        this.openPosition(candle);
+      if (this.positions.size < maxOpen && compiled.entry.evaluate(ctx, i)) {
+        this.openPosition(candle, compiled);
       }
       
-      // Check exit rules
-      this.checkExitConditions(candle);
-      
       // Update equity curve
-      const currentEquity = this.calculateEquity();
+      const currentEquity = this.calculateEquity(candle);
       equityCurve.push({
         date: candle.date,
         value: currentEquity,
@@ -80,66 +92,26 @@ export class BacktestingEngine {
     };
   }
 
-  private calculateIndicators(index: number): any {
-    // Simplified indicator calculation
-    const data = this.historicalData.slice(Math.max(0, index - 50), index + 1);
-    
-    return {
-      sma20: this.calculateSMA(data, 20),
-      sma50: this.calculateSMA(data, 50),
-      rsi: this.calculateRSI(data, 14),
-      volume: data[data.length - 1]?.volume || 0
-    };
-  }
-
-  private calculateSMA(data: any[], period: number): number {
-    if (data.length < period) return 0;
-    
-    const sum = data.slice(-period).reduce((acc, candle) => acc + candle.close, 0);
-    return sum / period;
-  }
-
-  private calculateRSI(data: any[], period: number): number {
-    // Simplified RSI calculation
-    return 30 + Math.random() * 40; // Mock value between 30-70
-  }
-
-  private shouldEnter(indicators: any, candle: any): boolean {
-    // Check strategy entry rules
-    for (const rule of this.config.strategy.entryRules) {
-      const indicatorValue = indicators[rule.indicator];
-      
-      switch (rule.condition) {
-        case 'above':
-          if (indicatorValue <= rule.value) return false;
-          break;
-        case 'below':
-          if (indicatorValue >= rule.value) return false;
-          break;
-        // Add more conditions as needed
-      }
-    }
-    
-    return true;
-  }
-
-  private openPosition(candle: any): void {
+  private openPosition(candle: Candle, compiled: CompiledStrategy): void {
     const positionSize = this.calculatePositionSize(candle);
+    const stopLossPercent = compiled.stopLossPercent ?? 3;
+    const takeProfitPercent = compiled.takeProfitPercent ?? 6;
     
     const position = {
-      id: `POS-${Date.now()}`,
+      id: `POS-${candle.date.getTime()}`,
       entryPrice: candle.close,
       size: positionSize,
       entryDate: candle.date,
-      stopLoss: candle.close * 0.97, // 3% stop loss
-      takeProfit: candle.close * 1.06 // 6% take profit
+      stopLoss: candle.close * (1 - stopLossPercent / 100),
+      takeProfit: candle.close * (1 + takeProfitPercent / 100),
+      highestPrice: candle.close
     };
     
     this.positions.set(position.id, position);
     this.equity -= positionSize * candle.close * (1 + this.config.commission / 100);
   }
 
-  private calculatePositionSize(candle: any): number {
+  private calculatePositionSize(candle: Candle): number {
     const method = this.config.strategy.positionSizing;
     
     switch (method.type) {
@@ -152,9 +124,9 @@ export class BacktestingEngine {
     }
   }
 
-  private checkExitConditions(candle: any): void {
+  private checkExitConditions(candle: Candle, compiled: CompiledStrategy, indicatorExit: boolean): void {
     for (const [id, position] of this.positions) {
-      let shouldExit = false;
+      let shouldExit = indicatorExit;
       let exitPrice = candle.close;
       
       // Check stop loss
@@ -171,6 +143,11 @@ export class BacktestingEngine {
       
       if (shouldExit) {
         this.closePosition(id, exitPrice, candle.date);
+      } else if (compiled.trailingStopPercent !== undefined) {
+        // Trailing stop acompanha a máxima; vale a partir do próximo candle
+        position.highestPrice = Math.max(position.highestPrice, candle.high);
+        const trailingStop = position.highestPrice * (1 - compiled.trailingStopPercent / 100);
+        position.stopLoss = Math.max(position.stopLoss, trailingStop);
       }
     }
   }
@@ -199,12 +176,12 @@ export class BacktestingEngine {
     this.positions.delete(positionId);
   }
 
-  private calculateEquity(): number {
+  private calculateEquity(candle: Candle): number {
     let equity = this.equity;
     
     // Add unrealized P&L
     for (const position of this.positions.values()) {
-      const currentPrice = this.historicalData[this.historicalData.length - 1]?.close || position.entryPrice;
+      const currentPrice = candle.close;
       equity += (currentPrice - position.entryPrice) * position.size;
     }
     
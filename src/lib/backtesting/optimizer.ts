@@ -0,0 +1,635 @@
+/**
+ * 🔬 Otimizador walk-forward
+ * Busca parâmetros (grid, random ou bayesiana) em janelas in-sample, valida
+ * nas janelas out-of-sample seguintes e mede o risco de overfitting:
+ * Deflated Sharpe Ratio (Bailey & López de Prado, 2014) e Probability of
+ * Backtest Overfitting via CSCV (Bailey et al., 2017).
+ */
+
+import { EventEmitter } from 'events';
+import { choleskyDecomposition, choleskySolve, forwardSubstitute, mulberry32, normalCdf, normalInverse, normalPdf } from '@/lib/math';
+import type { ParameterizedStrategy, ParameterRange, ParameterValues, StrategySignal } from './strategies';
+
+export type SearchMethod = 'grid' | 'random' | 'bayesian';
+export type OptimizationObjective = 'sharpe' | 'sortino' | 'totalReturn';
+
+export interface OptimizerBar {
+  timestamp: number | string | Date;
+  close: number;
+}
+
+export interface WalkForwardOptions {
+  inSampleBars: number;
+  outOfSampleBars: number;
+  stepBars?: number; // padrão: outOfSampleBars (janelas OOS contíguas)
+  anchored?: boolean; // in-sample sempre começa no primeiro candle
+  method?: SearchMethod;
+  objective?: OptimizationObjective;
+  evaluations?: number; // orçamento por janela para random/bayesiana
+  commission?: number; // fração cobrada a cada troca de posição
+  slippage?: number;
+  periodsPerYear?: number; // 365 para candles diários de cripto
+  cscvBlocks?: number; // blocos para o PBO (par)
+  seed?: number;
+}
+
+export interface PerformanceMetrics {
+  bars: number;
+  totalReturn: number;
+  annualizedReturn: number;
+  volatility: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  maxDrawdown: number;
+  trades: number;
+  exposure: number; // fração dos candles com posição aberta
+}
+
+export interface OptimizationTrial {
+  parameters: ParameterValues;
+  score: number;
+  metrics: PerformanceMetrics;
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  inSample: { start: Date; end: Date };
+  outOfSample: { start: Date; end: Date };
+  parameters: ParameterValues;
+  inSampleMetrics: PerformanceMetrics;
+  outOfSampleMetrics: PerformanceMetrics;
+  efficiency: number | null; // retorno anualizado OOS / IS
+  trials: number;
+}
+
+export interface ParameterStability {
+  values: number[];
+  mean: number;
+  std: number;
+  normalizedStd: number; // desvio padrão / largura do range declarado
+}
+
+export interface WalkForwardReport {
+  strategy: string;
+  method: SearchMethod;
+  objective: OptimizationObjective;
+  windows: WalkForwardWindow[];
+  outOfSample: PerformanceMetrics; // janelas OOS encadeadas
+  recommended: ParameterValues; // parâmetros da janela mais recente
+  stability: {
+    parameters: Record<string, ParameterStability>;
+    score: number; // 1 = mesmos parâmetros em todas as janelas, 0 = tão dispersos quanto sorteio uniforme
+  };
+  overfitting: {
+    trials: number;
+    walkForwardEfficiency: number | null;
+    sharpeDecay: number; // Sharpe IS médio - Sharpe OOS médio (anualizados)
+    deflatedSharpeRatio: number; // probabilidade de o Sharpe OOS ser > 0 dado o número de tentativas
+    probabilityOfOverfitting: number | null;
+  };
+}
+
+const DEFAULTS = {
+  method: 'grid' as SearchMethod,
+  objective: 'sharpe' as OptimizationObjective,
+  evaluations: 50,
+  commission: 0.001,
+  slippage: 0.0005,
+  periodsPerYear: 365,
+  cscvBlocks: 8,
+  seed: 42
+};
+
+const MAX_GRID_SIZE = 5000;
+const MAX_CSCV_CONFIGS = 200;
+const EULER_MASCHERONI = 0.5772156649;
+// Desvio padrão de uma uniforme em [0, 1]
+const UNIFORM_STD = 1 / Math.sqrt(12);
+
+/**
+ * 🔄 Otimizador walk-forward de estratégias parametrizadas
+ */
+export class WalkForwardOptimizer extends EventEmitter {
+  private stopped = false;
+
+  stop(): void {
+    this.stopped = true;
+    this.emit('optimizer:stopped', { reason: 'manual' });
+  }
+
+  async optimize(
+    strategy: ParameterizedStrategy,
+    bars: OptimizerBar[],
+    options: WalkForwardOptions
+  ): Promise<WalkForwardReport> {
+    this.stopped = false;
+    const opts = { ...DEFAULTS, ...options };
+    const stepBars = options.stepBars ?? options.outOfSampleBars;
+
+    if (opts.inSampleBars < 2 || opts.outOfSampleBars < 2) {
+      throw new Error('In-sample and out-of-sample windows need at least 2 bars');
+    }
+    if (stepBars < opts.outOfSampleBars) {
+      throw new Error('stepBars must be at least outOfSampleBars so out-of-sample windows do not overlap');
+    }
+    if (opts.cscvBlocks < 2 || opts.cscvBlocks % 2 !== 0) {
+      throw new Error('cscvBlocks must be an even number >= 2');
+    }
+
+    const closes = bars.map(bar => Number(bar.close));
+    const dates = bars.map(bar => new Date(bar.timestamp));
+    const evaluator = new SignalEvaluator(strategy, closes, opts);
+    const random = mulberry32(opts.seed);
+
+    const windows: WalkForwardWindow[] = [];
+    const oosReturns: number[] = [];
+    const trialSharpes: number[] = [];
+    const inSampleSharpes: number[] = [];
+
+    const windowStarts: number[] = [];
+    for (let start = 0; start + opts.inSampleBars + opts.outOfSampleBars <= closes.length; start += stepBars) {
+      windowStarts.push(start);
+    }
+    if (windowStarts.length === 0) {
+      throw new Error(`Need at least ${opts.inSampleBars + opts.outOfSampleBars} bars, got ${closes.length}`);
+    }
+
+    this.emit('optimizer:start', { strategy: strategy.name, windows: windowStarts.length, method: opts.method });
+
+    for (const [index, start] of windowStarts.entries()) {
+      const inStart = opts.anchored ? 0 : start;
+      const inEnd = start + opts.inSampleBars;
+      const outEnd = inEnd + opts.outOfSampleBars;
+
+      const objective = (params: ParameterValues): OptimizationTrial => {
+        const metrics = computeMetrics(evaluator.returns(params, inStart, inEnd), opts.periodsPerYear, evaluator.lastTrades);
+        const trial = { parameters: params, score: objectiveValue(metrics, opts.objective), metrics };
+        trialSharpes.push(metrics.sharpeRatio / Math.sqrt(opts.periodsPerYear));
+        return trial;
+      };
+
+      const trials = await this.search(strategy, opts, objective, random);
+      if (trials.length === 0) {
+        throw new Error(`No valid parameter combination for ${strategy.name}`);
+      }
+      const best = trials.reduce((a, b) => (b.score > a.score ? b : a));
+
+      const returns = evaluator.returns(best.parameters, inEnd, outEnd);
+      const outOfSampleMetrics = computeMetrics(returns, opts.periodsPerYear, evaluator.lastTrades);
+      oosReturns.push(...returns);
+      inSampleSharpes.push(best.metrics.sharpeRatio);
+
+      const window: WalkForwardWindow = {
+        index,
+        inSample: { start: dates[inStart], end: dates[inEnd - 1] },
+        outOfSample: { start: dates[inEnd], end: dates[outEnd - 1] },
+        parameters: best.parameters,
+        inSampleMetrics: best.metrics,
+        outOfSampleMetrics,
+        efficiency: best.metrics.annualizedReturn > 0
+          ? outOfSampleMetrics.annualizedReturn / best.metrics.annualizedReturn
+          : null,
+        trials: trials.length
+      };
+      windows.push(window);
+
+      this.emit('optimizer:window', window);
+      this.emit('optimizer:progress', { window: index + 1, windows: windowStarts.length, progress: ((index + 1) / windowStarts.length) * 100 });
+    }
+
+    const outOfSample = computeMetrics(oosReturns, opts.periodsPerYear, windows.reduce((sum, w) => sum + w.outOfSampleMetrics.trades, 0));
+    const efficiencies = windows.map(w => w.efficiency).filter((e): e is number => e !== null);
+
+    const report: WalkForwardReport = {
+      strategy: strategy.name,
+      method: opts.method,
+      objective: opts.objective,
+      windows,
+      outOfSample,
+      recommended: windows[windows.length - 1].parameters,
+      stability: parameterStability(strategy.parameters, windows),
+      overfitting: {
+        trials: evaluator.distinctConfigurations(),
+        walkForwardEfficiency: efficiencies.length > 0 ? mean(efficiencies) : null,
+        sharpeDecay: mean(inSampleSharpes) - mean(windows.map(w => w.outOfSampleMetrics.sharpeRatio)),
+        deflatedSharpeRatio: deflatedSharpeRatio(oosReturns, trialSharpes),
+        probabilityOfOverfitting: probabilityOfBacktestOverfitting(
+          evaluator.configurations().slice(0, MAX_CSCV_CONFIGS).map(params => evaluator.returns(params, 0, closes.length)),
+          opts.cscvBlocks
+        )
+      }
+    };
+
+    this.emit('optimizer:complete', report);
+    return report;
+  }
+
+  private async search(
+    strategy: ParameterizedStrategy,
+    opts: typeof DEFAULTS & WalkForwardOptions,
+    objective: (params: ParameterValues) => OptimizationTrial,
+    random: () => number
+  ): Promise<OptimizationTrial[]> {
+    const space = new ParameterSpace(strategy);
+    const trials: OptimizationTrial[] = [];
+    const seen = new Set<string>();
+
+    const evaluate = async (params: ParameterValues) => {
+      const key = parameterKey(params);
+      if (seen.has(key) || !space.isValid(params)) return;
+      seen.add(key);
+      trials.push(objective(params));
+
+      // Devolve o controle ao event loop para a UI e para stop()
+      if (trials.length % 25 === 0) await yieldToEventLoop();
+      if (this.stopped) throw new Error('Optimization stopped');
+    };
+
+    if (opts.method === 'grid') {
+      // Limite fixo, checado antes de montar o grid
+      const size = space.gridSize();
+      if (size > MAX_GRID_SIZE) {
+        throw new Error(`Grid has ${size} combinations (limit ${MAX_GRID_SIZE}); use random or bayesian search`);
+      }
+      for (const params of space.grid()) await evaluate(params);
+      return trials;
+    }
+
+    const budget = opts.evaluations;
+    const maxAttempts = budget * 20;
+    let attempts = 0;
+
+    if (opts.method === 'random') {
+      while (trials.length < budget && attempts++ < maxAttempts) {
+        await evaluate(space.fromUnit(space.names.map(() => random())));
+      }
+      return trials;
+    }
+
+    // Bayesiana: processo gaussiano + expected improvement sobre candidatos aleatórios
+    const initial = Math.min(budget, Math.max(5, 2 * space.names.length));
+    while (trials.length < initial && attempts++ < maxAttempts) {
+      await evaluate(space.fromUnit(space.names.map(() => random())));
+    }
+
+    while (trials.length < budget && attempts++ < maxAttempts) {
+      const observed = trials.map(trial => ({ x: space.toUnit(trial.parameters), y: trial.score }));
+      const gp = new GaussianProcess(observed);
+      const bestScore = Math.max(...observed.map(o => o.y));
+
+      let candidate: ParameterValues | null = null;
+      let bestImprovement = -Infinity;
+      for (let i = 0; i < 256; i++) {
+        const params = space.fromUnit(space.names.map(() => random()));
+        if (seen.has(parameterKey(params)) || !space.isValid(params)) continue;
+        const improvement = gp.expectedImprovement(space.toUnit(params), bestScore);
+        if (improvement > bestImprovement) {
+          bestImprovement = improvement;
+          candidate = params;
+        }
+      }
+      if (!candidate) break; // espaço esgotado
+      await evaluate(candidate);
+    }
+
+    return trials;
+  }
+}
+
+/**
+ * Converte sinais em retornos por candle. Posição long/flat: BUY abre no
+ * fechamento do candle i e ganha o retorno do candle i+1; SELL zera.
+ * Os sinais de cada configuração são calculados uma vez na série inteira.
+ */
+class SignalEvaluator {
+  lastTrades = 0;
+  private cache = new Map<string, { params: ParameterValues; signals: StrategySignal[] }>();
+
+  constructor(
+    private strategy: ParameterizedStrategy,
+    private closes: number[],
+    private costs: { commission: number; slippage: number }
+  ) {}
+
+  returns(params: ParameterValues, from: number, to: number): number[] {
+    const signals = this.signals(params);
+    const cost = this.costs.commission + this.costs.slippage;
+    const returns: number[] = [];
+    let position = 0;
+    this.lastTrades = 0;
+
+    // A janela começa sem posição; candles anteriores só aquecem os indicadores
+    for (let i = from; i < to - 1; i++) {
+      const target = signals[i] === 'BUY' ? 1 : signals[i] === 'SELL' ? 0 : position;
+      let barReturn = 0;
+      if (target !== position) {
+        barReturn -= cost;
+        if (target === 1) this.lastTrades++;
+        position = target;
+      }
+      barReturn += position * (this.closes[i + 1] / this.closes[i] - 1);
+      returns.push(barReturn);
+    }
+
+    return returns;
+  }
+
+  configurations(): ParameterValues[] {
+    return [...this.cache.values()].map(entry => entry.params);
+  }
+
+  distinctConfigurations(): number {
+    return this.cache.size;
+  }
+
+  private signals(params: ParameterValues): StrategySignal[] {
+    const key = parameterKey(params);
+    let entry = this.cache.get(key);
+    if (!entry) {
+      entry = { params, signals: this.strategy.signals(this.closes, params) };
+      this.cache.set(key, entry);
+    }
+    return entry.signals;
+  }
+}
+
+class ParameterSpace {
+  readonly names: string[];
+  private ranges: ParameterRange[];
+
+  constructor(private strategy: ParameterizedStrategy) {
+    this.names = Object.keys(strategy.parameters);
+    this.ranges = this.names.map(name => strategy.parameters[name]);
+  }
+
+  gridSize(): number {
+    return this.ranges.reduce((size, range) => size * this.count(range), 1);
+  }
+
+  grid(): ParameterValues[] {
+    return this.names.reduce<ParameterValues[]>((sets, name, i) => {
+      const values = this.values(this.ranges[i]);
+      return sets.flatMap(set => values.map(value => ({ ...set, [name]: value })));
+    }, [{}]);
+  }
+
+  fromUnit(unit: number[]): ParameterValues {
+    const params: ParameterValues = {};
+    this.names.forEach((name, i) => {
+      const range = this.ranges[i];
+      params[name] = this.snap(range, range.min + unit[i] * (range.max - range.min));
+    });
+    return params;
+  }
+
+  toUnit(params: ParameterValues): number[] {
+    return this.names.map((name, i) => {
+      const { min, max } = this.ranges[i];
+      return max > min ? (params[name] - min) / (max - min) : 0;
+    });
+  }
+
+  isValid(params: ParameterValues): boolean {
+    return this.strategy.isValid ? this.strategy.isValid(params) : true;
+  }
+
+  private count(range: ParameterRange): number {
+    return Math.floor((range.max - range.min) / stepOf(range) + 1e-9) + 1;
+  }
+
+  private values(range: ParameterRange): number[] {
+    const step = stepOf(range);
+    return Array.from({ length: this.count(range) }, (_, k) => roundTo(range.min + k * step));
+  }
+
+  private snap(range: ParameterRange, value: number): number {
+    const step = stepOf(range);
+    const snapped = range.min + Math.round((value - range.min) / step) * step;
+    return roundTo(Math.min(range.max, Math.max(range.min, snapped)));
+  }
+}
+
+/**
+ * Processo gaussiano com kernel RBF sobre o cubo unitário, scores padronizados
+ */
+class GaussianProcess {
+  private xs: number[][];
+  private alpha: number[];
+  private chol: number[][];
+  private yMean: number;
+  private yStd: number;
+
+  constructor(observed: Array<{ x: number[]; y: number }>, private lengthScale = 0.25, noise = 1e-4) {
+    this.xs = observed.map(o => o.x);
+    const ys = observed.map(o => o.y);
+    this.yMean = mean(ys);
+    this.yStd = std(ys) || 1;
+    const normalized = ys.map(y => (y - this.yMean) / this.yStd);
+
+    const kernel = this.xs.map((a, i) => this.xs.map((b, j) => this.kernel(a, b) + (i === j ? noise : 0)));
+    this.chol = choleskyDecomposition(kernel);
+    this.alpha = choleskySolve(this.chol, normalized);
+  }
+
+  expectedImprovement(x: number[], best: number, xi = 0.01): number {
+    const k = this.xs.map(xi_ => this.kernel(x, xi_));
+    const mu = k.reduce((sum, value, i) => sum + value * this.alpha[i], 0);
+    const v = forwardSubstitute(this.chol, k);
+    const variance = Math.max(1e-12, 1 - v.reduce((sum, value) => sum + value * value, 0));
+    const sigma = Math.sqrt(variance);
+
+    const improvement = mu - (best - this.yMean) / this.yStd - xi;
+    const z = improvement / sigma;
+    return improvement * normalCdf(z) + sigma * normalPdf(z);
+  }
+
+  private kernel(a: number[], b: number[]): number {
+    const distance = a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0);
+    return Math.exp(-distance / (2 * this.lengthScale ** 2));
+  }
+}
+
+/**
+ * Métricas de uma série de retornos por candle
+ */
+export function computeMetrics(returns: number[], periodsPerYear: number, trades = 0): PerformanceMetrics {
+  if (returns.length === 0) {
+    return { bars: 0, totalReturn: 0, annualizedReturn: 0, volatility: 0, sharpeRatio: 0, sortinoRatio: 0, maxDrawdown: 0, trades, exposure: 0 };
+  }
+
+  let equity = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+  for (const r of returns) {
+    equity *= 1 + r;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+  }
+
+  const avg = mean(returns);
+  const deviation = std(returns);
+  const downside = Math.sqrt(mean(returns.map(r => Math.min(0, r) ** 2)));
+  const annualizedReturn = equity > 0 ? Math.pow(equity, periodsPerYear / returns.length) - 1 : -1;
+
+  return {
+    bars: returns.length,
+    totalReturn: equity - 1,
+    annualizedReturn,
+    volatility: deviation * Math.sqrt(periodsPerYear),
+    sharpeRatio: deviation > 0 ? (avg / deviation) * Math.sqrt(periodsPerYear) : 0,
+    sortinoRatio: downside > 0 ? (avg / downside) * Math.sqrt(periodsPerYear) : 0,
+    maxDrawdown,
+    trades,
+    exposure: returns.filter(r => r !== 0).length / returns.length
+  };
+}
+
+/**
+ * Deflated Sharpe Ratio: probabilidade de o Sharpe verdadeiro ser positivo
+ * depois de descontar o melhor Sharpe esperado entre `trialSharpes.length`
+ * tentativas sem habilidade, a assimetria e a curtose dos retornos.
+ * Sharpes por candle (não anualizados).
+ */
+export function deflatedSharpeRatio(returns: number[], trialSharpes: number[]): number {
+  const n = returns.length;
+  const deviation = std(returns);
+  if (n < 3 || deviation === 0) return 0;
+
+  const sr = mean(returns) / deviation;
+  const trials = trialSharpes.length;
+  const sr0 = trials > 1
+    ? std(trialSharpes) * ((1 - EULER_MASCHERONI) * normalInverse(1 - 1 / trials)
+      + EULER_MASCHERONI * normalInverse(1 - 1 / (trials * Math.E)))
+    : 0;
+
+  const avg = mean(returns);
+  const skew = mean(returns.map(r => ((r - avg) / deviation) ** 3));
+  const kurtosis = mean(returns.map(r => ((r - avg) / deviation) ** 4));
+  const denominator = Math.sqrt(Math.max(1e-12, 1 - skew * sr + ((kurtosis - 1) / 4) * sr * sr));
+
+  return normalCdf(((sr - sr0) * Math.sqrt(n - 1)) / denominator);
+}
+
+/**
+ * PBO por Combinatorially Symmetric Cross-Validation: divide a série em
+ * blocos, escolhe a melhor configuração em cada metade e mede com que
+ * frequência ela fica abaixo da mediana na outra metade.
+ */
+export function probabilityOfBacktestOverfitting(returnsByConfig: number[][], blocks: number): number | null {
+  const configs = returnsByConfig.length;
+  const length = Math.min(...returnsByConfig.map(r => r.length));
+  if (configs < 2 || length < blocks * 2) return null;
+
+  // Estatísticas suficientes por bloco: n, soma e soma dos quadrados
+  const blockSize = Math.floor(length / blocks);
+  const stats = returnsByConfig.map(returns => Array.from({ length: blocks }, (_, b) => {
+    const slice = returns.slice(b * blockSize, b === blocks - 1 ? length : (b + 1) * blockSize);
+    return {
+      n: slice.length,
+      sum: slice.reduce((s, r) => s + r, 0),
+      sumSq: slice.reduce((s, r) => s + r * r, 0)
+    };
+  }));
+
+  const sharpe = (config: number, selected: number[]) => {
+    let n = 0, sum = 0, sumSq = 0;
+    for (const b of selected) {
+      n += stats[config][b].n;
+      sum += stats[config][b].sum;
+      sumSq += stats[config][b].sumSq;
+    }
+    const avg = sum / n;
+    const variance = n > 1 ? (sumSq - n * avg * avg) / (n - 1) : 0;
+    return variance > 0 ? avg / Math.sqrt(variance) : 0;
+  };
+
+  const all = Array.from({ length: blocks }, (_, b) => b);
+  let overfit = 0;
+  let total = 0;
+
+  for (const inSample of combinations(all, blocks / 2)) {
+    const outOfSample = all.filter(b => !inSample.includes(b));
+    const inSharpes = Array.from({ length: configs }, (_, c) => sharpe(c, inSample));
+    const best = inSharpes.indexOf(Math.max(...inSharpes));
+
+    const outSharpes = Array.from({ length: configs }, (_, c) => sharpe(c, outOfSample));
+    const rank = outSharpes.filter(value => value < outSharpes[best]).length
+      + (outSharpes.filter(value => value === outSharpes[best]).length + 1) / 2;
+    const omega = rank / (configs + 1);
+    if (Math.log(omega / (1 - omega)) <= 0) overfit++;
+    total++;
+  }
+
+  return overfit / total;
+}
+
+function parameterStability(
+  ranges: Record<string, ParameterRange>,
+  windows: WalkForwardWindow[]
+): WalkForwardReport['stability'] {
+  const parameters: Record<string, ParameterStability> = {};
+
+  for (const [name, range] of Object.entries(ranges)) {
+    const values = windows.map(w => w.parameters[name]);
+    const deviation = std(values, false);
+    const width = range.max - range.min;
+    parameters[name] = {
+      values,
+      mean: mean(values),
+      std: deviation,
+      normalizedStd: width > 0 ? deviation / width : 0
+    };
+  }
+
+  const dispersion = Object.values(parameters).map(p => p.normalizedStd);
+  const score = dispersion.length > 0 ? 1 - mean(dispersion) / UNIFORM_STD : 1;
+  return { parameters, score: Math.min(1, Math.max(0, score)) };
+}
+
+function objectiveValue(metrics: PerformanceMetrics, objective: OptimizationObjective): number {
+  switch (objective) {
+    case 'sortino': return metrics.sortinoRatio;
+    case 'totalReturn': return metrics.totalReturn;
+    default: return metrics.sharpeRatio;
+  }
+}
+
+function parameterKey(params: ParameterValues): string {
+  return Object.keys(params).sort().map(key => `${key}=${params[key]}`).join('&');
+}
+
+function stepOf(range: ParameterRange): number {
+  if (range.step && range.step > 0) return range.step;
+  if (range.integer) return 1;
+  return (range.max - range.min) / 10 || 1;
+}
+
+function roundTo(value: number, decimals = 10): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function* combinations<T>(items: T[], size: number, start = 0, prefix: T[] = []): Generator<T[]> {
+  if (prefix.length === size) {
+    yield prefix;
+    return;
+  }
+  for (let i = start; i <= items.length - (size - prefix.length); i++) {
+    yield* combinations(items, size, i + 1, [...prefix, items[i]]);
+  }
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function std(values: number[], sample = true): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const squares = values.reduce((sum, v) => sum + (v - avg) ** 2, 0);
+  return Math.sqrt(squares / (values.length - (sample ? 1 : 0)));
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
@@ -0,0 +1,414 @@
+/**
+ * 🧩 Compilador de regras de estratégia
+ * Transforma entryRules/exitRules declarativas em avaliadores sobre os
+ * indicadores de technicalIndicators.ts. A mesma estratégia compilada é usada
+ * pelo backtest (candle a candle) e pela geração de sinais ao vivo.
+ */
+
+import {
+  sma,
+  ema,
+  rsi,
+  macd,
+  bollingerBands,
+  atr,
+  stochastic
+} from '@/lib/technicalIndicators';
+import { INTERVAL_MS, resampleCandles } from './candles';
+import type { Strategy } from './strategies';
+import type {
+  Candle,
+  CandleInterval,
+  EntryRule,
+  ExitRule,
+  RuleCondition,
+  RuleGroup,
+  StrategyRule,
+  TradingStrategy
+} from './types';
+
+export type IndicatorName =
+  | 'open' | 'high' | 'low' | 'close' | 'volume'
+  | 'sma' | 'ema' | 'rsi' | 'macd' | 'bollingerBands' | 'atr' | 'stochastic';
+
+export interface IndicatorRef {
+  name: IndicatorName;
+  params: number[];
+  field: string;
+  timeframe?: CandleInterval;
+  key: string; // forma canônica, usada como chave de cache
+}
+
+interface IndicatorSpec {
+  defaults: number[];
+  fields: string[]; // o primeiro é o padrão
+  compute: (candles: Candle[], params: number[]) => Record<string, number[]>;
+}
+
+const closes = (candles: Candle[]) => candles.map(c => c.close);
+
+const INDICATORS: Record<IndicatorName, IndicatorSpec> = {
+  open: { defaults: [], fields: ['value'], compute: c => ({ value: c.map(x => x.open) }) },
+  high: { defaults: [], fields: ['value'], compute: c => ({ value: c.map(x => x.high) }) },
+  low: { defaults: [], fields: ['value'], compute: c => ({ value: c.map(x => x.low) }) },
+  close: { defaults: [], fields: ['value'], compute: c => ({ value: closes(c) }) },
+  volume: { defaults: [], fields: ['value'], compute: c => ({ value: c.map(x => x.volume) }) },
+  sma: {
+    defaults: [20],
+    fields: ['value'],
+    compute: (c, [period]) => ({ value: sma(closes(c), period).map(r => r.value) })
+  },
+  ema: {
+    defaults: [20],
+    fields: ['value'],
+    compute: (c, [period]) => ({ value: ema(closes(c), period).map(r => r.value) })
+  },
+  rsi: {
+    defaults: [14],
+    fields: ['value'],
+    compute: (c, [period]) => ({ value: rsi(closes(c), period).map(r => r.value) })
+  },
+  macd: {
+    defaults: [12, 26, 9],
+    fields: ['macd', 'signal', 'histogram'],
+    compute: (c, [fast, slow, signal]) => {
+      const results = macd(closes(c), fast, slow, signal);
+      return {
+        macd: results.map(r => r.macd),
+        signal: results.map(r => r.signal),
+        histogram: results.map(r => r.histogram)
+      };
+    }
+  },
+  bollingerBands: {
+    defaults: [20, 2],
+    fields: ['middle', 'upper', 'lower', 'bandwidth', 'percentB'],
+    compute: (c, [period, stdDev]) => {
+      const results = bollingerBands(closes(c), period, stdDev);
+      return {
+        middle: results.map(r => r.middle),
+        upper: results.map(r => r.upper),
+        lower: results.map(r => r.lower),
+        bandwidth: results.map(r => r.bandwidth),
+        percentB: results.map(r => r.percentB)
+      };
+    }
+  },
+  atr: {
+    defaults: [14],
+    fields: ['value'],
+    compute: (c, [period]) => ({
+      value: atr(c.map(x => x.high), c.map(x => x.low), closes(c), period).map(r => r.value)
+    })
+  },
+  stochastic: {
+    defaults: [14, 3],
+    fields: ['k', 'd'],
+    compute: (c, [kPeriod, dPeriod]) => {
+      const results = stochastic(c.map(x => x.high), c.map(x => x.low), closes(c), kPeriod, dPeriod);
+      return { k: results.map(r => r.percentK), d: results.map(r => r.percentD) };
+    }
+  }
+};
+
+const ALIASES: Record<string, IndicatorName> = {
+  price: 'close',
+  bb: 'bollingerBands',
+  bollinger: 'bollingerBands',
+  stoch: 'stochastic'
+};
+
+const TIMEFRAMES = Object.keys(INTERVAL_MS) as CandleInterval[];
+
+const EXPRESSION = /^([a-zA-Z]+?)(\d+)?(?:\(([^)]*)\))?(?:\.([a-zA-Z]+))?(?:@(\w+))?$/;
+
+/**
+ * Interpreta uma expressão de indicador, ex: `macd(12,26,9).histogram@4h`.
+ * Também aceita a forma compacta legada `sma20` / `rsi14`.
+ */
+export function parseIndicator(expression: string): IndicatorRef {
+  const match = EXPRESSION.exec(expression.replace(/\s+/g, ''));
+  if (!match) {
+    throw new Error(`Invalid indicator expression "${expression}"`);
+  }
+
+  const [, rawName, compactPeriod, rawParams, rawField, rawTimeframe] = match;
+  const lower = rawName.toLowerCase();
+  const name = (ALIASES[lower] ||
+    (Object.keys(INDICATORS) as IndicatorName[]).find(n => n.toLowerCase() === lower)) as IndicatorName | undefined;
+  if (!name) {
+    throw new Error(`Unknown indicator "${rawName}" in "${expression}"`);
+  }
+
+  const spec = INDICATORS[name];
+  const given = rawParams
+    ? rawParams.split(',').filter(p => p.length > 0).map(Number)
+    : compactPeriod ? [Number(compactPeriod)] : [];
+  if (given.some(p => !Number.isFinite(p) || p <= 0) || given.length > spec.defaults.length) {
+    throw new Error(`Invalid parameters for ${name} in "${expression}"`);
+  }
+  const params = spec.defaults.map((value, i) => given[i] ?? value);
+
+  const field = rawField || spec.fields[0];
+  if (!spec.fields.includes(field)) {
+    throw new Error(`Unknown field "${field}" for ${name}; expected one of ${spec.fields.join(', ')}`);
+  }
+
+  let timeframe: CandleInterval | undefined;
+  if (rawTimeframe) {
+    if (!TIMEFRAMES.includes(rawTimeframe as CandleInterval)) {
+      throw new Error(`Unknown timeframe "${rawTimeframe}" in "${expression}"`);
+    }
+    timeframe = rawTimeframe as CandleInterval;
+  }
+
+  const key = `${name}(${params.join(',')}).${field}${timeframe ? `@${timeframe}` : ''}`;
+  return { name, params, field, timeframe, key };
+}
+
+// ============================================================================
+// Contexto de avaliação
+// ============================================================================
+
+/**
+ * Séries de indicadores alinhadas aos candles base (NaN durante o aquecimento).
+ * Indicadores de timeframe maior só enxergam candles já fechados, evitando
+ * olhar para o futuro no backtest.
+ */
+export class RuleContext {
+  private cache = new Map<string, number[]>();
+
+  constructor(
+    readonly candles: Candle[],
+    readonly interval: CandleInterval
+  ) {}
+
+  valueAt(ref: IndicatorRef, index: number): number {
+    const value = this.series(ref)[index];
+    return value === undefined ? NaN : value;
+  }
+
+  series(ref: IndicatorRef): number[] {
+    const cached = this.cache.get(ref.key);
+    if (cached) return cached;
+
+    const timeframe = ref.timeframe && ref.timeframe !== this.interval ? ref.timeframe : undefined;
+    if (timeframe && INTERVAL_MS[timeframe] < INTERVAL_MS[this.interval]) {
+      throw new Error(`Timeframe ${timeframe} is lower than the base interval ${this.interval}`);
+    }
+
+    const source = timeframe ? resampleCandles(this.candles, timeframe) : this.candles;
+    const outputs = INDICATORS[ref.name].compute(source, ref.params);
+    const aligned = alignRight(outputs[ref.field], source.length);
+    const series = timeframe ? this.projectToBase(source, aligned, timeframe) : aligned;
+
+    this.cache.set(ref.key, series);
+    return series;
+  }
+
+  private projectToBase(higher: Candle[], values: number[], timeframe: CandleInterval): number[] {
+    const baseMs = INTERVAL_MS[this.interval];
+    const higherMs = INTERVAL_MS[timeframe];
+    const projected: number[] = new Array(this.candles.length).fill(NaN);
+
+    let j = -1;
+    for (let i = 0; i < this.candles.length; i++) {
+      const baseClose = this.candles[i].date.getTime() + baseMs;
+      while (j + 1 < higher.length && higher[j + 1].date.getTime() + higherMs <= baseClose) j++;
+      if (j >= 0) projected[i] = values[j];
+    }
+
+    return projected;
+  }
+}
+
+// Os indicadores retornam só os pontos calculados; o último corresponde ao último candle
+function alignRight(values: number[], length: number): number[] {
+  const aligned: number[] = new Array(length).fill(NaN);
+  const offset = length - values.length;
+  values.forEach((value, i) => {
+    if (offset + i >= 0) aligned[offset + i] = Number.isFinite(value) ? value : NaN;
+  });
+  return aligned;
+}
+
+// ============================================================================
+// Compilação
+// ============================================================================
+
+export interface CompiledRule {
+  evaluate(ctx: RuleContext, index: number): boolean;
+  refs: IndicatorRef[];
+}
+
+type Operand = { kind: 'number'; value: number } | { kind: 'indicator'; ref: IndicatorRef };
+
+function compileOperand(value: number | string): Operand {
+  if (typeof value === 'number') return { kind: 'number', value };
+  const numeric = Number(value);
+  if (value.trim() !== '' && Number.isFinite(numeric)) return { kind: 'number', value: numeric };
+  return { kind: 'indicator', ref: parseIndicator(value) };
+}
+
+function operandAt(ctx: RuleContext, operand: Operand, index: number): number {
+  return operand.kind === 'number' ? operand.value : ctx.valueAt(operand.ref, index);
+}
+
+function compileCondition(indicator: string, condition: RuleCondition, value: number | string): CompiledRule {
+  const left = parseIndicator(indicator);
+  const right = compileOperand(value);
+  const refs = right.kind === 'indicator' ? [left, right.ref] : [left];
+
+  const compare = (ctx: RuleContext, index: number): [number, number] =>
+    [ctx.valueAt(left, index), operandAt(ctx, right, index)];
+
+  return {
+    refs,
+    evaluate(ctx, index) {
+      const [a, b] = compare(ctx, index);
+      if (isNaN(a) || isNaN(b)) return false;
+
+      switch (condition) {
+        case 'above':
+          return a > b;
+        case 'below':
+          return a < b;
+        case 'crosses_above':
+        case 'crosses_below': {
+          if (index === 0) return false;
+          const [prevA, prevB] = compare(ctx, index - 1);
+          if (isNaN(prevA) || isNaN(prevB)) return false;
+          return condition === 'crosses_above'
+            ? prevA <= prevB && a > b
+            : prevA >= prevB && a < b;
+        }
+        default:
+          throw new Error(`Unknown rule condition "${condition}"`);
+      }
+    }
+  };
+}
+
+function isGroup(rule: StrategyRule): rule is RuleGroup {
+  return 'operator' in rule && Array.isArray(rule.rules);
+}
+
+function compileRule(rule: StrategyRule): CompiledRule {
+  if (!isGroup(rule)) {
+    const entry = rule as EntryRule;
+    return compileCondition(entry.indicator, entry.condition, entry.value);
+  }
+
+  const children = rule.rules.map(compileRule);
+  const refs = children.flatMap(child => child.refs);
+  if (rule.operator === 'OR') {
+    return { refs, evaluate: (ctx, index) => children.some(child => child.evaluate(ctx, index)) };
+  }
+  return { refs, evaluate: (ctx, index) => children.every(child => child.evaluate(ctx, index)) };
+}
+
+/**
+ * Compila uma lista de regras combinadas com AND. Lista vazia nunca dispara.
+ */
+export function compileRules(rules: StrategyRule[]): CompiledRule {
+  if (rules.length === 0) {
+    return { refs: [], evaluate: () => false };
+  }
+  return compileRule({ operator: 'AND', rules });
+}
+
+export interface CompiledStrategy {
+  strategy: TradingStrategy;
+  entry: CompiledRule;
+  exit: CompiledRule; // apenas regras de saída do tipo 'indicator' (OR)
+  stopLossPercent?: number;
+  takeProfitPercent?: number;
+  trailingStopPercent?: number;
+  timeframes: CandleInterval[]; // timeframes extras referenciados
+}
+
+function percentRule(rules: ExitRule[], type: ExitRule['type']): number | undefined {
+  const rule = rules.find(r => r.type === type);
+  if (!rule) return undefined;
+  const value = Number(rule.value);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`Exit rule ${type} needs a positive percentage, got ${rule.value}`);
+  }
+  return value;
+}
+
+export function compileStrategy(strategy: TradingStrategy): CompiledStrategy {
+  const indicatorExits = strategy.exitRules
+    .filter(rule => rule.type === 'indicator')
+    .map(rule => {
+      if (!rule.indicator || !rule.condition) {
+        throw new Error(`Indicator exit rule in ${strategy.name} needs indicator and condition`);
+      }
+      return compileCondition(rule.indicator, rule.condition, rule.value);
+    });
+
+  const exit: CompiledRule = {
+    refs: indicatorExits.flatMap(rule => rule.refs),
+    evaluate: (ctx, index) => indicatorExits.some(rule => rule.evaluate(ctx, index))
+  };
+  const entry = compileRules(strategy.entryRules);
+
+  const timeframes = Array.from(new Set(
+    [...entry.refs, ...exit.refs].map(ref => ref.timeframe).filter((t): t is CandleInterval => !!t)
+  ));
+
+  return {
+    strategy,
+    entry,
+    exit,
+    stopLossPercent: percentRule(strategy.exitRules, 'stop_loss'),
+    takeProfitPercent: percentRule(strategy.exitRules, 'take_profit'),
+    trailingStopPercent: percentRule(strategy.exitRules, 'trailing_stop'),
+    timeframes
+  };
+}
+
+// ============================================================================
+// Sinais ao vivo
+// ============================================================================
+
+/**
+ * Avalia a estratégia no candle `index` de um contexto já montado. Saída tem
+ * prioridade sobre entrada. Num backtest, o mesmo contexto serve para todos os candles.
+ */
+export function signalAt(compiled: CompiledStrategy, ctx: RuleContext, index: number): 'BUY' | 'SELL' | 'HOLD' {
+  if (compiled.exit.evaluate(ctx, index)) return 'SELL';
+  if (compiled.entry.evaluate(ctx, index)) return 'BUY';
+  return 'HOLD';
+}
+
+/**
+ * Avalia a estratégia no último candle
+ */
+export function evaluateSignal(
+  strategy: TradingStrategy | CompiledStrategy,
+  candles: Candle[],
+  interval: CandleInterval
+): 'BUY' | 'SELL' | 'HOLD' {
+  if (candles.length === 0) return 'HOLD';
+
+  const compiled = 'entry' in strategy ? strategy : compileStrategy(strategy);
+  return signalAt(compiled, new RuleContext(candles, interval), candles.length - 1);
+}
+
+/**
+ * Adapta uma TradingStrategy declarativa para a interface Strategy usada
+ * pelos geradores de sinal. `execute` espera `{ candles }` com a janela recente.
+ */
+export function createRuleStrategy(
+  strategy: TradingStrategy,
+  interval: CandleInterval,
+  description = 'Declarative rule strategy'
+): Strategy {
+  const compiled = compileStrategy(strategy);
+  return {
+    name: strategy.name,
+    description,
+    execute: async (data: { candles: Candle[] }) => evaluateSignal(compiled, data.candles, interval)
+  };
+}
@@ -2,10 +2,37 @@
  * Estratégias de Trading para Backtesting
  */
 
+import { sma, rsi, macd, bollingerBands } from '@/lib/technicalIndicators';
+
+export type StrategySignal = 'BUY' | 'SELL' | 'HOLD';
+
 export interface Strategy {
   name: string;
   description: string;
-  execute: (data: any) => Promise<'BUY' | 'SELL' | 'HOLD'>;
+  execute: (data: any) => Promise<StrategySignal>;
+}
+
+export interface ParameterRange {
+  min: number;
+  max: number;
+  step?: number; // padrão: 1 para inteiros, (max - min) / 10 para contínuos
+  integer?: boolean;
+}
+
+export type ParameterValues = Record<string, number>;
+
+/**
+ * Estratégia com parâmetros otimizáveis. `signals` deve ser causal: o sinal
+ * do candle i só pode usar closes[0..i], o que permite calcular a série uma
+ * vez e avaliá-la em qualquer janela sem lookahead.
+ */
+export interface ParameterizedStrategy {
+  name: string;
+  description: string;
+  parameters: Record<string, ParameterRange>;
+  defaults: ParameterValues;
+  isValid?: (params: ParameterValues) => boolean;
+  signals: (closes: number[], params: ParameterValues) => StrategySignal[];
 }
 
 // Estratégia de Médias Móveis
@@ -115,3 +142,127 @@ export const strategies = [
   macdStrategy,
   cypherAIStrategy
 ];
+
+// Indicadores de technicalIndicators terminam no último candle; alinha pelo fim
+function alignToEnd<T>(values: T[], length: number): (T | undefined)[] {
+  return [...new Array<T | undefined>(Math.max(0, length - values.length)).fill(undefined), ...values];
+}
+
+// Médias móveis com períodos configuráveis
+export const movingAverageCrossover: ParameterizedStrategy = {
+  name: 'Moving Average Crossover',
+  description: 'Compra quando a MA rápida cruza acima da MA lenta',
+  parameters: {
+    fastPeriod: { min: 5, max: 50, step: 5, integer: true },
+    slowPeriod: { min: 20, max: 200, step: 10, integer: true }
+  },
+  defaults: { fastPeriod: 20, slowPeriod: 50 },
+  isValid: params => params.fastPeriod < params.slowPeriod,
+  signals: (closes, params) => {
+    const fast = alignToEnd(sma(closes, params.fastPeriod), closes.length);
+    const slow = alignToEnd(sma(closes, params.slowPeriod), closes.length);
+
+    return closes.map((price, i) => {
+      const f = fast[i]?.value;
+      const s = slow[i]?.value;
+      if (f === undefined || s === undefined) return 'HOLD';
+      if (f > s && price > f) return 'BUY';
+      if (f < s && price < f) return 'SELL';
+      return 'HOLD';
+    });
+  }
+};
+
+// RSI com período e limites configuráveis
+export const rsiReversion: ParameterizedStrategy = {
+  name: 'RSI Oversold/Overbought',
+  description: 'Compra abaixo do limite de oversold, vende acima do de overbought',
+  parameters: {
+    period: { min: 7, max: 28, step: 7, integer: true },
+    oversold: { min: 20, max: 40, step: 5 },
+    overbought: { min: 60, max: 80, step: 5 }
+  },
+  defaults: { period: 14, oversold: 30, overbought: 70 },
+  isValid: params => params.oversold < params.overbought,
+  signals: (closes, params) => {
+    const values = alignToEnd(rsi(closes, params.period), closes.length);
+
+    return values.map(result => {
+      if (!result) return 'HOLD';
+      if (result.value < params.oversold) return 'BUY';
+      if (result.value > params.overbought) return 'SELL';
+      return 'HOLD';
+    });
+  }
+};
+
+// Bandas de Bollinger com período e desvio configuráveis
+export const bollingerBounce: ParameterizedStrategy = {
+  name: 'Bollinger Bands Bounce',
+  description: 'Compra na banda inferior, vende na superior',
+  parameters: {
+    period: { min: 10, max: 40, step: 5, integer: true },
+    stdDev: { min: 1.5, max: 3, step: 0.25 }
+  },
+  defaults: { period: 20, stdDev: 2 },
+  signals: (closes, params) => {
+    const bands = alignToEnd(bollingerBands(closes, params.period, params.stdDev), closes.length);
+
+    return closes.map((price, i) => {
+      const band = bands[i];
+      if (!band) return 'HOLD';
+      if (price <= band.lower) return 'BUY';
+      if (price >= band.upper) return 'SELL';
+      return 'HOLD';
+    });
+  }
+};
+
+// MACD com períodos configuráveis
+export const macdCross: ParameterizedStrategy = {
+  name: 'MACD Signal Cross',
+  description: 'Compra quando o MACD cruza acima da linha de sinal',
+  parameters: {
+    fastPeriod: { min: 6, max: 18, step: 2, integer: true },
+    slowPeriod: { min: 20, max: 40, step: 4, integer: true },
+    signalPeriod: { min: 5, max: 13, step: 2, integer: true }
+  },
+  defaults: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+  isValid: params => params.fastPeriod < params.slowPeriod,
+  signals: (closes, params) => {
+    const values = alignToEnd(macd(closes, params.fastPeriod, params.slowPeriod, params.signalPeriod), closes.length);
+
+    return values.map(result => {
+      if (!result) return 'HOLD';
+      if (result.macd > result.signal && result.histogram > 0) return 'BUY';
+      if (result.macd < result.signal && result.histogram < 0) return 'SELL';
+      return 'HOLD';
+    });
+  }
+};
+
+/**
+ * Fixa os parâmetros e adapta para a interface Strategy do BacktestingEngine,
+ * que entrega um candle por vez (`close` ou `price`). Cada chamada cria um
+ * histórico novo, então use uma instância por backtest.
+ */
+export function withParameters(strategy: ParameterizedStrategy, params: ParameterValues = strategy.defaults): Strategy {
+  const closes: number[] = [];
+  const values = { ...strategy.defaults, ...params };
+
+  return {
+    name: `${strategy.name} (${Object.entries(values).map(([key, value]) => `${key}=${value}`).join(', ')})`,
+    description: strategy.description,
+    execute: async (data: any) => {
+      closes.push(Number(data.close ?? data.price));
+      return strategy.signals(closes, values)[closes.length - 1];
+    }
+  };
+}
+
+export const parameterizedStrategies = [
+  movingAverageCrossover,
+  rsiReversion,
+  bollingerBounce,
+  macdCross
+];
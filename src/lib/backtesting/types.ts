@@ -10,26 +10,85 @@ export interface BacktestConfig {
   strategy: TradingStrategy;
   slippage: number; // %
   commission: number; // %
+  interval?: CandleInterval; // default '1d'
+  dataSource?: CandleSource;
+}
+
+export type CandleInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d' | '1w';
+
+export interface Candle {
+  date: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface CandleQuery {
+  symbol: string;
+  interval: CandleInterval;
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Fonte de candles OHLCV. Implementações devem retornar sempre os mesmos
+ * candles para a mesma query, para que um backtest seja reproduzível.
+ */
+export interface CandleSource {
+  readonly name: string;
+  getCandles(query: CandleQuery): Promise<Candle[]>;
+}
+
+export interface CandleGap {
+  from: Date; // último candle antes do buraco
+  to: Date; // primeiro candle depois do buraco
+  missing: number; // candles esperados que faltam
+}
+
+export interface CandleIntegrityReport {
+  source: string;
+  total: number;
+  duplicates: number;
+  conflictingDuplicates: number; // mesmo timestamp com OHLCV diferente
+  invalid: number; // high < low, preços não positivos etc.
+  gaps: CandleGap[];
 }
 
 export interface TradingStrategy {
   name: string;
-  entryRules: EntryRule[];
+  entryRules: StrategyRule[]; // todas precisam ser verdadeiras (AND)
   exitRules: ExitRule[];
   positionSizing: PositionSizingMethod;
   riskManagement: RiskManagementRules;
 }
 
+export type RuleCondition = 'above' | 'below' | 'crosses_above' | 'crosses_below';
+
+/**
+ * Indicadores são expressões `nome(params).campo@timeframe`, ex:
+ * `rsi(14)`, `macd(12,26,9).histogram`, `bollingerBands(20,2).lower`,
+ * `ema(50)@4h`, `close`. `value` pode ser um número ou outra expressão.
+ */
 export interface EntryRule {
   indicator: string;
-  condition: 'above' | 'below' | 'crosses_above' | 'crosses_below';
-  value: number;
+  condition: RuleCondition;
+  value: number | string;
 }
 
+export interface RuleGroup {
+  operator: 'AND' | 'OR';
+  rules: StrategyRule[];
+}
+
+export type StrategyRule = EntryRule | RuleGroup;
+
 export interface ExitRule {
   type: 'stop_loss' | 'take_profit' | 'trailing_stop' | 'indicator';
-  value: number;
+  value: number | string; // % para stops; número ou expressão para 'indicator'
   indicator?: string;
+  condition?: RuleCondition; // apenas para 'indicator'
 }
 
 export type PositionSizingMethod = 
@@ -0,0 +1,203 @@
+/**
+ * BIP32 Extended Public Keys
+ * Parses xpub/tpub keys (and SLIP-132 ypub/zpub/Ypub/Zpub and testnet equivalents), derives
+ * non-hardened children and computes key fingerprints. Watch-only: private keys never
+ * come near this module
+ */
+
+import { computeHmac, getBytes, ripemd160 } from 'ethers';
+import { bytesToHex, hexToBytes, sha256 } from '@/lib/addressValidation';
+import { bytesToBigInt, tweakPublicKey, validatePublicKey } from '@/lib/secp256k1';
+
+export const HARDENED_OFFSET = 0x80000000;
+
+export type ExtendedKeyNetwork = 'mainnet' | 'testnet';
+
+export interface ExtendedPublicKey {
+  network: ExtendedKeyNetwork;
+  depth: number;
+  parentFingerprint: string; // hex, 4 bytes
+  childNumber: number;
+  chainCode: Uint8Array;
+  publicKey: Uint8Array; // compressed
+  scriptHint?: 'p2sh-p2wpkh' | 'p2wpkh' | 'p2sh-p2wsh' | 'p2wsh'; // from a SLIP-132 prefix
+}
+
+const VERSIONS: Record<number, { network: ExtendedKeyNetwork; scriptHint?: ExtendedPublicKey['scriptHint'] }> = {
+  0x0488b21e: { network: 'mainnet' }, // xpub
+  0x049d7cb2: { network: 'mainnet', scriptHint: 'p2sh-p2wpkh' }, // ypub
+  0x04b24746: { network: 'mainnet', scriptHint: 'p2wpkh' }, // zpub
+  0x0295b43f: { network: 'mainnet', scriptHint: 'p2sh-p2wsh' }, // Ypub
+  0x02aa7ed3: { network: 'mainnet', scriptHint: 'p2wsh' }, // Zpub
+  0x043587cf: { network: 'testnet' }, // tpub
+  0x044a5262: { network: 'testnet', scriptHint: 'p2sh-p2wpkh' }, // upub
+  0x045f1cf6: { network: 'testnet', scriptHint: 'p2wpkh' }, // vpub
+  0x024289ef: { network: 'testnet', scriptHint: 'p2sh-p2wsh' }, // Upub
+  0x02575483: { network: 'testnet', scriptHint: 'p2wsh' } // Vpub
+};
+
+const XPUB_VERSION = 0x0488b21e;
+const TPUB_VERSION = 0x043587cf;
+const PRIVATE_VERSIONS = [0x0488ade4, 0x04358394]; // xprv, tprv
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export function parseExtendedPublicKey(encoded: string): ExtendedPublicKey {
+  const data = base58CheckDecode(encoded.trim());
+  if (data.length !== 78) throw new Error('Extended key must be 78 bytes');
+
+  const version = new DataView(data.buffer, data.byteOffset).getUint32(0);
+  if (PRIVATE_VERSIONS.includes(version)) {
+    throw new Error('Refusing an extended private key; export the xpub from the signer instead');
+  }
+  const known = VERSIONS[version];
+  if (!known) throw new Error(`Unknown extended key version 0x${version.toString(16)}`);
+
+  const publicKey = data.slice(45, 78);
+  if (publicKey[0] !== 0x02 && publicKey[0] !== 0x03) throw new Error('Extended public key must be compressed');
+  validatePublicKey(publicKey); // throws when the key is not on the curve
+
+  const depth = data[4];
+  const parentFingerprint = bytesToHex(data.slice(5, 9));
+  const childNumber = new DataView(data.buffer, data.byteOffset).getUint32(9);
+  if (depth === 0 && (parentFingerprint !== '00000000' || childNumber !== 0)) {
+    throw new Error('Master key with a parent fingerprint or child number');
+  }
+
+  return {
+    network: known.network,
+    depth,
+    parentFingerprint,
+    childNumber,
+    chainCode: data.slice(13, 45),
+    publicKey,
+    ...(known.scriptHint ? { scriptHint: known.scriptHint } : {})
+  };
+}
+
+/**
+ * Serializes as xpub/tpub; SLIP-132 prefixes are dropped, as descriptors expect
+ */
+export function serializeExtendedPublicKey(key: ExtendedPublicKey): string {
+  const data = new Uint8Array(78);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, key.network === 'mainnet' ? XPUB_VERSION : TPUB_VERSION);
+  data[4] = key.depth;
+  data.set(hexToBytes(key.parentFingerprint), 5);
+  view.setUint32(9, key.childNumber);
+  data.set(key.chainCode, 13);
+  data.set(key.publicKey, 45);
+  return base58CheckEncode(data);
+}
+
+/**
+ * CKDpub: the non-hardened child at `index`
+ */
+export function deriveChild(key: ExtendedPublicKey, index: number): ExtendedPublicKey {
+  if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+    throw new Error(`Cannot derive child ${index} from a public key (hardened or invalid index)`);
+  }
+  if (key.depth >= 255) throw new Error('Maximum derivation depth reached');
+
+  const data = new Uint8Array(37);
+  data.set(key.publicKey);
+  new DataView(data.buffer).setUint32(33, index);
+  const digest = getBytes(computeHmac('sha512', key.chainCode, data));
+
+  // Probability below 2^-127; BIP32 says to skip to the next index
+  const child = tweakPublicKey(key.publicKey, digest.slice(0, 32));
+  if (!child) throw new Error(`Child ${index} is invalid, use the next index`);
+
+  return {
+    network: key.network,
+    depth: key.depth + 1,
+    parentFingerprint: keyFingerprint(key.publicKey),
+    childNumber: index,
+    chainCode: digest.slice(32),
+    publicKey: child
+  };
+}
+
+/**
+ * Derives a relative, non-hardened path such as "0/5" or [0, 5]
+ */
+export function derivePath(key: ExtendedPublicKey, path: string | number[]): ExtendedPublicKey {
+  const indexes = typeof path === 'string' ? parseDerivationPath(path) : path;
+  return indexes.reduce(deriveChild, key);
+}
+
+/**
+ * First 4 bytes of HASH160 of the compressed public key, as hex
+ */
+export function keyFingerprint(publicKey: Uint8Array): string {
+  return bytesToHex(hash160(publicKey).slice(0, 4));
+}
+
+/**
+ * "m/48'/0'/0'/2'" or "0/5" (also h/H for hardened) into child numbers
+ */
+export function parseDerivationPath(path: string): number[] {
+  const parts = path.trim().split('/').filter(part => part !== '');
+  if (parts[0] === 'm') parts.shift();
+
+  return parts.map(part => {
+    const match = part.match(/^(\d+)(['hH]?)$/);
+    if (!match) throw new Error(`Invalid derivation path component '${part}'`);
+    const index = Number(match[1]);
+    if (index >= HARDENED_OFFSET) throw new Error(`Derivation index ${index} out of range`);
+    return match[2] ? index + HARDENED_OFFSET : index;
+  });
+}
+
+export function formatDerivationPath(path: number[], prefix: string = 'm'): string {
+  return [prefix, ...path.map(index => (index >= HARDENED_OFFSET ? `${index - HARDENED_OFFSET}'` : `${index}`))]
+    .filter(part => part !== '')
+    .join('/');
+}
+
+export function hash160(data: Uint8Array): Uint8Array {
+  return getBytes(ripemd160(sha256(data)));
+}
+
+export function base58CheckEncode(payload: Uint8Array): string {
+  const data = new Uint8Array(payload.length + 4);
+  data.set(payload);
+  data.set(sha256(sha256(payload)).slice(0, 4), payload.length);
+
+  let value = bytesToBigInt(data);
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  for (const byte of data) {
+    if (byte !== 0) break;
+    encoded = '1' + encoded;
+  }
+  return encoded;
+}
+
+export function base58CheckDecode(encoded: string): Uint8Array {
+  let value = 0n;
+  for (const char of encoded) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit === -1) throw new Error(`Invalid base58 character '${char}'`);
+    value = value * 58n + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  for (; value > 0n; value >>= 8n) bytes.unshift(Number(value & 0xffn));
+  for (const char of encoded) {
+    if (char !== '1') break;
+    bytes.unshift(0);
+  }
+
+  if (bytes.length < 4) throw new Error('Base58check string too short');
+  const data = Uint8Array.from(bytes);
+  const payload = data.slice(0, -4);
+  const checksum = sha256(sha256(payload)).slice(0, 4);
+  if (!checksum.every((byte, i) => byte === data[data.length - 4 + i])) {
+    throw new Error('Invalid base58check checksum');
+  }
+  return payload;
+}
@@ -0,0 +1,274 @@
+/**
+ * Output Descriptors (BIP380)
+ * Descriptor checksums and key expressions for the descriptors we export to wallets and signers, and
+ * parsing/derivation of the single-key and multisig descriptors we import as watch-only wallets
+ */
+
+import { bytesToHex, concatBytes, hexToBytes, sha256 } from '@/lib/addressValidation';
+import {
+  type ExtendedKeyNetwork,
+  type ExtendedPublicKey,
+  HARDENED_OFFSET,
+  derivePath,
+  formatDerivationPath,
+  hash160,
+  parseDerivationPath,
+  parseExtendedPublicKey
+} from '@/lib/bip32';
+import { tweakTaprootKey, validatePublicKey } from '@/lib/secp256k1';
+
+export interface KeyOrigin {
+  fingerprint: string; // master key fingerprint, 8 hex chars
+  path: string; // e.g. m/48'/0'/0'/2'
+}
+
+// pkh(K), wpkh(K), sh(wpkh(K)), tr(K), wsh(MULTI) and sh(wsh(MULTI))
+export type DescriptorType = 'pkh' | 'wpkh' | 'sh-wpkh' | 'tr' | 'wsh' | 'sh-wsh';
+
+export interface DescriptorKey {
+  origin?: KeyOrigin;
+  key: string; // xpub as written, or a hex public key
+  extended?: ExtendedPublicKey;
+  steps: Array<number | number[]>; // derivation after the key; a BIP389 <a;b> step lists one index per branch
+  wildcard: boolean;
+}
+
+export interface ParsedDescriptor {
+  type: DescriptorType;
+  keys: DescriptorKey[];
+  threshold?: number; // multisig only
+  sorted?: boolean;
+  ranged: boolean;
+  branches: number; // 2 for a <0;1> receive/change descriptor
+  network?: ExtendedKeyNetwork; // from the xpubs; undefined with hex keys only
+}
+
+const INPUT_CHARSET = '0123456789()[],\'/*abcdefgh@:$%{}IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~ijklmnopqrstuvwxyzABCDEFGH`#"\\ ';
+const CHECKSUM_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATOR = [0xf5dee51989n, 0xa9fdca3312n, 0x1bab10e32dn, 0x3706b1677an, 0x644d626ffdn];
+
+export function descriptorChecksum(descriptor: string): string {
+  const symbols: number[] = [];
+  let groups: number[] = [];
+
+  for (const char of descriptor) {
+    const value = INPUT_CHARSET.indexOf(char);
+    if (value === -1) throw new Error(`Invalid descriptor character '${char}'`);
+    symbols.push(value & 31);
+    groups.push(value >> 5);
+    if (groups.length === 3) {
+      symbols.push(groups[0] * 9 + groups[1] * 3 + groups[2]);
+      groups = [];
+    }
+  }
+  if (groups.length === 1) symbols.push(groups[0]);
+  if (groups.length === 2) symbols.push(groups[0] * 3 + groups[1]);
+
+  let check = 1n;
+  for (const value of [...symbols, 0, 0, 0, 0, 0, 0, 0, 0]) {
+    const top = check >> 35n;
+    check = ((check & 0x7ffffffffn) << 5n) ^ BigInt(value);
+    GENERATOR.forEach((generator, i) => {
+      if ((top >> BigInt(i)) & 1n) check ^= generator;
+    });
+  }
+  check ^= 1n;
+
+  return Array.from({ length: 8 }, (_, i) => CHECKSUM_CHARSET[Number((check >> BigInt(5 * (7 - i))) & 31n)]).join('');
+}
+
+export function addDescriptorChecksum(descriptor: string): string {
+  return `${descriptor}#${descriptorChecksum(descriptor)}`;
+}
+
+/**
+ * Splits off and verifies a trailing #checksum, if there is one
+ */
+export function stripDescriptorChecksum(descriptor: string): string {
+  const [body, checksum, ...rest] = descriptor.trim().split('#');
+  if (rest.length > 0) throw new Error('Descriptor has more than one checksum separator');
+  if (checksum !== undefined && checksum !== descriptorChecksum(body)) {
+    throw new Error(`Descriptor checksum mismatch: expected ${descriptorChecksum(body)}, got ${checksum}`);
+  }
+  return body;
+}
+
+/**
+ * [fingerprint/path]xpub/suffix, with the origin normalized to ' for hardened steps
+ */
+export function formatKeyExpression(key: string, origin?: KeyOrigin, suffix?: string): string {
+  const prefix = origin
+    ? `[${origin.fingerprint.toLowerCase()}${formatDerivationPath(parseDerivationPath(origin.path), '')
+      .replace(/^(?=.)/, '/')}]`
+    : '';
+  return `${prefix}${key}${suffix ? `/${suffix}` : ''}`;
+}
+
+/**
+ * Parses a descriptor (checksum optional but verified when present). Script trees and miniscript
+ * beyond multi/sortedmulti are not supported
+ */
+export function parseDescriptor(descriptor: string): ParsedDescriptor {
+  const body = stripDescriptorChecksum(descriptor).replace(/\s+/g, '');
+  const [name, inner] = splitCall(body);
+
+  let type: DescriptorType;
+  let argument = inner;
+  switch (name) {
+    case 'pkh':
+    case 'wpkh':
+    case 'tr':
+    case 'wsh':
+      type = name;
+      break;
+    case 'sh': {
+      const [nested, nestedInner] = splitCall(inner);
+      if (nested !== 'wpkh' && nested !== 'wsh') throw new Error(`Unsupported descriptor sh(${nested}(...))`);
+      type = nested === 'wpkh' ? 'sh-wpkh' : 'sh-wsh';
+      argument = nestedInner;
+      break;
+    }
+    default:
+      throw new Error(`Unsupported descriptor '${name}(...)'`);
+  }
+
+  let keys: DescriptorKey[];
+  let threshold: number | undefined;
+  let sorted: boolean | undefined;
+  if (type === 'wsh' || type === 'sh-wsh') {
+    const [fn, args] = splitCall(argument);
+    if (fn !== 'multi' && fn !== 'sortedmulti') throw new Error(`Unsupported script '${fn}(...)'; only multi and sortedmulti`);
+    const [k, ...rest] = args.split(',');
+    threshold = Number(k);
+    if (rest.length === 0 || rest.length > 16) throw new Error('multi needs between 1 and 16 keys');
+    if (!/^\d+$/.test(k) || threshold < 1 || threshold > rest.length) {
+      throw new Error(`Multisig threshold must be between 1 and ${rest.length}`);
+    }
+    sorted = fn === 'sortedmulti';
+    keys = rest.map(key => parseKeyExpression(key, false));
+  } else {
+    if (type === 'tr' && argument.includes(',')) throw new Error('Taproot script trees are not supported');
+    keys = [parseKeyExpression(argument, type === 'tr')];
+  }
+
+  const branchCounts = new Set(keys.map(key => key.steps.reduce<number>((count, step) => (Array.isArray(step) ? step.length : count), 1)));
+  if (branchCounts.size > 1) throw new Error('Multipath keys must all have the same number of branches');
+  const networks = new Set(keys.filter(key => key.extended).map(key => key.extended!.network));
+  if (networks.size > 1) throw new Error('Descriptor mixes mainnet and testnet keys');
+  const ranged = keys.some(key => key.wildcard);
+  if (ranged && !keys.every(key => key.wildcard || !key.extended)) {
+    throw new Error('Every extended key in a ranged descriptor needs a /* wildcard');
+  }
+
+  return {
+    type,
+    keys,
+    ...(threshold !== undefined ? { threshold, sorted } : {}),
+    ranged,
+    branches: [...branchCounts][0],
+    ...(networks.size === 1 ? { network: [...networks][0] } : {})
+  };
+}
+
+/**
+ * scriptPubKey (hex) at `index` of a ranged descriptor; `branch` picks the <a;b> alternative
+ */
+export function deriveDescriptorScript(descriptor: ParsedDescriptor, index: number, branch: number = 0): string {
+  if (branch < 0 || branch >= descriptor.branches) throw new Error(`Descriptor has no branch ${branch}`);
+  const pubkeys = descriptor.keys.map(key => deriveKey(key, index, branch));
+  const p2wpkh = (pubkey: Uint8Array) => concatBytes([0x00, 0x14], hash160(pubkey));
+  const p2sh = (script: Uint8Array) => concatBytes([0xa9, 0x14], hash160(script), [0x87]);
+
+  switch (descriptor.type) {
+    case 'pkh':
+      return bytesToHex(concatBytes([0x76, 0xa9, 0x14], hash160(pubkeys[0]), [0x88, 0xac]));
+    case 'wpkh':
+      return bytesToHex(p2wpkh(pubkeys[0]));
+    case 'sh-wpkh':
+      return bytesToHex(p2sh(p2wpkh(pubkeys[0])));
+    case 'tr': {
+      const xonly = pubkeys[0].length === 32 ? pubkeys[0] : pubkeys[0].slice(1);
+      return bytesToHex(concatBytes([0x51, 0x20], tweakTaprootKey(xonly).outputKey));
+    }
+    case 'wsh':
+    case 'sh-wsh': {
+      const ordered = descriptor.sorted ? [...pubkeys].sort((a, b) => bytesToHex(a).localeCompare(bytesToHex(b))) : pubkeys;
+      const script = concatBytes(
+        [0x50 + descriptor.threshold!],
+        ...ordered.map(pubkey => concatBytes([pubkey.length], pubkey)),
+        [0x50 + ordered.length, 0xae]
+      );
+      const witnessProgram = concatBytes([0x00, 0x20], sha256(script));
+      return bytesToHex(descriptor.type === 'wsh' ? witnessProgram : p2sh(witnessProgram));
+    }
+  }
+}
+
+// "name(inner)" with balanced parentheses
+function splitCall(expression: string): [string, string] {
+  const match = expression.match(/^([a-z_]+)\((.*)\)$/);
+  if (!match) throw new Error(`Expected a descriptor function, got '${expression}'`);
+  let depth = 0;
+  for (const char of match[2]) {
+    depth += char === '(' ? 1 : char === ')' ? -1 : 0;
+    if (depth < 0) throw new Error(`Unbalanced parentheses in '${expression}'`);
+  }
+  if (depth !== 0) throw new Error(`Unbalanced parentheses in '${expression}'`);
+  return [match[1], match[2]];
+}
+
+function parseKeyExpression(expression: string, xonly: boolean): DescriptorKey {
+  let rest = expression;
+  let origin: KeyOrigin | undefined;
+
+  const originMatch = rest.match(/^\[([0-9a-fA-F]{8})((?:\/\d+['hH]?)*)\]/);
+  if (rest.startsWith('[')) {
+    if (!originMatch) throw new Error(`Invalid key origin in '${expression}'`);
+    origin = {
+      fingerprint: originMatch[1].toLowerCase(),
+      path: formatDerivationPath(parseDerivationPath(originMatch[2]))
+    };
+    rest = rest.slice(originMatch[0].length);
+  }
+
+  const [key, ...path] = rest.split('/');
+  if (/^[0-9a-fA-F]+$/.test(key)) {
+    if (path.length > 0) throw new Error(`Hex key '${key}' can't have a derivation path`);
+    const bytes = hexToBytes(key);
+    if (!(bytes.length === 33 || (xonly && bytes.length === 32))) {
+      throw new Error(`Key '${key}' must be a compressed${xonly ? ' or x-only' : ''} public key`);
+    }
+    validatePublicKey(bytes);
+    return { ...(origin ? { origin } : {}), key: key.toLowerCase(), steps: [], wildcard: false };
+  }
+
+  const extended = parseExtendedPublicKey(key);
+  const steps: Array<number | number[]> = [];
+  let wildcard = false;
+  path.forEach((step, i) => {
+    if (wildcard) throw new Error(`The wildcard must be the last step in '${expression}'`);
+    if (step === '*') {
+      wildcard = true;
+    } else if (/^\*['hH]$/.test(step) || /^\d+['hH]$/.test(step)) {
+      throw new Error(`Hardened step '${step}' can't be derived from an xpub`);
+    } else if (/^<\d+(;\d+)+>$/.test(step)) {
+      if (steps.some(Array.isArray)) throw new Error(`Only one multipath step is allowed in '${expression}'`);
+      steps.push(step.slice(1, -1).split(';').map(Number));
+    } else if (/^\d+$/.test(step) && Number(step) < HARDENED_OFFSET) {
+      steps.push(Number(step));
+    } else {
+      throw new Error(`Invalid derivation step '${step}' (position ${i + 1}) in '${expression}'`);
+    }
+  });
+
+  return { ...(origin ? { origin } : {}), key, extended, steps, wildcard };
+}
+
+function deriveKey(key: DescriptorKey, index: number, branch: number): Uint8Array {
+  if (!key.extended) return hexToBytes(key.key);
+  if (key.wildcard && (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET)) {
+    throw new Error(`Invalid address index ${index}`);
+  }
+  const path = key.steps.map(step => (Array.isArray(step) ? step[branch] : step));
+  return derivePath(key.extended, key.wildcard ? [...path, index] : path).publicKey;
+}
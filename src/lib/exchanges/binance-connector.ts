@@ -41,6 +41,16 @@ export interface Order {
   time: number;
 }
 
+export interface Kline {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  closeTime: number;
+}
+
 export class BinanceConnector extends EventEmitter {
   private apiKey: string;
   private apiSecret: string;
@@ -237,6 +247,31 @@ export class BinanceConnector extends EventEmitter {
     return this.makeRequest('/ticker/24hr', 'GET', { symbol });
   }
 
+  /**
+   * Obtém candles (klines) históricos
+   */
+  async getKlines(
+    symbol: string,
+    interval: string,
+    options: { startTime?: number; endTime?: number; limit?: number } = {}
+  ): Promise<Kline[]> {
+    const params: Record<string, string | number> = { symbol, interval };
+    if (options.startTime !== undefined) params.startTime = options.startTime;
+    if (options.endTime !== undefined) params.endTime = options.endTime;
+    if (options.limit !== undefined) params.limit = options.limit;
+
+    const klines: any[][] = await this.makeRequest('/klines', 'GET', params);
+    return klines.map((k) => ({
+      openTime: k[0],
+      open: parseFloat(k[1]),
+      high: parseFloat(k[2]),
+      low: parseFloat(k[3]),
+      close: parseFloat(k[4]),
+      volume: parseFloat(k[5]),
+      closeTime: k[6],
+    }));
+  }
+
   /**
    * Conecta ao WebSocket para dados em tempo real
    */
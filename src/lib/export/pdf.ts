@@ -0,0 +1,131 @@
+/**
+ * Text-only PDF writer
+ * Lays out lines on A4 pages with the standard Helvetica and Courier fonts; no embedding, no images
+ */
+
+export type PDFFont = 'regular' | 'bold' | 'mono';
+
+export interface PDFLine {
+  text: string;
+  font?: PDFFont;
+  size?: number;
+  spaceBefore?: number;
+}
+
+export interface PDFOptions {
+  title?: string;
+  footer?: string;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const LINE_HEIGHT = 1.35;
+
+const FONT_RESOURCES: Record<PDFFont, { key: string; base: string; charWidth: number }> = {
+  regular: { key: 'F1', base: 'Helvetica', charWidth: 0.5 },
+  bold: { key: 'F2', base: 'Helvetica-Bold', charWidth: 0.55 },
+  mono: { key: 'F3', base: 'Courier', charWidth: 0.6 }
+};
+
+// Standard fonts use WinAnsiEncoding; anything outside printable ASCII is replaced
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+function wrap(text: string, maxChars: number, hardBreak: boolean): string[] {
+  if (text.length <= maxChars) return [text];
+  if (hardBreak) return [text.slice(0, maxChars)];
+
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(' ')) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    current = word;
+    while (current.length > maxChars) {
+      lines.push(current.slice(0, maxChars));
+      current = current.slice(maxChars);
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+export function createTextPDF(lines: PDFLine[], options: PDFOptions = {}): Uint8Array {
+  const usableWidth = PAGE_WIDTH - 2 * MARGIN;
+  const bottom = MARGIN + (options.footer ? 20 : 0);
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const font = FONT_RESOURCES[line.font ?? 'regular'];
+    const size = line.size ?? 10;
+    const leading = size * LINE_HEIGHT;
+    const maxChars = Math.max(1, Math.floor(usableWidth / (size * font.charWidth)));
+    // Table rows in monospace are truncated rather than wrapped to keep the columns aligned
+    const wrapped = wrap(line.text, maxChars, line.font === 'mono');
+
+    y -= line.spaceBefore ?? 0;
+    for (const text of wrapped) {
+      if (y - leading < bottom) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= leading;
+      pages[pages.length - 1].push(
+        `BT /${font.key} ${size} Tf ${MARGIN} ${y.toFixed(2)} Td (${escapePdfText(text)}) Tj ET`
+      );
+    }
+  }
+
+  // Object numbers: 1 catalog, 2 page tree, 3-5 fonts, 6 info, then a page + content pair per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 7 + i * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  Object.values(FONT_RESOURCES).forEach((font, i) => {
+    objects[3 + i] = `<< /Type /Font /Subtype /Type1 /BaseFont /${font.base} /Encoding /WinAnsiEncoding >>`;
+  });
+  objects[6] = `<< /Producer (CYPHER ORDI FUTURE)${options.title ? ` /Title (${escapePdfText(options.title)})` : ''} >>`;
+
+  pages.forEach((commands, i) => {
+    const footer = options.footer
+      ? [`BT /F1 8 Tf ${MARGIN} ${MARGIN - 10} Td (${escapePdfText(`${options.footer} - page ${i + 1} of ${pages.length}`)}) Tj ET`]
+      : [];
+    const stream = [...commands, ...footer].join('\n');
+    const pageId = pageIds[i];
+
+    objects[pageId] = '<< /Type /Page /Parent 2 0 R '
+      + `/MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+      + '/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> '
+      + `/Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  // Everything above is ASCII, so string offsets are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(output);
+}
@@ -0,0 +1,125 @@
+/**
+ * Shared numeric helpers
+ * Seeded random numbers, the standard normal distribution and Cholesky factorization,
+ * used by the backtest optimizer, risk simulations, the RL environment and the vector index
+ */
+
+/**
+ * Small, fast seeded PRNG returning floats in [0, 1), so simulations and tests are reproducible
+ */
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Box-Muller
+export function standardNormal(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+export function normalPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+// Abramowitz & Stegun 7.1.26
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+    * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Acklam's rational approximation of the standard normal quantile
+export function normalInverse(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Lower-triangular L with L * L^T = matrix. Sample covariances of short or collinear
+ * series can be singular, so a growing ridge is added to the diagonal before giving up
+ */
+export function choleskyDecomposition(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const maxDiagonal = Math.max(...matrix.map((row, i) => Math.abs(row[i])), 1e-12);
+
+  for (let attempt = 0; attempt < 8; attempt++) {
+    const ridge = attempt === 0 ? 0 : maxDiagonal * 1e-12 * Math.pow(10, attempt);
+    const lower = matrix.map(() => new Array<number>(n).fill(0));
+    let positiveDefinite = true;
+
+    for (let i = 0; i < n && positiveDefinite; i++) {
+      for (let j = 0; j <= i; j++) {
+        let sum = matrix[i][j] + (i === j ? ridge : 0);
+        for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+
+        if (i === j) {
+          if (sum <= 0) {
+            positiveDefinite = false;
+            break;
+          }
+          lower[i][i] = Math.sqrt(sum);
+        } else {
+          lower[i][j] = sum / lower[j][j];
+        }
+      }
+    }
+
+    if (positiveDefinite) return lower;
+  }
+
+  throw new Error('Covariance matrix is not positive semi-definite');
+}
+
+/**
+ * Solves L * y = b for a lower-triangular L
+ */
+export function forwardSubstitute(lower: number[][], b: number[]): number[] {
+  const y = new Array<number>(b.length).fill(0);
+  for (let i = 0; i < b.length; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= lower[i][k] * y[k];
+    y[i] = sum / lower[i][i];
+  }
+  return y;
+}
+
+/**
+ * Solves L * L^T * x = b for the factor returned by choleskyDecomposition
+ */
+export function choleskySolve(lower: number[][], b: number[]): number[] {
+  const y = forwardSubstitute(lower, b);
+  const x = new Array<number>(b.length).fill(0);
+  for (let i = b.length - 1; i >= 0; i--) {
+    let sum = y[i];
+    for (let k = i + 1; k < b.length; k++) sum -= lower[k][i] * x[k];
+    x[i] = sum / lower[i][i];
+  }
+  return x;
+}
@@ -0,0 +1,23 @@
+/**
+ * Ordinal transfer
+ * Follows a sat through a transaction with first-in-first-out ordinal assignment
+ */
+
+/**
+ * The output (and offset within it) that receives the sat at `offset` of input `inputIndex`,
+ * or null when that sat goes to the miner as fee
+ */
+export function locateSat(
+  inputValues: number[],
+  outputValues: number[],
+  inputIndex: number,
+  offset: number
+): { outputIndex: number; offset: number } | null {
+  let position = inputValues.slice(0, inputIndex).reduce((sum, value) => sum + value, 0) + offset;
+
+  for (let i = 0; i < outputValues.length; i++) {
+    if (position < outputValues[i]) return { outputIndex: i, offset: position };
+    position -= outputValues[i];
+  }
+  return null;
+}
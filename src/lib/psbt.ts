@@ -0,0 +1,845 @@
+/**
+ * Partially Signed Bitcoin Transactions (BIP174, version 0)
+ * Encodes and decodes PSBTs, finalizes single-key inputs and extracts the network transaction.
+ * Pure TS so PSBTs can be built in the browser and handed to hardware or offline signers
+ */
+
+import { AddressType, addressValidator, bytesToHex, hexToBytes, sha256 } from '@/lib/addressValidation';
+import { formatDerivationPath, parseDerivationPath } from '@/lib/bip32';
+import { parseTransaction } from '@/lib/runestone';
+
+export const SIGHASH_DEFAULT = 0x00;
+export const SIGHASH_ALL = 0x01;
+export const SIGHASH_NONE = 0x02;
+export const SIGHASH_SINGLE = 0x03;
+export const SIGHASH_ANYONECANPAY = 0x80;
+
+export interface PsbtTxInput {
+  txid: string; // display order (big-endian)
+  vout: number;
+  sequence: number;
+}
+
+export interface PsbtTxOutput {
+  value: number; // sats
+  script: string; // scriptPubKey hex
+}
+
+export interface PsbtTransaction {
+  version: number;
+  inputs: PsbtTxInput[];
+  outputs: PsbtTxOutput[];
+  locktime: number;
+}
+
+// Key/value pairs we don't interpret, kept so a PSBT round-trips unchanged
+export interface PsbtUnknown {
+  key: string; // hex, including the type byte
+  value: string; // hex
+}
+
+export interface PsbtPartialSig {
+  pubkey: string;
+  signature: string; // DER signature with the sighash byte appended
+}
+
+export interface PsbtBip32Derivation {
+  pubkey: string; // compressed, or x-only for taproot derivations
+  fingerprint: string; // master key fingerprint, hex
+  path: string; // e.g. m/48'/0'/0'/2'/0/5
+}
+
+export interface PsbtTapBip32Derivation extends PsbtBip32Derivation {
+  leafHashes: string[]; // leaves the key signs in; empty for the internal key
+}
+
+export interface PsbtTapScriptSig {
+  pubkey: string; // x-only
+  leafHash: string;
+  signature: string; // 64 bytes, or 65 with an explicit sighash type
+}
+
+export interface PsbtTapLeafScript {
+  controlBlock: string;
+  script: string;
+  leafVersion: number;
+}
+
+export interface PsbtTapTreeLeaf {
+  depth: number;
+  leafVersion: number;
+  script: string;
+}
+
+export interface PsbtInput {
+  nonWitnessUtxo?: string; // full previous transaction hex
+  witnessUtxo?: PsbtTxOutput;
+  partialSigs?: PsbtPartialSig[];
+  sighashType?: number;
+  redeemScript?: string;
+  witnessScript?: string;
+  bip32Derivation?: PsbtBip32Derivation[];
+  finalScriptSig?: string;
+  finalScriptWitness?: string[];
+  tapKeySig?: string;
+  tapScriptSigs?: PsbtTapScriptSig[];
+  tapLeafScripts?: PsbtTapLeafScript[];
+  tapBip32Derivation?: PsbtTapBip32Derivation[];
+  tapInternalKey?: string;
+  tapMerkleRoot?: string;
+  unknown?: PsbtUnknown[];
+}
+
+export interface PsbtOutput {
+  redeemScript?: string;
+  witnessScript?: string;
+  bip32Derivation?: PsbtBip32Derivation[];
+  tapInternalKey?: string;
+  tapTree?: PsbtTapTreeLeaf[]; // depth-first, as in the PSBT_OUT_TAP_TREE field
+  tapBip32Derivation?: PsbtTapBip32Derivation[];
+  unknown?: PsbtUnknown[];
+}
+
+export interface Psbt {
+  tx: PsbtTransaction;
+  version?: number; // PSBT_GLOBAL_VERSION, omitted for version 0
+  unknown?: PsbtUnknown[];
+  inputs: PsbtInput[];
+  outputs: PsbtOutput[];
+}
+
+const PSBT_MAGIC = [0x70, 0x73, 0x62, 0x74, 0xff];
+
+const GLOBAL_UNSIGNED_TX = 0x00;
+const GLOBAL_VERSION = 0xfb;
+
+const IN_NON_WITNESS_UTXO = 0x00;
+const IN_WITNESS_UTXO = 0x01;
+const IN_PARTIAL_SIG = 0x02;
+const IN_SIGHASH_TYPE = 0x03;
+const IN_REDEEM_SCRIPT = 0x04;
+const IN_WITNESS_SCRIPT = 0x05;
+const IN_BIP32_DERIVATION = 0x06;
+const IN_FINAL_SCRIPTSIG = 0x07;
+const IN_FINAL_SCRIPTWITNESS = 0x08;
+const IN_TAP_KEY_SIG = 0x13;
+const IN_TAP_SCRIPT_SIG = 0x14;
+const IN_TAP_LEAF_SCRIPT = 0x15;
+const IN_TAP_BIP32_DERIVATION = 0x16;
+const IN_TAP_INTERNAL_KEY = 0x17;
+const IN_TAP_MERKLE_ROOT = 0x18;
+
+const OUT_REDEEM_SCRIPT = 0x00;
+const OUT_WITNESS_SCRIPT = 0x01;
+const OUT_BIP32_DERIVATION = 0x02;
+const OUT_TAP_INTERNAL_KEY = 0x05;
+const OUT_TAP_TREE = 0x06;
+const OUT_TAP_BIP32_DERIVATION = 0x07;
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * An empty PSBT for the given unsigned transaction
+ */
+export function createPsbt(tx: PsbtTransaction): Psbt {
+  return {
+    tx: {
+      version: tx.version,
+      locktime: tx.locktime,
+      inputs: tx.inputs.map(input => ({ ...input })),
+      outputs: tx.outputs.map(output => ({ ...output }))
+    },
+    inputs: tx.inputs.map(() => ({})),
+    outputs: tx.outputs.map(() => ({}))
+  };
+}
+
+/**
+ * Serializes a transaction; witnesses are written only when at least one input has one
+ */
+export function serializeTransaction(
+  tx: PsbtTransaction,
+  scriptSigs: string[] = [],
+  witnesses: string[][] = []
+): Uint8Array {
+  const writer = new ByteWriter();
+  const hasWitness = witnesses.some(witness => witness && witness.length > 0);
+
+  writer.uint32(tx.version);
+  if (hasWitness) writer.bytes([0x00, 0x01]);
+
+  writer.compactSize(tx.inputs.length);
+  tx.inputs.forEach((input, i) => {
+    writer.bytes(hexToBytes(input.txid).reverse());
+    writer.uint32(input.vout);
+    writer.varBytes(hexToBytes(scriptSigs[i] ?? ''));
+    writer.uint32(input.sequence);
+  });
+
+  writer.compactSize(tx.outputs.length);
+  for (const output of tx.outputs) {
+    writer.uint64(output.value);
+    writer.varBytes(hexToBytes(output.script));
+  }
+
+  if (hasWitness) {
+    tx.inputs.forEach((_, i) => {
+      const witness = witnesses[i] ?? [];
+      writer.compactSize(witness.length);
+      witness.forEach(item => writer.varBytes(hexToBytes(item)));
+    });
+  }
+
+  writer.uint32(tx.locktime);
+  return writer.toBytes();
+}
+
+/**
+ * Transaction id (double SHA-256 of the non-witness serialization, displayed byte-reversed)
+ */
+export function transactionId(tx: PsbtTransaction): string {
+  return bytesToHex(sha256(sha256(serializeTransaction(tx))).reverse());
+}
+
+export function encodePsbt(psbt: Psbt): Uint8Array {
+  if (psbt.inputs.length !== psbt.tx.inputs.length || psbt.outputs.length !== psbt.tx.outputs.length) {
+    throw new Error('PSBT input/output maps do not match the unsigned transaction');
+  }
+
+  const writer = new ByteWriter();
+  writer.bytes(PSBT_MAGIC);
+
+  writer.keyValue([GLOBAL_UNSIGNED_TX], serializeTransaction(psbt.tx));
+  if (psbt.version !== undefined) {
+    writer.keyValue([GLOBAL_VERSION], uint32LE(psbt.version));
+  }
+  writeUnknown(writer, psbt.unknown);
+  writer.bytes([0x00]);
+
+  for (const input of psbt.inputs) {
+    if (input.nonWitnessUtxo) writer.keyValue([IN_NON_WITNESS_UTXO], hexToBytes(input.nonWitnessUtxo));
+    if (input.witnessUtxo) {
+      const value = new ByteWriter();
+      value.uint64(input.witnessUtxo.value);
+      value.varBytes(hexToBytes(input.witnessUtxo.script));
+      writer.keyValue([IN_WITNESS_UTXO], value.toBytes());
+    }
+    for (const sig of input.partialSigs ?? []) {
+      writer.keyValue([IN_PARTIAL_SIG, ...hexToBytes(sig.pubkey)], hexToBytes(sig.signature));
+    }
+    if (input.sighashType !== undefined) writer.keyValue([IN_SIGHASH_TYPE], uint32LE(input.sighashType));
+    if (input.redeemScript) writer.keyValue([IN_REDEEM_SCRIPT], hexToBytes(input.redeemScript));
+    if (input.witnessScript) writer.keyValue([IN_WITNESS_SCRIPT], hexToBytes(input.witnessScript));
+    for (const derivation of input.bip32Derivation ?? []) {
+      writer.keyValue([IN_BIP32_DERIVATION, ...hexToBytes(derivation.pubkey)], encodeDerivation(derivation));
+    }
+    if (input.finalScriptSig !== undefined) writer.keyValue([IN_FINAL_SCRIPTSIG], hexToBytes(input.finalScriptSig));
+    if (input.finalScriptWitness) {
+      const value = new ByteWriter();
+      value.compactSize(input.finalScriptWitness.length);
+      input.finalScriptWitness.forEach(item => value.varBytes(hexToBytes(item)));
+      writer.keyValue([IN_FINAL_SCRIPTWITNESS], value.toBytes());
+    }
+    if (input.tapKeySig) writer.keyValue([IN_TAP_KEY_SIG], hexToBytes(input.tapKeySig));
+    for (const sig of input.tapScriptSigs ?? []) {
+      writer.keyValue([IN_TAP_SCRIPT_SIG, ...hexToBytes(sig.pubkey), ...hexToBytes(sig.leafHash)], hexToBytes(sig.signature));
+    }
+    for (const leaf of input.tapLeafScripts ?? []) {
+      writer.keyValue([IN_TAP_LEAF_SCRIPT, ...hexToBytes(leaf.controlBlock)], Uint8Array.from([...hexToBytes(leaf.script), leaf.leafVersion]));
+    }
+    for (const derivation of input.tapBip32Derivation ?? []) {
+      writer.keyValue([IN_TAP_BIP32_DERIVATION, ...hexToBytes(derivation.pubkey)], encodeTapDerivation(derivation));
+    }
+    if (input.tapInternalKey) writer.keyValue([IN_TAP_INTERNAL_KEY], hexToBytes(input.tapInternalKey));
+    if (input.tapMerkleRoot) writer.keyValue([IN_TAP_MERKLE_ROOT], hexToBytes(input.tapMerkleRoot));
+    writeUnknown(writer, input.unknown);
+    writer.bytes([0x00]);
+  }
+
+  for (const output of psbt.outputs) {
+    if (output.redeemScript) writer.keyValue([OUT_REDEEM_SCRIPT], hexToBytes(output.redeemScript));
+    if (output.witnessScript) writer.keyValue([OUT_WITNESS_SCRIPT], hexToBytes(output.witnessScript));
+    for (const derivation of output.bip32Derivation ?? []) {
+      writer.keyValue([OUT_BIP32_DERIVATION, ...hexToBytes(derivation.pubkey)], encodeDerivation(derivation));
+    }
+    if (output.tapInternalKey) writer.keyValue([OUT_TAP_INTERNAL_KEY], hexToBytes(output.tapInternalKey));
+    if (output.tapTree) {
+      const value = new ByteWriter();
+      for (const leaf of output.tapTree) {
+        value.bytes([leaf.depth, leaf.leafVersion]);
+        value.varBytes(hexToBytes(leaf.script));
+      }
+      writer.keyValue([OUT_TAP_TREE], value.toBytes());
+    }
+    for (const derivation of output.tapBip32Derivation ?? []) {
+      writer.keyValue([OUT_TAP_BIP32_DERIVATION, ...hexToBytes(derivation.pubkey)], encodeTapDerivation(derivation));
+    }
+    writeUnknown(writer, output.unknown);
+    writer.bytes([0x00]);
+  }
+
+  return writer.toBytes();
+}
+
+export function decodePsbt(bytes: Uint8Array): Psbt {
+  const reader = new ByteReader(bytes);
+  if (!PSBT_MAGIC.every(byte => reader.uint8() === byte)) {
+    throw new Error('Not a PSBT: bad magic bytes');
+  }
+
+  let tx: PsbtTransaction | undefined;
+  let version: number | undefined;
+  const globalUnknown: PsbtUnknown[] = [];
+
+  for (const { key, value } of reader.map()) {
+    switch (key[0]) {
+      case GLOBAL_UNSIGNED_TX:
+        expectKeyLength(key, 1, 'unsigned transaction');
+        tx = parseUnsignedTransaction(value);
+        break;
+      case GLOBAL_VERSION:
+        expectKeyLength(key, 1, 'PSBT version');
+        version = readUint32LE(value);
+        if (version !== 0) throw new Error(`Unsupported PSBT version ${version}`);
+        break;
+      default:
+        globalUnknown.push({ key: bytesToHex(key), value: bytesToHex(value) });
+    }
+  }
+
+  if (!tx) throw new Error('PSBT is missing the unsigned transaction');
+
+  const inputs: PsbtInput[] = tx.inputs.map((txInput, index) => {
+    const input: PsbtInput = {};
+    for (const { key, value } of reader.map()) {
+      switch (key[0]) {
+        case IN_NON_WITNESS_UTXO: {
+          expectKeyLength(key, 1, 'non-witness UTXO');
+          const previous = parseTransaction(bytesToHex(value));
+          const txid = bytesToHex(sha256(sha256(value)).reverse());
+          if (txid !== txInput.txid) {
+            throw new Error(`Input ${index}: non-witness UTXO is transaction ${txid}, expected ${txInput.txid}`);
+          }
+          if (!previous.outputs[txInput.vout]) throw new Error(`Input ${index}: previous output ${txInput.vout} missing`);
+          input.nonWitnessUtxo = bytesToHex(value);
+          break;
+        }
+        case IN_WITNESS_UTXO: {
+          expectKeyLength(key, 1, 'witness UTXO');
+          const utxo = new ByteReader(value);
+          input.witnessUtxo = { value: utxo.uint64(), script: bytesToHex(utxo.varBytes()) };
+          utxo.expectEnd();
+          break;
+        }
+        case IN_PARTIAL_SIG:
+          if (key.length !== 34 && key.length !== 66) throw new Error(`Input ${index}: bad partial signature pubkey`);
+          (input.partialSigs ??= []).push({ pubkey: bytesToHex(key.slice(1)), signature: bytesToHex(value) });
+          break;
+        case IN_SIGHASH_TYPE:
+          expectKeyLength(key, 1, 'sighash type');
+          input.sighashType = readUint32LE(value);
+          break;
+        case IN_REDEEM_SCRIPT:
+          expectKeyLength(key, 1, 'redeem script');
+          input.redeemScript = bytesToHex(value);
+          break;
+        case IN_WITNESS_SCRIPT:
+          expectKeyLength(key, 1, 'witness script');
+          input.witnessScript = bytesToHex(value);
+          break;
+        case IN_BIP32_DERIVATION:
+          if (key.length !== 34 && key.length !== 66) throw new Error(`Input ${index}: bad BIP32 derivation pubkey`);
+          (input.bip32Derivation ??= []).push({ pubkey: bytesToHex(key.slice(1)), ...decodeDerivation(value) });
+          break;
+        case IN_FINAL_SCRIPTSIG:
+          expectKeyLength(key, 1, 'final scriptSig');
+          input.finalScriptSig = bytesToHex(value);
+          break;
+        case IN_FINAL_SCRIPTWITNESS: {
+          expectKeyLength(key, 1, 'final script witness');
+          const witness = new ByteReader(value);
+          input.finalScriptWitness = Array.from({ length: witness.compactSize() }, () => bytesToHex(witness.varBytes()));
+          witness.expectEnd();
+          break;
+        }
+        case IN_TAP_KEY_SIG:
+          expectKeyLength(key, 1, 'taproot key signature');
+          if (value.length !== 64 && value.length !== 65) throw new Error(`Input ${index}: bad taproot key signature`);
+          input.tapKeySig = bytesToHex(value);
+          break;
+        case IN_TAP_SCRIPT_SIG:
+          if (key.length !== 65) throw new Error(`Input ${index}: bad taproot script signature key`);
+          if (value.length !== 64 && value.length !== 65) throw new Error(`Input ${index}: bad taproot script signature`);
+          (input.tapScriptSigs ??= []).push({
+            pubkey: bytesToHex(key.slice(1, 33)),
+            leafHash: bytesToHex(key.slice(33)),
+            signature: bytesToHex(value)
+          });
+          break;
+        case IN_TAP_LEAF_SCRIPT:
+          if (key.length < 34 || (key.length - 34) % 32 !== 0) throw new Error(`Input ${index}: bad taproot control block`);
+          if (value.length < 1) throw new Error(`Input ${index}: empty taproot leaf script`);
+          (input.tapLeafScripts ??= []).push({
+            controlBlock: bytesToHex(key.slice(1)),
+            script: bytesToHex(value.slice(0, -1)),
+            leafVersion: value[value.length - 1]
+          });
+          break;
+        case IN_TAP_BIP32_DERIVATION:
+          if (key.length !== 33) throw new Error(`Input ${index}: bad taproot BIP32 derivation key`);
+          (input.tapBip32Derivation ??= []).push({ pubkey: bytesToHex(key.slice(1)), ...decodeTapDerivation(value) });
+          break;
+        case IN_TAP_INTERNAL_KEY:
+          expectKeyLength(key, 1, 'taproot internal key');
+          if (value.length !== 32) throw new Error(`Input ${index}: taproot internal key must be 32 bytes`);
+          input.tapInternalKey = bytesToHex(value);
+          break;
+        case IN_TAP_MERKLE_ROOT:
+          expectKeyLength(key, 1, 'taproot merkle root');
+          if (value.length !== 32) throw new Error(`Input ${index}: taproot merkle root must be 32 bytes`);
+          input.tapMerkleRoot = bytesToHex(value);
+          break;
+        default:
+          (input.unknown ??= []).push({ key: bytesToHex(key), value: bytesToHex(value) });
+      }
+    }
+    return input;
+  });
+
+  const outputs: PsbtOutput[] = tx.outputs.map(() => {
+    const output: PsbtOutput = {};
+    for (const { key, value } of reader.map()) {
+      switch (key[0]) {
+        case OUT_REDEEM_SCRIPT:
+          expectKeyLength(key, 1, 'output redeem script');
+          output.redeemScript = bytesToHex(value);
+          break;
+        case OUT_WITNESS_SCRIPT:
+          expectKeyLength(key, 1, 'output witness script');
+          output.witnessScript = bytesToHex(value);
+          break;
+        case OUT_BIP32_DERIVATION:
+          if (key.length !== 34 && key.length !== 66) throw new Error('Bad output BIP32 derivation pubkey');
+          (output.bip32Derivation ??= []).push({ pubkey: bytesToHex(key.slice(1)), ...decodeDerivation(value) });
+          break;
+        case OUT_TAP_INTERNAL_KEY:
+          expectKeyLength(key, 1, 'output taproot internal key');
+          output.tapInternalKey = bytesToHex(value);
+          break;
+        case OUT_TAP_TREE: {
+          expectKeyLength(key, 1, 'output taproot tree');
+          const tree = new ByteReader(value);
+          output.tapTree = [];
+          while (!tree.atEnd()) {
+            const depth = tree.uint8();
+            const leafVersion = tree.uint8();
+            output.tapTree.push({ depth, leafVersion, script: bytesToHex(tree.varBytes()) });
+          }
+          break;
+        }
+        case OUT_TAP_BIP32_DERIVATION:
+          if (key.length !== 33) throw new Error('Bad output taproot BIP32 derivation key');
+          (output.tapBip32Derivation ??= []).push({ pubkey: bytesToHex(key.slice(1)), ...decodeTapDerivation(value) });
+          break;
+        default:
+          (output.unknown ??= []).push({ key: bytesToHex(key), value: bytesToHex(value) });
+      }
+    }
+    return output;
+  });
+
+  reader.expectEnd();
+
+  return {
+    tx,
+    ...(version !== undefined ? { version } : {}),
+    ...(globalUnknown.length > 0 ? { unknown: globalUnknown } : {}),
+    inputs,
+    outputs
+  };
+}
+
+export function psbtToBase64(psbt: Psbt): string {
+  return base64Encode(encodePsbt(psbt));
+}
+
+export function psbtFromBase64(base64: string): Psbt {
+  return decodePsbt(base64Decode(base64.trim()));
+}
+
+export function psbtToHex(psbt: Psbt): string {
+  return bytesToHex(encodePsbt(psbt));
+}
+
+export function psbtFromHex(hex: string): Psbt {
+  return decodePsbt(hexToBytes(hex.trim()));
+}
+
+/**
+ * The output an input spends, from its witness UTXO or its full previous transaction
+ */
+export function getInputUtxo(psbt: Psbt, index: number): PsbtTxOutput | null {
+  const input = psbt.inputs[index];
+  if (!input) throw new Error(`PSBT has no input ${index}`);
+  if (input.witnessUtxo) return input.witnessUtxo;
+  if (input.nonWitnessUtxo) {
+    const output = parseTransaction(input.nonWitnessUtxo).outputs[psbt.tx.inputs[index].vout];
+    return { value: Number(output.value), script: output.scriptPubKey };
+  }
+  return null;
+}
+
+export function isInputFinalized(input: PsbtInput): boolean {
+  return input.finalScriptSig !== undefined || input.finalScriptWitness !== undefined;
+}
+
+export function isInputSigned(input: PsbtInput): boolean {
+  return isInputFinalized(input) || !!input.tapKeySig
+    || (input.partialSigs?.length ?? 0) > 0 || (input.tapScriptSigs?.length ?? 0) > 0;
+}
+
+/**
+ * Builds the final scriptSig / witness of a single-key input (P2TR key path, P2WPKH,
+ * P2SH-P2WPKH or P2PKH) and drops the signing data, as a BIP174 finalizer does
+ */
+export function finalizeInput(psbt: Psbt, index: number): Psbt {
+  const input = psbt.inputs[index];
+  if (!input) throw new Error(`PSBT has no input ${index}`);
+  if (isInputFinalized(input)) return psbt;
+
+  const utxo = getInputUtxo(psbt, index);
+  if (!utxo) throw new Error(`Input ${index} has no UTXO data to finalize against`);
+
+  const type = addressValidator.getScriptType(utxo.script);
+  const sig = input.partialSigs?.[0];
+  let finalScriptSig: string | undefined;
+  let finalScriptWitness: string[] | undefined;
+
+  if (type === AddressType.P2TR) {
+    if (!input.tapKeySig) throw new Error(`Input ${index} has no taproot key signature`);
+    finalScriptWitness = [input.tapKeySig];
+  } else if (!sig || input.partialSigs!.length !== 1) {
+    throw new Error(`Input ${index} needs exactly one partial signature to finalize`);
+  } else if (type === AddressType.P2WPKH) {
+    finalScriptWitness = [sig.signature, sig.pubkey];
+  } else if (type === AddressType.P2SH && input.redeemScript
+      && addressValidator.getScriptType(input.redeemScript) === AddressType.P2WPKH) {
+    finalScriptSig = pushData(input.redeemScript);
+    finalScriptWitness = [sig.signature, sig.pubkey];
+  } else if (type === AddressType.P2PKH) {
+    finalScriptSig = pushData(sig.signature) + pushData(sig.pubkey);
+  } else {
+    throw new Error(`Input ${index}: cannot finalize ${type} inputs`);
+  }
+
+  return setFinalScripts(psbt, index, { finalScriptSig, finalScriptWitness });
+}
+
+/**
+ * Sets an input's final scriptSig / witness, built by a script-aware finalizer (multisig,
+ * taproot script paths), and drops the signing data
+ */
+export function setFinalScripts(
+  psbt: Psbt,
+  index: number,
+  scripts: { finalScriptSig?: string; finalScriptWitness?: string[] }
+): Psbt {
+  const input = psbt.inputs[index];
+  if (!input) throw new Error(`PSBT has no input ${index}`);
+
+  const finalized: PsbtInput = {
+    ...(input.nonWitnessUtxo ? { nonWitnessUtxo: input.nonWitnessUtxo } : {}),
+    ...(input.witnessUtxo ? { witnessUtxo: input.witnessUtxo } : {}),
+    ...(scripts.finalScriptSig !== undefined ? { finalScriptSig: scripts.finalScriptSig } : {}),
+    ...(scripts.finalScriptWitness ? { finalScriptWitness: scripts.finalScriptWitness } : {}),
+    ...(input.unknown ? { unknown: input.unknown } : {})
+  };
+
+  return { ...psbt, inputs: psbt.inputs.map((existing, i) => (i === index ? finalized : existing)) };
+}
+
+export function finalizeAllInputs(psbt: Psbt): Psbt {
+  return psbt.inputs.reduce((current, _, index) => finalizeInput(current, index), psbt);
+}
+
+/**
+ * The broadcastable transaction hex; every input must be finalized
+ */
+export function extractTransaction(psbt: Psbt): string {
+  const pending = psbt.inputs.findIndex(input => !isInputFinalized(input));
+  if (pending !== -1) throw new Error(`Input ${pending} is not finalized`);
+
+  return bytesToHex(serializeTransaction(
+    psbt.tx,
+    psbt.inputs.map(input => input.finalScriptSig ?? ''),
+    psbt.inputs.map(input => input.finalScriptWitness ?? [])
+  ));
+}
+
+/**
+ * Merges signatures and metadata from PSBTs of the same unsigned transaction (BIP174 combiner)
+ */
+export function combinePsbts(base: Psbt, ...others: Psbt[]): Psbt {
+  const baseTx = bytesToHex(serializeTransaction(base.tx));
+  let combined: Psbt = {
+    ...base,
+    inputs: base.inputs.map(input => ({ ...input })),
+    outputs: base.outputs.map(output => ({ ...output }))
+  };
+
+  for (const other of others) {
+    if (bytesToHex(serializeTransaction(other.tx)) !== baseTx) {
+      throw new Error('Cannot combine PSBTs of different transactions');
+    }
+    combined = {
+      ...combined,
+      unknown: mergeUnknown(combined.unknown, other.unknown),
+      inputs: combined.inputs.map((input, i) => mergeInput(input, other.inputs[i])),
+      outputs: combined.outputs.map((output, i) => ({
+        ...other.outputs[i],
+        ...output,
+        unknown: mergeUnknown(output.unknown, other.outputs[i].unknown)
+      }))
+    };
+  }
+
+  return combined;
+}
+
+export function base64Encode(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    result += BASE64_ALPHABET[(chunk >> 18) & 63] + BASE64_ALPHABET[(chunk >> 12) & 63];
+    result += i + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63] : '=';
+    result += i + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63] : '=';
+  }
+  return result;
+}
+
+export function base64Decode(base64: string): Uint8Array {
+  const clean = base64.replace(/\s+/g, '');
+  if (clean.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(clean)) {
+    throw new Error('Invalid base64 string');
+  }
+
+  const padding = clean.endsWith('==') ? 2 : clean.endsWith('=') ? 1 : 0;
+  const bytes = new Uint8Array((clean.length / 4) * 3 - padding);
+  let offset = 0;
+
+  for (let i = 0; i < clean.length; i += 4) {
+    const chunk = [0, 1, 2, 3].reduce(
+      (value, j) => (value << 6) | (clean[i + j] === '=' ? 0 : BASE64_ALPHABET.indexOf(clean[i + j])),
+      0
+    );
+    for (const shift of [16, 8, 0]) {
+      if (offset < bytes.length) bytes[offset++] = (chunk >> shift) & 0xff;
+    }
+  }
+
+  return bytes;
+}
+
+function parseUnsignedTransaction(bytes: Uint8Array): PsbtTransaction {
+  // The unsigned transaction is always in the legacy serialization, so any witness data means it was signed
+  const raw = parseTransaction(bytesToHex(bytes));
+  if (raw.inputs.some(input => input.scriptSig !== '' || input.witness.length > 0)) {
+    throw new Error('PSBT unsigned transaction must have empty scriptSigs and witnesses');
+  }
+
+  return {
+    version: raw.version,
+    locktime: raw.locktime,
+    inputs: raw.inputs.map(input => ({ txid: input.txid, vout: input.vout, sequence: input.sequence })),
+    outputs: raw.outputs.map(output => ({ value: Number(output.value), script: output.scriptPubKey }))
+  };
+}
+
+function mergeInput(a: PsbtInput, b: PsbtInput): PsbtInput {
+  const partialSigs = [...(a.partialSigs ?? [])];
+  for (const sig of b.partialSigs ?? []) {
+    if (!partialSigs.some(existing => existing.pubkey === sig.pubkey)) partialSigs.push(sig);
+  }
+  const tapScriptSigs = [...(a.tapScriptSigs ?? [])];
+  for (const sig of b.tapScriptSigs ?? []) {
+    if (!tapScriptSigs.some(existing => existing.pubkey === sig.pubkey && existing.leafHash === sig.leafHash)) {
+      tapScriptSigs.push(sig);
+    }
+  }
+
+  return {
+    ...b,
+    ...a,
+    ...(partialSigs.length > 0 ? { partialSigs } : {}),
+    ...(tapScriptSigs.length > 0 ? { tapScriptSigs } : {}),
+    ...(a.unknown || b.unknown ? { unknown: mergeUnknown(a.unknown, b.unknown) } : {})
+  };
+}
+
+function mergeUnknown(a: PsbtUnknown[] = [], b: PsbtUnknown[] = []): PsbtUnknown[] | undefined {
+  const merged = [...a, ...b.filter(entry => !a.some(existing => existing.key === entry.key))];
+  return merged.length > 0 ? merged : undefined;
+}
+
+function writeUnknown(writer: ByteWriter, entries: PsbtUnknown[] = []): void {
+  for (const entry of entries) writer.keyValue(hexToBytes(entry.key), hexToBytes(entry.value));
+}
+
+function encodeDerivation(derivation: Omit<PsbtBip32Derivation, 'pubkey'>): Uint8Array {
+  const writer = new ByteWriter();
+  writer.bytes(hexToBytes(derivation.fingerprint));
+  parseDerivationPath(derivation.path).forEach(step => writer.uint32(step));
+  return writer.toBytes();
+}
+
+function decodeDerivation(value: Uint8Array): Omit<PsbtBip32Derivation, 'pubkey'> {
+  if (value.length < 4 || value.length % 4 !== 0) throw new Error('Bad BIP32 derivation value');
+  const path: number[] = [];
+  for (let offset = 4; offset < value.length; offset += 4) path.push(readUint32LE(value.slice(offset, offset + 4)));
+  return { fingerprint: bytesToHex(value.slice(0, 4)), path: formatDerivationPath(path) };
+}
+
+function encodeTapDerivation(derivation: PsbtTapBip32Derivation): Uint8Array {
+  const writer = new ByteWriter();
+  writer.compactSize(derivation.leafHashes.length);
+  derivation.leafHashes.forEach(hash => writer.bytes(hexToBytes(hash)));
+  writer.bytes(encodeDerivation(derivation));
+  return writer.toBytes();
+}
+
+function decodeTapDerivation(value: Uint8Array): Omit<PsbtTapBip32Derivation, 'pubkey'> {
+  const reader = new ByteReader(value);
+  const leafHashes = Array.from({ length: reader.compactSize() }, () => bytesToHex(reader.read(32)));
+  return { leafHashes, ...decodeDerivation(reader.rest()) };
+}
+
+function expectKeyLength(key: Uint8Array, length: number, field: string): void {
+  if (key.length !== length) throw new Error(`Invalid key for ${field}`);
+}
+
+function pushData(hex: string): string {
+  const length = hex.length / 2;
+  if (length < 0x4c) return length.toString(16).padStart(2, '0') + hex;
+  if (length <= 0xff) return '4c' + length.toString(16).padStart(2, '0') + hex;
+  throw new Error('Push data too large');
+}
+
+function uint32LE(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0, true);
+  return bytes;
+}
+
+function readUint32LE(bytes: Uint8Array): number {
+  if (bytes.length !== 4) throw new Error('Expected a 4-byte integer');
+  return new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true);
+}
+
+class ByteWriter {
+  private chunks: number[] = [];
+
+  bytes(data: Uint8Array | number[]): void {
+    for (const byte of data) this.chunks.push(byte);
+  }
+
+  uint32(value: number): void {
+    this.bytes(uint32LE(value));
+  }
+
+  uint64(value: number): void {
+    if (!Number.isSafeInteger(value) || value < 0) throw new Error(`Invalid amount ${value}`);
+    let remaining = BigInt(value);
+    for (let i = 0; i < 8; i++) {
+      this.chunks.push(Number(remaining & 0xffn));
+      remaining >>= 8n;
+    }
+  }
+
+  compactSize(value: number): void {
+    if (value < 0xfd) {
+      this.chunks.push(value);
+    } else if (value <= 0xffff) {
+      this.bytes([0xfd, value & 0xff, value >> 8]);
+    } else {
+      this.chunks.push(0xfe);
+      this.uint32(value);
+    }
+  }
+
+  varBytes(data: Uint8Array | number[]): void {
+    this.compactSize(data.length);
+    this.bytes(data);
+  }
+
+  keyValue(key: Uint8Array | number[], value: Uint8Array): void {
+    this.varBytes(key);
+    this.varBytes(value);
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.chunks);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  read(length: number): Uint8Array {
+    if (this.offset + length > this.data.length) throw new Error('PSBT truncated');
+    const slice = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  uint8(): number {
+    return this.read(1)[0];
+  }
+
+  uint64(): number {
+    const value = this.read(8).reduceRight((sum, byte) => (sum << 8n) | BigInt(byte), 0n);
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) throw new Error('Amount out of range');
+    return Number(value);
+  }
+
+  compactSize(): number {
+    const first = this.uint8();
+    if (first < 0xfd) return first;
+    const bytes = this.read(first === 0xfd ? 2 : first === 0xfe ? 4 : 8);
+    return bytes.reduceRight((value, byte) => value * 256 + byte, 0);
+  }
+
+  varBytes(): Uint8Array {
+    return this.read(this.compactSize());
+  }
+
+  /**
+   * One key/value map up to its 0x00 separator; duplicate keys are invalid
+   */
+  map(): Array<{ key: Uint8Array; value: Uint8Array }> {
+    const entries: Array<{ key: Uint8Array; value: Uint8Array }> = [];
+    const seen = new Set<string>();
+
+    for (;;) {
+      const key = this.varBytes();
+      if (key.length === 0) return entries;
+      const id = bytesToHex(key);
+      if (seen.has(id)) throw new Error(`Duplicate PSBT key ${id}`);
+      seen.add(id);
+      entries.push({ key, value: this.varBytes() });
+    }
+  }
+
+  atEnd(): boolean {
+    return this.offset >= this.data.length;
+  }
+
+  rest(): Uint8Array {
+    return this.read(this.data.length - this.offset);
+  }
+
+  expectEnd(): void {
+    if (this.offset !== this.data.length) throw new Error('Unexpected trailing bytes');
+  }
+}
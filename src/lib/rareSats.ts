@@ -1,231 +1,373 @@
 // Rare Satoshi Detection System
+// Ordinal theory: sats are numbered in the order they are mined, starting at 0
+export type Rarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary' | 'mythic'
+
 export interface SatCategory {
   name: string
   description: string
   icon: string
-  rarity: 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary' | 'mythic'
+  rarity: Rarity
 }
 
 export interface RareSat {
   satNumber: bigint
   blockHeight: number
+  rarity: Rarity
+  degree: string
+  name: string
   categories: SatCategory[]
   totalRarity: number
   isRare: boolean
 }
 
+// A sat range is half-open: [start, end)
+export type SatRange = [bigint, bigint]
+
+export interface SatDegree {
+  hour: number // cycle (6 halvings, when halvings and difficulty adjustments line up)
+  minute: number // blocks since the last halving
+  second: number // blocks since the last difficulty adjustment
+  third: bigint // sat offset inside its block
+}
+
+export interface RareSatLocation extends RareSat {
+  offset: bigint // position of the sat inside the output
+}
+
+export interface SatributeRange {
+  category: SatCategory
+  start: bigint
+  end: bigint
+  offset: bigint // position of `start` inside the output
+}
+
+export interface RareSatScanOptions {
+  // Pizza sats are a published list of ranges (sats spent in the 10,000 BTC pizza
+  // transaction) that can only be derived by an indexer, so callers provide it
+  pizzaRanges?: SatRange[]
+}
+
 // Bitcoin Constants
+export const COIN_VALUE = 100_000_000n
 const SUBSIDY_HALVING_INTERVAL = 210000
 const DIFFCHANGE_INTERVAL = 2016
-const BLOCKS_PER_YEAR = 52560 // approximately
+const CYCLE_EPOCHS = 6
+const INITIAL_SUBSIDY = 50n * COIN_VALUE
+const LAST_EPOCH = 33 // 50 BTC >> 33 === 0
+
+// First sat of every halving epoch, computed once in closed form
+const EPOCH_STARTING_SATS: bigint[] = (() => {
+  const starts: bigint[] = [0n]
+  for (let epoch = 0; epoch < LAST_EPOCH; epoch++) {
+    starts.push(starts[epoch] + (INITIAL_SUBSIDY >> BigInt(epoch)) * BigInt(SUBSIDY_HALVING_INTERVAL))
+  }
+  return starts
+})()
+
+export const SAT_SUPPLY = EPOCH_STARTING_SATS[LAST_EPOCH]
+export const LAST_SAT = SAT_SUPPLY - 1n
+
+const RARITY_SCORE: Record<Rarity, number> = {
+  common: 0,
+  uncommon: 20,
+  rare: 40,
+  epic: 60,
+  legendary: 80,
+  mythic: 100
+}
 
-// Satoshi ranges for different categories
-const SAT_RANGES = {
-  genesis: { start: 0n, end: 50n * 100000000n }, // First block
-  pizza: { start: 1929300000000n, end: 1968600000000n }, // Pizza transaction block range
-  vintage: { start: 0n, end: 1000000n * 100000000n }, // First million BTC
-  uncommon: (height: number) => height % 10 === 9, // Last sat of each block ending in 9
-  rare: (height: number) => height % 100 === 99, // Last sat of each block ending in 99
-  epic: (height: number) => height % 1000 === 999, // Last sat of each block ending in 999
-  legendary: (height: number) => height % 10000 === 9999, // Last sat of each block ending in 9999
+const RARITY_CATEGORIES: Record<Exclude<Rarity, 'common'>, SatCategory> = {
+  uncommon: { name: 'Uncommon', description: 'First sat of a block', icon: '🔷', rarity: 'uncommon' },
+  rare: { name: 'Rare', description: 'First sat of a difficulty adjustment period', icon: '💠', rarity: 'rare' },
+  epic: { name: 'Epic', description: 'First sat of a halving epoch', icon: '💎', rarity: 'epic' },
+  legendary: { name: 'Legendary', description: 'First sat of a cycle', icon: '👑', rarity: 'legendary' },
+  mythic: { name: 'Mythic', description: 'First sat of the genesis block', icon: '🌟', rarity: 'mythic' }
 }
 
+export const EXOTIC_CATEGORIES = {
+  black: { name: 'Black', description: 'Last sat of a block', icon: '⬛', rarity: 'uncommon' },
+  alpha: { name: 'Alpha', description: 'First sat of a bitcoin', icon: 'Ⓐ', rarity: 'uncommon' },
+  omega: { name: 'Omega', description: 'Last sat of a bitcoin', icon: 'Ω', rarity: 'uncommon' },
+  palindrome: { name: 'Palindrome', description: 'Sat number reads the same both ways', icon: '🔄', rarity: 'epic' },
+  vintage: { name: 'Vintage', description: 'Mined in the first 1,000 blocks', icon: '📜', rarity: 'epic' },
+  block78: { name: 'Block 78', description: 'Mined in block 78, the first not mined by Satoshi', icon: '7️⃣', rarity: 'epic' },
+  block9: { name: 'Block 9', description: 'Mined in block 9, the oldest sats in circulation', icon: '9️⃣', rarity: 'legendary' },
+  pizza: { name: 'Pizza', description: 'Spent in the 10,000 BTC pizza transaction', icon: '🍕', rarity: 'legendary' }
+} satisfies Record<string, SatCategory>
+
 export function getBlockReward(height: number): bigint {
   const halvings = Math.floor(height / SUBSIDY_HALVING_INTERVAL)
-  const subsidy = 50n * 100000000n // 50 BTC in sats
-  return subsidy >> BigInt(halvings)
+  return halvings >= LAST_EPOCH ? 0n : INITIAL_SUBSIDY >> BigInt(halvings)
 }
 
+// First sat mined in `height`, plus an optional offset inside the block
 export function getSatNumberFromBlockHeight(height: number, offset: bigint = 0n): bigint {
-  let totalSats = 0n
-  
-  for (let h = 0; h < height; h++) {
-    totalSats += getBlockReward(h)
+  const epoch = Math.min(Math.floor(height / SUBSIDY_HALVING_INTERVAL), LAST_EPOCH)
+  const blocksIntoEpoch = BigInt(height - epoch * SUBSIDY_HALVING_INTERVAL)
+  return EPOCH_STARTING_SATS[epoch] + blocksIntoEpoch * getBlockReward(height) + offset
+}
+
+function assertSat(sat: bigint): void {
+  if (sat < 0n || sat > LAST_SAT) {
+    throw new Error(`Sat ${sat} is outside the supply (0 - ${LAST_SAT})`)
+  }
+}
+
+function getSatEpoch(sat: bigint): number {
+  let epoch = 0
+  while (epoch + 1 < LAST_EPOCH && EPOCH_STARTING_SATS[epoch + 1] <= sat) epoch++
+  return epoch
+}
+
+export function getSatHeight(sat: bigint): number {
+  assertSat(sat)
+  const epoch = getSatEpoch(sat)
+  const subsidy = INITIAL_SUBSIDY >> BigInt(epoch)
+  return epoch * SUBSIDY_HALVING_INTERVAL + Number((sat - EPOCH_STARTING_SATS[epoch]) / subsidy)
+}
+
+export function getSatOffset(sat: bigint): bigint {
+  return sat - getSatNumberFromBlockHeight(getSatHeight(sat))
+}
+
+export function getSatDegree(sat: bigint): SatDegree {
+  const height = getSatHeight(sat)
+  return {
+    hour: Math.floor(height / (CYCLE_EPOCHS * SUBSIDY_HALVING_INTERVAL)),
+    minute: height % SUBSIDY_HALVING_INTERVAL,
+    second: height % DIFFCHANGE_INTERVAL,
+    third: getSatOffset(sat)
+  }
+}
+
+// A°B′C″D‴
+export function formatDegree(sat: bigint): string {
+  const { hour, minute, second, third } = getSatDegree(sat)
+  return `${hour}°${minute}′${second}″${third}‴`
+}
+
+export function parseDegree(degree: string): bigint {
+  const match = degree.trim().match(/^(\d+)°(\d+)′(\d+)″(\d+)‴$/)
+  if (!match) {
+    throw new Error(`Invalid degree notation: ${degree}`)
+  }
+
+  const [hour, minute, second] = match.slice(1, 4).map(Number)
+  const third = BigInt(match[4])
+  if (minute >= SUBSIDY_HALVING_INTERVAL || second >= DIFFCHANGE_INTERVAL) {
+    throw new Error(`Invalid degree notation: ${degree}`)
   }
-  
-  return totalSats + offset
+
+  // A cycle is a whole number of difficulty periods and every epoch shifts the
+  // period by 336 blocks, so `second` tells which epoch of the cycle we are in
+  const shift = SUBSIDY_HALVING_INTERVAL % DIFFCHANGE_INTERVAL
+  const delta = (((second - minute) % DIFFCHANGE_INTERVAL) + DIFFCHANGE_INTERVAL) % DIFFCHANGE_INTERVAL
+  if (delta % shift !== 0) {
+    throw new Error(`Degree ${degree} does not match any block (relative blocks do not line up)`)
+  }
+
+  const epoch = hour * CYCLE_EPOCHS + delta / shift
+  const height = epoch * SUBSIDY_HALVING_INTERVAL + minute
+  if (third >= getBlockReward(height)) {
+    throw new Error(`Degree ${degree} offset exceeds the subsidy of block ${height}`)
+  }
+
+  return getSatNumberFromBlockHeight(height, third)
+}
+
+// height.offset
+export function formatDecimal(sat: bigint): string {
+  return `${getSatHeight(sat)}.${getSatOffset(sat)}`
+}
+
+// Names count down from the last sat ("a") to sat 0 ("nvtdijuwxlp")
+export function getSatName(sat: bigint): string {
+  assertSat(sat)
+  let x = SAT_SUPPLY - sat
+  let name = ''
+  while (x > 0n) {
+    name = String.fromCharCode(97 + Number((x - 1n) % 26n)) + name
+    x = (x - 1n) / 26n
+  }
+  return name
 }
 
-export function analyzeSat(satNumber: bigint, blockHeight: number): RareSat {
+export function parseSatName(name: string): bigint {
+  if (!/^[a-z]+$/.test(name)) {
+    throw new Error(`Invalid sat name: ${name}`)
+  }
+
+  let x = 0n
+  for (const char of name) {
+    x = x * 26n + BigInt(char.charCodeAt(0) - 96)
+    if (x > SAT_SUPPLY) {
+      throw new Error(`Sat name out of range: ${name}`)
+    }
+  }
+  return SAT_SUPPLY - x
+}
+
+export function getSatRarity(sat: bigint): Rarity {
+  const { hour, minute, second, third } = getSatDegree(sat)
+  if (third !== 0n) return 'common'
+  if (hour === 0 && minute === 0 && second === 0) return 'mythic'
+  if (minute === 0 && second === 0) return 'legendary'
+  if (minute === 0) return 'epic'
+  if (second === 0) return 'rare'
+  return 'uncommon'
+}
+
+function isPalindrome(sat: bigint): boolean {
+  const digits = sat.toString()
+  return digits === digits.split('').reverse().join('')
+}
+
+function inRanges(sat: bigint, ranges: SatRange[]): boolean {
+  return ranges.some(([start, end]) => sat >= start && sat < end)
+}
+
+// Whole-block satributes, as sat ranges
+function blockRangeSatributes(): { category: SatCategory; range: SatRange }[] {
+  return [
+    { category: EXOTIC_CATEGORIES.block9, range: [getSatNumberFromBlockHeight(9), getSatNumberFromBlockHeight(10)] },
+    { category: EXOTIC_CATEGORIES.block78, range: [getSatNumberFromBlockHeight(78), getSatNumberFromBlockHeight(79)] },
+    { category: EXOTIC_CATEGORIES.vintage, range: [0n, getSatNumberFromBlockHeight(1000)] }
+  ]
+}
+
+export function analyzeSat(satNumber: bigint, options: RareSatScanOptions = {}): RareSat {
+  const blockHeight = getSatHeight(satNumber)
+  const rarity = getSatRarity(satNumber)
   const categories: SatCategory[] = []
-  let totalRarity = 0
-
-  // Genesis Sat
-  if (satNumber >= SAT_RANGES.genesis.start && satNumber < SAT_RANGES.genesis.end) {
-    categories.push({
-      name: 'Genesis',
-      description: 'From the first Bitcoin block',
-      icon: '🌟',
-      rarity: 'mythic'
-    })
-    totalRarity += 100
-  }
-
-  // Pizza Sat
-  if (satNumber >= SAT_RANGES.pizza.start && satNumber < SAT_RANGES.pizza.end) {
-    categories.push({
-      name: 'Pizza',
-      description: 'From the famous pizza transaction era',
-      icon: '🍕',
-      rarity: 'legendary'
-    })
-    totalRarity += 80
-  }
-
-  // Vintage Sat
-  if (satNumber < SAT_RANGES.vintage.end) {
-    categories.push({
-      name: 'Vintage',
-      description: 'From the first million Bitcoin',
-      icon: '📜',
-      rarity: 'epic'
-    })
-    totalRarity += 60
-  }
-
-  // Halving Sat
-  if (blockHeight % SUBSIDY_HALVING_INTERVAL === 0 && blockHeight > 0) {
-    categories.push({
-      name: 'Halving',
-      description: 'First sat after a halving event',
-      icon: '✂️',
-      rarity: 'legendary'
-    })
-    totalRarity += 90
-  }
-
-  // Difficulty Adjustment Sat
-  if (blockHeight % DIFFCHANGE_INTERVAL === 0) {
-    categories.push({
-      name: 'Difficulty',
-      description: 'From a difficulty adjustment block',
-      icon: '⚡',
-      rarity: 'rare'
-    })
-    totalRarity += 40
-  }
-
-  // Block Pattern Sats
-  if (SAT_RANGES.legendary(blockHeight)) {
-    categories.push({
-      name: 'Legendary Block',
-      description: 'From a block ending in 9999',
-      icon: '👑',
-      rarity: 'legendary'
-    })
-    totalRarity += 70
-  } else if (SAT_RANGES.epic(blockHeight)) {
-    categories.push({
-      name: 'Epic Block',
-      description: 'From a block ending in 999',
-      icon: '💎',
-      rarity: 'epic'
-    })
-    totalRarity += 50
-  } else if (SAT_RANGES.rare(blockHeight)) {
-    categories.push({
-      name: 'Rare Block',
-      description: 'From a block ending in 99',
-      icon: '💠',
-      rarity: 'rare'
-    })
-    totalRarity += 30
-  } else if (SAT_RANGES.uncommon(blockHeight)) {
-    categories.push({
-      name: 'Uncommon Block',
-      description: 'From a block ending in 9',
-      icon: '🔷',
-      rarity: 'uncommon'
-    })
-    totalRarity += 10
-  }
-
-  // Palindrome Sat
-  const satStr = satNumber.toString()
-  if (satStr === satStr.split('').reverse().join('') && satStr.length > 6) {
-    categories.push({
-      name: 'Palindrome',
-      description: 'Satoshi number is a palindrome',
-      icon: '🔄',
-      rarity: 'epic'
-    })
-    totalRarity += 65
-  }
-
-  // Round Number Sat
-  if (satNumber % 1000000000n === 0n) {
-    categories.push({
-      name: 'Round',
-      description: 'Perfect billion satoshi',
-      icon: '🎯',
-      rarity: 'rare'
-    })
-    totalRarity += 45
-  }
-
-  // Year Sat (one sat per year)
-  const yearsSinceLaunch = Math.floor(blockHeight / BLOCKS_PER_YEAR)
-  if (blockHeight % BLOCKS_PER_YEAR === 0) {
-    categories.push({
-      name: `Year ${yearsSinceLaunch}`,
-      description: 'First sat of a Bitcoin year',
-      icon: '📅',
-      rarity: 'epic'
-    })
-    totalRarity += 55
-  }
-
-  // Alpha Sat (first sat of each block)
-  const blockReward = getBlockReward(blockHeight)
-  const blockStartSat = getSatNumberFromBlockHeight(blockHeight)
-  if (satNumber === blockStartSat) {
-    categories.push({
-      name: 'Alpha',
-      description: 'First satoshi of the block',
-      icon: 'Ⓐ',
-      rarity: 'uncommon'
-    })
-    totalRarity += 15
-  }
-
-  // Omega Sat (last sat of each block)
-  if (satNumber === blockStartSat + blockReward - 1n) {
-    categories.push({
-      name: 'Omega',
-      description: 'Last satoshi of the block',
-      icon: 'Ω',
-      rarity: 'uncommon'
-    })
-    totalRarity += 15
+
+  if (rarity !== 'common') {
+    categories.push(RARITY_CATEGORIES[rarity])
+  }
+
+  if (satNumber === getSatNumberFromBlockHeight(blockHeight) + getBlockReward(blockHeight) - 1n) {
+    categories.push(EXOTIC_CATEGORIES.black)
+  }
+  if (satNumber % COIN_VALUE === 0n) {
+    categories.push(EXOTIC_CATEGORIES.alpha)
+  }
+  if (satNumber % COIN_VALUE === COIN_VALUE - 1n) {
+    categories.push(EXOTIC_CATEGORIES.omega)
+  }
+  if (isPalindrome(satNumber)) {
+    categories.push(EXOTIC_CATEGORIES.palindrome)
   }
 
+  for (const { category, range } of blockRangeSatributes()) {
+    if (inRanges(satNumber, [range])) categories.push(category)
+  }
+  if (options.pizzaRanges && inRanges(satNumber, options.pizzaRanges)) {
+    categories.push(EXOTIC_CATEGORIES.pizza)
+  }
+
+  const totalRarity = categories.reduce((sum, category) => sum + RARITY_SCORE[category.rarity], 0)
+
   return {
     satNumber,
     blockHeight,
+    rarity,
+    degree: formatDegree(satNumber),
+    name: getSatName(satNumber),
     categories,
     totalRarity,
     isRare: categories.length > 0
   }
 }
 
-// Search for rare sats in a UTXO
-export function findRareSatsInUTXO(utxo: {
-  value: number
-  blockHeight: number
-  txIndex: number
-  outputIndex: number
-}): RareSat[] {
-  const rareSats: RareSat[] = []
-  const startSat = getSatNumberFromBlockHeight(utxo.blockHeight) + BigInt(utxo.txIndex * 1000 + utxo.outputIndex)
-  
-  for (let i = 0; i < utxo.value; i++) {
-    const sat = analyzeSat(startSat + BigInt(i), utxo.blockHeight)
-    if (sat.isRare) {
-      rareSats.push(sat)
+// Every palindromic number in [start, end), built from its first half
+function palindromesInRange(start: bigint, end: bigint): bigint[] {
+  const found: bigint[] = []
+  if (end <= start) return found
+
+  const minDigits = start.toString().length
+  const maxDigits = (end - 1n).toString().length
+
+  for (let digits = minDigits; digits <= maxDigits; digits++) {
+    const halfDigits = Math.ceil(digits / 2)
+    const lowest = digits === 1 ? 0n : 10n ** BigInt(digits - 1)
+    const highest = 10n ** BigInt(digits) - 1n
+    const from = start > lowest ? start : lowest
+    const to = end - 1n < highest ? end - 1n : highest
+    const firstHalf = BigInt(from.toString().slice(0, halfDigits))
+    const lastHalf = BigInt(to.toString().slice(0, halfDigits))
+
+    for (let half = firstHalf; half <= lastHalf; half++) {
+      const left = half.toString()
+      const right = left.slice(0, digits - halfDigits).split('').reverse().join('')
+      const candidate = BigInt(left + right)
+      if (candidate >= start && candidate < end) found.push(candidate)
     }
   }
-  
-  return rareSats
+
+  return found
+}
+
+// Sats in [start, end) that are the first or last of a block or of a bitcoin, or palindromes
+function notableSatsInRange(start: bigint, end: bigint): bigint[] {
+  const sats = new Set<bigint>()
+
+  const lastHeight = getSatHeight(end - 1n)
+  for (let height = getSatHeight(start); height <= lastHeight; height++) {
+    const first = getSatNumberFromBlockHeight(height)
+    const last = first + getBlockReward(height) - 1n
+    if (first >= start && first < end) sats.add(first)
+    if (last >= start && last < end) sats.add(last)
+  }
+
+  const firstCoin = ((start + COIN_VALUE - 1n) / COIN_VALUE) * COIN_VALUE
+  for (let sat = firstCoin; sat < end; sat += COIN_VALUE) sats.add(sat)
+  for (let sat = firstCoin - 1n; sat < end; sat += COIN_VALUE) {
+    if (sat >= start) sats.add(sat)
+  }
+
+  for (const sat of palindromesInRange(start, end)) sats.add(sat)
+
+  return Array.from(sats).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+}
+
+// Search for rare and exotic sats in a UTXO, given its sat ranges in output order
+export function findRareSatsInUTXO(
+  utxo: { satRanges: SatRange[] },
+  options: RareSatScanOptions = {}
+): { sats: RareSatLocation[]; ranges: SatributeRange[] } {
+  const sats: RareSatLocation[] = []
+  const ranges: SatributeRange[] = []
+  const rangeSatributes = [
+    ...blockRangeSatributes(),
+    ...(options.pizzaRanges || []).map(range => ({ category: EXOTIC_CATEGORIES.pizza as SatCategory, range }))
+  ]
+  let position = 0n
+
+  for (const [start, end] of utxo.satRanges) {
+    if (end <= start) {
+      throw new Error(`Invalid sat range [${start}, ${end})`)
+    }
+    assertSat(start)
+    assertSat(end - 1n)
+
+    for (const sat of notableSatsInRange(start, end)) {
+      const analyzed = analyzeSat(sat, options)
+      if (analyzed.isRare) {
+        sats.push({ ...analyzed, offset: position + (sat - start) })
+      }
+    }
+
+    for (const { category, range } of rangeSatributes) {
+      const overlapStart = start > range[0] ? start : range[0]
+      const overlapEnd = end < range[1] ? end : range[1]
+      if (overlapStart < overlapEnd) {
+        ranges.push({ category, start: overlapStart, end: overlapEnd, offset: position + (overlapStart - start) })
+      }
+    }
+
+    position += end - start
+  }
+
+  return { sats, ranges }
 }
 
 // Get rarity color based on total rarity score
@@ -245,4 +387,4 @@ export function getRarityGradient(rarity: number): string {
   if (rarity >= 40) return 'linear-gradient(135deg, #3b82f6 0%, #6366f1 100%)' // Rare
   if (rarity >= 20) return 'linear-gradient(135deg, #10b981 0%, #3b82f6 100%)' // Uncommon
   return '#6b7280' // Common
-}
\ No newline at end of file
+}
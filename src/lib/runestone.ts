@@ -0,0 +1,749 @@
+/**
+ * Runestone codec
+ * Decodes and encodes runestones (OP_RETURN OP_13 outputs) following ord's runes
+ * protocol, detects cenotaphs and replays a transaction's rune transfers so indexer
+ * balances can be checked independently
+ */
+
+import { addressValidator, bytesToHex, hexToBytes, type BitcoinNetwork } from './addressValidation';
+
+export const U128_MAX = (1n << 128n) - 1n;
+const U64_MAX = (1n << 64n) - 1n;
+const U32_MAX = (1n << 32n) - 1n;
+
+export const MAX_DIVISIBILITY = 38;
+export const MAX_SPACERS = 0b00000111_11111111_11111111_11111111;
+// Names at or above "AAAAAAAAAAAAAAAAAAAAAAAAAAA" are reserved for etchings without a name
+export const RESERVED_RUNE = 6402364363415443603228541259936211926n;
+
+const OP_RETURN = 0x6a;
+const OP_13 = 0x5d;
+const OP_PUSHDATA1 = 0x4c;
+const OP_PUSHDATA2 = 0x4d;
+const OP_PUSHDATA4 = 0x4e;
+const MAX_SCRIPT_ELEMENT_SIZE = 520;
+
+enum Tag {
+  Body = 0,
+  Divisibility = 1,
+  Flags = 2,
+  Spacers = 3,
+  Rune = 4,
+  Symbol = 5,
+  Premine = 6,
+  Cap = 8,
+  Amount = 10,
+  HeightStart = 12,
+  HeightEnd = 14,
+  OffsetStart = 16,
+  OffsetEnd = 18,
+  Mint = 20,
+  Pointer = 22
+}
+
+enum Flag {
+  Etching = 0,
+  Terms = 1,
+  Turbo = 2
+}
+
+export type CenotaphFlaw =
+  | 'edict_output'
+  | 'edict_rune_id'
+  | 'invalid_script'
+  | 'opcode'
+  | 'supply_overflow'
+  | 'trailing_integers'
+  | 'truncated_field'
+  | 'unrecognized_even_tag'
+  | 'unrecognized_flag'
+  | 'varint';
+
+export const CENOTAPH_FLAW_MESSAGES: Record<CenotaphFlaw, string> = {
+  edict_output: 'edict output greater than transaction output count',
+  edict_rune_id: 'invalid rune ID in edict',
+  invalid_script: 'invalid script in OP_RETURN',
+  opcode: 'non-pushdata opcode in OP_RETURN',
+  supply_overflow: 'supply overflows u128',
+  trailing_integers: 'trailing integers in body',
+  truncated_field: 'field with missing value',
+  unrecognized_even_tag: 'unrecognized even tag',
+  unrecognized_flag: 'unrecognized flag',
+  varint: 'invalid varint'
+};
+
+export interface RuneId {
+  block: bigint;
+  tx: number;
+}
+
+export interface Edict {
+  id: RuneId;
+  amount: bigint; // 0 = everything left of this rune
+  output: number; // == output count splits across all non-OP_RETURN outputs
+}
+
+export interface RuneTerms {
+  amount?: bigint;
+  cap?: bigint;
+  heightStart?: bigint;
+  heightEnd?: bigint;
+  offsetStart?: bigint;
+  offsetEnd?: bigint;
+}
+
+export interface Etching {
+  divisibility?: number;
+  premine?: bigint;
+  rune?: bigint;
+  spacers?: number;
+  symbol?: string;
+  terms?: RuneTerms;
+  turbo: boolean;
+}
+
+export interface Runestone {
+  type: 'runestone';
+  edicts: Edict[];
+  etching?: Etching;
+  mint?: RuneId;
+  pointer?: number;
+}
+
+export interface Cenotaph {
+  type: 'cenotaph';
+  flaws: CenotaphFlaw[]; // in detection order; ord reports the first
+  etching?: bigint; // the rune name is still consumed, with zero supply
+  mint?: RuneId; // minted amount is burned
+}
+
+export type RuneArtifact = Runestone | Cenotaph;
+
+export interface RawTxInput {
+  txid: string;
+  vout: number;
+  scriptSig: string;
+  sequence: number;
+  witness: string[];
+}
+
+export interface RawTxOutput {
+  value: bigint;
+  scriptPubKey: string;
+}
+
+export interface RawTransaction {
+  version: number;
+  inputs: RawTxInput[];
+  outputs: RawTxOutput[];
+  locktime: number;
+}
+
+// Rune balances keyed by "block:tx"
+export type RuneBalances = Record<string, bigint>;
+
+export interface RuneTransferOptions {
+  block?: bigint | number; // height and index of this transaction, needed to id a new etching
+  txIndex?: number;
+  // Amount a mint of this rune yields right now, or null when its terms are closed
+  mintAmount?: (id: string) => bigint | null;
+}
+
+export interface RuneTransferResult {
+  artifact: RuneArtifact | null;
+  outputs: Record<number, RuneBalances>;
+  burned: RuneBalances;
+  etched?: { id: string; rune: bigint; premine: bigint };
+  minted?: { id: string; amount: bigint };
+}
+
+export interface IndexedRuneOutput {
+  runeId: string;
+  amount: bigint | string;
+  vout?: number;
+  address?: string; // indexers such as Hiro report the receiving address rather than the vout
+}
+
+export interface RuneTransferDiscrepancy {
+  location: string; // "vout:N" or the address
+  runeId: string;
+  expected: bigint;
+  reported: bigint;
+}
+
+// LEB128, at most 19 bytes for a u128
+export function decodeVarint(bytes: Uint8Array, offset = 0): [bigint, number] {
+  let value = 0n;
+  for (let i = 0; offset + i < bytes.length; i++) {
+    if (i > 18) throw new Error('Overlong varint');
+    const byte = bytes[offset + i];
+    const low = BigInt(byte & 0x7f);
+    if (i === 18 && (low & 0b0111_1100n) !== 0n) throw new Error('Varint overflows u128');
+    value |= low << BigInt(7 * i);
+    if ((byte & 0x80) === 0) return [value, i + 1];
+  }
+  throw new Error('Unterminated varint');
+}
+
+export function encodeVarint(value: bigint): number[] {
+  if (value < 0n || value > U128_MAX) throw new Error('Varint out of u128 range');
+  const out: number[] = [];
+  while (value >> 7n > 0n) {
+    out.push(Number(value & 0x7fn) | 0x80);
+    value >>= 7n;
+  }
+  out.push(Number(value));
+  return out;
+}
+
+export function formatRuneId(id: RuneId): string {
+  return `${id.block}:${id.tx}`;
+}
+
+export function parseRuneId(id: string): RuneId {
+  const match = id.match(/^(\d+):(\d+)$/);
+  if (!match) throw new Error(`Invalid rune ID: ${id}`);
+  const block = BigInt(match[1]);
+  const tx = BigInt(match[2]);
+  if (block > U64_MAX || tx > U32_MAX || (block === 0n && tx > 0n)) throw new Error(`Invalid rune ID: ${id}`);
+  return { block, tx: Number(tx) };
+}
+
+// Modified base-26: A = 0, Z = 25, AA = 26, ...
+export function runeNameToValue(name: string): bigint {
+  if (!/^[A-Z]+$/.test(name)) throw new Error(`Invalid rune name: ${name}`);
+  let value = 0n;
+  for (let i = 0; i < name.length; i++) {
+    if (i > 0) value += 1n;
+    value = value * 26n + BigInt(name.charCodeAt(i) - 65);
+    if (value > U128_MAX) throw new Error(`Rune name out of range: ${name}`);
+  }
+  return value;
+}
+
+export function runeValueToName(value: bigint): string {
+  if (value < 0n || value > U128_MAX) throw new Error('Rune value out of u128 range');
+  if (value === U128_MAX) return 'BCGDENLQRQWDSLRUGSNLBTMFIJAV';
+
+  let n = value + 1n;
+  let name = '';
+  while (n > 0n) {
+    name = String.fromCharCode(65 + Number((n - 1n) % 26n)) + name;
+    n = (n - 1n) / 26n;
+  }
+  return name;
+}
+
+/**
+ * "UNCOMMON•GOODS" -> rune value and spacer bits; "." is accepted as a spacer
+ */
+export function parseSpacedRune(spaced: string): { rune: bigint; spacers: number } {
+  let name = '';
+  let spacers = 0;
+
+  for (const char of spaced) {
+    if (char >= 'A' && char <= 'Z') {
+      name += char;
+    } else if (char === '•' || char === '.') {
+      if (name.length === 0) throw new Error('Leading spacer');
+      const flag = 1 << (name.length - 1);
+      if (spacers & flag) throw new Error('Double spacer');
+      spacers |= flag;
+    } else {
+      throw new Error(`Invalid character in rune name: ${char}`);
+    }
+  }
+
+  if (name.length === 0) throw new Error('Empty rune name');
+  if (32 - Math.clz32(spacers) >= name.length) throw new Error('Trailing spacer');
+  return { rune: runeNameToValue(name), spacers };
+}
+
+export function formatSpacedRune(rune: bigint, spacers = 0): string {
+  const name = runeValueToName(rune);
+  let out = '';
+  for (let i = 0; i < name.length; i++) {
+    out += name[i];
+    if (i < name.length - 1 && spacers & (1 << i)) out += '•';
+  }
+  return out;
+}
+
+export function isReservedRune(rune: bigint): boolean {
+  return rune >= RESERVED_RUNE;
+}
+
+// Name given to an etching that does not pick one
+export function reservedRune(block: bigint, tx: number): bigint {
+  return RESERVED_RUNE + ((block << 32n) | BigInt(tx));
+}
+
+export function parseTransaction(hex: string): RawTransaction {
+  const bytes = hexToBytes(hex);
+  let offset = 0;
+
+  const read = (length: number) => {
+    if (offset + length > bytes.length) throw new Error('Transaction truncated');
+    const slice = bytes.slice(offset, offset + length);
+    offset += length;
+    return slice;
+  };
+  const readUInt = (length: number) => read(length).reduceRight((value, byte) => value * 256 + byte, 0);
+  const readCompactSize = () => {
+    const first = readUInt(1);
+    if (first < 0xfd) return first;
+    return readUInt(first === 0xfd ? 2 : first === 0xfe ? 4 : 8);
+  };
+  const readHex = (length: number) => bytesToHex(read(length));
+
+  const version = readUInt(4);
+  const segwit = bytes[offset] === 0 && bytes[offset + 1] === 1;
+  if (segwit) offset += 2;
+
+  const inputs: RawTxInput[] = Array.from({ length: readCompactSize() }, () => ({
+    txid: bytesToHex(read(32).reverse()),
+    vout: readUInt(4),
+    scriptSig: readHex(readCompactSize()),
+    sequence: readUInt(4),
+    witness: []
+  }));
+
+  const outputs: RawTxOutput[] = Array.from({ length: readCompactSize() }, () => {
+    const value = read(8).reduceRight((sum, byte) => (sum << 8n) | BigInt(byte), 0n);
+    return { value, scriptPubKey: readHex(readCompactSize()) };
+  });
+
+  if (segwit) {
+    for (const input of inputs) {
+      input.witness = Array.from({ length: readCompactSize() }, () => readHex(readCompactSize()));
+    }
+  }
+
+  const locktime = readUInt(4);
+  if (offset !== bytes.length) throw new Error('Trailing bytes after transaction');
+
+  return { version, inputs, outputs, locktime };
+}
+
+/**
+ * Finds the runestone of a transaction (the first OP_RETURN OP_13 output) and
+ * decodes it, or returns null when there is none
+ */
+export function decipherRunestone(transaction: RawTransaction | string): RuneArtifact | null {
+  const tx = typeof transaction === 'string' ? parseTransaction(transaction) : transaction;
+  const payload = findPayload(tx);
+  if (!payload) return null;
+  if ('flaw' in payload) return { type: 'cenotaph', flaws: [payload.flaw] };
+
+  let integers: bigint[];
+  try {
+    integers = decodeIntegers(payload.bytes);
+  } catch {
+    return { type: 'cenotaph', flaws: ['varint'] };
+  }
+
+  const { fields, edicts, flaws } = parseMessage(integers, tx.outputs.length);
+  let flags = take(fields, Tag.Flags, 1, ([value]) => value) ?? 0n;
+
+  const takeFlag = (flag: Flag) => {
+    const mask = 1n << BigInt(flag);
+    const set = (flags & mask) !== 0n;
+    flags &= ~mask;
+    return set;
+  };
+
+  let etching: Etching | undefined;
+  if (takeFlag(Flag.Etching)) {
+    etching = {
+      divisibility: take(fields, Tag.Divisibility, 1, ([value]) => value <= BigInt(MAX_DIVISIBILITY) ? Number(value) : null),
+      premine: take(fields, Tag.Premine, 1, ([value]) => value),
+      rune: take(fields, Tag.Rune, 1, ([value]) => value),
+      spacers: take(fields, Tag.Spacers, 1, ([value]) => value <= BigInt(MAX_SPACERS) ? Number(value) : null),
+      symbol: take(fields, Tag.Symbol, 1, ([value]) => toChar(value)),
+      terms: takeFlag(Flag.Terms)
+        ? {
+          cap: take(fields, Tag.Cap, 1, ([value]) => value),
+          heightStart: take(fields, Tag.HeightStart, 1, ([value]) => value <= U64_MAX ? value : null),
+          heightEnd: take(fields, Tag.HeightEnd, 1, ([value]) => value <= U64_MAX ? value : null),
+          amount: take(fields, Tag.Amount, 1, ([value]) => value),
+          offsetStart: take(fields, Tag.OffsetStart, 1, ([value]) => value <= U64_MAX ? value : null),
+          offsetEnd: take(fields, Tag.OffsetEnd, 1, ([value]) => value <= U64_MAX ? value : null)
+        }
+        : undefined,
+      turbo: takeFlag(Flag.Turbo)
+    };
+  }
+
+  const mint = take(fields, Tag.Mint, 2, ([block, txIndex]) => newRuneId(block, txIndex));
+  const pointer = take(fields, Tag.Pointer, 1, ([value]) => value < BigInt(tx.outputs.length) ? Number(value) : null);
+
+  if (etching && etchingSupply(etching) === null) flaws.push('supply_overflow');
+  if (flags !== 0n) flaws.push('unrecognized_flag');
+  if ([...fields.keys()].some(tag => tag % 2n === 0n)) flaws.push('unrecognized_even_tag');
+
+  if (flaws.length > 0) {
+    return { type: 'cenotaph', flaws, etching: etching?.rune, mint };
+  }
+  return { type: 'runestone', edicts, etching, mint, pointer };
+}
+
+/**
+ * Builds the OP_RETURN OP_13 script for a runestone. Edicts are sorted by rune ID
+ * and delta-encoded, as ord does.
+ */
+export function encodeRunestone(runestone: Omit<Runestone, 'type'>): Uint8Array {
+  const payload: number[] = [];
+  const field = (tag: Tag, value: bigint | number | undefined) => {
+    if (value === undefined) return;
+    payload.push(...encodeVarint(BigInt(tag)), ...encodeVarint(BigInt(value)));
+  };
+
+  const { etching } = runestone;
+  if (etching) {
+    let flags = 1n << BigInt(Flag.Etching);
+    if (etching.terms) flags |= 1n << BigInt(Flag.Terms);
+    if (etching.turbo) flags |= 1n << BigInt(Flag.Turbo);
+    field(Tag.Flags, flags);
+    field(Tag.Rune, etching.rune);
+    field(Tag.Divisibility, etching.divisibility);
+    field(Tag.Spacers, etching.spacers);
+    field(Tag.Symbol, etching.symbol === undefined ? undefined : etching.symbol.codePointAt(0));
+    field(Tag.Premine, etching.premine);
+    if (etching.terms) {
+      field(Tag.Amount, etching.terms.amount);
+      field(Tag.Cap, etching.terms.cap);
+      field(Tag.HeightStart, etching.terms.heightStart);
+      field(Tag.HeightEnd, etching.terms.heightEnd);
+      field(Tag.OffsetStart, etching.terms.offsetStart);
+      field(Tag.OffsetEnd, etching.terms.offsetEnd);
+    }
+  }
+
+  if (runestone.mint) {
+    field(Tag.Mint, runestone.mint.block);
+    field(Tag.Mint, runestone.mint.tx);
+  }
+  field(Tag.Pointer, runestone.pointer);
+
+  if (runestone.edicts.length > 0) {
+    payload.push(...encodeVarint(BigInt(Tag.Body)));
+    const edicts = [...runestone.edicts].sort((a, b) =>
+      a.id.block === b.id.block ? a.id.tx - b.id.tx : a.id.block < b.id.block ? -1 : 1
+    );
+    let previous: RuneId = { block: 0n, tx: 0 };
+    for (const edict of edicts) {
+      const blockDelta = edict.id.block - previous.block;
+      const txDelta = blockDelta === 0n ? edict.id.tx - previous.tx : edict.id.tx;
+      payload.push(
+        ...encodeVarint(blockDelta),
+        ...encodeVarint(BigInt(txDelta)),
+        ...encodeVarint(edict.amount),
+        ...encodeVarint(BigInt(edict.output))
+      );
+      previous = edict.id;
+    }
+  }
+
+  const script: number[] = [OP_RETURN, OP_13];
+  for (let i = 0; i < payload.length; i += MAX_SCRIPT_ELEMENT_SIZE) {
+    const chunk = payload.slice(i, i + MAX_SCRIPT_ELEMENT_SIZE);
+    if (chunk.length <= 75) script.push(chunk.length);
+    else if (chunk.length <= 0xff) script.push(OP_PUSHDATA1, chunk.length);
+    else script.push(OP_PUSHDATA2, chunk.length & 0xff, chunk.length >> 8);
+    script.push(...chunk);
+  }
+  return new Uint8Array(script);
+}
+
+/**
+ * Replays how a transaction moves runes from its inputs to its outputs: mints, premine,
+ * edicts, the pointer/default output and burns (OP_RETURN outputs and cenotaphs).
+ * Etching names are not checked against the minimum length or the commitment, which
+ * need chain data; reserved names are rejected.
+ */
+export function applyRunestone(
+  transaction: RawTransaction | string,
+  inputBalances: RuneBalances[],
+  options: RuneTransferOptions = {}
+): RuneTransferResult {
+  const tx = typeof transaction === 'string' ? parseTransaction(transaction) : transaction;
+  const artifact = decipherRunestone(tx);
+  const unallocated: RuneBalances = {};
+  const allocated: Record<number, RuneBalances> = {};
+  const result: RuneTransferResult = { artifact, outputs: {}, burned: {} };
+
+  for (const balances of inputBalances) {
+    for (const [id, amount] of Object.entries(balances)) addTo(unallocated, id, amount);
+  }
+
+  const allocate = (id: string, amount: bigint, output: number) => {
+    if (amount <= 0n) return;
+    unallocated[id] -= amount;
+    allocated[output] = allocated[output] ?? {};
+    addTo(allocated[output], id, amount);
+  };
+
+  if (artifact?.mint) {
+    const id = formatRuneId(artifact.mint);
+    const amount = options.mintAmount?.(id) ?? null;
+    if (amount !== null && amount > 0n) {
+      addTo(unallocated, id, amount);
+      result.minted = { id, amount };
+    }
+  }
+
+  const etchedId = options.block !== undefined && options.txIndex !== undefined
+    ? { block: BigInt(options.block), tx: options.txIndex }
+    : null;
+
+  if (artifact?.type === 'runestone') {
+    const etching = artifact.etching;
+    if (etching && etchedId) {
+      const rune = etching.rune ?? reservedRune(etchedId.block, etchedId.tx);
+      if (etching.rune === undefined || !isReservedRune(etching.rune)) {
+        const premine = etching.premine ?? 0n;
+        result.etched = { id: formatRuneId(etchedId), rune, premine };
+        addTo(unallocated, result.etched.id, premine);
+      }
+    }
+
+    const destinations = tx.outputs
+      .map((output, vout) => ({ output, vout }))
+      .filter(({ output }) => !isOpReturn(output.scriptPubKey))
+      .map(({ vout }) => vout);
+
+    for (const edict of artifact.edicts) {
+      const id = edict.id.block === 0n && edict.id.tx === 0 ? result.etched?.id : formatRuneId(edict.id);
+      if (!id || !unallocated[id]) continue;
+
+      if (edict.output === tx.outputs.length) {
+        if (destinations.length === 0) continue;
+        if (edict.amount === 0n) {
+          const count = BigInt(destinations.length);
+          const share = unallocated[id] / count;
+          const remainder = unallocated[id] % count;
+          destinations.forEach((vout, i) => allocate(id, BigInt(i) < remainder ? share + 1n : share, vout));
+        } else {
+          destinations.forEach(vout => allocate(id, min(edict.amount, unallocated[id]), vout));
+        }
+      } else {
+        allocate(id, edict.amount === 0n ? unallocated[id] : min(edict.amount, unallocated[id]), edict.output);
+      }
+    }
+  } else if (artifact?.type === 'cenotaph' && artifact.etching !== undefined && etchedId) {
+    result.etched = { id: formatRuneId(etchedId), rune: artifact.etching, premine: 0n };
+  }
+
+  if (artifact?.type === 'cenotaph') {
+    for (const [id, amount] of Object.entries(unallocated)) addTo(result.burned, id, amount);
+  } else {
+    const pointer = artifact?.type === 'runestone' ? artifact.pointer : undefined;
+    const firstSpendable = tx.outputs.findIndex(output => !isOpReturn(output.scriptPubKey));
+    const vout = pointer ?? (firstSpendable >= 0 ? firstSpendable : undefined);
+
+    for (const [id, amount] of Object.entries(unallocated)) {
+      if (vout === undefined) addTo(result.burned, id, amount);
+      else allocate(id, amount, vout);
+    }
+  }
+
+  for (const [vout, balances] of Object.entries(allocated)) {
+    const nonZero = Object.entries(balances).filter(([, amount]) => amount > 0n);
+    if (nonZero.length === 0) continue;
+    if (isOpReturn(tx.outputs[Number(vout)].scriptPubKey)) {
+      nonZero.forEach(([id, amount]) => addTo(result.burned, id, amount));
+    } else {
+      result.outputs[Number(vout)] = Object.fromEntries(nonZero);
+    }
+  }
+  return result;
+}
+
+/**
+ * Compares locally replayed output balances with an indexer's view of the same transaction.
+ * Entries located by address are checked against the sum of that address's outputs.
+ */
+export function crossCheckRuneTransfer(
+  transaction: RawTransaction,
+  result: RuneTransferResult,
+  reported: IndexedRuneOutput[],
+  network: BitcoinNetwork = 'mainnet'
+): { matches: boolean; discrepancies: RuneTransferDiscrepancy[] } {
+  const expected = new Map<string, bigint>();
+  const actual = new Map<string, bigint>();
+  const byAddress = reported.some(entry => entry.vout === undefined && entry.address);
+  const add = (map: Map<string, bigint>, key: string, amount: bigint) => map.set(key, (map.get(key) ?? 0n) + amount);
+
+  for (const [vout, balances] of Object.entries(result.outputs)) {
+    let location = `vout:${vout}`;
+    if (byAddress) {
+      try {
+        location = addressValidator.scriptPubKeyToAddress(transaction.outputs[Number(vout)].scriptPubKey, network);
+      } catch {
+        // Non-standard script: only addressable by vout
+      }
+    }
+    for (const [id, amount] of Object.entries(balances)) add(expected, `${location}|${id}`, amount);
+  }
+
+  for (const entry of reported) {
+    const location = entry.vout !== undefined ? `vout:${entry.vout}` : entry.address;
+    if (!location) throw new Error('Indexed rune output needs a vout or an address');
+    add(actual, `${location}|${entry.runeId}`, BigInt(entry.amount));
+  }
+
+  const discrepancies: RuneTransferDiscrepancy[] = [];
+  for (const key of new Set([...expected.keys(), ...actual.keys()])) {
+    const want = expected.get(key) ?? 0n;
+    const got = actual.get(key) ?? 0n;
+    if (want !== got) {
+      const [location, runeId] = key.split('|');
+      discrepancies.push({ location, runeId, expected: want, reported: got });
+    }
+  }
+
+  return { matches: discrepancies.length === 0, discrepancies };
+}
+
+// Premine + cap * amount, or null when it overflows u128
+export function etchingSupply(etching: Etching): bigint | null {
+  const premine = etching.premine ?? 0n;
+  const mintable = (etching.terms?.cap ?? 0n) * (etching.terms?.amount ?? 0n);
+  if (mintable > U128_MAX) return null;
+  const supply = premine + mintable;
+  return supply > U128_MAX ? null : supply;
+}
+
+function findPayload(tx: RawTransaction): { bytes: Uint8Array } | { flaw: CenotaphFlaw } | null {
+  for (const output of tx.outputs) {
+    const script = hexToBytes(output.scriptPubKey);
+    if (script[0] !== OP_RETURN || script[1] !== OP_13) continue;
+
+    // Only data pushes may follow; their contents are concatenated
+    const chunks: Uint8Array[] = [];
+    let i = 2;
+    while (i < script.length) {
+      const opcode = script[i++];
+      let length: number;
+      if (opcode <= 75) {
+        length = opcode;
+      } else if (opcode === OP_PUSHDATA1 || opcode === OP_PUSHDATA2 || opcode === OP_PUSHDATA4) {
+        const size = opcode === OP_PUSHDATA1 ? 1 : opcode === OP_PUSHDATA2 ? 2 : 4;
+        if (i + size > script.length) return { flaw: 'invalid_script' };
+        length = script.slice(i, i + size).reduceRight((value, byte) => value * 256 + byte, 0);
+        i += size;
+      } else {
+        return { flaw: 'opcode' };
+      }
+      if (i + length > script.length) return { flaw: 'invalid_script' };
+      chunks.push(script.slice(i, i + length));
+      i += length;
+    }
+
+    const bytes = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return { bytes };
+  }
+  return null;
+}
+
+function decodeIntegers(payload: Uint8Array): bigint[] {
+  const integers: bigint[] = [];
+  let offset = 0;
+  while (offset < payload.length) {
+    const [value, length] = decodeVarint(payload, offset);
+    integers.push(value);
+    offset += length;
+  }
+  return integers;
+}
+
+function parseMessage(integers: bigint[], outputCount: number) {
+  const fields = new Map<bigint, bigint[]>();
+  const edicts: Edict[] = [];
+  const flaws: CenotaphFlaw[] = [];
+
+  for (let i = 0; i < integers.length; i += 2) {
+    const tag = integers[i];
+
+    if (tag === BigInt(Tag.Body)) {
+      let id: RuneId = { block: 0n, tx: 0 };
+      for (let j = i + 1; j < integers.length; j += 4) {
+        if (j + 4 > integers.length) {
+          flaws.push('trailing_integers');
+          break;
+        }
+        const [blockDelta, txDelta, amount, output] = integers.slice(j, j + 4);
+        const next = nextRuneId(id, blockDelta, txDelta);
+        if (!next) {
+          flaws.push('edict_rune_id');
+          break;
+        }
+        if (output > BigInt(outputCount)) {
+          flaws.push('edict_output');
+          break;
+        }
+        edicts.push({ id: next, amount, output: Number(output) });
+        id = next;
+      }
+      break;
+    }
+
+    if (i + 1 >= integers.length) {
+      flaws.push('truncated_field');
+      break;
+    }
+    const values = fields.get(tag) ?? [];
+    values.push(integers[i + 1]);
+    fields.set(tag, values);
+  }
+
+  return { fields, edicts, flaws };
+}
+
+// Removes the first `count` values of a tag when `parse` accepts them; rejected values stay behind
+function take<T>(fields: Map<bigint, bigint[]>, tag: Tag, count: number, parse: (values: bigint[]) => T | null): T | undefined {
+  const values = fields.get(BigInt(tag));
+  if (!values || values.length < count) return undefined;
+  const parsed = parse(values.slice(0, count));
+  if (parsed === null) return undefined;
+
+  values.splice(0, count);
+  if (values.length === 0) fields.delete(BigInt(tag));
+  return parsed;
+}
+
+function nextRuneId(previous: RuneId, blockDelta: bigint, txDelta: bigint): RuneId | null {
+  if (blockDelta > U64_MAX || txDelta > U32_MAX) return null;
+  const block = previous.block + blockDelta;
+  const tx = blockDelta === 0n ? BigInt(previous.tx) + txDelta : txDelta;
+  if (block > U64_MAX || tx > U32_MAX) return null;
+  return newRuneId(block, tx);
+}
+
+function newRuneId(block: bigint, tx: bigint): RuneId | null {
+  if (block > U64_MAX || tx > U32_MAX) return null;
+  if (block === 0n && tx > 0n) return null;
+  return { block, tx: Number(tx) };
+}
+
+function toChar(value: bigint): string | null {
+  if (value > 0x10ffffn || (value >= 0xd800n && value <= 0xdfffn)) return null;
+  return String.fromCodePoint(Number(value));
+}
+
+function isOpReturn(scriptPubKey: string): boolean {
+  return scriptPubKey.slice(0, 2).toLowerCase() === '6a';
+}
+
+function addTo(balances: RuneBalances, id: string, amount: bigint): void {
+  balances[id] = (balances[id] ?? 0n) + amount;
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
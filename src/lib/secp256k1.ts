@@ -0,0 +1,70 @@
+/**
+ * secp256k1 Public Key Arithmetic
+ * Public key validation and tweaking (tweak·G added to a key) for BIP32 public derivation and
+ * BIP341 taproot tweaks, on top of ethers' SigningKey. Only public data goes through here
+ * (no private keys, no signing)
+ */
+
+import { SigningKey, getBytes } from 'ethers';
+import { concatBytes, sha256 } from '@/lib/addressValidation';
+
+export const CURVE_ORDER = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+
+/**
+ * Checks a compressed (33 bytes), uncompressed (65 bytes) or x-only (32 bytes, even y) key is on
+ * the curve and returns it compressed
+ */
+export function validatePublicKey(bytes: Uint8Array): Uint8Array {
+  const encoded = bytes.length === 32 ? Uint8Array.from([0x02, ...bytes]) : bytes;
+  if (!(encoded.length === 33 && (encoded[0] === 0x02 || encoded[0] === 0x03))
+    && !(encoded.length === 65 && encoded[0] === 0x04)) {
+    throw new Error(`Invalid public key encoding (${bytes.length} bytes)`);
+  }
+  try {
+    return getBytes(SigningKey.computePublicKey(encoded, true));
+  } catch {
+    throw new Error('Public key is not on the curve');
+  }
+}
+
+/**
+ * publicKey + tweak·G, compressed; null when the tweak is not below the curve order or the sum is
+ * the point at infinity
+ */
+export function tweakPublicKey(publicKey: Uint8Array, tweak: Uint8Array): Uint8Array | null {
+  const scalar = bytesToBigInt(tweak);
+  if (scalar >= CURVE_ORDER) return null;
+  if (scalar === 0n) return validatePublicKey(publicKey);
+  try {
+    // computePublicKey treats 32 bytes as a private key, i.e. returns tweak·G
+    return getBytes(SigningKey.addPoints(publicKey, SigningKey.computePublicKey(tweak, true), true));
+  } catch {
+    return null;
+  }
+}
+
+export function taggedHash(tag: string, ...data: Uint8Array[]): Uint8Array {
+  const tagHash = sha256(new TextEncoder().encode(tag));
+  return sha256(concatBytes(tagHash, tagHash, ...data));
+}
+
+/**
+ * BIP341 output key for an x-only internal key and optional script tree merkle root.
+ * parity is the y parity of the output key, needed in script path control blocks
+ */
+export function tweakTaprootKey(
+  internalKey: Uint8Array,
+  merkleRoot?: Uint8Array
+): { outputKey: Uint8Array; parity: 0 | 1 } {
+  if (internalKey.length !== 32) throw new Error('Taproot internal key must be 32 bytes (x-only)');
+  const tweak = taggedHash('TapTweak', internalKey, ...(merkleRoot ? [merkleRoot] : []));
+  if (bytesToBigInt(tweak) >= CURVE_ORDER) throw new Error('Taproot tweak out of range');
+
+  const output = tweakPublicKey(validatePublicKey(internalKey), tweak);
+  if (!output) throw new Error('Taproot tweak produced the point at infinity');
+  return { outputKey: output.slice(1), parity: output[0] === 0x02 ? 0 : 1 };
+}
+
+export function bytesToBigInt(bytes: Uint8Array): bigint {
+  return bytes.reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+}
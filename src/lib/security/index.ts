@@ -33,7 +33,9 @@ export {
   AddressValidator,
   addressValidator,
   AddressType,
-  type AddressValidationResult
+  type AddressValidationResult,
+  type BitcoinNetwork,
+  type DecodedAddress
 } from '../addressValidation';
 
 export {
@@ -34,7 +34,8 @@ export enum SecurityEventType {
   INSECURE_CONNECTION_BLOCKED = 'INSECURE_CONNECTION_BLOCKED',
   UNAUTHORIZED_ACCESS_ATTEMPT = 'UNAUTHORIZED_ACCESS_ATTEMPT',
   SESSION_EXPIRED = 'SESSION_EXPIRED',
-  PERMISSION_DENIED = 'PERMISSION_DENIED'
+  PERMISSION_DENIED = 'PERMISSION_DENIED',
+  MULTISIG_VAULT_CREATED = 'MULTISIG_VAULT_CREATED'
 }
 
 // Security Log Entry
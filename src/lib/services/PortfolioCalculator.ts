@@ -69,6 +69,51 @@ export interface PerformanceMetrics {
 
 export type CostBasisMethod = 'FIFO' | 'LIFO' | 'HIFO' | 'WAC';
 
+export type PnLPeriod = 'month' | 'quarter' | 'year';
+
+// Lot with the cost still attached to its remaining quantity (differs from the pro-rata share under WAC)
+export interface TaxLot extends CostBasisLot {
+  remainingCost: number;
+}
+
+// Part of a sell matched against one lot
+export interface LotDisposal {
+  id: string;
+  lotId: string;
+  sellTransactionId: string;
+  asset: string;
+  quantity: number;
+  acquiredDate: Date;
+  disposedDate: Date;
+  proceeds: number;
+  costBasis: number;
+  realizedPNL: number;
+  holdingPeriodDays: number;
+}
+
+export interface TaxLotLedger {
+  method: CostBasisMethod;
+  lots: TaxLot[];
+  disposals: LotDisposal[];
+  // Sold quantity with no lot to match (transfers in, incomplete history)
+  unmatched: Array<{ transactionId: string; asset: string; quantity: number; proceeds: number }>;
+}
+
+export interface PeriodPnL {
+  period: string; // 2024-03, 2024-Q1 or 2024
+  start: Date;
+  end: Date;
+  proceeds: number;
+  costBasis: number;
+  realizedPNL: number;
+  unrealizedPNL: number; // open lots marked at the end of the period
+  unrealizedChange: number;
+  fees: number;
+}
+
+const LOT_EPSILON = 1e-12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export class PortfolioCalculator {
   private costBasisLots: Map<string, CostBasisLot[]> = new Map();
   private tradeHistory: TradeAnalysis[] = [];
@@ -213,6 +258,157 @@ export class PortfolioCalculator {
     };
   }
 
+  /**
+   * Replay buys and sells into tax lots, matching each sell with the given method.
+   * WAC relieves quantity oldest-first at the pool's average cost.
+   */
+  public buildTaxLots(
+    transactions: Transaction[],
+    method: CostBasisMethod = this.costBasisMethod
+  ): TaxLotLedger {
+    const lotsByAsset = new Map<string, TaxLot[]>();
+    const lots: TaxLot[] = [];
+    const disposals: LotDisposal[] = [];
+    const unmatched: TaxLotLedger['unmatched'] = [];
+
+    const ordered = [...transactions]
+      .filter(tx => tx.status !== 'failed' && (tx.type === 'buy' || tx.type === 'sell'))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    for (const tx of ordered) {
+      if (tx.type === 'buy') {
+        const totalCost = tx.totalValue + tx.feeUSD;
+        const lot: TaxLot = {
+          id: `${tx.id}-lot`,
+          transactionId: tx.id,
+          asset: tx.asset,
+          quantity: tx.amount,
+          price: tx.price,
+          totalCost,
+          date: new Date(tx.timestamp),
+          remaining: tx.amount,
+          isPartiallyRealized: false,
+          remainingCost: totalCost
+        };
+        lots.push(lot);
+        if (!lotsByAsset.has(tx.asset)) lotsByAsset.set(tx.asset, []);
+        lotsByAsset.get(tx.asset)!.push(lot);
+        continue;
+      }
+
+      const pool = (lotsByAsset.get(tx.asset) || []).filter(lot => lot.remaining > LOT_EPSILON);
+      const netProceeds = tx.totalValue - tx.feeUSD;
+      const averageCost = method === 'WAC' ? this.averageLotCost(pool) : 0;
+      let toSell = tx.amount;
+
+      for (const lot of this.orderLotsForSale(pool, method)) {
+        if (toSell <= LOT_EPSILON) break;
+
+        const quantity = Math.min(toSell, lot.remaining);
+        const costBasis = method === 'WAC'
+          ? quantity * averageCost
+          : lot.remainingCost * (quantity / lot.remaining);
+        const proceeds = tx.amount > 0 ? netProceeds * (quantity / tx.amount) : 0;
+
+        lot.remaining -= quantity;
+        lot.remainingCost -= costBasis;
+        if (lot.remaining <= LOT_EPSILON) {
+          lot.remaining = 0;
+          lot.remainingCost = 0;
+        }
+        lot.isPartiallyRealized = lot.remaining > 0;
+        toSell -= quantity;
+
+        disposals.push({
+          id: `${tx.id}-${lot.id}`,
+          lotId: lot.id,
+          sellTransactionId: tx.id,
+          asset: tx.asset,
+          quantity,
+          acquiredDate: lot.date,
+          disposedDate: new Date(tx.timestamp),
+          proceeds,
+          costBasis,
+          realizedPNL: proceeds - costBasis,
+          holdingPeriodDays: Math.floor((tx.timestamp - lot.date.getTime()) / DAY_MS)
+        });
+      }
+
+      if (method === 'WAC') {
+        // Every unit left in the pool carries the same average cost
+        for (const lot of pool) lot.remainingCost = lot.remaining * averageCost;
+      }
+
+      if (toSell > LOT_EPSILON) {
+        unmatched.push({
+          transactionId: tx.id,
+          asset: tx.asset,
+          quantity: toSell,
+          proceeds: tx.amount > 0 ? netProceeds * (toSell / tx.amount) : 0
+        });
+      }
+    }
+
+    return { method, lots, disposals, unmatched };
+  }
+
+  /**
+   * Realized P&L per calendar period (UTC) and unrealized P&L of the open lots at each period end.
+   * Open lots are marked at the last trade price seen for the asset, or `currentPrices` for the open period.
+   */
+  public calculatePnLByPeriod(
+    transactions: Transaction[],
+    period: PnLPeriod = 'month',
+    currentPrices: Record<string, number> = {},
+    asOf: Date = new Date(),
+    method: CostBasisMethod = this.costBasisMethod
+  ): PeriodPnL[] {
+    const ordered = [...transactions]
+      .filter(tx => tx.status !== 'failed')
+      .sort((a, b) => a.timestamp - b.timestamp);
+    if (ordered.length === 0) return [];
+
+    const ledger = this.buildTaxLots(ordered, method);
+    const results: PeriodPnL[] = [];
+    let previousUnrealized = 0;
+    let start = this.periodStart(new Date(ordered[0].timestamp), period);
+
+    while (start.getTime() <= asOf.getTime()) {
+      const next = this.nextPeriodStart(start, period);
+      const end = new Date(Math.min(next.getTime(), asOf.getTime() + 1) - 1);
+      const inPeriod = (time: number) => time >= start.getTime() && time <= end.getTime();
+
+      const periodDisposals = ledger.disposals.filter(d => inPeriod(d.disposedDate.getTime()));
+      const periodUnmatched = ledger.unmatched.filter(u => {
+        const tx = ordered.find(t => t.id === u.transactionId);
+        return tx !== undefined && inPeriod(tx.timestamp);
+      });
+
+      const proceeds = periodDisposals.reduce((sum, d) => sum + d.proceeds, 0)
+        + periodUnmatched.reduce((sum, u) => sum + u.proceeds, 0);
+      const costBasis = periodDisposals.reduce((sum, d) => sum + d.costBasis, 0);
+
+      const unrealizedPNL = this.unrealizedAt(ordered, end, method, next.getTime() > asOf.getTime() ? currentPrices : {});
+
+      results.push({
+        period: this.periodLabel(start, period),
+        start,
+        end,
+        proceeds,
+        costBasis,
+        realizedPNL: proceeds - costBasis,
+        unrealizedPNL,
+        unrealizedChange: unrealizedPNL - previousUnrealized,
+        fees: ordered.filter(tx => inPeriod(tx.timestamp)).reduce((sum, tx) => sum + tx.feeUSD, 0)
+      });
+
+      previousUnrealized = unrealizedPNL;
+      start = next;
+    }
+
+    return results;
+  }
+
   /**
    * Calculate Time-Weighted Return (TWR)
    */
@@ -452,6 +648,63 @@ export class PortfolioCalculator {
     }
   }
 
+  private orderLotsForSale(lots: TaxLot[], method: CostBasisMethod): TaxLot[] {
+    const byDate = (a: TaxLot, b: TaxLot) => a.date.getTime() - b.date.getTime();
+    switch (method) {
+      case 'LIFO':
+        return [...lots].sort((a, b) => byDate(b, a));
+      case 'HIFO':
+        return [...lots].sort((a, b) => b.remainingCost / b.remaining - a.remainingCost / a.remaining || byDate(a, b));
+      default:
+        return [...lots].sort(byDate);
+    }
+  }
+
+  private averageLotCost(lots: TaxLot[]): number {
+    const quantity = lots.reduce((sum, lot) => sum + lot.remaining, 0);
+    const cost = lots.reduce((sum, lot) => sum + lot.remainingCost, 0);
+    return quantity > 0 ? cost / quantity : 0;
+  }
+
+  private unrealizedAt(
+    ordered: Transaction[],
+    end: Date,
+    method: CostBasisMethod,
+    markPrices: Record<string, number>
+  ): number {
+    const history = ordered.filter(tx => tx.timestamp <= end.getTime());
+    const lastPrice = new Map<string, number>();
+    for (const tx of history) {
+      if (tx.price > 0) lastPrice.set(tx.asset, tx.price);
+    }
+
+    return this.buildTaxLots(history, method).lots
+      .filter(lot => lot.remaining > 0)
+      .reduce((sum, lot) => {
+        const mark = markPrices[lot.asset] ?? lastPrice.get(lot.asset) ?? lot.price;
+        return sum + lot.remaining * mark - lot.remainingCost;
+      }, 0);
+  }
+
+  private periodStart(date: Date, period: PnLPeriod): Date {
+    const month = period === 'month'
+      ? date.getUTCMonth()
+      : period === 'quarter' ? date.getUTCMonth() - (date.getUTCMonth() % 3) : 0;
+    return new Date(Date.UTC(date.getUTCFullYear(), month, 1));
+  }
+
+  private nextPeriodStart(start: Date, period: PnLPeriod): Date {
+    const months = period === 'month' ? 1 : period === 'quarter' ? 3 : 12;
+    return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+  }
+
+  private periodLabel(start: Date, period: PnLPeriod): string {
+    const year = start.getUTCFullYear();
+    if (period === 'year') return `${year}`;
+    if (period === 'quarter') return `${year}-Q${Math.floor(start.getUTCMonth() / 3) + 1}`;
+    return `${year}-${String(start.getUTCMonth() + 1).padStart(2, '0')}`;
+  }
+
   private calculateRealizedPNL(transactions: Transaction[]): { total: number; percentage: number } {
     const sellTransactions = transactions.filter(t => t.type === 'sell');
     let totalRealizedPNL = 0;
@@ -1,28 +1,169 @@
 import { Portfolio, AssetHolding, Transaction } from '@/types/portfolio';
 import { format } from 'date-fns';
+import {
+  PortfolioCalculator,
+  type CostBasisMethod,
+  type PnLPeriod,
+  type PeriodPnL,
+  type TaxLotLedger
+} from './PortfolioCalculator';
+import { createWorkbook, type Sheet, type SheetCell, XLSX_MIME_TYPE } from '@/lib/export/xlsx';
+import { createTextPDF, type PDFLine } from '@/lib/export/pdf';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx' | 'pdf';
+
+export interface ExportOptions {
+  costBasisMethod?: CostBasisMethod; // defaults to the portfolio setting
+  period?: PnLPeriod;
+  currentPrices?: Record<string, number>; // defaults to the holdings' current prices
+  generatedAt?: Date;
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string | Uint8Array;
+}
+
+export const PORTFOLIO_EXPORT_FORMAT = 'cypher-portfolio';
+export const PORTFOLIO_EXPORT_VERSION = 1;
+
+// Canonical, reimportable snapshot. Lots and P&L are derived data kept for auditing;
+// only `portfolio` is needed to restore.
+export interface PortfolioExportDocument {
+  format: typeof PORTFOLIO_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  costBasisMethod: CostBasisMethod;
+  portfolio: Portfolio;
+  taxLots: TaxLotLedger;
+  periodPnL: PeriodPnL[];
+  methodComparison: MethodComparison[];
+}
+
+export interface MethodComparison {
+  method: CostBasisMethod;
+  proceeds: number;
+  costBasis: number;
+  realizedPNL: number;
+  openCostBasis: number;
+}
+
+interface ReportTable {
+  title: string;
+  headers: string[];
+  rows: SheetCell[][];
+}
+
+interface StatementData {
+  method: CostBasisMethod;
+  period: PnLPeriod;
+  generatedAt: Date;
+  ledger: TaxLotLedger;
+  periods: PeriodPnL[];
+  comparison: MethodComparison[];
+}
+
+const COST_BASIS_METHODS: CostBasisMethod[] = ['FIFO', 'LIFO', 'HIFO', 'WAC'];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  xlsx: XLSX_MIME_TYPE,
+  pdf: 'application/pdf'
+};
 
 export class PortfolioExporter {
-  async exportToCSV(portfolio: Portfolio): Promise<void> {
-    const csvData = this.generateCSVData(portfolio);
-    this.downloadFile(csvData, 'portfolio_report.csv', 'text/csv');
+  async exportToCSV(portfolio: Portfolio, options: ExportOptions = {}): Promise<void> {
+    this.download(this.generate(portfolio, 'csv', options));
   }
 
-  async exportToPDF(portfolio: Portfolio): Promise<void> {
-    const htmlContent = this.generateHTMLReport(portfolio);
-    
-    // Convert HTML to PDF using browser's print functionality
-    const printWindow = window.open('', '_blank');
-    if (printWindow) {
-      printWindow.document.write(htmlContent);
-      printWindow.document.close();
-      printWindow.focus();
-      
-      // Add styles and print
-      printWindow.onload = () => {
-        printWindow.print();
-        printWindow.close();
-      };
+  async exportToPDF(portfolio: Portfolio, options: ExportOptions = {}): Promise<void> {
+    this.download(this.generate(portfolio, 'pdf', options));
+  }
+
+  async exportToXLSX(portfolio: Portfolio, options: ExportOptions = {}): Promise<void> {
+    this.download(this.generate(portfolio, 'xlsx', options));
+  }
+
+  async exportToJSON(portfolio: Portfolio, options: ExportOptions = {}): Promise<void> {
+    this.download(this.generate(portfolio, 'json', options));
+  }
+
+  async export(portfolio: Portfolio, exportFormat: ExportFormat, options: ExportOptions = {}): Promise<void> {
+    this.download(this.generate(portfolio, exportFormat, options));
+  }
+
+  /**
+   * Build the export file without touching the DOM
+   */
+  generate(portfolio: Portfolio, exportFormat: ExportFormat, options: ExportOptions = {}): ExportFile {
+    const data = this.buildStatementData(portfolio, options);
+    const stamp = format(data.generatedAt, 'yyyyMMdd');
+    const filename = `portfolio_${stamp}.${exportFormat}`;
+
+    switch (exportFormat) {
+      case 'csv':
+        return { filename, mimeType: MIME_TYPES.csv, content: this.generateCSVData(portfolio, data) };
+      case 'json':
+        return { filename, mimeType: MIME_TYPES.json, content: this.generateCanonicalJSON(portfolio, data) };
+      case 'xlsx':
+        return { filename, mimeType: MIME_TYPES.xlsx, content: createWorkbook(this.generateSheets(portfolio, data)) };
+      case 'pdf':
+        return {
+          filename,
+          mimeType: MIME_TYPES.pdf,
+          content: createTextPDF(this.generateStatementLines(portfolio, data), {
+            title: `Portfolio Statement - ${portfolio.address}`,
+            footer: `CYPHER ORDI FUTURE statement for ${portfolio.address}`
+          })
+        };
+      default:
+        throw new Error(`Unsupported export format: ${exportFormat}`);
+    }
+  }
+
+  /**
+   * Restore a portfolio from a canonical JSON export
+   */
+  importFromJSON(json: string): Portfolio {
+    let document: Partial<PortfolioExportDocument>;
+    try {
+      document = JSON.parse(json);
+    } catch {
+      throw new Error('Portfolio import is not valid JSON');
+    }
+
+    if (!document || document.format !== PORTFOLIO_EXPORT_FORMAT) {
+      throw new Error('Not a portfolio export');
+    }
+    if (typeof document.version !== 'number' || document.version > PORTFOLIO_EXPORT_VERSION) {
+      throw new Error(`Unsupported portfolio export version: ${document.version}`);
+    }
+
+    const portfolio = document.portfolio;
+    if (
+      !portfolio ||
+      typeof portfolio.address !== 'string' ||
+      !Array.isArray(portfolio.holdings) ||
+      !Array.isArray(portfolio.transactions) ||
+      !portfolio.metrics ||
+      !portfolio.settings
+    ) {
+      throw new Error('Portfolio export is missing required fields');
     }
+
+    for (const tx of portfolio.transactions) {
+      if (typeof tx.id !== 'string' || typeof tx.timestamp !== 'number' || typeof tx.amount !== 'number') {
+        throw new Error(`Invalid transaction in portfolio export: ${tx?.id ?? 'unknown'}`);
+      }
+    }
+
+    return {
+      ...portfolio,
+      performanceHistory: portfolio.performanceHistory || [],
+      aiInsights: portfolio.aiInsights || []
+    };
   }
 
   async exportTransactionsCSV(transactions: Transaction[]): Promise<void> {
@@ -52,11 +193,7 @@ export class PortfolioExporter {
       tx.txid
     ]);
 
-    const csvContent = [headers, ...rows]
-      .map(row => row.map(field => `"${field}"`).join(','))
-      .join('\n');
-
-    this.downloadFile(csvContent, 'transactions.csv', 'text/csv');
+    this.downloadFile(this.toCSV([headers, ...rows]), 'transactions.csv', 'text/csv');
   }
 
   async exportHoldingsCSV(holdings: AssetHolding[]): Promise<void> {
@@ -108,18 +245,71 @@ export class PortfolioExporter {
       holding.sharpeRatio.toString()
     ]);
 
-    const csvContent = [headers, ...rows]
-      .map(row => row.map(field => `"${field}"`).join(','))
-      .join('\n');
+    this.downloadFile(this.toCSV([headers, ...rows]), 'holdings.csv', 'text/csv');
+  }
 
-    this.downloadFile(csvContent, 'holdings.csv', 'text/csv');
+  async exportTaxLotsCSV(portfolio: Portfolio, options: ExportOptions = {}): Promise<void> {
+    const data = this.buildStatementData(portfolio, options);
+    const lots = this.taxLotTable(data);
+    const disposals = this.disposalTable(data);
+
+    const content = this.toCSV([
+      [lots.title], lots.headers, ...lots.rows,
+      [],
+      [disposals.title], disposals.headers, ...disposals.rows
+    ]);
+    this.downloadFile(content, `tax_lots_${data.method.toLowerCase()}.csv`, 'text/csv');
   }
 
-  private generateCSVData(portfolio: Portfolio): string {
+  private buildStatementData(portfolio: Portfolio, options: ExportOptions): StatementData {
+    const method = options.costBasisMethod ?? portfolio.settings?.costBasisMethod ?? 'FIFO';
+    const period = options.period ?? 'month';
+    const generatedAt = options.generatedAt ?? new Date();
+    const currentPrices = options.currentPrices ?? Object.fromEntries(
+      portfolio.holdings.map(holding => [holding.asset, holding.currentPrice])
+    );
+
+    const calculator = new PortfolioCalculator(method);
+    const ledger = calculator.buildTaxLots(portfolio.transactions);
+    const periods = calculator.calculatePnLByPeriod(portfolio.transactions, period, currentPrices, generatedAt);
+
+    const comparison = COST_BASIS_METHODS.map(candidate => {
+      const result = candidate === method ? ledger : calculator.buildTaxLots(portfolio.transactions, candidate);
+      const proceeds = result.disposals.reduce((sum, d) => sum + d.proceeds, 0);
+      const costBasis = result.disposals.reduce((sum, d) => sum + d.costBasis, 0);
+      return {
+        method: candidate,
+        proceeds,
+        costBasis,
+        realizedPNL: proceeds - costBasis,
+        openCostBasis: result.lots.reduce((sum, lot) => sum + lot.remainingCost, 0)
+      };
+    });
+
+    return { method, period, generatedAt, ledger, periods, comparison };
+  }
+
+  private generateCanonicalJSON(portfolio: Portfolio, data: StatementData): string {
+    const document: PortfolioExportDocument = {
+      format: PORTFOLIO_EXPORT_FORMAT,
+      version: PORTFOLIO_EXPORT_VERSION,
+      exportedAt: data.generatedAt.toISOString(),
+      costBasisMethod: data.method,
+      portfolio,
+      taxLots: data.ledger,
+      periodPnL: data.periods,
+      methodComparison: data.comparison
+    };
+
+    return JSON.stringify(canonicalize(document), null, 2);
+  }
+
+  private generateCSVData(portfolio: Portfolio, data: StatementData): string {
     const summary = [
       ['Portfolio Summary', ''],
       ['Address', portfolio.address],
       ['Last Updated', portfolio.lastUpdated],
+      ['Cost Basis Method', data.method],
       ['Total Value', portfolio.metrics.totalValue.toString()],
       ['Total Cost', portfolio.metrics.totalCost.toString()],
       ['Total P&L', portfolio.metrics.totalPNL.toString()],
@@ -163,251 +353,169 @@ export class PortfolioExporter {
       p.dayReturnPercentage.toString()
     ]);
 
-    const allData = [...summary, ...holdings, ...performance, ...performanceData];
-    
-    return allData.map(row => row.map(field => `"${field}"`).join(',')).join('\n');
+    const ledgerSections = [this.periodTable(data), this.taxLotTable(data), this.disposalTable(data), this.methodTable(data)]
+      .flatMap(table => [[], [table.title], table.headers, ...table.rows]);
+
+    return this.toCSV([...summary, ...holdings, ...performance, ...performanceData, ...ledgerSections]);
   }
 
-  private generateHTMLReport(portfolio: Portfolio): string {
-    const riskMetrics = this.calculateAdvancedRiskMetrics(portfolio);
-    
-    return `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <title>Portfolio Report - ${portfolio.address}</title>
-  <style>
-    body {
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-      max-width: 800px;
-      margin: 0 auto;
-      padding: 20px;
-      color: #333;
-      line-height: 1.6;
-    }
-    .header {
-      text-align: center;
-      margin-bottom: 40px;
-      padding-bottom: 20px;
-      border-bottom: 2px solid #f97316;
-    }
-    .logo {
-      font-size: 24px;
-      font-weight: bold;
-      color: #f97316;
-      margin-bottom: 10px;
-    }
-    .subtitle {
-      color: #666;
-      font-size: 14px;
-    }
-    .metrics-grid {
-      display: grid;
-      grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
-      gap: 20px;
-      margin-bottom: 30px;
-    }
-    .metric-card {
-      background: #f8f9fa;
-      padding: 15px;
-      border-radius: 8px;
-      border-left: 4px solid #f97316;
-    }
-    .metric-label {
-      font-size: 12px;
-      color: #666;
-      text-transform: uppercase;
-      margin-bottom: 5px;
-    }
-    .metric-value {
-      font-size: 24px;
-      font-weight: bold;
-      color: #333;
-    }
-    .positive { color: #10b981; }
-    .negative { color: #ef4444; }
-    .section {
-      margin-bottom: 40px;
-    }
-    .section-title {
-      font-size: 20px;
-      font-weight: bold;
-      margin-bottom: 20px;
-      color: #333;
-    }
-    table {
-      width: 100%;
-      border-collapse: collapse;
-      margin-bottom: 20px;
-    }
-    th, td {
-      padding: 12px;
-      text-align: left;
-      border-bottom: 1px solid #ddd;
-    }
-    th {
-      background-color: #f8f9fa;
-      font-weight: 600;
-    }
-    .text-right {
-      text-align: right;
-    }
-    .footer {
-      margin-top: 40px;
-      padding-top: 20px;
-      border-top: 1px solid #ddd;
-      text-align: center;
-      color: #666;
-      font-size: 12px;
+  private generateSheets(portfolio: Portfolio, data: StatementData): Sheet[] {
+    const metrics = portfolio.metrics;
+    const summary: Sheet = {
+      name: 'Summary',
+      rows: [
+        ['Address', portfolio.address],
+        ['Generated', data.generatedAt.toISOString()],
+        ['Cost Basis Method', data.method],
+        ['Total Value', metrics.totalValue],
+        ['Total Cost', metrics.totalCost],
+        ['Realized P&L', metrics.realizedPNL],
+        ['Unrealized P&L', metrics.unrealizedPNL],
+        ['Total P&L', metrics.totalPNL],
+        ['Total P&L %', metrics.totalPNLPercentage],
+        ['Total Fees', metrics.totalFees]
+      ]
+    };
+
+    const holdings: ReportTable = {
+      title: 'Holdings',
+      headers: ['Asset', 'Type', 'Amount', 'Avg Buy Price', 'Current Price', 'Total Cost', 'Current Value', 'Unrealized P&L', 'Realized P&L'],
+      rows: portfolio.holdings.map(h => [
+        h.asset, h.assetType, h.totalAmount, h.averageBuyPrice, h.currentPrice,
+        h.totalCost, h.currentValue, h.unrealizedPNL, h.realizedPNL
+      ])
+    };
+
+    const transactions: ReportTable = {
+      title: 'Transactions',
+      headers: ['Date', 'Type', 'Asset', 'Amount', 'Price', 'Total Value', 'Fee (USD)', 'Status', 'Transaction ID'],
+      rows: [...portfolio.transactions]
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map(tx => [
+          new Date(tx.timestamp).toISOString(), tx.type, tx.asset, tx.amount, tx.price,
+          tx.totalValue, tx.feeUSD, tx.status, tx.txid
+        ])
+    };
+
+    const tables = [holdings, transactions, this.taxLotTable(data), this.disposalTable(data), this.periodTable(data), this.methodTable(data)];
+    return [summary, ...tables.map(table => ({ name: table.title, rows: [table.headers, ...table.rows] }))];
+  }
+
+  private generateStatementLines(portfolio: Portfolio, data: StatementData): PDFLine[] {
+    const metrics = portfolio.metrics;
+    const risk = this.calculateAdvancedRiskMetrics(portfolio);
+    const lines: PDFLine[] = [
+      { text: 'CYPHER ORDI FUTURE', font: 'bold', size: 18 },
+      { text: 'Portfolio Statement', font: 'bold', size: 14 },
+      { text: `Address: ${portfolio.address}`, size: 9, spaceBefore: 6 },
+      { text: `Generated: ${format(data.generatedAt, 'MMMM dd, yyyy HH:mm:ss')}`, size: 9 },
+      { text: `Cost basis method: ${data.method}`, size: 9 },
+      { text: 'Overview', font: 'bold', size: 12, spaceBefore: 12 },
+      { text: `Total value ${money(metrics.totalValue)}   Total cost ${money(metrics.totalCost)}`, size: 10 },
+      { text: `Realized P&L ${signedMoney(metrics.realizedPNL)}   Unrealized P&L ${signedMoney(metrics.unrealizedPNL)}   Total ${signedMoney(metrics.totalPNL)} (${metrics.totalPNLPercentage.toFixed(2)}%)`, size: 10 },
+      { text: `Sharpe ${risk.sharpeRatio}   Sortino ${risk.sortinoRatio}   Max drawdown ${risk.maxDrawdown}%   VaR (95%) ${risk.valueAtRisk}%`, size: 10 }
+    ];
+
+    const holdings: ReportTable = {
+      title: 'Holdings',
+      headers: ['Asset', 'Amount', 'Avg Cost', 'Price', 'Value', 'Unrealized'],
+      rows: portfolio.holdings.map(h => [h.asset, h.totalAmount, h.averageBuyPrice, h.currentPrice, h.currentValue, h.unrealizedPNL])
+    };
+
+    const openLots = this.taxLotTable(data);
+    openLots.rows = openLots.rows.filter(row => Number(row[6]) > 0);
+    openLots.title = 'Open Tax Lots';
+
+    const recent: ReportTable = {
+      title: 'Recent Transactions',
+      headers: ['Date', 'Type', 'Asset', 'Amount', 'Price', 'Total'],
+      rows: [...portfolio.transactions]
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .slice(-20)
+        .map(tx => [format(new Date(tx.timestamp), 'yyyy-MM-dd'), tx.type.toUpperCase(), tx.asset, tx.amount, tx.price, tx.totalValue])
+    };
+
+    for (const table of [holdings, this.periodTable(data), openLots, this.disposalTable(data), this.methodTable(data), recent]) {
+      lines.push({ text: table.title, font: 'bold', size: 12, spaceBefore: 12 });
+      lines.push(...this.textTable(table).map((text, i) => ({ text, font: 'mono' as const, size: 7, spaceBefore: i === 1 ? 2 : 0 })));
     }
-    @media print {
-      body { margin: 0; }
-      .header { page-break-after: avoid; }
-      .section { page-break-inside: avoid; }
+
+    lines.push({
+      text: 'This statement is for informational purposes only and does not constitute financial or tax advice. '
+        + 'Cost basis is computed from the transactions recorded in this portfolio; transfers in without a purchase have no basis.',
+      size: 8,
+      spaceBefore: 16
+    });
+
+    return lines;
+  }
+
+  private taxLotTable(data: StatementData): ReportTable {
+    return {
+      title: `Tax Lots (${data.method})`,
+      headers: ['Lot', 'Asset', 'Acquired', 'Quantity', 'Unit Price', 'Cost Basis', 'Remaining', 'Remaining Cost'],
+      rows: data.ledger.lots.map(lot => [
+        lot.id, lot.asset, lot.date.toISOString().slice(0, 10), lot.quantity, lot.price,
+        round(lot.totalCost), lot.remaining, round(lot.remainingCost)
+      ])
+    };
+  }
+
+  private disposalTable(data: StatementData): ReportTable {
+    const rows: SheetCell[][] = data.ledger.disposals.map(d => [
+      d.lotId, d.asset, d.acquiredDate.toISOString().slice(0, 10), d.disposedDate.toISOString().slice(0, 10),
+      d.quantity, round(d.proceeds), round(d.costBasis), round(d.realizedPNL), d.holdingPeriodDays > 365 ? 'long' : 'short'
+    ]);
+    for (const u of data.ledger.unmatched) {
+      rows.push(['(no lot)', u.asset, '', '', u.quantity, round(u.proceeds), 0, round(u.proceeds), 'unknown']);
     }
-  </style>
-</head>
-<body>
-  <div class="header">
-    <div class="logo">CYPHER ORDI FUTURE</div>
-    <h1>Professional Portfolio Report</h1>
-    <div class="subtitle">
-      Address: ${portfolio.address}<br>
-      Generated: ${format(new Date(), 'MMMM dd, yyyy HH:mm:ss')}
-    </div>
-  </div>
-
-  <div class="section">
-    <h2 class="section-title">Portfolio Overview</h2>
-    <div class="metrics-grid">
-      <div class="metric-card">
-        <div class="metric-label">Total Value</div>
-        <div class="metric-value">$${portfolio.metrics.totalValue.toLocaleString()}</div>
-      </div>
-      <div class="metric-card">
-        <div class="metric-label">Total P&L</div>
-        <div class="metric-value ${portfolio.metrics.totalPNL >= 0 ? 'positive' : 'negative'}">
-          ${portfolio.metrics.totalPNL >= 0 ? '+' : ''}$${portfolio.metrics.totalPNL.toFixed(2)}
-        </div>
-      </div>
-      <div class="metric-card">
-        <div class="metric-label">Return %</div>
-        <div class="metric-value ${portfolio.metrics.totalPNLPercentage >= 0 ? 'positive' : 'negative'}">
-          ${portfolio.metrics.totalPNLPercentage >= 0 ? '+' : ''}${portfolio.metrics.totalPNLPercentage.toFixed(2)}%
-        </div>
-      </div>
-      <div class="metric-card">
-        <div class="metric-label">Win Rate</div>
-        <div class="metric-value">${portfolio.metrics.winRate.toFixed(1)}%</div>
-      </div>
-    </div>
-  </div>
-
-  <div class="section">
-    <h2 class="section-title">Risk Metrics</h2>
-    <div class="metrics-grid">
-      <div class="metric-card">
-        <div class="metric-label">Sharpe Ratio</div>
-        <div class="metric-value">${riskMetrics.sharpeRatio}</div>
-      </div>
-      <div class="metric-card">
-        <div class="metric-label">Sortino Ratio</div>
-        <div class="metric-value">${riskMetrics.sortinoRatio}</div>
-      </div>
-      <div class="metric-card">
-        <div class="metric-label">Max Drawdown</div>
-        <div class="metric-value negative">-${riskMetrics.maxDrawdown}%</div>
-      </div>
-      <div class="metric-card">
-        <div class="metric-label">VaR (95%)</div>
-        <div class="metric-value">${riskMetrics.valueAtRisk}%</div>
-      </div>
-    </div>
-  </div>
-
-  <div class="section">
-    <h2 class="section-title">Holdings</h2>
-    <table>
-      <thead>
-        <tr>
-          <th>Asset</th>
-          <th class="text-right">Amount</th>
-          <th class="text-right">Avg Buy Price</th>
-          <th class="text-right">Current Price</th>
-          <th class="text-right">Value</th>
-          <th class="text-right">P&L</th>
-          <th class="text-right">% of Portfolio</th>
-        </tr>
-      </thead>
-      <tbody>
-        ${portfolio.holdings.map(holding => `
-          <tr>
-            <td>${holding.asset}</td>
-            <td class="text-right">${holding.totalAmount.toFixed(8)}</td>
-            <td class="text-right">$${holding.averageBuyPrice.toLocaleString()}</td>
-            <td class="text-right">$${holding.currentPrice.toLocaleString()}</td>
-            <td class="text-right">$${holding.currentValue.toLocaleString()}</td>
-            <td class="text-right ${holding.totalPNL >= 0 ? 'positive' : 'negative'}">
-              ${holding.totalPNL >= 0 ? '+' : ''}$${holding.totalPNL.toFixed(2)}
-              (${holding.totalPNLPercentage.toFixed(2)}%)
-            </td>
-            <td class="text-right">${((holding.currentValue / portfolio.metrics.totalValue) * 100).toFixed(1)}%</td>
-          </tr>
-        `).join('')}
-      </tbody>
-    </table>
-  </div>
-
-  <div class="section">
-    <h2 class="section-title">Recent Transactions</h2>
-    <table>
-      <thead>
-        <tr>
-          <th>Date</th>
-          <th>Type</th>
-          <th>Asset</th>
-          <th class="text-right">Amount</th>
-          <th class="text-right">Price</th>
-          <th class="text-right">Total Value</th>
-        </tr>
-      </thead>
-      <tbody>
-        ${portfolio.transactions.slice(-10).map(tx => `
-          <tr>
-            <td>${format(new Date(tx.date), 'MMM dd, yyyy')}</td>
-            <td>${tx.type.toUpperCase()}</td>
-            <td>${tx.asset}</td>
-            <td class="text-right">${tx.amount?.toFixed(8) || 'N/A'}</td>
-            <td class="text-right">$${tx.price?.toLocaleString() || 'N/A'}</td>
-            <td class="text-right">$${tx.totalValue?.toLocaleString() || 'N/A'}</td>
-          </tr>
-        `).join('')}
-      </tbody>
-    </table>
-  </div>
-
-  <div class="section">
-    <h2 class="section-title">AI Insights</h2>
-    ${portfolio.aiInsights.slice(0, 5).map(insight => `
-      <div class="metric-card" style="margin-bottom: 15px;">
-        <div class="metric-label">${insight.type.toUpperCase()} - Confidence: ${insight.confidence}%</div>
-        <div style="font-weight: bold; margin-bottom: 5px;">${insight.title}</div>
-        <div style="font-size: 14px; color: #666;">${insight.description}</div>
-      </div>
-    `).join('')}
-  </div>
-
-  <div class="footer">
-    <p>This report was generated by CYPHER ORDI FUTURE Professional Analytics</p>
-    <p>Report generated on ${format(new Date(), 'MMMM dd, yyyy')} at ${format(new Date(), 'HH:mm:ss')}</p>
-    <p style="font-size: 10px; margin-top: 10px;">
-      This report is for informational purposes only and does not constitute financial advice.
-      Past performance does not guarantee future results. Cryptocurrency investments carry significant risk.
-    </p>
-  </div>
-</body>
-</html>`;
+
+    return {
+      title: 'Disposals',
+      headers: ['Lot', 'Asset', 'Acquired', 'Sold', 'Quantity', 'Proceeds', 'Cost Basis', 'Gain/Loss', 'Term'],
+      rows
+    };
+  }
+
+  private periodTable(data: StatementData): ReportTable {
+    return {
+      title: `P&L by ${data.period}`,
+      headers: ['Period', 'Proceeds', 'Cost Basis', 'Realized P&L', 'Unrealized P&L', 'Unrealized Change', 'Fees'],
+      rows: data.periods.map(p => [
+        p.period, round(p.proceeds), round(p.costBasis), round(p.realizedPNL),
+        round(p.unrealizedPNL), round(p.unrealizedChange), round(p.fees)
+      ])
+    };
+  }
+
+  private methodTable(data: StatementData): ReportTable {
+    return {
+      title: 'Cost Basis Methods',
+      headers: ['Method', 'Proceeds', 'Cost Basis', 'Realized P&L', 'Open Cost Basis'],
+      rows: data.comparison.map(c => [c.method, round(c.proceeds), round(c.costBasis), round(c.realizedPNL), round(c.openCostBasis)])
+    };
+  }
+
+  // Fixed-width table for the monospace PDF font; first column left-aligned, the rest right-aligned
+  private textTable(table: ReportTable): string[] {
+    const cells = [table.headers, ...table.rows].map(row => row.map(cell =>
+      typeof cell === 'number' ? formatNumber(cell) : cell ?? ''
+    ));
+    const widths = table.headers.map((_, c) => Math.min(24, Math.max(...cells.map(row => String(row[c] ?? '').length))));
+
+    const render = (row: SheetCell[]) => row.map((cell, c) => {
+      const text = String(cell ?? '').slice(0, widths[c]);
+      return c === 0 ? text.padEnd(widths[c]) : text.padStart(widths[c]);
+    }).join('  ');
+
+    const lines = [render(cells[0]), widths.map(w => '-'.repeat(w)).join('  '), ...cells.slice(1).map(render)];
+    return cells.length > 1 ? lines : [...lines, '(none)'];
+  }
+
+  private toCSV(rows: SheetCell[][]): string {
+    return rows
+      .map(row => row.map(field => `"${String(field ?? '').replace(/"/g, '""')}"`).join(','))
+      .join('\n');
   }
 
   private calculateAdvancedRiskMetrics(portfolio: Portfolio): any {
@@ -465,17 +573,58 @@ export class PortfolioExporter {
     };
   }
 
-  private downloadFile(content: string, filename: string, mimeType: string): void {
-    const blob = new Blob([content], { type: mimeType });
+  private download(file: ExportFile): void {
+    this.downloadFile(file.content, file.filename, file.mimeType);
+  }
+
+  private downloadFile(content: string | Uint8Array, filename: string, mimeType: string): void {
+    const blob = new Blob([content as BlobPart], { type: mimeType });
     const url = URL.createObjectURL(blob);
-    
+
     const link = document.createElement('a');
     link.href = url;
     link.download = filename;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
-    
+
     URL.revokeObjectURL(url);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Sorted keys, ISO dates and no non-finite numbers, so equal portfolios serialize identically
+ */
+export function canonicalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    if (value instanceof Map) return canonicalize(Object.fromEntries(value));
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((result, key) => {
+        const entry = (value as Record<string, unknown>)[key];
+        if (entry !== undefined) result[key] = canonicalize(entry);
+        return result;
+      }, {});
+  }
+  return value;
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? value.toString() : Math.abs(value) >= 1 ? value.toFixed(2) : value.toFixed(8);
+}
+
+function money(value: number): string {
+  return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function signedMoney(value: number): string {
+  return `${value >= 0 ? '+' : '-'}${money(Math.abs(value))}`;
+}
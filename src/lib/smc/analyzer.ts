@@ -1,44 +1,365 @@
-// SMC Analysis Engine - Simplified
+// SMC Analysis Engine
 
-import { OrderBlock, SMCAnalysisResult } from './types'
+import type {
+  BreakOfStructure,
+  FairValueGap,
+  LiquidityPool,
+  LiquiditySweep,
+  OrderBlock,
+  PremiumDiscountZones,
+  SMCAnalysisResult,
+  SMCAnalyzerOptions,
+  SMCCandle,
+  SwingPoint
+} from './types'
+
+const DEFAULT_OPTIONS: SMCAnalyzerOptions = {
+  swingLength: 2,
+  equalLevelTolerance: 0.1,
+  minGapPercent: 0
+}
+
+// Faixa ao redor do equilíbrio (em fração do range) considerada neutra
+const EQUILIBRIUM_BAND = 0.025
+
+type Trend = 'bullish' | 'bearish' | 'neutral'
+
+interface StructureScan {
+  breaks: BreakOfStructure[]
+  orderBlocks: Array<OrderBlock & { index: number }>
+  sweeps: LiquiditySweep[]
+  trend: Trend
+  unbrokenHighs: SwingPoint[]
+  unbrokenLows: SwingPoint[]
+}
 
 export class SMCAnalyzer {
-  analyze(priceData: number[]): SMCAnalysisResult {
-    const blocks: OrderBlock[] = []
-    
-    // Simple order block detection
-    for (let i = 1; i < priceData.length - 1; i++) {
-      const current = priceData[i]
-      const next = priceData[i + 1]
-      
-      // Detect significant moves
-      if (Math.abs(next - current) / current > 0.01) {
-        blocks.push({
-          type: next > current ? 'bullish' : 'bearish',
-          high: Math.max(current, next),
-          low: Math.min(current, next),
-          timestamp: new Date(),
-          strength: Math.min(Math.abs(next - current) / current * 1000, 100),
-          tested: false
-        })
-      }
-    }
-    
-    // Determine trend
-    const recent = priceData.slice(-10)
-    const trend = recent[recent.length - 1] > recent[0] ? 'bullish' : 'bearish'
-    
+  private options: SMCAnalyzerOptions
+
+  constructor(options: Partial<SMCAnalyzerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  analyze(candles: SMCCandle[]): SMCAnalysisResult {
+    const times = candles.map(c => c.timestamp instanceof Date ? c.timestamp : new Date(c.timestamp))
+
+    const swingPoints = this.detectSwings(candles, times)
+    const structure = this.scanStructure(candles, times, swingPoints)
+    const orderBlocks = this.trackMitigation(candles, times, structure.orderBlocks)
+    const fairValueGaps = this.detectFairValueGaps(candles, times)
+    const liquidityPools = this.detectLiquidityPools(candles, times, swingPoints)
+
+    const lastClose = candles.length > 0 ? candles[candles.length - 1].close : 0
+    const untested = orderBlocks.filter(b => !b.tested)
+
     return {
-      orderBlocks: blocks.slice(-5),
-      fairValueGaps: [],
-      breakOfStructure: [],
-      currentTrend: trend,
+      swingPoints,
+      orderBlocks,
+      fairValueGaps,
+      breakOfStructure: structure.breaks,
+      liquidityPools,
+      liquiditySweeps: structure.sweeps,
+      premiumDiscount: this.premiumDiscount(swingPoints, lastClose),
+      currentTrend: structure.trend,
       keyLevels: {
-        support: blocks.filter(b => b.type === 'bullish').map(b => b.low),
-        resistance: blocks.filter(b => b.type === 'bearish').map(b => b.high)
+        support: uniqueSorted([
+          ...structure.unbrokenLows.map(s => s.price),
+          ...untested.filter(b => b.type === 'bullish').map(b => b.low)
+        ].filter(level => level <= lastClose), 'desc'),
+        resistance: uniqueSorted([
+          ...structure.unbrokenHighs.map(s => s.price),
+          ...untested.filter(b => b.type === 'bearish').map(b => b.high)
+        ].filter(level => level >= lastClose), 'asc')
+      }
+    }
+  }
+
+  /**
+   * Swing high/low: máxima (mínima) estritamente maior (menor) que os
+   * `swingLength` candles de cada lado
+   */
+  private detectSwings(candles: SMCCandle[], times: Date[]): SwingPoint[] {
+    const length = this.options.swingLength
+    const swings: SwingPoint[] = []
+
+    for (let i = length; i < candles.length - length; i++) {
+      let isHigh = true
+      let isLow = true
+      for (let k = i - length; k <= i + length; k++) {
+        if (k === i) continue
+        if (candles[k].high >= candles[i].high) isHigh = false
+        if (candles[k].low <= candles[i].low) isLow = false
+      }
+      if (isHigh) swings.push({ type: 'high', price: candles[i].high, index: i, timestamp: times[i] })
+      if (isLow) swings.push({ type: 'low', price: candles[i].low, index: i, timestamp: times[i] })
+    }
+
+    return swings
+  }
+
+  /**
+   * Percorre os candles em ordem. Um fechamento além do último swing ainda
+   * não rompido é BOS na direção da tendência ou CHoCH contra ela; um pavio
+   * além do swing que fecha de volta é uma varredura de liquidez.
+   */
+  private scanStructure(candles: SMCCandle[], times: Date[], swings: SwingPoint[]): StructureScan {
+    const length = this.options.swingLength
+    const scan: StructureScan = {
+      breaks: [],
+      orderBlocks: [],
+      sweeps: [],
+      trend: 'neutral',
+      unbrokenHighs: [],
+      unbrokenLows: []
+    }
+
+    let next = 0
+    let lastHigh: SwingPoint | null = null
+    let lastLow: SwingPoint | null = null
+    // Cada nível conta uma varredura só, a do primeiro pavio
+    const sweptHighs = new Set<number>()
+    const sweptLows = new Set<number>()
+
+    for (let i = 0; i < candles.length; i++) {
+      // Swings só são conhecidos `swingLength` candles depois
+      while (next < swings.length && swings[next].index + length <= i) {
+        const swing = swings[next++]
+        if (swing.type === 'high') {
+          lastHigh = swing
+          scan.unbrokenHighs.push(swing)
+        } else {
+          lastLow = swing
+          scan.unbrokenLows.push(swing)
+        }
+      }
+
+      const candle = candles[i]
+
+      if (lastHigh && candle.high > lastHigh.price) {
+        if (candle.close > lastHigh.price) {
+          scan.breaks.push({
+            type: 'bullish',
+            kind: scan.trend === 'bearish' ? 'CHoCH' : 'BOS',
+            level: lastHigh.price,
+            timestamp: times[i],
+            confirmed: true
+          })
+          const block = this.findOrderBlock(candles, times, lastHigh.index, i, 'bullish')
+          if (block) scan.orderBlocks.push(block)
+          scan.trend = 'bullish'
+          lastHigh = null
+        } else if (!sweptHighs.has(lastHigh.price)) {
+          sweptHighs.add(lastHigh.price)
+          scan.sweeps.push({ type: 'buy_side', level: lastHigh.price, timestamp: times[i] })
+        }
+      }
+
+      if (lastLow && candle.low < lastLow.price) {
+        if (candle.close < lastLow.price) {
+          scan.breaks.push({
+            type: 'bearish',
+            kind: scan.trend === 'bullish' ? 'CHoCH' : 'BOS',
+            level: lastLow.price,
+            timestamp: times[i],
+            confirmed: true
+          })
+          const block = this.findOrderBlock(candles, times, lastLow.index, i, 'bearish')
+          if (block) scan.orderBlocks.push(block)
+          scan.trend = 'bearish'
+          lastLow = null
+        } else if (!sweptLows.has(lastLow.price)) {
+          sweptLows.add(lastLow.price)
+          scan.sweeps.push({ type: 'sell_side', level: lastLow.price, timestamp: times[i] })
+        }
+      }
+
+      scan.unbrokenHighs = scan.unbrokenHighs.filter(s => candle.close <= s.price)
+      scan.unbrokenLows = scan.unbrokenLows.filter(s => candle.close >= s.price)
+    }
+
+    return scan
+  }
+
+  /**
+   * Order block: último candle contrário antes do impulso que rompeu a
+   * estrutura, procurado a partir do extremo entre o swing e o rompimento
+   */
+  private findOrderBlock(
+    candles: SMCCandle[],
+    times: Date[],
+    swingIndex: number,
+    breakIndex: number,
+    type: 'bullish' | 'bearish'
+  ): (OrderBlock & { index: number }) | null {
+    let extreme = swingIndex
+    for (let k = swingIndex; k < breakIndex; k++) {
+      if (type === 'bullish' ? candles[k].low < candles[extreme].low : candles[k].high > candles[extreme].high) {
+        extreme = k
       }
     }
+
+    for (let k = extreme; k >= Math.max(0, swingIndex - 1); k--) {
+      const candle = candles[k]
+      const opposite = type === 'bullish' ? candle.close < candle.open : candle.close > candle.open
+      if (!opposite) continue
+
+      const range = candle.high - candle.low
+      const displacement = Math.abs(candles[breakIndex].close - (type === 'bullish' ? candle.high : candle.low))
+      return {
+        type,
+        high: candle.high,
+        low: candle.low,
+        timestamp: times[k],
+        strength: range > 0 ? Math.min(100, Math.round((displacement / range) * 25)) : 100,
+        tested: false,
+        index: k
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Um order block é mitigado quando o preço retorna à sua faixa depois
+   * do rompimento que o criou
+   */
+  private trackMitigation(
+    candles: SMCCandle[],
+    times: Date[],
+    blocks: Array<OrderBlock & { index: number }>
+  ): OrderBlock[] {
+    return blocks.map(({ index, ...block }) => {
+      // Ignora os candles do próprio impulso até o preço sair da zona
+      let leftZone = false
+      for (let k = index + 1; k < candles.length; k++) {
+        const candle = candles[k]
+        const inside = block.type === 'bullish' ? candle.low <= block.high : candle.high >= block.low
+        if (!inside) {
+          leftZone = true
+        } else if (leftZone) {
+          return { ...block, tested: true, mitigatedAt: times[k] }
+        }
+      }
+      return block
+    })
+  }
+
+  /**
+   * FVG de três candles: buraco entre a máxima do 1º e a mínima do 3º
+   * (alta) ou entre a mínima do 1º e a máxima do 3º (baixa)
+   */
+  private detectFairValueGaps(candles: SMCCandle[], times: Date[]): FairValueGap[] {
+    const gaps: FairValueGap[] = []
+
+    for (let i = 2; i < candles.length; i++) {
+      const first = candles[i - 2]
+      const third = candles[i]
+
+      let gap: FairValueGap | null = null
+      if (third.low > first.high) {
+        gap = { type: 'bullish', top: third.low, bottom: first.high, timestamp: times[i - 1], filled: false, fillPercent: 0 }
+      } else if (third.high < first.low) {
+        gap = { type: 'bearish', top: first.low, bottom: third.high, timestamp: times[i - 1], filled: false, fillPercent: 0 }
+      }
+      if (!gap) continue
+      if ((gap.top - gap.bottom) / gap.bottom * 100 < this.options.minGapPercent) continue
+
+      const size = gap.top - gap.bottom
+      for (let k = i + 1; k < candles.length; k++) {
+        const penetration = gap.type === 'bullish'
+          ? gap.top - candles[k].low
+          : candles[k].high - gap.bottom
+        const percent = Math.min(100, Math.max(0, penetration / size * 100))
+        if (percent > gap.fillPercent) gap.fillPercent = percent
+        if (percent >= 100) {
+          gap.filled = true
+          gap.filledAt = times[k]
+          break
+        }
+      }
+
+      gaps.push(gap)
+    }
+
+    return gaps
   }
+
+  /**
+   * Topos/fundos iguais (dentro da tolerância) acumulam stops acima/abaixo;
+   * o pool é varrido quando o preço ultrapassa o nível depois do último toque
+   */
+  private detectLiquidityPools(candles: SMCCandle[], times: Date[], swings: SwingPoint[]): LiquidityPool[] {
+    const pools: LiquidityPool[] = []
+
+    for (const type of ['high', 'low'] as const) {
+      const points = swings.filter(s => s.type === type)
+      const used = new Set<number>()
+
+      for (let a = 0; a < points.length; a++) {
+        if (used.has(a)) continue
+        const cluster = [points[a]]
+        for (let b = a + 1; b < points.length; b++) {
+          if (used.has(b)) continue
+          const distance = Math.abs(points[b].price - points[a].price) / points[a].price * 100
+          if (distance <= this.options.equalLevelTolerance) {
+            cluster.push(points[b])
+            used.add(b)
+          }
+        }
+        if (cluster.length < 2) continue
+
+        const level = type === 'high'
+          ? Math.max(...cluster.map(p => p.price))
+          : Math.min(...cluster.map(p => p.price))
+        const lastTouch = Math.max(...cluster.map(p => p.index))
+
+        const pool: LiquidityPool = {
+          type: type === 'high' ? 'equal_highs' : 'equal_lows',
+          level,
+          touches: cluster.length,
+          timestamps: cluster.map(p => p.timestamp),
+          swept: false
+        }
+
+        for (let k = lastTouch + 1; k < candles.length; k++) {
+          if (type === 'high' ? candles[k].high > level : candles[k].low < level) {
+            pool.swept = true
+            pool.sweptAt = times[k]
+            break
+          }
+        }
+
+        pools.push(pool)
+      }
+    }
+
+    return pools
+  }
+
+  /**
+   * Zonas de premium/discount sobre o range entre o último swing high e low
+   */
+  private premiumDiscount(swings: SwingPoint[], lastClose: number): PremiumDiscountZones | null {
+    const lastHigh = [...swings].reverse().find(s => s.type === 'high')
+    const lastLow = [...swings].reverse().find(s => s.type === 'low')
+    if (!lastHigh || !lastLow || lastHigh.price <= lastLow.price) return null
+
+    const rangeHigh = lastHigh.price
+    const rangeLow = lastLow.price
+    const equilibrium = (rangeHigh + rangeLow) / 2
+    const band = (rangeHigh - rangeLow) * EQUILIBRIUM_BAND
+
+    let currentZone: PremiumDiscountZones['currentZone'] = 'equilibrium'
+    if (lastClose > equilibrium + band) currentZone = 'premium'
+    else if (lastClose < equilibrium - band) currentZone = 'discount'
+
+    return { rangeHigh, rangeLow, equilibrium, currentZone }
+  }
+}
+
+function uniqueSorted(levels: number[], order: 'asc' | 'desc'): number[] {
+  const unique = Array.from(new Set(levels))
+  return unique.sort((a, b) => order === 'asc' ? a - b : b - a)
 }
 
-export const smcAnalyzer = new SMCAnalyzer()
\ No newline at end of file
+export const smcAnalyzer = new SMCAnalyzer()
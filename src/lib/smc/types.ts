@@ -1,5 +1,27 @@
 // SMC Analysis Types
 
+export interface SMCCandle {
+  timestamp: Date | number; // Date ou epoch em ms
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export interface SMCAnalyzerOptions {
+  swingLength: number; // candles de cada lado para confirmar um swing
+  equalLevelTolerance: number; // % de distância para considerar topos/fundos iguais
+  minGapPercent: number; // tamanho mínimo de um FVG em % do preço
+}
+
+export interface SwingPoint {
+  type: 'high' | 'low';
+  price: number;
+  index: number;
+  timestamp: Date;
+}
+
 export interface OrderBlock {
   type: 'bullish' | 'bearish';
   high: number;
@@ -7,6 +29,7 @@ export interface OrderBlock {
   timestamp: Date;
   strength: number; // 0-100
   tested: boolean;
+  mitigatedAt?: Date;
 }
 
 export interface FairValueGap {
@@ -15,22 +38,51 @@ export interface FairValueGap {
   bottom: number;
   timestamp: Date;
   filled: boolean;
+  fillPercent: number; // 0-100
+  filledAt?: Date;
 }
 
 export interface BreakOfStructure {
   type: 'bullish' | 'bearish';
+  kind: 'BOS' | 'CHoCH';
   level: number;
   timestamp: Date;
-  confirmed: boolean;
+  confirmed: boolean; // fechamento além do nível, não apenas pavio
+}
+
+export interface LiquidityPool {
+  type: 'equal_highs' | 'equal_lows';
+  level: number;
+  touches: number;
+  timestamps: Date[];
+  swept: boolean;
+  sweptAt?: Date;
+}
+
+export interface LiquiditySweep {
+  type: 'buy_side' | 'sell_side';
+  level: number;
+  timestamp: Date;
+}
+
+export interface PremiumDiscountZones {
+  rangeHigh: number;
+  rangeLow: number;
+  equilibrium: number;
+  currentZone: 'premium' | 'discount' | 'equilibrium';
 }
 
 export interface SMCAnalysisResult {
+  swingPoints: SwingPoint[];
   orderBlocks: OrderBlock[];
   fairValueGaps: FairValueGap[];
   breakOfStructure: BreakOfStructure[];
+  liquidityPools: LiquidityPool[];
+  liquiditySweeps: LiquiditySweep[];
+  premiumDiscount: PremiumDiscountZones | null;
   currentTrend: 'bullish' | 'bearish' | 'neutral';
   keyLevels: {
     support: number[];
     resistance: number[];
   };
-}
\ No newline at end of file
+}
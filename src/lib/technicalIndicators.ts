@@ -165,7 +165,7 @@ export function macd(data: number[], fastPeriod: number = 12, slowPeriod: number
   
   // Calculate histogram and trend
   for (let i = 0; i < signalLine.length; i++) {
-    const macdValue = macdLine[i + signalPeriod - 1];
+    const macdValue = macdLine[i];
     const signalValue = signalLine[i].value;
     const histogram = macdValue - signalValue;
     
@@ -9,6 +9,7 @@
 import { SecurityLogger, SecurityEventType, LogLevel } from './securityLogs';
 import { RiskLevel, TransactionType } from './walletSecurity';
 import { ValidationUtils } from '../utils/validation';
+import { type RuleNode, TransactionWindowIndex, evaluateRule, listReferences, parseRule } from './transactionRules';
 
 export interface TransactionAlert {
   id: string;
@@ -46,8 +47,9 @@ export interface MonitoringRule {
   enabled: boolean;
   severity: 'low' | 'medium' | 'high' | 'critical';
   conditions: RuleCondition[];
+  expression?: string; // Rule language expression (see transactionRules.ts), ANDed with conditions
   actions: RuleAction[];
-  cooldown?: number; // Minimum time between alerts in ms
+  cooldown?: number; // Minimum time between alerts in ms, per rule and address
   lastTriggered?: Date;
 }
 
@@ -76,6 +78,16 @@ export interface TransactionRecord {
   metadata: Record<string, any>;
 }
 
+export interface RuleDryRunResult {
+  ruleId: string;
+  ruleName: string;
+  evaluated: number;
+  matched: number;
+  alerts: number; // matches that would have raised an alert
+  suppressed: number; // matches deduplicated by the cooldown
+  matches: Array<{ transactionId: string; address: string; timestamp: Date; alerted: boolean }>;
+}
+
 export interface MonitoringStats {
   totalTransactions: number;
   totalAlerts: number;
@@ -95,6 +107,13 @@ export class TransactionMonitor {
   private blacklistedAddresses: Set<string> = new Set();
   private whitelistedAddresses: Set<string> = new Set();
   private addressRiskScores: Map<string, number> = new Map();
+  private addressLists: Map<string, Set<string>> = new Map([
+    ['blacklist', this.blacklistedAddresses],
+    ['whitelist', this.whitelistedAddresses]
+  ]);
+  private windowIndex = new TransactionWindowIndex();
+  private compiledExpressions: Map<string, RuleNode> = new Map();
+  private alertDedup: Map<string, { lastAlerted: number; alertIds: string[] }> = new Map();
   private isMonitoring = false;
   private monitoringInterval?: NodeJS.Timeout;
 
@@ -164,6 +183,7 @@ export class TransactionMonitor {
     if (addressHistory.length > 1000) {
       addressHistory.splice(0, addressHistory.length - 1000);
     }
+    this.windowIndex.add(record);
 
     // Check rules immediately
     this.checkRulesForTransaction(record);
@@ -187,6 +207,9 @@ export class TransactionMonitor {
    * Add monitoring rule
    */
   addRule(rule: Omit<MonitoringRule, 'id'>): string {
+    // Fail on syntax errors and unknown lists now rather than on every transaction
+    this.compileExpression(rule);
+
     const ruleWithId: MonitoringRule = {
       ...rule,
       id: this.generateRuleId()
@@ -211,6 +234,9 @@ export class TransactionMonitor {
     if (index === -1) return false;
 
     const removedRule = this.rules.splice(index, 1)[0];
+    for (const key of this.alertDedup.keys()) {
+      if (key.startsWith(`${ruleId}:`)) this.alertDedup.delete(key);
+    }
     
     this.logger.logSecurityEvent(
       SecurityEventType.SECURITY_CONFIG_UPDATED,
@@ -221,6 +247,63 @@ export class TransactionMonitor {
     return true;
   }
 
+  /**
+   * Replay historical transactions through rules (the active ones by default) in timestamp
+   * order, with windows and cooldowns measured on the transactions' own timestamps.
+   * Nothing is alerted, logged or recorded
+   */
+  dryRun(
+    records: TransactionRecord[],
+    rules: Array<Omit<MonitoringRule, 'id'> & { id?: string }> = this.rules.filter(rule => rule.enabled)
+  ): RuleDryRunResult[] {
+    const history = new TransactionWindowIndex();
+    const dedup: Map<string, { lastAlerted: number; alertIds: string[] }> = new Map();
+    const ordered = [...records].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const results: RuleDryRunResult[] = rules.map((rule, i) => {
+      this.compileExpression(rule);
+      return {
+        ruleId: rule.id ?? `dry_run_${i}`,
+        ruleName: rule.name,
+        evaluated: 0,
+        matched: 0,
+        alerts: 0,
+        suppressed: 0,
+        matches: []
+      };
+    });
+
+    for (const record of ordered) {
+      history.add(record);
+
+      rules.forEach((rule, i) => {
+        const result = results[i];
+        result.evaluated++;
+        if (!this.matchesRule(rule, record, history)) return;
+
+        const key = this.getDedupKey(result.ruleId, record);
+        const alerted = !this.isInCooldown(rule, dedup.get(key), record);
+        if (alerted) dedup.set(key, { lastAlerted: record.timestamp.getTime(), alertIds: [] });
+
+        result.matched++;
+        if (alerted) result.alerts++;
+        else result.suppressed++;
+        result.matches.push({ transactionId: record.id, address: record.address, timestamp: record.timestamp, alerted });
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Define a named address list for rule expressions (`to in exchanges`)
+   */
+  setAddressList(name: string, addresses: string[]): void {
+    if (name === 'blacklist' || name === 'whitelist') {
+      throw new Error(`Use addToBlacklist/addToWhitelist to change the ${name}`);
+    }
+    this.addressLists.set(name, new Set(addresses));
+  }
+
   /**
    * Get all alerts with optional filtering
    */
@@ -534,34 +617,60 @@ export class TransactionMonitor {
     for (const rule of this.rules) {
       if (!rule.enabled) continue;
 
-      // Check cooldown
-      if (rule.cooldown && rule.lastTriggered) {
-        const timeSinceLastTrigger = Date.now() - rule.lastTriggered.getTime();
-        if (timeSinceLastTrigger < rule.cooldown) continue;
+      if (this.matchesRule(rule, transaction, this.windowIndex)) {
+        this.triggerRule(rule, transaction);
+        rule.lastTriggered = transaction.timestamp;
       }
+    }
+  }
 
-      if (this.evaluateRuleConditions(rule.conditions, transaction)) {
-        this.triggerRule(rule, transaction);
-        rule.lastTriggered = new Date();
+  private matchesRule(
+    rule: Omit<MonitoringRule, 'id'>,
+    transaction: TransactionRecord,
+    history: TransactionWindowIndex
+  ): boolean {
+    if (!this.evaluateRuleConditions(rule.conditions, transaction, history)) return false;
+
+    const expression = this.compileExpression(rule);
+    return !expression || evaluateRule(expression, { transaction, history, lists: this.addressLists });
+  }
+
+  private compileExpression(rule: Omit<MonitoringRule, 'id'>): RuleNode | undefined {
+    if (!rule.expression) return undefined;
+
+    let compiled = this.compiledExpressions.get(rule.expression);
+    if (!compiled) {
+      compiled = parseRule(rule.expression);
+      const unknown = listReferences(compiled).filter(name => !this.addressLists.has(name));
+      if (unknown.length > 0) {
+        throw new Error(`Rule '${rule.name}' refers to unknown address lists: ${unknown.join(', ')}`);
       }
+      this.compiledExpressions.set(rule.expression, compiled);
     }
+    return compiled;
   }
 
-  private evaluateRuleConditions(conditions: RuleCondition[], transaction: TransactionRecord): boolean {
-    return conditions.every(condition => this.evaluateCondition(condition, transaction));
+  private evaluateRuleConditions(
+    conditions: RuleCondition[],
+    transaction: TransactionRecord,
+    history: TransactionWindowIndex
+  ): boolean {
+    return conditions.every(condition => this.evaluateCondition(condition, transaction, history));
   }
 
-  private evaluateCondition(condition: RuleCondition, transaction: TransactionRecord): boolean {
+  private evaluateCondition(
+    condition: RuleCondition,
+    transaction: TransactionRecord,
+    history: TransactionWindowIndex
+  ): boolean {
     switch (condition.type) {
       case 'amount':
         return this.compareValues(transaction.amount, condition.operator, condition.value);
       
       case 'frequency':
-        const history = this.transactions.get(transaction.address) || [];
         const timeWindow = condition.timeWindow || 3600000; // Default 1 hour
-        const recentTxs = history.filter(tx => 
-          Date.now() - tx.timestamp.getTime() < timeWindow
-        );
+        const now = transaction.timestamp.getTime();
+        const recentTxs = history.range('address', transaction.address, now - timeWindow, now);
         return this.compareValues(recentTxs.length, condition.operator, condition.value);
       
       case 'address':
@@ -587,9 +696,52 @@ export class TransactionMonitor {
     }
   }
 
+  /**
+   * Runs the rule's actions. Within the cooldown a repeat for the same rule and address
+   * updates the open alert instead of raising another; block and log actions still run
+   */
   private triggerRule(rule: MonitoringRule, transaction: TransactionRecord): void {
+    const key = this.getDedupKey(rule.id, transaction);
+    const previous = this.alertDedup.get(key);
+    const suppressed = this.isInCooldown(rule, previous, transaction);
+    const alertIds: string[] = [];
+
     for (const action of rule.actions) {
-      this.executeRuleAction(action, rule, transaction);
+      if (action.type !== 'alert') {
+        this.executeRuleAction(action, rule, transaction);
+      } else if (suppressed) {
+        this.recordRepeatOccurrence(previous!.alertIds, transaction);
+      } else {
+        alertIds.push(this.createAlert(rule, transaction, action.parameters).id);
+      }
+    }
+
+    if (!suppressed) {
+      this.alertDedup.set(key, { lastAlerted: transaction.timestamp.getTime(), alertIds });
+    }
+  }
+
+  private getDedupKey(ruleId: string, transaction: TransactionRecord): string {
+    return `${ruleId}:${transaction.address}`;
+  }
+
+  private isInCooldown(
+    rule: Omit<MonitoringRule, 'id'>,
+    previous: { lastAlerted: number } | undefined,
+    transaction: TransactionRecord
+  ): boolean {
+    if (!rule.cooldown || !previous) return false;
+    return transaction.timestamp.getTime() - previous.lastAlerted < rule.cooldown;
+  }
+
+  private recordRepeatOccurrence(alertIds: string[], transaction: TransactionRecord): void {
+    for (const alertId of alertIds) {
+      const alert = this.alerts.find(existing => existing.id === alertId);
+      if (!alert) continue;
+
+      alert.metadata.occurrences = (alert.metadata.occurrences || 1) + 1;
+      alert.metadata.lastOccurrence = transaction.timestamp;
+      alert.metadata.lastTransactionId = transaction.id;
     }
   }
 
@@ -628,7 +780,7 @@ export class TransactionMonitor {
     }
   }
 
-  private createAlert(rule: MonitoringRule, transaction: TransactionRecord, parameters: any): void {
+  private createAlert(rule: MonitoringRule, transaction: TransactionRecord, parameters: any): TransactionAlert {
     const alert: TransactionAlert = {
       id: this.generateAlertId(),
       severity: rule.severity,
@@ -645,7 +797,9 @@ export class TransactionMonitor {
       metadata: {
         ruleId: rule.id,
         ruleName: rule.name,
-        transactionFlags: transaction.flags
+        expression: rule.expression,
+        transactionFlags: transaction.flags,
+        occurrences: 1
       }
     };
 
@@ -667,6 +821,8 @@ export class TransactionMonitor {
       },
       rule.severity === 'critical' ? LogLevel.CRITICAL : LogLevel.WARNING
     );
+
+    return alert;
   }
 
   private performPeriodicChecks(): void {
@@ -683,6 +839,11 @@ export class TransactionMonitor {
       }
     }
 
+    this.windowIndex.prune(cutoffTime);
+    for (const [key, entry] of this.alertDedup) {
+      if (entry.lastAlerted <= cutoffTime) this.alertDedup.delete(key);
+    }
+
     // Cleanup old alerts
     this.alerts = this.alerts.filter(alert => 
       Date.now() - alert.timestamp.getTime() < 30 * 24 * 60 * 60 * 1000 // 30 days
@@ -717,7 +878,7 @@ export class TransactionMonitor {
     if (nameUpper.includes('AMOUNT')) return AlertType.SUSPICIOUS_AMOUNT;
     if (nameUpper.includes('RAPID') || nameUpper.includes('FREQUENCY')) return AlertType.RAPID_TRANSACTIONS;
     if (nameUpper.includes('BLACKLIST')) return AlertType.BLACKLISTED_ADDRESS;
-    if (nameUpper.includes('PATTERN')) return AlertType.UNUSUAL_PATTERN;
+    if (nameUpper.includes('PATTERN') || nameUpper.includes('STRUCTURING')) return AlertType.UNUSUAL_PATTERN;
     
     return AlertType.ANOMALOUS_BEHAVIOR;
   }
@@ -0,0 +1,751 @@
+/**
+ * Transaction Rule Language
+ * Parser and evaluator for monitoring rule expressions, e.g.
+ *
+ *   sum(amount, 1h) > 2 BTC and to not in whitelist
+ *   structuring(1 BTC, 24h) >= 3 or velocity(amount, 1h, 7d) > 10
+ *
+ * Fields: amount (sats), from/address, to/recipient, user, type, status, risk, flags,
+ * hour, weekday (UTC) and metadata.<path>
+ * Operators: and, or, not, > >= < <= == != (or =), in, not in, matches "<regex>", + - * /
+ * Literals: numbers, 'strings', [lists], true/false, amounts (2 BTC, 50 mBTC, 5000 sats)
+ * and durations (500ms, 30s, 10m, 1h, 7d, 2w)
+ * Windows (t - window, t] end at the transaction being evaluated and are grouped by
+ * sender address unless a trailing `user` or `recipient` argument says otherwise:
+ *   count(window), sum|avg|min|max(field, window), distinct(field, window)
+ *   velocity([field,] window, baseline) - window total over the average total of a window
+ *     in the preceding baseline period (0 when there is no baseline activity)
+ *   structuring(threshold, window[, margin]) - transfers within margin (default 10%)
+ *     under the threshold
+ */
+
+import type { TransactionRecord } from './transactionMonitor';
+
+export type RuleValue = number | string | boolean | string[] | null;
+export type RuleGroupBy = 'address' | 'user' | 'recipient';
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'distinct' | 'velocity' | 'structuring';
+export type ComparisonOperator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+export interface AggregateNode {
+  kind: 'aggregate';
+  fn: AggregateFunction;
+  field?: string;
+  window: number; // ms
+  baseline?: number; // ms, velocity only
+  threshold?: number; // sats, structuring only
+  margin?: number; // fraction below the threshold, structuring only
+  by: RuleGroupBy;
+}
+
+export type RuleNode =
+  | { kind: 'literal'; value: number | string | boolean }
+  | { kind: 'field'; name: string }
+  | { kind: 'list'; name: string }
+  | { kind: 'array'; items: RuleNode[] }
+  | { kind: 'not'; operand: RuleNode }
+  | { kind: 'negate'; operand: RuleNode }
+  | { kind: 'logical'; operator: 'and' | 'or'; left: RuleNode; right: RuleNode }
+  | { kind: 'compare'; operator: ComparisonOperator; left: RuleNode; right: RuleNode }
+  | { kind: 'arithmetic'; operator: '+' | '-' | '*' | '/'; left: RuleNode; right: RuleNode }
+  | { kind: 'membership'; negated: boolean; value: RuleNode; collection: RuleNode }
+  | { kind: 'matches'; value: RuleNode; pattern: RegExp }
+  | AggregateNode;
+
+export interface RuleEvaluationContext {
+  transaction: TransactionRecord;
+  history: TransactionWindowIndex; // must already contain the transaction
+  lists: ReadonlyMap<string, ReadonlySet<string>>;
+}
+
+const GROUP_BY: RuleGroupBy[] = ['address', 'user', 'recipient'];
+const KEYWORDS = ['and', 'or', 'not', 'in', 'matches', 'true', 'false'];
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+const AMOUNT_UNITS: Record<string, number> = {
+  btc: 100000000,
+  mbtc: 100000,
+  sat: 1,
+  sats: 1
+};
+
+const FIELDS: Record<string, (tx: TransactionRecord) => RuleValue> = {
+  amount: tx => tx.amount,
+  from: tx => tx.address,
+  address: tx => tx.address,
+  to: tx => tx.recipientAddress,
+  recipient: tx => tx.recipientAddress,
+  user: tx => userOf(tx),
+  type: tx => tx.type,
+  status: tx => tx.status,
+  risk: tx => tx.riskScore,
+  flags: tx => tx.flags,
+  hour: tx => tx.timestamp.getUTCHours(),
+  weekday: tx => tx.timestamp.getUTCDay()
+};
+
+const NUMERIC_FIELDS = ['amount', 'risk', 'hour', 'weekday'];
+
+/**
+ * Parse a rule expression into an AST, throwing on syntax errors and unknown fields or functions
+ */
+export function parseRule(source: string): RuleNode {
+  const parser = new RuleParser(tokenize(source));
+  const node = parser.parse();
+  if (!isPredicate(node)) {
+    throw new Error('Rule expression must be a condition (comparison, membership or and/or/not)');
+  }
+  return node;
+}
+
+/**
+ * Evaluate a parsed rule against a transaction and its history
+ */
+export function evaluateRule(node: RuleNode, context: RuleEvaluationContext): boolean {
+  return evaluate(node, context) === true;
+}
+
+/**
+ * Named lists (whitelist, blacklist, ...) an expression refers to
+ */
+export function listReferences(node: RuleNode): string[] {
+  const names = new Set<string>();
+  const visit = (current: RuleNode) => {
+    switch (current.kind) {
+      case 'list': names.add(current.name); break;
+      case 'array': current.items.forEach(visit); break;
+      case 'not':
+      case 'negate': visit(current.operand); break;
+      case 'logical':
+      case 'compare':
+      case 'arithmetic': visit(current.left); visit(current.right); break;
+      case 'membership': visit(current.value); visit(current.collection); break;
+      case 'matches': visit(current.value); break;
+    }
+  };
+  visit(node);
+  return Array.from(names);
+}
+
+/**
+ * Per address, user and recipient transaction history kept in timestamp order, so window
+ * lookups are a binary search rather than a scan
+ */
+export class TransactionWindowIndex {
+  private groups = new Map<RuleGroupBy, Map<string, TransactionRecord[]>>(
+    GROUP_BY.map(by => [by, new Map<string, TransactionRecord[]>()])
+  );
+  private maxPerKey: number;
+
+  constructor(options: { maxPerKey?: number } = {}) {
+    this.maxPerKey = options.maxPerKey ?? 5000;
+  }
+
+  add(record: TransactionRecord): void {
+    const time = record.timestamp.getTime();
+
+    for (const by of GROUP_BY) {
+      const group = this.groups.get(by)!;
+      const key = groupKey(record, by);
+      const records = group.get(key) || [];
+      // Usually an append, historical replays may arrive slightly out of order
+      const at = upperBound(records, time);
+      if (isDuplicate(records, at, record)) continue;
+
+      records.splice(at, 0, record);
+      if (records.length > this.maxPerKey) {
+        records.splice(0, records.length - this.maxPerKey);
+      }
+      group.set(key, records);
+    }
+  }
+
+  /**
+   * Records for a key with from < timestamp <= to
+   */
+  range(by: RuleGroupBy, key: string, from: number, to: number): TransactionRecord[] {
+    const records = this.groups.get(by)!.get(key);
+    if (!records) return [];
+    return records.slice(upperBound(records, from), upperBound(records, to));
+  }
+
+  /**
+   * Drop records at or before the cutoff
+   */
+  prune(cutoff: number): void {
+    for (const group of this.groups.values()) {
+      for (const [key, records] of group) {
+        const start = upperBound(records, cutoff);
+        if (start >= records.length) {
+          group.delete(key);
+        } else if (start > 0) {
+          records.splice(0, start);
+        }
+      }
+    }
+  }
+
+  clear(): void {
+    this.groups.forEach(group => group.clear());
+  }
+}
+
+// Lexer
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'symbol' | 'eof';
+  value: string;
+  number?: number;
+  unit?: 'duration' | 'amount';
+  position: number;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = source.slice(i).match(/^(\d[\d_]*(?:\.\d+)?|\.\d+)([A-Za-z]*)/)!;
+      const value = parseFloat(match[1].replace(/_/g, ''));
+      const suffix = match[2];
+      const token: Token = { type: 'number', value: match[0], number: value, position: i };
+
+      if (suffix) {
+        if (DURATION_UNITS[suffix] !== undefined) {
+          token.number = value * DURATION_UNITS[suffix];
+          token.unit = 'duration';
+        } else if (AMOUNT_UNITS[suffix.toLowerCase()] !== undefined) {
+          token.number = Math.round(value * AMOUNT_UNITS[suffix.toLowerCase()]);
+          token.unit = 'amount';
+        } else {
+          syntaxError(`Unknown unit '${suffix}'`, i);
+        }
+      }
+      tokens.push(token);
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) j++;
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) syntaxError('Unterminated string', i);
+      tokens.push({ type: 'string', value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const value = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_.]*/)![0];
+      tokens.push({ type: 'identifier', value, position: i });
+      i += value.length;
+      continue;
+    }
+
+    const symbol = ['>=', '<=', '==', '!='].find(op => source.startsWith(op, i))
+      ?? ('><=+-*/()[],'.includes(char) ? char : null);
+    if (!symbol) syntaxError(`Unexpected character '${char}'`, i);
+    tokens.push({ type: 'symbol', value: symbol!, position: i });
+    i += symbol!.length;
+  }
+
+  tokens.push({ type: 'eof', value: 'end of rule', position: source.length });
+  return tokens;
+}
+
+// Parser
+
+class RuleParser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): RuleNode {
+    const node = this.parseOr();
+    if (this.peek().type !== 'eof') this.fail(`Unexpected '${this.peek().value}'`);
+    return node;
+  }
+
+  private parseOr(): RuleNode {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('or')) {
+      left = { kind: 'logical', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): RuleNode {
+    let left = this.parseNot();
+    while (this.acceptKeyword('and')) {
+      left = { kind: 'logical', operator: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): RuleNode {
+    if (this.acceptKeyword('not')) {
+      return { kind: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): RuleNode {
+    const left = this.parseAdditive();
+    const token = this.peek();
+
+    if (token.type === 'symbol' && ['>', '>=', '<', '<=', '==', '!=', '='].includes(token.value)) {
+      this.index++;
+      const operator = (token.value === '=' ? '==' : token.value) as ComparisonOperator;
+      return { kind: 'compare', operator, left, right: this.parseAdditive() };
+    }
+
+    if (this.acceptKeyword('in')) {
+      return { kind: 'membership', negated: false, value: left, collection: this.parseCollection() };
+    }
+
+    if (this.isKeyword(token, 'not') && this.isKeyword(this.tokens[this.index + 1], 'in')) {
+      this.index += 2;
+      return { kind: 'membership', negated: true, value: left, collection: this.parseCollection() };
+    }
+
+    if (this.acceptKeyword('matches')) {
+      const pattern = this.next();
+      if (pattern.type !== 'string') this.fail('matches expects a quoted regular expression', pattern);
+      try {
+        return { kind: 'matches', value: left, pattern: new RegExp(pattern.value) };
+      } catch {
+        return this.fail(`Invalid regular expression '${pattern.value}'`, pattern);
+      }
+    }
+
+    return left;
+  }
+
+  // A bare name after `in` that isn't a field refers to a named list
+  private parseCollection(): RuleNode {
+    const token = this.peek();
+    const next = this.tokens[this.index + 1];
+    if (token.type === 'identifier' && !this.isField(token.value) && !KEYWORDS.includes(token.value.toLowerCase())
+      && !(next.type === 'symbol' && next.value === '(')) {
+      this.index++;
+      return { kind: 'list', name: token.value };
+    }
+    return this.parseAdditive();
+  }
+
+  private parseAdditive(): RuleNode {
+    let left = this.parseMultiplicative();
+    while (this.peek().type === 'symbol' && ['+', '-'].includes(this.peek().value)) {
+      const operator = this.next().value as '+' | '-';
+      left = { kind: 'arithmetic', operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): RuleNode {
+    let left = this.parseUnary();
+    while (this.peek().type === 'symbol' && ['*', '/'].includes(this.peek().value)) {
+      const operator = this.next().value as '*' | '/';
+      left = { kind: 'arithmetic', operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): RuleNode {
+    if (this.acceptSymbol('-')) {
+      return { kind: 'negate', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): RuleNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number': {
+        let value = token.number!;
+        const unit = this.peek();
+        // `2 BTC` as well as `2BTC`
+        if (!token.unit && unit.type === 'identifier' && AMOUNT_UNITS[unit.value.toLowerCase()] !== undefined) {
+          this.index++;
+          value = Math.round(value * AMOUNT_UNITS[unit.value.toLowerCase()]);
+        }
+        return { kind: 'literal', value };
+      }
+
+      case 'string':
+        return { kind: 'literal', value: token.value };
+
+      case 'symbol':
+        if (token.value === '(') {
+          const inner = this.parseOr();
+          this.expectSymbol(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          const items: RuleNode[] = [];
+          if (!this.acceptSymbol(']')) {
+            do {
+              items.push(this.parseAdditive());
+            } while (this.acceptSymbol(','));
+            this.expectSymbol(']');
+          }
+          return { kind: 'array', items };
+        }
+        break;
+
+      case 'identifier': {
+        const name = token.value;
+        const lower = name.toLowerCase();
+        if (lower === 'true' || lower === 'false') return { kind: 'literal', value: lower === 'true' };
+        if (KEYWORDS.includes(lower)) break;
+        if (this.acceptSymbol('(')) return this.parseCall(name, token);
+        if (!this.isField(name)) this.fail(`Unknown field '${name}'`, token);
+        return { kind: 'field', name };
+      }
+    }
+
+    return this.fail(`Unexpected '${token.value}'`, token);
+  }
+
+  private parseCall(name: string, token: Token): AggregateNode {
+    const args: RuleNode[] = [];
+    if (!this.acceptSymbol(')')) {
+      do {
+        args.push(this.parseAdditive());
+      } while (this.acceptSymbol(','));
+      this.expectSymbol(')');
+    }
+
+    const fn = name.toLowerCase() as AggregateFunction;
+    // Trailing user/recipient/address argument picks the grouping
+    const last = args[args.length - 1];
+    let by: RuleGroupBy = 'address';
+    if (last?.kind === 'field' && GROUP_BY.includes(last.name as RuleGroupBy) && args.length > 1) {
+      by = last.name as RuleGroupBy;
+      args.pop();
+    }
+
+    const positive = (node: RuleNode | undefined, label: string) => {
+      if (node?.kind !== 'literal' || typeof node.value !== 'number' || node.value <= 0) {
+        this.fail(`${fn}() expects a positive ${label}`, token);
+      }
+      return (node as { value: number }).value;
+    };
+    const fieldArg = (node: RuleNode | undefined, numeric: boolean) => {
+      if (node?.kind !== 'field') return this.fail(`${fn}() expects a field as its first argument`, token);
+      if (numeric && !NUMERIC_FIELDS.includes(node.name) && !node.name.startsWith('metadata.')) {
+        this.fail(`${fn}() needs a numeric field, got '${node.name}'`, token);
+      }
+      return node.name;
+    };
+    const arity = (min: number, max: number) => {
+      if (args.length < min || args.length > max) {
+        this.fail(`${fn}() takes ${min === max ? min : `${min}-${max}`} arguments, got ${args.length}`, token);
+      }
+    };
+
+    switch (fn) {
+      case 'count':
+        arity(1, 1);
+        return { kind: 'aggregate', fn, window: positive(args[0], 'window such as 1h'), by };
+
+      case 'sum':
+      case 'avg':
+      case 'min':
+      case 'max':
+      case 'distinct':
+        arity(2, 2);
+        return { kind: 'aggregate', fn, field: fieldArg(args[0], fn !== 'distinct'), window: positive(args[1], 'window such as 1h'), by };
+
+      case 'velocity': {
+        arity(2, 3);
+        const field = args.length === 3 ? fieldArg(args[0], true) : undefined;
+        const rest = args.slice(args.length - 2);
+        return {
+          kind: 'aggregate',
+          fn,
+          field,
+          window: positive(rest[0], 'window such as 1h'),
+          baseline: positive(rest[1], 'baseline such as 7d'),
+          by
+        };
+      }
+
+      case 'structuring': {
+        arity(2, 3);
+        const threshold = positive(args[0], 'threshold such as 1 BTC');
+        const margin = args[2] === undefined ? 0.1 : positive(args[2], 'margin such as 0.1');
+        if (margin >= 1) this.fail('structuring() margin must be a fraction below 1', token);
+        return { kind: 'aggregate', fn, threshold, window: positive(args[1], 'window such as 1h'), margin, by };
+      }
+
+      default:
+        return this.fail(`Unknown function '${name}'`, token);
+    }
+  }
+
+  private isField(name: string): boolean {
+    return FIELDS[name] !== undefined || /^metadata\.[A-Za-z0-9_.]+$/.test(name);
+  }
+
+  private isKeyword(token: Token | undefined, keyword: string): boolean {
+    return token?.type === 'identifier' && token.value.toLowerCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (!this.isKeyword(this.peek(), keyword)) return false;
+    this.index++;
+    return true;
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    const token = this.peek();
+    if (token.type !== 'symbol' || token.value !== symbol) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) this.fail(`Expected '${symbol}' but found '${this.peek().value}'`);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    return syntaxError(message, token.position);
+  }
+}
+
+function syntaxError(message: string, position: number): never {
+  throw new Error(`Rule syntax error at position ${position}: ${message}`);
+}
+
+function isPredicate(node: RuleNode): boolean {
+  switch (node.kind) {
+    case 'logical': return isPredicate(node.left) && isPredicate(node.right);
+    case 'not': return isPredicate(node.operand);
+    case 'compare':
+    case 'membership':
+    case 'matches': return true;
+    case 'literal': return typeof node.value === 'boolean';
+    case 'field': return node.name.startsWith('metadata.');
+    default: return false;
+  }
+}
+
+// Evaluation
+
+function evaluate(node: RuleNode, context: RuleEvaluationContext): RuleValue {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'field':
+      return readField(context.transaction, node.name);
+
+    case 'list':
+      throw new Error(`List '${node.name}' can only be used after 'in'`);
+
+    case 'array':
+      return node.items.map(item => String(evaluate(item, context)));
+
+    case 'not':
+      return evaluate(node.operand, context) !== true;
+
+    case 'negate':
+      return -toNumber(evaluate(node.operand, context));
+
+    case 'logical':
+      return node.operator === 'and'
+        ? evaluate(node.left, context) === true && evaluate(node.right, context) === true
+        : evaluate(node.left, context) === true || evaluate(node.right, context) === true;
+
+    case 'compare':
+      return compare(evaluate(node.left, context), node.operator, evaluate(node.right, context));
+
+    case 'arithmetic': {
+      const left = toNumber(evaluate(node.left, context));
+      const right = toNumber(evaluate(node.right, context));
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? NaN : left / right;
+      }
+      break;
+    }
+
+    case 'membership': {
+      const value = evaluate(node.value, context);
+      const found = value !== null && contains(node.collection, String(value), context);
+      return node.negated ? !found : found;
+    }
+
+    case 'matches': {
+      const value = evaluate(node.value, context);
+      return typeof value === 'string' && node.pattern.test(value);
+    }
+
+    case 'aggregate':
+      return aggregate(node, context);
+  }
+
+  return null;
+}
+
+function contains(collection: RuleNode, value: string, context: RuleEvaluationContext): boolean {
+  if (collection.kind === 'list') {
+    const list = context.lists.get(collection.name);
+    if (!list) throw new Error(`Unknown list '${collection.name}'`);
+    return list.has(value);
+  }
+  const items = evaluate(collection, context);
+  return Array.isArray(items) ? items.includes(value) : items !== null && String(items) === value;
+}
+
+function compare(left: RuleValue, operator: ComparisonOperator, right: RuleValue): boolean {
+  switch (operator) {
+    case '==': return left === right;
+    case '!=': return left !== right;
+  }
+  if (typeof left !== 'number' || typeof right !== 'number' || Number.isNaN(left) || Number.isNaN(right)) {
+    return false;
+  }
+  switch (operator) {
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+  }
+}
+
+function aggregate(node: AggregateNode, context: RuleEvaluationContext): number {
+  const { transaction, history } = context;
+  const now = transaction.timestamp.getTime();
+  const key = groupKey(transaction, node.by);
+  const records = history.range(node.by, key, now - node.window, now);
+  const values = () => numericValues(records, node.field!);
+
+  switch (node.fn) {
+    case 'count':
+      return records.length;
+
+    case 'sum':
+      return values().reduce((a, b) => a + b, 0);
+
+    case 'avg': {
+      const numbers = values();
+      return numbers.length > 0 ? numbers.reduce((a, b) => a + b, 0) / numbers.length : 0;
+    }
+
+    case 'min':
+    case 'max': {
+      const numbers = values();
+      if (numbers.length === 0) return 0;
+      return numbers.reduce((a, b) => (node.fn === 'min' ? Math.min(a, b) : Math.max(a, b)));
+    }
+
+    case 'distinct':
+      return new Set(records.map(record => String(readField(record, node.field!)))).size;
+
+    case 'velocity': {
+      const total = (items: TransactionRecord[]) => (node.field
+        ? numericValues(items, node.field).reduce((a, b) => a + b, 0)
+        : items.length);
+      const baseline = history.range(node.by, key, now - node.window - node.baseline!, now - node.window);
+      const expected = total(baseline) * (node.window / node.baseline!);
+      return expected > 0 ? total(records) / expected : 0;
+    }
+
+    case 'structuring': {
+      const floor = node.threshold! * (1 - node.margin!);
+      return records.filter(record => record.amount >= floor && record.amount < node.threshold!).length;
+    }
+  }
+}
+
+function readField(transaction: TransactionRecord, name: string): RuleValue {
+  const accessor = FIELDS[name];
+  if (accessor) return accessor(transaction);
+
+  let value: any = transaction.metadata;
+  for (const part of name.split('.').slice(1)) {
+    if (value === null || typeof value !== 'object') return null;
+    value = value[part];
+  }
+  if (value === undefined) return null;
+  if (Array.isArray(value)) return value.map(String);
+  return typeof value === 'object' ? JSON.stringify(value) : value;
+}
+
+function numericValues(records: TransactionRecord[], field: string): number[] {
+  return records
+    .map(record => Number(readField(record, field)))
+    .filter(value => Number.isFinite(value));
+}
+
+function toNumber(value: RuleValue): number {
+  return typeof value === 'number' ? value : NaN;
+}
+
+function userOf(transaction: TransactionRecord): string {
+  const userId = transaction.metadata?.userId;
+  return userId !== undefined && userId !== null ? String(userId) : transaction.address;
+}
+
+function groupKey(transaction: TransactionRecord, by: RuleGroupBy): string {
+  switch (by) {
+    case 'user': return userOf(transaction);
+    case 'recipient': return transaction.recipientAddress;
+    default: return transaction.address;
+  }
+}
+
+// Re-adding a record is a no-op; only records sharing its timestamp need checking
+function isDuplicate(records: TransactionRecord[], at: number, record: TransactionRecord): boolean {
+  for (let i = at - 1; i >= 0 && records[i].timestamp.getTime() === record.timestamp.getTime(); i--) {
+    if (records[i].id === record.id) return true;
+  }
+  return false;
+}
+
+// First index whose timestamp is after `time`
+function upperBound(records: TransactionRecord[], time: number): number {
+  let low = 0;
+  let high = records.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (records[mid].timestamp.getTime() <= time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
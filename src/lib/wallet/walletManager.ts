@@ -1,6 +1,7 @@
 'use client';
 
 import React from 'react';
+import { type WatchOnlyWallet, watchOnlyWallets } from '@/services/wallet/WatchOnlyWallets';
 
 interface WalletProvider {
   name: string;
@@ -182,6 +183,16 @@ export class WalletManager {
     return this.activeProvider?.name || null;
   }
 
+  // Carteiras watch-only (xpub/descriptor) não assinam, mas entram no portfólio
+  getWatchOnlyWallets(): WatchOnlyWallet[] {
+    return watchOnlyWallets.getWallets();
+  }
+
+  // Contas conectadas mais os endereços usados das carteiras watch-only
+  getTrackedAddresses(): string[] {
+    return [...new Set([...this.accounts, ...watchOnlyWallets.getAddresses()])];
+  }
+
   // Método para resolver conflitos
   async resolveProviderConflicts(): Promise<{
     hasConflicts: boolean;
@@ -8,7 +8,7 @@
 
 import { AddressValidator } from './addressValidation';
 import { WalletDetector } from './walletDetection';
-import { SecurityLogger } from './securityLogs';
+import { SecurityEventType, SecurityLogger } from './securityLogs';
 import { ValidationUtils } from '../utils/validation';
 
 // Security Level Enum
@@ -1010,6 +1010,31 @@ export class WalletSecurityManager {
     };
   }
 
+  /**
+   * Default multisig config for new vaults, without the timelock when timelocks are disabled
+   */
+  getMultiSigVaultConfig(): MultiSigConfig {
+    const { enabled, defaultConfig, enableTimelock } = this.config.multiSig;
+    if (!enabled) {
+      throw new Error('Multisig is disabled in the security configuration');
+    }
+    if (!defaultConfig) {
+      throw new Error('No default multisig configuration');
+    }
+
+    return enableTimelock ? defaultConfig : { ...defaultConfig, timelock: undefined };
+  }
+
+  /**
+   * Record a vault built from the multisig config
+   */
+  logMultiSigVaultCreated(details: { type: string; threshold: number; signers: number; recoveryTimelock?: number }): void {
+    this.logger.logSecurityEvent(SecurityEventType.MULTISIG_VAULT_CREATED, {
+      ...details,
+      timestamp: new Date().toISOString()
+    });
+  }
+
   /**
    * Transaction Validation Helper Methods
    */
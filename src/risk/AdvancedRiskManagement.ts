@@ -1,3 +1,7 @@
+import { choleskyDecomposition, mulberry32, normalInverse, standardNormal } from '@/lib/math';
+
+export { choleskyDecomposition };
+
 export interface RiskMetrics {
   volatility: number;
   sharpeRatio: number;
@@ -19,6 +23,8 @@ export interface PositionRisk {
   correlationRisk: number;
   individualVaR: number;
   contributionToPortfolioRisk: number;
+  marginalVaR: number;
+  componentVaR: number;
 }
 
 export interface RiskAlert {
@@ -31,6 +37,99 @@ export interface RiskAlert {
   resolved: boolean;
 }
 
+export interface StressScenario {
+  id: string;
+  name: string;
+  description: string;
+  horizonDays: number;
+  shocks: Record<string, number>; // symbol -> return over the horizon
+  defaultShock: number; // applied to symbols the scenario does not list
+}
+
+export interface StressTestResult {
+  scenarioId: string;
+  name: string;
+  horizonDays: number;
+  portfolioReturn: number;
+  portfolioLoss: number; // in portfolio currency, positive means a loss
+  positionImpacts: Array<{ symbol: string; weight: number; shock: number; contribution: number }>;
+  worstPosition: string | null;
+}
+
+export interface MonteCarloOptions {
+  simulations?: number;
+  horizonDays?: number;
+  confidence?: number;
+  seed?: number;
+}
+
+export interface MonteCarloResult {
+  simulations: number;
+  horizonDays: number;
+  confidence: number;
+  expectedReturn: number;
+  valueAtRisk: number;
+  conditionalValueAtRisk: number;
+  probabilityOfLoss: number;
+  worstReturn: number;
+  percentiles: { p1: number; p5: number; p50: number; p95: number; p99: number };
+}
+
+export interface VaREstimate {
+  confidence: number;
+  horizonDays: number;
+  historical: number;
+  parametric: number;
+  cornishFisher: number;
+  skewness: number;
+  excessKurtosis: number;
+}
+
+export interface ScenarioAnalysis {
+  stressTests: StressTestResult[];
+  monteCarlo: MonteCarloResult;
+  valueAtRisk: VaREstimate;
+  positionRisks: PositionRisk[];
+}
+
+// Approximate close-to-close moves over each episode
+export const HISTORICAL_STRESS_SCENARIOS: StressScenario[] = [
+  {
+    id: 'covid-crash-2020',
+    name: 'March 2020 crash',
+    description: 'Liquidation cascade of 12-13 March 2020',
+    horizonDays: 2,
+    shocks: { BTC: -0.39, ETH: -0.43, SOL: -0.45 },
+    defaultShock: -0.45
+  },
+  {
+    id: 'luna-collapse-2022',
+    name: 'Terra/LUNA collapse',
+    description: 'UST depeg and LUNA hyperinflation, 7-12 May 2022',
+    horizonDays: 6,
+    shocks: { BTC: -0.22, ETH: -0.30, SOL: -0.40, LUNA: -0.99, UST: -0.85, USDT: -0.01 },
+    defaultShock: -0.35
+  },
+  {
+    id: 'ftx-collapse-2022',
+    name: 'FTX collapse',
+    description: 'FTX insolvency and Alameda unwind, 6-9 November 2022',
+    horizonDays: 4,
+    shocks: { BTC: -0.24, ETH: -0.27, SOL: -0.60, FTT: -0.92 },
+    defaultShock: -0.30
+  },
+  {
+    id: 'halving-week-2024',
+    name: 'Halving week',
+    description: 'Fee spike and rotation around the April 2024 halving and Runes launch',
+    horizonDays: 7,
+    shocks: { BTC: -0.05, ORDI: -0.15, SATS: -0.18 },
+    defaultShock: -0.12
+  }
+];
+
+const STABLECOINS = ['USDT', 'USDC', 'DAI', 'BUSD', 'FDUSD', 'TUSD'];
+
 export class AdvancedRiskManagement {
   private riskTolerance: 'CONSERVATIVE' | 'MODERATE' | 'AGGRESSIVE' = 'MODERATE';
   private maxPositionSize: number = 0.2; // 20% max allocation per asset
@@ -73,8 +172,8 @@ export class AdvancedRiskManagement {
     const volatility = this.calculateVolatility(portfolioReturns);
     const sharpeRatio = this.calculateSharpeRatio(portfolioReturns);
     const maxDrawdown = this.calculateMaxDrawdown(portfolioReturns);
-    const valueAtRisk = this.calculateVaR(portfolioReturns, 0.05); // 95% confidence
-    const conditionalValueAtRisk = this.calculateCVaR(portfolioReturns, 0.05);
+    const valueAtRisk = this.calculateVaR(portfolioReturns, 0.95); // 95% confidence
+    const conditionalValueAtRisk = this.calculateCVaR(portfolioReturns, 0.95);
     const betaToMarket = this.calculateBeta(portfolioReturns, marketReturns);
     const correlationToMarket = this.calculateCorrelation(portfolioReturns, marketReturns);
     const diversificationRatio = this.calculateDiversificationRatio(positions);
@@ -359,6 +458,219 @@ export class AdvancedRiskManagement {
     return Math.min(adjustedFraction, maxFraction);
   }
 
+  /**
+   * Replays each scenario's shocks on the current allocation
+   */
+  public runStressTest(
+    positions: Array<{ symbol: string; allocation: number }>,
+    scenarios: StressScenario[] = HISTORICAL_STRESS_SCENARIOS,
+    portfolioValue: number = 1
+  ): StressTestResult[] {
+    const weights = this.normalizeWeights(positions);
+
+    return scenarios.map(scenario => {
+      const positionImpacts = positions.map((position, i) => {
+        const shock = this.scenarioShock(scenario, position.symbol);
+        return { symbol: position.symbol, weight: weights[i], shock, contribution: weights[i] * shock };
+      });
+
+      const portfolioReturn = positionImpacts.reduce((sum, p) => sum + p.contribution, 0);
+      const worst = positionImpacts.reduce<typeof positionImpacts[number] | null>(
+        (min, p) => (min === null || p.contribution < min.contribution ? p : min),
+        null
+      );
+
+      return {
+        scenarioId: scenario.id,
+        name: scenario.name,
+        horizonDays: scenario.horizonDays,
+        portfolioReturn,
+        portfolioLoss: -portfolioReturn * portfolioValue,
+        positionImpacts,
+        worstPosition: worst && worst.contribution < 0 ? worst.symbol : null
+      };
+    });
+  }
+
+  /**
+   * Correlated Monte Carlo: daily returns drawn from N(mean, covariance) through the
+   * Cholesky factor of the sample covariance, compounded per asset over the horizon
+   */
+  public runMonteCarloSimulation(
+    positions: Array<{ symbol: string; allocation: number; returns: number[] }>,
+    options: MonteCarloOptions = {}
+  ): MonteCarloResult {
+    const simulations = options.simulations ?? 10000;
+    const horizonDays = options.horizonDays ?? 1;
+    const confidence = options.confidence ?? 0.95;
+
+    const weights = this.normalizeWeights(positions);
+    const returns = this.alignReturns(positions);
+    const means = returns.map(series => average(series));
+    const factor = choleskyDecomposition(covarianceMatrix(returns));
+    const random = mulberry32(options.seed ?? 42);
+    const n = positions.length;
+
+    const outcomes: number[] = new Array(simulations);
+    const shocks: number[] = new Array(n);
+    const growth: number[] = new Array(n);
+
+    for (let s = 0; s < simulations; s++) {
+      growth.fill(1);
+      for (let day = 0; day < horizonDays; day++) {
+        for (let i = 0; i < n; i++) shocks[i] = standardNormal(random);
+        for (let i = 0; i < n; i++) {
+          let r = means[i];
+          for (let k = 0; k <= i; k++) r += factor[i][k] * shocks[k];
+          // A position cannot lose more than its value
+          growth[i] *= Math.max(0, 1 + r);
+        }
+      }
+      outcomes[s] = weights.reduce((sum, w, i) => sum + w * (growth[i] - 1), 0);
+    }
+
+    outcomes.sort((a, b) => a - b);
+    const tailSize = Math.max(1, Math.floor((1 - confidence) * simulations));
+    const percentile = (p: number) => outcomes[Math.min(simulations - 1, Math.floor(p * simulations))];
+
+    return {
+      simulations,
+      horizonDays,
+      confidence,
+      expectedReturn: average(outcomes),
+      valueAtRisk: Math.max(0, -outcomes[tailSize - 1]),
+      conditionalValueAtRisk: Math.max(0, -average(outcomes.slice(0, tailSize))),
+      probabilityOfLoss: outcomes.filter(r => r < 0).length / simulations,
+      worstReturn: outcomes[0],
+      percentiles: {
+        p1: percentile(0.01),
+        p5: percentile(0.05),
+        p50: percentile(0.5),
+        p95: percentile(0.95),
+        p99: percentile(0.99)
+      }
+    };
+  }
+
+  /**
+   * Historical, parametric (normal) and Cornish-Fisher VaR of the portfolio, scaled
+   * from daily returns by the square root of the horizon
+   */
+  public calculateVaREstimates(
+    positions: Array<{ symbol: string; allocation: number; returns: number[] }>,
+    confidence: number = 0.95,
+    horizonDays: number = 1
+  ): VaREstimate {
+    const returns = this.calculatePortfolioReturns(positions);
+    const mu = average(returns);
+    const sigma = standardDeviation(returns);
+    const skewness = sampleSkewness(returns);
+    const excessKurtosis = sampleExcessKurtosis(returns);
+
+    const z = normalInverse(1 - confidence);
+    // Cornish-Fisher expansion adjusts the normal quantile for skew and fat tails
+    const zCF = z
+      + (z * z - 1) * skewness / 6
+      + (z * z * z - 3 * z) * excessKurtosis / 24
+      - (2 * z * z * z - 5 * z) * skewness * skewness / 36;
+
+    const scale = Math.sqrt(horizonDays);
+    return {
+      confidence,
+      horizonDays,
+      historical: this.calculateVaR(returns, confidence) * scale,
+      parametric: Math.max(0, -(mu * horizonDays + z * sigma * scale)),
+      cornishFisher: Math.max(0, -(mu * horizonDays + zCF * sigma * scale)),
+      skewness,
+      excessKurtosis
+    };
+  }
+
+  /**
+   * Per-position risk with marginal and component VaR from the covariance matrix.
+   * Component VaRs add up to the portfolio's volatility-only parametric VaR
+   */
+  public calculatePositionRisks(
+    positions: Array<{ symbol: string; allocation: number; returns: number[]; price: number; volume: number }>,
+    portfolioValue: number,
+    confidence: number = 0.95,
+    horizonDays: number = 1
+  ): PositionRisk[] {
+    const weights = this.normalizeWeights(positions);
+    const returns = this.alignReturns(positions);
+    const covariance = covarianceMatrix(returns);
+    const quantile = -normalInverse(1 - confidence) * Math.sqrt(horizonDays);
+
+    const covTimesWeights = covariance.map(row => row.reduce((sum, c, j) => sum + c * weights[j], 0));
+    const portfolioVariance = weights.reduce((sum, w, i) => sum + w * covTimesWeights[i], 0);
+    const portfolioSigma = Math.sqrt(Math.max(portfolioVariance, 0));
+
+    const portfolioSeries = returns[0].map((_, t) => weights.reduce((sum, w, i) => sum + w * returns[i][t], 0));
+    const componentVaRs = weights.map((w, i) =>
+      portfolioSigma === 0 ? 0 : w * quantile * covTimesWeights[i] / portfolioSigma
+    );
+    const totalComponentVaR = componentVaRs.reduce((sum, c) => sum + c, 0);
+
+    return positions.map((position, i) => {
+      const positionValue = weights[i] * portfolioValue;
+      const dollarVolume = position.volume * position.price;
+
+      return {
+        symbol: position.symbol,
+        allocation: position.allocation,
+        concentrationRisk: Math.min(weights[i] / this.maxPositionSize, 1),
+        // Share of 10% of daily volume needed to exit the position
+        liquidityRisk: dollarVolume > 0 ? Math.min(positionValue / (dollarVolume * 0.1), 1) : 1,
+        correlationRisk: this.calculateCorrelation(returns[i], portfolioSeries),
+        individualVaR: weights[i] * quantile * Math.sqrt(Math.max(covariance[i][i], 0)),
+        contributionToPortfolioRisk: totalComponentVaR === 0 ? 0 : componentVaRs[i] / totalComponentVaR,
+        marginalVaR: portfolioSigma === 0 ? 0 : quantile * covTimesWeights[i] / portfolioSigma,
+        componentVaR: componentVaRs[i]
+      };
+    });
+  }
+
+  /**
+   * Stress tests, Monte Carlo, VaR estimates and per-position contributions in one pass
+   */
+  public runScenarioAnalysis(
+    positions: Array<{ symbol: string; allocation: number; returns: number[]; price: number; volume: number }>,
+    portfolioValue: number,
+    options: { scenarios?: StressScenario[]; monteCarlo?: MonteCarloOptions; confidence?: number; horizonDays?: number } = {}
+  ): ScenarioAnalysis {
+    const confidence = options.confidence ?? 0.95;
+    const horizonDays = options.horizonDays ?? 1;
+
+    return {
+      stressTests: this.runStressTest(positions, options.scenarios, portfolioValue),
+      monteCarlo: this.runMonteCarloSimulation(positions, { confidence, horizonDays, ...options.monteCarlo }),
+      valueAtRisk: this.calculateVaREstimates(positions, confidence, horizonDays),
+      positionRisks: this.calculatePositionRisks(positions, portfolioValue, confidence, horizonDays)
+    };
+  }
+
+  private scenarioShock(scenario: StressScenario, symbol: string): number {
+    // "BTC/USDT" or "BTC-USD" count as BTC
+    const base = symbol.toUpperCase().split(/[/-]/)[0];
+    if (scenario.shocks[base] !== undefined) return scenario.shocks[base];
+    return STABLECOINS.includes(base) ? 0 : scenario.defaultShock;
+  }
+
+  // Same convention as calculatePortfolioReturns: allocations are relative weights
+  private normalizeWeights(positions: Array<{ allocation: number }>): number[] {
+    const total = positions.reduce((sum, p) => sum + p.allocation, 0);
+    if (total <= 0) throw new Error('Portfolio allocations must sum to a positive value');
+    return positions.map(p => p.allocation / total);
+  }
+
+  // Covariance needs one observation per asset per period, so series are cut to their most recent common length
+  private alignReturns(positions: Array<{ returns: number[] }>): number[][] {
+    if (positions.length === 0) throw new Error('At least one position is required');
+    const length = Math.min(...positions.map(p => p.returns.length));
+    if (length < 2) throw new Error('At least two aligned return observations are required');
+    return positions.map(p => p.returns.slice(p.returns.length - length));
+  }
+
   public setRiskTolerance(tolerance: 'CONSERVATIVE' | 'MODERATE' | 'AGGRESSIVE'): void {
     this.riskTolerance = tolerance;
     this.setRiskParameters();
@@ -367,4 +679,43 @@ export class AdvancedRiskManagement {
   public getRiskTolerance(): string {
     return this.riskTolerance;
   }
-}
\ No newline at end of file
+}
+
+function covarianceMatrix(series: number[][]): number[][] {
+  const means = series.map(s => average(s));
+  const length = series[0].length;
+
+  return series.map((a, i) => series.map((b, j) => {
+    let sum = 0;
+    for (let t = 0; t < length; t++) sum += (a[t] - means[i]) * (b[t] - means[j]);
+    return sum / (length - 1);
+  }));
+}
+
+function average(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = average(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1));
+}
+
+function sampleSkewness(values: number[]): number {
+  const sigma = standardDeviation(values);
+  if (values.length < 3 || sigma === 0) return 0;
+  const mean = average(values);
+  const n = values.length;
+  const m3 = values.reduce((sum, v) => sum + ((v - mean) / sigma) ** 3, 0);
+  return (n / ((n - 1) * (n - 2))) * m3;
+}
+
+function sampleExcessKurtosis(values: number[]): number {
+  const sigma = standardDeviation(values);
+  if (values.length < 4 || sigma === 0) return 0;
+  const mean = average(values);
+  const n = values.length;
+  const m4 = values.reduce((sum, v) => sum + ((v - mean) / sigma) ** 4, 0);
+  return (n * (n + 1) / ((n - 1) * (n - 2) * (n - 3))) * m4 - (3 * (n - 1) ** 2) / ((n - 2) * (n - 3));
+}
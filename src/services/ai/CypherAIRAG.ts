@@ -6,18 +6,29 @@
 import { EventEmitter } from 'events';
 import { EnhancedLogger } from '@/lib/enhanced-logger';
 import { OpenAI } from 'openai';
-import { Pinecone } from '@pinecone-database/pinecone';
-import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
-import { Document } from 'langchain/document';
+import { type EmbeddingProvider, LocalEmbeddingProvider, OpenAIEmbeddingProvider } from './EmbeddingProvider';
+import { HybridRetriever, type HybridRetrieverOptions } from './HybridRetriever';
+import {
+  type DirectoryIngestOptions,
+  type IngestOptions,
+  chunkText,
+  loadDocumentsFromDirectory,
+  markdownToDocuments
+} from './KnowledgeIngestion';
+import { LocalVectorStore, PineconeVectorStore, type VectorFilter, type VectorStore } from './VectorStore';
 
 // AI System Types
 export interface CypherAIConfig {
   openaiApiKey: string;
   geminiApiKey: string;
   elevenLabsApiKey: string;
-  pineconeApiKey: string;
-  pineconeEnvironment: string;
-  pineconeIndex: string;
+  // Pinecone is used when configured; otherwise the knowledge base stays in-process
+  pineconeApiKey?: string;
+  pineconeIndex?: string;
+  vectorStore?: VectorStore;
+  vectorStorePath?: string; // persistence file for the in-process store
+  embeddingProvider?: EmbeddingProvider; // OpenAI when an API key is set, local hashing otherwise
+  retrieval?: HybridRetrieverOptions;
   personality: AIPersonality;
   capabilities: AICapabilities;
 }
@@ -103,7 +114,15 @@ export interface KnowledgeDocument {
   content: string;
   metadata: {
     source: string;
-    type: 'market_data' | 'technical_analysis' | 'news' | 'research' | 'user_data';
+    type:
+      | 'market_data'
+      | 'technical_analysis'
+      | 'news'
+      | 'research'
+      | 'user_data'
+      | 'documentation'
+      | 'conversation'
+      | 'crypto_basics';
     timestamp: number;
     tags: string[];
     relevance: number;
@@ -133,9 +152,7 @@ export interface AIResponse {
 export class CypherAIRAG extends EventEmitter {
   private config: CypherAIConfig;
   private openai: OpenAI;
-  private pinecone: Pinecone;
-  private logger: EnhancedLogger;
-  private textSplitter: RecursiveCharacterTextSplitter;
+  private retriever: HybridRetriever;
   private conversations: Map<string, ConversationContext> = new Map();
   private knowledgeBase: Map<string, KnowledgeDocument> = new Map();
   private isInitialized: boolean = false;
@@ -168,29 +185,30 @@ export class CypherAIRAG extends EventEmitter {
   constructor(config: CypherAIConfig) {
     super();
     this.config = config;
-    this.logger = new EnhancedLogger();
     
     // Initialize OpenAI
     this.openai = new OpenAI({
       apiKey: config.openaiApiKey
     });
 
-    // Initialize Pinecone
-    this.pinecone = new Pinecone({
-      apiKey: config.pineconeApiKey,
-      environment: config.pineconeEnvironment
-    });
-
-    // Initialize text splitter for RAG
-    this.textSplitter = new RecursiveCharacterTextSplitter({
-      chunkSize: 1000,
-      chunkOverlap: 200
-    });
-
-    this.logger.info('Cypher AI RAG system initialized', {
+    // Knowledge base: vector store + embeddings, fused with BM25 at query time
+    const embeddings = config.embeddingProvider ?? (config.openaiApiKey
+      ? new OpenAIEmbeddingProvider(this.openai)
+      : new LocalEmbeddingProvider());
+    const store = config.vectorStore ?? (config.pineconeApiKey && config.pineconeIndex
+      ? new PineconeVectorStore({
+        apiKey: config.pineconeApiKey,
+        index: config.pineconeIndex
+      })
+      : new LocalVectorStore({ path: config.vectorStorePath, embeddingModel: embeddings.name }));
+    this.retriever = new HybridRetriever(store, embeddings, config.retrieval);
+
+    EnhancedLogger.info('Cypher AI RAG system initialized', {
       component: 'CypherAIRAG',
       personality: config.personality.name,
-      language: config.personality.language
+      language: config.personality.language,
+      vectorStore: store.name,
+      embeddings: embeddings.name
     });
   }
 
@@ -201,21 +219,21 @@ export class CypherAIRAG extends EventEmitter {
     if (this.isInitialized) return;
 
     try {
-      // Initialize Pinecone index
-      const index = this.pinecone.Index(this.config.pineconeIndex);
+      // Load persisted documents, then the initial knowledge base
+      if (this.retriever.store instanceof LocalVectorStore) this.retriever.store.load();
+      await this.retriever.load();
       
-      // Load initial knowledge base
       await this.loadKnowledgeBase();
       
       // Test connections
       await this.testConnections();
       
       this.isInitialized = true;
-      this.logger.info('Cypher AI RAG fully initialized');
+      EnhancedLogger.info('Cypher AI RAG fully initialized');
       this.emit('initialized');
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to initialize Cypher AI RAG:');
+      EnhancedLogger.error('Failed to initialize Cypher AI RAG:', { error });
       throw error;
     }
   }
@@ -249,7 +267,7 @@ export class CypherAIRAG extends EventEmitter {
       return response;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Error processing input:');
+      EnhancedLogger.error('Error processing input:', { error });
       throw error;
     }
   }
@@ -322,52 +340,70 @@ export class CypherAIRAG extends EventEmitter {
     }>
   ): Promise<void> {
     try {
-      const index = this.pinecone.Index(this.config.pineconeIndex);
-      
+      const timestamp = Date.now();
+      const bySource = new Map<string, KnowledgeDocument[]>();
       for (const doc of documents) {
-        // Split document into chunks
-        const chunks = await this.textSplitter.createDocuments(
-          [doc.content],
-          [doc.metadata]
-        );
-        
-        // Generate embeddings for each chunk
-        const embeddings = await this.generateEmbeddings(
-          chunks.map(chunk => chunk.pageContent)
-        );
-        
-        // Store in Pinecone
-        const vectors = chunks.map((chunk, i) => ({
-          id: `doc-${Date.now()}-${i}`,
-          values: embeddings[i],
+        // Ids follow the content, so re-adding the same text updates it in place
+        const chunks: KnowledgeDocument[] = chunkText(doc.content).map((chunk, i) => ({
+          id: `${doc.metadata.source}-${contentHash(doc.content)}-${i}`,
+          content: chunk,
           metadata: {
-            ...chunk.metadata,
-            content: chunk.pageContent,
-            timestamp: Date.now()
+            source: doc.metadata.source,
+            type: doc.metadata.type as KnowledgeDocument['metadata']['type'],
+            timestamp,
+            tags: doc.metadata.tags,
+            relevance: 1
           }
         }));
-        
-        await index.upsert(vectors);
-        
-        // Store in local knowledge base
-        vectors.forEach(vector => {
-          this.knowledgeBase.set(vector.id, {
-            id: vector.id,
-            content: vector.metadata.content,
-            metadata: vector.metadata as any,
-            embeddings: vector.values
-          });
-        });
+        bySource.set(doc.metadata.source, [...(bySource.get(doc.metadata.source) ?? []), ...chunks]);
+      }
+
+      // Edited text gets new ids, so the previous version of each source is dropped
+      for (const [source, sourceDocuments] of Array.from(bySource.entries())) {
+        await this.replaceSource(source, sourceDocuments);
       }
       
-      this.logger.info('Added documents to knowledge base', { count: documents.length });
+      EnhancedLogger.info('Added documents to knowledge base', { count: documents.length });
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to add to knowledge base:');
+      EnhancedLogger.error('Failed to add to knowledge base:', { error });
       throw error;
     }
   }
 
+  /**
+   * Ingest a markdown document (front matter, headings) into the knowledge base,
+   * replacing whatever was previously ingested from the same source
+   */
+  async ingestMarkdown(markdown: string, options: IngestOptions): Promise<number> {
+    const documents = markdownToDocuments(markdown, options);
+    await this.replaceSource(options.source, documents);
+    EnhancedLogger.info('Ingested markdown into knowledge base', { source: options.source, chunks: documents.length });
+    return documents.length;
+  }
+
+  /**
+   * Ingest every markdown/text file under a directory, e.g. our docs folder
+   */
+  async ingestDirectory(directory: string, options: DirectoryIngestOptions = {}): Promise<number> {
+    const documents = loadDocumentsFromDirectory(directory, options);
+    const bySource = new Map<string, KnowledgeDocument[]>();
+    documents.forEach(doc => bySource.set(doc.metadata.source, [...(bySource.get(doc.metadata.source) ?? []), doc]));
+
+    for (const [source, sourceDocuments] of Array.from(bySource.entries())) {
+      await this.replaceSource(source, sourceDocuments);
+    }
+    EnhancedLogger.info('Ingested directory into knowledge base', { directory, files: bySource.size, chunks: documents.length });
+    return documents.length;
+  }
+
+  /**
+   * Search the knowledge base (hybrid BM25 + vector), optionally filtered by type, tags or time
+   */
+  async searchKnowledgeBase(query: string, topK: number = 5, filter?: VectorFilter): Promise<KnowledgeDocument[]> {
+    return this.retrieveRelevantDocuments(query, topK, filter);
+  }
+
   /**
    * Get conversation history
    */
@@ -421,40 +457,31 @@ export class CypherAIRAG extends EventEmitter {
     };
   }
 
+  private async replaceSource(source: string, documents: KnowledgeDocument[]): Promise<void> {
+    // Chunks left over from a longer previous version of the same source
+    const ids = new Set(documents.map(doc => doc.id));
+    const stale = Array.from(this.knowledgeBase.values())
+      .filter(doc => doc.metadata.source === source && !ids.has(doc.id))
+      .map(doc => doc.id);
+    if (stale.length > 0) {
+      await this.retriever.remove(stale);
+      stale.forEach(id => this.knowledgeBase.delete(id));
+    }
+
+    const stored = await this.retriever.add(documents);
+    stored.forEach(doc => this.knowledgeBase.set(doc.id, doc));
+  }
+
   private async retrieveRelevantDocuments(
     query: string,
-    topK: number = 5
+    topK: number = 5,
+    filter?: VectorFilter
   ): Promise<KnowledgeDocument[]> {
     try {
-      const index = this.pinecone.Index(this.config.pineconeIndex);
-      
-      // Generate query embedding
-      const queryEmbedding = await this.generateEmbedding(query);
-      
-      // Search in Pinecone
-      const results = await index.query({
-        vector: queryEmbedding,
-        topK,
-        includeMetadata: true
-      });
-      
-      // Convert to KnowledgeDocument format
-      const documents: KnowledgeDocument[] = results.matches?.map(match => ({
-        id: match.id,
-        content: match.metadata?.content as string || '',
-        metadata: {
-          source: match.metadata?.source as string || '',
-          type: match.metadata?.type as any || 'general',
-          timestamp: match.metadata?.timestamp as number || Date.now(),
-          tags: match.metadata?.tags as string[] || [],
-          relevance: match.score || 0
-        }
-      })) || [];
-      
-      return documents;
+      return await this.retriever.search(query, { topK, filter });
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to retrieve documents:');
+      EnhancedLogger.error('Failed to retrieve documents:', { error });
       return [];
     }
   }
@@ -560,7 +587,7 @@ INSTRUÇÕES:
       };
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to generate response:');
+      EnhancedLogger.error('Failed to generate response:', { error });
       
       // Fallback response
       return {
@@ -626,7 +653,7 @@ INSTRUÇÕES:
       return { text: transcription.text };
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to transcribe audio:');
+      EnhancedLogger.error('Failed to transcribe audio:', { error });
       throw error;
     }
   }
@@ -655,7 +682,7 @@ INSTRUÇÕES:
       return `data:audio/mp3;base64,${Buffer.from(audioBuffer).toString('base64')}`;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to generate voice response:');
+      EnhancedLogger.error('Failed to generate voice response:', { error });
       return '';
     }
   }
@@ -687,7 +714,7 @@ INSTRUÇÕES:
       return response.choices[0].message.content || 'Unable to analyze images';
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to analyze images:');
+      EnhancedLogger.error('Failed to analyze images:', { error });
       return 'Image analysis failed';
     }
   }
@@ -750,26 +777,6 @@ INSTRUÇÕES:
     return { intent: detectedIntent, entities, sentiment };
   }
 
-  private async generateEmbeddings(texts: string[]): Promise<number[][]> {
-    try {
-      const response = await this.openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: texts
-      });
-      
-      return response.data.map(item => item.embedding);
-
-    } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to generate embeddings:');
-      throw error;
-    }
-  }
-
-  private async generateEmbedding(text: string): Promise<number[]> {
-    const embeddings = await this.generateEmbeddings([text]);
-    return embeddings[0];
-  }
-
   private extractCitations(text: string, documents: KnowledgeDocument[]): Citation[] {
     // Simple citation extraction - in production would be more sophisticated
     return documents
@@ -947,7 +954,7 @@ INSTRUÇÕES:
       await this.addToKnowledgeBase([interactionDoc]);
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to store interaction:');
+      EnhancedLogger.error('Failed to store interaction:', { error });
     }
   }
 
@@ -972,14 +979,25 @@ INSTRUÇÕES:
   }
 
   private async testConnections(): Promise<void> {
-    // Test OpenAI
-    await this.openai.models.list();
+    // Test OpenAI (offline deployments run without it)
+    if (this.config.openaiApiKey) {
+      await this.openai.models.list();
+    }
     
-    // Test Pinecone
-    await this.pinecone.describeIndex(this.config.pineconeIndex);
+    // Test the vector store
+    await this.retriever.store.healthCheck?.();
     
-    this.logger.info('All AI connections tested successfully');
+    EnhancedLogger.info('All AI connections tested successfully');
+  }
+}
+
+function contentHash(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
   }
+  return (hash >>> 0).toString(16).padStart(8, '0');
 }
 
 // Export factory function
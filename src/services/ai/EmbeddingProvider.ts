@@ -0,0 +1,149 @@
+/**
+ * Embedding Providers
+ * Pluggable text embeddings for the RAG knowledge base: OpenAI for hosted deployments and a
+ * deterministic feature-hashing embedder for offline/self-hosted deployments and tests
+ */
+
+import type { OpenAI } from 'openai';
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface OpenAIEmbeddingOptions {
+  model?: string;
+  dimensions?: number;
+  batchSize?: number; // inputs per request
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+  private client: OpenAI;
+  private model: string;
+  private batchSize: number;
+  private requestedDimensions?: number;
+
+  constructor(client: OpenAI, options: OpenAIEmbeddingOptions = {}) {
+    this.client = client;
+    this.model = options.model ?? 'text-embedding-3-small';
+    this.dimensions = options.dimensions ?? 1536;
+    // Only the text-embedding-3 models accept a shortened output, so only ask when configured
+    this.requestedDimensions = options.dimensions;
+    this.batchSize = options.batchSize ?? 96;
+    this.name = `openai:${this.model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: texts.slice(i, i + this.batchSize),
+        ...(this.requestedDimensions ? { dimensions: this.requestedDimensions } : {})
+      });
+      embeddings.push(...response.data.map(item => item.embedding));
+    }
+    return embeddings;
+  }
+}
+
+export interface LocalEmbeddingOptions {
+  dimensions?: number;
+  charNgram?: number; // character n-gram length, 0 to disable
+}
+
+/**
+ * Feature hashing of word unigrams, word bigrams and character n-grams into a fixed-size,
+ * L2-normalised vector. No model and no network, and the same text always gives the same
+ * vector, so retrieval is reproducible in tests. Matches lexical overlap rather than meaning
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+  private charNgram: number;
+
+  constructor(options: LocalEmbeddingOptions = {}) {
+    this.dimensions = options.dimensions ?? 384;
+    this.charNgram = options.charNgram ?? 3;
+    if (!Number.isInteger(this.dimensions) || this.dimensions <= 0) {
+      throw new Error('Embedding dimensions must be a positive integer');
+    }
+    this.name = `local-hash:${this.dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedSync(text));
+  }
+
+  embedSync(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) ?? 0) + weight);
+
+    const tokens = tokenize(text);
+    tokens.forEach((token, i) => {
+      add(`w:${token}`, 1);
+      if (i > 0) add(`b:${tokens[i - 1]} ${token}`, 0.5);
+      if (this.charNgram > 0 && token.length > this.charNgram) {
+        const padded = `^${token}$`;
+        for (let j = 0; j + this.charNgram <= padded.length; j++) {
+          add(`c:${padded.slice(j, j + this.charNgram)}`, 0.25);
+        }
+      }
+    });
+
+    counts.forEach((count, feature) => {
+      const hash = fnv1a(feature);
+      // The sign bit keeps colliding features from always adding up
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * (1 + Math.log(count));
+    });
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Lower-cased, accent-folded word tokens, shared by the local embedder and BM25 so that
+ * "análise" and "analise" match
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 || /\d/.test(token));
+}
+
+export function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector.slice() : vector.map(v => v / norm);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vector dimensions differ: ${a.length} vs ${b.length}`);
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,217 @@
+/**
+ * Hybrid Retrieval for the Cypher AI knowledge base
+ * BM25 keyword scoring fused with vector similarity, so exact terms (tickers, rune names,
+ * inscription numbers) still rank when the embedding misses them
+ */
+
+import type { KnowledgeDocument } from './CypherAIRAG';
+import { type EmbeddingProvider, tokenize } from './EmbeddingProvider';
+import { type VectorFilter, type VectorStore, matchesFilter } from './VectorStore';
+
+export interface Bm25Options {
+  k1?: number; // term frequency saturation
+  b?: number; // document length normalisation
+}
+
+export interface ScoredId {
+  id: string;
+  score: number;
+}
+
+export class Bm25Index {
+  private k1: number;
+  private b: number;
+  private postings: Map<string, Map<string, number>> = new Map(); // term -> document id -> frequency
+  private documentTerms: Map<string, string[]> = new Map();
+  private lengths: Map<string, number> = new Map();
+  private totalLength = 0;
+
+  constructor(options: Bm25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  get size(): number {
+    return this.lengths.size;
+  }
+
+  add(id: string, text: string): void {
+    this.remove(id);
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+    tokens.forEach(token => frequencies.set(token, (frequencies.get(token) ?? 0) + 1));
+
+    frequencies.forEach((frequency, term) => {
+      if (!this.postings.has(term)) this.postings.set(term, new Map());
+      this.postings.get(term)!.set(id, frequency);
+    });
+    this.documentTerms.set(id, Array.from(frequencies.keys()));
+    this.lengths.set(id, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): void {
+    const terms = this.documentTerms.get(id);
+    if (!terms) return;
+    terms.forEach(term => {
+      const posting = this.postings.get(term)!;
+      posting.delete(id);
+      if (posting.size === 0) this.postings.delete(term);
+    });
+    this.totalLength -= this.lengths.get(id)!;
+    this.documentTerms.delete(id);
+    this.lengths.delete(id);
+  }
+
+  search(query: string, topK: number, accept?: (id: string) => boolean): ScoredId[] {
+    const documentCount = this.size;
+    if (documentCount === 0) return [];
+    const averageLength = this.totalLength / documentCount || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of Array.from(new Set(tokenize(query)))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+
+      posting.forEach((frequency, id) => {
+        if (accept && !accept(id)) return;
+        const length = this.lengths.get(id)!;
+        const tf = (frequency * (this.k1 + 1)) /
+          (frequency + this.k1 * (1 - this.b + this.b * (length / averageLength)));
+        scores.set(id, (scores.get(id) ?? 0) + idf * tf);
+      });
+    }
+
+    return Array.from(scores.entries())
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+      .slice(0, topK);
+  }
+}
+
+export interface HybridRetrieverOptions extends Bm25Options {
+  alpha?: number; // weight of vector similarity, 1 - alpha goes to BM25
+  candidateMultiplier?: number; // candidates fetched from each side per requested result
+}
+
+export interface HybridSearchOptions {
+  topK?: number;
+  filter?: VectorFilter;
+  alpha?: number;
+  minScore?: number;
+}
+
+/**
+ * Embeds and stores knowledge documents, and answers queries by fusing the store's cosine
+ * similarity with BM25 over the same documents. The BM25 side only knows documents added in
+ * this process or listed back from the store on load(), so for stores that can't list
+ * (Pinecone) it covers what was ingested since startup
+ */
+export class HybridRetriever {
+  readonly store: VectorStore;
+  readonly embeddings: EmbeddingProvider;
+  private lexical: Bm25Index;
+  private documents: Map<string, KnowledgeDocument> = new Map(); // content and metadata, no vectors
+  private alpha: number;
+  private candidateMultiplier: number;
+
+  constructor(store: VectorStore, embeddings: EmbeddingProvider, options: HybridRetrieverOptions = {}) {
+    this.store = store;
+    this.embeddings = embeddings;
+    this.lexical = new Bm25Index(options);
+    this.alpha = options.alpha ?? 0.6;
+    this.candidateMultiplier = options.candidateMultiplier ?? 4;
+    if (this.alpha < 0 || this.alpha > 1) throw new Error('alpha must be between 0 and 1');
+  }
+
+  /**
+   * Rebuilds the keyword index from the store, where the store can list its documents
+   */
+  async load(): Promise<number> {
+    if (!this.store.list) return 0;
+    const documents = await this.store.list();
+    documents.forEach(document => this.indexLexically(document));
+    return documents.length;
+  }
+
+  async add(documents: KnowledgeDocument[]): Promise<KnowledgeDocument[]> {
+    const missing = documents.filter(document => !document.embeddings);
+    const vectors = missing.length > 0 ? await this.embeddings.embed(missing.map(document => document.content)) : [];
+    const embedded = new Map(missing.map((document, i) => [document.id, vectors[i]]));
+
+    const prepared = documents.map(document => {
+      const embeddings = document.embeddings ?? embedded.get(document.id)!;
+      if (embeddings.length !== this.embeddings.dimensions) {
+        throw new Error(
+          `Document ${document.id} has ${embeddings.length}-dimension embeddings, ` +
+          `${this.embeddings.name} produces ${this.embeddings.dimensions}`
+        );
+      }
+      return { ...document, embeddings };
+    });
+
+    await this.store.upsert(prepared);
+    prepared.forEach(document => this.indexLexically(document));
+    return prepared;
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    await this.store.delete(ids);
+    ids.forEach(id => {
+      this.lexical.remove(id);
+      this.documents.delete(id);
+    });
+  }
+
+  /**
+   * Top documents for a query, with metadata.relevance set to the fused score (0-1):
+   * alpha * cosine + (1 - alpha) * BM25 normalised by the best BM25 score. A document found by
+   * only one side scores 0 on the other
+   */
+  async search(query: string, options: HybridSearchOptions = {}): Promise<KnowledgeDocument[]> {
+    const topK = options.topK ?? 5;
+    const alpha = options.alpha ?? this.alpha;
+    const candidates = topK * this.candidateMultiplier;
+    const [queryVector] = await this.embeddings.embed([query]);
+
+    const vectorMatches = await this.store.query({ vector: queryVector, topK: candidates, filter: options.filter });
+    const keywordMatches = this.lexical.search(
+      query,
+      candidates,
+      id => matchesFilter(this.documents.get(id)!, options.filter)
+    );
+    const bestKeywordScore = keywordMatches[0]?.score ?? 0;
+
+    const fused = new Map<string, { document: KnowledgeDocument; vector: number; keyword: number }>();
+    vectorMatches.forEach(match => {
+      fused.set(match.document.id, { document: match.document, vector: Math.max(0, match.score), keyword: 0 });
+    });
+    keywordMatches.forEach(match => {
+      const keyword = bestKeywordScore > 0 ? match.score / bestKeywordScore : 0;
+      const entry = fused.get(match.id);
+      if (entry) entry.keyword = keyword;
+      else fused.set(match.id, { document: this.documents.get(match.id)!, vector: 0, keyword });
+    });
+
+    return Array.from(fused.values())
+      .map(entry => ({ document: entry.document, score: alpha * entry.vector + (1 - alpha) * entry.keyword }))
+      .filter(entry => entry.score >= (options.minScore ?? 0))
+      .sort((a, b) => b.score - a.score || a.document.id.localeCompare(b.document.id))
+      .slice(0, topK)
+      .map(({ document, score }) => ({
+        id: document.id,
+        content: document.content,
+        metadata: { ...document.metadata, tags: [...document.metadata.tags], relevance: score }
+      }));
+  }
+
+  private indexLexically(document: KnowledgeDocument): void {
+    this.documents.set(document.id, {
+      id: document.id,
+      content: document.content,
+      metadata: { ...document.metadata, tags: [...document.metadata.tags] }
+    });
+    this.lexical.add(document.id, document.content);
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Knowledge Ingestion
+ * Turns our own docs (markdown with optional front matter, plain text) into chunked
+ * KnowledgeDocuments for the Cypher AI knowledge base
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { KnowledgeDocument } from './CypherAIRAG';
+import type { KnowledgeDocumentType } from './VectorStore';
+
+export interface ChunkOptions {
+  chunkSize?: number; // characters
+  chunkOverlap?: number; // characters repeated from the end of the previous chunk
+}
+
+export interface IngestOptions extends ChunkOptions {
+  source: string;
+  type?: KnowledgeDocumentType; // front matter `type` wins when valid
+  tags?: string[];
+  timestamp?: number; // front matter `date` wins when parseable
+}
+
+export interface DirectoryIngestOptions extends ChunkOptions {
+  type?: KnowledgeDocumentType;
+  tags?: string[];
+  extensions?: string[];
+}
+
+export interface MarkdownSection {
+  headings: string[]; // enclosing headings, outermost first
+  content: string;
+}
+
+export interface ParsedMarkdown {
+  frontMatter: Record<string, string | string[]>;
+  title?: string;
+  sections: MarkdownSection[];
+}
+
+const DOCUMENT_TYPES: KnowledgeDocumentType[] = [
+  'market_data',
+  'technical_analysis',
+  'news',
+  'research',
+  'user_data',
+  'documentation',
+  'conversation',
+  'crypto_basics'
+];
+
+const SEPARATORS = ['\n\n', '\n', '. ', ' ', ''];
+
+/**
+ * Splits on the coarsest separator that gets pieces under the chunk size (paragraphs, then
+ * lines, sentences, words), then packs pieces back into chunks with overlap
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const chunkSize = options.chunkSize ?? 1000;
+  const chunkOverlap = options.chunkOverlap ?? 200;
+  if (chunkSize <= 0) throw new Error('chunkSize must be positive');
+  if (chunkOverlap < 0 || chunkOverlap >= chunkSize) {
+    throw new Error('chunkOverlap must be at least 0 and smaller than chunkSize');
+  }
+
+  const pieces = splitRecursive(text, SEPARATORS, chunkSize);
+  const chunks: string[] = [];
+  const current: string[] = [];
+  let length = 0;
+
+  for (const piece of pieces) {
+    if (length + piece.length > chunkSize && current.length > 0) {
+      chunks.push(current.join(''));
+      // Carry the tail of this chunk into the next, within the overlap and leaving room for the piece
+      while (current.length > 0 && (length > chunkOverlap || length + piece.length > chunkSize)) {
+        length -= current.shift()!.length;
+      }
+    }
+    current.push(piece);
+    length += piece.length;
+  }
+  if (current.length > 0) chunks.push(current.join(''));
+
+  return chunks.map(chunk => chunk.trim()).filter(chunk => chunk.length > 0);
+}
+
+function splitRecursive(text: string, separators: string[], chunkSize: number): string[] {
+  if (text.length <= chunkSize) return [text];
+  const [separator, ...rest] = separators;
+
+  if (separator === '') {
+    const slices: string[] = [];
+    for (let i = 0; i < text.length; i += chunkSize) slices.push(text.slice(i, i + chunkSize));
+    return slices;
+  }
+
+  const parts = text.split(separator);
+  return parts.flatMap((part, i) => {
+    const piece = i < parts.length - 1 ? part + separator : part;
+    return piece.length <= chunkSize ? [piece] : splitRecursive(piece, rest, chunkSize);
+  });
+}
+
+export function parseMarkdown(markdown: string): ParsedMarkdown {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const frontMatter: Record<string, string | string[]> = {};
+  let start = 0;
+
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+    if (end > 0) {
+      parseFrontMatter(lines.slice(1, end), frontMatter);
+      start = end + 1;
+    }
+  }
+
+  const sections: MarkdownSection[] = [];
+  const headings: string[] = [];
+  let body: string[] = [];
+  let fence: string | null = null;
+  let title = typeof frontMatter.title === 'string' ? frontMatter.title : undefined;
+
+  const flush = () => {
+    const content = body.join('\n').trim();
+    if (content) sections.push({ headings: [...headings], content });
+    body = [];
+  };
+
+  for (const line of lines.slice(start)) {
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      if (fence === null) fence = fenceMatch[1];
+      else if (fenceMatch[1] === fence) fence = null;
+      body.push(line);
+      continue;
+    }
+
+    const heading = fence === null ? line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/) : null;
+    if (!heading) {
+      body.push(line);
+      continue;
+    }
+
+    flush();
+    const level = heading[1].length;
+    headings.length = Math.min(headings.length, level - 1);
+    headings[level - 1] = heading[2];
+    if (level === 1 && title === undefined) title = heading[2];
+  }
+  flush();
+
+  return {
+    frontMatter,
+    title,
+    // Headings skipped between levels (# then ###) leave holes
+    sections: sections.map(section => ({ ...section, headings: section.headings.filter(Boolean) }))
+  };
+}
+
+function parseFrontMatter(lines: string[], into: Record<string, string | string[]>): void {
+  let listKey: string | null = null;
+
+  for (const line of lines) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      (into[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+
+    const entry = line.match(/^([A-Za-z0-9_-]+)\s*:\s*(.*)$/);
+    if (!entry) continue;
+    const [, key, raw] = entry;
+    const value = raw.trim();
+
+    if (value === '') {
+      into[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      into[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+      listKey = null;
+    } else {
+      into[key] = unquote(value);
+      listKey = null;
+    }
+  }
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/**
+ * One document per chunk. Each chunk is prefixed with its title and heading path so it
+ * still makes sense on its own once retrieved. Ids are derived from the source and
+ * position, so re-ingesting a file replaces its chunks instead of duplicating them
+ */
+export function markdownToDocuments(markdown: string, options: IngestOptions): KnowledgeDocument[] {
+  const parsed = parseMarkdown(markdown);
+  const { frontMatter } = parsed;
+
+  const frontMatterType = frontMatter.type as KnowledgeDocumentType | undefined;
+  const type = frontMatterType && DOCUMENT_TYPES.includes(frontMatterType)
+    ? frontMatterType
+    : options.type ?? 'documentation';
+  const frontMatterTags = Array.isArray(frontMatter.tags)
+    ? frontMatter.tags
+    : typeof frontMatter.tags === 'string' ? frontMatter.tags.split(',').map(tag => tag.trim()) : [];
+  const tags = Array.from(new Set([...(options.tags ?? []), ...frontMatterTags].filter(Boolean)));
+  const date = typeof frontMatter.date === 'string' ? Date.parse(frontMatter.date) : NaN;
+  const timestamp = Number.isFinite(date) ? date : options.timestamp ?? Date.now();
+
+  const documents: KnowledgeDocument[] = [];
+  parsed.sections.forEach((section, sectionIndex) => {
+    const trail = [parsed.title, ...section.headings].filter((heading, i, all) => heading && all.indexOf(heading) === i);
+    const prefix = trail.length > 0 ? `${trail.join(' > ')}\n\n` : '';
+
+    chunkText(section.content, options).forEach((chunk, chunkIndex) => {
+      documents.push({
+        id: `${options.source}#${sectionIndex}.${chunkIndex}`,
+        content: prefix + chunk,
+        metadata: { source: options.source, type, timestamp, tags, relevance: 1 }
+      });
+    });
+  });
+
+  return documents;
+}
+
+export function textToDocuments(text: string, options: IngestOptions): KnowledgeDocument[] {
+  return chunkText(text, options).map((chunk, i) => ({
+    id: `${options.source}#0.${i}`,
+    content: chunk,
+    metadata: {
+      source: options.source,
+      type: options.type ?? 'documentation',
+      timestamp: options.timestamp ?? Date.now(),
+      tags: [...(options.tags ?? [])],
+      relevance: 1
+    }
+  }));
+}
+
+/**
+ * Reads every matching file under a directory (skipping dot folders and node_modules).
+ * Sources are paths relative to the directory; timestamps default to the file's mtime
+ */
+export function loadDocumentsFromDirectory(directory: string, options: DirectoryIngestOptions = {}): KnowledgeDocument[] {
+  const extensions = options.extensions ?? ['.md', '.mdx', '.txt'];
+  const documents: KnowledgeDocument[] = [];
+
+  const walk = (current: string) => {
+    const entries = fs.readdirSync(current, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && entry.name !== 'node_modules') walk(fullPath);
+        continue;
+      }
+      const extension = path.extname(entry.name).toLowerCase();
+      if (!entry.isFile() || !extensions.includes(extension)) continue;
+
+      const ingestOptions: IngestOptions = {
+        ...options,
+        source: path.relative(directory, fullPath).split(path.sep).join('/'),
+        timestamp: Math.floor(fs.statSync(fullPath).mtimeMs)
+      };
+      const text = fs.readFileSync(fullPath, 'utf8');
+      documents.push(...(extension === '.txt'
+        ? textToDocuments(text, ingestOptions)
+        : markdownToDocuments(text, ingestOptions)));
+    }
+  };
+
+  walk(directory);
+  return documents;
+}
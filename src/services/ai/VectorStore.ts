@@ -0,0 +1,568 @@
+/**
+ * Vector Stores for the Cypher AI knowledge base
+ * An in-process store (HNSW index, metadata filters, JSON persistence) for offline and
+ * self-hosted deployments, and a Pinecone adapter for hosted ones
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Index, Pinecone } from '@pinecone-database/pinecone';
+import { mulberry32 } from '@/lib/math';
+import type { KnowledgeDocument } from './CypherAIRAG';
+import { normalize } from './EmbeddingProvider';
+
+export type KnowledgeDocumentType = KnowledgeDocument['metadata']['type'];
+
+export interface VectorFilter {
+  type?: KnowledgeDocumentType | KnowledgeDocumentType[];
+  source?: string;
+  tags?: string[]; // every tag must be present
+  anyTags?: string[]; // at least one tag must be present
+  since?: number; // metadata.timestamp bounds, inclusive (ms)
+  until?: number;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  filter?: VectorFilter;
+}
+
+export interface VectorMatch {
+  document: KnowledgeDocument; // without embeddings
+  score: number; // cosine similarity
+}
+
+export interface VectorStore {
+  readonly name: string;
+  upsert(documents: KnowledgeDocument[]): Promise<void>; // documents must carry embeddings
+  query(query: VectorQuery): Promise<VectorMatch[]>;
+  delete(ids: string[]): Promise<void>;
+  count(): Promise<number>;
+  list?(): Promise<KnowledgeDocument[]>; // stores that can enumerate their documents
+  healthCheck?(): Promise<void>;
+}
+
+export function matchesFilter(document: KnowledgeDocument, filter?: VectorFilter): boolean {
+  if (!filter) return true;
+  const { metadata } = document;
+
+  if (filter.type !== undefined) {
+    const types = Array.isArray(filter.type) ? filter.type : [filter.type];
+    if (!types.includes(metadata.type)) return false;
+  }
+  if (filter.source !== undefined && metadata.source !== filter.source) return false;
+  if (filter.tags && !filter.tags.every(tag => metadata.tags.includes(tag))) return false;
+  if (filter.anyTags && filter.anyTags.length > 0 && !filter.anyTags.some(tag => metadata.tags.includes(tag))) {
+    return false;
+  }
+  if (filter.since !== undefined && metadata.timestamp < filter.since) return false;
+  if (filter.until !== undefined && metadata.timestamp > filter.until) return false;
+  return true;
+}
+
+export interface LocalVectorStoreOptions {
+  path?: string; // JSON file the store is loaded from and saved to; memory only when omitted
+  dimensions?: number; // fixed by the first upsert when omitted
+  embeddingModel?: string; // recorded in the file so vectors from another model are never mixed in
+  autosave?: boolean; // save after every upsert/delete, default true when a path is set
+  exactSearchLimit?: number; // brute-force search at or below this many candidates
+  hnsw?: {
+    m?: number; // links per node and layer
+    efConstruction?: number;
+    efSearch?: number;
+    seed?: number; // level assignment is seeded so rebuilt indexes are identical
+  };
+}
+
+interface PersistedStore {
+  version: 1;
+  dimensions: number | null;
+  embeddingModel?: string;
+  documents: KnowledgeDocument[];
+}
+
+interface StoredRecord {
+  document: KnowledgeDocument;
+  vector: number[]; // unit length
+  node: number;
+}
+
+/**
+ * In-process vector store. Small or tightly filtered candidate sets are scanned exactly;
+ * larger ones go through an HNSW graph. Deletes leave tombstones in the graph until more
+ * than half of it is dead, then the graph is rebuilt
+ */
+export class LocalVectorStore implements VectorStore {
+  readonly name = 'local';
+  private options: LocalVectorStoreOptions;
+  private dimensions: number | null;
+  private records: Map<string, StoredRecord> = new Map();
+  private byNode: Map<number, StoredRecord> = new Map();
+  private index: HnswIndex;
+
+  constructor(options: LocalVectorStoreOptions = {}) {
+    this.options = options;
+    this.dimensions = options.dimensions ?? null;
+    this.index = this.createIndex();
+  }
+
+  /**
+   * Loads the persisted documents, if any, and rebuilds the index from them
+   */
+  load(): number {
+    const filePath = this.options.path;
+    if (!filePath || !fs.existsSync(filePath)) return 0;
+
+    const data: PersistedStore = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    if (data.version !== 1) {
+      throw new Error(`Unsupported vector store version ${data.version} in ${filePath}`);
+    }
+    if (this.options.embeddingModel && data.embeddingModel && data.embeddingModel !== this.options.embeddingModel) {
+      throw new Error(
+        `${filePath} holds ${data.embeddingModel} embeddings but the store is configured for ` +
+        `${this.options.embeddingModel}; re-ingest the knowledge base into a new file`
+      );
+    }
+    if (this.options.dimensions && data.dimensions && data.dimensions !== this.options.dimensions) {
+      throw new Error(`${filePath} holds ${data.dimensions}-dimension vectors, expected ${this.options.dimensions}`);
+    }
+
+    this.dimensions = data.dimensions ?? this.dimensions;
+    this.records.clear();
+    this.byNode.clear();
+    this.index = this.createIndex();
+    data.documents.forEach(document => this.insert(document));
+    return this.records.size;
+  }
+
+  save(): void {
+    const filePath = this.options.path;
+    if (!filePath) throw new Error('LocalVectorStore has no path to save to');
+
+    const data: PersistedStore = {
+      version: 1,
+      dimensions: this.dimensions,
+      embeddingModel: this.options.embeddingModel,
+      documents: Array.from(this.records.values()).map(record => record.document)
+    };
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    // Write-then-rename so a crash mid-save never leaves a truncated store behind
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data));
+    fs.renameSync(tmpPath, filePath);
+  }
+
+  async upsert(documents: KnowledgeDocument[]): Promise<void> {
+    documents.forEach(document => this.insert(document));
+    this.compactIfNeeded();
+    this.autosave();
+  }
+
+  async query({ vector, topK, filter }: VectorQuery): Promise<VectorMatch[]> {
+    if (topK <= 0 || this.records.size === 0) return [];
+    this.assertDimensions(vector);
+    const unit = normalize(vector);
+    const exactLimit = this.options.exactSearchLimit ?? 2000;
+
+    let candidates: StoredRecord[] | null = null;
+    if (filter) {
+      candidates = Array.from(this.records.values()).filter(record => matchesFilter(record.document, filter));
+    } else if (this.records.size <= exactLimit) {
+      candidates = Array.from(this.records.values());
+    }
+
+    if (candidates && candidates.length <= exactLimit) {
+      return exactSearch(candidates, unit, topK);
+    }
+
+    // Widen the beam with the filter's selectivity so enough survivors come back
+    const efSearch = this.options.hnsw?.efSearch ?? 64;
+    const selectivity = candidates ? candidates.length / this.records.size : 1;
+    const ef = Math.ceil(Math.max(efSearch, topK) / Math.max(selectivity, 0.01));
+    const allowed = candidates ? new Set(candidates.map(record => record.node)) : null;
+    const results = this.index.search(unit, topK, ef, allowed ? node => allowed.has(node) : undefined);
+
+    if (candidates && results.length < Math.min(topK, candidates.length)) {
+      // The graph walk didn't reach enough filtered nodes; scan them instead
+      return exactSearch(candidates, unit, topK);
+    }
+    return results.map(({ node, distance }) => toMatch(this.byNode.get(node)!, 1 - distance));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    ids.forEach(id => this.remove(id));
+    this.compactIfNeeded();
+    this.autosave();
+  }
+
+  async count(): Promise<number> {
+    return this.records.size;
+  }
+
+  async list(): Promise<KnowledgeDocument[]> {
+    return Array.from(this.records.values()).map(record => record.document);
+  }
+
+  async healthCheck(): Promise<void> {
+    if (this.options.path) {
+      fs.mkdirSync(path.dirname(this.options.path), { recursive: true });
+      fs.accessSync(path.dirname(this.options.path), fs.constants.W_OK);
+    }
+  }
+
+  private insert(document: KnowledgeDocument): void {
+    if (!document.embeddings) {
+      throw new Error(`Document ${document.id} has no embeddings`);
+    }
+    this.assertDimensions(document.embeddings);
+    if (this.dimensions === null) this.dimensions = document.embeddings.length;
+
+    this.remove(document.id);
+    const vector = normalize(document.embeddings);
+    const record: StoredRecord = { document: cloneDocument(document), vector, node: this.index.add(vector) };
+    this.records.set(document.id, record);
+    this.byNode.set(record.node, record);
+  }
+
+  private remove(id: string): void {
+    const existing = this.records.get(id);
+    if (!existing) return;
+    this.index.remove(existing.node);
+    this.byNode.delete(existing.node);
+    this.records.delete(id);
+  }
+
+  private compactIfNeeded(): void {
+    if (this.index.deletedCount > this.index.liveCount) this.rebuild();
+  }
+
+  private rebuild(): void {
+    const records = Array.from(this.records.values());
+    this.index = this.createIndex();
+    this.byNode.clear();
+    records.forEach(record => {
+      record.node = this.index.add(record.vector);
+      this.byNode.set(record.node, record);
+    });
+  }
+
+  private createIndex(): HnswIndex {
+    const hnsw = this.options.hnsw ?? {};
+    return new HnswIndex(hnsw.m ?? 16, hnsw.efConstruction ?? 200, hnsw.seed ?? 42);
+  }
+
+  private assertDimensions(vector: number[]): void {
+    if (this.dimensions !== null && vector.length !== this.dimensions) {
+      throw new Error(`Expected ${this.dimensions}-dimension vectors, got ${vector.length}`);
+    }
+  }
+
+  private autosave(): void {
+    if (this.options.path && this.options.autosave !== false) this.save();
+  }
+}
+
+function exactSearch(records: StoredRecord[], unit: number[], topK: number): VectorMatch[] {
+  return records
+    .map(record => ({ record, score: dot(unit, record.vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map(({ record, score }) => toMatch(record, score));
+}
+
+function toMatch(record: StoredRecord, score: number): VectorMatch {
+  const { id, content, metadata } = record.document;
+  return { document: { id, content, metadata: { ...metadata, tags: [...metadata.tags] } }, score };
+}
+
+function cloneDocument(document: KnowledgeDocument): KnowledgeDocument {
+  return {
+    ...document,
+    metadata: { ...document.metadata, tags: [...document.metadata.tags] },
+    embeddings: document.embeddings ? [...document.embeddings] : undefined
+  };
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+interface Neighbour {
+  node: number;
+  distance: number;
+}
+
+/**
+ * Hierarchical navigable small world graph over unit vectors (distance = 1 - cosine),
+ * after Malkov & Yashunin. Nodes are never unlinked; removed ones are only skipped in results
+ */
+class HnswIndex {
+  private vectors: number[][] = [];
+  private links: number[][][] = []; // links[node][layer]
+  private deleted: Set<number> = new Set();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private levelMultiplier: number;
+  private random: () => number;
+
+  constructor(private m: number, private efConstruction: number, seed: number) {
+    this.levelMultiplier = 1 / Math.log(Math.max(m, 2));
+    this.random = mulberry32(seed);
+  }
+
+  get liveCount(): number {
+    return this.vectors.length - this.deleted.size;
+  }
+
+  get deletedCount(): number {
+    return this.deleted.size;
+  }
+
+  add(vector: number[]): number {
+    const node = this.vectors.length;
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+    this.vectors.push(vector);
+    this.links.push(Array.from({ length: level + 1 }, () => []));
+
+    if (this.entryPoint < 0) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+      return node;
+    }
+
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      current = this.greedy(vector, current, layer);
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(vector, current, this.efConstruction, layer);
+      const neighbours = candidates.slice(0, this.m).map(candidate => candidate.node);
+      this.links[node][layer] = neighbours;
+
+      const maxLinks = layer === 0 ? this.m * 2 : this.m;
+      for (const neighbour of neighbours) {
+        const neighbourLinks = this.links[neighbour][layer];
+        neighbourLinks.push(node);
+        if (neighbourLinks.length > maxLinks) {
+          this.links[neighbour][layer] = neighbourLinks
+            .map(other => ({ node: other, distance: this.distance(this.vectors[neighbour], this.vectors[other]) }))
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, maxLinks)
+            .map(entry => entry.node);
+        }
+      }
+      current = candidates[0].node;
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = node;
+    }
+    return node;
+  }
+
+  remove(node: number): void {
+    this.deleted.add(node);
+  }
+
+  search(vector: number[], k: number, ef: number, accept?: (node: number) => boolean): Neighbour[] {
+    if (this.entryPoint < 0) return [];
+
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      current = this.greedy(vector, current, layer);
+    }
+
+    return this.searchLayer(vector, current, Math.max(ef, k), 0)
+      .filter(result => !this.deleted.has(result.node) && (!accept || accept(result.node)))
+      .slice(0, k);
+  }
+
+  private distance(a: number[], b: number[]): number {
+    return 1 - dot(a, b);
+  }
+
+  private greedy(vector: number[], start: number, layer: number): number {
+    let current = start;
+    let currentDistance = this.distance(vector, this.vectors[current]);
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const neighbour of this.links[current][layer] ?? []) {
+        const distance = this.distance(vector, this.vectors[neighbour]);
+        if (distance < currentDistance) {
+          current = neighbour;
+          currentDistance = distance;
+          improved = true;
+        }
+      }
+    }
+    return current;
+  }
+
+  private searchLayer(vector: number[], entry: number, ef: number, layer: number): Neighbour[] {
+    const start = { node: entry, distance: this.distance(vector, this.vectors[entry]) };
+    const visited = new Set<number>([entry]);
+    const candidates: Neighbour[] = [start]; // ascending distance
+    const results: Neighbour[] = [start]; // ascending distance, at most ef
+
+    while (candidates.length > 0) {
+      const closest = candidates.shift()!;
+      if (results.length >= ef && closest.distance > results[results.length - 1].distance) break;
+
+      for (const neighbour of this.links[closest.node][layer] ?? []) {
+        if (visited.has(neighbour)) continue;
+        visited.add(neighbour);
+
+        const distance = this.distance(vector, this.vectors[neighbour]);
+        if (results.length < ef || distance < results[results.length - 1].distance) {
+          insertSorted(candidates, { node: neighbour, distance });
+          insertSorted(results, { node: neighbour, distance });
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+    return results;
+  }
+}
+
+function insertSorted(list: Neighbour[], item: Neighbour): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (list[mid].distance <= item.distance) low = mid + 1;
+    else high = mid;
+  }
+  list.splice(low, 0, item);
+}
+
+export interface PineconeVectorStoreOptions {
+  apiKey: string;
+  index: string;
+  namespace?: string;
+}
+
+type PineconeMetadata = {
+  content: string;
+  source: string;
+  type: KnowledgeDocumentType;
+  timestamp: number;
+  tags: string[];
+  relevance: number;
+};
+
+/**
+ * Pinecone adapter. The client is imported on first use so deployments on the local store
+ * never load it
+ */
+export class PineconeVectorStore implements VectorStore {
+  readonly name = 'pinecone';
+  private options: PineconeVectorStoreOptions;
+  private client: Promise<Pinecone> | null = null;
+
+  constructor(options: PineconeVectorStoreOptions) {
+    this.options = options;
+  }
+
+  async upsert(documents: KnowledgeDocument[]): Promise<void> {
+    if (documents.length === 0) return;
+    const index = await this.getIndex();
+    await index.upsert(documents.map(document => {
+      if (!document.embeddings) throw new Error(`Document ${document.id} has no embeddings`);
+      return {
+        id: document.id,
+        values: document.embeddings,
+        metadata: {
+          content: document.content,
+          source: document.metadata.source,
+          type: document.metadata.type,
+          timestamp: document.metadata.timestamp,
+          tags: document.metadata.tags,
+          relevance: document.metadata.relevance
+        }
+      };
+    }));
+  }
+
+  async query({ vector, topK, filter }: VectorQuery): Promise<VectorMatch[]> {
+    const index = await this.getIndex();
+    const results = await index.query({
+      vector,
+      topK,
+      includeMetadata: true,
+      filter: toPineconeFilter(filter)
+    });
+
+    return results.matches.map(match => ({
+      document: {
+        id: match.id,
+        content: match.metadata?.content ?? '',
+        metadata: {
+          source: match.metadata?.source ?? '',
+          type: match.metadata?.type ?? 'research',
+          timestamp: match.metadata?.timestamp ?? 0,
+          tags: match.metadata?.tags ?? [],
+          relevance: match.metadata?.relevance ?? 1
+        }
+      },
+      score: match.score ?? 0
+    }));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const index = await this.getIndex();
+    await index.deleteMany(ids);
+  }
+
+  async count(): Promise<number> {
+    const index = await this.getIndex();
+    const stats = await index.describeIndexStats();
+    return stats.totalRecordCount ?? 0;
+  }
+
+  async healthCheck(): Promise<void> {
+    const client = await this.getClient();
+    await client.describeIndex(this.options.index);
+  }
+
+  private getClient(): Promise<Pinecone> {
+    if (!this.client) {
+      this.client = import('@pinecone-database/pinecone').then(({ Pinecone }) => new Pinecone({ apiKey: this.options.apiKey }));
+    }
+    return this.client;
+  }
+
+  private async getIndex(): Promise<Index<PineconeMetadata>> {
+    const index = (await this.getClient()).index<PineconeMetadata>(this.options.index);
+    return this.options.namespace ? index.namespace(this.options.namespace) : index;
+  }
+}
+
+function toPineconeFilter(filter?: VectorFilter): object | undefined {
+  if (!filter) return undefined;
+  const clauses: object[] = [];
+
+  if (filter.type !== undefined) {
+    clauses.push({ type: { $in: Array.isArray(filter.type) ? filter.type : [filter.type] } });
+  }
+  if (filter.source !== undefined) clauses.push({ source: { $eq: filter.source } });
+  filter.tags?.forEach(tag => clauses.push({ tags: { $in: [tag] } }));
+  if (filter.anyTags && filter.anyTags.length > 0) clauses.push({ tags: { $in: filter.anyTags } });
+  if (filter.since !== undefined || filter.until !== undefined) {
+    clauses.push({
+      timestamp: {
+        ...(filter.since !== undefined ? { $gte: filter.since } : {}),
+        ...(filter.until !== undefined ? { $lte: filter.until } : {})
+      }
+    });
+  }
+
+  if (clauses.length === 0) return undefined;
+  return clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
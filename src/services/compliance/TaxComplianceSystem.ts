@@ -5,6 +5,9 @@
 
 import { EventEmitter } from 'events';
 import { EnhancedLogger } from '@/lib/enhanced-logger';
+import { isAcquisition, isDisposal, matchTaxLots, type LotMatchingMethod, type LotMatchingResult, type LotSelection, type MatchRule } from './TaxLotMatcher';
+import { importExchangeCsv, type CsvImportOptions, type ImportedTaxEvent } from './TaxCsvImporter';
+import { buildSA108Summary, toForm8949CSV, toGainsCSV, toSA108CSV } from './TaxFormExporter';
 
 // Tax System Types
 export interface TaxJurisdiction {
@@ -23,7 +26,9 @@ export interface TaxJurisdiction {
   };
   rules: {
     longTermHoldingPeriod: number; // days
-    lifoFifoMethod: 'FIFO' | 'LIFO' | 'SPECIFIC_ID' | 'AVERAGE_COST';
+    lifoFifoMethod: LotMatchingMethod;
+    washSaleDays?: number; // losses disallowed when replaced within this window
+    bedAndBreakfastDays?: number; // UK 30-day rule, used with SHARE_POOLING
     allowsLikeKindExchange: boolean;
     requiresReporting: {
       minAmount: number;
@@ -65,12 +70,13 @@ export interface TaxLot {
   amount: number;
   costBasis: number;
   acquiredDate: number;
-  method: 'FIFO' | 'LIFO' | 'SPECIFIC_ID' | 'AVERAGE_COST';
+  method: LotMatchingMethod;
   isShortTerm: boolean;
   isDisposed: boolean;
   disposedDate?: number;
   disposedAmount?: number;
   remainingAmount: number;
+  holdingPeriodStart?: number; // moved back when a wash-sale loss is carried onto this lot
 }
 
 export interface CapitalGain {
@@ -87,7 +93,11 @@ export interface CapitalGain {
   isShortTerm: boolean;
   fees: number;
   washSale: boolean;
+  washSaleAdjustment?: number; // disallowed loss, added back to gainLoss
   description: string;
+  sellEventId?: string;
+  lotId?: string;
+  matchRule?: MatchRule;
 }
 
 export interface TaxReport {
@@ -129,6 +139,14 @@ export interface TaxReport {
   warnings: string[];
 }
 
+export interface TaxReportOptions {
+  method?: LotMatchingMethod; // overrides the jurisdiction default
+  applyWashSales?: boolean; // defaults to the jurisdiction rule
+  convertFiat?: (value: number, from: string, to: string, timestamp: number) => number; // for events valued in another currency
+}
+
+export type TaxExportFormat = 'form8949' | 'sa108' | 'gains';
+
 export interface TaxOptimization {
   strategies: {
     name: string;
@@ -158,11 +176,11 @@ export interface TaxOptimization {
 }
 
 export class TaxComplianceSystem extends EventEmitter {
-  private logger: EnhancedLogger;
   private jurisdictions: Map<string, TaxJurisdiction> = new Map();
   private userEvents: Map<string, TaxEvent[]> = new Map();
   private taxLots: Map<string, TaxLot[]> = new Map();
   private reports: Map<string, TaxReport> = new Map();
+  private lotSelections: Map<string, Record<string, LotSelection[]>> = new Map();
   private priceHistory: Map<string, Map<number, number>> = new Map();
 
   // Supported jurisdictions
@@ -181,6 +199,7 @@ export class TaxComplianceSystem extends EventEmitter {
       rules: {
         longTermHoldingPeriod: 365,
         lifoFifoMethod: 'FIFO',
+        washSaleDays: 30,
         allowsLikeKindExchange: false, // after 2017
         requiresReporting: {
           minAmount: 0,
@@ -206,7 +225,8 @@ export class TaxComplianceSystem extends EventEmitter {
       },
       rules: {
         longTermHoldingPeriod: 0, // no distinction
-        lifoFifoMethod: 'FIFO',
+        lifoFifoMethod: 'SHARE_POOLING',
+        bedAndBreakfastDays: 30,
         allowsLikeKindExchange: false,
         requiresReporting: {
           minAmount: 12300, // annual allowance
@@ -271,14 +291,13 @@ export class TaxComplianceSystem extends EventEmitter {
 
   constructor() {
     super();
-    this.logger = new EnhancedLogger();
     
     // Initialize jurisdictions
     this.JURISDICTIONS.forEach(jurisdiction => {
       this.jurisdictions.set(jurisdiction.code, jurisdiction);
     });
 
-    this.logger.info('Tax Compliance System initialized', {
+    EnhancedLogger.info('Tax Compliance System initialized', {
       component: 'TaxComplianceSystem',
       jurisdictions: this.JURISDICTIONS.length
     });
@@ -288,39 +307,8 @@ export class TaxComplianceSystem extends EventEmitter {
    * Record a tax event
    */
   async recordTaxEvent(userId: string, event: Omit<TaxEvent, 'id'>): Promise<string> {
-    const taxEvent: TaxEvent = {
-      id: `tax_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      ...event
-    };
-
-    // Get user events
-    if (!this.userEvents.has(userId)) {
-      this.userEvents.set(userId, []);
-    }
-    
-    const events = this.userEvents.get(userId)!;
-    events.push(taxEvent);
-    events.sort((a, b) => a.timestamp - b.timestamp);
-
-    // Update tax lots if it's a buy/sell transaction
-    if (event.type === 'trade') {
-      await this.updateTaxLots(userId, taxEvent);
-    }
-
-    // Check for wash sale rules
-    if (event.type === 'trade' && event.subtype === 'sell') {
-      await this.checkWashSaleRules(userId, taxEvent);
-    }
-
-    this.logger.info('Tax event recorded', {
-      userId,
-      eventId: taxEvent.id,
-      type: event.type,
-      asset: event.asset,
-      amount: event.amount
-    });
-
-    this.emit('taxEventRecorded', { userId, event: taxEvent });
+    const taxEvent = this.storeTaxEvent(userId, event);
+    await this.processNewEvents(userId, [taxEvent]);
     return taxEvent.id;
   }
 
@@ -330,7 +318,8 @@ export class TaxComplianceSystem extends EventEmitter {
   async generateTaxReport(
     userId: string,
     taxYear: number,
-    jurisdiction: string = 'US'
+    jurisdiction: string = 'US',
+    options: TaxReportOptions = {}
   ): Promise<TaxReport> {
     try {
       const jurisdictionData = this.jurisdictions.get(jurisdiction);
@@ -338,11 +327,11 @@ export class TaxComplianceSystem extends EventEmitter {
         throw new Error(`Unsupported jurisdiction: ${jurisdiction}`);
       }
 
-      const events = this.userEvents.get(userId) || [];
+      const events = this.eventsInCurrency(userId, jurisdictionData, options);
       const taxYearEvents = this.filterEventsByTaxYear(events, taxYear, jurisdictionData);
 
       // Calculate capital gains
-      const capitalGains = await this.calculateCapitalGains(userId, taxYearEvents, jurisdictionData);
+      const { gains: capitalGains, unmatched } = await this.calculateCapitalGains(userId, taxYear, jurisdictionData, options);
       
       // Calculate income events
       const incomeEvents = taxYearEvents.filter(e => 
@@ -363,7 +352,8 @@ export class TaxComplianceSystem extends EventEmitter {
         capitalGains,
         incomeEvents,
         summary,
-        jurisdictionData
+        jurisdictionData,
+        taxYear
       );
 
       // Generate recommendations and warnings
@@ -373,6 +363,16 @@ export class TaxComplianceSystem extends EventEmitter {
         jurisdictionData
       );
 
+      for (const sale of unmatched) {
+        warnings.push(`Sale ${sale.eventId}: ${sale.amount} ${sale.asset} has no recorded acquisition and is excluded from capital gains`);
+      }
+      for (const event of taxYearEvents) {
+        const unvalued = event.tags.find(tag => tag.startsWith('unvalued:'));
+        if (unvalued) {
+          warnings.push(`Trade ${event.id}: ${event.amount} ${event.asset} against ${unvalued.slice('unvalued:'.length)} has no fiat value - add it before filing`);
+        }
+      }
+
       const report: TaxReport = {
         id: `report_${userId}_${taxYear}_${jurisdiction}`,
         jurisdiction,
@@ -392,7 +392,7 @@ export class TaxComplianceSystem extends EventEmitter {
 
       this.reports.set(report.id, report);
 
-      this.logger.info('Tax report generated', {
+      EnhancedLogger.info('Tax report generated', {
         reportId: report.id,
         userId,
         taxYear,
@@ -405,11 +405,54 @@ export class TaxComplianceSystem extends EventEmitter {
       return report;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to generate tax report:');
+      EnhancedLogger.error('Failed to generate tax report:', { error });
       throw error;
     }
   }
 
+  /**
+   * Choose which lots a sale relieves (specific identification). Lots not covered by the
+   * selection are matched with the jurisdiction's default ordering
+   */
+  setLotSelection(userId: string, sellEventId: string, selections: LotSelection[]): void {
+    const sale = (this.userEvents.get(userId) || []).find(e => e.id === sellEventId);
+    if (!sale || !isDisposal(sale)) {
+      throw new Error(`Sell event ${sellEventId} not found for user ${userId}`);
+    }
+
+    const selected = selections.reduce((sum, s) => sum + s.amount, 0);
+    if (selected > sale.amount + 1e-12) {
+      throw new Error(`Selected lots cover ${selected} ${sale.asset} but the sale is ${sale.amount}`);
+    }
+
+    const userSelections = this.lotSelections.get(userId) || {};
+    userSelections[sellEventId] = selections;
+    this.lotSelections.set(userId, userSelections);
+
+    this.emit('lotSelectionChanged', { userId, sellEventId, selections });
+  }
+
+  /**
+   * Export a generated report as CSV
+   */
+  exportTaxReport(report: TaxReport, format: TaxExportFormat): string {
+    const jurisdiction = this.jurisdictions.get(report.jurisdiction);
+    if (!jurisdiction) {
+      throw new Error(`Unsupported jurisdiction: ${report.jurisdiction}`);
+    }
+
+    switch (format) {
+      case 'form8949':
+        return toForm8949CSV(report.capitalGains);
+      case 'sa108':
+        return toSA108CSV(buildSA108Summary(report.capitalGains, report.taxYear, jurisdiction));
+      case 'gains':
+        return toGainsCSV(report.capitalGains, jurisdiction.currency);
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
+  }
+
   /**
    * Get tax optimization strategies
    */
@@ -479,50 +522,54 @@ export class TaxComplianceSystem extends EventEmitter {
   }
 
   /**
-   * Import transactions from exchange APIs
+   * Import transactions from exchange CSV exports (any supported layout for 'csv')
+   * or exchange APIs
    */
   async importTransactions(
     userId: string,
     source: 'binance' | 'coinbase' | 'kraken' | 'hyperliquid' | 'csv',
-    data: any
+    data: any,
+    csvOptions: CsvImportOptions = {}
   ): Promise<number> {
     let importedCount = 0;
 
     try {
-      let transactions: any[] = [];
+      let taxEvents: ImportedTaxEvent[] = [];
 
       switch (source) {
         case 'csv':
-          transactions = this.parseCsvTransactions(data);
+          taxEvents = this.parseCsvTransactions(data, csvOptions);
           break;
         case 'binance':
-          transactions = await this.fetchBinanceTransactions(data.apiKey, data.apiSecret);
-          break;
         case 'coinbase':
-          transactions = await this.fetchCoinbaseTransactions(data.apiKey, data.apiSecret);
+        case 'kraken':
+          if (typeof data !== 'string') {
+            throw new Error(`${source} API import is not available - pass the exported trade history CSV instead`);
+          }
+          taxEvents = importExchangeCsv(data, source, csvOptions);
           break;
-        case 'hyperliquid':
-          transactions = await this.fetchHyperliquidTransactions(data.address);
+        case 'hyperliquid': {
+          const transactions = await this.fetchHyperliquidTransactions(data.address);
+          taxEvents = transactions.map(tx => this.convertToTaxEvent(tx, source));
           break;
+        }
         default:
           throw new Error(`Unsupported source: ${source}`);
       }
 
-      // Convert to tax events
-      for (const tx of transactions) {
-        const taxEvent = this.convertToTaxEvent(tx, source);
-        await this.recordTaxEvent(userId, taxEvent);
-        importedCount++;
-      }
+      // Lots are rematched once for the whole batch, not once per row
+      const stored = taxEvents.map(taxEvent => this.storeTaxEvent(userId, taxEvent));
+      await this.processNewEvents(userId, stored);
+      importedCount = stored.length;
 
-      this.logger.info('Transactions imported', {
+      EnhancedLogger.info('Transactions imported', {
         userId,
         source,
         count: importedCount
       });
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to import transactions:');
+      EnhancedLogger.error('Failed to import transactions:', { error });
       throw error;
     }
 
@@ -546,10 +593,7 @@ export class TaxComplianceSystem extends EventEmitter {
     }
 
     const currentYear = new Date().getFullYear();
-    const events = this.userEvents.get(userId) || [];
-    const currentYearEvents = this.filterEventsByTaxYear(events, currentYear, jurisdictionData);
-    
-    const capitalGains = await this.calculateCapitalGains(userId, currentYearEvents, jurisdictionData);
+    const { gains: capitalGains } = await this.calculateCapitalGains(userId, currentYear, jurisdictionData);
     const currentYearGains = capitalGains.reduce((sum, gain) => sum + gain.gainLoss, 0);
     
     const estimatedTax = this.calculateTaxOnGains(currentYearGains, jurisdictionData);
@@ -577,49 +621,56 @@ export class TaxComplianceSystem extends EventEmitter {
    * Private helper methods
    */
 
-  private async updateTaxLots(userId: string, event: TaxEvent): Promise<void> {
-    if (!this.taxLots.has(userId)) {
-      this.taxLots.set(userId, []);
+  private storeTaxEvent(userId: string, event: Omit<TaxEvent, 'id'>): TaxEvent {
+    const taxEvent: TaxEvent = {
+      id: `tax_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...event
+    };
+
+    if (!this.userEvents.has(userId)) {
+      this.userEvents.set(userId, []);
     }
+    this.userEvents.get(userId)!.push(taxEvent);
+    return taxEvent;
+  }
 
-    const lots = this.taxLots.get(userId)!;
-
-    if (event.subtype === 'buy') {
-      // Create new tax lot
-      const newLot: TaxLot = {
-        id: `lot_${event.id}`,
-        asset: event.asset,
-        amount: event.amount,
-        costBasis: event.fiatValue / event.amount,
-        acquiredDate: event.timestamp,
-        method: 'FIFO',
-        isShortTerm: true,
-        isDisposed: false,
-        remainingAmount: event.amount
-      };
+  // Wash-sale checks run after the whole batch is stored so they see replacements bought later
+  private async processNewEvents(userId: string, added: TaxEvent[]): Promise<void> {
+    this.userEvents.get(userId)?.sort((a, b) => a.timestamp - b.timestamp);
 
-      lots.push(newLot);
-    } else if (event.subtype === 'sell') {
-      // Dispose of tax lots using FIFO
-      let remainingToSell = event.amount;
-      
-      for (const lot of lots) {
-        if (lot.asset === event.asset && lot.remainingAmount > 0 && remainingToSell > 0) {
-          const sellAmount = Math.min(lot.remainingAmount, remainingToSell);
-          
-          lot.remainingAmount -= sellAmount;
-          if (lot.remainingAmount === 0) {
-            lot.isDisposed = true;
-            lot.disposedDate = event.timestamp;
-            lot.disposedAmount = lot.amount;
-          }
+    // Update tax lots if there is an acquisition or a sale
+    if (added.some(event => isAcquisition(event) || isDisposal(event))) {
+      await this.updateTaxLots(userId);
+    }
 
-          remainingToSell -= sellAmount;
-        }
+    for (const taxEvent of added) {
+      // Check for wash sale rules
+      if (taxEvent.type === 'trade' && taxEvent.subtype === 'sell') {
+        await this.checkWashSaleRules(userId, taxEvent);
       }
+
+      EnhancedLogger.info('Tax event recorded', {
+        userId,
+        eventId: taxEvent.id,
+        type: taxEvent.type,
+        asset: taxEvent.asset,
+        amount: taxEvent.amount
+      });
+
+      this.emit('taxEventRecorded', { userId, event: taxEvent });
     }
   }
 
+  // Open lots are tracked FIFO with any specific-ID selections; reports rematch per jurisdiction
+  private async updateTaxLots(userId: string): Promise<void> {
+    const { lots } = matchTaxLots(this.userEvents.get(userId) || [], {
+      method: 'FIFO',
+      longTermHoldingPeriod: 365,
+      lotSelections: this.lotSelections.get(userId)
+    });
+    this.taxLots.set(userId, lots);
+  }
+
   private async checkWashSaleRules(userId: string, sellEvent: TaxEvent): Promise<void> {
     const events = this.userEvents.get(userId) || [];
     const thirtyDaysBefore = sellEvent.timestamp - (30 * 24 * 60 * 60 * 1000);
@@ -637,7 +688,7 @@ export class TaxComplianceSystem extends EventEmitter {
 
     if (potentialWashSales.length > 0) {
       sellEvent.isWash = true;
-      this.logger.warn('Potential wash sale detected', {
+      EnhancedLogger.warn('Potential wash sale detected', {
         userId,
         sellEvent: sellEvent.id,
         asset: sellEvent.asset
@@ -650,62 +701,74 @@ export class TaxComplianceSystem extends EventEmitter {
     taxYear: number,
     jurisdiction: TaxJurisdiction
   ): TaxEvent[] {
-    const startDate = new Date(`${taxYear}-${jurisdiction.taxYear.start}`);
-    const endDate = new Date(`${taxYear + 1}-${jurisdiction.taxYear.end}`);
-    
-    if (jurisdiction.taxYear.start.startsWith('04')) {
-      // UK tax year adjustment
-      startDate.setFullYear(taxYear - 1);
-    }
+    const { start, end } = this.getTaxYearRange(taxYear, jurisdiction);
+    return events.filter(e => e.timestamp >= start && e.timestamp <= end);
+  }
 
-    return events.filter(e =>
-      e.timestamp >= startDate.getTime() && e.timestamp <= endDate.getTime()
-    );
+  // A tax year that ends before it starts in the calendar (UK 04-06..04-05) runs into the next year
+  private getTaxYearRange(taxYear: number, jurisdiction: TaxJurisdiction): { start: number; end: number } {
+    const [startMonth, startDay] = jurisdiction.taxYear.start.split('-').map(Number);
+    const [endMonth, endDay] = jurisdiction.taxYear.end.split('-').map(Number);
+    const endYear = jurisdiction.taxYear.end < jurisdiction.taxYear.start ? taxYear + 1 : taxYear;
+
+    return {
+      start: Date.UTC(taxYear, startMonth - 1, startDay),
+      end: Date.UTC(endYear, endMonth - 1, endDay + 1) - 1
+    };
+  }
+
+  // Matching needs a single currency: values recorded in another one are converted at the event date, or rejected
+  private eventsInCurrency(userId: string, jurisdiction: TaxJurisdiction, options: TaxReportOptions = {}): TaxEvent[] {
+    return (this.userEvents.get(userId) || []).map(event => {
+      if (event.fiatCurrency === jurisdiction.currency) return event;
+      if (!options.convertFiat) {
+        throw new Error(`Event ${event.id} is valued in ${event.fiatCurrency}, ${jurisdiction.code} reports need ${jurisdiction.currency}: pass convertFiat or import ${jurisdiction.currency} values`);
+      }
+
+      const convert = (value: number) => options.convertFiat!(value, event.fiatCurrency, jurisdiction.currency, event.timestamp);
+      return {
+        ...event,
+        fiatValue: convert(event.fiatValue),
+        fiatCurrency: jurisdiction.currency,
+        costBasis: event.costBasis === undefined ? undefined : convert(event.costBasis),
+        proceeds: event.proceeds === undefined ? undefined : convert(event.proceeds),
+        fees: convert(event.fees)
+      };
+    });
   }
 
+  // Lots carry over between years, so matching runs over the full history before filtering by sale date
   private async calculateCapitalGains(
     userId: string,
-    events: TaxEvent[],
-    jurisdiction: TaxJurisdiction
-  ): Promise<CapitalGain[]> {
-    const gains: CapitalGain[] = [];
-    const lots = this.taxLots.get(userId) || [];
-
-    const sellEvents = events.filter(e => e.type === 'trade' && e.subtype === 'sell');
+    taxYear: number,
+    jurisdiction: TaxJurisdiction,
+    options: TaxReportOptions = {}
+  ): Promise<Pick<LotMatchingResult, 'gains' | 'unmatched'>> {
+    const events = this.eventsInCurrency(userId, jurisdiction, options);
+    const { start, end } = this.getTaxYearRange(taxYear, jurisdiction);
+
+    const result = matchTaxLots(events, {
+      method: options.method ?? jurisdiction.rules.lifoFifoMethod,
+      longTermHoldingPeriod: jurisdiction.rules.longTermHoldingPeriod,
+      washSaleDays: options.applyWashSales === false ? undefined : jurisdiction.rules.washSaleDays,
+      bedAndBreakfastDays: jurisdiction.rules.bedAndBreakfastDays,
+      lotSelections: this.lotSelections.get(userId)
+    });
 
-    for (const sellEvent of sellEvents) {
-      const relevantLots = lots.filter(l =>
-        l.asset === sellEvent.asset &&
-        l.acquiredDate <= sellEvent.timestamp &&
-        l.isDisposed
-      );
+    const inYear = (timestamp: number) => timestamp >= start && timestamp <= end;
+    const unmatched = result.unmatched.filter(u => {
+      const sale = events.find(e => e.id === u.eventId);
+      return sale !== undefined && inYear(sale.timestamp);
+    });
 
-      for (const lot of relevantLots) {
-        const holdingPeriod = sellEvent.timestamp - lot.acquiredDate;
-        const isShortTerm = holdingPeriod < jurisdiction.rules.longTermHoldingPeriod * 24 * 60 * 60 * 1000;
-
-        const gain: CapitalGain = {
-          id: `gain_${sellEvent.id}_${lot.id}`,
-          asset: sellEvent.asset,
-          buyDate: lot.acquiredDate,
-          sellDate: sellEvent.timestamp,
-          buyPrice: lot.costBasis,
-          sellPrice: sellEvent.fiatValue / sellEvent.amount,
-          amount: lot.amount,
-          costBasis: lot.costBasis * lot.amount,
-          proceeds: (sellEvent.fiatValue / sellEvent.amount) * lot.amount,
-          gainLoss: ((sellEvent.fiatValue / sellEvent.amount) - lot.costBasis) * lot.amount,
-          isShortTerm,
-          fees: sellEvent.fees,
-          washSale: sellEvent.isWash || false,
-          description: `${sellEvent.asset} ${isShortTerm ? 'short-term' : 'long-term'} capital gain`
-        };
-
-        gains.push(gain);
-      }
+    if (unmatched.length > 0) {
+      EnhancedLogger.warn('Sales exceed recorded acquisitions', { userId, taxYear, count: unmatched.length });
     }
 
-    return gains;
+    return {
+      gains: result.gains.filter(g => inYear(g.sellDate)),
+      unmatched
+    };
   }
 
   private calculateTaxSummary(
@@ -773,7 +836,8 @@ export class TaxComplianceSystem extends EventEmitter {
     capitalGains: CapitalGain[],
     incomeEvents: TaxEvent[],
     summary: TaxReport['summary'],
-    jurisdiction: TaxJurisdiction
+    jurisdiction: TaxJurisdiction,
+    taxYear: number
   ): Promise<TaxReport['forms']> {
     // Generate Form 8949 (US) or equivalent
     const form8949 = {
@@ -782,7 +846,8 @@ export class TaxComplianceSystem extends EventEmitter {
       totals: {
         shortTermGain: summary.shortTermGains,
         longTermGain: summary.totalGains - summary.shortTermGains
-      }
+      },
+      csv: toForm8949CSV(capitalGains)
     };
 
     const scheduleD = {
@@ -797,7 +862,10 @@ export class TaxComplianceSystem extends EventEmitter {
       form1040: {
         capitalGains: summary.netGainLoss,
         otherIncome: summary.totalIncome
-      }
+      },
+      custom: jurisdiction.code === 'UK'
+        ? { sa108: buildSA108Summary(capitalGains, taxYear, jurisdiction) }
+        : undefined
     };
   }
 
@@ -962,19 +1030,9 @@ export class TaxComplianceSystem extends EventEmitter {
     return mockPrices[asset] || 1;
   }
 
-  private parseCsvTransactions(csvData: string): any[] {
-    // Parse CSV format transactions
-    return [];
-  }
-
-  private async fetchBinanceTransactions(apiKey: string, apiSecret: string): Promise<any[]> {
-    // Fetch from Binance API
-    return [];
-  }
-
-  private async fetchCoinbaseTransactions(apiKey: string, apiSecret: string): Promise<any[]> {
-    // Fetch from Coinbase API
-    return [];
+  private parseCsvTransactions(csvData: string, options: CsvImportOptions): ImportedTaxEvent[] {
+    // Binance, Coinbase, Kraken or generic layout, detected from the header row
+    return importExchangeCsv(csvData, undefined, options);
   }
 
   private async fetchHyperliquidTransactions(address: string): Promise<any[]> {
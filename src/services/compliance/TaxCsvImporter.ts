@@ -0,0 +1,367 @@
+/**
+ * Exchange CSV import adapters
+ * Turns Binance, Coinbase and Kraken history exports (and a generic layout) into tax events
+ */
+
+import type { TaxEvent } from './TaxComplianceSystem';
+
+export type CsvFormat = 'binance' | 'coinbase' | 'kraken' | 'generic';
+
+export type ImportedTaxEvent = Omit<TaxEvent, 'id'>;
+
+export interface CsvImportOptions {
+  // Fiat price of one unit of a crypto quote asset (ETHBTC -> BTC) at the trade time
+  priceLookup?: (asset: string, timestamp: number) => number | undefined;
+  priceCurrency?: string; // currency priceLookup answers in, defaults to USD
+}
+
+// Quote currencies treated as fiat; stablecoins count as their peg
+const FIAT_QUOTES: Record<string, string> = {
+  USD: 'USD', USDT: 'USD', USDC: 'USD', BUSD: 'USD', FDUSD: 'USD', TUSD: 'USD', DAI: 'USD',
+  EUR: 'EUR', GBP: 'GBP', BRL: 'BRL'
+};
+
+// Kraken's legacy X/Z-prefixed asset codes
+const KRAKEN_ASSETS: Record<string, string> = {
+  XXBT: 'BTC', XBT: 'BTC', XETH: 'ETH', XXRP: 'XRP', XLTC: 'LTC', XXLM: 'XLM', XXDG: 'DOGE', XDG: 'DOGE',
+  ZUSD: 'USD', ZEUR: 'EUR', ZGBP: 'GBP', ZCAD: 'CAD', ZJPY: 'JPY'
+};
+
+const COINBASE_INCOME: Record<string, TaxEvent['type']> = {
+  'Rewards Income': 'staking',
+  'Staking Income': 'staking',
+  'Inflation Reward': 'staking',
+  'Learning Reward': 'airdrop',
+  'Coinbase Earn': 'airdrop'
+};
+
+const REQUIRED_HEADERS: Record<CsvFormat, string[]> = {
+  binance: ['Date(UTC)', 'Pair', 'Side', 'Executed', 'Amount', 'Fee'],
+  coinbase: ['Timestamp', 'Transaction Type', 'Asset', 'Quantity Transacted'],
+  kraken: ['pair', 'time', 'type', 'cost', 'fee', 'vol'],
+  generic: ['date', 'type', 'asset', 'amount', 'fiat_value']
+};
+
+/**
+ * RFC 4180 parser: quoted fields, escaped quotes and newlines inside quotes
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Finds the header row (Coinbase prefixes its export with a few lines of notes) and its format
+ */
+export function detectCsvFormat(rows: string[][]): { format: CsvFormat; headerIndex: number } {
+  for (let i = 0; i < Math.min(rows.length, 20); i++) {
+    const header = rows[i].map(cell => cell.trim());
+    for (const format of Object.keys(REQUIRED_HEADERS) as CsvFormat[]) {
+      if (REQUIRED_HEADERS[format].every(column => header.includes(column))) {
+        return { format, headerIndex: i };
+      }
+    }
+  }
+  throw new Error('Unrecognized CSV format');
+}
+
+export function importExchangeCsv(text: string, format?: CsvFormat, options: CsvImportOptions = {}): ImportedTaxEvent[] {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+  const detected = detectCsvFormat(rows);
+  if (format && format !== detected.format) {
+    throw new Error(`Expected a ${format} export, got ${detected.format}`);
+  }
+
+  const header = rows[detected.headerIndex].map(cell => cell.trim());
+  const records = rows.slice(detected.headerIndex + 1).map(row =>
+    Object.fromEntries(header.map((column, i) => [column, (row[i] ?? '').trim()]))
+  );
+
+  const convert = {
+    binance: fromBinance,
+    coinbase: fromCoinbase,
+    kraken: fromKraken,
+    generic: fromGeneric
+  }[detected.format];
+
+  return records.flatMap((record, i) => {
+    try {
+      return convert(record, options);
+    } catch (error) {
+      const line = detected.headerIndex + i + 2;
+      throw new Error(`${detected.format} CSV line ${line}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+// Binance spot trade history: "Executed" and "Fee" carry their asset as a suffix, e.g. "0.5BTC"
+function fromBinance(record: Record<string, string>, options: CsvImportOptions): ImportedTaxEvent[] {
+  const side = record['Side'].toLowerCase();
+  if (side !== 'buy' && side !== 'sell') throw new Error(`Unknown side ${record['Side']}`);
+
+  const executed = splitAmount(record['Executed']);
+  const total = splitAmount(record['Amount']);
+  const fee = splitAmount(record['Fee']);
+
+  // Fees paid in the base asset are valued at the trade price, in quote units
+  const price = total.amount / executed.amount;
+  const feeInQuote = fee.asset === total.asset ? fee.amount : fee.asset === executed.asset ? fee.amount * price : 0;
+  const unvaluedFee = feeInQuote === 0 && fee.amount > 0 ? `${fee.amount} ${fee.asset}` : undefined;
+  const timestamp = parseDate(record['Date(UTC)']);
+
+  if (!FIAT_QUOTES[total.asset]) {
+    return cryptoPairTrade(side, {
+      timestamp,
+      asset: executed.asset,
+      amount: executed.amount,
+      quoteAsset: total.asset,
+      quoteAmount: total.amount,
+      quoteFee: feeInQuote,
+      exchange: 'binance',
+      unvaluedFee
+    }, options);
+  }
+
+  return [trade(side, {
+    timestamp,
+    asset: executed.asset,
+    amount: executed.amount,
+    fiatValue: total.amount,
+    fiatCurrency: FIAT_QUOTES[total.asset],
+    fees: feeInQuote,
+    exchange: 'binance',
+    unvaluedFee
+  })];
+}
+
+function fromCoinbase(record: Record<string, string>): ImportedTaxEvent[] {
+  const type = record['Transaction Type'];
+  const asset = record['Asset'];
+  const amount = parseNumber(record['Quantity Transacted']);
+  const timestamp = parseDate(record['Timestamp']);
+  const fiatCurrency = record['Price Currency'] || record['Spot Price Currency'] || 'USD';
+  const subtotal = parseNumber(record['Subtotal'] ?? '') || amount * parseNumber(record['Price at Transaction'] ?? record['Spot Price at Transaction'] ?? '');
+  const fees = parseNumber(record['Fees and/or Spread'] ?? '');
+  const common = { timestamp, asset, amount: Math.abs(amount), fiatValue: Math.abs(subtotal), fiatCurrency, fees, exchange: 'coinbase' };
+
+  if (/buy$/i.test(type)) return [trade('buy', common)];
+  if (/sell$/i.test(type)) return [trade('sell', common)];
+
+  if (type === 'Convert') {
+    // Notes read "Converted 0.1 ETH to 2.5 SOL"; the target is acquired at the same value
+    const match = record['Notes']?.match(/Converted [\d.,]+ \S+ to ([\d.,]+) (\S+)/);
+    if (!match) throw new Error('Convert row without target in Notes');
+    return [
+      trade('sell', common),
+      trade('buy', { ...common, asset: match[2], amount: parseNumber(match[1]), fees: 0 })
+    ];
+  }
+
+  const incomeType = COINBASE_INCOME[type];
+  if (incomeType) {
+    return [{
+      type: incomeType,
+      subtype: 'receive',
+      timestamp,
+      asset,
+      amount: common.amount,
+      fiatValue: common.fiatValue,
+      fiatCurrency,
+      fees: 0,
+      exchange: 'coinbase',
+      description: `${type} ${common.amount} ${asset} on coinbase`,
+      tags: ['coinbase', 'income']
+    }];
+  }
+
+  // Send / Receive / Deposit / Withdrawal move coins between own wallets and are not taxable
+  return [];
+}
+
+function fromKraken(record: Record<string, string>, options: CsvImportOptions): ImportedTaxEvent[] {
+  const side = record['type'].toLowerCase();
+  if (side !== 'buy' && side !== 'sell') throw new Error(`Unknown type ${record['type']}`);
+  const { base, quote } = splitKrakenPair(record['pair']);
+  const common = {
+    timestamp: parseDate(record['time']),
+    asset: base,
+    amount: parseNumber(record['vol']),
+    exchange: 'kraken',
+    txHash: record['txid'] || undefined
+  };
+
+  if (!FIAT_QUOTES[quote]) {
+    return cryptoPairTrade(side, {
+      ...common,
+      quoteAsset: quote,
+      quoteAmount: parseNumber(record['cost']),
+      quoteFee: parseNumber(record['fee'])
+    }, options);
+  }
+
+  return [trade(side, {
+    ...common,
+    fiatValue: parseNumber(record['cost']),
+    fiatCurrency: FIAT_QUOTES[quote],
+    fees: parseNumber(record['fee'])
+  })];
+}
+
+// date,type,asset,amount,fiat_value[,fee,currency,tx_hash,exchange]
+function fromGeneric(record: Record<string, string>): ImportedTaxEvent[] {
+  const type = record['type'].toLowerCase();
+  const common = {
+    timestamp: parseDate(record['date']),
+    asset: record['asset'].toUpperCase(),
+    amount: parseNumber(record['amount']),
+    fiatValue: parseNumber(record['fiat_value']),
+    fiatCurrency: record['currency'] || 'USD',
+    fees: parseNumber(record['fee'] ?? ''),
+    exchange: record['exchange'] || 'csv',
+    txHash: record['tx_hash'] || undefined
+  };
+
+  if (type === 'buy' || type === 'sell') return [trade(type, common)];
+  if (['mining', 'staking', 'airdrop', 'fork', 'gift', 'donation'].includes(type)) {
+    return [{
+      ...common,
+      type: type as TaxEvent['type'],
+      subtype: type === 'gift' || type === 'donation' ? 'send' : 'receive',
+      description: `${type} ${common.amount} ${common.asset}`,
+      tags: [common.exchange, type]
+    }];
+  }
+  throw new Error(`Unknown type ${record['type']}`);
+}
+
+/**
+ * A pair quoted in another crypto asset swaps one coin for the other: the base trade and the
+ * opposite leg in the quote asset are both valued at the quote's fiat price. Without a price the
+ * legs are kept at zero value and tagged, like fees that could not be valued
+ */
+function cryptoPairTrade(
+  side: 'buy' | 'sell',
+  fields: {
+    timestamp: number;
+    asset: string;
+    amount: number;
+    quoteAsset: string;
+    quoteAmount: number;
+    quoteFee: number;
+    exchange: string;
+    txHash?: string;
+    unvaluedFee?: string;
+  },
+  options: CsvImportOptions
+): ImportedTaxEvent[] {
+  const { quoteAsset, quoteAmount, quoteFee, unvaluedFee, ...common } = fields;
+  const price = options.priceLookup?.(quoteAsset, fields.timestamp);
+  const valued = price !== undefined && Number.isFinite(price) && price > 0;
+  const unit = valued ? price : 0;
+  const shared = { ...common, fiatCurrency: options.priceCurrency ?? 'USD', fiatValue: quoteAmount * unit };
+  const unvalued = valued ? [] : [`unvalued:${quoteAmount} ${quoteAsset}`];
+
+  const base = trade(side, { ...shared, fees: quoteFee * unit, unvaluedFee });
+  const quote = trade(side === 'buy' ? 'sell' : 'buy', { ...shared, asset: quoteAsset, amount: quoteAmount, fees: 0 });
+  return [
+    { ...base, tags: [...base.tags, ...unvalued] },
+    { ...quote, tags: [...quote.tags, ...unvalued] }
+  ];
+}
+
+function trade(
+  side: 'buy' | 'sell',
+  fields: {
+    timestamp: number;
+    asset: string;
+    amount: number;
+    fiatValue: number;
+    fiatCurrency: string;
+    fees: number;
+    exchange: string;
+    txHash?: string;
+    unvaluedFee?: string;
+  }
+): ImportedTaxEvent {
+  const { unvaluedFee, ...event } = fields;
+  return {
+    type: 'trade',
+    subtype: side,
+    ...event,
+    description: `${side} ${fields.amount} ${fields.asset} on ${fields.exchange}`,
+    tags: unvaluedFee ? [fields.exchange, side, `unvalued-fee:${unvaluedFee}`] : [fields.exchange, side]
+  };
+}
+
+function splitAmount(value: string): { amount: number; asset: string } {
+  const match = value.replace(/,/g, '').match(/^([\d.]+(?:e-?\d+)?)\s*([A-Za-z0-9]+)$/);
+  if (!match) throw new Error(`Cannot read amount "${value}"`);
+  return { amount: Number(match[1]), asset: match[2].toUpperCase() };
+}
+
+function splitKrakenPair(pair: string): { base: string; quote: string } {
+  for (const code of Object.keys(KRAKEN_ASSETS)) {
+    if (pair.startsWith(code) && KRAKEN_ASSETS[pair.slice(code.length)]) {
+      return { base: KRAKEN_ASSETS[code], quote: KRAKEN_ASSETS[pair.slice(code.length)] };
+    }
+  }
+  for (const quote of Object.keys(FIAT_QUOTES)) {
+    if (pair.endsWith(quote) && pair.length > quote.length) {
+      const base = pair.slice(0, -quote.length).replace(/\/$/, '');
+      return { base: KRAKEN_ASSETS[base] ?? base, quote };
+    }
+  }
+  throw new Error(`Cannot split pair ${pair}`);
+}
+
+function parseNumber(value: string): number {
+  const cleaned = value.replace(/R\$|[$€£,\s]/g, '');
+  if (cleaned === '') return 0;
+  const number = Number(cleaned);
+  if (!Number.isFinite(number)) throw new Error(`Cannot read number "${value}"`);
+  return number;
+}
+
+// Exchange exports are in UTC; "2024-03-01 10:00:00" has no zone marker
+function parseDate(value: string): number {
+  const trimmed = value.replace(/ UTC$/, '');
+  const iso = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}/.test(trimmed) ? `${trimmed.replace(' ', 'T')}Z` : trimmed;
+  const timestamp = Date.parse(iso);
+  if (Number.isNaN(timestamp)) throw new Error(`Cannot read date "${value}"`);
+  return timestamp;
+}
@@ -0,0 +1,219 @@
+/**
+ * Tax form exporters
+ * IRS Form 8949 rows, a UK SA108-style capital gains summary and a generic gains CSV
+ */
+
+import type { CapitalGain, TaxJurisdiction } from './TaxComplianceSystem';
+
+// 8949 boxes for transactions not reported on a 1099-B (C / F) unless the caller overrides them
+export interface Form8949Options {
+  shortTermBox?: string;
+  longTermBox?: string;
+}
+
+export interface SA108Summary {
+  taxYear: string; // e.g. "2024-25"
+  numberOfDisposals: number;
+  disposalProceeds: number;
+  allowableCosts: number;
+  gainsInYear: number;
+  lossesInYear: number;
+  netGains: number;
+  annualExemptAmount: number;
+  taxableGains: number;
+  reportingRequired: boolean;
+}
+
+// Annual exempt amount by the calendar year the UK tax year starts in
+const UK_ANNUAL_EXEMPT_AMOUNT: Record<number, number> = {
+  2020: 12300,
+  2021: 12300,
+  2022: 12300,
+  2023: 6000,
+  2024: 3000
+};
+
+const FORM_8949_HEADER = [
+  'Part',
+  'Box',
+  '(a) Description of property',
+  '(b) Date acquired',
+  '(c) Date sold or disposed of',
+  '(d) Proceeds',
+  '(e) Cost or other basis',
+  '(f) Code(s)',
+  '(g) Amount of adjustment',
+  '(h) Gain or (loss)'
+];
+
+/**
+ * Form 8949 as CSV: Part I (short-term) then Part II (long-term), each followed by its totals row.
+ * Wash-sale adjustments use code W with the disallowed loss in column (g)
+ */
+export function toForm8949CSV(gains: CapitalGain[], options: Form8949Options = {}): string {
+  const rows: Array<Array<string | number>> = [FORM_8949_HEADER];
+  const parts: Array<[string, string, CapitalGain[]]> = [
+    ['I', options.shortTermBox ?? 'C', gains.filter(g => g.isShortTerm)],
+    ['II', options.longTermBox ?? 'F', gains.filter(g => !g.isShortTerm)]
+  ];
+
+  for (const [part, box, partGains] of parts) {
+    if (partGains.length === 0) continue;
+    const sorted = [...partGains].sort((a, b) => a.sellDate - b.sellDate);
+
+    for (const gain of sorted) {
+      const adjustment = gain.washSaleAdjustment ?? 0;
+      rows.push([
+        part,
+        box,
+        `${formatAmount(gain.amount)} ${gain.asset}`,
+        isPooled(gain) ? 'VARIOUS' : formatUsDate(gain.buyDate),
+        formatUsDate(gain.sellDate),
+        money(gain.proceeds),
+        money(gain.costBasis),
+        adjustment > 0 ? 'W' : '',
+        adjustment > 0 ? money(adjustment) : '',
+        money(gain.gainLoss)
+      ]);
+    }
+
+    rows.push([
+      part,
+      box,
+      'Totals',
+      '',
+      '',
+      money(sum(sorted, g => g.proceeds)),
+      money(sum(sorted, g => g.costBasis)),
+      '',
+      money(sum(sorted, g => g.washSaleAdjustment ?? 0)),
+      money(sum(sorted, g => g.gainLoss))
+    ]);
+  }
+
+  return toCsv(rows);
+}
+
+/**
+ * Capital gains summary in the shape of the SA108 boxes. Proceeds are gross of disposal fees,
+ * which count towards allowable costs
+ */
+export function buildSA108Summary(gains: CapitalGain[], taxYear: number, jurisdiction: TaxJurisdiction): SA108Summary {
+  const disposals = new Set(gains.map(g => g.sellEventId ?? g.id));
+  const disposalProceeds = sum(gains, g => g.proceeds + g.fees);
+  const allowableCosts = sum(gains, g => g.costBasis + g.fees);
+  const gainsInYear = sum(gains.filter(g => g.gainLoss > 0), g => g.gainLoss);
+  const lossesInYear = sum(gains.filter(g => g.gainLoss < 0), g => -g.gainLoss);
+  const netGains = gainsInYear - lossesInYear;
+
+  const annualExemptAmount = UK_ANNUAL_EXEMPT_AMOUNT[taxYear]
+    ?? (taxYear > 2024 ? UK_ANNUAL_EXEMPT_AMOUNT[2024] : jurisdiction.rules.requiresReporting.minAmount);
+
+  // From 2023-24 the proceeds test is a flat £50,000; before that it was four times the exempt amount
+  const proceedsLimit = taxYear >= 2023 ? 50000 : annualExemptAmount * 4;
+
+  return {
+    taxYear: `${taxYear}-${String((taxYear + 1) % 100).padStart(2, '0')}`,
+    numberOfDisposals: disposals.size,
+    disposalProceeds: round(disposalProceeds),
+    allowableCosts: round(allowableCosts),
+    gainsInYear: round(gainsInYear),
+    lossesInYear: round(lossesInYear),
+    netGains: round(netGains),
+    annualExemptAmount,
+    taxableGains: round(Math.max(0, netGains - annualExemptAmount)),
+    reportingRequired: netGains > annualExemptAmount || disposalProceeds > proceedsLimit
+  };
+}
+
+export function toSA108CSV(summary: SA108Summary): string {
+  return toCsv([
+    ['Field', 'Value'],
+    ['Tax year', summary.taxYear],
+    ['Number of disposals', summary.numberOfDisposals],
+    ['Disposal proceeds', money(summary.disposalProceeds)],
+    ['Allowable costs (including purchase price)', money(summary.allowableCosts)],
+    ['Gains in the year, before losses', money(summary.gainsInYear)],
+    ['Losses in the year', money(summary.lossesInYear)],
+    ['Net gains', money(summary.netGains)],
+    ['Annual exempt amount', money(summary.annualExemptAmount)],
+    ['Taxable gains', money(summary.taxableGains)],
+    ['Reporting required', summary.reportingRequired ? 'Yes' : 'No']
+  ]);
+}
+
+/**
+ * One row per matched lot, for spreadsheets and jurisdictions without a dedicated form
+ */
+export function toGainsCSV(gains: CapitalGain[], currency: string = 'USD'): string {
+  const rows: Array<Array<string | number>> = [[
+    'Asset',
+    'Amount',
+    'Date Acquired',
+    'Date Sold',
+    `Proceeds (${currency})`,
+    `Cost Basis (${currency})`,
+    `Fees (${currency})`,
+    `Gain/Loss (${currency})`,
+    'Term',
+    'Match Rule',
+    'Wash Sale Adjustment',
+    'Lot'
+  ]];
+
+  for (const gain of [...gains].sort((a, b) => a.sellDate - b.sellDate)) {
+    rows.push([
+      gain.asset,
+      formatAmount(gain.amount),
+      isPooled(gain) ? 'VARIOUS' : new Date(gain.buyDate).toISOString().slice(0, 10),
+      new Date(gain.sellDate).toISOString().slice(0, 10),
+      money(gain.proceeds),
+      money(gain.costBasis),
+      money(gain.fees),
+      money(gain.gainLoss),
+      gain.isShortTerm ? 'short' : 'long',
+      gain.matchRule ?? 'lot',
+      gain.washSaleAdjustment ? money(gain.washSaleAdjustment) : '',
+      gain.lotId ?? ''
+    ]);
+  }
+
+  return toCsv(rows);
+}
+
+// Pool matches have no single acquisition date
+function isPooled(gain: CapitalGain): boolean {
+  return gain.matchRule === 'section-104' || gain.matchRule === 'average-cost';
+}
+
+function formatUsDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const mm = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const dd = String(date.getUTCDate()).padStart(2, '0');
+  return `${mm}/${dd}/${date.getUTCFullYear()}`;
+}
+
+function formatAmount(amount: number): string {
+  return String(Number(amount.toFixed(8)));
+}
+
+function money(value: number): string {
+  return round(value).toFixed(2);
+}
+
+// Adding 0 turns -0 into 0 so it never prints as "-0.00"
+function round(value: number): number {
+  return Math.round(value * 100) / 100 + 0;
+}
+
+function sum<T>(items: T[], pick: (item: T) => number): number {
+  return items.reduce((total, item) => total + pick(item), 0);
+}
+
+function toCsv(rows: Array<Array<string | number>>): string {
+  return rows.map(row => row.map(cell => escapeCsv(String(cell))).join(',')).join('\n');
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
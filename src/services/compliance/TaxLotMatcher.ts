@@ -0,0 +1,393 @@
+/**
+ * Tax Lot Matcher
+ * Matches disposals to acquisitions per jurisdiction: FIFO / LIFO / HIFO / specific-ID
+ * lots, average-cost pools, UK share pooling (same-day, 30-day bed and breakfast,
+ * Section 104 pool) and US-style wash-sale loss deferral
+ */
+
+import type { CapitalGain, TaxEvent, TaxLot } from './TaxComplianceSystem';
+
+export type LotMatchingMethod = 'FIFO' | 'LIFO' | 'HIFO' | 'SPECIFIC_ID' | 'AVERAGE_COST' | 'SHARE_POOLING';
+export type MatchRule = 'lot' | 'same-day' | 'bed-and-breakfast' | 'section-104' | 'average-cost';
+
+export interface LotSelection {
+  lotId: string;
+  amount: number;
+}
+
+export interface LotMatchingOptions {
+  method: LotMatchingMethod;
+  longTermHoldingPeriod: number; // days
+  washSaleDays?: number; // disallow losses replaced within this many days before or after the sale
+  bedAndBreakfastDays?: number; // SHARE_POOLING only, defaults to 30
+  lotSelections?: Record<string, LotSelection[]>; // sell event id -> lots to relieve first (SPECIFIC_ID)
+}
+
+export interface LotMatchingResult {
+  gains: CapitalGain[];
+  lots: TaxLot[];
+  pools: Record<string, { amount: number; cost: number }>; // average-cost / Section 104 pools left after the last event
+  unmatched: Array<{ eventId: string; asset: string; amount: number }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EPSILON = 1e-12;
+const INCOME_TYPES: TaxEvent['type'][] = ['mining', 'staking', 'airdrop', 'fork'];
+
+interface Disposal {
+  event: TaxEvent;
+  unitProceeds: number; // gross
+  unitFee: number;
+}
+
+interface Match {
+  rule: MatchRule;
+  amount: number;
+  cost: number;
+  acquiredDate: number;
+  holdingPeriodStart: number;
+  lotId?: string;
+}
+
+export function isAcquisition(event: TaxEvent): boolean {
+  return (event.type === 'trade' && event.subtype === 'buy') || INCOME_TYPES.includes(event.type);
+}
+
+export function isDisposal(event: TaxEvent): boolean {
+  return event.type === 'trade' && event.subtype === 'sell';
+}
+
+/**
+ * Runs every acquisition and disposal in `events` (all years, so lots carry over)
+ * through the chosen matching method
+ */
+export function matchTaxLots(events: TaxEvent[], options: LotMatchingOptions): LotMatchingResult {
+  const sorted = [...events].sort((a, b) => a.timestamp - b.timestamp);
+
+  if (options.method === 'SHARE_POOLING') return matchSharePooling(sorted, options);
+  if (options.method === 'AVERAGE_COST') return matchAverageCost(sorted, options);
+  return matchLots(sorted, options);
+}
+
+function matchLots(events: TaxEvent[], options: LotMatchingOptions): LotMatchingResult {
+  // Every lot exists up front so a wash sale can adjust a replacement bought after the loss
+  const lots: TaxLot[] = events.filter(isAcquisition).map(event => createLot(event, options.method));
+  const replaced = new Set<string>();
+  const gains: CapitalGain[] = [];
+  const unmatched: LotMatchingResult['unmatched'] = [];
+
+  for (const event of events.filter(isDisposal)) {
+    const disposal = toDisposal(event);
+    const available = lots.filter(lot => lot.asset === event.asset && lot.acquiredDate <= event.timestamp && lot.remainingAmount > EPSILON);
+    let remaining = event.amount;
+    const matches: Match[] = [];
+
+    const relieve = (lot: TaxLot, amount: number) => {
+      const take = Math.min(amount, lot.remainingAmount);
+      if (take <= EPSILON) return 0;
+      lot.remainingAmount -= take;
+      lot.disposedAmount = (lot.disposedAmount ?? 0) + take;
+      if (lot.remainingAmount <= EPSILON) {
+        lot.remainingAmount = 0;
+        lot.isDisposed = true;
+        lot.disposedDate = event.timestamp;
+      }
+      // A selection can relieve part of a lot that the fallback order then reaches again
+      const previous = matches.find(match => match.lotId === lot.id);
+      if (previous) {
+        previous.amount += take;
+        previous.cost += take * lot.costBasis;
+        return take;
+      }
+      matches.push({
+        rule: 'lot',
+        amount: take,
+        cost: take * lot.costBasis,
+        acquiredDate: lot.acquiredDate,
+        holdingPeriodStart: lot.holdingPeriodStart ?? lot.acquiredDate,
+        lotId: lot.id
+      });
+      return take;
+    };
+
+    for (const selection of options.lotSelections?.[event.id] ?? []) {
+      const lot = available.find(l => l.id === selection.lotId);
+      if (!lot || selection.amount > lot.remainingAmount + EPSILON) {
+        throw new Error(`Lot ${selection.lotId} cannot cover ${selection.amount} ${event.asset} for sale ${event.id}`);
+      }
+      remaining -= relieve(lot, Math.min(selection.amount, remaining));
+    }
+
+    for (const lot of orderLots(available, options.method)) {
+      if (remaining <= EPSILON) break;
+      remaining -= relieve(lot, remaining);
+    }
+
+    if (remaining > EPSILON) unmatched.push({ eventId: event.id, asset: event.asset, amount: remaining });
+
+    for (const match of matches) {
+      const gain = toCapitalGain(disposal, match, options);
+      if (options.washSaleDays && gain.gainLoss < 0) {
+        applyWashSale(gain, lots, replaced, options.washSaleDays, match);
+      }
+      gains.push(gain);
+    }
+  }
+
+  return { gains, lots, pools: {}, unmatched };
+}
+
+/**
+ * A loss is disallowed in proportion to the replacement units bought within the window;
+ * the disallowed amount and the holding period move onto the replacement units
+ */
+function applyWashSale(gain: CapitalGain, lots: TaxLot[], replaced: Set<string>, days: number, sold: Match): void {
+  const windowStart = gain.sellDate - days * DAY_MS;
+  const windowEnd = gain.sellDate + days * DAY_MS;
+  const loss = -gain.gainLoss;
+  // The sold units' own holding period, which may already include one carried from an earlier wash sale
+  const heldFor = gain.sellDate - sold.holdingPeriodStart;
+  let unreplaced = gain.amount;
+
+  for (let i = 0; i < lots.length && unreplaced > EPSILON; i++) {
+    const lot = lots[i];
+    if (lot.asset !== gain.asset || lot.id === sold.lotId || replaced.has(lot.id)) continue;
+    if (lot.acquiredDate < windowStart || lot.acquiredDate > windowEnd || lot.remainingAmount <= EPSILON) continue;
+
+    const amount = Math.min(unreplaced, lot.remainingAmount);
+    let replacement = lot;
+    if (amount < lot.remainingAmount - EPSILON) {
+      // Only part of the lot replaces the sold units: split it so the rest keeps its own basis
+      replacement = { ...lot, id: splitLotId(lots, lot.id), amount, remainingAmount: amount };
+      lot.amount -= amount;
+      lot.remainingAmount -= amount;
+      lots.splice(i + 1, 0, replacement);
+    }
+
+    const disallowed = loss * (amount / gain.amount);
+    replacement.costBasis += disallowed / amount;
+    replacement.holdingPeriodStart = (replacement.holdingPeriodStart ?? replacement.acquiredDate) - heldFor;
+    replaced.add(replacement.id);
+
+    gain.washSale = true;
+    gain.washSaleAdjustment = (gain.washSaleAdjustment ?? 0) + disallowed;
+    gain.gainLoss += disallowed;
+    unreplaced -= amount;
+  }
+}
+
+// A lot can be split again after an earlier split, so suffixes are numbered per base lot
+function splitLotId(lots: TaxLot[], lotId: string): string {
+  const ids = new Set(lots.map(lot => lot.id));
+  let n = 1;
+  while (ids.has(`${lotId}-w${n}`)) n++;
+  return `${lotId}-w${n}`;
+}
+
+function matchAverageCost(events: TaxEvent[], options: LotMatchingOptions): LotMatchingResult {
+  const pools: LotMatchingResult['pools'] = {};
+  const firstAcquired: Record<string, number> = {};
+  const lots: TaxLot[] = [];
+  const gains: CapitalGain[] = [];
+  const unmatched: LotMatchingResult['unmatched'] = [];
+
+  for (const event of events) {
+    const pool = pools[event.asset] = pools[event.asset] ?? { amount: 0, cost: 0 };
+
+    if (isAcquisition(event)) {
+      lots.push(createLot(event, 'AVERAGE_COST'));
+      if (pool.amount <= EPSILON) firstAcquired[event.asset] = event.timestamp;
+      pool.amount += event.amount;
+      pool.cost += acquisitionCost(event);
+    } else if (isDisposal(event)) {
+      const amount = Math.min(event.amount, pool.amount);
+      if (event.amount - amount > EPSILON) unmatched.push({ eventId: event.id, asset: event.asset, amount: event.amount - amount });
+      if (amount <= EPSILON) continue;
+
+      const cost = pool.cost * (amount / pool.amount);
+      gains.push(toCapitalGain(toDisposal(event), {
+        rule: 'average-cost',
+        amount,
+        cost,
+        acquiredDate: firstAcquired[event.asset],
+        holdingPeriodStart: firstAcquired[event.asset]
+      }, options));
+      pool.amount -= amount;
+      pool.cost -= cost;
+    }
+  }
+
+  return { gains, lots, pools, unmatched };
+}
+
+/**
+ * HMRC share identification (CRYPTO22200): same-day acquisitions first, then
+ * acquisitions in the following 30 days, then the Section 104 pool
+ */
+function matchSharePooling(events: TaxEvent[], options: LotMatchingOptions): LotMatchingResult {
+  const bnbDays = options.bedAndBreakfastDays ?? 30;
+  const lots = events.filter(isAcquisition).map(event => createLot(event, 'SHARE_POOLING'));
+  const disposals = events.filter(isDisposal).map(event => ({ disposal: toDisposal(event), remaining: event.amount, matches: [] as Match[] }));
+  const day = (timestamp: number) => Math.floor(timestamp / DAY_MS);
+
+  // Same-day acquisitions are treated as one at their average cost, whichever rule matches them
+  const sameDay = new Map<string, { amount: number; cost: number }>();
+  for (const lot of lots) {
+    const key = `${lot.asset}|${day(lot.acquiredDate)}`;
+    const total = sameDay.get(key) ?? { amount: 0, cost: 0 };
+    total.amount += lot.amount;
+    total.cost += lot.costBasis * lot.amount;
+    sameDay.set(key, total);
+  }
+  const sameDayCost = (lot: TaxLot) => {
+    const total = sameDay.get(`${lot.asset}|${day(lot.acquiredDate)}`)!;
+    return total.cost / total.amount;
+  };
+
+  const take = (entry: typeof disposals[number], lot: TaxLot, rule: MatchRule, unitCost: number) => {
+    const amount = Math.min(entry.remaining, lot.remainingAmount);
+    if (amount <= EPSILON) return;
+    lot.remainingAmount -= amount;
+    lot.disposedAmount = (lot.disposedAmount ?? 0) + amount;
+    entry.remaining -= amount;
+    entry.matches.push({
+      rule,
+      amount,
+      cost: amount * unitCost,
+      acquiredDate: lot.acquiredDate,
+      holdingPeriodStart: lot.acquiredDate,
+      lotId: lot.id
+    });
+  };
+
+  for (const entry of disposals) {
+    const { event } = entry.disposal;
+    const key = `${event.asset}|${day(event.timestamp)}`;
+    for (const lot of lots) {
+      if (`${lot.asset}|${day(lot.acquiredDate)}` === key) take(entry, lot, 'same-day', sameDayCost(lot));
+    }
+  }
+
+  for (const entry of disposals) {
+    const { event } = entry.disposal;
+    const start = day(event.timestamp);
+    for (const lot of lots) {
+      const acquired = day(lot.acquiredDate);
+      if (lot.asset === event.asset && acquired > start && acquired <= start + bnbDays) {
+        take(entry, lot, 'bed-and-breakfast', sameDayCost(lot));
+      }
+    }
+  }
+
+  // Whatever is left of each acquisition joins the pool in date order
+  const pools: LotMatchingResult['pools'] = {};
+  const firstAcquired: Record<string, number> = {};
+  const unmatched: LotMatchingResult['unmatched'] = [];
+  const timeline = [
+    ...lots.map(lot => ({ time: lot.acquiredDate, lot })),
+    ...disposals.map(entry => ({ time: entry.disposal.event.timestamp, entry }))
+  ].sort((a, b) => a.time - b.time || ('lot' in a ? -1 : 1));
+
+  for (const item of timeline) {
+    if ('lot' in item) {
+      const { lot } = item;
+      const pool = pools[lot.asset] = pools[lot.asset] ?? { amount: 0, cost: 0 };
+      if (lot.remainingAmount <= EPSILON) continue;
+      if (pool.amount <= EPSILON) firstAcquired[lot.asset] = lot.acquiredDate;
+      pool.amount += lot.remainingAmount;
+      pool.cost += lot.remainingAmount * lot.costBasis;
+      continue;
+    }
+
+    const { entry } = item;
+    const { event } = entry.disposal;
+    const pool = pools[event.asset] = pools[event.asset] ?? { amount: 0, cost: 0 };
+    const amount = Math.min(entry.remaining, pool.amount);
+    if (amount > EPSILON) {
+      const cost = pool.cost * (amount / pool.amount);
+      entry.matches.push({
+        rule: 'section-104',
+        amount,
+        cost,
+        acquiredDate: firstAcquired[event.asset],
+        holdingPeriodStart: firstAcquired[event.asset]
+      });
+      pool.amount -= amount;
+      pool.cost -= cost;
+      entry.remaining -= amount;
+    }
+    if (entry.remaining > EPSILON) unmatched.push({ eventId: event.id, asset: event.asset, amount: entry.remaining });
+  }
+
+  // Pooled units are no longer tracked per lot
+  for (const lot of lots) {
+    lot.remainingAmount = 0;
+    lot.isDisposed = (lot.disposedAmount ?? 0) >= lot.amount - EPSILON;
+  }
+
+  const gains = disposals.flatMap(entry => entry.matches.map(match => toCapitalGain(entry.disposal, match, options)));
+  return { gains, lots, pools, unmatched };
+}
+
+function orderLots(lots: TaxLot[], method: LotMatchingMethod): TaxLot[] {
+  switch (method) {
+    case 'LIFO':
+      return [...lots].sort((a, b) => b.acquiredDate - a.acquiredDate);
+    case 'HIFO':
+      return [...lots].sort((a, b) => b.costBasis - a.costBasis || a.acquiredDate - b.acquiredDate);
+    default:
+      // FIFO, and the fallback for the part of a specific-ID sale without a selection
+      return [...lots].sort((a, b) => a.acquiredDate - b.acquiredDate);
+  }
+}
+
+function createLot(event: TaxEvent, method: LotMatchingMethod): TaxLot {
+  return {
+    id: `lot_${event.id}`,
+    asset: event.asset,
+    amount: event.amount,
+    costBasis: acquisitionCost(event) / event.amount,
+    acquiredDate: event.timestamp,
+    method,
+    isShortTerm: true,
+    isDisposed: false,
+    remainingAmount: event.amount
+  };
+}
+
+// Purchase fees are part of the cost; income is acquired at its market value
+function acquisitionCost(event: TaxEvent): number {
+  return event.costBasis ?? (event.fiatValue + (event.type === 'trade' ? event.fees : 0));
+}
+
+function toDisposal(event: TaxEvent): Disposal {
+  const gross = event.proceeds ?? event.fiatValue;
+  return { event, unitProceeds: gross / event.amount, unitFee: event.fees / event.amount };
+}
+
+function toCapitalGain(disposal: Disposal, match: Match, options: LotMatchingOptions): CapitalGain {
+  const { event } = disposal;
+  const fees = disposal.unitFee * match.amount;
+  const proceeds = disposal.unitProceeds * match.amount - fees;
+  const isShortTerm = event.timestamp - match.holdingPeriodStart < options.longTermHoldingPeriod * DAY_MS;
+
+  return {
+    id: `gain_${event.id}_${match.lotId ?? match.rule}`,
+    asset: event.asset,
+    buyDate: match.acquiredDate,
+    sellDate: event.timestamp,
+    buyPrice: match.cost / match.amount,
+    sellPrice: disposal.unitProceeds,
+    amount: match.amount,
+    costBasis: match.cost,
+    proceeds,
+    gainLoss: proceeds - match.cost,
+    isShortTerm,
+    fees,
+    washSale: false,
+    description: `${match.amount} ${event.asset}`,
+    sellEventId: event.id,
+    lotId: match.lotId,
+    matchRule: match.rule
+  };
+}
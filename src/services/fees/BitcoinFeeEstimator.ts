@@ -0,0 +1,424 @@
+/**
+ * Bitcoin Fee Estimator
+ * Projects the next blocks from the mempool fee histogram, picks a fee rate for a
+ * confirmation target and plans RBF / CPFP bumps for stuck transactions
+ */
+
+import { logger } from '@/lib/logger';
+import { AddressType, addressValidator } from '@/lib/addressValidation';
+import { type Block, type MempoolService, type Transaction, mempoolService } from '@/services/MempoolService';
+
+// Script types we know how to size
+export type InputScriptType = 'P2PKH' | 'P2SH_P2WPKH' | 'P2WPKH' | 'P2WSH' | 'P2TR';
+export type OutputScriptType = 'P2PKH' | 'P2SH' | 'P2WPKH' | 'P2WSH' | 'P2TR';
+
+export interface TxInputSpec {
+  type: InputScriptType;
+  witnessSize?: number; // P2WSH (defaults to 2-of-3 multisig) or P2TR script path: serialized witness bytes
+}
+
+export interface TxOutputSpec {
+  type: OutputScriptType | 'OP_RETURN';
+  dataSize?: number; // OP_RETURN payload bytes
+}
+
+export interface ProjectedBlock {
+  index: number; // 1 = next block
+  vsize: number;
+  totalFees: number;
+  minFeeRate: number;
+  medianFeeRate: number;
+  maxFeeRate: number;
+  full: boolean;
+}
+
+export interface FeeEstimate {
+  targetBlocks: number;
+  feeRate: number; // sat/vB
+  confidence: number | null; // share of recent block windows this rate would have made; null without history
+  requestedConfidence: number;
+  projectedFeeRate: number; // from the current mempool alone
+  historicalFeeRate: number | null;
+  projectedBlocks: ProjectedBlock[];
+}
+
+export interface RbfBumpPlan {
+  txid: string;
+  vsize: number;
+  signalsRbf: boolean;
+  currentFee: number;
+  currentFeeRate: number;
+  targetFeeRate: number;
+  newFee: number;
+  newFeeRate: number;
+  additionalFee: number;
+}
+
+export interface CpfpPlan {
+  txid: string;
+  vout: number;
+  parentVsize: number;
+  parentFee: number;
+  childVsize: number;
+  childFee: number;
+  childOutputValue: number;
+  packageFeeRate: number;
+  targetFeeRate: number;
+}
+
+export interface FeeBumpOptions {
+  targetBlocks?: number;
+  confidence?: number;
+  feeRate?: number; // skip estimation and use this rate
+}
+
+export interface FeeEstimatorOptions {
+  blockVsize?: number;
+  minRelayFeeRate?: number;
+  incrementalRelayFeeRate?: number;
+  historyBlocks?: number;
+}
+
+// Block limits
+const MAX_BLOCK_VSIZE = 1_000_000;
+const COINBASE_RESERVE_VSIZE = 1_000;
+
+// Weight units (vB = WU / 4)
+const TX_OVERHEAD_WEIGHT = 4 * (4 + 4 + 1 + 1); // version, locktime, input and output counts
+const SEGWIT_MARKER_WEIGHT = 2;
+const INPUT_BASE_BYTES = 32 + 4 + 1 + 4; // outpoint, scriptSig length, sequence
+const DEFAULT_P2WSH_WITNESS_BYTES = 1 + 1 + 2 * 73 + 1 + 105; // 2-of-3 multisig
+
+const INPUT_WEIGHT: Record<Exclude<InputScriptType, 'P2WSH'>, { scriptSig: number; witness: number }> = {
+  P2PKH: { scriptSig: 107, witness: 0 }, // sig + compressed pubkey
+  P2SH_P2WPKH: { scriptSig: 23, witness: 108 },
+  P2WPKH: { scriptSig: 0, witness: 108 },
+  P2TR: { scriptSig: 0, witness: 66 } // key path: one 64-byte schnorr signature
+};
+
+const OUTPUT_SCRIPT_BYTES: Record<OutputScriptType, number> = {
+  P2PKH: 25,
+  P2SH: 23,
+  P2WPKH: 22,
+  P2WSH: 34,
+  P2TR: 34
+};
+
+// Smallest spendable output for each script type at the default dust relay fee
+const DUST_LIMIT: Record<OutputScriptType, number> = {
+  P2PKH: 546,
+  P2SH: 540,
+  P2WPKH: 294,
+  P2WSH: 330,
+  P2TR: 330
+};
+
+const BIP125_MAX_SEQUENCE = 0xfffffffd;
+
+/**
+ * Virtual size of a transaction with the given inputs and outputs
+ */
+export function estimateTxVsize(inputs: TxInputSpec[], outputs: TxOutputSpec[]): number {
+  const hasWitness = inputs.some(input => input.type !== 'P2PKH');
+  let weight = TX_OVERHEAD_WEIGHT + (hasWitness ? SEGWIT_MARKER_WEIGHT : 0);
+
+  for (const input of inputs) {
+    const { scriptSig, witness } = input.type === 'P2WSH'
+      ? { scriptSig: 0, witness: input.witnessSize ?? DEFAULT_P2WSH_WITNESS_BYTES }
+      : input.type === 'P2TR' && input.witnessSize !== undefined
+        ? { scriptSig: 0, witness: input.witnessSize }
+        : INPUT_WEIGHT[input.type];
+
+    weight += 4 * (INPUT_BASE_BYTES + scriptSig);
+    // Legacy inputs in a segwit transaction still carry an empty witness count
+    weight += witness > 0 ? witness : hasWitness ? 1 : 0;
+  }
+
+  for (const output of outputs) {
+    const scriptBytes = output.type === 'OP_RETURN'
+      ? 1 + pushOverhead(output.dataSize ?? 0) + (output.dataSize ?? 0)
+      : OUTPUT_SCRIPT_BYTES[output.type];
+    weight += 4 * (8 + 1 + scriptBytes);
+  }
+
+  return Math.ceil(weight / 4);
+}
+
+function pushOverhead(size: number): number {
+  if (size <= 75) return 1;
+  if (size <= 255) return 2;
+  return 3;
+}
+
+/**
+ * Fill the next blocks with the mempool, highest fee rate first.
+ * Histogram entries are [feeRate (sat/vB), vsize], as served by mempool.space.
+ */
+export function projectMempoolBlocks(
+  histogram: number[][],
+  count: number,
+  blockVsize: number = MAX_BLOCK_VSIZE - COINBASE_RESERVE_VSIZE
+): ProjectedBlock[] {
+  const buckets = histogram
+    .filter(entry => entry.length >= 2 && entry[0] >= 0 && entry[1] > 0)
+    .map(([feeRate, vsize]) => ({ feeRate, vsize }))
+    .sort((a, b) => b.feeRate - a.feeRate);
+
+  const blocks: ProjectedBlock[] = [];
+  let segments: { feeRate: number; vsize: number }[] = [];
+  let used = 0;
+
+  const closeBlock = (full: boolean) => {
+    const vsize = segments.reduce((sum, segment) => sum + segment.vsize, 0);
+    let cumulative = 0;
+    const median = segments.find(segment => (cumulative += segment.vsize) >= vsize / 2)!;
+
+    blocks.push({
+      index: blocks.length + 1,
+      vsize,
+      totalFees: Math.round(segments.reduce((sum, segment) => sum + segment.feeRate * segment.vsize, 0)),
+      minFeeRate: segments[segments.length - 1].feeRate,
+      medianFeeRate: median.feeRate,
+      maxFeeRate: segments[0].feeRate,
+      full
+    });
+    segments = [];
+    used = 0;
+  };
+
+  for (const bucket of buckets) {
+    let remaining = bucket.vsize;
+    while (remaining > 0 && blocks.length < count) {
+      const take = Math.min(remaining, blockVsize - used);
+      segments.push({ feeRate: bucket.feeRate, vsize: take });
+      used += take;
+      remaining -= take;
+      if (used >= blockVsize) closeBlock(true);
+    }
+  }
+
+  if (segments.length > 0 && blocks.length < count) closeBlock(false);
+  return blocks;
+}
+
+/**
+ * Lowest rate that, over the recent blocks, would have confirmed within
+ * `targetBlocks` in at least `confidence` of the windows
+ */
+export function historicalFeeRate(
+  blocks: Block[],
+  targetBlocks: number,
+  confidence: number
+): { feeRate: number; windowMinimums: number[] } | null {
+  // 10th percentile of each block's fee rates: the minimum is often a CPFP parent
+  const floors = [...blocks]
+    .sort((a, b) => a.height - b.height)
+    .map(block => block.extras?.feeRange?.[1] ?? block.extras?.feeRange?.[0])
+    .filter((rate): rate is number => typeof rate === 'number');
+
+  if (floors.length < targetBlocks) return null;
+
+  const windowMinimums: number[] = [];
+  for (let i = 0; i + targetBlocks <= floors.length; i++) {
+    windowMinimums.push(Math.min(...floors.slice(i, i + targetBlocks)));
+  }
+
+  const sorted = [...windowMinimums].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(confidence * sorted.length) - 1));
+  return { feeRate: sorted[index], windowMinimums };
+}
+
+export class BitcoinFeeEstimator {
+  private service: MempoolService;
+  private blockVsize: number;
+  private minRelayFeeRate: number;
+  private incrementalRelayFeeRate: number;
+  private historyBlocks: number;
+
+  constructor(service: MempoolService = mempoolService, options: FeeEstimatorOptions = {}) {
+    this.service = service;
+    this.blockVsize = options.blockVsize ?? MAX_BLOCK_VSIZE - COINBASE_RESERVE_VSIZE;
+    this.minRelayFeeRate = options.minRelayFeeRate ?? 1;
+    this.incrementalRelayFeeRate = options.incrementalRelayFeeRate ?? 1;
+    this.historyBlocks = options.historyBlocks ?? 15;
+  }
+
+  /**
+   * Project the next `count` blocks from the current mempool
+   */
+  async projectBlocks(count: number = 8): Promise<ProjectedBlock[]> {
+    let histogram = await this.service.getFeeHistogram();
+    if (!Array.isArray(histogram) || histogram.length === 0) {
+      histogram = (await this.service.getMempoolStats()).fee_histogram || [];
+    }
+    return projectMempoolBlocks(histogram, count, this.blockVsize);
+  }
+
+  /**
+   * Fee rate to confirm within `targetBlocks` blocks with the requested confidence
+   */
+  async estimateFeeRate(targetBlocks: number = 1, confidence: number = 0.8): Promise<FeeEstimate> {
+    if (!Number.isInteger(targetBlocks) || targetBlocks < 1) {
+      throw new Error('Target must be a positive number of blocks');
+    }
+    if (confidence <= 0 || confidence > 1) {
+      throw new Error('Confidence must be in (0, 1]');
+    }
+
+    const [projectedBlocks, recentBlocks] = await Promise.all([
+      this.projectBlocks(targetBlocks),
+      this.service.getRecentBlocks().catch(error => {
+        logger.warn('Recent blocks unavailable for fee estimation', error);
+        return [] as Block[];
+      })
+    ]);
+
+    // Outbidding the last full block of the window gets us in; if the mempool
+    // clears before the target, the relay floor is enough
+    const targetBlock = projectedBlocks[targetBlocks - 1];
+    const projectedFeeRate = targetBlock?.full
+      ? Math.max(targetBlock.minFeeRate, this.minRelayFeeRate)
+      : this.minRelayFeeRate;
+
+    const history = historicalFeeRate(recentBlocks.slice(0, this.historyBlocks), targetBlocks, confidence);
+    const feeRate = roundUpFeeRate(Math.max(projectedFeeRate, history?.feeRate ?? 0, this.minRelayFeeRate));
+
+    const achieved = history
+      ? history.windowMinimums.filter(rate => rate <= feeRate).length / history.windowMinimums.length
+      : null;
+
+    return {
+      targetBlocks,
+      feeRate,
+      confidence: achieved,
+      requestedConfidence: confidence,
+      projectedFeeRate,
+      historicalFeeRate: history?.feeRate ?? null,
+      projectedBlocks
+    };
+  }
+
+  /**
+   * Replacement fee for an unconfirmed transaction (BIP125 rules 3 and 4).
+   * `replacedDescendantFees` covers children that the replacement evicts.
+   */
+  async estimateRbfBump(
+    txid: string,
+    options: FeeBumpOptions & { replacedDescendantFees?: number } = {}
+  ): Promise<RbfBumpPlan> {
+    const tx = await this.getUnconfirmedTransaction(txid);
+    const vsize = Math.ceil(tx.weight / 4);
+    const currentFeeRate = tx.fee / vsize;
+    const targetFeeRate = await this.resolveTargetRate(options);
+
+    // Rule 4: pay for the replacement's own bandwidth on top of everything it evicts
+    const minimumFee = tx.fee + (options.replacedDescendantFees ?? 0) + Math.ceil(this.incrementalRelayFeeRate * vsize);
+    const newFee = Math.max(Math.ceil(targetFeeRate * vsize), minimumFee);
+
+    const signalsRbf = tx.vin.some(input => input.sequence <= BIP125_MAX_SEQUENCE);
+    if (!signalsRbf) {
+      logger.warn(`Transaction ${txid} does not signal BIP125; only full-RBF nodes will relay the replacement`);
+    }
+
+    return {
+      txid,
+      vsize,
+      signalsRbf,
+      currentFee: tx.fee,
+      currentFeeRate,
+      targetFeeRate,
+      newFee,
+      newFeeRate: newFee / vsize,
+      additionalFee: newFee - tx.fee
+    };
+  }
+
+  /**
+   * Child fee so the parent + child package reaches the target rate
+   */
+  async estimateCpfp(
+    txid: string,
+    options: FeeBumpOptions & { vout?: number; childOutputType?: OutputScriptType } = {}
+  ): Promise<CpfpPlan> {
+    const tx = await this.getUnconfirmedTransaction(txid);
+    const vout = options.vout ?? this.largestOutput(tx);
+    const output = tx.vout[vout];
+    if (!output) {
+      throw new Error(`Transaction ${txid} has no output ${vout}`);
+    }
+
+    const inputType = this.spendType(output.scriptpubkey);
+    const childOutputType = options.childOutputType ?? (inputType === 'P2SH_P2WPKH' ? 'P2SH' : inputType);
+    const parentVsize = Math.ceil(tx.weight / 4);
+    const childVsize = estimateTxVsize([{ type: inputType }], [{ type: childOutputType }]);
+    const targetFeeRate = await this.resolveTargetRate(options);
+
+    const childFee = Math.max(
+      Math.ceil(targetFeeRate * (parentVsize + childVsize)) - tx.fee,
+      Math.ceil(this.minRelayFeeRate * childVsize)
+    );
+    const childOutputValue = output.value - childFee;
+    if (childOutputValue < DUST_LIMIT[childOutputType]) {
+      throw new Error(
+        `Output ${txid}:${vout} (${output.value} sats) cannot pay a ${childFee} sat child fee without creating dust`
+      );
+    }
+
+    return {
+      txid,
+      vout,
+      parentVsize,
+      parentFee: tx.fee,
+      childVsize,
+      childFee,
+      childOutputValue,
+      packageFeeRate: (tx.fee + childFee) / (parentVsize + childVsize),
+      targetFeeRate
+    };
+  }
+
+  private async getUnconfirmedTransaction(txid: string): Promise<Transaction> {
+    const tx = await this.service.getTransaction(txid);
+    if (tx.status?.confirmed) {
+      throw new Error(`Transaction ${txid} is already confirmed`);
+    }
+    return tx;
+  }
+
+  private async resolveTargetRate(options: FeeBumpOptions): Promise<number> {
+    if (options.feeRate !== undefined) {
+      if (options.feeRate < this.minRelayFeeRate) {
+        throw new Error(`Fee rate must be at least ${this.minRelayFeeRate} sat/vB`);
+      }
+      return options.feeRate;
+    }
+    const estimate = await this.estimateFeeRate(options.targetBlocks ?? 1, options.confidence ?? 0.8);
+    return estimate.feeRate;
+  }
+
+  private largestOutput(tx: Transaction): number {
+    return tx.vout.reduce((best, output, index) => (output.value > tx.vout[best].value ? index : best), 0);
+  }
+
+  /**
+   * Input type needed to spend an output; P2SH is assumed to wrap P2WPKH
+   */
+  private spendType(scriptPubKey: string): InputScriptType {
+    switch (addressValidator.getScriptType(scriptPubKey)) {
+      case AddressType.P2PKH: return 'P2PKH';
+      case AddressType.P2SH: return 'P2SH_P2WPKH';
+      case AddressType.P2WPKH: return 'P2WPKH';
+      case AddressType.P2WSH: return 'P2WSH';
+      case AddressType.P2TR: return 'P2TR';
+      default:
+        throw new Error(`Cannot spend output script ${scriptPubKey} for CPFP`);
+    }
+  }
+}
+
+function roundUpFeeRate(feeRate: number): number {
+  return Math.ceil(feeRate * 10) / 10;
+}
+
+// Default instance
+export const bitcoinFeeEstimator = new BitcoinFeeEstimator();
@@ -6,6 +6,14 @@
 import { EventEmitter } from 'events';
 import { EnhancedLogger } from '@/lib/enhanced-logger';
 import { hmacSecurity } from '@/lib/security/HMACSecuritySystem';
+import type {
+  BookSnapshot,
+  EngineSnapshot,
+  JournalEntry,
+  JournalEvent,
+  OrderJournal,
+  ReplayReport
+} from './OrderJournal';
 
 // OrderBook Types
 export interface Order {
@@ -18,7 +26,7 @@ export interface Order {
   price?: number;
   stopPrice?: number;
   timeInForce: 'GTC' | 'IOC' | 'FOK' | 'GTD';
-  status: 'pending' | 'open' | 'partial' | 'filled' | 'cancelled' | 'rejected';
+  status: 'pending' | 'open' | 'partial' | 'filled' | 'cancelled' | 'rejected' | 'expired';
   timestamp: number;
   expiryTime?: number;
   filledQuantity: number;
@@ -26,6 +34,8 @@ export interface Order {
   avgFillPrice: number;
   fees: number;
   icebergQuantity?: number;
+  visibleQuantity?: number; // fatia do iceberg atualmente exposta no livro
+  triggeredAt?: number; // quando a ordem stop foi ativada
   postOnly?: boolean;
   reduceOnly?: boolean;
   clientOrderId?: string;
@@ -122,6 +132,19 @@ export interface OrderBookMetrics {
   efficiency: number;
 }
 
+export type OrderRequest = Omit<
+  Order,
+  'id' | 'timestamp' | 'status' | 'filledQuantity' | 'remainingQuantity' | 'avgFillPrice' | 'fees' | 'visibleQuantity' | 'triggeredAt'
+>;
+
+export interface OrderBookEngineOptions {
+  journal?: OrderJournal;
+  snapshotInterval?: number; // entradas do journal entre snapshots
+  clock?: () => number;
+}
+
+export type OrderRejectionReason = 'post_only_would_cross' | 'reduce_only_would_increase';
+
 export class OrderBookEngine extends EventEmitter {
   private orderBooks: Map<string, OrderBook> = new Map();
   private orders: Map<string, Order> = new Map();
@@ -130,6 +153,22 @@ export class OrderBookEngine extends EventEmitter {
   private sequence: number = 0;
   private priceTimeSeries: Map<string, { price: number; timestamp: number }[]> = new Map();
 
+  // Lifecycle state
+  private stopOrders: Map<string, Order[]> = new Map(); // trigger book por símbolo
+  private expiringOrders: Set<string> = new Set(); // ordens GTD ainda ativas
+  private positions: Map<string, number> = new Map(); // `${userId}:${symbol}` -> posição líquida
+  private expirySweepTimer: NodeJS.Timeout | null = null;
+
+  // Journal / replay state
+  private journal: OrderJournal | null;
+  private snapshotInterval: number;
+  private clock: () => number;
+  private journalSequence: number = 0;
+  private lastSnapshotSequence: number = 0;
+  private frozenTime: number | null = null; // um único instante por comando
+  private replaying: boolean = false;
+  private replayedTrades: Trade[] = [];
+
   // Fee configuration
   private readonly FEE_STRUCTURE = {
     maker: 0.001, // 0.1%
@@ -147,8 +186,12 @@ export class OrderBookEngine extends EventEmitter {
   private readonly MAX_PRICE_LEVELS = 1000;
   private readonly MAX_ORDERS_PER_LEVEL = 100;
 
-  constructor() {
+  constructor(options: OrderBookEngineOptions = {}) {
     super();
+    this.journal = options.journal || null;
+    this.snapshotInterval = options.snapshotInterval ?? 1000;
+    this.clock = options.clock || Date.now;
+
     EnhancedLogger.info('OrderBook Engine initialized', {
       component: 'OrderBookEngine',
       pricePrecision: this.PRICE_PRECISION,
@@ -165,11 +208,22 @@ export class OrderBookEngine extends EventEmitter {
       return;
     }
 
+    this.atTime(this.clock(), () => {
+      this.record({ type: 'book_initialized', symbol });
+      this.createEmptyBook(symbol);
+    });
+
+    EnhancedLogger.info('OrderBook initialized', { symbol });
+    this.emit('orderBookInitialized', { symbol, orderBook: this.orderBooks.get(symbol) });
+    this.maybeSnapshot();
+  }
+
+  private createEmptyBook(symbol: string): OrderBook {
     const orderBook: OrderBook = {
       symbol,
       bids: [],
       asks: [],
-      lastUpdate: Date.now(),
+      lastUpdate: this.now(),
       sequence: 0,
       spread: 0,
       midPrice: 0,
@@ -181,42 +235,40 @@ export class OrderBookEngine extends EventEmitter {
     this.orderBooks.set(symbol, orderBook);
     this.trades.set(symbol, []);
     this.priceTimeSeries.set(symbol, []);
-
-    EnhancedLogger.info('OrderBook initialized', { symbol });
-    this.emit('orderBookInitialized', { symbol, orderBook });
+    this.stopOrders.set(symbol, []);
+    return orderBook;
   }
 
   /**
    * Place a new order
    */
-  async placeOrder(orderRequest: Omit<Order, 'id' | 'timestamp' | 'status' | 'filledQuantity' | 'remainingQuantity' | 'avgFillPrice' | 'fees'>): Promise<OrderMatchResult> {
+  async placeOrder(orderRequest: OrderRequest): Promise<OrderMatchResult> {
     try {
       // Validate order
       this.validateOrder(orderRequest);
 
-      // Create order
-      const order: Order = {
-        ...orderRequest,
-        id: this.generateOrderId(),
-        timestamp: Date.now(),
-        status: 'pending',
-        filledQuantity: 0,
-        remainingQuantity: orderRequest.quantity,
-        avgFillPrice: 0,
-        fees: 0
-      };
-
-      // Add to orders map
-      this.orders.set(order.id, order);
-
-      // Add to user orders
-      if (!this.userOrders.has(order.userId)) {
-        this.userOrders.set(order.userId, new Set());
-      }
-      this.userOrders.get(order.userId)!.add(order.id);
-
-      // Process order
-      const matchResult = await this.processOrder(order);
+      // GTD orders past their expiry must never match
+      this.sweepExpiredOrders();
+
+      const { order, matchResult } = this.atTime(this.clock(), () => {
+        // Create order
+        const order: Order = {
+          ...orderRequest,
+          id: this.generateOrderId(),
+          timestamp: this.now(),
+          status: 'pending',
+          filledQuantity: 0,
+          remainingQuantity: orderRequest.quantity,
+          avgFillPrice: 0,
+          fees: 0
+        };
+
+        // Journal the order before matching so a crash mid-match can be replayed
+        this.record({ type: 'order_placed', order: { ...order, metadata: { ...order.metadata } } });
+
+        return { order, matchResult: this.acceptOrder(order) };
+      });
+      this.maybeSnapshot();
 
       EnhancedLogger.info('Order placed', {
         orderId: order.id,
@@ -241,6 +293,25 @@ export class OrderBookEngine extends EventEmitter {
    * Cancel an order
    */
   async cancelOrder(orderId: string, userId: string): Promise<Order> {
+    const order = this.atTime(this.clock(), () => {
+      const cancelled = this.applyCancel(orderId, userId);
+      this.record({ type: 'order_cancelled', orderId, userId });
+      return cancelled;
+    });
+
+    EnhancedLogger.info('Order cancelled', {
+      orderId,
+      userId,
+      symbol: order.symbol,
+      remainingQuantity: order.remainingQuantity
+    });
+
+    this.emit('orderCancelled', order);
+    this.maybeSnapshot();
+    return order;
+  }
+
+  private applyCancel(orderId: string, userId: string): Order {
     const order = this.orders.get(orderId);
     
     if (!order) {
@@ -251,28 +322,109 @@ export class OrderBookEngine extends EventEmitter {
       throw new Error(`Order ${orderId} does not belong to user ${userId}`);
     }
 
-    if (order.status !== 'open' && order.status !== 'partial') {
+    if (!this.isActive(order)) {
       throw new Error(`Order ${orderId} cannot be cancelled (status: ${order.status})`);
     }
 
-    // Remove from order book
-    this.removeOrderFromBook(order);
+    // Remove from order book (or from the trigger book, if still waiting)
+    this.deactivateOrder(order);
 
     // Update order status
     order.status = 'cancelled';
     this.orders.set(orderId, order);
+    return order;
+  }
 
-    EnhancedLogger.info('Order cancelled', {
-      orderId,
-      userId,
-      symbol: order.symbol,
-      remainingQuantity: order.remainingQuantity
+  /**
+   * Expire a resting order (GTD)
+   */
+  expireOrder(orderId: string): Order {
+    const order = this.atTime(this.clock(), () => {
+      const expired = this.applyExpiry(orderId);
+      this.expiringOrders.delete(orderId);
+      this.record({ type: 'order_expired', orderId });
+      return expired;
     });
 
-    this.emit('orderCancelled', order);
+    EnhancedLogger.info('Order expired', { orderId, symbol: order.symbol, expiryTime: order.expiryTime });
+    this.emit('orderExpired', order);
+    this.maybeSnapshot();
+    return order;
+  }
+
+  private applyExpiry(orderId: string): Order {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+    if (!this.isActive(order)) {
+      throw new Error(`Order ${orderId} cannot expire (status: ${order.status})`);
+    }
+
+    this.deactivateOrder(order);
+    order.status = 'expired';
     return order;
   }
 
+  /**
+   * Expire every GTD order whose expiry time has passed
+   */
+  sweepExpiredOrders(): Order[] {
+    const now = this.clock();
+    const expired: Order[] = [];
+
+    for (const orderId of Array.from(this.expiringOrders)) {
+      const order = this.orders.get(orderId);
+      if (!order || !this.isActive(order)) {
+        this.expiringOrders.delete(orderId);
+        continue;
+      }
+      if (order.expiryTime !== undefined && order.expiryTime <= now) {
+        expired.push(this.expireOrder(orderId));
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Run GTD expiry sweeps periodically
+   */
+  startExpirySweeps(intervalMs: number = 1000): void {
+    this.stopExpirySweeps();
+    this.expirySweepTimer = setInterval(() => {
+      try {
+        this.sweepExpiredOrders();
+      } catch (error) {
+        EnhancedLogger.error('GTD expiry sweep failed', {
+          component: 'OrderBookEngine',
+          error: (error as Error).message
+        });
+      }
+    }, intervalMs);
+  }
+
+  stopExpirySweeps(): void {
+    if (this.expirySweepTimer) {
+      clearInterval(this.expirySweepTimer);
+      this.expirySweepTimer = null;
+    }
+  }
+
+  /**
+   * Net filled position of a user (positive = long, negative = short)
+   */
+  getPosition(userId: string, symbol: string): number {
+    return this.positions.get(`${userId}:${symbol}`) || 0;
+  }
+
+  /**
+   * Stop orders waiting for their trigger price
+   */
+  getPendingStopOrders(symbol: string): Order[] {
+    return [...(this.stopOrders.get(symbol) || [])];
+  }
+
   /**
    * Get order book for a symbol
    */
@@ -403,77 +555,98 @@ export class OrderBookEngine extends EventEmitter {
       throw new Error('Order quantity must be positive');
     }
 
-    if (orderRequest.type === 'limit' && (!orderRequest.price || orderRequest.price <= 0)) {
+    if (this.isLimitLike(orderRequest) && (!orderRequest.price || orderRequest.price <= 0)) {
       throw new Error('Limit orders must have a positive price');
     }
 
-    if (!this.orderBooks.has(orderRequest.symbol)) {
-      throw new Error(`OrderBook for symbol ${orderRequest.symbol} not initialized`);
+    if (this.isStop(orderRequest) && (!orderRequest.stopPrice || orderRequest.stopPrice <= 0)) {
+      throw new Error('Stop orders must have a positive stop price');
     }
-  }
 
-  private async processOrder(order: Order): Promise<OrderMatchResult> {
-    const orderBook = this.orderBooks.get(order.symbol)!;
-    const trades: Trade[] = [];
-    const updatedOrders: Order[] = [];
-
-    if (order.type === 'market') {
-      return this.processMarketOrder(order, orderBook);
-    } else {
-      return this.processLimitOrder(order, orderBook);
+    if (orderRequest.type === 'iceberg' &&
+      (!orderRequest.icebergQuantity || orderRequest.icebergQuantity <= 0 || orderRequest.icebergQuantity > orderRequest.quantity)) {
+      throw new Error('Iceberg orders must show a positive slice no larger than the order quantity');
     }
-  }
 
-  private processMarketOrder(order: Order, orderBook: OrderBook): OrderMatchResult {
-    const trades: Trade[] = [];
-    const updatedOrders: Order[] = [];
-    let remainingQuantity = order.quantity;
-    let totalFillValue = 0;
+    if (this.isPostOnly(orderRequest) && !this.isLimitLike(orderRequest)) {
+      throw new Error('Post-only orders must have a limit price');
+    }
 
-    // Get opposite side of order book
-    const levels = order.side === 'buy' ? orderBook.asks : orderBook.bids;
+    if (orderRequest.timeInForce === 'GTD' && (!orderRequest.expiryTime || orderRequest.expiryTime <= this.clock())) {
+      throw new Error('GTD orders must have an expiry time in the future');
+    }
 
-    for (const level of levels) {
-      if (remainingQuantity <= 0) break;
+    if (!this.orderBooks.has(orderRequest.symbol)) {
+      throw new Error(`OrderBook for symbol ${orderRequest.symbol} not initialized`);
+    }
+  }
 
-      for (const levelOrder of level.orders) {
-        if (remainingQuantity <= 0) break;
+  private acceptOrder(order: Order): OrderMatchResult {
+    // Add to orders map
+    this.orders.set(order.id, order);
 
-        const fillQuantity = Math.min(remainingQuantity, levelOrder.remainingQuantity);
-        const fillPrice = levelOrder.price!;
+    // Add to user orders
+    if (!this.userOrders.has(order.userId)) {
+      this.userOrders.set(order.userId, new Set());
+    }
+    this.userOrders.get(order.userId)!.add(order.id);
 
-        // Create trade
-        const trade = this.createTrade(order, levelOrder, fillQuantity, fillPrice);
-        trades.push(trade);
+    if (order.timeInForce === 'GTD') {
+      this.expiringOrders.add(order.id);
+    }
 
-        // Update order statuses
-        this.updateOrderFromFill(order, fillQuantity, fillPrice);
-        this.updateOrderFromFill(levelOrder, fillQuantity, fillPrice);
+    // Stops wait in the trigger book unless the last trade already crossed them
+    let result: OrderMatchResult;
+    if (this.isStop(order) && !this.isTriggered(order)) {
+      result = this.queueStopOrder(order);
+    } else {
+      if (this.isStop(order)) this.markTriggered(order);
+      result = this.processOrder(order);
+    }
 
-        updatedOrders.push(levelOrder);
+    // Trades from this order may have moved the last price through other stops
+    this.activateStops(order.symbol);
+    return result;
+  }
 
-        remainingQuantity -= fillQuantity;
-        totalFillValue += fillQuantity * fillPrice;
+  private processOrder(order: Order): OrderMatchResult {
+    const orderBook = this.orderBooks.get(order.symbol)!;
 
-        // Remove filled orders
-        if (levelOrder.remainingQuantity === 0) {
-          this.removeOrderFromBook(levelOrder);
-        }
+    if (order.reduceOnly) {
+      const allowed = this.reducibleQuantity(order);
+      if (allowed <= 0) {
+        return this.rejectOrder(order, 'reduce_only_would_increase');
+      }
+      if (order.remainingQuantity > allowed) {
+        this.shrinkOrder(order, allowed);
       }
     }
 
+    if (this.isPostOnly(order) && this.wouldCross(order, orderBook)) {
+      return this.rejectOrder(order, 'post_only_would_cross');
+    }
+
+    if (order.type === 'market' || order.type === 'stop') {
+      return this.processMarketOrder(order, orderBook);
+    } else {
+      return this.processLimitOrder(order, orderBook);
+    }
+  }
+
+  private processMarketOrder(order: Order, orderBook: OrderBook): OrderMatchResult {
+    const { trades, updatedOrders } = this.matchAgainstBook(order, orderBook);
+
     // Update order status
-    if (remainingQuantity === 0) {
+    if (order.remainingQuantity === 0) {
       order.status = 'filled';
-    } else if (remainingQuantity < order.quantity) {
+    } else if (order.filledQuantity > 0) {
       order.status = 'partial';
     } else {
       order.status = 'rejected'; // No liquidity
     }
 
     // Calculate market impact
-    const avgFillPrice = order.filledQuantity > 0 ? totalFillValue / order.filledQuantity : 0;
-    const marketImpact = this.calculateMarketImpact(order, avgFillPrice, orderBook);
+    const marketImpact = this.calculateMarketImpact(order, order.avgFillPrice, orderBook);
 
     // Update order book
     this.updateOrderBook(orderBook, trades);
@@ -487,13 +660,8 @@ export class OrderBookEngine extends EventEmitter {
   }
 
   private processLimitOrder(order: Order, orderBook: OrderBook): OrderMatchResult {
-    const trades: Trade[] = [];
-    const updatedOrders: Order[] = [];
-
     // First try to match with existing orders
-    const matchResult = this.matchLimitOrder(order, orderBook);
-    trades.push(...matchResult.trades);
-    updatedOrders.push(...matchResult.updatedOrders);
+    const { trades, updatedOrders } = this.matchAgainstBook(order, orderBook, order.price);
 
     // If order is not fully filled, add to order book
     if (order.remainingQuantity > 0 && order.status !== 'cancelled') {
@@ -514,47 +682,55 @@ export class OrderBookEngine extends EventEmitter {
     };
   }
 
-  private matchLimitOrder(order: Order, orderBook: OrderBook): { trades: Trade[]; updatedOrders: Order[] } {
+  private matchAgainstBook(order: Order, orderBook: OrderBook, limitPrice?: number): { trades: Trade[]; updatedOrders: Order[] } {
     const trades: Trade[] = [];
     const updatedOrders: Order[] = [];
-    
+
     // Get opposite side levels that can match
     const levels = order.side === 'buy' ? orderBook.asks : orderBook.bids;
-    const canMatch = order.side === 'buy' 
-      ? (level: OrderBookLevel) => level.price <= order.price!
-      : (level: OrderBookLevel) => level.price >= order.price!;
-
-    for (const level of levels) {
-      if (order.remainingQuantity <= 0 || !canMatch(level)) break;
-
-      for (const levelOrder of level.orders) {
-        if (order.remainingQuantity <= 0) break;
-
-        const fillQuantity = Math.min(order.remainingQuantity, levelOrder.remainingQuantity);
-        const fillPrice = levelOrder.price!;
-
-        // Create trade
-        const trade = this.createTrade(order, levelOrder, fillQuantity, fillPrice);
-        trades.push(trade);
-
-        // Update orders
-        this.updateOrderFromFill(order, fillQuantity, fillPrice);
-        this.updateOrderFromFill(levelOrder, fillQuantity, fillPrice);
+    const canMatch = (level: OrderBookLevel) => limitPrice === undefined ||
+      (order.side === 'buy' ? level.price <= limitPrice : level.price >= limitPrice);
+
+    // Always take the head of the best level: filled orders leave the book and
+    // refilled icebergs move to the back of the queue, so re-read it every fill
+    while (order.remainingQuantity > 0 && levels.length > 0 && canMatch(levels[0])) {
+      const level = levels[0];
+      const levelOrder = level.orders[0];
+      const fillQuantity = Math.min(order.remainingQuantity, this.displayedQuantity(levelOrder));
+      const fillPrice = level.price;
+
+      // Create trade
+      const trade = order.side === 'buy'
+        ? this.createTrade(order, levelOrder, fillQuantity, fillPrice, 'buy')
+        : this.createTrade(levelOrder, order, fillQuantity, fillPrice, 'sell');
+      trades.push(trade);
+
+      // Update orders
+      this.updateOrderFromFill(order, fillQuantity, fillPrice);
+      this.updateOrderFromFill(levelOrder, fillQuantity, fillPrice);
+      if (levelOrder.visibleQuantity !== undefined) {
+        levelOrder.visibleQuantity -= fillQuantity;
+      }
 
-        updatedOrders.push(levelOrder);
+      updatedOrders.push(levelOrder);
 
-        // Remove filled orders
-        if (levelOrder.remainingQuantity === 0) {
-          this.removeOrderFromBook(levelOrder);
-        }
+      if (levelOrder.remainingQuantity === 0) {
+        this.removeOrderFromBook(levelOrder);
+      } else if (levelOrder.visibleQuantity === 0) {
+        this.refillIceberg(levelOrder, orderBook, level);
+      } else {
+        this.syncLevel(orderBook, levelOrder.side, level);
       }
+
+      // Resting reduce-only orders must never outgrow the position they close
+      this.enforceReduceOnly(trade.buyUserId, order.symbol, order.id);
+      this.enforceReduceOnly(trade.sellUserId, order.symbol, order.id);
     }
 
     return { trades, updatedOrders };
   }
 
-  private createTrade(buyOrder: Order, sellOrder: Order, quantity: number, price: number): Trade {
-    const isBuyerTaker = buyOrder.timestamp > sellOrder.timestamp;
+  private createTrade(buyOrder: Order, sellOrder: Order, quantity: number, price: number, takerSide: 'buy' | 'sell'): Trade {
     const trade: Trade = {
       id: this.generateTradeId(),
       symbol: buyOrder.symbol,
@@ -564,8 +740,8 @@ export class OrderBookEngine extends EventEmitter {
       sellUserId: sellOrder.userId,
       price,
       quantity,
-      timestamp: Date.now(),
-      side: isBuyerTaker ? 'buy' : 'sell',
+      timestamp: this.now(),
+      side: takerSide,
       fees: {
         maker: quantity * price * this.FEE_STRUCTURE.maker,
         taker: quantity * price * this.FEE_STRUCTURE.taker
@@ -584,6 +760,15 @@ export class OrderBookEngine extends EventEmitter {
     
     this.trades.set(buyOrder.symbol, trades);
 
+    this.adjustPosition(trade.buyUserId, trade.symbol, quantity);
+    this.adjustPosition(trade.sellUserId, trade.symbol, -quantity);
+
+    if (this.replaying) {
+      this.replayedTrades.push(trade);
+    } else {
+      this.record({ type: 'order_matched', trade });
+    }
+
     this.emit('tradeExecuted', trade);
     return trade;
   }
@@ -598,7 +783,7 @@ export class OrderBookEngine extends EventEmitter {
     order.avgFillPrice = totalFillValue / order.filledQuantity;
 
     // Update fees
-    const feeRate = order.timestamp < Date.now() - 1000 ? this.FEE_STRUCTURE.maker : this.FEE_STRUCTURE.taker;
+    const feeRate = order.timestamp < this.now() - 1000 ? this.FEE_STRUCTURE.maker : this.FEE_STRUCTURE.taker;
     order.fees += fillQuantity * fillPrice * feeRate;
 
     // Update status
@@ -615,6 +800,11 @@ export class OrderBookEngine extends EventEmitter {
     const levels = order.side === 'buy' ? orderBook.bids : orderBook.asks;
     const price = order.price!;
 
+    // Icebergs only expose one slice at a time
+    if (order.type === 'iceberg') {
+      order.visibleQuantity = Math.min(order.icebergQuantity!, order.remainingQuantity);
+    }
+
     // Find or create price level
     let level = levels.find(l => l.price === price);
     if (!level) {
@@ -639,16 +829,7 @@ export class OrderBookEngine extends EventEmitter {
 
     // Add order to level
     level.orders.push(order);
-    level.quantity += order.remainingQuantity;
-    level.orderCount++;
-
-    // Update depth
-    const depthKey = price.toFixed(this.PRICE_PRECISION);
-    if (order.side === 'buy') {
-      orderBook.depth.bids[depthKey] = (orderBook.depth.bids[depthKey] || 0) + order.remainingQuantity;
-    } else {
-      orderBook.depth.asks[depthKey] = (orderBook.depth.asks[depthKey] || 0) + order.remainingQuantity;
-    }
+    this.syncLevel(orderBook, order.side, level);
   }
 
   private removeOrderFromBook(order: Order): void {
@@ -656,42 +837,199 @@ export class OrderBookEngine extends EventEmitter {
     if (!orderBook) return;
 
     const levels = order.side === 'buy' ? orderBook.bids : orderBook.asks;
-    const levelIndex = levels.findIndex(l => l.price === order.price);
-    
-    if (levelIndex === -1) return;
+    const level = levels.find(l => l.price === order.price);
+    if (!level) return;
 
-    const level = levels[levelIndex];
     const orderIndex = level.orders.findIndex(o => o.id === order.id);
-    
     if (orderIndex === -1) return;
 
-    // Remove order
+    // Remove order (and the level, if it was the last one)
     level.orders.splice(orderIndex, 1);
-    level.quantity -= order.remainingQuantity;
-    level.orderCount--;
+    this.syncLevel(orderBook, order.side, level);
+  }
+
+  /**
+   * Recompute a level's size and depth entry from its orders. Only the visible
+   * part of an iceberg counts; the hidden remainder never shows in the book.
+   */
+  private syncLevel(orderBook: OrderBook, side: Order['side'], level: OrderBookLevel): void {
+    const levels = side === 'buy' ? orderBook.bids : orderBook.asks;
+    const depth = side === 'buy' ? orderBook.depth.bids : orderBook.depth.asks;
+    const depthKey = level.price.toFixed(this.PRICE_PRECISION);
+
+    level.quantity = level.orders.reduce((sum, order) => sum + this.displayedQuantity(order), 0);
+    level.orderCount = level.orders.length;
 
-    // Remove level if empty
     if (level.orders.length === 0) {
-      levels.splice(levelIndex, 1);
+      const levelIndex = levels.indexOf(level);
+      if (levelIndex !== -1) levels.splice(levelIndex, 1);
+      delete depth[depthKey];
+    } else {
+      depth[depthKey] = level.quantity;
     }
+  }
 
-    // Update depth
-    const depthKey = order.price!.toFixed(this.PRICE_PRECISION);
-    if (order.side === 'buy') {
-      orderBook.depth.bids[depthKey] = Math.max(0, (orderBook.depth.bids[depthKey] || 0) - order.remainingQuantity);
-      if (orderBook.depth.bids[depthKey] === 0) {
-        delete orderBook.depth.bids[depthKey];
-      }
+  private displayedQuantity(order: Order): number {
+    return order.visibleQuantity ?? order.remainingQuantity;
+  }
+
+  private refillIceberg(order: Order, orderBook: OrderBook, level: OrderBookLevel): void {
+    order.visibleQuantity = Math.min(order.icebergQuantity!, order.remainingQuantity);
+
+    // The new slice loses time priority and joins the back of the queue
+    level.orders.splice(level.orders.indexOf(order), 1);
+    level.orders.push(order);
+    this.syncLevel(orderBook, order.side, level);
+
+    this.emit('icebergRefilled', { order, visibleQuantity: order.visibleQuantity });
+  }
+
+  /**
+   * Order lifecycle helpers
+   */
+
+  private isStop(order: Pick<Order, 'type'>): boolean {
+    return order.type === 'stop' || order.type === 'stop_limit';
+  }
+
+  private isLimitLike(order: Pick<Order, 'type'>): boolean {
+    return order.type !== 'market' && order.type !== 'stop';
+  }
+
+  private isPostOnly(order: Pick<Order, 'type' | 'postOnly'>): boolean {
+    return order.type === 'post_only' || order.postOnly === true;
+  }
+
+  private isActive(order: Order): boolean {
+    return order.status === 'pending' || order.status === 'open' || order.status === 'partial';
+  }
+
+  private lastTradePrice(symbol: string): number | undefined {
+    const trades = this.trades.get(symbol);
+    return trades && trades.length > 0 ? trades[trades.length - 1].price : undefined;
+  }
+
+  private isTriggered(order: Order): boolean {
+    const lastPrice = this.lastTradePrice(order.symbol);
+    if (lastPrice === undefined) return false;
+    return order.side === 'buy' ? lastPrice >= order.stopPrice! : lastPrice <= order.stopPrice!;
+  }
+
+  private queueStopOrder(order: Order): OrderMatchResult {
+    order.status = 'pending';
+    this.stopOrders.get(order.symbol)!.push(order);
+    return this.emptyResult(order);
+  }
+
+  private markTriggered(order: Order): void {
+    order.triggeredAt = this.now();
+    this.emit('stopTriggered', { order, lastPrice: this.lastTradePrice(order.symbol) });
+  }
+
+  /**
+   * Fire every queued stop crossed by the last trade price. Each activation can
+   * trade and move the price again, so keep going until nothing else triggers.
+   */
+  private activateStops(symbol: string): void {
+    const stops = this.stopOrders.get(symbol);
+    if (!stops) return;
+
+    let next = stops.find(order => this.isTriggered(order));
+    while (next) {
+      stops.splice(stops.indexOf(next), 1);
+      this.markTriggered(next);
+      this.processOrder(next);
+      next = stops.find(order => this.isTriggered(order));
+    }
+  }
+
+  private deactivateOrder(order: Order): void {
+    if (order.status === 'pending') {
+      const stops = this.stopOrders.get(order.symbol) || [];
+      const index = stops.findIndex(o => o.id === order.id);
+      if (index !== -1) stops.splice(index, 1);
+      return;
+    }
+
+    this.removeOrderFromBook(order);
+    this.updateOrderBook(this.orderBooks.get(order.symbol)!, []);
+  }
+
+  private wouldCross(order: Order, orderBook: OrderBook): boolean {
+    const best = order.side === 'buy' ? orderBook.asks[0] : orderBook.bids[0];
+    if (!best) return false;
+    return order.side === 'buy' ? best.price <= order.price! : best.price >= order.price!;
+  }
+
+  private rejectOrder(order: Order, reason: OrderRejectionReason): OrderMatchResult {
+    order.status = 'rejected';
+    this.expiringOrders.delete(order.id);
+
+    EnhancedLogger.info('Order rejected', { orderId: order.id, symbol: order.symbol, reason });
+    this.emit('orderRejected', { order, reason });
+    return this.emptyResult(order);
+  }
+
+  private emptyResult(order: Order): OrderMatchResult {
+    return {
+      trades: [],
+      updatedOrders: [],
+      newOrderStatus: order,
+      marketImpact: { priceImpact: 0, slippage: 0, effectivePrice: 0 }
+    };
+  }
+
+  private adjustPosition(userId: string, symbol: string, delta: number): void {
+    const key = `${userId}:${symbol}`;
+    const position = parseFloat(((this.positions.get(key) || 0) + delta).toFixed(this.QUANTITY_PRECISION));
+    if (position === 0) {
+      this.positions.delete(key);
     } else {
-      orderBook.depth.asks[depthKey] = Math.max(0, (orderBook.depth.asks[depthKey] || 0) - order.remainingQuantity);
-      if (orderBook.depth.asks[depthKey] === 0) {
-        delete orderBook.depth.asks[depthKey];
+      this.positions.set(key, position);
+    }
+  }
+
+  // Quanto uma ordem reduce-only ainda pode executar sem inverter a posição
+  private reducibleQuantity(order: Order): number {
+    const position = this.getPosition(order.userId, order.symbol);
+    return order.side === 'sell' ? Math.max(0, position) : Math.max(0, -position);
+  }
+
+  private shrinkOrder(order: Order, remainingQuantity: number): void {
+    order.quantity -= order.remainingQuantity - remainingQuantity;
+    order.remainingQuantity = remainingQuantity;
+    if (order.visibleQuantity !== undefined) {
+      order.visibleQuantity = Math.min(order.visibleQuantity, remainingQuantity);
+    }
+  }
+
+  private enforceReduceOnly(userId: string, symbol: string, excludeOrderId: string): void {
+    const userOrderIds = this.userOrders.get(userId);
+    if (!userOrderIds) return;
+
+    for (const orderId of userOrderIds) {
+      const order = this.orders.get(orderId);
+      if (!order || order.id === excludeOrderId || !order.reduceOnly || order.symbol !== symbol) continue;
+      if (order.status !== 'open' && order.status !== 'partial') continue;
+
+      const allowed = this.reducibleQuantity(order);
+      if (allowed <= 0) {
+        this.removeOrderFromBook(order);
+        order.status = 'cancelled';
+        this.expiringOrders.delete(order.id);
+        this.emit('orderCancelled', order);
+      } else if (order.remainingQuantity > allowed) {
+        this.shrinkOrder(order, allowed);
+        const orderBook = this.orderBooks.get(symbol)!;
+        const levels = order.side === 'buy' ? orderBook.bids : orderBook.asks;
+        const level = levels.find(l => l.price === order.price);
+        if (level) this.syncLevel(orderBook, order.side, level);
       }
     }
   }
 
   private updateOrderBook(orderBook: OrderBook, trades: Trade[]): void {
-    orderBook.lastUpdate = Date.now();
+    orderBook.lastUpdate = this.now();
     orderBook.sequence++;
 
     // Update best bid/ask
@@ -705,7 +1043,7 @@ export class OrderBookEngine extends EventEmitter {
     }
 
     // Update 24h volume
-    const oneDayAgo = Date.now() - 24 * 60 * 60 * 1000;
+    const oneDayAgo = this.now() - 24 * 60 * 60 * 1000;
     const recentTrades = (this.trades.get(orderBook.symbol) || [])
       .filter(trade => trade.timestamp > oneDayAgo);
     
@@ -725,7 +1063,7 @@ export class OrderBookEngine extends EventEmitter {
       timeSeries.push({ price: latestTrade.price, timestamp: latestTrade.timestamp });
       
       // Keep only recent data
-      const filtered = timeSeries.filter(point => Date.now() - point.timestamp < 24 * 60 * 60 * 1000);
+      const filtered = timeSeries.filter(point => this.now() - point.timestamp < 24 * 60 * 60 * 1000);
       this.priceTimeSeries.set(orderBook.symbol, filtered);
     }
 
@@ -737,7 +1075,7 @@ export class OrderBookEngine extends EventEmitter {
     const priceImpact = midPrice > 0 ? Math.abs((avgFillPrice - midPrice) / midPrice) * 100 : 0;
     
     let expectedPrice = midPrice;
-    if (order.type === 'limit' && order.price) {
+    if (this.isLimitLike(order) && order.price) {
       expectedPrice = order.price;
     }
     
@@ -788,10 +1126,262 @@ export class OrderBookEngine extends EventEmitter {
   }
 
   private generateTradeId(): string {
-    return `trade_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    // Derivado do relógio e da sequência para que o replay gere os mesmos ids
+    return `trade_${this.now()}_${this.sequence + 1}`;
+  }
+
+  /**
+   * Journal, snapshots and replay
+   */
+
+  private now(): number {
+    return this.frozenTime ?? this.clock();
+  }
+
+  private atTime<T>(time: number, fn: () => T): T {
+    const previous = this.frozenTime;
+    this.frozenTime = time;
+    try {
+      return fn();
+    } finally {
+      this.frozenTime = previous;
+    }
+  }
+
+  private record(event: JournalEvent): void {
+    if (!this.journal || this.replaying) return;
+
+    this.journalSequence++;
+    this.journal.append({ ...event, sequence: this.journalSequence, timestamp: this.now() } as JournalEntry);
+  }
+
+  private maybeSnapshot(): void {
+    if (!this.journal || this.replaying || this.snapshotInterval <= 0) return;
+
+    if (this.journalSequence - this.lastSnapshotSequence >= this.snapshotInterval) {
+      this.journal.saveSnapshot(this.createSnapshot());
+      this.lastSnapshotSequence = this.journalSequence;
+      this.emit('snapshotSaved', { journalSequence: this.journalSequence });
+    }
+  }
+
+  /**
+   * Serializable copy of every book, order and trade
+   */
+  createSnapshot(): EngineSnapshot {
+    const levelSnapshot = (level: OrderBookLevel) => ({
+      price: level.price,
+      quantity: level.quantity,
+      orderIds: level.orders.map(order => order.id)
+    });
+
+    const books: BookSnapshot[] = Array.from(this.orderBooks.values()).map(book => ({
+      symbol: book.symbol,
+      bids: book.bids.map(levelSnapshot),
+      asks: book.asks.map(levelSnapshot),
+      lastUpdate: book.lastUpdate,
+      sequence: book.sequence,
+      spread: book.spread,
+      midPrice: book.midPrice,
+      volume24h: book.volume24h,
+      priceChange24h: book.priceChange24h
+    }));
+
+    return JSON.parse(JSON.stringify({
+      journalSequence: this.journalSequence,
+      tradeSequence: this.sequence,
+      timestamp: this.now(),
+      books,
+      orders: Array.from(this.orders.values()),
+      trades: Object.fromEntries(this.trades),
+      priceTimeSeries: Object.fromEntries(this.priceTimeSeries),
+      positions: Object.fromEntries(this.positions)
+    }));
+  }
+
+  private restoreSnapshot(snapshot: EngineSnapshot): void {
+    this.orderBooks.clear();
+    this.orders.clear();
+    this.userOrders.clear();
+    this.trades.clear();
+    this.priceTimeSeries.clear();
+    this.stopOrders.clear();
+    this.expiringOrders.clear();
+    this.positions = new Map(Object.entries(snapshot.positions || {}));
+
+    for (const book of snapshot.books) {
+      this.stopOrders.set(book.symbol, []);
+    }
+
+    for (const order of snapshot.orders) {
+      const copy: Order = { ...order, metadata: { ...order.metadata } };
+      this.orders.set(copy.id, copy);
+      if (!this.userOrders.has(copy.userId)) {
+        this.userOrders.set(copy.userId, new Set());
+      }
+      this.userOrders.get(copy.userId)!.add(copy.id);
+
+      // Trigger book and GTD set are rebuilt in placement order
+      if (copy.status === 'pending' && this.isStop(copy)) {
+        this.stopOrders.get(copy.symbol)?.push(copy);
+      }
+      if (copy.timeInForce === 'GTD' && this.isActive(copy)) {
+        this.expiringOrders.add(copy.id);
+      }
+    }
+
+    for (const book of snapshot.books) {
+      const restoreLevel = (level: BookSnapshot['bids'][number]): OrderBookLevel => {
+        const orders = level.orderIds.map(id => {
+          const order = this.orders.get(id);
+          if (!order) throw new Error(`Snapshot level references unknown order ${id}`);
+          return order;
+        });
+        return { price: level.price, quantity: level.quantity, orderCount: orders.length, orders };
+      };
+
+      const orderBook: OrderBook = {
+        ...book,
+        bids: book.bids.map(restoreLevel),
+        asks: book.asks.map(restoreLevel),
+        depth: { bids: {}, asks: {} }
+      };
+      for (const level of [...orderBook.bids]) this.syncLevel(orderBook, 'buy', level);
+      for (const level of [...orderBook.asks]) this.syncLevel(orderBook, 'sell', level);
+      orderBook.bestBid = orderBook.bids[0];
+      orderBook.bestAsk = orderBook.asks[0];
+
+      this.orderBooks.set(book.symbol, orderBook);
+      this.trades.set(book.symbol, (snapshot.trades[book.symbol] || []).map(trade => ({ ...trade, fees: { ...trade.fees } })));
+      this.priceTimeSeries.set(book.symbol, (snapshot.priceTimeSeries[book.symbol] || []).map(point => ({ ...point })));
+    }
+
+    this.sequence = snapshot.tradeSequence;
+    this.journalSequence = snapshot.journalSequence;
+    this.lastSnapshotSequence = snapshot.journalSequence;
+  }
+
+  /**
+   * Re-run journal entries on top of the current state (or a snapshot).
+   * Orders are matched again with the recorded ids and clock, and every
+   * trade produced is compared with the recorded `order_matched` entries,
+   * so a captured log reproduces the exact matching that happened live.
+   */
+  replay(entries: JournalEntry[], snapshot?: EngineSnapshot | null): ReplayReport {
+    if (snapshot) {
+      this.restoreSnapshot(snapshot);
+    }
+
+    const report: ReplayReport = {
+      fromSequence: this.journalSequence,
+      toSequence: this.journalSequence,
+      appliedEntries: 0,
+      divergences: []
+    };
+
+    const flushUnexpected = () => {
+      for (const trade of this.replayedTrades.splice(0)) {
+        report.divergences.push(
+          `Replay produced unrecorded trade ${trade.id} (${trade.quantity} @ ${trade.price})`
+        );
+      }
+    };
+
+    const ordered = entries
+      .filter(entry => entry.sequence > this.journalSequence)
+      .sort((a, b) => a.sequence - b.sequence);
+
+    this.replaying = true;
+    for (const entry of ordered) {
+      this.frozenTime = entry.timestamp;
+      try {
+        switch (entry.type) {
+          case 'book_initialized':
+            flushUnexpected();
+            if (!this.orderBooks.has(entry.symbol)) this.createEmptyBook(entry.symbol);
+            break;
+          case 'order_placed':
+            flushUnexpected();
+            this.acceptOrder({ ...entry.order, metadata: { ...entry.order.metadata } });
+            break;
+          case 'order_matched': {
+            const produced = this.replayedTrades.shift();
+            const recorded = entry.trade;
+            if (!produced) {
+              report.divergences.push(`Recorded trade ${recorded.id} was not reproduced`);
+            } else if (
+              produced.id !== recorded.id ||
+              produced.price !== recorded.price ||
+              produced.quantity !== recorded.quantity ||
+              produced.buyOrderId !== recorded.buyOrderId ||
+              produced.sellOrderId !== recorded.sellOrderId
+            ) {
+              report.divergences.push(
+                `Trade ${recorded.id} diverged: recorded ${recorded.quantity} @ ${recorded.price}, ` +
+                `replayed ${produced.id} ${produced.quantity} @ ${produced.price}`
+              );
+            }
+            break;
+          }
+          case 'order_cancelled':
+            flushUnexpected();
+            this.applyCancel(entry.orderId, entry.userId);
+            break;
+          case 'order_expired':
+            flushUnexpected();
+            this.applyExpiry(entry.orderId);
+            break;
+        }
+      } catch (error) {
+        report.divergences.push(`Entry ${entry.sequence} (${entry.type}) failed: ${(error as Error).message}`);
+      } finally {
+        this.frozenTime = null;
+      }
+
+      this.journalSequence = entry.sequence;
+      report.toSequence = entry.sequence;
+      report.appliedEntries++;
+    }
+
+    flushUnexpected();
+    this.replaying = false;
+    this.lastSnapshotSequence = Math.min(this.lastSnapshotSequence, this.journalSequence);
+
+    EnhancedLogger.info('OrderBook journal replayed', {
+      component: 'OrderBookEngine',
+      fromSequence: report.fromSequence,
+      toSequence: report.toSequence,
+      appliedEntries: report.appliedEntries,
+      divergences: report.divergences.length
+    });
+
+    // Listeners missed every change made during the replay; one event lets them resync each book
+    this.emit('replayed', { report, symbols: Array.from(this.orderBooks.keys()) });
+
+    return report;
+  }
+
+  /**
+   * Rebuild an engine from the journal's latest snapshot plus the entries after it
+   */
+  static recover(journal: OrderJournal, options: Omit<OrderBookEngineOptions, 'journal'> = {}): {
+    engine: OrderBookEngine;
+    report: ReplayReport;
+  } {
+    const engine = new OrderBookEngine({ ...options, journal });
+    const snapshot = journal.latestSnapshot();
+    const report = engine.replay(journal.entriesAfter(snapshot?.journalSequence ?? 0), snapshot);
+    return { engine, report };
+  }
+
+  emit(event: string | symbol, ...args: unknown[]): boolean {
+    // Replay rebuilds state silently; listeners already saw these events live
+    if (this.replaying) return false;
+    return super.emit(event, ...args);
   }
 }
 
+
 // Singleton instance
 export const orderBookEngine = new OrderBookEngine();
 
@@ -0,0 +1,182 @@
+/**
+ * OrderBook Journal for CYPHER ORDi Future V3
+ * Append-only event log and periodic book snapshots for crash recovery and replay
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Order, Trade } from './OrderBookEngine';
+
+// Journal Types
+interface JournalEntryBase {
+  sequence: number;
+  timestamp: number;
+}
+
+export type JournalEntry = JournalEntryBase & (
+  | { type: 'book_initialized'; symbol: string }
+  | { type: 'order_placed'; order: Order }
+  | { type: 'order_matched'; trade: Trade }
+  | { type: 'order_cancelled'; orderId: string; userId: string }
+  | { type: 'order_expired'; orderId: string }
+);
+
+// Entrada ainda sem sequence/timestamp, atribuídos pelo engine ao gravar
+export type JournalEvent = JournalEntry extends infer E
+  ? E extends JournalEntryBase ? Omit<E, keyof JournalEntryBase> : never
+  : never;
+
+export interface BookLevelSnapshot {
+  price: number;
+  quantity: number;
+  orderIds: string[];
+}
+
+export interface BookSnapshot {
+  symbol: string;
+  bids: BookLevelSnapshot[];
+  asks: BookLevelSnapshot[];
+  lastUpdate: number;
+  sequence: number;
+  spread: number;
+  midPrice: number;
+  volume24h: number;
+  priceChange24h: number;
+}
+
+export interface EngineSnapshot {
+  journalSequence: number; // última entrada do journal incluída no snapshot
+  tradeSequence: number;
+  timestamp: number;
+  books: BookSnapshot[];
+  orders: Order[];
+  trades: { [symbol: string]: Trade[] };
+  priceTimeSeries: { [symbol: string]: { price: number; timestamp: number }[] };
+  positions?: { [userSymbol: string]: number }; // ausente em snapshots antigos
+}
+
+export interface ReplayReport {
+  fromSequence: number;
+  toSequence: number;
+  appliedEntries: number;
+  divergences: string[]; // trades gerados no replay que diferem dos registrados
+}
+
+export interface OrderJournal {
+  append(entry: JournalEntry): void;
+  entriesAfter(sequence: number): JournalEntry[];
+  saveSnapshot(snapshot: EngineSnapshot): void;
+  latestSnapshot(): EngineSnapshot | null;
+}
+
+/**
+ * Journal em memória — útil para testes e para capturar um log e reproduzi-lo
+ */
+export class InMemoryOrderJournal implements OrderJournal {
+  private entries: JournalEntry[] = [];
+  private snapshot: EngineSnapshot | null = null;
+
+  constructor(entries: JournalEntry[] = [], snapshot: EngineSnapshot | null = null) {
+    this.entries = entries.map(entry => cloneEntry(entry));
+    this.snapshot = snapshot;
+  }
+
+  append(entry: JournalEntry): void {
+    const last = this.entries[this.entries.length - 1];
+    if (last && entry.sequence <= last.sequence) {
+      throw new Error(`Journal sequence must increase (got ${entry.sequence} after ${last.sequence})`);
+    }
+    this.entries.push(cloneEntry(entry));
+  }
+
+  entriesAfter(sequence: number): JournalEntry[] {
+    return this.entries.filter(entry => entry.sequence > sequence).map(cloneEntry);
+  }
+
+  saveSnapshot(snapshot: EngineSnapshot): void {
+    this.snapshot = JSON.parse(JSON.stringify(snapshot));
+  }
+
+  latestSnapshot(): EngineSnapshot | null {
+    return this.snapshot ? JSON.parse(JSON.stringify(this.snapshot)) : null;
+  }
+
+  getEntries(): JournalEntry[] {
+    return this.entries.map(cloneEntry);
+  }
+}
+
+/**
+ * Journal em disco: uma entrada JSON por linha em `journal.jsonl` e o último
+ * snapshot em `snapshot.json`. Escritas são síncronas para que uma entrada
+ * confirmada sobreviva a um crash logo em seguida.
+ */
+export class FileOrderJournal implements OrderJournal {
+  private journalPath: string;
+  private snapshotPath: string;
+  private lastSequence = 0;
+
+  constructor(directory: string) {
+    fs.mkdirSync(directory, { recursive: true });
+    this.journalPath = path.join(directory, 'journal.jsonl');
+    this.snapshotPath = path.join(directory, 'snapshot.json');
+
+    this.dropTruncatedTail();
+    const entries = this.readAll();
+    this.lastSequence = entries.length > 0 ? entries[entries.length - 1].sequence : 0;
+  }
+
+  append(entry: JournalEntry): void {
+    if (entry.sequence <= this.lastSequence) {
+      throw new Error(`Journal sequence must increase (got ${entry.sequence} after ${this.lastSequence})`);
+    }
+    fs.appendFileSync(this.journalPath, JSON.stringify(entry) + '\n');
+    this.lastSequence = entry.sequence;
+  }
+
+  entriesAfter(sequence: number): JournalEntry[] {
+    return this.readAll().filter(entry => entry.sequence > sequence);
+  }
+
+  saveSnapshot(snapshot: EngineSnapshot): void {
+    const tmpPath = `${this.snapshotPath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(snapshot));
+    fs.renameSync(tmpPath, this.snapshotPath);
+  }
+
+  latestSnapshot(): EngineSnapshot | null {
+    if (!fs.existsSync(this.snapshotPath)) return null;
+    return JSON.parse(fs.readFileSync(this.snapshotPath, 'utf8'));
+  }
+
+  /**
+   * Um crash durante a escrita pode deixar a última linha incompleta;
+   * ela é descartada para que novas entradas comecem numa linha limpa
+   */
+  private dropTruncatedTail(): void {
+    if (!fs.existsSync(this.journalPath)) return;
+
+    const text = fs.readFileSync(this.journalPath, 'utf8');
+    if (text.length === 0 || text.endsWith('\n')) return;
+    fs.writeFileSync(this.journalPath, text.slice(0, text.lastIndexOf('\n') + 1));
+  }
+
+  private readAll(): JournalEntry[] {
+    if (!fs.existsSync(this.journalPath)) return [];
+
+    const lines = fs.readFileSync(this.journalPath, 'utf8').split('\n');
+    return lines
+      .filter(line => line.trim().length > 0)
+      .map((line, i) => {
+        try {
+          return JSON.parse(line) as JournalEntry;
+        } catch {
+          throw new Error(`Corrupted journal entry at line ${i + 1}`);
+        }
+      });
+  }
+}
+
+function cloneEntry(entry: JournalEntry): JournalEntry {
+  return JSON.parse(JSON.stringify(entry));
+}
@@ -0,0 +1,805 @@
+/**
+ * Ordinals Strategy Backtester
+ * Replays recorded floor prices, listings and sales through trading strategies before risking real sats
+ */
+
+import { OrdinalsMarketplace, type StandardizedActivity } from './integrations';
+import type { AggregatedCollectionData } from './DataAggregator';
+import type {
+  TradingStrategy,
+  TradingPosition,
+  TradingOrder,
+  RiskParameters,
+  TradingPerformance,
+  TradingSession
+} from './OrdinalsTrader';
+
+export interface OrdinalsMarketEvent {
+  type: 'floor' | 'listing' | 'delist' | 'sale';
+  collectionId: string;
+  timestamp: number;
+  price: number; // Always in BTC; ignored for delistings
+  marketplace: OrdinalsMarketplace;
+  inscriptionId?: string;
+  inscriptionNumber?: number;
+}
+
+export interface BacktestSignal {
+  inscriptionId?: string; // A specific listing; without one any sale in the collection at or below the price fills
+  inscriptionNumber?: number;
+  price: number;
+  marketplace: OrdinalsMarketplace;
+}
+
+export interface SignalContext {
+  strategy: TradingStrategy;
+  event: OrdinalsMarketEvent;
+  floor: number; // Lowest floor across marketplaces, 0 before the first floor event
+  floorMarketplace?: OrdinalsMarketplace;
+  floors: Partial<Record<OrdinalsMarketplace, number>>;
+  floorHistory: Array<{ timestamp: number; price: number }>;
+}
+
+export type BacktestSignalGenerator = (context: SignalContext) => BacktestSignal | null;
+
+export interface BacktestOptions {
+  marketplaceFees?: Partial<Record<OrdinalsMarketplace, number>>; // Percentage charged on both sides of a fill
+  royalties?: Record<string, number>; // Percentage of the sale price by collection, paid by the seller
+  networkFee?: number; // BTC per fill
+  orderTimeout?: number; // Minutes an unfilled entry order stays open
+  signals?: Record<string, BacktestSignalGenerator>; // By strategy name, replacing the built-in signal
+}
+
+export interface BacktestTrade {
+  positionId: string;
+  inscriptionId: string;
+  collectionId: string;
+  strategy: string;
+  marketplace: OrdinalsMarketplace;
+  entryTimestamp: number;
+  exitTimestamp: number;
+  entryPrice: number;
+  exitPrice: number;
+  fees: number; // Marketplace and network fees on both legs
+  royalty: number;
+  grossPnL: number;
+  netPnL: number;
+  exitReason: 'stop_loss' | 'take_profit';
+}
+
+export interface BacktestResult {
+  session: TradingSession;
+  performance: TradingPerformance;
+  trades: BacktestTrade[];
+  orders: TradingOrder[];
+  equityCurve: Array<{ timestamp: number; equity: number }>;
+}
+
+export const DEFAULT_MARKETPLACE_FEES: Record<OrdinalsMarketplace, number> = {
+  [OrdinalsMarketplace.MAGIC_EDEN]: 2,
+  [OrdinalsMarketplace.OKX]: 1,
+  [OrdinalsMarketplace.UNISAT]: 1,
+  [OrdinalsMarketplace.HIRO]: 0
+};
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+interface CollectionState {
+  floors: Partial<Record<OrdinalsMarketplace, number>>;
+  floor: number;
+  floorMarketplace?: OrdinalsMarketplace;
+  floorHistory: Array<{ timestamp: number; price: number }>;
+}
+
+interface PendingOrder {
+  order: TradingOrder;
+  collectionId: string;
+  inscriptionNumber?: number;
+  reserved: number; // Cash held back for an entry until it fills or is cancelled
+  position?: TradingPosition; // Set on exits
+  exitReason?: 'stop_loss' | 'take_profit';
+}
+
+/**
+ * Built-in signals for the default strategies; parameter names and defaults follow OrdinalsTrader.getDefaultStrategies
+ */
+const BUILT_IN_SIGNALS: Record<string, BacktestSignalGenerator> = {
+  // Listings priced at least minReturn% under the collection floor
+  value_hunting: ({ strategy, event, floor }) => {
+    if (event.type !== 'listing' || floor <= 0) return null;
+    const discount = ((floor - event.price) / floor) * 100;
+    return discount >= (strategy.parameters.minReturn ?? 10) ? listingSignal(event) : null;
+  },
+
+  // Listings at least minArbitrageSpread% under the floor on another marketplace
+  arbitrage: ({ strategy, event, floors }) => {
+    if (event.type !== 'listing') return null;
+    const otherFloors = Object.entries(floors)
+      .filter(([marketplace]) => marketplace !== event.marketplace)
+      .map(([, price]) => price as number);
+    if (otherFloors.length === 0) return null;
+    const spread = ((Math.max(...otherFloors) - event.price) / event.price) * 100;
+    return spread >= (strategy.parameters.minArbitrageSpread ?? 2) ? listingSignal(event) : null;
+  },
+
+  // Floor up momentumThreshold% over the last lookbackHours
+  momentum_trading: ({ strategy, event, floor, floorMarketplace, floorHistory }) => {
+    if (event.type !== 'floor' || !floorMarketplace) return null;
+    const since = event.timestamp - (strategy.parameters.lookbackHours ?? 24) * HOUR;
+    const start = floorHistory.find(point => point.timestamp >= since);
+    if (!start || start.timestamp === event.timestamp) return null;
+    const change = ((floor - start.price) / start.price) * 100;
+    return change >= (strategy.parameters.momentumThreshold ?? 20) ? { price: floor, marketplace: floorMarketplace } : null;
+  },
+
+  // Floor deviationThreshold% under its average over meanReversionPeriod days
+  mean_reversion: ({ strategy, event, floor, floorMarketplace, floorHistory }) => {
+    if (event.type !== 'floor' || !floorMarketplace) return null;
+    const since = event.timestamp - (strategy.parameters.meanReversionPeriod ?? 7) * DAY;
+    const window = floorHistory.filter(point => point.timestamp >= since);
+    if (window.length < 2) return null;
+    const mean = window.reduce((sum, point) => sum + point.price, 0) / window.length;
+    const deviation = ((mean - floor) / mean) * 100;
+    return deviation >= (strategy.parameters.deviationThreshold ?? 30) ? { price: floor, marketplace: floorMarketplace } : null;
+  }
+};
+
+export class OrdinalsBacktester {
+  private options: BacktestOptions;
+  private session!: TradingSession;
+  private now = 0;
+  private cash = 0;
+  private reserved = 0;
+  private collections = new Map<string, CollectionState>();
+  private pending: PendingOrder[] = [];
+  private orders: TradingOrder[] = [];
+  private trades: BacktestTrade[] = [];
+  private equityCurve: Array<{ timestamp: number; equity: number }> = [];
+  private peakEquity = 0;
+  private dayStart = 0;
+  private dayStartEquity = 0;
+  private dailyLossHalted = false;
+  private lastLossAt = new Map<string, number>();
+  private sequence = 0;
+
+  constructor(options: BacktestOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Replay market events in time order and trade them with the enabled strategies
+   */
+  run(
+    strategies: TradingStrategy[],
+    riskParameters: RiskParameters,
+    initialBalance: number,
+    events: OrdinalsMarketEvent[]
+  ): BacktestResult {
+    if (initialBalance <= 0) {
+      throw new Error('Initial balance must be positive');
+    }
+
+    const enabled = strategies.filter(s => s.enabled).sort((a, b) => b.priority - a.priority);
+    const signals = { ...BUILT_IN_SIGNALS, ...this.options.signals };
+    for (const strategy of enabled) {
+      if (!signals[strategy.name]) {
+        throw new Error(`No backtest signal for strategy ${strategy.name}`);
+      }
+    }
+
+    const timeline = [...events].sort((a, b) => a.timestamp - b.timestamp);
+    timeline.forEach(validateEvent);
+
+    this.reset(initialBalance);
+    this.session = {
+      id: `backtest_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      startTime: timeline[0]?.timestamp ?? Date.now(),
+      status: 'active',
+      strategies: enabled,
+      riskParameters,
+      performance: this.initializePerformance(),
+      currentPositions: [],
+      pendingOrders: [],
+      portfolioValue: initialBalance,
+      availableBalance: initialBalance,
+      errorLog: []
+    };
+    this.dayStart = startOfDay(this.session.startTime);
+
+    for (const event of timeline) {
+      this.now = event.timestamp;
+      this.rollDay();
+      this.expireOrders();
+
+      const state = this.applyEvent(event);
+
+      if (event.type === 'sale') {
+        this.fillOrders(event);
+      } else if (event.type === 'delist') {
+        this.cancelOrders(p => p.order.type === 'buy' && p.order.inscriptionId === event.inscriptionId);
+      } else if (event.type === 'floor') {
+        this.markPositions(event.collectionId, state.floor);
+      }
+
+      for (const strategy of enabled) {
+        const signal = signals[strategy.name]({
+          strategy,
+          event,
+          floor: state.floor,
+          floorMarketplace: state.floorMarketplace,
+          floors: { ...state.floors },
+          floorHistory: state.floorHistory
+        });
+        if (signal && this.canEnter(strategy, event.collectionId, signal)) {
+          this.placeEntry(strategy, event.collectionId, signal);
+        }
+      }
+
+      this.recordEquity();
+      this.performRiskChecks();
+    }
+
+    const equity = this.calculateEquity();
+    this.session.endTime = timeline[timeline.length - 1]?.timestamp ?? this.session.startTime;
+    if (this.session.status === 'active') {
+      this.session.status = 'stopped';
+    }
+    this.session.pendingOrders = this.pending.map(p => p.order);
+    this.session.portfolioValue = equity;
+    this.session.availableBalance = this.cash;
+    this.session.performance = this.calculatePerformance(initialBalance);
+
+    return {
+      session: this.session,
+      performance: this.session.performance,
+      trades: [...this.trades],
+      orders: [...this.orders],
+      equityCurve: [...this.equityCurve]
+    };
+  }
+
+  /**
+   * Update the collection's floors and floor history
+   */
+  private applyEvent(event: OrdinalsMarketEvent): CollectionState {
+    let state = this.collections.get(event.collectionId);
+    if (!state) {
+      state = { floors: {}, floor: 0, floorHistory: [] };
+      this.collections.set(event.collectionId, state);
+    }
+
+    if (event.type === 'floor') {
+      state.floors[event.marketplace] = event.price;
+      const [marketplace, floor] = Object.entries(state.floors)
+        .reduce((best, entry) => (entry[1] as number) < (best[1] as number) ? entry : best);
+      state.floor = floor as number;
+      state.floorMarketplace = marketplace as OrdinalsMarketplace;
+      state.floorHistory.push({ timestamp: event.timestamp, price: state.floor });
+    }
+
+    return state;
+  }
+
+  /**
+   * A recorded sale is the only liquidity: it fills at most one resting order, at the order's limit price
+   */
+  private fillOrders(sale: OrdinalsMarketEvent): void {
+    const match = this.pending.find(p => {
+      if (p.collectionId !== sale.collectionId) return false;
+      const limit = p.order.price ?? 0;
+      if (p.order.type === 'sell') return sale.price >= limit;
+      if (p.order.inscriptionId && p.order.inscriptionId !== sale.inscriptionId) return false;
+      return sale.price <= limit;
+    });
+    if (!match) return;
+
+    this.pending = this.pending.filter(p => p !== match);
+    match.order.status = 'filled';
+    match.order.filledAt = this.now;
+    match.order.filledPrice = match.order.price;
+
+    if (match.order.type === 'buy') {
+      this.openPosition(match, sale);
+    } else {
+      this.closePosition(match);
+    }
+  }
+
+  private openPosition(entry: PendingOrder, sale: OrdinalsMarketEvent): void {
+    const { order } = entry;
+    const price = order.filledPrice!;
+    const fees = this.tradeFee(price, order.marketplace);
+    this.reserved -= entry.reserved;
+    this.cash -= price + fees;
+
+    const strategy = this.session.strategies.find(s => s.name === order.strategy);
+    const stopLossPercentage = strategy?.parameters.stopLossPercentage ?? this.session.riskParameters.stopLossPercentage;
+    const takeProfitPercentage = strategy?.parameters.takeProfitPercentage ?? this.session.riskParameters.takeProfitPercentage;
+
+    this.session.currentPositions.push({
+      id: `pos_${this.nextId()}`,
+      // Floor orders buy whichever inscription traded
+      inscriptionId: order.inscriptionId || sale.inscriptionId || `${entry.collectionId}:${order.id}`,
+      inscriptionNumber: entry.inscriptionNumber ?? sale.inscriptionNumber ?? 0,
+      collectionId: entry.collectionId,
+      strategy: order.strategy,
+      type: 'long',
+      entryPrice: price,
+      currentPrice: price,
+      quantity: order.quantity,
+      entryTimestamp: this.now,
+      marketplace: order.marketplace,
+      stopLoss: stopLossPercentage ? price * (1 - stopLossPercentage / 100) : undefined,
+      takeProfit: takeProfitPercentage ? price * (1 + takeProfitPercentage / 100) : undefined,
+      unrealizedPnL: 0,
+      unrealizedPnLPercentage: 0,
+      status: 'open',
+      metadata: { entryFees: fees }
+    });
+  }
+
+  private closePosition(exit: PendingOrder): void {
+    const position = exit.position!;
+    const price = exit.order.filledPrice!;
+    const fees = this.tradeFee(price, exit.order.marketplace);
+    const royalty = price * (this.options.royalties?.[position.collectionId] ?? 0) / 100;
+    this.cash += price - fees - royalty;
+
+    const entryFees = position.metadata?.entryFees ?? 0;
+    const grossPnL = (price - position.entryPrice) * position.quantity;
+    const netPnL = grossPnL - entryFees - fees - royalty;
+
+    position.status = 'closed';
+    position.currentPrice = price;
+    position.unrealizedPnL = 0;
+    position.unrealizedPnLPercentage = 0;
+
+    this.trades.push({
+      positionId: position.id,
+      inscriptionId: position.inscriptionId,
+      collectionId: position.collectionId,
+      strategy: position.strategy,
+      marketplace: position.marketplace,
+      entryTimestamp: position.entryTimestamp,
+      exitTimestamp: this.now,
+      entryPrice: position.entryPrice,
+      exitPrice: price,
+      fees: entryFees + fees,
+      royalty,
+      grossPnL,
+      netPnL,
+      exitReason: exit.exitReason!
+    });
+
+    if (netPnL <= 0) {
+      this.lastLossAt.set(position.collectionId, this.now);
+    }
+  }
+
+  /**
+   * Mark open positions to the floor and place or re-price their exits
+   */
+  private markPositions(collectionId: string, floor: number): void {
+    for (const position of this.session.currentPositions) {
+      if (position.status !== 'open' || position.collectionId !== collectionId) continue;
+
+      position.currentPrice = floor;
+      position.unrealizedPnL = (floor - position.entryPrice) * position.quantity;
+      position.unrealizedPnLPercentage = ((floor - position.entryPrice) / position.entryPrice) * 100;
+
+      // Trailing stop, as in live sessions
+      const strategy = this.session.strategies.find(s => s.name === position.strategy);
+      if (strategy?.parameters.trailingStop) {
+        const trailingStopPrice = floor * (1 - strategy.parameters.trailingStopPercentage / 100);
+        if (!position.stopLoss || trailingStopPrice > position.stopLoss) {
+          position.stopLoss = trailingStopPrice;
+        }
+      }
+
+      const exit = this.pending.find(p => p.position === position);
+      if (position.stopLoss && floor <= position.stopLoss) {
+        // A stop chases the floor down until a sale takes it
+        if (exit) {
+          exit.order.price = floor;
+          exit.order.orderType = 'stop_loss';
+          exit.exitReason = 'stop_loss';
+        } else {
+          this.placeExit(position, floor, 'stop_loss');
+        }
+      } else if (!exit && position.takeProfit && floor >= position.takeProfit) {
+        this.placeExit(position, floor, 'take_profit');
+      }
+    }
+  }
+
+  /**
+   * Entry checks mirroring OrdinalsTrader.validateTradeRisk and shouldExecuteOpportunity
+   */
+  private canEnter(strategy: TradingStrategy, collectionId: string, signal: BacktestSignal): boolean {
+    const risk = this.session.riskParameters;
+    if (this.session.status !== 'active' || this.dailyLossHalted) return false;
+
+    const lastLoss = this.lastLossAt.get(collectionId);
+    if (lastLoss !== undefined && this.now - lastLoss < risk.cooldownPeriod * 60 * 1000) return false;
+
+    const holds = (p: TradingPosition) => p.status === 'open' && p.collectionId === collectionId;
+    const buying = (p: PendingOrder) => p.order.type === 'buy' && p.collectionId === collectionId;
+    if (signal.inscriptionId && this.pending.some(p => p.order.inscriptionId === signal.inscriptionId)) return false;
+    if (!strategy.parameters.allowMultiplePositions
+      && (this.session.currentPositions.some(holds) || this.pending.some(buying))) {
+      return false;
+    }
+
+    const equity = this.calculateEquity();
+    const maxPositionSize = Math.min(risk.maxPositionSize, strategy.parameters.maxPositionSize ?? Infinity);
+    if ((signal.price / equity) * 100 > maxPositionSize) return false;
+
+    const exposure = this.session.currentPositions
+      .filter(holds)
+      .reduce((sum, p) => sum + p.currentPrice * p.quantity, 0)
+      + this.pending.filter(buying).reduce((sum, p) => sum + (p.order.price ?? 0), 0);
+    if (((exposure + signal.price) / equity) * 100 > risk.maxConcentration) return false;
+
+    return signal.price + this.tradeFee(signal.price, signal.marketplace) <= this.cash - this.reserved;
+  }
+
+  private placeEntry(strategy: TradingStrategy, collectionId: string, signal: BacktestSignal): void {
+    const reserved = signal.price + this.tradeFee(signal.price, signal.marketplace);
+    const order: TradingOrder = {
+      id: `bt_${this.nextId()}`,
+      inscriptionId: signal.inscriptionId ?? '',
+      type: 'buy',
+      orderType: 'limit',
+      price: signal.price,
+      quantity: 1,
+      marketplace: signal.marketplace,
+      strategy: strategy.name,
+      status: 'pending',
+      createdAt: this.now
+    };
+
+    this.reserved += reserved;
+    this.orders.push(order);
+    this.pending.push({ order, collectionId, inscriptionNumber: signal.inscriptionNumber, reserved });
+  }
+
+  private placeExit(position: TradingPosition, price: number, reason: 'stop_loss' | 'take_profit'): void {
+    const order: TradingOrder = {
+      id: `bt_${this.nextId()}`,
+      inscriptionId: position.inscriptionId,
+      type: 'sell',
+      orderType: reason,
+      price,
+      triggerPrice: reason === 'stop_loss' ? position.stopLoss : position.takeProfit,
+      quantity: position.quantity,
+      marketplace: position.marketplace,
+      strategy: position.strategy,
+      status: 'pending',
+      createdAt: this.now
+    };
+
+    this.orders.push(order);
+    this.pending.push({ order, collectionId: position.collectionId, reserved: 0, position, exitReason: reason });
+  }
+
+  /**
+   * Entries lapse after orderTimeout; exits stay open until they fill
+   */
+  private expireOrders(): void {
+    const timeout = (this.options.orderTimeout ?? 24 * 60) * 60 * 1000;
+    this.cancelOrders(p => p.order.type === 'buy' && this.now - p.order.createdAt > timeout);
+  }
+
+  private cancelOrders(predicate: (order: PendingOrder) => boolean): void {
+    for (const pending of this.pending.filter(predicate)) {
+      pending.order.status = 'cancelled';
+      this.reserved -= pending.reserved;
+    }
+    this.pending = this.pending.filter(p => !predicate(p));
+  }
+
+  /**
+   * Pause on drawdown like live sessions; the daily loss limit only blocks entries until the next UTC day
+   */
+  private performRiskChecks(): void {
+    const risk = this.session.riskParameters;
+    const equity = this.calculateEquity();
+
+    if (this.session.status === 'active' && this.peakEquity > 0
+      && ((this.peakEquity - equity) / this.peakEquity) * 100 > risk.maxDrawdown) {
+      this.session.status = 'paused';
+      this.session.errorLog.push({
+        timestamp: this.now,
+        error: 'Maximum drawdown exceeded, pausing trading',
+        context: 'risk'
+      });
+      this.cancelOrders(p => p.order.type === 'buy');
+    }
+
+    if (!this.dailyLossHalted && ((this.dayStartEquity - equity) / this.dayStartEquity) * 100 > risk.maxDailyLoss) {
+      this.dailyLossHalted = true;
+      this.cancelOrders(p => p.order.type === 'buy');
+    }
+  }
+
+  private rollDay(): void {
+    const day = startOfDay(this.now);
+    if (day !== this.dayStart) {
+      this.dayStart = day;
+      this.dayStartEquity = this.calculateEquity();
+      this.dailyLossHalted = false;
+    }
+  }
+
+  private recordEquity(): void {
+    const equity = this.calculateEquity();
+    this.peakEquity = Math.max(this.peakEquity, equity);
+
+    const last = this.equityCurve[this.equityCurve.length - 1];
+    if (last && last.timestamp === this.now) {
+      last.equity = equity;
+    } else {
+      this.equityCurve.push({ timestamp: this.now, equity });
+    }
+  }
+
+  private calculateEquity(): number {
+    return this.cash + this.session.currentPositions
+      .filter(p => p.status === 'open')
+      .reduce((sum, p) => sum + p.currentPrice * p.quantity, 0);
+  }
+
+  private tradeFee(price: number, marketplace: OrdinalsMarketplace): number {
+    const percentage = this.options.marketplaceFees?.[marketplace] ?? DEFAULT_MARKETPLACE_FEES[marketplace] ?? 0;
+    return price * percentage / 100 + (this.options.networkFee ?? 0);
+  }
+
+  /**
+   * The same TradingPerformance fields a live session reports, computed from closed trades and the equity curve
+   */
+  private calculatePerformance(initialBalance: number): TradingPerformance {
+    const perf = this.initializePerformance();
+    const wins = this.trades.filter(t => t.netPnL > 0);
+    const losses = this.trades.filter(t => t.netPnL <= 0);
+    const grossProfit = wins.reduce((sum, t) => sum + t.netPnL, 0);
+    const grossLoss = losses.reduce((sum, t) => sum - t.netPnL, 0);
+
+    perf.totalTrades = this.trades.length;
+    perf.winningTrades = wins.length;
+    perf.losingTrades = losses.length;
+    perf.winRate = perf.totalTrades > 0 ? (wins.length / perf.totalTrades) * 100 : 0;
+    perf.totalPnL = this.trades.reduce((sum, t) => sum + t.grossPnL, 0);
+    perf.totalPnLPercentage = (perf.totalPnL / initialBalance) * 100;
+    perf.averageWin = wins.length > 0 ? grossProfit / wins.length : 0;
+    perf.averageLoss = losses.length > 0 ? grossLoss / losses.length : 0;
+    perf.profitFactor = grossLoss > 0 ? grossProfit / grossLoss : 0;
+    perf.totalFees = this.trades.reduce((sum, t) => sum + t.fees + t.royalty, 0);
+    perf.netPnL = this.trades.reduce((sum, t) => sum + t.netPnL, 0);
+    perf.averageHoldingPeriod = perf.totalTrades > 0
+      ? this.trades.reduce((sum, t) => sum + (t.exitTimestamp - t.entryTimestamp), 0) / perf.totalTrades / HOUR
+      : 0;
+    perf.bestTrade = Math.max(0, ...this.trades.map(t => t.netPnL));
+    perf.worstTrade = Math.min(0, ...this.trades.map(t => t.netPnL));
+
+    // Current streaks, as live sessions track them
+    for (const trade of [...this.trades].reverse()) {
+      if (trade.netPnL > 0 && perf.consecutiveLosses === 0) perf.consecutiveWins++;
+      else if (trade.netPnL <= 0 && perf.consecutiveWins === 0) perf.consecutiveLosses++;
+      else break;
+    }
+
+    let peak = initialBalance;
+    for (const point of this.equityCurve) {
+      peak = Math.max(peak, point.equity);
+      perf.maxDrawdown = Math.max(perf.maxDrawdown, ((peak - point.equity) / peak) * 100);
+    }
+    const lastEquity = this.equityCurve[this.equityCurve.length - 1]?.equity ?? initialBalance;
+    perf.currentDrawdown = ((peak - lastEquity) / peak) * 100;
+
+    perf.sharpeRatio = this.calculateSharpeRatio(initialBalance);
+    perf.monthlyReturns = this.calculateMonthlyReturns(initialBalance);
+
+    return perf;
+  }
+
+  /**
+   * Annualised from daily closing equity; crypto trades every day of the year
+   */
+  private calculateSharpeRatio(initialBalance: number): number {
+    const closes = new Map<number, number>();
+    for (const point of this.equityCurve) {
+      closes.set(startOfDay(point.timestamp), point.equity);
+    }
+
+    const equities = [initialBalance, ...closes.values()];
+    const returns = equities.slice(1).map((equity, i) => equity / equities[i] - 1);
+    if (returns.length < 2) return 0;
+
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+    const deviation = Math.sqrt(variance);
+    return deviation > 0 ? (mean / deviation) * Math.sqrt(365) : 0;
+  }
+
+  private calculateMonthlyReturns(initialBalance: number): TradingPerformance['monthlyReturns'] {
+    const closes = new Map<string, number>();
+    for (const point of this.equityCurve) {
+      closes.set(new Date(point.timestamp).toISOString().slice(0, 7), point.equity);
+    }
+
+    let previous = initialBalance;
+    return Array.from(closes.entries()).map(([month, equity]) => {
+      const result = {
+        month,
+        return: ((equity - previous) / previous) * 100,
+        trades: this.trades.filter(t => new Date(t.exitTimestamp).toISOString().startsWith(month)).length
+      };
+      previous = equity;
+      return result;
+    });
+  }
+
+  private initializePerformance(): TradingPerformance {
+    return {
+      totalTrades: 0,
+      winningTrades: 0,
+      losingTrades: 0,
+      winRate: 0,
+      totalPnL: 0,
+      totalPnLPercentage: 0,
+      averageWin: 0,
+      averageLoss: 0,
+      profitFactor: 0,
+      sharpeRatio: 0,
+      maxDrawdown: 0,
+      currentDrawdown: 0,
+      totalFees: 0,
+      netPnL: 0,
+      averageHoldingPeriod: 0,
+      bestTrade: 0,
+      worstTrade: 0,
+      consecutiveWins: 0,
+      consecutiveLosses: 0,
+      monthlyReturns: []
+    };
+  }
+
+  private reset(initialBalance: number): void {
+    this.now = 0;
+    this.cash = initialBalance;
+    this.reserved = 0;
+    this.collections = new Map();
+    this.pending = [];
+    this.orders = [];
+    this.trades = [];
+    this.equityCurve = [];
+    this.peakEquity = initialBalance;
+    this.dayStartEquity = initialBalance;
+    this.dailyLossHalted = false;
+    this.lastLossAt = new Map();
+    this.sequence = 0;
+  }
+
+  private nextId(): string {
+    return `${this.now}_${++this.sequence}`;
+  }
+}
+
+/**
+ * Floor events from DataAggregator collection snapshots, one per marketplace that reported a floor
+ */
+export function eventsFromAggregatedData(snapshots: AggregatedCollectionData[]): OrdinalsMarketEvent[] {
+  return snapshots.flatMap(snapshot =>
+    Object.entries(snapshot.marketplaceData)
+      .filter(([, data]) => data.available && data.floorPrice > 0)
+      .map(([marketplace, data]) => ({
+        type: 'floor' as const,
+        collectionId: snapshot.collection.id,
+        timestamp: data.lastUpdated || snapshot.lastUpdated,
+        price: data.floorPrice,
+        marketplace: marketplace as OrdinalsMarketplace
+      }))
+  );
+}
+
+/**
+ * Listing, delisting and sale events from marketplace activity feeds; mints and transfers carry no price signal
+ */
+export function eventsFromActivities(activities: StandardizedActivity[], collectionId?: string): OrdinalsMarketEvent[] {
+  const types: Record<string, OrdinalsMarketEvent['type']> = { list: 'listing', delist: 'delist', sale: 'sale' };
+
+  return activities.flatMap(activity => {
+    const type = types[activity.type];
+    const collection = activity.collection?.id ?? collectionId;
+    if (!type || !collection || (type !== 'delist' && !activity.price)) return [];
+
+    return [{
+      type,
+      collectionId: collection,
+      timestamp: activity.timestamp,
+      price: activity.price ?? 0,
+      marketplace: activity.marketplace,
+      inscriptionId: activity.inscriptionId,
+      inscriptionNumber: activity.inscriptionNumber
+    }];
+  });
+}
+
+/**
+ * Reads recorded history from a JSON array of events or a CSV with the header
+ * timestamp,collection_id,type,price,marketplace[,inscription_id,inscription_number]
+ */
+export function parseMarketHistory(text: string): OrdinalsMarketEvent[] {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (trimmed.startsWith('[')) {
+    const events = JSON.parse(trimmed) as OrdinalsMarketEvent[];
+    return events.map(event => ({ ...event, timestamp: parseTimestamp(String(event.timestamp)) }));
+  }
+
+  const [header, ...lines] = trimmed.split(/\r?\n/).filter(line => line.trim() !== '');
+  const columns = header.split(',').map(column => column.trim());
+  for (const required of ['timestamp', 'collection_id', 'type', 'price', 'marketplace']) {
+    if (!columns.includes(required)) {
+      throw new Error(`Market history CSV is missing the ${required} column`);
+    }
+  }
+
+  return lines.map((line, i) => {
+    const cells = line.split(',').map(cell => cell.trim());
+    const record = Object.fromEntries(columns.map((column, j) => [column, cells[j] ?? '']));
+    const event: OrdinalsMarketEvent = {
+      type: record.type as OrdinalsMarketEvent['type'],
+      collectionId: record.collection_id,
+      timestamp: parseTimestamp(record.timestamp),
+      price: Number(record.price || 0),
+      marketplace: record.marketplace as OrdinalsMarketplace,
+      inscriptionId: record.inscription_id || undefined,
+      inscriptionNumber: record.inscription_number ? Number(record.inscription_number) : undefined
+    };
+
+    try {
+      validateEvent(event);
+    } catch (error) {
+      throw new Error(`Market history line ${i + 2}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return event;
+  });
+}
+
+function validateEvent(event: OrdinalsMarketEvent): void {
+  if (!['floor', 'listing', 'delist', 'sale'].includes(event.type)) {
+    throw new Error(`Unknown market event type ${event.type}`);
+  }
+  if (!Object.values(OrdinalsMarketplace).includes(event.marketplace)) {
+    throw new Error(`Unknown marketplace ${event.marketplace}`);
+  }
+  if (!event.collectionId || !Number.isFinite(event.timestamp)) {
+    throw new Error('Market event needs a collection and a timestamp');
+  }
+  if (event.type !== 'delist' && !(event.price > 0)) {
+    throw new Error(`Invalid ${event.type} price ${event.price} for ${event.collectionId}`);
+  }
+  if (event.type !== 'floor' && !event.inscriptionId) {
+    throw new Error(`${event.type} event for ${event.collectionId} has no inscription`);
+  }
+}
+
+function listingSignal(event: OrdinalsMarketEvent): BacktestSignal {
+  return {
+    inscriptionId: event.inscriptionId,
+    inscriptionNumber: event.inscriptionNumber,
+    price: event.price,
+    marketplace: event.marketplace
+  };
+}
+
+function parseTimestamp(value: string): number {
+  const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(timestamp)) throw new Error(`Cannot read timestamp "${value}"`);
+  return timestamp;
+}
+
+function startOfDay(timestamp: number): number {
+  return Math.floor(timestamp / DAY) * DAY;
+}
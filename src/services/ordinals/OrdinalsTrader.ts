@@ -10,6 +10,7 @@ import {
   StandardizedCollection
 } from './integrations';
 import { OrdinalsAnalytics, TradingOpportunity, CollectionAnalysis } from './OrdinalsAnalytics';
+import { OrdinalsBacktester, type BacktestOptions, type BacktestResult, type OrdinalsMarketEvent } from './OrdinalsBacktester';
 
 export interface TradingStrategy {
   name: string;
@@ -215,6 +216,19 @@ export class OrdinalsTrader {
     return this.session;
   }
 
+  /**
+   * Replay recorded market history through strategies without touching any marketplace
+   */
+  backtest(
+    strategies: TradingStrategy[],
+    riskParameters: RiskParameters,
+    initialBalance: number,
+    history: OrdinalsMarketEvent[],
+    options?: BacktestOptions
+  ): BacktestResult {
+    return new OrdinalsBacktester(options).run(strategies, riskParameters, initialBalance, history);
+  }
+
   /**
    * Execute a manual trade
    */
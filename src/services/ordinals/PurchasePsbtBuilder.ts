@@ -0,0 +1,653 @@
+/**
+ * Ordinals Purchase PSBT Builder
+ * Builds seller listing and buyer purchase PSBTs for inscriptions without relying on a marketplace,
+ * checks where the inscription sat ends up and round-trips base64 PSBTs through offline signers
+ */
+
+import { AddressType, type BitcoinNetwork, addressValidator } from '@/lib/addressValidation';
+import { FEE_PERCENTAGE } from '@/config/feeRecipients';
+import { CYPHER_FEE_ADDRESSES } from '@/lib/feeManager';
+import {
+  type Psbt,
+  type PsbtInput,
+  type PsbtTxOutput,
+  SIGHASH_ANYONECANPAY,
+  SIGHASH_SINGLE,
+  combinePsbts,
+  createPsbt,
+  extractTransaction,
+  finalizeAllInputs,
+  getInputUtxo,
+  isInputSigned,
+  psbtFromBase64,
+  psbtToBase64,
+  transactionId
+} from '@/lib/psbt';
+import { locateSat } from '@/lib/ordinals/satTransfer';
+import {
+  type InputScriptType,
+  type OutputScriptType,
+  type TxInputSpec,
+  estimateTxVsize
+} from '@/services/fees/BitcoinFeeEstimator';
+
+export interface PsbtUtxo {
+  txid: string;
+  vout: number;
+  value: number; // sats
+  address: string;
+  tapInternalKey?: string; // x-only key, needed by signers for P2TR inputs
+  redeemScript?: string; // P2SH-P2WPKH inputs
+  nonWitnessUtxo?: string; // full previous transaction, required by some hardware signers
+}
+
+export interface InscriptionUtxo extends PsbtUtxo {
+  inscriptionId: string;
+  offset?: number; // sat offset of the inscription within the output, 0 for most inscriptions
+}
+
+export interface SellerListingParams {
+  inscription: InscriptionUtxo;
+  price: number; // sats paid to the seller
+  sellerPaymentAddress: string;
+}
+
+export interface SellerListing {
+  psbt: string; // base64; signed by the seller with SINGLE|ANYONECANPAY once listed
+  inscription: InscriptionUtxo;
+  price: number;
+  sellerPaymentAddress: string;
+}
+
+export interface PlatformFee {
+  address: string;
+  amount: number; // sats
+}
+
+export interface BuyerPurchaseParams {
+  listing: SellerListing;
+  buyerPaymentAddress: string;
+  buyerOrdinalsAddress: string; // receives the inscription
+  changeAddress?: string; // defaults to the payment address
+  dummyUtxos: PsbtUtxo[]; // two small, inscription-free UTXOs that pad the inputs ahead of the seller's
+  paymentUtxos: PsbtUtxo[];
+  feeRate: number; // sat/vB
+  platformFee?: PlatformFee;
+  createDummyOutputs?: boolean; // replace the spent dummies for the next purchase, default true
+}
+
+export interface BuyerPurchasePsbt {
+  psbt: string; // base64, ready for the buyer's signer
+  inscriptionOutputIndex: number;
+  sellerInputIndex: number;
+  buyerInputIndices: number[];
+  networkFee: number;
+  vsize: number;
+  feeRate: number;
+  cypherFee: number;
+  platformFee: number;
+  change: number;
+  totalCost: number; // everything the buyer's payment UTXOs give up, excluding new dummy outputs and change
+  warnings: string[];
+}
+
+export interface DummyUtxoParams {
+  paymentUtxos: PsbtUtxo[];
+  address: string;
+  feeRate: number;
+  count?: number;
+  changeAddress?: string;
+}
+
+export interface DummyUtxoPsbt {
+  psbt: string;
+  dummyOutputIndices: number[];
+  networkFee: number;
+  change: number;
+}
+
+export interface PurchaseExpectations {
+  inscription: { txid: string; vout: number; offset?: number };
+  buyerOrdinalsAddress: string;
+  price: number;
+  sellerPaymentAddress?: string;
+  platformFee?: PlatformFee;
+  maxFeeRate?: number;
+}
+
+export interface PurchaseValidation {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  inscriptionOutputIndex: number | null;
+  networkFee: number | null;
+  feeRate: number | null;
+}
+
+export interface ImportedPsbt {
+  psbt: Psbt;
+  base64: string;
+  txid: string;
+  signedInputs: number[];
+  unsignedInputs: number[];
+  complete: boolean;
+}
+
+export interface PurchasePsbtBuilderOptions {
+  network?: BitcoinNetwork;
+  dustLimit?: number; // sats; outputs below it are skipped (fees) or rejected
+  dummyUtxoValue?: number; // value of new dummy outputs
+  maxDummyUtxoValue?: number; // larger padding UTXOs probably carry sats worth keeping
+  cypherFeeRate?: number; // share of the price
+  cypherFeeAddress?: string;
+  maxFeeRate?: number; // sat/vB ceiling for validation
+}
+
+export const SELLER_SIGHASH = SIGHASH_SINGLE | SIGHASH_ANYONECANPAY;
+
+// Inputs 0-1 are the dummies, so the seller's input and its paired payment output sit at index 2
+const SELLER_INDEX = 2;
+const INSCRIPTION_OUTPUT_INDEX = 1;
+const FINAL_SEQUENCE = 0xffffffff;
+const RBF_SEQUENCE = 0xfffffffd;
+
+export class PurchasePsbtBuilder {
+  private network: BitcoinNetwork;
+  private dustLimit: number;
+  private dummyUtxoValue: number;
+  private maxDummyUtxoValue: number;
+  private cypherFeeRate: number;
+  private cypherFeeAddress: string;
+  private maxFeeRate: number;
+
+  constructor(options: PurchasePsbtBuilderOptions = {}) {
+    this.network = options.network ?? 'mainnet';
+    this.dustLimit = options.dustLimit ?? 546;
+    this.dummyUtxoValue = options.dummyUtxoValue ?? 600;
+    this.maxDummyUtxoValue = options.maxDummyUtxoValue ?? 1000;
+    this.cypherFeeRate = options.cypherFeeRate ?? FEE_PERCENTAGE;
+    this.cypherFeeAddress = options.cypherFeeAddress ?? CYPHER_FEE_ADDRESSES.bitcoin;
+    this.maxFeeRate = options.maxFeeRate ?? 1000;
+  }
+
+  /**
+   * One input (the inscription) and one output (the seller's payment). The seller signs it with
+   * SINGLE|ANYONECANPAY, which commits to that pair only, so the buyer can add inputs and outputs around it
+   */
+  createSellerListing(params: SellerListingParams): SellerListing {
+    const { inscription, price, sellerPaymentAddress } = params;
+    this.assertAmount(price, 'Price');
+    if (price < this.dustLimit) throw new Error(`Price must be at least ${this.dustLimit} sats`);
+    this.assertInscriptionOffset(inscription);
+
+    // Legacy sighashes commit to the input index, which moves once the buyer pads the inputs
+    if (this.addressType(inscription.address) === AddressType.P2PKH) {
+      throw new Error('Inscriptions held in legacy P2PKH outputs cannot be listed with SINGLE|ANYONECANPAY');
+    }
+
+    const psbt = createPsbt({
+      version: 2,
+      locktime: 0,
+      inputs: [{ txid: inscription.txid, vout: inscription.vout, sequence: FINAL_SEQUENCE }],
+      outputs: [{ value: price, script: this.script(sellerPaymentAddress) }]
+    });
+    psbt.inputs[0] = { ...this.inputFields(inscription), sighashType: SELLER_SIGHASH };
+
+    return { psbt: psbtToBase64(psbt), inscription, price, sellerPaymentAddress };
+  }
+
+  /**
+   * Buyer PSBT around the seller's signed pair:
+   * inputs  [dummy, dummy, inscription, ...payment]
+   * outputs [merged dummies, inscription, seller payment, platform fee?, cypher fee?, new dummies?, change?]
+   */
+  buildBuyerPsbt(params: BuyerPurchaseParams): BuyerPurchasePsbt {
+    const { listing, dummyUtxos, paymentUtxos, platformFee } = params;
+    const warnings: string[] = [];
+    this.assertFeeRate(params.feeRate);
+
+    const seller = this.readSellerListing(listing);
+
+    if (dummyUtxos.length !== 2) throw new Error('Exactly two dummy UTXOs are required');
+    for (const dummy of dummyUtxos) {
+      if (dummy.value > this.maxDummyUtxoValue) {
+        throw new Error(`Dummy UTXO ${dummy.txid}:${dummy.vout} holds ${dummy.value} sats, above ${this.maxDummyUtxoValue}`);
+      }
+    }
+    const outpoints = new Set<string>([`${listing.inscription.txid}:${listing.inscription.vout}`]);
+    for (const utxo of [...dummyUtxos, ...paymentUtxos]) {
+      const outpoint = `${utxo.txid}:${utxo.vout}`;
+      if (outpoints.has(outpoint)) throw new Error(`UTXO ${outpoint} is used twice`);
+      outpoints.add(outpoint);
+    }
+
+    const dummyTotal = dummyUtxos[0].value + dummyUtxos[1].value;
+    const fixedOutputs: PsbtTxOutput[] = [
+      { value: dummyTotal, script: this.script(params.buyerPaymentAddress) },
+      { value: listing.inscription.value, script: this.script(params.buyerOrdinalsAddress) },
+      seller.output
+    ];
+
+    let platformFeeAmount = 0;
+    if (platformFee) {
+      this.assertAmount(platformFee.amount, 'Platform fee');
+      if (platformFee.amount >= this.dustLimit) {
+        fixedOutputs.push({ value: platformFee.amount, script: this.script(platformFee.address) });
+        platformFeeAmount = platformFee.amount;
+      } else if (platformFee.amount > 0) {
+        warnings.push(`Platform fee of ${platformFee.amount} sats is below dust and was not added`);
+      }
+    }
+
+    const cypherFee = this.cypherFee(listing.price);
+    if (cypherFee >= this.dustLimit) {
+      fixedOutputs.push({ value: cypherFee, script: this.script(this.cypherFeeAddress) });
+    } else if (cypherFee > 0) {
+      warnings.push(`Cypher fee of ${cypherFee} sats is below dust and was not added`);
+    }
+    const cypherFeeAmount = cypherFee >= this.dustLimit ? cypherFee : 0;
+
+    if (params.createDummyOutputs !== false) {
+      for (let i = 0; i < 2; i++) {
+        fixedOutputs.push({ value: this.dummyUtxoValue, script: this.script(params.buyerPaymentAddress) });
+      }
+    }
+
+    const leadingInputs = [...dummyUtxos, listing.inscription];
+    // Sats the payment UTXOs must cover; dummies and postage flow straight through to outputs 0 and 1
+    const required = fixedOutputs.slice(SELLER_INDEX).reduce((sum, output) => sum + output.value, 0);
+
+    const selection = this.selectPayment(
+      leadingInputs,
+      paymentUtxos,
+      fixedOutputs,
+      required,
+      params.feeRate,
+      params.changeAddress ?? params.buyerPaymentAddress
+    );
+
+    const psbt = createPsbt({
+      version: 2,
+      locktime: 0,
+      inputs: [
+        ...dummyUtxos.map(utxo => ({ txid: utxo.txid, vout: utxo.vout, sequence: RBF_SEQUENCE })),
+        seller.txInput,
+        ...selection.inputs.map(utxo => ({ txid: utxo.txid, vout: utxo.vout, sequence: RBF_SEQUENCE }))
+      ],
+      outputs: selection.outputs
+    });
+    psbt.inputs = [
+      ...dummyUtxos.map(utxo => this.inputFields(utxo)),
+      seller.input,
+      ...selection.inputs.map(utxo => this.inputFields(utxo))
+    ];
+
+    const buyerInputIndices = psbt.inputs.map((_, i) => i).filter(i => i !== SELLER_INDEX);
+
+    return {
+      psbt: psbtToBase64(psbt),
+      inscriptionOutputIndex: INSCRIPTION_OUTPUT_INDEX,
+      sellerInputIndex: SELLER_INDEX,
+      buyerInputIndices,
+      networkFee: selection.fee,
+      vsize: selection.vsize,
+      feeRate: selection.fee / selection.vsize,
+      cypherFee: cypherFeeAmount,
+      platformFee: platformFeeAmount,
+      change: selection.change,
+      totalCost: seller.output.value + platformFeeAmount + cypherFeeAmount + selection.fee,
+      warnings
+    };
+  }
+
+  /**
+   * Splits payment UTXOs into small padding outputs for buyers without two dummy UTXOs yet
+   */
+  buildDummyUtxoPsbt(params: DummyUtxoParams): DummyUtxoPsbt {
+    const count = params.count ?? 2;
+    if (!Number.isInteger(count) || count < 1) throw new Error('Dummy count must be a positive integer');
+    this.assertFeeRate(params.feeRate);
+
+    const outputs = Array.from({ length: count }, () => ({
+      value: this.dummyUtxoValue,
+      script: this.script(params.address)
+    }));
+    const selection = this.selectPayment(
+      [],
+      params.paymentUtxos,
+      outputs,
+      count * this.dummyUtxoValue,
+      params.feeRate,
+      params.changeAddress ?? params.address
+    );
+
+    const psbt = createPsbt({
+      version: 2,
+      locktime: 0,
+      inputs: selection.inputs.map(utxo => ({ txid: utxo.txid, vout: utxo.vout, sequence: RBF_SEQUENCE })),
+      outputs: selection.outputs
+    });
+    psbt.inputs = selection.inputs.map(utxo => this.inputFields(utxo));
+
+    return {
+      psbt: psbtToBase64(psbt),
+      dummyOutputIndices: outputs.map((_, i) => i),
+      networkFee: selection.fee,
+      change: selection.change
+    };
+  }
+
+  /**
+   * Checks a purchase PSBT (ours or a marketplace's) before it is signed: the inscription sat must
+   * land in the buyer's output, the seller must be paid at the paired index and fees must add up
+   */
+  validatePurchasePsbt(psbt: Psbt | string, expected: PurchaseExpectations): PurchaseValidation {
+    const decoded = typeof psbt === 'string' ? psbtFromBase64(psbt) : psbt;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const { tx } = decoded;
+
+    const inscriptionInput = tx.inputs.findIndex(
+      input => input.txid === expected.inscription.txid && input.vout === expected.inscription.vout
+    );
+    if (inscriptionInput === -1) {
+      return {
+        valid: false,
+        errors: ['PSBT does not spend the inscription UTXO'],
+        warnings,
+        inscriptionOutputIndex: null,
+        networkFee: null,
+        feeRate: null
+      };
+    }
+
+    const utxos = decoded.inputs.map((_, i) => getInputUtxo(decoded, i));
+    const missing = utxos.findIndex(utxo => utxo === null);
+
+    let inscriptionOutputIndex: number | null = null;
+    let networkFee: number | null = null;
+    let feeRate: number | null = null;
+
+    if (missing !== -1) {
+      errors.push(`Input ${missing} has no UTXO data; cannot verify amounts or ordinal flow`);
+    } else {
+      const values = utxos.map(utxo => utxo!.value);
+      const location = locateSat(values, tx.outputs.map(o => o.value), inscriptionInput, expected.inscription.offset ?? 0);
+
+      if (!location) {
+        errors.push('Inscription sat would be spent as network fee');
+      } else {
+        inscriptionOutputIndex = location.outputIndex;
+        if (tx.outputs[location.outputIndex].script !== this.script(expected.buyerOrdinalsAddress)) {
+          errors.push(`Inscription sat lands in output ${location.outputIndex}, which does not pay the buyer ordinals address`);
+        }
+        if (location.outputIndex !== INSCRIPTION_OUTPUT_INDEX) {
+          warnings.push(`Inscription lands in output ${location.outputIndex} instead of ${INSCRIPTION_OUTPUT_INDEX}`);
+        }
+      }
+
+      networkFee = values.reduce((sum, value) => sum + value, 0) - tx.outputs.reduce((sum, o) => sum + o.value, 0);
+      if (networkFee < 0) {
+        errors.push(`Outputs exceed inputs by ${-networkFee} sats`);
+      } else {
+        const specs = utxos.map(utxo => this.inputSpec(utxo!.script));
+        const vsize = estimateTxVsize(specs, tx.outputs.map(o => ({ type: this.outputType(o.script) })));
+        feeRate = networkFee / vsize;
+        const maxFeeRate = expected.maxFeeRate ?? this.maxFeeRate;
+        if (feeRate > maxFeeRate) {
+          errors.push(`Fee rate of ${feeRate.toFixed(1)} sat/vB is above the ${maxFeeRate} sat/vB limit`);
+        }
+      }
+    }
+
+    // SINGLE pairs the seller's signature with the output at its own index
+    const sellerOutput = tx.outputs[inscriptionInput];
+    if (!sellerOutput) {
+      errors.push(`No output at index ${inscriptionInput} to pay the seller`);
+    } else {
+      if (expected.sellerPaymentAddress && sellerOutput.script !== this.script(expected.sellerPaymentAddress)) {
+        errors.push(`Output ${inscriptionInput} does not pay the seller payment address`);
+      }
+      if (sellerOutput.value < expected.price) {
+        errors.push(`Seller output pays ${sellerOutput.value} sats, below the ${expected.price} sat price`);
+      }
+    }
+
+    const sellerInput = decoded.inputs[inscriptionInput];
+    if (sellerInput.sighashType !== undefined && sellerInput.sighashType !== SELLER_SIGHASH) {
+      warnings.push(`Seller input uses sighash 0x${sellerInput.sighashType.toString(16)} instead of SINGLE|ANYONECANPAY`);
+    }
+
+    if (expected.platformFee && expected.platformFee.amount >= this.dustLimit) {
+      const script = this.script(expected.platformFee.address);
+      if (!tx.outputs.some(o => o.script === script && o.value >= expected.platformFee!.amount)) {
+        errors.push(`Missing platform fee output of ${expected.platformFee.amount} sats`);
+      }
+    }
+
+    const cypherFee = this.cypherFee(expected.price);
+    if (cypherFee >= this.dustLimit) {
+      const script = this.script(this.cypherFeeAddress);
+      if (!tx.outputs.some(o => o.script === script && o.value >= cypherFee)) {
+        errors.push(`Missing Cypher fee output of ${cypherFee} sats`);
+      }
+    }
+
+    return { valid: errors.length === 0, errors, warnings, inscriptionOutputIndex, networkFee, feeRate };
+  }
+
+  /**
+   * Copies the seller's SINGLE|ANYONECANPAY signature into the buyer PSBT, after checking that the
+   * signed pair is exactly the one the buyer PSBT carries at the seller index
+   */
+  combineSellerSignature(buyerPsbt: string, signedSellerPsbt: string): string {
+    const buyer = psbtFromBase64(buyerPsbt);
+    const seller = psbtFromBase64(signedSellerPsbt);
+
+    if (seller.tx.inputs.length !== 1 || seller.tx.outputs.length !== 1) {
+      throw new Error('Seller PSBT must have exactly one input and one output');
+    }
+    const sellerIn = seller.tx.inputs[0];
+    const buyerIn = buyer.tx.inputs[SELLER_INDEX];
+    const buyerOut = buyer.tx.outputs[SELLER_INDEX];
+    if (!buyerIn || !buyerOut
+        || buyerIn.txid !== sellerIn.txid || buyerIn.vout !== sellerIn.vout || buyerIn.sequence !== sellerIn.sequence) {
+      throw new Error('Seller input does not match the buyer PSBT');
+    }
+    if (buyerOut.value !== seller.tx.outputs[0].value || buyerOut.script !== seller.tx.outputs[0].script) {
+      throw new Error('Seller payment output does not match the buyer PSBT');
+    }
+    if (!isInputSigned(seller.inputs[0])) throw new Error('Seller PSBT is not signed');
+
+    const sellerInput: PsbtInput = { ...buyer.inputs[SELLER_INDEX], ...seller.inputs[0] };
+    return psbtToBase64({
+      ...buyer,
+      inputs: buyer.inputs.map((input, i) => (i === SELLER_INDEX ? sellerInput : input))
+    });
+  }
+
+  /**
+   * Reads a PSBT back from a hardware or offline signer. With the original it also refuses PSBTs
+   * whose transaction was changed and merges the returned signatures into the original
+   */
+  importSignedPsbt(signed: string, original?: string): ImportedPsbt {
+    let psbt = psbtFromBase64(signed);
+
+    if (original) {
+      const base = psbtFromBase64(original);
+      if (transactionId(base.tx) !== transactionId(psbt.tx)) {
+        throw new Error('Signed PSBT does not match the PSBT sent for signing');
+      }
+      psbt = combinePsbts(base, psbt);
+    }
+
+    const signedInputs = psbt.inputs.map((input, i) => (isInputSigned(input) ? i : -1)).filter(i => i !== -1);
+    const unsignedInputs = psbt.inputs.map((_, i) => i).filter(i => !signedInputs.includes(i));
+
+    return {
+      psbt,
+      base64: psbtToBase64(psbt),
+      txid: transactionId(psbt.tx),
+      signedInputs,
+      unsignedInputs,
+      complete: unsignedInputs.length === 0
+    };
+  }
+
+  exportPsbt(psbt: Psbt): string {
+    return psbtToBase64(psbt);
+  }
+
+  /**
+   * Finalizes every input of a fully signed PSBT and returns the transaction to broadcast
+   */
+  finalizePurchase(signed: string): { txHex: string; txid: string } {
+    const psbt = finalizeAllInputs(psbtFromBase64(signed));
+    return { txHex: extractTransaction(psbt), txid: transactionId(psbt.tx) };
+  }
+
+  cypherFee(price: number): number {
+    return Math.floor(price * this.cypherFeeRate);
+  }
+
+  private readSellerListing(listing: SellerListing) {
+    const seller = psbtFromBase64(listing.psbt);
+    if (seller.tx.inputs.length !== 1 || seller.tx.outputs.length !== 1) {
+      throw new Error('Seller PSBT must have exactly one input and one output');
+    }
+
+    const txInput = seller.tx.inputs[0];
+    const output = seller.tx.outputs[0];
+    if (txInput.txid !== listing.inscription.txid || txInput.vout !== listing.inscription.vout) {
+      throw new Error('Seller PSBT does not spend the listed inscription');
+    }
+    if (output.value < listing.price) {
+      throw new Error(`Seller PSBT pays ${output.value} sats, below the listed ${listing.price}`);
+    }
+
+    const input = seller.inputs[0];
+    if (isInputSigned(input) && input.sighashType !== SELLER_SIGHASH) {
+      throw new Error('Seller signature must use SINGLE|ANYONECANPAY');
+    }
+
+    return { txInput, output, input };
+  }
+
+  /**
+   * Adds payment UTXOs (largest first) until they cover the outputs and the fee. Change below dust
+   * is left to the miners rather than creating an unspendable output
+   */
+  private selectPayment(
+    leadingInputs: PsbtUtxo[],
+    paymentUtxos: PsbtUtxo[],
+    outputs: PsbtTxOutput[],
+    required: number,
+    feeRate: number,
+    changeAddress: string
+  ): { inputs: PsbtUtxo[]; outputs: PsbtTxOutput[]; fee: number; vsize: number; change: number } {
+    const changeScript = this.script(changeAddress);
+    const leadingSpecs = leadingInputs.map(utxo => this.inputSpec(this.script(utxo.address)));
+    const outputSpecs = outputs.map(output => ({ type: this.outputType(output.script) }));
+    const candidates = [...paymentUtxos].sort((a, b) => b.value - a.value);
+
+    const selected: PsbtUtxo[] = [];
+    let total = 0;
+
+    for (const utxo of candidates) {
+      selected.push(utxo);
+      total += utxo.value;
+
+      const specs: TxInputSpec[] = [...leadingSpecs, ...selected.map(u => this.inputSpec(this.script(u.address)))];
+      const vsizeWithChange = estimateTxVsize(specs, [...outputSpecs, { type: this.outputType(changeScript) }]);
+      const feeWithChange = Math.ceil(vsizeWithChange * feeRate);
+      const change = total - required - feeWithChange;
+
+      if (change >= this.dustLimit) {
+        return {
+          inputs: selected,
+          outputs: [...outputs, { value: change, script: changeScript }],
+          fee: feeWithChange,
+          vsize: vsizeWithChange,
+          change
+        };
+      }
+
+      const vsize = estimateTxVsize(specs, outputSpecs);
+      const fee = Math.ceil(vsize * feeRate);
+      if (total - required >= fee) {
+        return { inputs: selected, outputs, fee: total - required, vsize, change: 0 };
+      }
+    }
+
+    const available = paymentUtxos.reduce((sum, utxo) => sum + utxo.value, 0);
+    throw new Error(`Insufficient funds: ${available} sats available, ${required} sats plus fees required`);
+  }
+
+  private inputFields(utxo: PsbtUtxo): PsbtInput {
+    const script = this.script(utxo.address);
+    const type = addressValidator.getScriptType(script);
+
+    if (type === AddressType.P2SH && !utxo.redeemScript) {
+      throw new Error(`UTXO ${utxo.txid}:${utxo.vout} is P2SH and needs its redeem script`);
+    }
+    if (type === AddressType.P2PKH && !utxo.nonWitnessUtxo) {
+      throw new Error(`UTXO ${utxo.txid}:${utxo.vout} is legacy and needs its full previous transaction`);
+    }
+
+    return {
+      ...(utxo.nonWitnessUtxo ? { nonWitnessUtxo: utxo.nonWitnessUtxo } : {}),
+      ...(type !== AddressType.P2PKH ? { witnessUtxo: { value: utxo.value, script } } : {}),
+      ...(utxo.redeemScript ? { redeemScript: utxo.redeemScript } : {}),
+      ...(utxo.tapInternalKey ? { tapInternalKey: utxo.tapInternalKey } : {})
+    };
+  }
+
+  private inputSpec(script: string): TxInputSpec {
+    const type = addressValidator.getScriptType(script);
+    const mapping: Partial<Record<AddressType, InputScriptType>> = {
+      [AddressType.P2PKH]: 'P2PKH',
+      [AddressType.P2SH]: 'P2SH_P2WPKH',
+      [AddressType.P2WPKH]: 'P2WPKH',
+      [AddressType.P2TR]: 'P2TR'
+    };
+    const inputType = mapping[type];
+    if (!inputType) throw new Error(`Cannot spend ${type} inputs in a purchase`);
+    return { type: inputType };
+  }
+
+  private outputType(script: string): OutputScriptType {
+    const type = addressValidator.getScriptType(script);
+    if (type === AddressType.P2PKH || type === AddressType.P2SH || type === AddressType.P2WPKH
+        || type === AddressType.P2WSH || type === AddressType.P2TR) {
+      return type;
+    }
+    throw new Error(`Unsupported output script type ${type}`);
+  }
+
+  private addressType(address: string): AddressType {
+    return addressValidator.getScriptType(this.script(address));
+  }
+
+  private script(address: string): string {
+    return addressValidator.addressToScriptPubKey(address, [this.network]);
+  }
+
+  private assertAmount(value: number, label: string): void {
+    if (!Number.isSafeInteger(value) || value < 0) throw new Error(`${label} must be a whole number of sats`);
+  }
+
+  private assertFeeRate(feeRate: number): void {
+    if (!(feeRate > 0) || feeRate > this.maxFeeRate) {
+      throw new Error(`Fee rate must be between 0 and ${this.maxFeeRate} sat/vB`);
+    }
+  }
+
+  private assertInscriptionOffset(inscription: InscriptionUtxo): void {
+    const offset = inscription.offset ?? 0;
+    if (!Number.isInteger(offset) || offset < 0 || offset >= inscription.value) {
+      throw new Error(`Inscription offset ${offset} is outside its ${inscription.value} sat output`);
+    }
+  }
+}
+
+export const purchasePsbtBuilder = new PurchasePsbtBuilder();
@@ -6,6 +6,37 @@
 // Core Analytics and Trading Services
 export { OrdinalsAnalytics, ordinalsAnalytics } from './OrdinalsAnalytics';
 export { OrdinalsTrader, ordinalsTrader } from './OrdinalsTrader';
+export {
+  OrdinalsBacktester,
+  DEFAULT_MARKETPLACE_FEES,
+  eventsFromAggregatedData,
+  eventsFromActivities,
+  parseMarketHistory
+} from './OrdinalsBacktester';
+export type {
+  OrdinalsMarketEvent,
+  BacktestOptions,
+  BacktestResult,
+  BacktestTrade,
+  BacktestSignal,
+  BacktestSignalGenerator
+} from './OrdinalsBacktester';
+export {
+  PurchasePsbtBuilder,
+  purchasePsbtBuilder,
+  SELLER_SIGHASH
+} from './PurchasePsbtBuilder';
+export { locateSat } from '@/lib/ordinals/satTransfer';
+export type {
+  PsbtUtxo,
+  InscriptionUtxo,
+  SellerListing,
+  BuyerPurchaseParams,
+  BuyerPurchasePsbt,
+  PurchaseExpectations,
+  PurchaseValidation,
+  ImportedPsbt
+} from './PurchasePsbtBuilder';
 export { OrdinalsDataAggregator, ordinalsDataAggregator } from './DataAggregator';
 export { PortfolioAnalytics, portfolioAnalytics } from './PortfolioAnalytics';
 export { OrdinalsWebSocketManager, ordinalsWebSocketManager } from './WebSocketManager';
@@ -78,6 +109,20 @@ export { OrdinalsDataConverter, OrdinalsMarketplaceFactory } from './integration
  *    
  *    // Monitor session status
  *    const status = ordinalsTrader.getSessionStatus();
+ *    
+ *    // Backtest the same strategies on recorded floors, listings and sales first
+ *    const history = parseMarketHistory(csvText);
+ *    const result = ordinalsTrader.backtest(strategies, riskParams, 1.0, history, {
+ *      royalties: { 'bitcoin-puppets': 2.5 }
+ *    });
+ *    console.log(result.performance.netPnL, result.performance.sharpeRatio);
+ *
+ *    // Build the purchase PSBT ourselves and hand it to a hardware or offline signer
+ *    const purchase = purchasePsbtBuilder.buildBuyerPsbt({
+ *      listing, buyerPaymentAddress, buyerOrdinalsAddress, dummyUtxos, paymentUtxos, feeRate: 12
+ *    });
+ *    const signed = purchasePsbtBuilder.importSignedPsbt(signedBase64, purchase.psbt);
+ *    const { txHex } = purchasePsbtBuilder.finalizePurchase(signed.base64);
  *    ```
  * 
  * 4. Portfolio Analytics:
@@ -6,6 +6,7 @@
 import { EventEmitter } from 'events';
 import { EnhancedLogger } from '@/lib/enhanced-logger';
 import { FeeSystem } from '@/lib/fee-system';
+import { type WatchOnlyWallet, type WatchOnlyWalletManager, watchOnlyWallets } from '@/services/wallet/WatchOnlyWallets';
 
 // Xverse API Types
 export interface XverseWallet {
@@ -19,6 +20,12 @@ export interface XverseWallet {
     usd: number;
   };
   lastUpdate: number;
+  watchOnly?: {
+    walletId: string;
+    label: string;
+    descriptors: string[];
+    addressCount: number;
+  };
 }
 
 export interface XverseAsset {
@@ -145,7 +152,6 @@ export class XversePortfolioService extends EventEmitter {
   private baseURL: string = 'https://api.xverse.app/v1';
   private wsURL: string = 'wss://ws.xverse.app/v1';
   private ws: WebSocket | null = null;
-  private logger: EnhancedLogger;
   private feeSystem: FeeSystem;
   private cache: Map<string, { data: any; timestamp: number; ttl: number }> = new Map();
   private portfolioCache: Map<string, PortfolioAnalytics> = new Map();
@@ -156,10 +162,9 @@ export class XversePortfolioService extends EventEmitter {
   constructor(apiKey?: string) {
     super();
     this.apiKey = apiKey || process.env.XVERSE_API_KEY || '';
-    this.logger = new EnhancedLogger();
     this.feeSystem = new FeeSystem();
     
-    this.logger.info('Xverse Portfolio Service initialized', {
+    EnhancedLogger.info('Xverse Portfolio Service initialized', {
       component: 'XversePortfolio',
       hasApiKey: !!this.apiKey
     });
@@ -170,7 +175,7 @@ export class XversePortfolioService extends EventEmitter {
    */
   async connect(): Promise<void> {
     if (this.isConnected) {
-      this.logger.warn('Xverse already connected');
+      EnhancedLogger.warn('Xverse already connected');
       return;
     }
 
@@ -180,7 +185,7 @@ export class XversePortfolioService extends EventEmitter {
       this.ws.onopen = () => {
         this.isConnected = true;
         this.reconnectAttempts = 0;
-        this.logger.info('Xverse WebSocket connected');
+        EnhancedLogger.info('Xverse WebSocket connected');
         this.emit('connected');
       };
 
@@ -190,18 +195,18 @@ export class XversePortfolioService extends EventEmitter {
 
       this.ws.onclose = () => {
         this.isConnected = false;
-        this.logger.warn('Xverse WebSocket disconnected');
+        EnhancedLogger.warn('Xverse WebSocket disconnected');
         this.emit('disconnected');
         this.scheduleReconnect();
       };
 
       this.ws.onerror = (error) => {
-        this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Xverse WebSocket error:');
+        EnhancedLogger.error('Xverse WebSocket error:', { error });
         this.emit('error', error);
       };
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to connect to Xverse:');
+      EnhancedLogger.error('Failed to connect to Xverse:', { error });
       throw error;
     }
   }
@@ -225,11 +230,33 @@ export class XversePortfolioService extends EventEmitter {
       return wallet;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to get wallet:');
+      EnhancedLogger.error('Failed to get wallet:', { error });
       throw error;
     }
   }
 
+  /**
+   * Connected wallets alongside imported watch-only (xpub/descriptor) wallets
+   */
+  async getPortfolioWallets(
+    connectedAddresses: string[],
+    watchOnly: WatchOnlyWalletManager = watchOnlyWallets
+  ): Promise<XverseWallet[]> {
+    const connected = await Promise.allSettled(connectedAddresses.map(address => this.getWallet(address)));
+    connected.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        EnhancedLogger.warn(`Skipping wallet ${connectedAddresses[i]} in portfolio`, { error: String(result.reason) });
+      }
+    });
+
+    const btcPrice = await this.getBTCPrice();
+    return [
+      ...connected.flatMap(result => (result.status === 'fulfilled' ? [result.value] : [])),
+      ...watchOnly.getWallets().map(wallet =>
+        this.watchOnlyToWallet(wallet, wallet.addresses[0]?.address ?? watchOnly.getReceiveAddress(wallet.id), btcPrice))
+    ];
+  }
+
   /**
    * Get all assets in a wallet
    */
@@ -251,7 +278,7 @@ export class XversePortfolioService extends EventEmitter {
       return assets;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to get assets:');
+      EnhancedLogger.error('Failed to get assets:', { error });
       throw error;
     }
   }
@@ -280,7 +307,7 @@ export class XversePortfolioService extends EventEmitter {
       return analytics;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to get portfolio analytics:');
+      EnhancedLogger.error('Failed to get portfolio analytics:', { error });
       throw error;
     }
   }
@@ -305,7 +332,7 @@ export class XversePortfolioService extends EventEmitter {
       return recommendations;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to generate recommendations:');
+      EnhancedLogger.error('Failed to generate recommendations:', { error });
       throw error;
     }
   }
@@ -337,7 +364,7 @@ export class XversePortfolioService extends EventEmitter {
       return report;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to generate tax report:');
+      EnhancedLogger.error('Failed to generate tax report:', { error });
       throw error;
     }
   }
@@ -376,10 +403,10 @@ export class XversePortfolioService extends EventEmitter {
         }
       });
 
-      this.logger.info('Portfolio monitoring started', { address, alerts });
+      EnhancedLogger.info('Portfolio monitoring started', { address, alerts });
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to start portfolio monitoring:');
+      EnhancedLogger.error('Failed to start portfolio monitoring:', { error });
       throw error;
     }
   }
@@ -422,7 +449,7 @@ export class XversePortfolioService extends EventEmitter {
       return rebalancingPlan;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to rebalance portfolio:');
+      EnhancedLogger.error('Failed to rebalance portfolio:', { error });
       throw error;
     }
   }
@@ -481,6 +508,30 @@ export class XversePortfolioService extends EventEmitter {
     };
   }
 
+  private watchOnlyToWallet(wallet: WatchOnlyWallet, address: string, btcPrice: number): XverseWallet {
+    const btc = wallet.balance.total / 100_000_000;
+    const descriptor = wallet.descriptors[0];
+
+    return {
+      address,
+      publicKey: '',
+      network: wallet.network === 'mainnet' ? 'mainnet' : 'testnet',
+      type: descriptor.startsWith('tr(') ? 'taproot' : descriptor.startsWith('pkh(') ? 'legacy' : 'segwit',
+      balance: {
+        btc,
+        sats: wallet.balance.total,
+        usd: btc * btcPrice
+      },
+      lastUpdate: wallet.lastSynced ?? 0,
+      watchOnly: {
+        walletId: wallet.id,
+        label: wallet.label,
+        descriptors: wallet.descriptors,
+        addressCount: wallet.addresses.length
+      }
+    };
+  }
+
   private async getAssetPrice(asset: any): Promise<number> {
     // Implementation would fetch real-time price from appropriate source
     return asset.currentPrice || 0;
@@ -815,10 +866,10 @@ export class XversePortfolioService extends EventEmitter {
           this.handleNewTransaction(message.data);
           break;
         default:
-          this.logger.debug('Unknown WebSocket message type:', message.type);
+          EnhancedLogger.debug('Unknown WebSocket message type:', { type: message.type });
       }
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Error handling WebSocket message:');
+      EnhancedLogger.error('Error handling WebSocket message:', { error });
     }
   }
 
@@ -845,13 +896,13 @@ export class XversePortfolioService extends EventEmitter {
 
   private scheduleReconnect(): void {
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      this.logger.error('Max reconnection attempts reached');
+      EnhancedLogger.error('Max reconnection attempts reached');
       return;
     }
 
     setTimeout(() => {
       this.reconnectAttempts++;
-      this.logger.info(`Reconnecting to Xverse (attempt ${this.reconnectAttempts})...`);
+      EnhancedLogger.info(`Reconnecting to Xverse (attempt ${this.reconnectAttempts})...`);
       this.connect();
     }, 5000 * Math.pow(2, this.reconnectAttempts));
   }
@@ -942,7 +993,7 @@ export class XversePortfolioService extends EventEmitter {
     this.isConnected = false;
     this.cache.clear();
     this.portfolioCache.clear();
-    this.logger.info('Xverse Portfolio Service disconnected');
+    EnhancedLogger.info('Xverse Portfolio Service disconnected');
   }
 }
 
@@ -94,6 +94,15 @@ export type {
  *    );
  *    ```
  * 
+ * 6. Watch-only Wallets (API only, no page renders them yet):
+ *    ```typescript
+ *    import { watchOnlyWallets } from '@/services/wallet/WatchOnlyWallets';
+ *    
+ *    // Import an xpub/zpub or an output descriptor, then list it next to connected wallets
+ *    await watchOnlyWallets.importExtendedKey('zpub...', { label: 'Cold storage' });
+ *    const wallets = await xversePortfolio.getPortfolioWallets(['bc1q...']);
+ *    ```
+ * 
  * Key Features:
  * ✅ Real-time portfolio analytics
  * ✅ Advanced performance metrics (ROI, IRR, Sharpe Ratio)
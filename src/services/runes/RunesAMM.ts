@@ -0,0 +1,423 @@
+/**
+ * Runes AMM Math
+ * Offline constant-product (x * y = k) pool math on bigint reserves: exact-in and
+ * exact-out quotes, multi-hop routing, LP mint/burn amounts, impermanent-loss
+ * projections and verification of server quotes against the local result
+ */
+
+import type { LiquidityPool, LiquidityPosition, RuneToken } from './RunesDEX';
+
+export const BPS = 10000n;
+// Burned on the first deposit so the LP supply can never be drained to zero (as in Uniswap V2)
+export const MINIMUM_LIQUIDITY = 1000n;
+const PRICE_SCALE = 10n ** 18n;
+
+// Reserves of a pool oriented from the input token to the output token
+export interface PoolDirection {
+  pool: LiquidityPool;
+  tokenIn: RuneToken;
+  tokenOut: RuneToken;
+  reserveIn: bigint;
+  reserveOut: bigint;
+}
+
+export interface HopQuote {
+  poolId: string;
+  tokenIn: RuneToken;
+  tokenOut: RuneToken;
+  amountIn: bigint;
+  amountOut: bigint;
+  fee: bigint; // in tokenIn units
+  priceImpact: number; // % move of the execution price from the mid price, fee excluded
+  reserveInAfter: bigint;
+  reserveOutAfter: bigint;
+}
+
+export interface RouteQuote {
+  path: RuneToken[];
+  pools: LiquidityPool[];
+  hops: HopQuote[];
+  amountIn: bigint;
+  amountOut: bigint;
+  fee: bigint; // total fee expressed in tokenIn units
+  priceImpact: number; // %
+  midPrice: number; // tokenOut per tokenIn before the trade
+  executionPrice: number;
+}
+
+export interface LiquidityDeposit {
+  amountA: bigint; // actually deposited, after matching the pool ratio
+  amountB: bigint;
+  lpTokens: bigint;
+  shareOfPool: number; // % of the supply after the deposit
+}
+
+export interface LiquidityWithdrawal {
+  amountA: bigint;
+  amountB: bigint;
+  shareOfPool: number; // % of the supply before the burn
+}
+
+export interface ImpermanentLossPoint {
+  priceChange: number; // % change of tokenA priced in tokenB
+  price: number;
+  amountA: bigint;
+  amountB: bigint;
+  positionValue: number; // in tokenB units
+  holdValue: number; // value of the current amounts if withdrawn and held
+  impermanentLoss: number; // %
+}
+
+export interface QuoteVerification {
+  valid: boolean;
+  expectedAmountOut: bigint;
+  quotedAmountOut: bigint;
+  deviationBps: number; // positive when the server quotes more than the pools can pay
+  minimumAmountOut: bigint; // the floor the requested slippage allows against the local quote
+  issues: string[];
+}
+
+export function sqrt(value: bigint): bigint {
+  if (value < 0n) throw new Error('Square root of negative number');
+  if (value < 2n) return value;
+
+  let x = BigInt(Math.floor(Math.sqrt(Number(value))));
+  // Newton's method from the float estimate, then settle on the floor
+  while (true) {
+    const next = (x + value / x) >> 1n;
+    if (next >= x - 1n && next <= x + 1n) {
+      x = next;
+      break;
+    }
+    x = next;
+  }
+  while (x * x > value) x--;
+  while ((x + 1n) * (x + 1n) <= value) x++;
+  return x;
+}
+
+export function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feeBps: number): bigint {
+  if (amountIn <= 0n) throw new Error('Input amount must be positive');
+  if (reserveIn <= 0n || reserveOut <= 0n) throw new Error('Insufficient liquidity');
+
+  const amountInWithFee = amountIn * (BPS - BigInt(feeBps));
+  return (amountInWithFee * reserveOut) / (reserveIn * BPS + amountInWithFee);
+}
+
+export function getAmountIn(amountOut: bigint, reserveIn: bigint, reserveOut: bigint, feeBps: number): bigint {
+  if (amountOut <= 0n) throw new Error('Output amount must be positive');
+  if (reserveIn <= 0n || reserveOut <= 0n) throw new Error('Insufficient liquidity');
+  if (amountOut >= reserveOut) throw new Error('Output amount exceeds pool reserves');
+
+  // Rounded up so the pool always receives at least enough
+  return (reserveIn * amountOut * BPS) / ((reserveOut - amountOut) * (BPS - BigInt(feeBps))) + 1n;
+}
+
+export function orientPool(pool: LiquidityPool, tokenInId: string): PoolDirection {
+  if (pool.tokenA.id === tokenInId) {
+    return { pool, tokenIn: pool.tokenA, tokenOut: pool.tokenB, reserveIn: pool.reserveA, reserveOut: pool.reserveB };
+  }
+  if (pool.tokenB.id === tokenInId) {
+    return { pool, tokenIn: pool.tokenB, tokenOut: pool.tokenA, reserveIn: pool.reserveB, reserveOut: pool.reserveA };
+  }
+  throw new Error(`Token ${tokenInId} is not in pool ${pool.id}`);
+}
+
+export function quoteExactIn(pool: LiquidityPool, tokenInId: string, amountIn: bigint): HopQuote {
+  const side = orientPool(pool, tokenInId);
+  const amountOut = getAmountOut(amountIn, side.reserveIn, side.reserveOut, pool.fee);
+  return buildHop(side, amountIn, amountOut);
+}
+
+export function quoteExactOut(pool: LiquidityPool, tokenInId: string, amountOut: bigint): HopQuote {
+  const side = orientPool(pool, tokenInId);
+  const amountIn = getAmountIn(amountOut, side.reserveIn, side.reserveOut, pool.fee);
+  return buildHop(side, amountIn, amountOut);
+}
+
+/**
+ * Quotes an exact input along a fixed path of pools
+ */
+export function quoteRouteExactIn(pools: LiquidityPool[], tokenInId: string, amountIn: bigint): RouteQuote {
+  if (pools.length === 0) throw new Error('Route has no pools');
+
+  const hops: HopQuote[] = [];
+  let token = tokenInId;
+  let amount = amountIn;
+  for (const pool of pools) {
+    const hop = quoteExactIn(pool, token, amount);
+    hops.push(hop);
+    token = hop.tokenOut.id;
+    amount = hop.amountOut;
+  }
+  return buildRoute(pools, hops);
+}
+
+/**
+ * Quotes an exact output along a fixed path of pools, walking it backwards
+ */
+export function quoteRouteExactOut(pools: LiquidityPool[], tokenInId: string, amountOut: bigint): RouteQuote {
+  if (pools.length === 0) throw new Error('Route has no pools');
+
+  const tokens = routeTokens(pools, tokenInId);
+  const hops: HopQuote[] = new Array(pools.length);
+  let amount = amountOut;
+  for (let i = pools.length - 1; i >= 0; i--) {
+    const hop = quoteExactOut(pools[i], tokens[i], amount);
+    hops[i] = hop;
+    amount = hop.amountIn;
+  }
+  return buildRoute(pools, hops);
+}
+
+/**
+ * Tries every simple path of up to `maxHops` active pools between the two tokens and
+ * returns the one paying the most out (exact in) or costing the least in (exact out)
+ */
+export function findBestRoute(
+  pools: LiquidityPool[],
+  tokenInId: string,
+  tokenOutId: string,
+  amount: bigint,
+  options: { exactOut?: boolean; maxHops?: number } = {}
+): RouteQuote | null {
+  const maxHops = options.maxHops ?? 3;
+  const candidates = pools.filter(pool => pool.isActive && pool.reserveA > 0n && pool.reserveB > 0n);
+  let best: RouteQuote | null = null;
+
+  const visit = (token: string, path: LiquidityPool[], seenTokens: Set<string>) => {
+    if (token === tokenOutId && path.length > 0) {
+      try {
+        const quote = options.exactOut
+          ? quoteRouteExactOut(path, tokenInId, amount)
+          : quoteRouteExactIn(path, tokenInId, amount);
+        const better = options.exactOut
+          ? !best || quote.amountIn < best.amountIn
+          : !best || quote.amountOut > best.amountOut;
+        if (better) best = quote;
+      } catch {
+        // Path cannot fill this size (zero output or output above reserves)
+      }
+      return;
+    }
+    if (path.length >= maxHops) return;
+
+    for (const pool of candidates) {
+      if (path.includes(pool)) continue;
+      const next = pool.tokenA.id === token ? pool.tokenB.id : pool.tokenB.id === token ? pool.tokenA.id : null;
+      if (!next || seenTokens.has(next)) continue;
+      seenTokens.add(next);
+      visit(next, [...path, pool], seenTokens);
+      seenTokens.delete(next);
+    }
+  };
+
+  visit(tokenInId, [], new Set([tokenInId]));
+  return best;
+}
+
+/**
+ * LP tokens minted for a deposit. The larger side is trimmed to the pool ratio,
+ * so the returned amounts are what the pool would actually take.
+ */
+export function calculateLiquidityMint(pool: LiquidityPool, amountA: bigint, amountB: bigint): LiquidityDeposit {
+  if (amountA <= 0n || amountB <= 0n) throw new Error('Deposit amounts must be positive');
+
+  if (pool.lpTokenSupply === 0n) {
+    const liquidity = sqrt(amountA * amountB);
+    if (liquidity <= MINIMUM_LIQUIDITY) throw new Error('Initial deposit too small');
+    const lpTokens = liquidity - MINIMUM_LIQUIDITY;
+    return { amountA, amountB, lpTokens, shareOfPool: ratio(lpTokens, liquidity) * 100 };
+  }
+
+  let depositA = amountA;
+  let depositB = (amountA * pool.reserveB) / pool.reserveA;
+  if (depositB > amountB) {
+    depositA = (amountB * pool.reserveA) / pool.reserveB;
+    depositB = amountB;
+  }
+
+  const lpTokens = min(
+    (depositA * pool.lpTokenSupply) / pool.reserveA,
+    (depositB * pool.lpTokenSupply) / pool.reserveB
+  );
+  if (lpTokens <= 0n) throw new Error('Deposit too small to mint LP tokens');
+
+  return {
+    amountA: depositA,
+    amountB: depositB,
+    lpTokens,
+    shareOfPool: ratio(lpTokens, pool.lpTokenSupply + lpTokens) * 100
+  };
+}
+
+export function calculateLiquidityBurn(pool: LiquidityPool, lpTokens: bigint): LiquidityWithdrawal {
+  if (lpTokens <= 0n) throw new Error('LP token amount must be positive');
+  if (lpTokens > pool.lpTokenSupply) throw new Error('LP token amount exceeds pool supply');
+
+  return {
+    amountA: (lpTokens * pool.reserveA) / pool.lpTokenSupply,
+    amountB: (lpTokens * pool.reserveB) / pool.lpTokenSupply,
+    shareOfPool: ratio(lpTokens, pool.lpTokenSupply) * 100
+  };
+}
+
+// Loss of a 50/50 constant-product position against holding, for a price ratio new/old
+export function impermanentLoss(priceRatio: number): number {
+  if (priceRatio <= 0) throw new Error('Price ratio must be positive');
+  return ((2 * Math.sqrt(priceRatio)) / (1 + priceRatio) - 1) * 100;
+}
+
+/**
+ * Projects a position's underlying amounts and impermanent loss for tokenA price moves
+ * (priced in tokenB). Reserves are moved along the k curve by arbitrage, fees ignored;
+ * the baseline is holding what the position would withdraw today.
+ */
+export function projectImpermanentLoss(
+  position: LiquidityPosition,
+  pool: LiquidityPool,
+  priceChanges: number[] = [-75, -50, -25, -10, 10, 25, 50, 100, 200]
+): ImpermanentLossPoint[] {
+  if (position.poolId !== pool.id) throw new Error(`Position ${position.id} is not in pool ${pool.id}`);
+
+  const now = calculateLiquidityBurn(pool, position.lpTokens);
+  const k = pool.reserveA * pool.reserveB;
+  const price = ratio(pool.reserveB, pool.reserveA);
+
+  return priceChanges.map(change => {
+    const newPrice = price * (1 + change / 100);
+    if (newPrice <= 0) throw new Error(`Price change ${change}% leaves a non-positive price`);
+
+    const scaledPrice = BigInt(Math.round(newPrice * Number(PRICE_SCALE)));
+    const reserveA = sqrt((k * PRICE_SCALE) / scaledPrice);
+    const reserveB = sqrt((k * scaledPrice) / PRICE_SCALE);
+    const amountA = (position.lpTokens * reserveA) / pool.lpTokenSupply;
+    const amountB = (position.lpTokens * reserveB) / pool.lpTokenSupply;
+
+    const positionValue = Number(amountA) * newPrice + Number(amountB);
+    const holdValue = Number(now.amountA) * newPrice + Number(now.amountB);
+
+    return {
+      priceChange: change,
+      price: newPrice,
+      amountA,
+      amountB,
+      positionValue,
+      holdValue,
+      impermanentLoss: holdValue > 0 ? (positionValue / holdValue - 1) * 100 : 0
+    };
+  });
+}
+
+/**
+ * Re-quotes a server route on local reserves. The quote fails when the server promises
+ * more than the pools can pay, less than they would, or a minimum below the requested slippage.
+ */
+export function verifySwapQuote(
+  quote: { tokenIn: RuneToken; tokenOut: RuneToken; amountIn: bigint; amountOut: bigint; minimumAmountOut: bigint; slippage: number },
+  pools: LiquidityPool[],
+  toleranceBps: number = 50
+): QuoteVerification {
+  const issues: string[] = [];
+  const local = quoteRouteExactIn(pools, quote.tokenIn.id, quote.amountIn);
+  const last = local.path[local.path.length - 1];
+  if (last.id !== quote.tokenOut.id) {
+    issues.push(`Route ends in ${last.id}, expected ${quote.tokenOut.id}`);
+  }
+
+  const expected = local.amountOut;
+  const deviationBps = Number(((quote.amountOut - expected) * BPS) / expected);
+  if (deviationBps > toleranceBps) {
+    issues.push(`Quoted output is ${deviationBps} bps above what the pools can pay`);
+  } else if (deviationBps < -toleranceBps) {
+    issues.push(`Quoted output is ${-deviationBps} bps below the pool price`);
+  }
+
+  const slippageBps = BigInt(Math.round(quote.slippage * 100));
+  const minimumAmountOut = (expected * (BPS - slippageBps - BigInt(toleranceBps))) / BPS;
+  if (quote.minimumAmountOut < minimumAmountOut) {
+    issues.push(`Minimum output ${quote.minimumAmountOut} is below the ${quote.slippage}% slippage floor ${minimumAmountOut}`);
+  }
+  if (quote.minimumAmountOut > quote.amountOut) {
+    issues.push('Minimum output exceeds quoted output');
+  }
+
+  return {
+    valid: issues.length === 0,
+    expectedAmountOut: expected,
+    quotedAmountOut: quote.amountOut,
+    deviationBps,
+    minimumAmountOut,
+    issues
+  };
+}
+
+function buildHop(side: PoolDirection, amountIn: bigint, amountOut: bigint): HopQuote {
+  if (amountOut <= 0n) throw new Error('Trade too small for pool');
+  const fee = (amountIn * BigInt(side.pool.fee)) / BPS;
+
+  // Execution price on the post-fee input against the mid price reserveOut / reserveIn
+  const effectiveIn = amountIn - fee;
+  const priceImpact = effectiveIn > 0n
+    ? (1 - ratio(amountOut * side.reserveIn, effectiveIn * side.reserveOut)) * 100
+    : 100;
+
+  return {
+    poolId: side.pool.id,
+    tokenIn: side.tokenIn,
+    tokenOut: side.tokenOut,
+    amountIn,
+    amountOut,
+    fee,
+    priceImpact: Math.max(0, priceImpact),
+    reserveInAfter: side.reserveIn + amountIn,
+    reserveOutAfter: side.reserveOut - amountOut
+  };
+}
+
+function buildRoute(pools: LiquidityPool[], hops: HopQuote[]): RouteQuote {
+  const amountIn = hops[0].amountIn;
+  const amountOut = hops[hops.length - 1].amountOut;
+
+  // Fee of every hop compounded back into tokenIn units
+  const keep = pools.reduce((product, pool) => product * (BPS - BigInt(pool.fee)), 1n);
+  const scale = BPS ** BigInt(pools.length);
+  const fee = (amountIn * (scale - keep)) / scale;
+
+  const midPrice = pools.reduce((price, pool, i) => {
+    const side = orientPool(pool, hops[i].tokenIn.id);
+    return price * ratio(side.reserveOut, side.reserveIn);
+  }, 1);
+
+  return {
+    path: [hops[0].tokenIn, ...hops.map(hop => hop.tokenOut)],
+    pools,
+    hops,
+    amountIn,
+    amountOut,
+    fee,
+    priceImpact: (1 - hops.reduce((product, hop) => product * (1 - hop.priceImpact / 100), 1)) * 100,
+    midPrice,
+    executionPrice: ratio(amountOut, amountIn)
+  };
+}
+
+function routeTokens(pools: LiquidityPool[], tokenInId: string): string[] {
+  const tokens = [tokenInId];
+  for (const pool of pools) {
+    tokens.push(orientPool(pool, tokens[tokens.length - 1]).tokenOut.id);
+  }
+  return tokens;
+}
+
+// Ratio of two bigints as a float without overflowing Number for large reserves
+function ratio(numerator: bigint, denominator: bigint): number {
+  if (denominator === 0n) return 0;
+  const whole = numerator / denominator;
+  const remainder = numerator % denominator;
+  return Number(whole) + Number((remainder * PRICE_SCALE) / denominator) / Number(PRICE_SCALE);
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
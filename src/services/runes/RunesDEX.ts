@@ -6,6 +6,18 @@
 import { EventEmitter } from 'events';
 import { EnhancedLogger } from '@/lib/enhanced-logger';
 import { FeeSystem } from '@/lib/fee-system';
+import {
+  type ImpermanentLossPoint,
+  type LiquidityDeposit,
+  type LiquidityWithdrawal,
+  type QuoteVerification,
+  type RouteQuote,
+  calculateLiquidityBurn,
+  calculateLiquidityMint,
+  findBestRoute,
+  projectImpermanentLoss,
+  verifySwapQuote
+} from './RunesAMM';
 
 // Core Runes Types
 export interface RuneToken {
@@ -161,7 +173,6 @@ export class RunesDEX extends EventEmitter {
   private baseURL: string = 'https://api.runesdex.com/v1';
   private wsURL: string = 'wss://ws.runesdex.com/v1';
   private ws: WebSocket | null = null;
-  private logger: EnhancedLogger;
   private feeSystem: FeeSystem;
   private cache: Map<string, { data: any; timestamp: number; ttl: number }> = new Map();
   private pools: Map<string, LiquidityPool> = new Map();
@@ -184,10 +195,9 @@ export class RunesDEX extends EventEmitter {
   constructor(apiKey?: string) {
     super();
     this.apiKey = apiKey || process.env.RUNESDEX_API_KEY || '';
-    this.logger = new EnhancedLogger();
     this.feeSystem = new FeeSystem();
     
-    this.logger.info('RunesDEX integration initialized', {
+    EnhancedLogger.info('RunesDEX integration initialized', {
       component: 'RunesDEX',
       hasApiKey: !!this.apiKey
     });
@@ -198,7 +208,7 @@ export class RunesDEX extends EventEmitter {
    */
   async connect(): Promise<void> {
     if (this.isConnected) {
-      this.logger.warn('RunesDEX already connected');
+      EnhancedLogger.warn('RunesDEX already connected');
       return;
     }
 
@@ -208,7 +218,7 @@ export class RunesDEX extends EventEmitter {
       this.ws.onopen = () => {
         this.isConnected = true;
         this.reconnectAttempts = 0;
-        this.logger.info('RunesDEX WebSocket connected');
+        EnhancedLogger.info('RunesDEX WebSocket connected');
         this.emit('connected');
         
         // Subscribe to essential feeds
@@ -221,18 +231,18 @@ export class RunesDEX extends EventEmitter {
 
       this.ws.onclose = () => {
         this.isConnected = false;
-        this.logger.warn('RunesDEX WebSocket disconnected');
+        EnhancedLogger.warn('RunesDEX WebSocket disconnected');
         this.emit('disconnected');
         this.scheduleReconnect();
       };
 
       this.ws.onerror = (error) => {
-        this.logger.error(error instanceof Error ? error : new Error(String(error)), 'RunesDEX WebSocket error:');
+        EnhancedLogger.error('RunesDEX WebSocket error:', { error });
         this.emit('error', error);
       };
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to connect to RunesDEX:');
+      EnhancedLogger.error('Failed to connect to RunesDEX:', { error });
       throw error;
     }
   }
@@ -262,17 +272,17 @@ export class RunesDEX extends EventEmitter {
       if (filters?.sortOrder) queryParams.append('sortOrder', filters.sortOrder);
 
       const response = await this.makeRequest(`/pools?${queryParams}`);
-      const pools: LiquidityPool[] = response.data;
+      const pools: LiquidityPool[] = response.data.map((pool: any) => this.parsePool(pool));
 
       // Cache pools data
       pools.forEach(pool => this.pools.set(pool.id, pool));
       this.setCache(cacheKey, pools, 30000); // 30 second cache
 
-      this.logger.info('Retrieved RunesDEX pools', { count: pools.length });
+      EnhancedLogger.info('Retrieved RunesDEX pools', { count: pools.length });
       return pools;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to get RunesDEX pools:');
+      EnhancedLogger.error('Failed to get RunesDEX pools:', { error });
       throw error;
     }
   }
@@ -301,13 +311,14 @@ export class RunesDEX extends EventEmitter {
         amountIn: BigInt(response.data.amountIn),
         amountOut: BigInt(response.data.amountOut),
         fee: BigInt(response.data.fee),
-        minimumAmountOut: BigInt(response.data.minimumAmountOut)
+        minimumAmountOut: BigInt(response.data.minimumAmountOut),
+        route: (response.data.route || []).map((pool: any) => this.parsePool(pool))
       };
 
       // Cache quote for execution
       this.quotes.set(quote.quoteId, quote);
 
-      this.logger.info('Generated swap quote', {
+      EnhancedLogger.info('Generated swap quote', {
         tokenIn,
         tokenOut,
         amountIn: amountIn.toString(),
@@ -318,11 +329,93 @@ export class RunesDEX extends EventEmitter {
       return quote;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to get swap quote:');
+      EnhancedLogger.error('Failed to get swap quote:', { error });
       throw error;
     }
   }
 
+  /**
+   * Quote a swap offline on the cached pool reserves, routing through up to `maxHops` pools
+   */
+  previewSwap(
+    tokenIn: string,
+    tokenOut: string,
+    amount: bigint,
+    options: { exactOut?: boolean; slippage?: number; maxHops?: number } = {}
+  ): SwapQuote {
+    const slippage = options.slippage ?? 0.5;
+    const route = findBestRoute([...this.pools.values()], tokenIn, tokenOut, amount, options);
+    if (!route) {
+      throw new Error(`No route from ${tokenIn} to ${tokenOut} can fill ${amount.toString()}`);
+    }
+
+    const slippageBps = BigInt(Math.round(slippage * 100));
+    const now = Date.now();
+
+    return {
+      amountIn: route.amountIn,
+      amountOut: route.amountOut,
+      tokenIn: route.path[0],
+      tokenOut: route.path[route.path.length - 1],
+      priceImpact: route.priceImpact,
+      fee: route.fee,
+      minimumAmountOut: (route.amountOut * (10000n - slippageBps)) / 10000n,
+      route: route.pools,
+      estimatedGas: 0,
+      slippage,
+      deadline: Math.floor(now / 1000) + 1200,
+      valid: true,
+      quoteId: `local-${now}-${route.pools.map(pool => pool.id).join('-')}`,
+      expiresAt: now + 30000
+    };
+  }
+
+  /**
+   * Best local route with per-hop detail, or null when no cached pools connect the tokens
+   */
+  findRoute(tokenIn: string, tokenOut: string, amount: bigint, options: { exactOut?: boolean; maxHops?: number } = {}): RouteQuote | null {
+    return findBestRoute([...this.pools.values()], tokenIn, tokenOut, amount, options);
+  }
+
+  /**
+   * Re-quote a server quote on the cached reserves of its route
+   */
+  verifyQuote(quote: SwapQuote, toleranceBps: number = 50): QuoteVerification {
+    const route = quote.route.map(pool => this.pools.get(pool.id) ?? this.parsePool(pool));
+    const verification = verifySwapQuote(quote, route, toleranceBps);
+
+    if (!verification.valid) {
+      EnhancedLogger.warn('Swap quote does not match local pool math', {
+        quoteId: quote.quoteId,
+        deviationBps: verification.deviationBps,
+        issues: verification.issues
+      });
+    }
+
+    return verification;
+  }
+
+  /**
+   * LP tokens a deposit would mint and the amounts the pool would actually take
+   */
+  previewAddLiquidity(poolId: string, amountA: bigint, amountB: bigint): LiquidityDeposit {
+    return calculateLiquidityMint(this.requirePool(poolId), amountA, amountB);
+  }
+
+  /**
+   * Token amounts returned for burning LP tokens at the cached reserves
+   */
+  previewRemoveLiquidity(poolId: string, lpTokenAmount: bigint): LiquidityWithdrawal {
+    return calculateLiquidityBurn(this.requirePool(poolId), lpTokenAmount);
+  }
+
+  /**
+   * Impermanent loss of a position for tokenA price changes (in %), against holding its current amounts
+   */
+  projectImpermanentLoss(position: LiquidityPosition, priceChanges?: number[]): ImpermanentLossPoint[] {
+    return projectImpermanentLoss(position, this.requirePool(position.poolId), priceChanges);
+  }
+
   /**
    * Execute swap transaction
    */
@@ -340,6 +433,15 @@ export class RunesDEX extends EventEmitter {
       throw new Error('Quote has expired');
     }
 
+    // Never sign a quote the pools we track cannot back
+    if (quote.route.length > 0) {
+      const verification = this.verifyQuote(quote);
+      if (!verification.valid) {
+        this.emit('quoteRejected', { quoteId, verification });
+        throw new Error(`Quote failed local verification: ${verification.issues.join('; ')}`);
+      }
+    }
+
     try {
       // Calculate and collect fees
       const feeCalculation = await this.feeSystem.calculateFee(
@@ -380,7 +482,7 @@ export class RunesDEX extends EventEmitter {
       // Collect fees asynchronously
       this.feeSystem.collectFee(feeCalculation, `${quote.tokenIn.symbol}/${quote.tokenOut.symbol}`, walletAddress);
 
-      this.logger.info('Swap executed', {
+      EnhancedLogger.info('Swap executed', {
         hash: transaction.hash,
         tokenIn: quote.tokenIn.symbol,
         tokenOut: quote.tokenOut.symbol,
@@ -392,7 +494,7 @@ export class RunesDEX extends EventEmitter {
       return transaction;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to execute swap:');
+      EnhancedLogger.error('Failed to execute swap:', { error });
       throw error;
     }
   }
@@ -436,7 +538,7 @@ export class RunesDEX extends EventEmitter {
         actualAmountB: BigInt(response.data.actualAmountB)
       };
 
-      this.logger.info('Liquidity added', {
+      EnhancedLogger.info('Liquidity added', {
         poolId,
         amountA: amountA.toString(),
         amountB: amountB.toString(),
@@ -447,7 +549,7 @@ export class RunesDEX extends EventEmitter {
       return result;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to add liquidity:');
+      EnhancedLogger.error('Failed to add liquidity:', { error });
       throw error;
     }
   }
@@ -487,7 +589,7 @@ export class RunesDEX extends EventEmitter {
         }
       };
 
-      this.logger.info('Liquidity removed', {
+      EnhancedLogger.info('Liquidity removed', {
         poolId,
         lpTokenAmount: lpTokenAmount.toString(),
         amountA: result.amountA.toString(),
@@ -498,7 +600,7 @@ export class RunesDEX extends EventEmitter {
       return result;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to remove liquidity:');
+      EnhancedLogger.error('Failed to remove liquidity:', { error });
       throw error;
     }
   }
@@ -529,7 +631,7 @@ export class RunesDEX extends EventEmitter {
       return positions;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to get user positions:');
+      EnhancedLogger.error('Failed to get user positions:', { error });
       throw error;
     }
   }
@@ -554,7 +656,7 @@ export class RunesDEX extends EventEmitter {
       return farms;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to get yield farms:');
+      EnhancedLogger.error('Failed to get yield farms:', { error });
       throw error;
     }
   }
@@ -587,7 +689,7 @@ export class RunesDEX extends EventEmitter {
 
       this.strategies.set(fullStrategy.id, fullStrategy);
 
-      this.logger.info('Market making strategy started', {
+      EnhancedLogger.info('Market making strategy started', {
         strategyId: fullStrategy.id,
         poolId,
         type: strategy.type
@@ -597,7 +699,7 @@ export class RunesDEX extends EventEmitter {
       return fullStrategy;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to start market making strategy:');
+      EnhancedLogger.error('Failed to start market making strategy:', { error });
       throw error;
     }
   }
@@ -637,7 +739,7 @@ export class RunesDEX extends EventEmitter {
       return analytics;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to get market analytics:');
+      EnhancedLogger.error('Failed to get market analytics:', { error });
       throw error;
     }
   }
@@ -664,7 +766,7 @@ export class RunesDEX extends EventEmitter {
       }));
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to find arbitrage opportunities:');
+      EnhancedLogger.error('Failed to find arbitrage opportunities:', { error });
       throw error;
     }
   }
@@ -698,7 +800,7 @@ export class RunesDEX extends EventEmitter {
       return response.data;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to get historical prices:');
+      EnhancedLogger.error('Failed to get historical prices:', { error });
       throw error;
     }
   }
@@ -762,7 +864,7 @@ export class RunesDEX extends EventEmitter {
       data: { minValue: 1000 } // Trades > $1000
     }));
 
-    this.logger.info('Subscribed to RunesDEX real-time feeds');
+    EnhancedLogger.info('Subscribed to RunesDEX real-time feeds');
   }
 
   private handleWebSocketMessage(event: MessageEvent): void {
@@ -783,23 +885,35 @@ export class RunesDEX extends EventEmitter {
           this.handleLiquidityEvent(message.data);
           break;
         default:
-          this.logger.debug('Unknown WebSocket message type:', message.type);
+          EnhancedLogger.debug('Unknown WebSocket message type:', message.type);
       }
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Error handling WebSocket message:');
+      EnhancedLogger.error('Error handling WebSocket message:', { error });
     }
   }
 
   private handlePoolUpdate(data: any): void {
-    const pool: LiquidityPool = {
+    const pool = this.parsePool(data);
+
+    this.pools.set(pool.id, pool);
+    this.emit('poolUpdated', pool);
+  }
+
+  private parsePool(data: any): LiquidityPool {
+    return {
       ...data,
       reserveA: BigInt(data.reserveA),
       reserveB: BigInt(data.reserveB),
       lpTokenSupply: BigInt(data.lpTokenSupply)
     };
+  }
 
-    this.pools.set(pool.id, pool);
-    this.emit('poolUpdated', pool);
+  private requirePool(poolId: string): LiquidityPool {
+    const pool = this.pools.get(poolId);
+    if (!pool) {
+      throw new Error('Pool not found');
+    }
+    return pool;
   }
 
   private handlePriceUpdate(data: any): void {
@@ -823,13 +937,13 @@ export class RunesDEX extends EventEmitter {
 
   private scheduleReconnect(): void {
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      this.logger.error('Max reconnection attempts reached');
+      EnhancedLogger.error('Max reconnection attempts reached');
       return;
     }
 
     setTimeout(() => {
       this.reconnectAttempts++;
-      this.logger.info(`Reconnecting to RunesDEX (attempt ${this.reconnectAttempts})...`);
+      EnhancedLogger.info(`Reconnecting to RunesDEX (attempt ${this.reconnectAttempts})...`);
       this.connect();
     }, this.reconnectDelay * Math.pow(2, this.reconnectAttempts));
   }
@@ -857,7 +971,7 @@ export class RunesDEX extends EventEmitter {
     }
     this.isConnected = false;
     this.cache.clear();
-    this.logger.info('RunesDEX disconnected');
+    EnhancedLogger.info('RunesDEX disconnected');
   }
 }
 
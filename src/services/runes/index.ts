@@ -6,6 +6,20 @@
 // Core services
 export { RunesDEX, runesDEX } from './RunesDEX';
 export { RunesAnalytics, createRunesAnalytics } from './RunesAnalytics';
+export {
+  getAmountOut,
+  getAmountIn,
+  quoteExactIn,
+  quoteExactOut,
+  quoteRouteExactIn,
+  quoteRouteExactOut,
+  findBestRoute,
+  calculateLiquidityMint,
+  calculateLiquidityBurn,
+  impermanentLoss,
+  projectImpermanentLoss,
+  verifySwapQuote
+} from './RunesAMM';
 
 // Types and interfaces
 export type {
@@ -26,6 +40,15 @@ export type {
   PortfolioMetrics
 } from './RunesAnalytics';
 
+export type {
+  HopQuote,
+  RouteQuote,
+  LiquidityDeposit,
+  LiquidityWithdrawal,
+  ImpermanentLossPoint,
+  QuoteVerification
+} from './RunesAMM';
+
 /**
  * Quick Start Guide for CYPHER ORDi Future V3 RunesDEX Integration
  * 
@@ -0,0 +1,523 @@
+/**
+ * Copy Trading Engine for CYPHER ORDi Future V3
+ * Mirrors leader fills into follower orders with proportional sizing, risk limits and a reconcilable audit trail
+ */
+
+import { EventEmitter } from 'events';
+import { EnhancedLogger } from '@/lib/enhanced-logger';
+import type { CopyTrade, SocialTradingPlatform, TraderFill } from './SocialTradingPlatform';
+
+// Copy Engine Types
+export interface CopyOrderRequest {
+  copyTradeId: string;
+  followerId: string;
+  leaderFillId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  limitPrice: number; // worst acceptable price given the follower's slippage limit
+}
+
+export interface CopyOrderResult {
+  filledQuantity: number; // may be less than requested
+  averagePrice: number;
+  fee: number;
+}
+
+export interface CopyOrderExecutor {
+  executeOrder(order: CopyOrderRequest): Promise<CopyOrderResult>;
+}
+
+export interface FollowerPosition {
+  quantity: number;
+  averagePrice: number;
+}
+
+export interface FollowerAccount {
+  copyTradeId: string;
+  followerId: string;
+  initialEquity: number;
+  cash: number;
+  positions: Map<string, FollowerPosition>;
+  lastPrices: Map<string, number>;
+  peakEquity: number;
+  realizedPnl: number;
+  fees: number;
+  closedTrades: number;
+  winningTrades: number;
+}
+
+export interface CopyAuditEntry {
+  id: string;
+  copyTradeId: string;
+  followerId: string;
+  leaderFillId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  leaderQuantity: number;
+  leaderPrice: number;
+  requestedQuantity: number;
+  filledQuantity: number;
+  averagePrice: number;
+  slippage: number; // signed fraction, positive = worse than the leader
+  fee: number;
+  status: 'filled' | 'partial' | 'unfilled' | 'skipped' | 'failed';
+  reason?: string;
+  leaderPnl?: number; // on exits: leader's per-unit P&L applied to the follower's filled quantity
+  followerPnl?: number; // on exits: follower's realized P&L net of the exit fee
+  timestamp: number;
+}
+
+export interface CopyReconciliation {
+  copyTradeId: string;
+  expectedPnl: number; // follower quantities at leader prices and leader cost
+  realizedPnl: number;
+  difference: number;
+  slippageCost: number;
+  fees: number;
+  unrealizedPnl: number;
+  equity: number;
+  returnPercent: number;
+  skippedFills: number;
+  partialFills: number;
+}
+
+export interface CopyTradingEngineOptions {
+  defaultMaxSlippage?: number; // percentage
+  minOrderValue?: number;
+}
+
+interface LeaderPosition {
+  quantity: number;
+  averagePrice: number;
+}
+
+const EPSILON = 1e-9;
+
+export class CopyTradingEngine extends EventEmitter {
+  private accounts: Map<string, FollowerAccount> = new Map();
+  private leaderPositions: Map<string, LeaderPosition> = new Map(); // traderId|symbol
+  private auditTrail: Map<string, CopyAuditEntry[]> = new Map(); // copyTradeId -> entries
+  private processing: Promise<void> = Promise.resolve();
+  private platformListeners: Array<['traderFill', (fill: TraderFill) => void]> = [];
+  private auditCounter = 0;
+
+  private readonly defaultMaxSlippage: number;
+  private readonly minOrderValue: number;
+
+  constructor(
+    private platform: SocialTradingPlatform,
+    private executor: CopyOrderExecutor,
+    options: CopyTradingEngineOptions = {}
+  ) {
+    super();
+    this.defaultMaxSlippage = options.defaultMaxSlippage ?? 1;
+    this.minOrderValue = options.minOrderValue ?? 1;
+  }
+
+  /**
+   * Start listening for leader fills
+   */
+  start(): void {
+    if (this.platformListeners.length > 0) return;
+
+    const onFill = (fill: TraderFill) => {
+      this.handleLeaderFill(fill).catch(error => {
+        EnhancedLogger.error('Failed to mirror leader fill:', { error });
+      });
+    };
+
+    this.platformListeners = [['traderFill', onFill]];
+    this.platform.on('traderFill', onFill);
+
+    EnhancedLogger.info('Copy trading engine started', { component: 'CopyTradingEngine' });
+  }
+
+  stop(): void {
+    for (const [event, listener] of this.platformListeners) {
+      this.platform.off(event, listener);
+    }
+    this.platformListeners = [];
+  }
+
+  /**
+   * Mirror one leader fill into every follower. Fills are processed one at a time so
+   * follower accounts never see interleaved updates
+   */
+  handleLeaderFill(fill: TraderFill): Promise<void> {
+    const run = this.processing.then(() => this.processLeaderFill(fill));
+    this.processing = run.catch(() => undefined);
+    return run;
+  }
+
+  getAccount(copyTradeId: string): FollowerAccount | undefined {
+    return this.accounts.get(copyTradeId);
+  }
+
+  getAuditTrail(copyTradeId: string): CopyAuditEntry[] {
+    return [...(this.auditTrail.get(copyTradeId) || [])];
+  }
+
+  /**
+   * Compare what the follower realized with what the leader's prices would have given
+   * the follower's own quantities; the gap splits into slippage and fees
+   */
+  reconcile(copyTradeId: string): CopyReconciliation {
+    const account = this.accounts.get(copyTradeId);
+    if (!account) {
+      throw new Error(`No copy account for ${copyTradeId}`);
+    }
+
+    const entries = this.auditTrail.get(copyTradeId) || [];
+    const exits = entries.filter(e => e.followerPnl !== undefined);
+    const expectedPnl = exits.reduce((sum, e) => sum + (e.leaderPnl ?? 0), 0);
+    const slippageCost = entries.reduce((sum, e) => sum + e.slippage * e.leaderPrice * e.filledQuantity, 0);
+    const unrealizedPnl = Array.from(account.positions.entries()).reduce((sum, [symbol, position]) =>
+      sum + (this.lastPrice(account, symbol, position.averagePrice) - position.averagePrice) * position.quantity, 0);
+    const equity = this.equity(account);
+
+    return {
+      copyTradeId,
+      expectedPnl,
+      realizedPnl: account.realizedPnl,
+      difference: account.realizedPnl - expectedPnl,
+      slippageCost,
+      fees: account.fees,
+      unrealizedPnl,
+      equity,
+      returnPercent: ((equity - account.initialEquity) / account.initialEquity) * 100,
+      skippedFills: entries.filter(e => e.status === 'skipped').length,
+      partialFills: entries.filter(e => e.status === 'partial').length
+    };
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private async processLeaderFill(fill: TraderFill): Promise<void> {
+    const key = `${fill.traderId}|${fill.symbol}`;
+    const leader = this.leaderPositions.get(key) || { quantity: 0, averagePrice: 0 };
+    const leaderBefore = { ...leader };
+
+    // Track the leader's own position so exits can be mirrored as a fraction of it
+    if (fill.side === 'buy') {
+      const cost = leader.quantity * leader.averagePrice + fill.quantity * fill.price;
+      leader.quantity += fill.quantity;
+      leader.averagePrice = cost / leader.quantity;
+    } else {
+      leader.quantity = Math.max(0, leader.quantity - fill.quantity);
+    }
+
+    if (leader.quantity <= EPSILON) {
+      this.leaderPositions.delete(key);
+    } else {
+      this.leaderPositions.set(key, leader);
+    }
+
+    for (const copyTrade of this.platform.getTraderCopyTrades(fill.traderId)) {
+      const account = this.getOrCreateAccount(copyTrade);
+      account.lastPrices.set(fill.symbol, fill.price);
+
+      try {
+        if (fill.side === 'buy') {
+          await this.mirrorEntry(copyTrade, account, fill);
+        } else {
+          await this.mirrorExit(copyTrade, account, fill, leaderBefore);
+        }
+      } catch (error) {
+        this.audit(copyTrade, fill, {
+          requestedQuantity: 0,
+          status: 'failed',
+          reason: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      this.checkDrawdown(copyTrade, account);
+      this.updatePerformance(copyTrade, account);
+    }
+
+    this.emit('leaderFillProcessed', fill);
+  }
+
+  private async mirrorEntry(copyTrade: CopyTrade, account: FollowerAccount, fill: TraderFill): Promise<void> {
+    const settings = copyTrade.copySettings;
+
+    if (copyTrade.endDate && fill.timestamp > copyTrade.endDate) {
+      copyTrade.status = 'expired';
+      this.audit(copyTrade, fill, { requestedQuantity: 0, status: 'skipped', reason: 'Copy trade expired' });
+      return;
+    }
+    if (copyTrade.status !== 'active') {
+      this.audit(copyTrade, fill, { requestedQuantity: 0, status: 'skipped', reason: `Copy trade ${copyTrade.status}` });
+      return;
+    }
+
+    const asset = baseAsset(fill.symbol);
+    if (settings.excludeAssets.map(baseAsset).includes(asset)
+      || (settings.includeAssets.length > 0 && !settings.includeAssets.map(baseAsset).includes(asset))) {
+      this.audit(copyTrade, fill, { requestedQuantity: 0, status: 'skipped', reason: 'Asset filtered out' });
+      return;
+    }
+
+    // Exits are always mirrored; only new exposure depends on the leader's track record
+    if (settings.copyOnlyProfitable) {
+      const performance = this.platform.getTraderPerformance(fill.traderId, '30d');
+      if (!performance || performance.totalReturn <= 0) {
+        this.audit(copyTrade, fill, { requestedQuantity: 0, status: 'skipped', reason: 'Leader not profitable over 30d' });
+        return;
+      }
+    }
+
+    const existing = account.positions.get(fill.symbol);
+    if (!existing && settings.maxPositions > 0 && account.positions.size >= settings.maxPositions) {
+      this.audit(copyTrade, fill, { requestedQuantity: 0, status: 'skipped', reason: 'Max open positions reached' });
+      return;
+    }
+
+    const equity = this.equity(account);
+    const limitPrice = fill.price * (1 + this.maxSlippage(copyTrade));
+    let quantity = settings.sizingMode === 'fixed_ratio'
+      ? fill.quantity * (settings.fixedRatio ?? 1)
+      : fill.quantity * (equity / fill.leaderEquity) * ((settings.percentage || 100) / 100);
+
+    // Position limits: maxRisk as a percentage of equity and an absolute value cap
+    const heldValue = (existing?.quantity ?? 0) * fill.price;
+    const caps = [
+      settings.maxRisk > 0 ? (equity * settings.maxRisk) / 100 - heldValue : Infinity,
+      settings.maxPositionValue ? settings.maxPositionValue - heldValue : Infinity
+    ];
+    const capValue = Math.min(...caps);
+    if (quantity * fill.price > capValue) {
+      quantity = Math.max(0, capValue / fill.price);
+    }
+
+    // Never spend more cash than the account holds, at the worst allowed price
+    quantity = Math.min(quantity, Math.max(0, account.cash) / limitPrice);
+
+    if (quantity * fill.price < this.minOrderValue) {
+      this.audit(copyTrade, fill, { requestedQuantity: quantity, status: 'skipped', reason: 'Order below minimum size or limits exhausted' });
+      return;
+    }
+
+    const result = await this.execute(copyTrade, fill, 'buy', quantity, limitPrice);
+    if (result.filledQuantity > EPSILON) {
+      const position = account.positions.get(fill.symbol) || { quantity: 0, averagePrice: 0 };
+      const cost = position.quantity * position.averagePrice + result.filledQuantity * result.averagePrice;
+      position.quantity += result.filledQuantity;
+      position.averagePrice = cost / position.quantity;
+      account.positions.set(fill.symbol, position);
+      account.cash -= result.filledQuantity * result.averagePrice + result.fee;
+    }
+    account.fees += result.fee;
+    account.realizedPnl -= result.fee;
+
+    this.audit(copyTrade, fill, this.fillAudit(fill, 'buy', quantity, result));
+  }
+
+  private async mirrorExit(
+    copyTrade: CopyTrade,
+    account: FollowerAccount,
+    fill: TraderFill,
+    leaderBefore: LeaderPosition
+  ): Promise<void> {
+    const position = account.positions.get(fill.symbol);
+    if (!position || position.quantity <= EPSILON) {
+      this.audit(copyTrade, fill, { requestedQuantity: 0, status: 'skipped', reason: 'No follower position' });
+      return;
+    }
+    if (leaderBefore.quantity <= EPSILON) {
+      this.audit(copyTrade, fill, { requestedQuantity: 0, status: 'skipped', reason: 'Leader had no tracked position' });
+      return;
+    }
+
+    // Exits follow the fraction of the leader's position sold; a full close flattens the follower
+    // even when earlier partial fills left it with a different size than planned
+    const fraction = fill.quantity / leaderBefore.quantity;
+    const quantity = fraction >= 1 - EPSILON ? position.quantity : position.quantity * fraction;
+    const limitPrice = fill.price * (1 - this.maxSlippage(copyTrade));
+
+    const result = await this.execute(copyTrade, fill, 'sell', quantity, limitPrice);
+    const sold = Math.min(result.filledQuantity, position.quantity);
+    const followerPnl = (result.averagePrice - position.averagePrice) * sold - result.fee;
+    const leaderPnl = (fill.price - leaderBefore.averagePrice) * sold;
+
+    if (sold > EPSILON) {
+      position.quantity -= sold;
+      account.cash += sold * result.averagePrice;
+      account.closedTrades++;
+      if (followerPnl > 0) account.winningTrades++;
+    }
+    account.cash -= result.fee;
+    account.fees += result.fee;
+    account.realizedPnl += followerPnl;
+
+    if (position.quantity <= EPSILON) {
+      account.positions.delete(fill.symbol);
+    }
+
+    this.audit(copyTrade, fill, {
+      ...this.fillAudit(fill, 'sell', quantity, result),
+      leaderPnl: sold > EPSILON ? leaderPnl : undefined,
+      followerPnl: sold > EPSILON ? followerPnl : undefined
+    });
+  }
+
+  private async execute(
+    copyTrade: CopyTrade,
+    fill: TraderFill,
+    side: 'buy' | 'sell',
+    quantity: number,
+    limitPrice: number
+  ): Promise<CopyOrderResult> {
+    const result = await this.executor.executeOrder({
+      copyTradeId: copyTrade.id,
+      followerId: copyTrade.copyerId,
+      leaderFillId: fill.id,
+      symbol: fill.symbol,
+      side,
+      quantity,
+      limitPrice
+    });
+
+    const filledQuantity = Math.min(Math.max(result.filledQuantity, 0), quantity);
+    const breached = filledQuantity > EPSILON && (side === 'buy'
+      ? result.averagePrice > limitPrice * (1 + EPSILON)
+      : result.averagePrice < limitPrice * (1 - EPSILON));
+
+    if (breached) {
+      EnhancedLogger.warn('Copy order filled outside its slippage limit', {
+        copyTradeId: copyTrade.id,
+        leaderFillId: fill.id,
+        limitPrice,
+        averagePrice: result.averagePrice
+      });
+      this.emit('slippageBreached', { copyTradeId: copyTrade.id, leaderFillId: fill.id, limitPrice, averagePrice: result.averagePrice });
+    }
+
+    return { filledQuantity, averagePrice: result.averagePrice, fee: result.fee };
+  }
+
+  private fillAudit(
+    fill: TraderFill,
+    side: 'buy' | 'sell',
+    requestedQuantity: number,
+    result: CopyOrderResult
+  ): Partial<CopyAuditEntry> & { requestedQuantity: number; status: CopyAuditEntry['status'] } {
+    const filled = result.filledQuantity;
+    const status = filled <= EPSILON ? 'unfilled' : filled < requestedQuantity - EPSILON ? 'partial' : 'filled';
+    const direction = side === 'buy' ? 1 : -1;
+
+    return {
+      requestedQuantity,
+      filledQuantity: filled,
+      averagePrice: filled > EPSILON ? result.averagePrice : 0,
+      slippage: filled > EPSILON ? direction * (result.averagePrice - fill.price) / fill.price : 0,
+      fee: result.fee,
+      status,
+      reason: status === 'unfilled' ? 'No liquidity within slippage limit' : undefined
+    };
+  }
+
+  private audit(
+    copyTrade: CopyTrade,
+    fill: TraderFill,
+    details: Partial<CopyAuditEntry> & { requestedQuantity: number; status: CopyAuditEntry['status'] }
+  ): CopyAuditEntry {
+    const entry: CopyAuditEntry = {
+      id: `copyaudit_${++this.auditCounter}`,
+      copyTradeId: copyTrade.id,
+      followerId: copyTrade.copyerId,
+      leaderFillId: fill.id,
+      symbol: fill.symbol,
+      side: fill.side,
+      leaderQuantity: fill.quantity,
+      leaderPrice: fill.price,
+      filledQuantity: 0,
+      averagePrice: 0,
+      slippage: 0,
+      fee: 0,
+      timestamp: fill.timestamp,
+      ...details
+    };
+
+    if (!this.auditTrail.has(copyTrade.id)) {
+      this.auditTrail.set(copyTrade.id, []);
+    }
+    this.auditTrail.get(copyTrade.id)!.push(entry);
+
+    this.emit('copyOrder', entry);
+    return entry;
+  }
+
+  // New entries stop once the drawdown limit is hit; exits keep being mirrored
+  private checkDrawdown(copyTrade: CopyTrade, account: FollowerAccount): void {
+    const equity = this.equity(account);
+    account.peakEquity = Math.max(account.peakEquity, equity);
+
+    const drawdown = account.peakEquity > 0 ? ((account.peakEquity - equity) / account.peakEquity) * 100 : 0;
+    const limit = copyTrade.copySettings.maxDrawdown;
+
+    if (limit > 0 && drawdown >= limit && copyTrade.status === 'active') {
+      copyTrade.status = 'paused';
+      EnhancedLogger.warn('Copy trade paused at max drawdown', { copyTradeId: copyTrade.id, drawdown, limit });
+      this.emit('copyTradePaused', { copyTradeId: copyTrade.id, drawdown, limit });
+    }
+  }
+
+  private updatePerformance(copyTrade: CopyTrade, account: FollowerAccount): void {
+    const entries = this.auditTrail.get(copyTrade.id) || [];
+    const equity = this.equity(account);
+
+    copyTrade.performance = {
+      totalCopied: entries.reduce((sum, e) => sum + e.filledQuantity * e.averagePrice, 0),
+      totalReturn: ((equity - account.initialEquity) / account.initialEquity) * 100,
+      totalFees: account.fees,
+      positions: account.positions.size,
+      winRate: account.closedTrades > 0 ? (account.winningTrades / account.closedTrades) * 100 : 0
+    };
+  }
+
+  private getOrCreateAccount(copyTrade: CopyTrade): FollowerAccount {
+    let account = this.accounts.get(copyTrade.id);
+    if (!account) {
+      const initialEquity = copyTrade.copySettings.amount;
+      account = {
+        copyTradeId: copyTrade.id,
+        followerId: copyTrade.copyerId,
+        initialEquity,
+        cash: initialEquity,
+        positions: new Map(),
+        lastPrices: new Map(),
+        peakEquity: initialEquity,
+        realizedPnl: 0,
+        fees: 0,
+        closedTrades: 0,
+        winningTrades: 0
+      };
+      this.accounts.set(copyTrade.id, account);
+    }
+    return account;
+  }
+
+  private equity(account: FollowerAccount): number {
+    let value = account.cash;
+    for (const [symbol, position] of account.positions) {
+      value += position.quantity * this.lastPrice(account, symbol, position.averagePrice);
+    }
+    return value;
+  }
+
+  private lastPrice(account: FollowerAccount, symbol: string, fallback: number): number {
+    return account.lastPrices.get(symbol) ?? fallback;
+  }
+
+  private maxSlippage(copyTrade: CopyTrade): number {
+    return (copyTrade.copySettings.maxSlippage ?? this.defaultMaxSlippage) / 100;
+  }
+}
+
+// "BTC/USDT", "BTC-USD" and "BTC" all filter as BTC
+function baseAsset(symbol: string): string {
+  return symbol.toUpperCase().split(/[/-]/)[0];
+}
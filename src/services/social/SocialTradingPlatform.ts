@@ -5,6 +5,7 @@
 
 import { EventEmitter } from 'events';
 import { EnhancedLogger } from '@/lib/enhanced-logger';
+import type { OrderBookEngine, Trade } from '@/services/orderbook/OrderBookEngine';
 
 // Social Trading Types
 export interface Trader {
@@ -91,6 +92,10 @@ export interface CopyTrade {
     excludeAssets: string[];
     includeAssets: string[];
     maxDrawdown: number;
+    sizingMode?: 'proportional' | 'fixed_ratio'; // proportional to follower vs leader equity by default
+    fixedRatio?: number; // follower units per leader unit in fixed_ratio mode
+    maxSlippage?: number; // percentage from the leader's fill price
+    maxPositionValue?: number;
   };
   startDate: number;
   endDate?: number;
@@ -173,6 +178,23 @@ export interface SocialStats {
   };
 }
 
+export interface TraderFill {
+  id: string;
+  traderId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  fee?: number;
+  leaderEquity: number; // trader account equity before the fill, for proportional sizing
+  timestamp: number;
+}
+
+export interface OrderBookFillOptions {
+  leaderEquity: (traderId: string) => number; // trader account equity before the fill
+  traderIdFor?: (userId: string) => string | undefined; // order-book user -> trader; same id by default
+}
+
 export interface CopyTradeRequest {
   copyerId: string;
   traderId: string;
@@ -182,7 +204,6 @@ export interface CopyTradeRequest {
 }
 
 export class SocialTradingPlatform extends EventEmitter {
-  private logger: EnhancedLogger;
   private traders: Map<string, Trader> = new Map();
   private performances: Map<string, Map<string, TraderPerformance>> = new Map();
   private rankings: Map<string, TraderRanking[]> = new Map();
@@ -208,9 +229,8 @@ export class SocialTradingPlatform extends EventEmitter {
 
   constructor() {
     super();
-    this.logger = new EnhancedLogger();
 
-    this.logger.info('Social Trading Platform initialized', {
+    EnhancedLogger.info('Social Trading Platform initialized', {
       component: 'SocialTradingPlatform',
       categories: this.RANKING_CATEGORIES.length
     });
@@ -233,11 +253,11 @@ export class SocialTradingPlatform extends EventEmitter {
       // Start signal processing
       this.startSignalProcessor();
 
-      this.logger.info('Social Trading Platform initialized successfully');
+      EnhancedLogger.info('Social Trading Platform initialized successfully');
       this.emit('initialized');
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to initialize Social Trading Platform:');
+      EnhancedLogger.error('Failed to initialize Social Trading Platform:', { error });
       throw error;
     }
   }
@@ -263,7 +283,7 @@ export class SocialTradingPlatform extends EventEmitter {
       this.followers.set(trader.id, new Set());
       this.socialStats.set(trader.id, this.initializeSocialStats(trader.id));
 
-      this.logger.info('Trader registered', {
+      EnhancedLogger.info('Trader registered', {
         traderId: trader.id,
         username: trader.username
       });
@@ -272,7 +292,7 @@ export class SocialTradingPlatform extends EventEmitter {
       return trader;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to register trader:');
+      EnhancedLogger.error('Failed to register trader:', { error });
       throw error;
     }
   }
@@ -364,7 +384,7 @@ export class SocialTradingPlatform extends EventEmitter {
       }
       this.userCopyTrades.get(request.copyerId)!.add(copyTrade.id);
 
-      this.logger.info('Copy trading started', {
+      EnhancedLogger.info('Copy trading started', {
         copyTradeId: copyTrade.id,
         copyerId: request.copyerId,
         traderId: request.traderId,
@@ -375,7 +395,7 @@ export class SocialTradingPlatform extends EventEmitter {
       return copyTrade;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to start copy trading:');
+      EnhancedLogger.error('Failed to start copy trading:', { error });
       throw error;
     }
   }
@@ -399,7 +419,7 @@ export class SocialTradingPlatform extends EventEmitter {
 
     this.copyTrades.set(copyTradeId, copyTrade);
 
-    this.logger.info('Copy trading stopped', {
+    EnhancedLogger.info('Copy trading stopped', {
       copyTradeId,
       userId,
       duration: copyTrade.endDate - copyTrade.startDate
@@ -409,6 +429,66 @@ export class SocialTradingPlatform extends EventEmitter {
     return copyTrade;
   }
 
+  /**
+   * Record a fill on a trader's own account so copy-trading followers can mirror it
+   */
+  recordTraderFill(fill: TraderFill): void {
+    if (!this.traders.has(fill.traderId)) {
+      throw new Error(`Trader ${fill.traderId} not found`);
+    }
+    if (fill.quantity <= 0 || fill.price <= 0) {
+      throw new Error(`Invalid fill ${fill.id}: quantity and price must be positive`);
+    }
+
+    this.emit('traderFill', fill);
+  }
+
+  /**
+   * Feed a trader's own order-book executions into recordTraderFill. Returns a function
+   * that disconnects the feed
+   */
+  connectOrderBook(engine: OrderBookEngine, options: OrderBookFillOptions): () => void {
+    const onTrade = (trade: Trade) => {
+      const sides: Array<['buy' | 'sell', string]> = [['buy', trade.buyUserId], ['sell', trade.sellUserId]];
+
+      for (const [side, userId] of sides) {
+        const traderId = options.traderIdFor ? options.traderIdFor(userId) : userId;
+        if (!traderId || !this.traders.has(traderId)) continue;
+
+        const leaderEquity = options.leaderEquity(traderId);
+        if (!(leaderEquity > 0)) {
+          EnhancedLogger.warn('Trader fill not mirrored: no account equity', { traderId, tradeId: trade.id });
+          continue;
+        }
+
+        this.recordTraderFill({
+          id: `${trade.id}-${side}`,
+          traderId,
+          symbol: trade.symbol,
+          side,
+          quantity: trade.quantity,
+          price: trade.price,
+          fee: side === trade.side ? trade.fees.taker : trade.fees.maker,
+          leaderEquity,
+          timestamp: trade.timestamp
+        });
+      }
+    };
+
+    engine.on('tradeExecuted', onTrade);
+    return () => {
+      engine.off('tradeExecuted', onTrade);
+    };
+  }
+
+  /**
+   * Copy trades still following a trader (active, or paused by a risk limit)
+   */
+  getTraderCopyTrades(traderId: string): CopyTrade[] {
+    return Array.from(this.copyTrades.values())
+      .filter(trade => trade.traderId === traderId && (trade.status === 'active' || trade.status === 'paused'));
+  }
+
   /**
    * Publish trading signal
    */
@@ -444,7 +524,7 @@ export class SocialTradingPlatform extends EventEmitter {
         this.socialStats.set(traderId, stats);
       }
 
-      this.logger.info('Trading signal published', {
+      EnhancedLogger.info('Trading signal published', {
         signalId: signal.id,
         traderId,
         asset: signal.asset,
@@ -456,7 +536,7 @@ export class SocialTradingPlatform extends EventEmitter {
       return signal;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to publish signal:');
+      EnhancedLogger.error('Failed to publish signal:', { error });
       throw error;
     }
   }
@@ -492,7 +572,7 @@ export class SocialTradingPlatform extends EventEmitter {
       this.socialStats.set(traderId, stats);
     }
 
-    this.logger.info('Trader followed', { followerId, traderId });
+    EnhancedLogger.info('Trader followed', { followerId, traderId });
     this.emit('traderFollowed', { followerId, traderId });
   }
 
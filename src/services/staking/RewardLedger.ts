@@ -0,0 +1,588 @@
+/**
+ * Reward-per-share accrual ledger for staking pools
+ * Accrues every reward token per second (MasterChef-style accumulators) in integer base units,
+ * applies boost multipliers and vesting cliffs, and replays a position's history to explain its rewards
+ */
+
+import type { StakingBoost, VestingSchedule } from './StakingRewardsSystem';
+
+export interface LedgerRewardToken {
+  symbol: string;
+  decimals: number;
+  emissionRate: number; // tokens per second, shared by all stakers
+  remainingRewards: number; // emissions stop once this budget is spent
+  vestingCliff?: number; // seconds harvested rewards stay locked
+}
+
+// Ledger entries always name the token they vest
+export interface LedgerVestingSchedule extends VestingSchedule {
+  token: string;
+}
+
+export interface AccruedReward {
+  token: string;
+  amount: number; // accrued but not yet harvested
+  vesting: number; // harvested, still inside its cliff
+  claimable: number; // harvested, past its cliff, not yet claimed
+  vestingCliff: number; // seconds
+}
+
+export interface AccrualSegment {
+  token: string;
+  from: number;
+  to: number;
+  seconds: number;
+  emission: number; // tokens emitted to the whole pool over the segment
+  totalShares: number;
+  positionShares: number;
+  boostMultiplier: number;
+  reward: number; // the position's part of the emission
+}
+
+export interface LedgerEvent {
+  at: number;
+  type: 'pool_added' | 'token_added' | 'token_updated' | 'deposit' | 'withdraw' | 'boosts_changed' | 'boost_boundary' | 'harvest' | 'claim';
+  detail: string;
+}
+
+export interface RewardExplanation {
+  positionId: string;
+  poolId: string;
+  at: number;
+  events: LedgerEvent[];
+  segments: AccrualSegment[];
+  totals: Array<{
+    token: string;
+    accrued: number;
+    harvested: number;
+    pending: number;
+  }>;
+  reconciled: boolean; // the replay reproduced the live ledger to the base unit
+}
+
+const SHARE_DECIMALS = 18;
+const ACC_PRECISION = 10n ** 36n;
+const BOOST_PRECISION = 10000n;
+
+interface TokenState {
+  symbol: string;
+  decimals: number;
+  rate: bigint; // base units per second
+  remaining: bigint;
+  cliff: number; // seconds
+  accPerShare: bigint; // scaled by ACC_PRECISION
+}
+
+interface PoolState {
+  id: string;
+  tokens: Map<string, TokenState>;
+  totalShares: bigint;
+  lastUpdate: number;
+  positions: Set<string>;
+}
+
+interface PositionState {
+  id: string;
+  poolId: string;
+  amount: bigint;
+  boosts: StakingBoost[];
+  multiplier: bigint; // basis points
+  shares: bigint;
+  debt: Map<string, bigint>;
+  accrued: Map<string, bigint>;
+  vesting: Array<LedgerVestingSchedule & { units: bigint }>;
+}
+
+interface LedgerOperation {
+  poolId: string;
+  apply: (ledger: RewardLedger) => void;
+}
+
+interface LedgerTrace {
+  positionId: string;
+  events: LedgerEvent[];
+  segments: Array<{ segment: AccrualSegment; units: bigint }>;
+  harvested: Map<string, bigint>;
+}
+
+export class RewardLedger {
+  private pools: Map<string, PoolState> = new Map();
+  private positions: Map<string, PositionState> = new Map();
+  private operations: LedgerOperation[] = [];
+  private trace?: LedgerTrace;
+
+  /**
+   * Register a pool; it accrues nothing until someone stakes
+   */
+  addPool(poolId: string, tokens: LedgerRewardToken[], at: number): void {
+    if (this.pools.has(poolId)) {
+      throw new Error(`Pool ${poolId} is already in the ledger`);
+    }
+
+    const pool: PoolState = { id: poolId, tokens: new Map(), totalShares: 0n, lastUpdate: at, positions: new Set() };
+    for (const token of tokens) {
+      pool.tokens.set(token.symbol, createTokenState(token));
+    }
+    this.pools.set(poolId, pool);
+
+    this.record(poolId, at, 'pool_added', `${tokens.map(t => `${t.symbol} at ${t.emissionRate}/s`).join(', ') || 'no reward tokens'}`);
+    this.log(poolId, ledger => ledger.addPool(poolId, tokens.map(t => ({ ...t })), at));
+  }
+
+  /**
+   * Start emitting a new reward token; existing stakers earn it from `at` onwards
+   */
+  addRewardToken(poolId: string, token: LedgerRewardToken, at: number): void {
+    const pool = this.requirePool(poolId);
+    if (pool.tokens.has(token.symbol)) {
+      throw new Error(`Pool ${poolId} already emits ${token.symbol}`);
+    }
+
+    this.advance(pool, this.positions, at);
+    pool.tokens.set(token.symbol, createTokenState(token));
+
+    this.record(poolId, at, 'token_added', `${token.symbol} at ${token.emissionRate}/s`);
+    this.log(poolId, ledger => ledger.addRewardToken(poolId, { ...token }, at));
+  }
+
+  /**
+   * Change emission parameters mid-period; everything before `at` accrues at the old values
+   */
+  updateRewardToken(
+    poolId: string,
+    symbol: string,
+    changes: Partial<Pick<LedgerRewardToken, 'emissionRate' | 'remainingRewards' | 'vestingCliff'>>,
+    at: number
+  ): void {
+    const pool = this.requirePool(poolId);
+    const token = pool.tokens.get(symbol);
+    if (!token) {
+      throw new Error(`Pool ${poolId} does not emit ${symbol}`);
+    }
+
+    this.advance(pool, this.positions, at);
+    if (changes.emissionRate !== undefined) token.rate = toUnits(changes.emissionRate, token.decimals);
+    if (changes.remainingRewards !== undefined) token.remaining = toUnits(changes.remainingRewards, token.decimals);
+    if (changes.vestingCliff !== undefined) token.cliff = changes.vestingCliff;
+
+    this.record(poolId, at, 'token_updated', `${symbol} ${JSON.stringify(changes)}`);
+    this.log(poolId, ledger => ledger.updateRewardToken(poolId, symbol, { ...changes }, at));
+  }
+
+  deposit(positionId: string, poolId: string, amount: number, boosts: StakingBoost[], at: number): void {
+    const pool = this.requirePool(poolId);
+    const units = toUnits(amount, SHARE_DECIMALS);
+    if (units <= 0n) {
+      throw new Error('Deposit amount must be positive');
+    }
+
+    let position = this.positions.get(positionId);
+    if (position && position.poolId !== poolId) {
+      throw new Error(`Position ${positionId} belongs to pool ${position.poolId}`);
+    }
+
+    this.advance(pool, this.positions, at);
+    if (!position) {
+      position = {
+        id: positionId,
+        poolId,
+        amount: 0n,
+        boosts: [],
+        multiplier: BOOST_PRECISION,
+        shares: 0n,
+        debt: new Map(),
+        accrued: new Map(),
+        vesting: []
+      };
+      this.positions.set(positionId, position);
+      pool.positions.add(positionId);
+    }
+
+    this.settle(position, pool);
+    position.amount += units;
+    position.boosts = boosts.map(boost => ({ ...boost }));
+    this.updateShares(position, pool, at);
+
+    this.record(poolId, at, 'deposit', `${amount} staked, ${fromUnits(position.shares, SHARE_DECIMALS)} shares`, positionId);
+    this.log(poolId, ledger => ledger.deposit(positionId, poolId, amount, boosts.map(boost => ({ ...boost })), at));
+  }
+
+  withdraw(positionId: string, amount: number, at: number): void {
+    const position = this.requirePosition(positionId);
+    const pool = this.requirePool(position.poolId);
+    const units = toUnits(amount, SHARE_DECIMALS);
+    if (units > position.amount) {
+      throw new Error('Insufficient staked amount');
+    }
+
+    this.advance(pool, this.positions, at);
+    this.settle(position, pool);
+    position.amount -= units;
+    this.updateShares(position, pool, at);
+
+    this.record(pool.id, at, 'withdraw', `${amount} unstaked, ${fromUnits(position.shares, SHARE_DECIMALS)} shares left`, positionId);
+    this.log(pool.id, ledger => ledger.withdraw(positionId, amount, at));
+  }
+
+  /**
+   * Replace a position's boosts; each boost counts only between its startDate and endDate
+   */
+  setBoosts(positionId: string, boosts: StakingBoost[], at: number): void {
+    const position = this.requirePosition(positionId);
+    const pool = this.requirePool(position.poolId);
+
+    this.advance(pool, this.positions, at);
+    this.settle(position, pool);
+    position.boosts = boosts.map(boost => ({ ...boost }));
+    this.updateShares(position, pool, at);
+
+    this.record(pool.id, at, 'boosts_changed', `multiplier ${formatMultiplier(position.multiplier)}`, positionId);
+    this.log(pool.id, ledger => ledger.setBoosts(positionId, boosts.map(boost => ({ ...boost })), at));
+  }
+
+  /**
+   * Move accrued rewards into vesting entries that unlock after each token's cliff
+   */
+  harvest(positionId: string, at: number): LedgerVestingSchedule[] {
+    const position = this.requirePosition(positionId);
+    const pool = this.requirePool(position.poolId);
+
+    this.advance(pool, this.positions, at);
+    this.settle(position, pool);
+    this.resetDebt(position, pool);
+
+    const entries: LedgerVestingSchedule[] = [];
+    for (const [symbol, units] of position.accrued) {
+      if (units <= 0n) continue;
+      const token = pool.tokens.get(symbol)!;
+      const entry = {
+        token: symbol,
+        units,
+        amount: fromUnits(units, token.decimals),
+        vestedAt: at,
+        claimableAt: at + token.cliff * 1000,
+        claimed: false
+      };
+      position.vesting.push(entry);
+      entries.push(toSchedule(entry));
+
+      if (this.trace?.positionId === positionId) {
+        this.trace.harvested.set(symbol, (this.trace.harvested.get(symbol) ?? 0n) + units);
+      }
+    }
+    position.accrued.clear();
+
+    this.record(pool.id, at, 'harvest', entries.map(e => `${e.amount} ${e.token} until ${new Date(e.claimableAt).toISOString()}`).join(', ') || 'nothing accrued', positionId);
+    this.log(pool.id, ledger => ledger.harvest(positionId, at));
+    return entries;
+  }
+
+  /**
+   * Release vesting entries whose cliff has passed
+   */
+  claimVested(positionId: string, at: number): LedgerVestingSchedule[] {
+    const position = this.requirePosition(positionId);
+    const released = position.vesting.filter(entry => !entry.claimed && entry.claimableAt <= at);
+    released.forEach(entry => { entry.claimed = true; });
+
+    this.record(position.poolId, at, 'claim', released.map(e => `${e.amount} ${e.token}`).join(', ') || 'nothing claimable', positionId);
+    this.log(position.poolId, ledger => ledger.claimVested(positionId, at));
+    return released.map(toSchedule);
+  }
+
+  /**
+   * Rewards as of `at`, without changing the ledger
+   */
+  pending(positionId: string, at: number): AccruedReward[] {
+    const position = this.requirePosition(positionId);
+    const pool = this.requirePool(position.poolId);
+    const accrued = this.pendingUnits(positionId, at);
+
+    return Array.from(pool.tokens.values()).map(token => {
+      const unclaimed = position.vesting.filter(entry => entry.token === token.symbol && !entry.claimed);
+      return {
+        token: token.symbol,
+        amount: fromUnits(accrued.get(token.symbol) ?? 0n, token.decimals),
+        vesting: fromUnits(sumUnits(unclaimed.filter(entry => entry.claimableAt > at)), token.decimals),
+        claimable: fromUnits(sumUnits(unclaimed.filter(entry => entry.claimableAt <= at)), token.decimals),
+        vestingCliff: token.cliff
+      };
+    });
+  }
+
+  getVestingSchedule(positionId: string): LedgerVestingSchedule[] {
+    return this.requirePosition(positionId).vesting.map(toSchedule);
+  }
+
+  /**
+   * Replay every operation on the position's pool and break its rewards down into accrual segments
+   */
+  explain(positionId: string, at: number): RewardExplanation {
+    const position = this.requirePosition(positionId);
+    const trace: LedgerTrace = { positionId, events: [], segments: [], harvested: new Map() };
+    const replay = new RewardLedger();
+    replay.trace = trace;
+
+    for (const operation of this.operations) {
+      if (operation.poolId === position.poolId) operation.apply(replay);
+    }
+
+    const replayed = replay.pendingUnits(positionId, at);
+    const live = this.pendingUnits(positionId, at);
+    const pool = this.requirePool(position.poolId);
+
+    let reconciled = true;
+    const totals = Array.from(pool.tokens.values()).map(token => {
+      const accrued = sumUnits(trace.segments.filter(s => s.segment.token === token.symbol));
+      const harvested = trace.harvested.get(token.symbol) ?? 0n;
+      const pending = replayed.get(token.symbol) ?? 0n;
+      if (pending !== (live.get(token.symbol) ?? 0n) || accrued - harvested !== pending) {
+        reconciled = false;
+      }
+      return {
+        token: token.symbol,
+        accrued: fromUnits(accrued, token.decimals),
+        harvested: fromUnits(harvested, token.decimals),
+        pending: fromUnits(pending, token.decimals)
+      };
+    });
+
+    return {
+      positionId,
+      poolId: position.poolId,
+      at,
+      events: trace.events,
+      segments: trace.segments.map(s => s.segment),
+      totals,
+      reconciled
+    };
+  }
+
+  /**
+   * Unharvested rewards per token, accrued on a copy of the pool so views never move the ledger
+   */
+  private pendingUnits(positionId: string, at: number): Map<string, bigint> {
+    const position = this.requirePosition(positionId);
+    const pool = clonePool(this.requirePool(position.poolId));
+    const positions = new Map(
+      Array.from(pool.positions).map(id => [id, clonePosition(this.positions.get(id)!)] as [string, PositionState])
+    );
+
+    this.advance(pool, positions, at);
+    const copy = positions.get(positionId)!;
+    this.settle(copy, pool);
+    return copy.accrued;
+  }
+
+  /**
+   * Accrue the pool up to `to`, re-weighting boosted positions at every boost start and end on the way
+   */
+  private advance(pool: PoolState, positions: Map<string, PositionState>, to: number): void {
+    if (to < pool.lastUpdate) {
+      throw new Error(`Ledger time cannot move backwards for pool ${pool.id}`);
+    }
+
+    const members = Array.from(pool.positions).map(id => positions.get(id)!);
+    const boundaries = Array.from(new Set(members.flatMap(position =>
+      position.boosts.flatMap(boost => [boost.startDate, boost.endDate ?? Infinity])
+    )))
+      .filter(time => time > pool.lastUpdate && time <= to)
+      .sort((a, b) => a - b);
+
+    for (const boundary of boundaries) {
+      this.accrue(pool, positions, boundary);
+      for (const position of members) {
+        const multiplier = boostMultiplier(position, boundary);
+        if (multiplier === position.multiplier) continue;
+        this.settle(position, pool);
+        this.updateShares(position, pool, boundary);
+        this.record(pool.id, boundary, 'boost_boundary', `multiplier ${formatMultiplier(multiplier)}`, position.id);
+      }
+    }
+
+    this.accrue(pool, positions, to);
+  }
+
+  private accrue(pool: PoolState, positions: Map<string, PositionState>, to: number): void {
+    const from = pool.lastUpdate;
+    const seconds = Math.floor(to / 1000) - Math.floor(from / 1000);
+
+    if (seconds > 0 && pool.totalShares > 0n) {
+      for (const token of pool.tokens.values()) {
+        let emission = token.rate * BigInt(seconds);
+        if (emission > token.remaining) emission = token.remaining;
+        if (emission === 0n) continue;
+
+        const before = token.accPerShare;
+        token.accPerShare += (emission * ACC_PRECISION) / pool.totalShares;
+        token.remaining -= emission;
+        this.traceSegment(pool, positions, token, from, to, seconds, emission, before);
+      }
+    }
+
+    pool.lastUpdate = Math.max(pool.lastUpdate, to);
+  }
+
+  private settle(position: PositionState, pool: PoolState): void {
+    for (const token of pool.tokens.values()) {
+      const earned = (position.shares * token.accPerShare) / ACC_PRECISION - (position.debt.get(token.symbol) ?? 0n);
+      if (earned > 0n) {
+        position.accrued.set(token.symbol, (position.accrued.get(token.symbol) ?? 0n) + earned);
+      }
+    }
+  }
+
+  private updateShares(position: PositionState, pool: PoolState, at: number): void {
+    position.multiplier = boostMultiplier(position, at);
+    const shares = (position.amount * position.multiplier) / BOOST_PRECISION;
+    pool.totalShares += shares - position.shares;
+    position.shares = shares;
+    this.resetDebt(position, pool);
+  }
+
+  private resetDebt(position: PositionState, pool: PoolState): void {
+    for (const token of pool.tokens.values()) {
+      position.debt.set(token.symbol, (position.shares * token.accPerShare) / ACC_PRECISION);
+    }
+  }
+
+  /**
+   * The position's part of a segment telescopes, so segments sum exactly to what settle() credits
+   */
+  private traceSegment(
+    pool: PoolState,
+    positions: Map<string, PositionState>,
+    token: TokenState,
+    from: number,
+    to: number,
+    seconds: number,
+    emission: bigint,
+    accBefore: bigint
+  ): void {
+    if (!this.trace) return;
+    const position = positions.get(this.trace.positionId);
+    if (!position || position.poolId !== pool.id || position.shares === 0n) return;
+
+    const units = (position.shares * token.accPerShare) / ACC_PRECISION - (position.shares * accBefore) / ACC_PRECISION;
+    this.trace.segments.push({
+      units,
+      segment: {
+        token: token.symbol,
+        from,
+        to,
+        seconds,
+        emission: fromUnits(emission, token.decimals),
+        totalShares: fromUnits(pool.totalShares, SHARE_DECIMALS),
+        positionShares: fromUnits(position.shares, SHARE_DECIMALS),
+        boostMultiplier: Number(position.multiplier) / Number(BOOST_PRECISION),
+        reward: fromUnits(units, token.decimals)
+      }
+    });
+  }
+
+  private record(poolId: string, at: number, type: LedgerEvent['type'], detail: string, positionId?: string): void {
+    if (!this.trace) return;
+    if (positionId !== undefined && positionId !== this.trace.positionId) return;
+    const traced = this.positions.get(this.trace.positionId);
+    if (traced && traced.poolId !== poolId) return;
+    this.trace.events.push({ at, type, detail });
+  }
+
+  private log(poolId: string, apply: (ledger: RewardLedger) => void): void {
+    this.operations.push({ poolId, apply });
+  }
+
+  private requirePool(poolId: string): PoolState {
+    const pool = this.pools.get(poolId);
+    if (!pool) {
+      throw new Error(`Pool ${poolId} is not in the ledger`);
+    }
+    return pool;
+  }
+
+  private requirePosition(positionId: string): PositionState {
+    const position = this.positions.get(positionId);
+    if (!position) {
+      throw new Error(`Position ${positionId} is not in the ledger`);
+    }
+    return position;
+  }
+}
+
+function createTokenState(token: LedgerRewardToken): TokenState {
+  return {
+    symbol: token.symbol,
+    decimals: token.decimals,
+    rate: toUnits(token.emissionRate, token.decimals),
+    remaining: toUnits(token.remainingRewards, token.decimals),
+    cliff: token.vestingCliff ?? 0,
+    accPerShare: 0n
+  };
+}
+
+/**
+ * Product of the boosts active at `at`, in basis points; boosts multiply like the old estimate did
+ */
+function boostMultiplier(position: PositionState, at: number): bigint {
+  const amount = fromUnits(position.amount, SHARE_DECIMALS);
+  return position.boosts
+    .filter(boost => boost.isActive
+      && boost.startDate <= at
+      && (boost.endDate === undefined || at < boost.endDate)
+      && (!boost.requirements?.minStakeAmount || amount >= boost.requirements.minStakeAmount))
+    .reduce((multiplier, boost) => (multiplier * BigInt(Math.round(boost.multiplier * 10000))) / BOOST_PRECISION, BOOST_PRECISION);
+}
+
+function clonePool(pool: PoolState): PoolState {
+  return {
+    ...pool,
+    tokens: new Map(Array.from(pool.tokens, ([symbol, token]) => [symbol, { ...token }])),
+    positions: new Set(pool.positions)
+  };
+}
+
+function clonePosition(position: PositionState): PositionState {
+  return { ...position, debt: new Map(position.debt), accrued: new Map(position.accrued) };
+}
+
+function toSchedule(entry: LedgerVestingSchedule & { units: bigint }): LedgerVestingSchedule {
+  return {
+    token: entry.token,
+    amount: entry.amount,
+    vestedAt: entry.vestedAt,
+    claimableAt: entry.claimableAt,
+    claimed: entry.claimed
+  };
+}
+
+function sumUnits(items: Array<{ units: bigint }>): bigint {
+  return items.reduce((sum, item) => sum + item.units, 0n);
+}
+
+function formatMultiplier(multiplier: bigint): string {
+  return `${Number(multiplier) / Number(BOOST_PRECISION)}x`;
+}
+
+/**
+ * Decimal amount to integer base units, read from the shortest decimal form so 0.1 stays exactly 0.1
+ */
+function toUnits(value: number, decimals: number): bigint {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid amount ${value}`);
+  }
+
+  const [mantissa, exponent = '0'] = String(value).split('e');
+  const [whole, fraction = ''] = mantissa.split('.');
+  const scale = decimals + Number(exponent) - fraction.length;
+  const digits = BigInt(whole + fraction);
+
+  // Digits below the token's precision are truncated
+  return scale >= 0 ? digits * 10n ** BigInt(scale) : digits / 10n ** BigInt(-scale);
+}
+
+function fromUnits(units: bigint, decimals: number): number {
+  const base = 10n ** BigInt(decimals);
+  const sign = units < 0n ? '-' : '';
+  const absolute = units < 0n ? -units : units;
+  return Number(`${sign}${absolute / base}.${(absolute % base).toString().padStart(decimals, '0')}`);
+}
@@ -5,6 +5,7 @@
 
 import { EventEmitter } from 'events';
 import { EnhancedLogger } from '@/lib/enhanced-logger';
+import { RewardLedger, type LedgerRewardToken, type RewardExplanation } from './RewardLedger';
 
 // Staking Types
 export interface StakingPool {
@@ -58,6 +59,7 @@ export interface RewardToken {
   remainingRewards: number;
   price: number;
   multiplier: number; // for boosted rewards
+  vestingCliff?: number; // seconds harvested rewards stay locked before they can be claimed
 }
 
 export interface StakingPosition {
@@ -117,6 +119,7 @@ export interface StakingBoost {
 }
 
 export interface VestingSchedule {
+  token?: string;
   amount: number;
   vestedAt: number;
   claimableAt: number;
@@ -182,7 +185,6 @@ export interface ValidatorInfo {
 }
 
 export class StakingRewardsSystem extends EventEmitter {
-  private logger: EnhancedLogger;
   private pools: Map<string, StakingPool> = new Map();
   private positions: Map<string, StakingPosition> = new Map();
   private userPositions: Map<string, Set<string>> = new Map();
@@ -190,6 +192,7 @@ export class StakingRewardsSystem extends EventEmitter {
   private validators: Map<string, ValidatorInfo> = new Map();
   private boosts: Map<string, StakingBoost[]> = new Map();
   private priceCache: Map<string, { price: number; timestamp: number }> = new Map();
+  private ledger: RewardLedger = new RewardLedger();
 
   // Supported networks and protocols
   private readonly SUPPORTED_NETWORKS = [
@@ -215,9 +218,8 @@ export class StakingRewardsSystem extends EventEmitter {
 
   constructor() {
     super();
-    this.logger = new EnhancedLogger();
 
-    this.logger.info('Staking Rewards System initialized', {
+    EnhancedLogger.info('Staking Rewards System initialized', {
       component: 'StakingRewardsSystem',
       supportedNetworks: this.SUPPORTED_NETWORKS.length
     });
@@ -243,11 +245,11 @@ export class StakingRewardsSystem extends EventEmitter {
       // Start pool updates
       this.startPoolUpdater();
 
-      this.logger.info('Staking Rewards System initialized successfully');
+      EnhancedLogger.info('Staking Rewards System initialized successfully');
       this.emit('initialized');
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to initialize Staking Rewards System:');
+      EnhancedLogger.error('Failed to initialize Staking Rewards System:', { error });
       throw error;
     }
   }
@@ -316,6 +318,9 @@ export class StakingRewardsSystem extends EventEmitter {
       }
       this.userPositions.get(userId)!.add(position.id);
 
+      // Start accruing rewards
+      this.ledger.deposit(position.id, poolId, netAmount, position.boosts, position.stakedAt);
+
       // Update pool metrics
       pool.totalStaked += netAmount;
       pool.metrics.totalStakers++;
@@ -325,7 +330,7 @@ export class StakingRewardsSystem extends EventEmitter {
       // Execute staking transaction (mock)
       await this.executeStaking(position, pool);
 
-      this.logger.info('Staking position created', {
+      EnhancedLogger.info('Staking position created', {
         positionId: position.id,
         userId,
         poolId,
@@ -338,7 +343,7 @@ export class StakingRewardsSystem extends EventEmitter {
       return position;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to stake tokens:');
+      EnhancedLogger.error('Failed to stake tokens:', { error });
       throw error;
     }
   }
@@ -378,7 +383,7 @@ export class StakingRewardsSystem extends EventEmitter {
         position.status = 'cooling_down';
         this.positions.set(positionId, position);
 
-        this.logger.info('Cooldown period started', {
+        EnhancedLogger.info('Cooldown period started', {
           positionId,
           cooldownEnds: Date.now() + (pool.cooldownPeriod * 24 * 60 * 60 * 1000)
         });
@@ -411,6 +416,7 @@ export class StakingRewardsSystem extends EventEmitter {
       // Claim pending rewards
       const pendingRewards = await this.calculatePendingRewards(position);
       await this.claimRewards(positionId, userId);
+      this.ledger.withdraw(positionId, withdrawAmount, Date.now());
 
       // Update position
       position.amount -= withdrawAmount;
@@ -431,7 +437,7 @@ export class StakingRewardsSystem extends EventEmitter {
         pool.totalStaked / pool.metrics.totalStakers : 0;
       this.pools.set(position.poolId, pool);
 
-      this.logger.info('Unstaking completed', {
+      EnhancedLogger.info('Unstaking completed', {
         positionId,
         userId,
         withdrawnAmount: netWithdrawal,
@@ -449,7 +455,7 @@ export class StakingRewardsSystem extends EventEmitter {
       return result;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to unstake tokens:');
+      EnhancedLogger.error('Failed to unstake tokens:', { error });
       throw error;
     }
   }
@@ -469,38 +475,37 @@ export class StakingRewardsSystem extends EventEmitter {
         throw new Error(`Pool ${position.poolId} not found`);
       }
 
-      const pendingRewards = await this.calculatePendingRewards(position);
+      // Harvest everything accrued into vesting, then release whatever is past its cliff
+      const now = Date.now();
+      this.ledger.harvest(positionId, now);
+      const released = this.ledger.claimVested(positionId, now);
       const claimedRewards: ClaimedReward[] = [];
 
-      for (const reward of pendingRewards) {
-        if (Date.now() >= reward.claimableAt) {
-          const fee = reward.value * pool.fees.performance;
-          const netAmount = reward.amount * (1 - pool.fees.performance);
-
-          const claimedReward: ClaimedReward = {
-            token: reward.token,
-            amount: netAmount,
-            value: reward.value - fee,
-            claimedAt: Date.now(),
-            fee
-          };
-
-          claimedRewards.push(claimedReward);
-          position.rewards.claimed.push(claimedReward);
-          position.rewards.totalClaimed += claimedReward.value;
-        }
+      for (const reward of released) {
+        const tokenPrice = await this.getTokenPrice(reward.token);
+        const value = reward.amount * tokenPrice;
+        const fee = value * pool.fees.performance;
+
+        const claimedReward: ClaimedReward = {
+          token: reward.token,
+          amount: reward.amount * (1 - pool.fees.performance),
+          value: value - fee,
+          claimedAt: now,
+          fee
+        };
+
+        claimedRewards.push(claimedReward);
+        position.rewards.claimed.push(claimedReward);
+        position.rewards.totalClaimed += claimedReward.value;
       }
 
-      // Clear pending rewards that were claimed
-      position.rewards.pending = position.rewards.pending.filter(reward => 
-        Date.now() < reward.claimableAt
-      );
-
-      position.lastClaimAt = Date.now();
+      position.lastClaimAt = now;
+      position.vestingSchedule = this.ledger.getVestingSchedule(positionId);
+      position.rewards.pending = await this.calculatePendingRewards(position);
       position.rewards.lastUpdate = Date.now();
       this.positions.set(positionId, position);
 
-      this.logger.info('Rewards claimed', {
+      EnhancedLogger.info('Rewards claimed', {
         positionId,
         userId,
         claimedCount: claimedRewards.length,
@@ -511,7 +516,7 @@ export class StakingRewardsSystem extends EventEmitter {
       return claimedRewards;
 
     } catch (error) {
-      this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Failed to claim rewards:');
+      EnhancedLogger.error('Failed to claim rewards:', { error });
       throw error;
     }
   }
@@ -634,6 +639,58 @@ export class StakingRewardsSystem extends EventEmitter {
     };
   }
 
+  /**
+   * Change a reward token's emission mid-period; rewards up to now accrue at the old parameters
+   */
+  updateRewardEmission(
+    poolId: string,
+    symbol: string,
+    changes: Partial<Pick<LedgerRewardToken, 'emissionRate' | 'remainingRewards' | 'vestingCliff'>>
+  ): void {
+    const pool = this.pools.get(poolId);
+    const rewardToken = pool?.rewardTokens.find(token => token.symbol === symbol);
+    if (!pool || !rewardToken) {
+      throw new Error(`Reward token ${symbol} not found in pool ${poolId}`);
+    }
+
+    this.ledger.updateRewardToken(poolId, symbol, changes, Date.now());
+    Object.assign(rewardToken, changes);
+
+    EnhancedLogger.info('Reward emission updated', { poolId, symbol, ...changes });
+    this.emit('rewardEmissionUpdated', { poolId, symbol, changes });
+  }
+
+  /**
+   * Grant a boost and re-weight the user's open positions from now on
+   */
+  addUserBoost(userId: string, boost: StakingBoost): void {
+    if (!this.boosts.has(userId)) {
+      this.boosts.set(userId, []);
+    }
+    this.boosts.get(userId)!.push(boost);
+
+    const now = Date.now();
+    for (const position of this.getUserPositions(userId)) {
+      if (position.status === 'withdrawn') continue;
+      position.boosts = this.getApplicableBoosts(userId, position.poolId, position.amount);
+      this.ledger.setBoosts(position.id, position.boosts, now);
+    }
+
+    this.emit('boostAdded', { userId, boost });
+  }
+
+  /**
+   * Replay a position's history to show how each pending reward was accrued
+   */
+  explainPendingRewards(positionId: string, userId: string): RewardExplanation {
+    const position = this.positions.get(positionId);
+    if (!position || position.userId !== userId) {
+      throw new Error(`Position ${positionId} not found or unauthorized`);
+    }
+
+    return this.ledger.explain(positionId, Date.now());
+  }
+
   /**
    * Private methods
    */
@@ -747,9 +804,10 @@ export class StakingRewardsSystem extends EventEmitter {
       };
       
       this.pools.set(pool.id, pool);
+      this.ledger.addPool(pool.id, pool.rewardTokens, Date.now());
     }
 
-    this.logger.info('Staking pools loaded', { count: mockPools.length });
+    EnhancedLogger.info('Staking pools loaded', { count: mockPools.length });
   }
 
   private async loadValidators(): Promise<void> {
@@ -778,32 +836,37 @@ export class StakingRewardsSystem extends EventEmitter {
     const pool = this.pools.get(position.poolId);
     if (!pool) return [];
 
-    const timeElapsed = Date.now() - position.lastClaimAt;
-    const daysElapsed = timeElapsed / (24 * 60 * 60 * 1000);
-
+    const now = Date.now();
     const pendingRewards: PendingReward[] = [];
 
-    for (const rewardToken of pool.rewardTokens) {
-      // Calculate base rewards
-      let rewardAmount = (position.amount * rewardToken.apr / 100 / 365) * daysElapsed;
+    // Accrued but not harvested: claimable one cliff after the next harvest
+    for (const reward of this.ledger.pending(position.id, now)) {
+      if (reward.amount <= 0) continue;
+      const tokenPrice = await this.getTokenPrice(reward.token);
+      const cliff = reward.vestingCliff * 1000;
 
-      // Apply boosts
-      for (const boost of position.boosts) {
-        if (boost.isActive) {
-          rewardAmount *= boost.multiplier;
-        }
-      }
+      pendingRewards.push({
+        token: reward.token,
+        amount: reward.amount,
+        value: reward.amount * tokenPrice,
+        accruedSince: position.lastClaimAt,
+        claimableAt: now + cliff,
+        vestingPeriod: cliff > 0 ? cliff : undefined
+      });
+    }
 
-      const tokenPrice = await this.getTokenPrice(rewardToken.symbol);
-      const rewardValue = rewardAmount * tokenPrice;
+    // Harvested and still vesting
+    for (const entry of this.ledger.getVestingSchedule(position.id)) {
+      if (entry.claimed) continue;
+      const tokenPrice = await this.getTokenPrice(entry.token);
 
       pendingRewards.push({
-        token: rewardToken.symbol,
-        amount: rewardAmount,
-        value: rewardValue,
-        accruedSince: position.lastClaimAt,
-        claimableAt: Date.now(),
-        vestingPeriod: rewardToken.distributionType === 'epoch' ? 7 * 24 * 60 * 60 * 1000 : undefined
+        token: entry.token,
+        amount: entry.amount,
+        value: entry.amount * tokenPrice,
+        accruedSince: entry.vestedAt,
+        claimableAt: entry.claimableAt,
+        vestingPeriod: entry.claimableAt - entry.vestedAt
       });
     }
 
@@ -828,7 +891,7 @@ export class StakingRewardsSystem extends EventEmitter {
 
   private async executeStaking(position: StakingPosition, pool: StakingPool): Promise<void> {
     // Mock blockchain interaction
-    this.logger.info('Executing staking transaction', {
+    EnhancedLogger.info('Executing staking transaction', {
       positionId: position.id,
       poolId: position.poolId,
       amount: position.amount,
@@ -896,7 +959,7 @@ export class StakingRewardsSystem extends EventEmitter {
       try {
         await this.updateAllRewards();
       } catch (error) {
-        this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Reward calculation failed:');
+        EnhancedLogger.error('Reward calculation failed:', { error });
       }
     }, 60 * 1000); // Update every minute
   }
@@ -906,7 +969,7 @@ export class StakingRewardsSystem extends EventEmitter {
       try {
         await this.processAutoCompounding();
       } catch (error) {
-        this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Auto-compound processing failed:');
+        EnhancedLogger.error('Auto-compound processing failed:', { error });
       }
     }, 60 * 60 * 1000); // Process every hour
   }
@@ -916,7 +979,7 @@ export class StakingRewardsSystem extends EventEmitter {
       try {
         await this.updatePoolMetrics();
       } catch (error) {
-        this.logger.error(error instanceof Error ? error : new Error(String(error)), 'Pool update failed:');
+        EnhancedLogger.error('Pool update failed:', { error });
       }
     }, 5 * 60 * 1000); // Update every 5 minutes
   }
@@ -942,7 +1005,7 @@ export class StakingRewardsSystem extends EventEmitter {
 
         if (compoundableRewards.length > 0) {
           // Auto-compound logic would go here
-          this.logger.info('Auto-compounding rewards', {
+          EnhancedLogger.info('Auto-compounding rewards', {
             positionId: position.id,
             rewards: compoundableRewards.length
           });
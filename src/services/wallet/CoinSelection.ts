@@ -0,0 +1,267 @@
+/**
+ * Coin Selection
+ * Branch-and-bound, smallest-first, largest-first and privacy-preserving selection over spendable UTXOs.
+ * Amounts are sats; fees come from the same vsize model as the fee estimator
+ */
+
+import {
+  type OutputScriptType,
+  type TxInputSpec,
+  type TxOutputSpec,
+  estimateTxVsize
+} from '@/services/fees/BitcoinFeeEstimator';
+
+export type CoinSelectionStrategy = 'branch_and_bound' | 'smallest_first' | 'largest_first' | 'privacy';
+
+export interface SelectableUtxo {
+  outpoint: string; // txid:vout
+  value: number;
+  address: string;
+  input: TxInputSpec;
+  confirmed: boolean;
+}
+
+export interface CoinSelectionParams {
+  target: number; // sats paid to the recipient outputs
+  feeRate: number; // sat/vB
+  outputs?: TxOutputSpec[]; // recipient outputs, one P2WPKH by default
+  changeType?: OutputScriptType;
+  dustLimit?: number;
+  maxTries?: number; // branch-and-bound search budget
+}
+
+export interface CoinSelectionResult<T extends SelectableUtxo = SelectableUtxo> {
+  strategy: CoinSelectionStrategy;
+  inputs: T[];
+  total: number;
+  fee: number;
+  vsize: number;
+  change: number; // 0 when the transaction has no change output
+  waste: number; // sats lost to the excess of a changeless selection
+  addresses: string[];
+  warnings: string[];
+}
+
+type Selection<T extends SelectableUtxo> = Omit<CoinSelectionResult<T>, 'strategy'>;
+
+const DEFAULT_MAX_TRIES = 100_000;
+
+export function selectCoins<T extends SelectableUtxo>(
+  utxos: T[],
+  strategy: CoinSelectionStrategy,
+  params: CoinSelectionParams
+): CoinSelectionResult<T> {
+  if (!Number.isSafeInteger(params.target) || params.target <= 0) {
+    throw new Error('Target must be a positive number of sats');
+  }
+  if (!(params.feeRate > 0)) throw new Error('Fee rate must be positive');
+
+  const context = createContext(params);
+  let result: Selection<T> | null;
+
+  switch (strategy) {
+    case 'branch_and_bound':
+      result = branchAndBound(utxos, context) ?? accumulate(byValue(utxos, 'desc'), context);
+      if (result && result.change > 0) {
+        result.warnings.push('No changeless combination found; fell back to largest-first');
+      }
+      break;
+    case 'smallest_first':
+      result = accumulate(byValue(utxos, 'asc'), context);
+      break;
+    case 'largest_first':
+      result = accumulate(byValue(utxos, 'desc'), context);
+      break;
+    case 'privacy':
+      result = privacySelection(utxos, context);
+      break;
+    default:
+      throw new Error(`Unknown coin selection strategy: ${strategy}`);
+  }
+
+  if (!result) {
+    const available = utxos.reduce((sum, utxo) => sum + utxo.value, 0);
+    throw new Error(`Insufficient funds: ${available} sats available, ${params.target} sats plus fees required`);
+  }
+
+  return { ...result, strategy };
+}
+
+interface SelectionContext {
+  target: number;
+  feeRate: number;
+  outputs: TxOutputSpec[];
+  changeOutput: TxOutputSpec;
+  dustLimit: number;
+  maxTries: number;
+  costOfChange: number; // creating the change output now and spending it later
+}
+
+function createContext(params: CoinSelectionParams): SelectionContext {
+  const outputs = params.outputs ?? [{ type: 'P2WPKH' }];
+  const changeType = params.changeType ?? 'P2WPKH';
+  const changeOutput: TxOutputSpec = { type: changeType };
+  const changeOutputVsize = estimateTxVsize([], [...outputs, changeOutput]) - estimateTxVsize([], outputs);
+  const changeSpendVsize = inputVsize({ type: changeType === 'P2SH' ? 'P2SH_P2WPKH' : changeType });
+
+  return {
+    target: params.target,
+    feeRate: params.feeRate,
+    outputs,
+    changeOutput,
+    dustLimit: params.dustLimit ?? 546,
+    maxTries: params.maxTries ?? DEFAULT_MAX_TRIES,
+    costOfChange: Math.ceil((changeOutputVsize + changeSpendVsize) * params.feeRate)
+  };
+}
+
+// Marginal vsize of one input, excluding the one-off segwit marker. Input weights are even, so
+// the difference between two and four inputs is exact where one input alone would be rounded
+function inputVsize(input: TxInputSpec): number {
+  return (estimateTxVsize([input, input, input, input], []) - estimateTxVsize([input, input], [])) / 2;
+}
+
+function effectiveValue(utxo: SelectableUtxo, context: SelectionContext): number {
+  return utxo.value - inputVsize(utxo.input) * context.feeRate;
+}
+
+/**
+ * Fee, change and vsize for a fixed set of inputs, or null if they can't pay for the outputs
+ */
+function finish<T extends SelectableUtxo>(
+  inputs: T[],
+  context: SelectionContext,
+  allowChange: boolean = true
+): Selection<T> | null {
+  const total = inputs.reduce((sum, utxo) => sum + utxo.value, 0);
+  const specs = inputs.map(utxo => utxo.input);
+  const addresses = Array.from(new Set(inputs.map(utxo => utxo.address)));
+
+  if (allowChange) {
+    const vsize = estimateTxVsize(specs, [...context.outputs, context.changeOutput]);
+    const fee = Math.ceil(vsize * context.feeRate);
+    const change = total - context.target - fee;
+    if (change >= context.dustLimit) {
+      return { inputs, total, fee, vsize, change, waste: 0, addresses, warnings: [] };
+    }
+  }
+
+  // Leftovers below dust go to the miner rather than into an uneconomical output
+  const vsize = estimateTxVsize(specs, context.outputs);
+  const minimumFee = Math.ceil(vsize * context.feeRate);
+  const excess = total - context.target - minimumFee;
+  if (excess < 0) return null;
+
+  return {
+    inputs,
+    total,
+    fee: minimumFee + excess,
+    vsize,
+    change: 0,
+    waste: excess,
+    addresses,
+    warnings: []
+  };
+}
+
+function accumulate<T extends SelectableUtxo>(ordered: T[], context: SelectionContext): Selection<T> | null {
+  const selected: T[] = [];
+  for (const utxo of ordered) {
+    if (effectiveValue(utxo, context) <= 0) continue; // costs more to spend than it's worth
+    selected.push(utxo);
+    const result = finish(selected, context);
+    if (result) return result;
+  }
+  return null;
+}
+
+/**
+ * Depth-first search for an input set whose effective value lands within the cost of change
+ * above the target, so the transaction needs no change output (Bitcoin Core's BnB)
+ */
+function branchAndBound<T extends SelectableUtxo>(utxos: T[], context: SelectionContext): Selection<T> | null {
+  const pool = utxos
+    .map(utxo => ({ utxo, value: effectiveValue(utxo, context) }))
+    .filter(entry => entry.value > 0)
+    .sort((a, b) => b.value - a.value);
+
+  // One extra vB covers the segwit marker and rounding the final vsize up, one sat rounding the fee up
+  const target = context.target + (estimateTxVsize([], context.outputs) + 1) * context.feeRate + 1;
+  const upperBound = target + context.costOfChange;
+
+  // remaining[i] = sum of effective values from i to the end, for pruning
+  const remaining = new Array<number>(pool.length + 1).fill(0);
+  for (let i = pool.length - 1; i >= 0; i--) remaining[i] = remaining[i + 1] + pool[i].value;
+  if (remaining[0] < target) return null;
+
+  let best: number[] | null = null;
+  let bestExcess = Infinity;
+  const chosen: number[] = [];
+  let tries = 0;
+
+  const search = (index: number, sum: number): void => {
+    if (tries++ >= context.maxTries || sum > upperBound) return;
+    if (sum >= target) {
+      if (sum - target < bestExcess) {
+        bestExcess = sum - target;
+        best = [...chosen];
+      }
+      return;
+    }
+    if (index >= pool.length || sum + remaining[index] < target) return;
+
+    chosen.push(index);
+    search(index + 1, sum + pool[index].value);
+    chosen.pop();
+
+    // Skipping a UTXO equal to the one just skipped explores the same sums again
+    let next = index + 1;
+    while (next < pool.length && pool[next].value === pool[index].value) next++;
+    search(next, sum);
+  };
+  search(0, 0);
+
+  if (!best) return null;
+  return finish((best as number[]).map(i => pool[i].utxo), context, false);
+}
+
+/**
+ * Avoids linking addresses: a changeless or single-UTXO spend first, then UTXOs of one address,
+ * and only merges addresses (with a warning) when no single address can pay
+ */
+function privacySelection<T extends SelectableUtxo>(utxos: T[], context: SelectionContext): Selection<T> | null {
+  const confirmed = utxos.filter(utxo => utxo.confirmed);
+  const pool = confirmed.length > 0 ? confirmed : utxos;
+  const groups = new Map<string, T[]>();
+  for (const utxo of pool) {
+    groups.set(utxo.address, [...(groups.get(utxo.address) ?? []), utxo]);
+  }
+
+  const fewestInputs = (results: Array<Selection<T> | null>) =>
+    results
+      .filter((result): result is Selection<T> => result !== null)
+      .sort((a, b) => a.inputs.length - b.inputs.length || a.waste - b.waste || a.fee - b.fee)[0] ?? null;
+
+  const changeless = fewestInputs(Array.from(groups.values()).map(group => branchAndBound(group, context)));
+  if (changeless) return changeless;
+
+  // The smallest single UTXO that covers the payment reveals the least about the rest of the wallet
+  for (const utxo of byValue(pool, 'asc')) {
+    const single = finish([utxo], context);
+    if (single) return single;
+  }
+
+  const singleAddress = fewestInputs(Array.from(groups.values()).map(group => accumulate(byValue(group, 'desc'), context)));
+  if (singleAddress) return singleAddress;
+
+  const merged = accumulate(byValue(utxos, 'desc'), context);
+  if (merged) {
+    merged.warnings.push(`Selection links ${merged.addresses.length} addresses`);
+    if (merged.inputs.some(utxo => !utxo.confirmed)) merged.warnings.push('Selection spends unconfirmed UTXOs');
+  }
+  return merged;
+}
+
+function byValue<T extends SelectableUtxo>(utxos: T[], order: 'asc' | 'desc'): T[] {
+  return [...utxos].sort((a, b) => (order === 'asc' ? a.value - b.value : b.value - a.value));
+}
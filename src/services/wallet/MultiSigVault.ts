@@ -0,0 +1,769 @@
+/**
+ * Multisig Vault
+ * m-of-n P2WSH / P2TR vaults built from signer xpubs, with an optional timelocked recovery path.
+ * Exports checksummed descriptors, derives receive/change addresses, builds spend PSBTs for
+ * hardware or offline signers and tracks which signatures are still missing before finalization
+ */
+
+import { AddressType, type BitcoinNetwork, addressValidator, bytesToHex, concatBytes, hexToBytes, sha256 } from '@/lib/addressValidation';
+import {
+  type ExtendedPublicKey,
+  derivePath,
+  formatDerivationPath,
+  keyFingerprint,
+  parseDerivationPath,
+  parseExtendedPublicKey,
+  serializeExtendedPublicKey
+} from '@/lib/bip32';
+import { type KeyOrigin, addDescriptorChecksum, formatKeyExpression } from '@/lib/descriptors';
+import {
+  type Psbt,
+  type PsbtInput,
+  combinePsbts,
+  createPsbt,
+  extractTransaction,
+  psbtFromBase64,
+  psbtToBase64,
+  setFinalScripts,
+  transactionId
+} from '@/lib/psbt';
+import { taggedHash, tweakTaprootKey } from '@/lib/secp256k1';
+import type { MultiSigConfig, WalletSecurityManager } from '@/lib/walletSecurity';
+import type { OutputScriptType } from '@/services/fees/BitcoinFeeEstimator';
+import { type CoinSelectionStrategy, type SelectableUtxo, selectCoins } from './CoinSelection';
+
+export type VaultScriptType = 'p2wsh' | 'p2tr';
+export type VaultSpendPath = 'primary' | 'recovery';
+
+export interface VaultSigner {
+  xpub: string; // xpub/tpub, or a SLIP-132 Ypub/Zpub/...
+  fingerprint?: string; // master key fingerprint; required unless the xpub is a master key
+  path?: string; // origin path of the xpub, e.g. m/48'/0'/0'/2'
+  label?: string;
+}
+
+export interface VaultRecoveryPolicy {
+  timelock: number; // relative lock in blocks (BIP68), from the UTXO's confirmation
+  signers: VaultSigner[]; // recovery keys, distinct from the primary signers
+  threshold?: number; // defaults to 1
+}
+
+export interface MultiSigVaultOptions {
+  type?: VaultScriptType;
+  threshold: number;
+  signers: VaultSigner[];
+  recovery?: VaultRecoveryPolicy;
+  network?: BitcoinNetwork; // defaults to the xpubs' network
+  name?: string;
+}
+
+export interface VaultAddress {
+  address: string;
+  scriptPubKey: string;
+  chain: number; // 0 receive, 1 change
+  index: number;
+  witnessScript?: string; // P2WSH only
+}
+
+export interface VaultUtxo {
+  txid: string;
+  vout: number;
+  value: number;
+  chain: number;
+  index: number;
+  confirmations: number;
+}
+
+export interface VaultSpendParams {
+  utxos: VaultUtxo[];
+  outputs: Array<{ address: string; value: number }>;
+  feeRate: number; // sat/vB
+  changeIndex: number;
+  path?: VaultSpendPath;
+  strategy?: CoinSelectionStrategy;
+  dustLimit?: number;
+}
+
+export interface VaultSpend {
+  psbt: string; // base64
+  path: VaultSpendPath;
+  inputs: VaultUtxo[];
+  fee: number;
+  vsize: number;
+  change: number;
+  changeAddress?: string;
+  warnings: string[];
+}
+
+export interface VaultInputStatus {
+  index: number;
+  outpoint: string;
+  path: VaultSpendPath;
+  required: number;
+  signedBy: string[];
+  missing: number;
+  canSign: string[]; // signers on this path who haven't signed yet
+}
+
+export interface VaultSigningStatus {
+  inputs: VaultInputStatus[];
+  missingSignatures: number;
+  pendingSigners: string[];
+  complete: boolean;
+}
+
+interface ResolvedSigner {
+  id: string;
+  key: ExtendedPublicKey;
+  encoded: string;
+  origin: KeyOrigin;
+}
+
+interface DerivedKey {
+  signer: ResolvedSigner;
+  pubkey: string; // compressed
+  xonly: string;
+  path: string; // full origin path, for PSBT derivation fields
+}
+
+interface TapLeaf {
+  script: string;
+  leafHash: string;
+  controlBlock: string;
+}
+
+interface DerivedPolicy {
+  chain: number;
+  index: number;
+  address: string;
+  scriptPubKey: string;
+  primaryKeys: DerivedKey[]; // script order
+  recoveryKeys: DerivedKey[];
+  witnessScript?: string;
+  leaves?: { primary: TapLeaf; recovery?: TapLeaf };
+  merkleRoot?: string;
+}
+
+// BIP341 NUMS point: the key path can't be spent, only the script leaves
+const NUMS_KEY = '50929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0';
+const TAPSCRIPT_LEAF_VERSION = 0xc0;
+const MAX_WSH_MULTI_KEYS = 20;
+const MAX_TAPSCRIPT_KEYS = 999;
+const MAX_CACHED_POLICIES = 1000;
+const RBF_SEQUENCE = 0xfffffffd;
+
+const OP_0 = 0x00;
+const OP_IFDUP = 0x73;
+const OP_NOTIF = 0x64;
+const OP_ENDIF = 0x68;
+const OP_NUMEQUAL = 0x9c;
+const OP_NUMEQUALVERIFY = 0x9d;
+const OP_CHECKSIG = 0xac;
+const OP_CHECKSIGADD = 0xba;
+const OP_CHECKMULTISIG = 0xae;
+const OP_CHECKMULTISIGVERIFY = 0xaf;
+const OP_CHECKSEQUENCEVERIFY = 0xb2;
+
+// Witness bytes of a signature push: a DER signature with sighash byte, or a Schnorr signature
+const ECDSA_SIG_ITEM = 1 + 72;
+const SCHNORR_SIG_ITEM = 1 + 64;
+
+export class MultiSigVault {
+  readonly type: VaultScriptType;
+  readonly threshold: number;
+  readonly network: BitcoinNetwork;
+  readonly name?: string;
+  private signers: ResolvedSigner[];
+  private recovery?: { timelock: number; threshold: number; signers: ResolvedSigner[] };
+  private policies: Map<string, DerivedPolicy> = new Map(); // chain/index -> policy
+
+  constructor(options: MultiSigVaultOptions) {
+    this.type = options.type ?? 'p2wsh';
+    this.name = options.name;
+    this.signers = options.signers.map(resolveSigner);
+    if (this.signers.length === 0) throw new Error('A vault needs at least one signer');
+    this.threshold = checkThreshold(options.threshold, this.signers.length, 'Vault');
+
+    if (options.recovery) {
+      const { timelock } = options.recovery;
+      if (!Number.isInteger(timelock) || timelock < 1 || timelock > 0xffff) {
+        throw new Error('Recovery timelock must be between 1 and 65535 blocks');
+      }
+      const signers = options.recovery.signers.map(resolveSigner);
+      if (signers.length === 0) throw new Error('The recovery path needs at least one signer');
+      this.recovery = { timelock, threshold: checkThreshold(options.recovery.threshold ?? 1, signers.length, 'Recovery'), signers };
+    }
+
+    const all = [...this.signers, ...(this.recovery?.signers ?? [])];
+    const keyNetwork = all[0].key.network;
+    if (all.some(signer => signer.key.network !== keyNetwork)) throw new Error('Signer xpubs are from different networks');
+    this.network = options.network ?? keyNetwork;
+    if ((this.network === 'mainnet') !== (keyNetwork === 'mainnet')) {
+      throw new Error(`Signer xpubs are ${keyNetwork} keys, not ${this.network}`);
+    }
+
+    const maxKeys = this.type === 'p2wsh' ? MAX_WSH_MULTI_KEYS : MAX_TAPSCRIPT_KEYS;
+    if (this.signers.length > maxKeys || (this.recovery?.signers.length ?? 0) > maxKeys) {
+      throw new Error(`${this.type.toUpperCase()} vaults support at most ${maxKeys} keys per path`);
+    }
+    // Miniscript forbids repeated keys, and a repeated id would make signing status ambiguous
+    if (new Set(all.map(signer => signer.encoded)).size !== all.length) throw new Error('Duplicate signer xpub');
+    if (new Set(all.map(signer => signer.id)).size !== all.length) {
+      throw new Error('Signers share a fingerprint; give them distinct labels');
+    }
+  }
+
+  /**
+   * Builds a vault from the wallet security multisig config: requiredSignatures of totalSigners,
+   * with its timelock (if any) on the recovery path
+   */
+  static fromMultiSigConfig(
+    config: MultiSigConfig,
+    signers: VaultSigner[],
+    options: Omit<MultiSigVaultOptions, 'threshold' | 'signers'> = {}
+  ): MultiSigVault {
+    if (signers.length !== config.totalSigners) {
+      throw new Error(`Multisig config expects ${config.totalSigners} signers, got ${signers.length}`);
+    }
+
+    let recovery = options.recovery;
+    if (config.timelock !== undefined) {
+      if (!recovery) throw new Error('Multisig config has a timelock; provide recovery signers for it');
+      recovery = { ...recovery, timelock: config.timelock };
+    }
+
+    return new MultiSigVault({ ...options, threshold: config.requiredSignatures, signers, recovery });
+  }
+
+  /**
+   * Builds a vault from the wallet security manager's default multisig config and records it
+   * in the security log. The recovery path only applies when that config has a timelock
+   */
+  static fromWalletSecurity(
+    security: Pick<WalletSecurityManager, 'getMultiSigVaultConfig' | 'logMultiSigVaultCreated'>,
+    signers: VaultSigner[],
+    options: Omit<MultiSigVaultOptions, 'threshold' | 'signers'> = {}
+  ): MultiSigVault {
+    const config = security.getMultiSigVaultConfig();
+    const vault = MultiSigVault.fromMultiSigConfig(config, signers, {
+      ...options,
+      recovery: config.timelock !== undefined ? options.recovery : undefined
+    });
+
+    security.logMultiSigVaultCreated({
+      type: vault.type,
+      threshold: vault.threshold,
+      signers: signers.length,
+      recoveryTimelock: vault.recoveryTimelock
+    });
+    return vault;
+  }
+
+  get recoveryTimelock(): number | undefined {
+    return this.recovery?.timelock;
+  }
+
+  /**
+   * Checksummed receive and change descriptors, importable by Bitcoin Core and most coordinators
+   */
+  getDescriptors(): { receive: string; change: string } {
+    return { receive: addDescriptorChecksum(this.descriptor(0)), change: addDescriptorChecksum(this.descriptor(1)) };
+  }
+
+  deriveAddress(index: number, change: boolean = false): VaultAddress {
+    const policy = this.policy(change ? 1 : 0, index);
+    return {
+      address: policy.address,
+      scriptPubKey: policy.scriptPubKey,
+      chain: policy.chain,
+      index: policy.index,
+      ...(policy.witnessScript ? { witnessScript: policy.witnessScript } : {})
+    };
+  }
+
+  deriveAddresses(count: number, start: number = 0, change: boolean = false): VaultAddress[] {
+    return Array.from({ length: count }, (_, i) => this.deriveAddress(start + i, change));
+  }
+
+  /**
+   * Unsigned spend PSBT with the scripts and key origins every signer needs. The recovery path
+   * only uses UTXOs whose confirmations have reached the timelock
+   */
+  buildSpend(params: VaultSpendParams): VaultSpend {
+    const path = params.path ?? 'primary';
+    if (path === 'recovery' && !this.recovery) throw new Error('This vault has no recovery path');
+    if (params.outputs.length === 0) throw new Error('A spend needs at least one output');
+
+    const warnings: string[] = [];
+    let candidates = params.utxos;
+    if (path === 'recovery') {
+      const timelock = this.recovery!.timelock;
+      candidates = params.utxos.filter(utxo => utxo.confirmations >= timelock);
+      const locked = params.utxos.length - candidates.length;
+      if (candidates.length === 0) {
+        throw new Error(`No UTXO has reached the ${timelock} block recovery timelock yet`);
+      }
+      if (locked > 0) warnings.push(`${locked} UTXO(s) are still timelocked and were left out`);
+    }
+
+    const outputs = params.outputs.map(output => {
+      if (!Number.isSafeInteger(output.value) || output.value <= 0) throw new Error(`Invalid amount for ${output.address}`);
+      return { value: output.value, script: addressValidator.addressToScriptPubKey(output.address, [this.network]) };
+    });
+
+    const witnessSize = this.witnessSize(path);
+    const spendType = this.type === 'p2wsh' ? 'P2WSH' : 'P2TR';
+    const selectable = candidates.map(utxo => ({
+      outpoint: `${utxo.txid}:${utxo.vout}`,
+      value: utxo.value,
+      address: this.policy(utxo.chain, utxo.index).address,
+      input: { type: spendType, witnessSize },
+      confirmed: utxo.confirmations > 0,
+      utxo
+    } as SelectableUtxo & { utxo: VaultUtxo }));
+
+    const selection = selectCoins(selectable, params.strategy ?? 'branch_and_bound', {
+      target: outputs.reduce((sum, output) => sum + output.value, 0),
+      feeRate: params.feeRate,
+      outputs: params.outputs.map(output => ({ type: outputType(output.address) })),
+      changeType: spendType,
+      dustLimit: params.dustLimit
+    });
+
+    const inputs = selection.inputs.map(selected => selected.utxo);
+    const sequence = path === 'recovery' ? this.recovery!.timelock : RBF_SEQUENCE;
+    const changePolicy = selection.change > 0 ? this.policy(1, params.changeIndex) : null;
+    if (changePolicy) outputs.push({ value: selection.change, script: changePolicy.scriptPubKey });
+
+    const psbt = createPsbt({
+      version: 2, // BIP68 relative locks need version 2
+      locktime: 0,
+      inputs: inputs.map(utxo => ({ txid: utxo.txid, vout: utxo.vout, sequence })),
+      outputs
+    });
+    psbt.inputs = inputs.map(utxo => this.inputFields(this.policy(utxo.chain, utxo.index), utxo.value, path));
+    if (changePolicy) psbt.outputs[psbt.outputs.length - 1] = this.changeFields(changePolicy);
+
+    return {
+      psbt: psbtToBase64(psbt),
+      path,
+      inputs,
+      fee: selection.fee,
+      vsize: selection.vsize,
+      change: selection.change,
+      ...(changePolicy ? { changeAddress: changePolicy.address } : {}),
+      warnings: [...warnings, ...selection.warnings]
+    };
+  }
+
+  /**
+   * Combines partially signed copies of a spend. Signatures from keys outside the input's spend
+   * path are rejected; signatures themselves are not verified here, the network does that
+   */
+  addSignatures(base: string, ...signed: string[]): string {
+    const combined = combinePsbts(psbtFromBase64(base), ...signed.map(psbtFromBase64));
+
+    combined.inputs.forEach((input, i) => {
+      const { policy, path } = this.inspectInput(combined, i);
+      const allowed = new Set(this.pathKeys(policy, path).map(key => (this.type === 'p2wsh' ? key.pubkey : key.xonly)));
+
+      if (input.tapKeySig) throw new Error(`Input ${i}: vault outputs have no key path; drop the key path signature`);
+      for (const sig of input.partialSigs ?? []) {
+        if (!allowed.has(sig.pubkey)) throw new Error(`Input ${i}: signature from ${sig.pubkey}, which can't sign the ${path} path`);
+      }
+      const leaf = policy.leaves && (path === 'primary' ? policy.leaves.primary : policy.leaves.recovery);
+      for (const sig of input.tapScriptSigs ?? []) {
+        if (!allowed.has(sig.pubkey) || sig.leafHash !== leaf?.leafHash) {
+          throw new Error(`Input ${i}: signature from ${sig.pubkey}, which can't sign the ${path} path`);
+        }
+      }
+    });
+
+    return psbtToBase64(combined);
+  }
+
+  getSigningStatus(psbtBase64: string): VaultSigningStatus {
+    const psbt = psbtFromBase64(psbtBase64);
+    const inputs = psbt.inputs.map((_, i) => this.inputStatus(psbt, i));
+    const pending = inputs.filter(input => input.missing > 0);
+
+    return {
+      inputs,
+      missingSignatures: pending.reduce((sum, input) => sum + input.missing, 0),
+      pendingSigners: [...new Set(pending.flatMap(input => input.canSign))],
+      complete: pending.length === 0
+    };
+  }
+
+  /**
+   * Builds the final witnesses and extracts the transaction; throws listing what's missing
+   */
+  finalize(psbtBase64: string): { txHex: string; txid: string } {
+    const status = this.getSigningStatus(psbtBase64);
+    if (!status.complete) {
+      const details = status.inputs
+        .filter(input => input.missing > 0)
+        .map(input => `input ${input.index} needs ${input.missing} more (${input.canSign.join(', ')} can sign)`);
+      throw new Error(`Vault spend is missing signatures: ${details.join('; ')}`);
+    }
+
+    let psbt = psbtFromBase64(psbtBase64);
+    psbt.inputs.forEach((input, i) => {
+      const { policy, path } = this.inspectInput(psbt, i);
+      psbt = setFinalScripts(psbt, i, { finalScriptWitness: this.witness(input, policy, path) });
+    });
+
+    return { txHex: extractTransaction(psbt), txid: transactionId(psbt.tx) };
+  }
+
+  private descriptor(chain: number): string {
+    const keys = (signers: ResolvedSigner[]) =>
+      signers.map(signer => formatKeyExpression(signer.encoded, signer.origin, `${chain}/*`)).join(',');
+    const primary = `${this.threshold},${keys(this.signers)}`;
+    const recovery = this.recovery
+      ? `and_v(v:${this.type === 'p2wsh' ? 'multi' : 'multi_a'}(${this.recovery.threshold},${keys(this.recovery.signers)}),older(${this.recovery.timelock}))`
+      : null;
+
+    if (this.type === 'p2wsh') {
+      // Miniscript has no sortedmulti, so keys stay in signer order once there is a recovery branch
+      return recovery ? `wsh(or_d(multi(${primary}),${recovery}))` : `wsh(sortedmulti(${primary}))`;
+    }
+    return recovery ? `tr(${NUMS_KEY},{sortedmulti_a(${primary}),${recovery}})` : `tr(${NUMS_KEY},sortedmulti_a(${primary}))`;
+  }
+
+  private policy(chain: number, index: number): DerivedPolicy {
+    if (chain !== 0 && chain !== 1) throw new Error(`Unknown chain ${chain}; use 0 (receive) or 1 (change)`);
+    const cacheKey = `${chain}/${index}`;
+    const cached = this.policies.get(cacheKey);
+    if (cached) return cached;
+
+    const derive = (signer: ResolvedSigner): DerivedKey => {
+      const pubkey = bytesToHex(derivePath(signer.key, [chain, index]).publicKey);
+      return {
+        signer,
+        pubkey,
+        xonly: pubkey.slice(2),
+        path: formatDerivationPath([...parseDerivationPath(signer.origin.path), chain, index])
+      };
+    };
+    let primaryKeys = this.signers.map(derive);
+    const recoveryKeys = (this.recovery?.signers ?? []).map(derive);
+
+    let policy: DerivedPolicy;
+    if (this.type === 'p2wsh') {
+      if (!this.recovery) primaryKeys = [...primaryKeys].sort((a, b) => a.pubkey.localeCompare(b.pubkey)); // BIP67
+      const witnessScript = bytesToHex(this.recovery
+        ? concatBytes(
+          multisigScript(this.threshold, primaryKeys, OP_CHECKMULTISIG),
+          [OP_IFDUP, OP_NOTIF],
+          multisigScript(this.recovery.threshold, recoveryKeys, OP_CHECKMULTISIGVERIFY),
+          pushNumber(this.recovery.timelock),
+          [OP_CHECKSEQUENCEVERIFY, OP_ENDIF]
+        )
+        : multisigScript(this.threshold, primaryKeys, OP_CHECKMULTISIG));
+      const scriptPubKey = bytesToHex(concatBytes([OP_0, 0x20], sha256(hexToBytes(witnessScript))));
+      policy = { chain, index, scriptPubKey, address: '', primaryKeys, recoveryKeys, witnessScript };
+    } else {
+      primaryKeys = [...primaryKeys].sort((a, b) => a.xonly.localeCompare(b.xonly));
+      const primaryScript = bytesToHex(multiAScript(this.threshold, primaryKeys, OP_NUMEQUAL));
+      const recoveryScript = this.recovery
+        ? bytesToHex(concatBytes(
+          multiAScript(this.recovery.threshold, recoveryKeys, OP_NUMEQUALVERIFY),
+          pushNumber(this.recovery.timelock),
+          [OP_CHECKSEQUENCEVERIFY]
+        ))
+        : null;
+
+      const primaryHash = leafHash(primaryScript);
+      const recoveryHash = recoveryScript ? leafHash(recoveryScript) : null;
+      const merkleRoot = recoveryHash ? branchHash(primaryHash, recoveryHash) : primaryHash;
+      const { outputKey, parity } = tweakTaprootKey(hexToBytes(NUMS_KEY), merkleRoot);
+      const controlBlock = (sibling: Uint8Array | null) =>
+        bytesToHex(concatBytes([TAPSCRIPT_LEAF_VERSION | parity], hexToBytes(NUMS_KEY), sibling ?? []));
+
+      policy = {
+        chain,
+        index,
+        scriptPubKey: bytesToHex(concatBytes([0x51, 0x20], outputKey)),
+        address: '',
+        primaryKeys,
+        recoveryKeys,
+        leaves: {
+          primary: { script: primaryScript, leafHash: bytesToHex(primaryHash), controlBlock: controlBlock(recoveryHash) },
+          ...(recoveryScript
+            ? { recovery: { script: recoveryScript, leafHash: bytesToHex(recoveryHash!), controlBlock: controlBlock(primaryHash) } }
+            : {})
+        },
+        merkleRoot: bytesToHex(merkleRoot)
+      };
+    }
+    policy.address = addressValidator.scriptPubKeyToAddress(policy.scriptPubKey, this.network);
+
+    if (this.policies.size >= MAX_CACHED_POLICIES) this.policies.clear();
+    this.policies.set(cacheKey, policy);
+    return policy;
+  }
+
+  private pathKeys(policy: DerivedPolicy, path: VaultSpendPath): DerivedKey[] {
+    return path === 'primary' ? policy.primaryKeys : policy.recoveryKeys;
+  }
+
+  private pathThreshold(path: VaultSpendPath): number {
+    return path === 'primary' ? this.threshold : this.recovery!.threshold;
+  }
+
+  // Serialized witness of a fully signed input, for fee estimation
+  private witnessSize(path: VaultSpendPath): number {
+    const policy = this.policy(0, 0); // script sizes don't depend on the index
+    const required = this.pathThreshold(path);
+
+    if (this.type === 'p2wsh') {
+      const script = item(hexToBytes(policy.witnessScript!).length);
+      return path === 'primary'
+        ? 1 + 1 + required * ECDSA_SIG_ITEM + script
+        : 1 + 1 + required * ECDSA_SIG_ITEM + 1 + this.threshold + script;
+    }
+
+    const leaf = path === 'primary' ? policy.leaves!.primary : policy.leaves!.recovery!;
+    const keys = this.pathKeys(policy, path).length;
+    return 1 + required * SCHNORR_SIG_ITEM + (keys - required)
+      + item(hexToBytes(leaf.script).length) + item(hexToBytes(leaf.controlBlock).length);
+  }
+
+  private inputFields(policy: DerivedPolicy, value: number, path: VaultSpendPath): PsbtInput {
+    const witnessUtxo = { value, script: policy.scriptPubKey };
+    const keys = this.pathKeys(policy, path);
+
+    if (this.type === 'p2wsh') {
+      return {
+        witnessUtxo,
+        witnessScript: policy.witnessScript,
+        bip32Derivation: keys.map(key => ({ pubkey: key.pubkey, fingerprint: key.signer.origin.fingerprint, path: key.path }))
+      };
+    }
+
+    const leaf = path === 'primary' ? policy.leaves!.primary : policy.leaves!.recovery!;
+    return {
+      witnessUtxo,
+      tapLeafScripts: [{ controlBlock: leaf.controlBlock, script: leaf.script, leafVersion: TAPSCRIPT_LEAF_VERSION }],
+      tapBip32Derivation: keys.map(key => ({
+        pubkey: key.xonly,
+        leafHashes: [leaf.leafHash],
+        fingerprint: key.signer.origin.fingerprint,
+        path: key.path
+      })),
+      tapInternalKey: NUMS_KEY,
+      tapMerkleRoot: policy.merkleRoot
+    };
+  }
+
+  // Lets signers recognize the change output as the vault's own
+  private changeFields(policy: DerivedPolicy): Psbt['outputs'][number] {
+    const keys = [...policy.primaryKeys, ...policy.recoveryKeys];
+    if (this.type === 'p2wsh') {
+      return {
+        witnessScript: policy.witnessScript,
+        bip32Derivation: keys.map(key => ({ pubkey: key.pubkey, fingerprint: key.signer.origin.fingerprint, path: key.path }))
+      };
+    }
+
+    const { primary, recovery } = policy.leaves!;
+    return {
+      tapInternalKey: NUMS_KEY,
+      tapTree: [primary, ...(recovery ? [recovery] : [])].map(leaf => ({
+        depth: recovery ? 1 : 0,
+        leafVersion: TAPSCRIPT_LEAF_VERSION,
+        script: leaf.script
+      })),
+      tapBip32Derivation: keys.map(key => ({
+        pubkey: key.xonly,
+        leafHashes: [policy.primaryKeys.includes(key) ? primary.leafHash : recovery!.leafHash],
+        fingerprint: key.signer.origin.fingerprint,
+        path: key.path
+      }))
+    };
+  }
+
+  /**
+   * Recovers an input's address index from its key origins and its spend path from the
+   * sequence, then checks both against the UTXO script
+   */
+  private inspectInput(psbt: Psbt, index: number): { policy: DerivedPolicy; path: VaultSpendPath } {
+    const input = psbt.inputs[index];
+    if (!input.witnessUtxo) throw new Error(`Input ${index} is missing its witness UTXO`);
+
+    const derivations = [...(input.bip32Derivation ?? []), ...(input.tapBip32Derivation ?? [])];
+    const signers = [...this.signers, ...(this.recovery?.signers ?? [])];
+    let location: number[] | null = null;
+    for (const derivation of derivations) {
+      const path = parseDerivationPath(derivation.path);
+      const signer = signers.find(candidate => candidate.origin.fingerprint === derivation.fingerprint.toLowerCase()
+        && formatDerivationPath(path.slice(0, -2)) === candidate.origin.path);
+      if (signer && path.length >= 2) {
+        location = path.slice(-2);
+        break;
+      }
+    }
+    if (!location) throw new Error(`Input ${index} has no key origin from this vault`);
+
+    const policy = this.policy(location[0], location[1]);
+    if (policy.scriptPubKey !== input.witnessUtxo.script) {
+      throw new Error(`Input ${index} does not pay to vault address ${location.join('/')}`);
+    }
+
+    const sequence = psbt.tx.inputs[index].sequence;
+    const path: VaultSpendPath = this.recovery && sequence === this.recovery.timelock ? 'recovery' : 'primary';
+    if (path === 'recovery' && psbt.tx.version < 2) throw new Error(`Input ${index}: recovery spends need transaction version 2`);
+    return { policy, path };
+  }
+
+  private inputStatus(psbt: Psbt, index: number): VaultInputStatus {
+    const input = psbt.inputs[index];
+    const { txid, vout } = psbt.tx.inputs[index];
+    const { policy, path } = this.inspectInput(psbt, index);
+    const keys = this.pathKeys(policy, path);
+    const signatures = this.signatures(input, policy, path);
+    const required = this.pathThreshold(path);
+    const signedBy = keys.filter(key => signatures.has(key.pubkey)).map(key => key.signer.id);
+    const missing = input.finalScriptWitness ? 0 : Math.max(0, required - signedBy.length);
+
+    return {
+      index,
+      outpoint: `${txid}:${vout}`,
+      path,
+      required,
+      signedBy,
+      missing,
+      canSign: missing > 0 ? keys.filter(key => !signatures.has(key.pubkey)).map(key => key.signer.id) : []
+    };
+  }
+
+  // Signatures on the input's path, by compressed pubkey
+  private signatures(input: PsbtInput, policy: DerivedPolicy, path: VaultSpendPath): Map<string, string> {
+    const keys = this.pathKeys(policy, path);
+    const result = new Map<string, string>();
+
+    if (this.type === 'p2wsh') {
+      for (const sig of input.partialSigs ?? []) {
+        if (keys.some(key => key.pubkey === sig.pubkey)) result.set(sig.pubkey, sig.signature);
+      }
+      return result;
+    }
+
+    const leaf = path === 'primary' ? policy.leaves!.primary : policy.leaves!.recovery!;
+    for (const sig of input.tapScriptSigs ?? []) {
+      const key = keys.find(candidate => candidate.xonly === sig.pubkey);
+      if (key && sig.leafHash === leaf.leafHash) result.set(key.pubkey, sig.signature);
+    }
+    return result;
+  }
+
+  private witness(input: PsbtInput, policy: DerivedPolicy, path: VaultSpendPath): string[] {
+    const keys = this.pathKeys(policy, path);
+    const signatures = this.signatures(input, policy, path);
+    const required = this.pathThreshold(path);
+    // Exactly `required` signatures: CHECKMULTISIG ignores extras but NUMEQUAL would fail on them
+    const signing = new Set(keys.filter(key => signatures.has(key.pubkey)).slice(0, required));
+
+    if (this.type === 'p2wsh') {
+      const sigs = keys.filter(key => signing.has(key)).map(key => signatures.get(key.pubkey)!);
+      return path === 'primary'
+        ? ['', ...sigs, policy.witnessScript!]
+        : ['', ...sigs, '', ...Array(this.threshold).fill(''), policy.witnessScript!];
+    }
+
+    // The first key is checked first, so its signature sits on top of the stack
+    const leaf = path === 'primary' ? policy.leaves!.primary : policy.leaves!.recovery!;
+    const sigs = keys.map(key => (signing.has(key) ? signatures.get(key.pubkey)! : '')).reverse();
+    return [...sigs, leaf.script, leaf.controlBlock];
+  }
+}
+
+function resolveSigner(signer: VaultSigner): ResolvedSigner {
+  const key = parseExtendedPublicKey(signer.xpub);
+  let origin: KeyOrigin;
+
+  if (signer.fingerprint) {
+    if (!/^[0-9a-fA-F]{8}$/.test(signer.fingerprint)) throw new Error(`Invalid master fingerprint '${signer.fingerprint}'`);
+    const path = parseDerivationPath(signer.path ?? 'm');
+    if (path.length !== key.depth) {
+      throw new Error(`Origin path ${signer.path ?? 'm'} doesn't match the xpub depth ${key.depth}`);
+    }
+    origin = { fingerprint: signer.fingerprint.toLowerCase(), path: formatDerivationPath(path) };
+  } else if (key.depth === 0) {
+    origin = { fingerprint: keyFingerprint(key.publicKey), path: 'm' };
+  } else {
+    throw new Error('Signer xpub needs its master fingerprint and origin path so signers can recognize it');
+  }
+
+  return { id: signer.label ?? origin.fingerprint, key, encoded: serializeExtendedPublicKey(key), origin };
+}
+
+function checkThreshold(threshold: number, signers: number, label: string): number {
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > signers) {
+    throw new Error(`${label} threshold must be between 1 and ${signers}`);
+  }
+  return threshold;
+}
+
+function multisigScript(threshold: number, keys: DerivedKey[], checkOp: number): Uint8Array {
+  return concatBytes(
+    pushNumber(threshold),
+    ...keys.map(key => pushData(hexToBytes(key.pubkey))),
+    pushNumber(keys.length),
+    [checkOp]
+  );
+}
+
+function multiAScript(threshold: number, keys: DerivedKey[], equalOp: number): Uint8Array {
+  return concatBytes(
+    ...keys.map((key, i) => concatBytes(pushData(hexToBytes(key.xonly)), [i === 0 ? OP_CHECKSIG : OP_CHECKSIGADD])),
+    pushNumber(threshold),
+    [equalOp]
+  );
+}
+
+function leafHash(script: string): Uint8Array {
+  const bytes = hexToBytes(script);
+  return taggedHash('TapLeaf', Uint8Array.from([TAPSCRIPT_LEAF_VERSION]), compactSize(bytes.length), bytes);
+}
+
+function branchHash(a: Uint8Array, b: Uint8Array): Uint8Array {
+  return bytesToHex(a) < bytesToHex(b) ? taggedHash('TapBranch', a, b) : taggedHash('TapBranch', b, a);
+}
+
+function pushNumber(value: number): Uint8Array {
+  if (value === 0) return Uint8Array.from([OP_0]);
+  if (value >= 1 && value <= 16) return Uint8Array.from([0x50 + value]);
+
+  // Minimal little-endian script number; positive values only
+  const bytes: number[] = [];
+  for (let v = value; v > 0; v = Math.floor(v / 256)) bytes.push(v & 0xff);
+  if (bytes[bytes.length - 1] & 0x80) bytes.push(0);
+  return pushData(Uint8Array.from(bytes));
+}
+
+function pushData(data: Uint8Array): Uint8Array {
+  if (data.length < 0x4c) return concatBytes([data.length], data);
+  if (data.length <= 0xff) return concatBytes([0x4c, data.length], data);
+  return concatBytes([0x4d, data.length & 0xff, data.length >> 8], data);
+}
+
+function compactSize(value: number): Uint8Array {
+  if (value < 0xfd) return Uint8Array.from([value]);
+  return Uint8Array.from([0xfd, value & 0xff, value >> 8]);
+}
+
+// Witness item with its length prefix
+function item(length: number): number {
+  return compactSize(length).length + length;
+}
+
+function outputType(address: string): OutputScriptType {
+  const type = addressValidator.getScriptType(addressValidator.addressToScriptPubKey(address));
+  if (type === AddressType.P2PKH || type === AddressType.P2SH || type === AddressType.P2WPKH
+      || type === AddressType.P2WSH || type === AddressType.P2TR) {
+    return type;
+  }
+  throw new Error(`Unsupported output address ${address}`);
+}
@@ -0,0 +1,601 @@
+/**
+ * Inscription-aware UTXO Manager
+ * Tags every UTXO as cardinal, inscription-, rune- or rare-sat-bearing, keeps protected UTXOs out of
+ * coin selection and plans transactions that split padding sats off inscription outputs
+ */
+
+import { logger } from '@/lib/logger';
+import { hiroAPI } from '@/lib/hiro-api';
+import { AddressType, addressValidator } from '@/lib/addressValidation';
+import { type Rarity, type SatRange, findRareSatsInUTXO } from '@/lib/rareSats';
+import { createPsbt, psbtToBase64 } from '@/lib/psbt';
+import { type MempoolService, type UTXO, mempoolService } from '@/services/MempoolService';
+import { type InputScriptType, type OutputScriptType, estimateTxVsize } from '@/services/fees/BitcoinFeeEstimator';
+import { locateSat } from '@/lib/ordinals/satTransfer';
+import {
+  type CoinSelectionParams,
+  type CoinSelectionResult,
+  type CoinSelectionStrategy,
+  type SelectableUtxo,
+  selectCoins
+} from './CoinSelection';
+
+export type UtxoTag = 'cardinal' | 'inscription' | 'rune' | 'rare_sat' | 'unverified';
+
+export interface UtxoInscription {
+  id: string;
+  offset: number; // sat offset inside the output
+}
+
+export interface UtxoRune {
+  rune: string;
+  amount: string;
+}
+
+export interface UtxoRareSat {
+  name: string;
+  rarity: Rarity;
+  categories: string[];
+  offset: number;
+}
+
+export interface UtxoSatribute {
+  category: string;
+  offset: number;
+  length: number;
+}
+
+export interface ManagedUtxo extends SelectableUtxo {
+  txid: string;
+  vout: number;
+  scriptPubKey: string;
+  blockHeight?: number;
+  tags: UtxoTag[];
+  inscriptions: UtxoInscription[];
+  runes: UtxoRune[];
+  rareSats: UtxoRareSat[];
+  satributes: UtxoSatribute[];
+  satRangesChecked: boolean; // false when no sat range index was available
+  locked: boolean;
+  lockReason?: string;
+}
+
+/**
+ * Where inscription, rune and sat range data comes from; lookups that throw leave the
+ * address's UTXOs unverified (and locked) rather than assuming they are cardinal
+ */
+export interface UtxoDataSource {
+  getInscriptions(address: string): Promise<Array<{ id: string; output: string; offset: number }>>;
+  getRuneOutputs(address: string): Promise<Array<{ output: string; rune: string; amount: string }>>;
+  getSatRanges?(output: string): Promise<SatRange[] | null>;
+}
+
+export interface UtxoBalance {
+  total: number;
+  spendable: number;
+  protected: number; // inscription, rune, rare sat and unverified UTXOs
+  locked: number; // manually locked cardinal UTXOs (e.g. reserved by a pending transaction)
+  unconfirmed: number;
+}
+
+export interface UtxoSelectionParams extends CoinSelectionParams {
+  strategy?: CoinSelectionStrategy;
+  addresses?: string[];
+  includeUnconfirmed?: boolean;
+}
+
+export interface PaddingSplitParams {
+  feeRate: number;
+  postage?: number; // sats kept with each protected output
+  ordinalsAddress?: string; // receives the protected outputs, defaults to the UTXO's address
+  paddingAddress?: string; // receives the freed padding, defaults to the UTXO's address
+  fundingUtxos?: ManagedUtxo[]; // cardinal UTXOs used when the padding can't pay the fee
+}
+
+export interface PaddingSplitOutput {
+  kind: 'protected' | 'padding' | 'change';
+  address: string;
+  value: number;
+  inscriptions: UtxoInscription[]; // with offsets inside this output
+}
+
+export interface PaddingSplitPlan {
+  psbt: string; // base64, for the wallet or an offline signer
+  inputs: ManagedUtxo[];
+  outputs: PaddingSplitOutput[];
+  fee: number;
+  vsize: number;
+  freedPadding: number;
+}
+
+export interface UtxoManagerOptions {
+  failClosed?: boolean; // lock UTXOs whose inscription/rune lookup failed, default true
+  dustLimit?: number;
+  postage?: number;
+}
+
+interface ProtectedRegion {
+  start: number;
+  end: number; // exclusive
+}
+
+export class UtxoManager {
+  private service: MempoolService;
+  private dataSource: UtxoDataSource;
+  private failClosed: boolean;
+  private dustLimit: number;
+  private postage: number;
+  private utxos: Map<string, ManagedUtxo> = new Map(); // outpoint -> utxo
+  private manualLocks: Map<string, string> = new Map(); // outpoint -> reason
+  private overrides: Set<string> = new Set(); // protected outpoints released for an intentional spend
+
+  constructor(
+    service: MempoolService = mempoolService,
+    dataSource: UtxoDataSource = new HiroUtxoDataSource(),
+    options: UtxoManagerOptions = {}
+  ) {
+    this.service = service;
+    this.dataSource = dataSource;
+    this.failClosed = options.failClosed ?? true;
+    this.dustLimit = options.dustLimit ?? 546;
+    this.postage = options.postage ?? 546;
+  }
+
+  /**
+   * Reload an address's UTXOs and tag them. Manual locks and overrides survive the refresh
+   */
+  async refresh(address: string): Promise<ManagedUtxo[]> {
+    const scriptPubKey = addressValidator.addressToScriptPubKey(address);
+    const [utxos, inscriptions, runes] = await Promise.all([
+      this.service.getAddressUTXOs(address),
+      this.dataSource.getInscriptions(address).catch(error => {
+        logger.warn(`Inscription lookup failed for ${address}`, error);
+        return null;
+      }),
+      this.dataSource.getRuneOutputs(address).catch(error => {
+        logger.warn(`Rune lookup failed for ${address}`, error);
+        return null;
+      })
+    ]);
+
+    const satRanges = await Promise.all(utxos.map(utxo => this.lookupSatRanges(`${utxo.txid}:${utxo.vout}`)));
+
+    for (const [outpoint, existing] of this.utxos) {
+      if (existing.address === address) this.utxos.delete(outpoint);
+    }
+
+    const managed = utxos.map((utxo, i) => this.classify(utxo, address, scriptPubKey, {
+      inscriptions,
+      runes,
+      satRanges: satRanges[i]
+    }));
+    for (const utxo of managed) this.utxos.set(utxo.outpoint, utxo);
+
+    const protectedCount = managed.filter(utxo => !this.isCardinal(utxo)).length;
+    if (protectedCount > 0) {
+      logger.info(`${protectedCount} of ${managed.length} UTXOs at ${address} are protected from coin selection`);
+    }
+
+    return managed;
+  }
+
+  getUtxos(address?: string): ManagedUtxo[] {
+    return Array.from(this.utxos.values()).filter(utxo => !address || utxo.address === address);
+  }
+
+  getUtxo(outpoint: string): ManagedUtxo | undefined {
+    return this.utxos.get(outpoint);
+  }
+
+  getSpendable(address?: string): ManagedUtxo[] {
+    return this.getUtxos(address).filter(utxo => !utxo.locked);
+  }
+
+  getProtected(address?: string): ManagedUtxo[] {
+    return this.getUtxos(address).filter(utxo => !this.isCardinal(utxo));
+  }
+
+  getBalance(address?: string): UtxoBalance {
+    const balance: UtxoBalance = { total: 0, spendable: 0, protected: 0, locked: 0, unconfirmed: 0 };
+
+    for (const utxo of this.getUtxos(address)) {
+      balance.total += utxo.value;
+      if (!utxo.confirmed) balance.unconfirmed += utxo.value;
+      if (!utxo.locked) balance.spendable += utxo.value;
+      else if (!this.isCardinal(utxo)) balance.protected += utxo.value;
+      else balance.locked += utxo.value;
+    }
+
+    return balance;
+  }
+
+  /**
+   * Keep a UTXO out of coin selection, e.g. while a transaction spending it is pending
+   */
+  lock(outpoint: string, reason: string = 'Locked manually'): void {
+    this.manualLocks.set(outpoint, reason);
+    this.overrides.delete(outpoint);
+    this.applyLock(outpoint);
+  }
+
+  /**
+   * Protected UTXOs stay locked unless `force` is set, which releases them for one intentional
+   * spend (selling or sending the inscription) until they are locked again
+   */
+  unlock(outpoint: string, force: boolean = false): void {
+    const utxo = this.utxos.get(outpoint);
+    if (utxo && !this.isCardinal(utxo) && !force) {
+      throw new Error(`UTXO ${outpoint} carries ${describeContents(utxo)}; pass force to unlock it`);
+    }
+
+    this.manualLocks.delete(outpoint);
+    if (utxo && !this.isCardinal(utxo)) {
+      this.overrides.add(outpoint);
+      logger.warn(`Protected UTXO ${outpoint} unlocked for spending (${describeContents(utxo)})`);
+    }
+    this.applyLock(outpoint);
+  }
+
+  isSpendable(outpoint: string): boolean {
+    const utxo = this.utxos.get(outpoint);
+    return !!utxo && !utxo.locked;
+  }
+
+  /**
+   * Guard for transaction builders: throws if any outpoint is locked or unknown
+   */
+  assertSpendable(outpoints: string[]): void {
+    for (const outpoint of outpoints) {
+      const utxo = this.utxos.get(outpoint);
+      if (!utxo) throw new Error(`Unknown UTXO ${outpoint}; refresh the wallet first`);
+      if (utxo.locked) throw new Error(`UTXO ${outpoint} is locked: ${utxo.lockReason}`);
+    }
+  }
+
+  selectCoins(params: UtxoSelectionParams): CoinSelectionResult<ManagedUtxo> {
+    const candidates = this.getSpendable().filter(utxo =>
+      (!params.addresses || params.addresses.includes(utxo.address))
+      && (params.includeUnconfirmed || utxo.confirmed)
+    );
+    return selectCoins(candidates, params.strategy ?? 'branch_and_bound', {
+      dustLimit: this.dustLimit,
+      ...params
+    });
+  }
+
+  /**
+   * Splits the padding sats around an inscription (or rare sat) into cardinal outputs. Each
+   * protected region keeps at least `postage` sats; the fee comes from the trailing padding or,
+   * when that is too small, from funding UTXOs spent after the protected input
+   */
+  planPaddingSplit(outpoint: string, params: PaddingSplitParams): PaddingSplitPlan {
+    const utxo = this.utxos.get(outpoint);
+    if (!utxo) throw new Error(`Unknown UTXO ${outpoint}; refresh the wallet first`);
+    if (utxo.tags.includes('unverified')) throw new Error(`UTXO ${outpoint} has not been verified`);
+    // Without a runestone, runes move to the first non-OP_RETURN output, which may be padding
+    if (utxo.runes.length > 0) throw new Error(`UTXO ${outpoint} carries runes; splitting would move them`);
+    if (!(params.feeRate > 0)) throw new Error('Fee rate must be positive');
+
+    const regions = protectedRegions(utxo);
+    if (regions.length === 0) throw new Error(`UTXO ${outpoint} has nothing to protect; spend it normally`);
+
+    const postage = params.postage ?? this.postage;
+    const ordinalsAddress = params.ordinalsAddress ?? utxo.address;
+    const paddingAddress = params.paddingAddress ?? utxo.address;
+    const outputs: PaddingSplitOutput[] = [];
+    const outputRegions: Array<ProtectedRegion | null> = [];
+    let cursor = 0;
+
+    for (const region of groupRegions(regions, postage, this.dustLimit, utxo.value)) {
+      let start = region.start;
+      if (start - cursor >= this.dustLimit) {
+        outputs.push({ kind: 'padding', address: paddingAddress, value: start - cursor, inscriptions: [] });
+        outputRegions.push(null);
+      } else {
+        start = cursor; // too little to stand alone, so it stays with the protected sats
+      }
+      outputs.push({
+        kind: 'protected',
+        address: ordinalsAddress,
+        value: region.end - start,
+        inscriptions: utxo.inscriptions
+          .filter(inscription => inscription.offset >= start && inscription.offset < region.end)
+          .map(inscription => ({ id: inscription.id, offset: inscription.offset - start }))
+      });
+      outputRegions.push({ start, end: region.end });
+      cursor = region.end;
+    }
+
+    const inputs: ManagedUtxo[] = [utxo];
+    const tail = utxo.value - cursor;
+    const funding = [...(params.fundingUtxos ?? [])]
+      .filter(candidate => candidate.outpoint !== outpoint)
+      .sort((a, b) => a.value - b.value);
+
+    for (const candidate of funding) {
+      if (candidate.locked || !this.isCardinal(candidate)) {
+        throw new Error(`Funding UTXO ${candidate.outpoint} is not spendable`);
+      }
+    }
+
+    let fee = 0;
+    let vsize = 0;
+    for (;;) {
+      const available = tail + inputs.slice(1).reduce((sum, input) => sum + input.value, 0);
+      const specs = inputs.map(input => ({ type: spendType(input.scriptPubKey) }));
+      const outputSpecs = outputs.map(output => ({ type: outputType(output.address) }));
+      const kind: PaddingSplitOutput['kind'] = inputs.length > 1 ? 'change' : 'padding';
+
+      vsize = estimateTxVsize(specs, [...outputSpecs, { type: outputType(paddingAddress) }]);
+      fee = Math.ceil(vsize * params.feeRate);
+      if (available - fee >= this.dustLimit) {
+        outputs.push({ kind, address: paddingAddress, value: available - fee, inscriptions: [] });
+        break;
+      }
+
+      vsize = estimateTxVsize(specs, outputSpecs);
+      fee = Math.ceil(vsize * params.feeRate);
+      if (available >= fee) {
+        fee = available; // leftover below dust goes to the miner
+        break;
+      }
+
+      const next = funding.shift();
+      if (!next) {
+        throw new Error(`Padding of ${tail} sats can't pay the ${fee} sat fee; provide funding UTXOs`);
+      }
+      inputs.push(next);
+    }
+
+    const freedPadding = outputs.filter(output => output.kind === 'padding').reduce((sum, o) => sum + o.value, 0);
+    if (freedPadding === 0) {
+      throw new Error(`UTXO ${outpoint} has no padding above dust to split off`);
+    }
+
+    // Every protected sat must land in a protected output, never in padding or fees
+    const inputValues = inputs.map(input => input.value);
+    const outputValues = outputs.map(output => output.value);
+    for (const region of regions) {
+      for (const offset of [region.start, region.end - 1]) {
+        const location = locateSat(inputValues, outputValues, 0, offset);
+        if (!location || outputs[location.outputIndex].kind !== 'protected') {
+          throw new Error(`Split would move the protected sat at offset ${offset} out of its output`);
+        }
+      }
+    }
+
+    const psbt = createPsbt({
+      version: 2,
+      locktime: 0,
+      inputs: inputs.map(input => ({ txid: input.txid, vout: input.vout, sequence: 0xfffffffd })),
+      outputs: outputs.map(output => ({
+        value: output.value,
+        script: addressValidator.addressToScriptPubKey(output.address)
+      }))
+    });
+    psbt.inputs = inputs.map(input => ({ witnessUtxo: { value: input.value, script: input.scriptPubKey } }));
+
+    return { psbt: psbtToBase64(psbt), inputs, outputs, fee, vsize, freedPadding };
+  }
+
+  private classify(
+    utxo: UTXO,
+    address: string,
+    scriptPubKey: string,
+    data: {
+      inscriptions: Array<{ id: string; output: string; offset: number }> | null;
+      runes: Array<{ output: string; rune: string; amount: string }> | null;
+      satRanges: SatRange[] | null;
+    }
+  ): ManagedUtxo {
+    const outpoint = `${utxo.txid}:${utxo.vout}`;
+    const tags: UtxoTag[] = [];
+
+    const inscriptions = (data.inscriptions ?? [])
+      .filter(inscription => inscription.output === outpoint)
+      .map(inscription => ({ id: inscription.id, offset: inscription.offset }))
+      .sort((a, b) => a.offset - b.offset);
+    const runes = (data.runes ?? [])
+      .filter(rune => rune.output === outpoint)
+      .map(rune => ({ rune: rune.rune, amount: rune.amount }));
+
+    let rareSats: UtxoRareSat[] = [];
+    let satributes: UtxoSatribute[] = [];
+    if (data.satRanges) {
+      const found = findRareSatsInUTXO({ satRanges: data.satRanges });
+      rareSats = found.sats.map(sat => ({
+        name: sat.name,
+        rarity: sat.rarity,
+        categories: sat.categories.map(category => category.name),
+        offset: Number(sat.offset)
+      }));
+      satributes = found.ranges.map(range => ({
+        category: range.category.name,
+        offset: Number(range.offset),
+        length: Number(range.end - range.start)
+      }));
+    }
+
+    if (inscriptions.length > 0) tags.push('inscription');
+    if (runes.length > 0) tags.push('rune');
+    if (rareSats.length > 0 || satributes.length > 0) tags.push('rare_sat');
+    if ((data.inscriptions === null || data.runes === null) && this.failClosed) tags.push('unverified');
+    if (tags.length === 0) tags.push('cardinal');
+
+    const managed: ManagedUtxo = {
+      outpoint,
+      txid: utxo.txid,
+      vout: utxo.vout,
+      value: utxo.value,
+      address,
+      scriptPubKey,
+      input: { type: spendType(scriptPubKey) },
+      confirmed: utxo.status.confirmed,
+      blockHeight: utxo.status.block_height,
+      tags,
+      inscriptions,
+      runes,
+      rareSats,
+      satributes,
+      satRangesChecked: data.satRanges !== null,
+      locked: false
+    };
+    return this.withLock(managed);
+  }
+
+  private async lookupSatRanges(output: string): Promise<SatRange[] | null> {
+    if (!this.dataSource.getSatRanges) return null;
+    try {
+      return await this.dataSource.getSatRanges(output);
+    } catch (error) {
+      logger.warn(`Sat range lookup failed for ${output}`, error);
+      return null;
+    }
+  }
+
+  private applyLock(outpoint: string): void {
+    const utxo = this.utxos.get(outpoint);
+    if (utxo) this.utxos.set(outpoint, this.withLock(utxo));
+  }
+
+  private withLock(utxo: ManagedUtxo): ManagedUtxo {
+    const manual = this.manualLocks.get(utxo.outpoint);
+    if (manual) return { ...utxo, locked: true, lockReason: manual };
+    if (!this.isCardinal(utxo) && !this.overrides.has(utxo.outpoint)) {
+      return { ...utxo, locked: true, lockReason: `Carries ${describeContents(utxo)}` };
+    }
+    return { ...utxo, locked: false, lockReason: undefined };
+  }
+
+  private isCardinal(utxo: ManagedUtxo): boolean {
+    return utxo.tags.length === 1 && utxo.tags[0] === 'cardinal';
+  }
+}
+
+/**
+ * Inscriptions and runes from the Hiro Ordinals and Runes APIs; sat ranges from an ord server
+ * started with --index-sats, when one is configured
+ */
+export class HiroUtxoDataSource implements UtxoDataSource {
+  private static readonly PAGE_SIZE = 60;
+  private static readonly MAX_PAGES = 50;
+
+  constructor(private ordServerUrl?: string) {}
+
+  async getInscriptions(address: string): Promise<Array<{ id: string; output: string; offset: number }>> {
+    const results = await this.paginate(offset => hiroAPI.makeRequest(
+      '/ordinals/v1/inscriptions',
+      { address, offset, limit: HiroUtxoDataSource.PAGE_SIZE },
+      { useCache: false }
+    ));
+    return results.map((inscription: any) => ({
+      id: inscription.id,
+      output: inscription.output,
+      offset: Number(inscription.offset ?? 0)
+    }));
+  }
+
+  /**
+   * Rune receipts at outputs; callers match them against the current UTXO set, so receipts
+   * at outputs that were spent since are ignored
+   */
+  async getRuneOutputs(address: string): Promise<Array<{ output: string; rune: string; amount: string }>> {
+    const results = await this.paginate(offset => hiroAPI.makeRequest(
+      `/runes/v1/addresses/${address}/activity`,
+      { offset, limit: HiroUtxoDataSource.PAGE_SIZE },
+      { useCache: false }
+    ));
+    return results
+      .filter((activity: any) => activity.operation === 'receive' && activity.location?.output)
+      .map((activity: any) => ({
+        output: activity.location.output,
+        rune: activity.rune?.spaced_name ?? activity.rune?.name ?? activity.rune?.id,
+        amount: String(activity.amount ?? '0')
+      }));
+  }
+
+  async getSatRanges(output: string): Promise<SatRange[] | null> {
+    if (!this.ordServerUrl) return null;
+
+    const response = await fetch(`${this.ordServerUrl}/output/${output}`, { headers: { Accept: 'application/json' } });
+    if (!response.ok) throw new Error(`ord server returned ${response.status} for ${output}`);
+
+    const data = await response.json();
+    if (!Array.isArray(data.sat_ranges)) return null;
+    return data.sat_ranges.map(([start, end]: [number | string, number | string]) => [BigInt(start), BigInt(end)] as SatRange);
+  }
+
+  private async paginate(fetchPage: (offset: number) => Promise<any>): Promise<any[]> {
+    const results: any[] = [];
+    for (let page = 0; page < HiroUtxoDataSource.MAX_PAGES; page++) {
+      const response = await fetchPage(page * HiroUtxoDataSource.PAGE_SIZE);
+      const items = response?.results ?? [];
+      results.push(...items);
+      if (items.length < HiroUtxoDataSource.PAGE_SIZE || results.length >= (response?.total ?? Infinity)) {
+        return results;
+      }
+    }
+    // Stopping early could miss an inscription, so refuse to report a partial set
+    throw new Error('Too many results to verify the address');
+  }
+}
+
+function protectedRegions(utxo: ManagedUtxo): ProtectedRegion[] {
+  return [
+    ...utxo.inscriptions.map(inscription => ({ start: inscription.offset, end: inscription.offset + 1 })),
+    ...utxo.rareSats.map(sat => ({ start: sat.offset, end: sat.offset + 1 })),
+    ...utxo.satributes.map(range => ({ start: range.offset, end: range.offset + range.length }))
+  ].sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Merges regions that are closer than dust (a padding output between them couldn't exist) and
+ * pads each group out to the postage, without running past the end of the UTXO
+ */
+function groupRegions(regions: ProtectedRegion[], postage: number, dustLimit: number, value: number): ProtectedRegion[] {
+  const groups: ProtectedRegion[] = [];
+
+  for (const region of regions) {
+    const last = groups[groups.length - 1];
+    if (last && region.start < last.end + dustLimit) {
+      last.end = Math.min(value, Math.max(last.end, region.end));
+    } else {
+      groups.push({ start: region.start, end: Math.min(value, Math.max(region.end, region.start + postage)) });
+    }
+  }
+
+  return groups;
+}
+
+function describeContents(utxo: ManagedUtxo): string {
+  const parts: string[] = [];
+  if (utxo.inscriptions.length > 0) parts.push(`${utxo.inscriptions.length} inscription(s)`);
+  if (utxo.runes.length > 0) parts.push(`runes (${utxo.runes.map(rune => rune.rune).join(', ')})`);
+  if (utxo.rareSats.length > 0 || utxo.satributes.length > 0) parts.push('rare sats');
+  if (utxo.tags.includes('unverified')) parts.push('unverified contents');
+  return parts.join(', ') || 'nothing';
+}
+
+function spendType(scriptPubKey: string): InputScriptType {
+  switch (addressValidator.getScriptType(scriptPubKey)) {
+    case AddressType.P2PKH: return 'P2PKH';
+    case AddressType.P2SH: return 'P2SH_P2WPKH';
+    case AddressType.P2WPKH: return 'P2WPKH';
+    case AddressType.P2WSH: return 'P2WSH';
+    case AddressType.P2TR: return 'P2TR';
+    default:
+      throw new Error(`Cannot spend output script ${scriptPubKey}`);
+  }
+}
+
+function outputType(address: string): OutputScriptType {
+  const type = addressValidator.getScriptType(addressValidator.addressToScriptPubKey(address));
+  if (type === AddressType.P2PKH || type === AddressType.P2SH || type === AddressType.P2WPKH
+      || type === AddressType.P2WSH || type === AddressType.P2TR) {
+    return type;
+  }
+  throw new Error(`Unsupported output address ${address}`);
+}
+
+// Default instance
+export const utxoManager = new UtxoManager();
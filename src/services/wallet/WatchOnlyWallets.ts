@@ -0,0 +1,410 @@
+/**
+ * Watch-only Wallets
+ * Imports cold-storage wallets from xpub/ypub/zpub keys or output descriptors, discovers their used
+ * addresses up to the gap limit and tracks balances and history through the mempool.space API.
+ * No private keys: nothing here can sign
+ */
+
+import { logger } from '@/lib/logger';
+import { type BitcoinNetwork, addressValidator, bytesToHex, sha256 } from '@/lib/addressValidation';
+import { keyFingerprint, parseDerivationPath, parseExtendedPublicKey, serializeExtendedPublicKey } from '@/lib/bip32';
+import {
+  type KeyOrigin,
+  type ParsedDescriptor,
+  addDescriptorChecksum,
+  deriveDescriptorScript,
+  formatKeyExpression,
+  parseDescriptor
+} from '@/lib/descriptors';
+import { type MempoolService, type Transaction, mempoolService } from '@/services/MempoolService';
+
+export type WatchOnlyScriptType = 'p2pkh' | 'p2sh-p2wpkh' | 'p2wpkh' | 'p2tr';
+
+export interface WatchOnlyImportOptions {
+  label?: string;
+  network?: BitcoinNetwork; // defaults to the keys' network (testnet keys may also be signet/regtest)
+  gapLimit?: number; // consecutive unused addresses before discovery stops, 20 by default
+}
+
+export interface ExtendedKeyImportOptions extends WatchOnlyImportOptions {
+  scriptType?: WatchOnlyScriptType; // for plain xpub/tpub keys; SLIP-132 prefixes imply it. p2wpkh by default
+  fingerprint?: string; // master fingerprint and origin path, kept in the exported descriptors
+  path?: string;
+}
+
+export interface DescriptorImportOptions extends WatchOnlyImportOptions {
+  changeDescriptor?: string; // when the receive descriptor has no <0;1> multipath step
+}
+
+// What is persisted; everything else is rediscovered by sync()
+export interface WatchOnlyWalletConfig {
+  id: string;
+  label: string;
+  source: 'xpub' | 'descriptor';
+  descriptors: string[]; // receive, then change when there is one
+  network: BitcoinNetwork;
+  gapLimit: number;
+}
+
+export interface WatchOnlyBalance {
+  confirmed: number; // sats
+  unconfirmed: number;
+  total: number;
+}
+
+export interface WatchOnlyAddress {
+  address: string;
+  chain: number; // index into the wallet descriptors: 0 receive, 1 change
+  index: number;
+  txCount: number;
+  balance: WatchOnlyBalance;
+}
+
+export interface WatchOnlyTransaction {
+  txid: string;
+  confirmed: boolean;
+  blockHeight?: number;
+  blockTime?: number;
+  net: number; // sats into (positive) or out of (negative) the wallet
+  fee: number;
+}
+
+export interface WatchOnlyWallet extends WatchOnlyWalletConfig {
+  addresses: WatchOnlyAddress[]; // used addresses only
+  nextIndex: number[]; // first unused index per chain
+  balance: WatchOnlyBalance;
+  transactions: WatchOnlyTransaction[]; // newest first, unconfirmed on top
+  warnings: string[];
+  lastSynced: number | null;
+}
+
+export interface WatchOnlyWalletManagerOptions {
+  service?: MempoolService;
+  batchSize?: number; // addresses looked up in parallel during discovery
+  maxPages?: number; // confirmed history pages fetched per address
+  maxIndex?: number; // discovery gives up beyond this index
+}
+
+const DEFAULT_GAP_LIMIT = 20;
+const CHAIN_PAGE_SIZE = 25; // confirmed transactions per mempool.space history page
+
+const SCRIPT_DESCRIPTORS: Record<WatchOnlyScriptType, (key: string) => string> = {
+  'p2pkh': key => `pkh(${key})`,
+  'p2sh-p2wpkh': key => `sh(wpkh(${key}))`,
+  'p2wpkh': key => `wpkh(${key})`,
+  'p2tr': key => `tr(${key})`
+};
+
+export class WatchOnlyWalletManager {
+  private service: MempoolService;
+  private batchSize: number;
+  private maxPages: number;
+  private maxIndex: number;
+  private wallets: Map<string, WatchOnlyWallet> = new Map();
+  private parsed: Map<string, ParsedDescriptor[]> = new Map(); // wallet id -> descriptors
+
+  constructor(options: WatchOnlyWalletManagerOptions = {}) {
+    this.service = options.service ?? mempoolService;
+    this.batchSize = options.batchSize ?? 5;
+    this.maxPages = options.maxPages ?? 40;
+    this.maxIndex = options.maxIndex ?? 10_000;
+  }
+
+  /**
+   * Imports an xpub/ypub/zpub (or testnet equivalent) as receive and change descriptors and
+   * runs address discovery
+   */
+  async importExtendedKey(encoded: string, options: ExtendedKeyImportOptions = {}): Promise<WatchOnlyWallet> {
+    const key = parseExtendedPublicKey(encoded);
+    if (key.scriptHint === 'p2wsh' || key.scriptHint === 'p2sh-p2wsh') {
+      throw new Error('Multisig (Ypub/Zpub) keys need a multisig descriptor; import the wallet descriptor instead');
+    }
+    const hinted: WatchOnlyScriptType | undefined = key.scriptHint;
+    if (options.scriptType && hinted && options.scriptType !== hinted) {
+      throw new Error(`This key's prefix is for ${hinted}, not ${options.scriptType}`);
+    }
+    const scriptType = hinted ?? options.scriptType ?? 'p2wpkh';
+
+    let origin: KeyOrigin | undefined;
+    if (options.fingerprint) {
+      origin = { fingerprint: options.fingerprint, path: options.path ?? 'm' };
+      if (parseDerivationPath(origin.path).length !== key.depth) {
+        throw new Error(`Origin path ${origin.path} doesn't match the key depth ${key.depth}`);
+      }
+    } else if (key.depth === 0) {
+      origin = { fingerprint: keyFingerprint(key.publicKey), path: 'm' };
+    }
+
+    const xpub = serializeExtendedPublicKey(key);
+    const descriptors = [0, 1].map(chain =>
+      addDescriptorChecksum(SCRIPT_DESCRIPTORS[scriptType](formatKeyExpression(xpub, origin, `${chain}/*`))));
+
+    return this.add('xpub', descriptors, options);
+  }
+
+  /**
+   * Imports a descriptor. A <0;1> multipath descriptor covers receive and change; otherwise the
+   * change descriptor can be passed separately
+   */
+  async importDescriptor(descriptor: string, options: DescriptorImportOptions = {}): Promise<WatchOnlyWallet> {
+    const parsed = parseDescriptor(descriptor);
+    if (parsed.branches > 2) throw new Error('Multipath descriptors with more than two branches are not supported');
+    if (parsed.branches === 2 && options.changeDescriptor) {
+      throw new Error('The descriptor already has a change branch');
+    }
+
+    const descriptors = [withChecksum(descriptor)];
+    if (options.changeDescriptor) {
+      const change = parseDescriptor(options.changeDescriptor);
+      if (change.type !== parsed.type || change.branches !== 1) throw new Error('Change descriptor does not match the receive descriptor');
+      descriptors.push(withChecksum(options.changeDescriptor));
+    }
+
+    return this.add('descriptor', descriptors, options);
+  }
+
+  /**
+   * Re-adds persisted wallets without syncing them
+   */
+  restore(configs: WatchOnlyWalletConfig[]): void {
+    for (const config of configs) {
+      try {
+        this.register(config);
+      } catch (error) {
+        logger.warn(`Skipping watch-only wallet ${config.label}`, error);
+      }
+    }
+  }
+
+  getConfigs(): WatchOnlyWalletConfig[] {
+    return this.getWallets().map(({ id, label, source, descriptors, network, gapLimit }) =>
+      ({ id, label, source, descriptors, network, gapLimit }));
+  }
+
+  getWallets(): WatchOnlyWallet[] {
+    return [...this.wallets.values()];
+  }
+
+  getWallet(id: string): WatchOnlyWallet | undefined {
+    return this.wallets.get(id);
+  }
+
+  removeWallet(id: string): boolean {
+    this.parsed.delete(id);
+    return this.wallets.delete(id);
+  }
+
+  /**
+   * Addresses with history across all watch-only wallets
+   */
+  getAddresses(): string[] {
+    return this.getWallets().flatMap(wallet => wallet.addresses.map(address => address.address));
+  }
+
+  /**
+   * The first unused receive address
+   */
+  getReceiveAddress(id: string): string {
+    const wallet = this.requireWallet(id);
+    return this.deriveAddress(id, 0, wallet.nextIndex[0] ?? 0);
+  }
+
+  /**
+   * Walks every chain until `gapLimit` consecutive addresses have no history, then rebuilds
+   * balances and the wallet's transaction list
+   */
+  async sync(id: string): Promise<WatchOnlyWallet> {
+    const wallet = this.requireWallet(id);
+    const chains = this.chains(id);
+    const warnings: string[] = [];
+    const addresses: WatchOnlyAddress[] = [];
+    const nextIndex: number[] = [];
+    const histories = new Map<string, Transaction[]>(); // address -> transactions
+
+    for (let chain = 0; chain < chains; chain++) {
+      const ranged = this.parsed.get(id)!.some(descriptor => descriptor.ranged);
+      let unused = 0;
+      let index = 0;
+      nextIndex[chain] = 0;
+
+      while (unused < wallet.gapLimit && (ranged || index === 0)) {
+        if (index > this.maxIndex) {
+          warnings.push(`Discovery stopped at index ${this.maxIndex} on chain ${chain}`);
+          break;
+        }
+        const batch = Array.from({ length: ranged ? this.batchSize : 1 }, (_, i) => index + i);
+        const results = await Promise.all(batch.map(async i => {
+          const address = this.deriveAddress(id, chain, i);
+          return { address, index: i, ...(await this.fetchHistory(address)) };
+        }));
+
+        for (const result of results) {
+          if (unused >= wallet.gapLimit) break;
+          if (result.truncated) warnings.push(`History of ${result.address} is truncated; its balance may be incomplete`);
+          if (result.transactions.length === 0) {
+            unused++;
+            continue;
+          }
+          unused = 0;
+          nextIndex[chain] = result.index + 1;
+          histories.set(result.address, result.transactions);
+          addresses.push({
+            address: result.address,
+            chain,
+            index: result.index,
+            txCount: result.transactions.length,
+            balance: addressBalance(result.address, result.transactions)
+          });
+        }
+        index += batch.length;
+      }
+    }
+
+    const synced: WatchOnlyWallet = {
+      ...wallet,
+      addresses,
+      nextIndex,
+      balance: addresses.reduce<WatchOnlyBalance>((sum, address) => ({
+        confirmed: sum.confirmed + address.balance.confirmed,
+        unconfirmed: sum.unconfirmed + address.balance.unconfirmed,
+        total: sum.total + address.balance.total
+      }), { confirmed: 0, unconfirmed: 0, total: 0 }),
+      transactions: walletTransactions(histories),
+      warnings,
+      lastSynced: Date.now()
+    };
+    this.wallets.set(id, synced);
+    logger.info(`Synced watch-only wallet ${wallet.label}: ${addresses.length} used addresses, ${synced.balance.total} sats`);
+    return synced;
+  }
+
+  async syncAll(): Promise<WatchOnlyWallet[]> {
+    const synced: WatchOnlyWallet[] = [];
+    for (const id of this.wallets.keys()) {
+      try {
+        synced.push(await this.sync(id));
+      } catch (error) {
+        logger.warn(`Failed to sync watch-only wallet ${id}`, error);
+      }
+    }
+    return synced;
+  }
+
+  private async add(
+    source: WatchOnlyWalletConfig['source'],
+    descriptors: string[],
+    options: WatchOnlyImportOptions
+  ): Promise<WatchOnlyWallet> {
+    const id = `watch-${bytesToHex(sha256(new TextEncoder().encode(descriptors.join('\n')))).slice(0, 16)}`;
+    if (this.wallets.has(id)) throw new Error('This wallet is already being watched');
+
+    const gapLimit = options.gapLimit ?? DEFAULT_GAP_LIMIT;
+    if (!Number.isInteger(gapLimit) || gapLimit < 1 || gapLimit > 1000) throw new Error('Gap limit must be between 1 and 1000');
+
+    this.register({
+      id,
+      label: options.label ?? `Watch-only ${this.wallets.size + 1}`,
+      source,
+      descriptors,
+      network: options.network ?? defaultNetwork(descriptors.map(descriptor => parseDescriptor(descriptor))),
+      gapLimit
+    });
+    return this.sync(id);
+  }
+
+  private register(config: WatchOnlyWalletConfig): void {
+    const parsed = config.descriptors.map(descriptor => parseDescriptor(descriptor));
+    const keyNetwork = parsed.find(descriptor => descriptor.network)?.network;
+    if (keyNetwork && (keyNetwork === 'mainnet') !== (config.network === 'mainnet')) {
+      throw new Error(`Descriptor keys are ${keyNetwork} keys, not ${config.network}`);
+    }
+
+    this.parsed.set(config.id, parsed);
+    this.wallets.set(config.id, {
+      ...config,
+      addresses: [],
+      nextIndex: [],
+      balance: { confirmed: 0, unconfirmed: 0, total: 0 },
+      transactions: [],
+      warnings: [],
+      lastSynced: null
+    });
+  }
+
+  private requireWallet(id: string): WatchOnlyWallet {
+    const wallet = this.wallets.get(id);
+    if (!wallet) throw new Error(`Unknown watch-only wallet ${id}`);
+    return wallet;
+  }
+
+  // Receive/change chains: two for multipath descriptors or a separate change descriptor
+  private chains(id: string): number {
+    const parsed = this.parsed.get(id)!;
+    return parsed.length > 1 ? parsed.length : parsed[0].branches;
+  }
+
+  private deriveAddress(id: string, chain: number, index: number): string {
+    const parsed = this.parsed.get(id)!;
+    const script = parsed.length > 1
+      ? deriveDescriptorScript(parsed[chain], index)
+      : deriveDescriptorScript(parsed[0], index, chain);
+    return addressValidator.scriptPubKeyToAddress(script, this.requireWallet(id).network);
+  }
+
+  // Mempool transactions and the first confirmed page come together; older confirmed pages follow
+  private async fetchHistory(address: string): Promise<{ transactions: Transaction[]; truncated: boolean }> {
+    const transactions = await this.service.getAddressTransactions(address);
+    let page = transactions.filter(tx => tx.status.confirmed);
+
+    for (let pages = 1; page.length >= CHAIN_PAGE_SIZE; pages++) {
+      if (pages >= this.maxPages) return { transactions, truncated: true };
+      page = await this.service.getAddressTransactions(address, page[page.length - 1].txid);
+      transactions.push(...page);
+    }
+    return { transactions, truncated: false };
+  }
+}
+
+function withChecksum(descriptor: string): string {
+  return descriptor.includes('#') ? descriptor.trim() : addDescriptorChecksum(descriptor.trim());
+}
+
+function defaultNetwork(descriptors: ParsedDescriptor[]): BitcoinNetwork {
+  return descriptors.find(descriptor => descriptor.network)?.network ?? 'mainnet';
+}
+
+function addressBalance(address: string, transactions: Transaction[]): WatchOnlyBalance {
+  let confirmed = 0;
+  let unconfirmed = 0;
+
+  for (const tx of transactions) {
+    const received = tx.vout.filter(output => output.scriptpubkey_address === address).reduce((sum, o) => sum + o.value, 0);
+    const spent = tx.vin.filter(input => input.prevout?.scriptpubkey_address === address).reduce((sum, i) => sum + i.prevout.value, 0);
+    if (tx.status.confirmed) confirmed += received - spent;
+    else unconfirmed += received - spent;
+  }
+
+  return { confirmed, unconfirmed, total: confirmed + unconfirmed };
+}
+
+// One entry per transaction, netted over every wallet address it touches
+function walletTransactions(histories: Map<string, Transaction[]>): WatchOnlyTransaction[] {
+  const owned = new Set(histories.keys());
+  const transactions = new Map<string, Transaction>();
+  histories.forEach(history => history.forEach(tx => transactions.set(tx.txid, tx)));
+
+  return [...transactions.values()]
+    .map(tx => ({
+      txid: tx.txid,
+      confirmed: tx.status.confirmed,
+      ...(tx.status.block_height !== undefined ? { blockHeight: tx.status.block_height } : {}),
+      ...(tx.status.block_time !== undefined ? { blockTime: tx.status.block_time } : {}),
+      net: tx.vout.filter(output => owned.has(output.scriptpubkey_address)).reduce((sum, o) => sum + o.value, 0)
+        - tx.vin.filter(input => owned.has(input.prevout?.scriptpubkey_address)).reduce((sum, i) => sum + i.prevout.value, 0),
+      fee: tx.fee
+    }))
+    .sort((a, b) => Number(a.confirmed) - Number(b.confirmed) || (b.blockHeight ?? 0) - (a.blockHeight ?? 0));
+}
+
+// Default instance
+export const watchOnlyWallets = new WatchOnlyWalletManager();
@@ -0,0 +1,202 @@
+/**
+ * Channel and endpoint registry for the WebSocket server
+ * Services register publishable channels (with auth checks and snapshots) and request endpoints
+ */
+
+export interface ChannelContext {
+  channel: string;
+  params: Record<string, string>;
+  clientId: string;
+  userId?: string;
+  authenticated: boolean;
+}
+
+export interface ChannelDefinition {
+  pattern: string; // e.g. 'orderbook:{symbol}'; a {param} matches one segment between ':' or '.'
+  description?: string;
+  requiresAuth?: boolean;
+  authorize?: (context: ChannelContext) => boolean | Promise<boolean>;
+  snapshot?: (context: ChannelContext) => any | Promise<any>; // full state for new subscribers and resyncs
+}
+
+export interface RequestContext {
+  clientId: string;
+  userId?: string;
+  authenticated: boolean;
+}
+
+export interface EndpointDefinition {
+  name: string;
+  description?: string;
+  requiresAuth?: boolean;
+  handler: (data: any, context: RequestContext) => any | Promise<any>;
+}
+
+export interface ResolvedChannel {
+  definition: ChannelDefinition;
+  params: Record<string, string>;
+}
+
+export interface ChannelHistoryEntry {
+  seq: number;
+  data: any;
+  timestamp: number;
+}
+
+/**
+ * Matches a concrete channel name against a pattern, returning its parameters
+ */
+export function matchChannelPattern(pattern: string, channel: string): Record<string, string> | null {
+  const names: string[] = [];
+  const source = pattern
+    .split(/(\{[a-zA-Z_][a-zA-Z0-9_]*\})/)
+    .map(part => {
+      const param = part.match(/^\{(.+)\}$/);
+      if (param) {
+        names.push(param[1]);
+        return '([^:.]+)';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  const match = channel.match(new RegExp(`^${source}$`));
+  if (!match) return null;
+
+  return Object.fromEntries(names.map((name, i) => [name, match[i + 1]]));
+}
+
+export class ChannelRegistry {
+  private channels: ChannelDefinition[] = [];
+  private endpoints = new Map<string, EndpointDefinition>();
+
+  registerChannel(definition: ChannelDefinition): void {
+    if (this.channels.some(c => c.pattern === definition.pattern)) {
+      throw new Error(`Channel ${definition.pattern} is already registered`);
+    }
+    this.channels.push(definition);
+  }
+
+  unregisterChannel(pattern: string): boolean {
+    const before = this.channels.length;
+    this.channels = this.channels.filter(c => c.pattern !== pattern);
+    return this.channels.length !== before;
+  }
+
+  registerEndpoint(definition: EndpointDefinition): void {
+    if (this.endpoints.has(definition.name)) {
+      throw new Error(`Endpoint ${definition.name} is already registered`);
+    }
+    this.endpoints.set(definition.name, definition);
+  }
+
+  unregisterEndpoint(name: string): boolean {
+    return this.endpoints.delete(name);
+  }
+
+  /**
+   * First registered pattern wins, so specific patterns should be registered before generic ones
+   */
+  resolveChannel(channel: string): ResolvedChannel | null {
+    for (const definition of this.channels) {
+      const params = matchChannelPattern(definition.pattern, channel);
+      if (params) return { definition, params };
+    }
+    return null;
+  }
+
+  getEndpoint(name: string): EndpointDefinition | undefined {
+    return this.endpoints.get(name);
+  }
+
+  /**
+   * Runs the channel's auth checks; the reason is sent back to the client on refusal
+   */
+  async authorizeChannel(
+    resolved: ResolvedChannel,
+    context: ChannelContext
+  ): Promise<{ allowed: boolean; reason?: string }> {
+    const { definition } = resolved;
+
+    if (definition.requiresAuth && !context.authenticated) {
+      return { allowed: false, reason: 'Authentication required for this channel' };
+    }
+
+    if (definition.authorize) {
+      try {
+        if (!(await definition.authorize(context))) {
+          return { allowed: false, reason: 'Not authorized for this channel' };
+        }
+      } catch (error) {
+        return { allowed: false, reason: error instanceof Error ? error.message : 'Authorization failed' };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  listChannels(): Array<{ pattern: string; description?: string; requiresAuth: boolean }> {
+    return this.channels.map(c => ({
+      pattern: c.pattern,
+      description: c.description,
+      requiresAuth: !!c.requiresAuth
+    }));
+  }
+
+  listEndpoints(): Array<{ name: string; description?: string; requiresAuth: boolean }> {
+    return Array.from(this.endpoints.values()).map(e => ({
+      name: e.name,
+      description: e.description,
+      requiresAuth: !!e.requiresAuth
+    }));
+  }
+}
+
+/**
+ * Per-channel sequence numbers with a bounded replay buffer for clients that missed messages
+ */
+export class ChannelHistory {
+  private channels = new Map<string, { seq: number; entries: ChannelHistoryEntry[] }>();
+
+  constructor(private limit: number = 100) {}
+
+  append(channel: string, data: any, timestamp: number = Date.now()): number {
+    let state = this.channels.get(channel);
+    if (!state) {
+      state = { seq: 0, entries: [] };
+      this.channels.set(channel, state);
+    }
+
+    state.seq++;
+    state.entries.push({ seq: state.seq, data, timestamp });
+    if (state.entries.length > this.limit) {
+      state.entries.splice(0, state.entries.length - this.limit);
+    }
+
+    return state.seq;
+  }
+
+  currentSeq(channel: string): number {
+    return this.channels.get(channel)?.seq ?? 0;
+  }
+
+  /**
+   * Messages after `seq`, or null when the buffer no longer reaches back that far
+   */
+  since(channel: string, seq: number): ChannelHistoryEntry[] | null {
+    const state = this.channels.get(channel);
+    const current = state?.seq ?? 0;
+    if (seq === current) return [];
+    // A client ahead of the server (e.g. after a restart) can only recover from a snapshot
+    if (!state || seq > current || seq < 0 || state.entries[0].seq > seq + 1) return null;
+    return state.entries.filter(entry => entry.seq > seq);
+  }
+
+  clear(channel: string): void {
+    this.channels.delete(channel);
+  }
+
+  size(): number {
+    return this.channels.size;
+  }
+}
@@ -9,6 +9,14 @@ import { EventEmitter } from 'events';
 import jwt from 'jsonwebtoken';
 import { systemIntegrator } from '@/core/SystemIntegrator';
 import { EnhancedLogger } from '@/lib/enhanced-logger';
+import type { Order } from '@/services/orderbook/OrderBookEngine';
+import {
+  ChannelHistory,
+  ChannelRegistry,
+  type ChannelContext,
+  type ChannelDefinition,
+  type EndpointDefinition
+} from './ChannelRegistry';
 
 interface WebSocketClient {
   id: string;
@@ -30,12 +38,25 @@ interface SubscriptionRequest {
   params?: Record<string, any>;
 }
 
+interface ResyncRequest {
+  type: 'resync';
+  channel: string;
+  lastSeq: number; // last sequence number the client applied
+}
+
 interface WebSocketMessage {
   type: string;
   channel?: string;
   data: any;
   timestamp: number;
   id?: string;
+  seq?: number;
+}
+
+export interface WebSocketServerOptions {
+  maxBufferedBytes?: number; // drop clients whose socket buffer grows past this
+  maxQueuedMessages?: number; // drop clients that are not open and still being sent to
+  historySize?: number; // messages kept per channel for resync replay
 }
 
 export class WebSocketServer extends EventEmitter {
@@ -47,13 +68,38 @@ export class WebSocketServer extends EventEmitter {
   private pingInterval: NodeJS.Timeout | null = null;
   private port: number;
   private isRunning = false;
+  private registry = new ChannelRegistry();
+  private history: ChannelHistory;
+  private maxBufferedBytes: number;
+  private maxQueuedMessages: number;
+  private droppedClients = 0;
 
-  constructor(port: number = 8080) {
+  constructor(port: number = 8080, options: WebSocketServerOptions = {}) {
     super();
     this.port = port;
+    this.maxBufferedBytes = options.maxBufferedBytes ?? 1024 * 1024;
+    this.maxQueuedMessages = options.maxQueuedMessages ?? 100;
+    this.history = new ChannelHistory(options.historySize ?? 200);
+    this.registerDefaults();
     this.setupEventHandlers();
   }
 
+  /**
+   * Register a publishable channel pattern, e.g. 'trades:{symbol}'
+   */
+  public registerChannel(definition: ChannelDefinition): void {
+    this.registry.registerChannel(definition);
+    EnhancedLogger.info('WebSocket channel registered', { pattern: definition.pattern });
+  }
+
+  /**
+   * Register a request endpoint reachable through { type: 'request', endpoint }
+   */
+  public registerEndpoint(definition: EndpointDefinition): void {
+    this.registry.registerEndpoint(definition);
+    EnhancedLogger.info('WebSocket endpoint registered', { endpoint: definition.name });
+  }
+
   /**
    * Start WebSocket server
    */
@@ -162,7 +208,7 @@ export class WebSocketServer extends EventEmitter {
 
       // Message handler
       ws.on('message', (data: Buffer) => {
-        this.handleClientMessage(client, data);
+        void this.handleClientMessage(client, data);
       });
 
       // Pong handler
@@ -204,7 +250,7 @@ export class WebSocketServer extends EventEmitter {
   /**
    * Handle client message
    */
-  private handleClientMessage(client: WebSocketClient, data: Buffer): void {
+  private async handleClientMessage(client: WebSocketClient, data: Buffer): Promise<void> {
     try {
       const message = JSON.parse(data.toString());
       
@@ -215,7 +261,7 @@ export class WebSocketServer extends EventEmitter {
         
         case 'subscribe':
         case 'unsubscribe':
-          this.handleSubscription(client, message);
+          await this.handleSubscription(client, message);
           break;
         
         case 'ping':
@@ -230,6 +276,10 @@ export class WebSocketServer extends EventEmitter {
           this.handleClientRequest(client, message);
           break;
 
+        case 'resync':
+          await this.handleResync(client, message);
+          break;
+
         default:
           EnhancedLogger.warn('Unknown message type', { clientId: client.id, type: message.type });
       }
@@ -282,12 +332,16 @@ export class WebSocketServer extends EventEmitter {
   /**
    * Handle subscription requests
    */
-  private handleSubscription(client: WebSocketClient, request: SubscriptionRequest): void {
+  private async handleSubscription(client: WebSocketClient, request: SubscriptionRequest): Promise<void> {
     const { type, channels } = request;
+    if (!Array.isArray(channels) || !channels.every(channel => typeof channel === 'string')) {
+      throw new Error('Subscription request needs a channels array');
+    }
+    const failed: string[] = [];
 
     for (const channel of channels) {
       if (type === 'subscribe') {
-        this.subscribeClient(client, channel);
+        if (!(await this.subscribeClient(client, channel))) failed.push(channel);
       } else {
         this.unsubscribeClient(client, channel);
       }
@@ -298,8 +352,11 @@ export class WebSocketServer extends EventEmitter {
       data: {
         action: type,
         channels,
-        success: true,
-        activeSubscriptions: Array.from(client.subscriptions)
+        success: failed.length === 0,
+        failed,
+        activeSubscriptions: Array.from(client.subscriptions),
+        // Baseline for gap detection: the next update on each channel carries seq + 1
+        sequences: Object.fromEntries(channels.map(channel => [channel, this.history.currentSeq(channel)]))
       },
       timestamp: Date.now()
     });
@@ -308,18 +365,18 @@ export class WebSocketServer extends EventEmitter {
   /**
    * Subscribe client to channel
    */
-  private subscribeClient(client: WebSocketClient, channel: string): void {
-    // Check if channel requires authentication
-    if (this.requiresAuth(channel) && !client.authenticated) {
-      this.sendToClient(client, {
-        type: 'subscription_error',
-        data: { 
-          channel,
-          message: 'Authentication required for this channel' 
-        },
-        timestamp: Date.now()
-      });
-      return;
+  private async subscribeClient(client: WebSocketClient, channel: string): Promise<boolean> {
+    const resolved = this.registry.resolveChannel(channel);
+    if (!resolved) {
+      this.sendSubscriptionError(client, channel, 'Unknown channel');
+      return false;
+    }
+
+    const context = this.channelContext(client, channel, resolved.params);
+    const access = await this.registry.authorizeChannel(resolved, context);
+    if (!access.allowed) {
+      this.sendSubscriptionError(client, channel, access.reason!);
+      return false;
     }
 
     client.subscriptions.add(channel);
@@ -335,7 +392,104 @@ export class WebSocketServer extends EventEmitter {
       totalSubscribers: this.channels.get(channel)!.size
     });
 
+    if (resolved.definition.snapshot) {
+      await this.sendSnapshot(client, channel, resolved.definition, context);
+    }
+
     this.emit('clientSubscribed', { clientId: client.id, channel });
+    return true;
+  }
+
+  private sendSubscriptionError(client: WebSocketClient, channel: string, message: string): void {
+    this.sendToClient(client, {
+      type: 'subscription_error',
+      data: { channel, message },
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Full channel state. The sequence is read once the provider resolves, so clients
+   * discard any buffered diff with seq <= the snapshot's
+   */
+  private async sendSnapshot(
+    client: WebSocketClient,
+    channel: string,
+    definition: ChannelDefinition,
+    context: ChannelContext
+  ): Promise<boolean> {
+    try {
+      const data = await definition.snapshot!(context);
+      return this.sendToClient(client, {
+        type: 'snapshot',
+        channel,
+        seq: this.history.currentSeq(channel),
+        data,
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      EnhancedLogger.error('Channel snapshot failed:', { clientId: client.id, channel, error });
+      this.sendToClient(client, {
+        type: 'error',
+        channel,
+        data: { message: 'Snapshot unavailable' },
+        timestamp: Date.now()
+      });
+      return false;
+    }
+  }
+
+  /**
+   * A client that saw a sequence gap asks for what it missed: replayed from history
+   * when still buffered, otherwise a fresh snapshot
+   */
+  private async handleResync(client: WebSocketClient, request: ResyncRequest): Promise<void> {
+    const { channel, lastSeq } = request;
+    if (typeof channel !== 'string' || !Number.isInteger(lastSeq) || lastSeq < 0) {
+      throw new Error('Resync request needs a channel and a non-negative integer lastSeq');
+    }
+    const resolved = this.registry.resolveChannel(channel);
+
+    if (!resolved || !client.subscriptions.has(channel)) {
+      this.sendToClient(client, {
+        type: 'resync_error',
+        channel,
+        data: { message: 'Not subscribed to this channel' },
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const missed = this.history.since(channel, lastSeq);
+    if (missed) {
+      for (const entry of missed) {
+        this.sendToClient(client, { type: 'diff', channel, seq: entry.seq, data: entry.data, timestamp: entry.timestamp });
+      }
+      return;
+    }
+
+    if (resolved.definition.snapshot) {
+      await this.sendSnapshot(client, channel, resolved.definition, this.channelContext(client, channel, resolved.params));
+      return;
+    }
+
+    this.sendToClient(client, {
+      type: 'resync_error',
+      channel,
+      seq: this.history.currentSeq(channel),
+      data: { message: 'Missed messages are no longer available; resubscribe to continue' },
+      timestamp: Date.now()
+    });
+  }
+
+  private channelContext(client: WebSocketClient, channel: string, params: Record<string, string>): ChannelContext {
+    return {
+      channel,
+      params,
+      clientId: client.id,
+      userId: client.userId,
+      authenticated: client.authenticated
+    };
   }
 
   /**
@@ -349,6 +503,7 @@ export class WebSocketServer extends EventEmitter {
       channelClients.delete(client.id);
       if (channelClients.size === 0) {
         this.channels.delete(channel);
+        this.history.clear(channel);
       }
     }
 
@@ -361,31 +516,25 @@ export class WebSocketServer extends EventEmitter {
    */
   private async handleClientRequest(client: WebSocketClient, message: any): Promise<void> {
     try {
-      const { id, endpoint, data } = message;
-      
-      // Route request to appropriate service
-      let response;
-      switch (endpoint) {
-        case 'orderbook':
-          const orderbook = systemIntegrator.getService('orderbook');
-          response = await orderbook?.getOrderBook(data.symbol, data.depth);
-          break;
-        
-        case 'portfolio':
-          response = { 
-            balance: 50000,
-            positions: [],
-            pnl: 1250.75
-          };
-          break;
+      const { endpoint, data } = message;
 
-        default:
-          throw new Error(`Unknown endpoint: ${endpoint}`);
+      const definition = this.registry.getEndpoint(endpoint);
+      if (!definition) {
+        throw new Error(`Unknown endpoint: ${endpoint}`);
+      }
+      if (definition.requiresAuth && !client.authenticated) {
+        throw new Error('Authentication required for this endpoint');
       }
 
+      const response = await definition.handler(data ?? {}, {
+        clientId: client.id,
+        userId: client.userId,
+        authenticated: client.authenticated
+      });
+
       this.sendToClient(client, {
         type: 'response',
-        id,
+        id: message.id,
         data: response,
         timestamp: Date.now()
       });
@@ -404,6 +553,9 @@ export class WebSocketServer extends EventEmitter {
    * Handle client disconnect
    */
   private handleClientDisconnect(client: WebSocketClient, code: number, reason: string): void {
+    // Dropped clients come through here again from their 'close' event
+    if (!this.clients.has(client.id)) return;
+
     // Remove from all channels
     for (const channel of client.subscriptions) {
       this.unsubscribeClient(client, channel);
@@ -428,25 +580,41 @@ export class WebSocketServer extends EventEmitter {
    * Broadcast message to channel
    */
   public broadcast(channel: string, data: any): void {
+    this.deliver(channel, 'broadcast', data);
+  }
+
+  /**
+   * Publish an incremental update on a registered channel. Updates carry a per-channel
+   * sequence number; a client that sees a gap sends { type: 'resync', channel, lastSeq }
+   */
+  public publish(channel: string, data: any): void {
+    this.deliver(channel, 'diff', data);
+  }
+
+  private deliver(channel: string, type: string, data: any): void {
+    const channelClients = this.channels.get(channel);
+    if (!channelClients) return;
+
+    const timestamp = Date.now();
     const message: WebSocketMessage = {
-      type: 'broadcast',
+      type,
       channel,
+      seq: this.history.append(channel, data, timestamp),
       data,
-      timestamp: Date.now()
+      timestamp
     };
 
-    const channelClients = this.channels.get(channel);
-    if (!channelClients) return;
-
     let sent = 0;
-    for (const clientId of channelClients) {
+    const total = channelClients.size;
+    // Copy: slow clients are removed from the channel while sending
+    for (const clientId of Array.from(channelClients)) {
       const client = this.clients.get(clientId);
       if (client && this.sendToClient(client, message)) {
         sent++;
       }
     }
 
-    logger.debug('Broadcast sent', { channel, recipients: sent, total: channelClients.size });
+    EnhancedLogger.debug('Broadcast sent', { channel, recipients: sent, total });
   }
 
   /**
@@ -455,6 +623,10 @@ export class WebSocketServer extends EventEmitter {
   private sendToClient(client: WebSocketClient, message: WebSocketMessage): boolean {
     try {
       if (client.ws.readyState === 1) { // WebSocket.OPEN
+        if (client.ws.bufferedAmount > this.maxBufferedBytes) {
+          this.dropSlowClient(client, 'Send buffer limit exceeded');
+          return false;
+        }
         client.ws.send(JSON.stringify(message));
         return true;
       } else {
@@ -462,7 +634,12 @@ export class WebSocketServer extends EventEmitter {
         if (!this.messageQueue.has(client.id)) {
           this.messageQueue.set(client.id, []);
         }
-        this.messageQueue.get(client.id)!.push(message);
+        const queue = this.messageQueue.get(client.id)!;
+        if (queue.length >= this.maxQueuedMessages) {
+          this.dropSlowClient(client, 'Message queue limit exceeded');
+          return false;
+        }
+        queue.push(message);
         return false;
       }
     } catch (error) {
@@ -471,6 +648,69 @@ export class WebSocketServer extends EventEmitter {
     }
   }
 
+  /**
+   * Disconnect a client that cannot keep up instead of buffering for it without limit
+   */
+  private dropSlowClient(client: WebSocketClient, reason: string): void {
+    this.droppedClients++;
+    EnhancedLogger.warn('Dropping slow WebSocket client', {
+      clientId: client.id,
+      reason,
+      bufferedAmount: client.ws.bufferedAmount
+    });
+
+    try {
+      client.ws.close(1013, 'Client too slow');
+    } catch {
+      client.ws.terminate?.();
+    }
+
+    this.handleClientDisconnect(client, 1013, reason);
+    this.emit('clientDropped', { clientId: client.id, reason });
+  }
+
+  /**
+   * Built-in channels and endpoints; services add their own through registerChannel / registerEndpoint
+   */
+  private registerDefaults(): void {
+    const ownUser = (context: ChannelContext) => context.userId === context.params.userId;
+    const orderbookService = () => systemIntegrator.getService('orderbook');
+
+    this.registry.registerChannel({
+      pattern: 'orderbook:{symbol}',
+      description: 'Order book diffs',
+      snapshot: ({ params }) => orderbookService()?.getOrderBook(params.symbol, 50) ?? null
+    });
+    this.registry.registerChannel({ pattern: 'trades:{symbol}', description: 'Executed trades' });
+    this.registry.registerChannel({
+      pattern: 'portfolio:{userId}',
+      description: 'Portfolio updates for the authenticated user',
+      requiresAuth: true,
+      authorize: ownUser
+    });
+    this.registry.registerChannel({
+      pattern: 'orders:{userId}',
+      description: 'Order lifecycle updates for the authenticated user',
+      requiresAuth: true,
+      authorize: ownUser
+    });
+    this.registry.registerChannel({ pattern: 'mempool:blocks', description: 'New blocks and mempool projections' });
+
+    // Dotted names kept for existing clients
+    this.registry.registerChannel({ pattern: 'orderbook.{symbol}.trades' });
+    this.registry.registerChannel({ pattern: 'orderbook.{symbol}' });
+    this.registry.registerChannel({ pattern: 'user.{userId}.payments', requiresAuth: true, authorize: ownUser });
+    for (const pattern of ['trades.all', 'ml.predictions', 'social.signals', 'news.sentiment', 'system.health']) {
+      this.registry.registerChannel({ pattern });
+    }
+
+    this.registry.registerEndpoint({
+      name: 'orderbook',
+      description: 'Order book snapshot for a symbol',
+      handler: (data) => orderbookService()?.getOrderBook(data.symbol, data.depth)
+    });
+  }
+
   /**
    * Setup event handlers for system events
    */
@@ -492,13 +732,39 @@ export class WebSocketServer extends EventEmitter {
     const orderbook = systemIntegrator.getService('orderbook');
     if (orderbook) {
       orderbook.on('tradeExecuted', (trade: any) => {
+        this.publish(`trades:${trade.symbol}`, trade);
         this.broadcast(`orderbook.${trade.symbol}.trades`, trade);
         this.broadcast('trades.all', trade);
       });
 
       orderbook.on('orderBookUpdated', (update: any) => {
+        this.publish(`orderbook:${update.symbol}`, update);
         this.broadcast(`orderbook.${update.symbol}`, update);
       });
+
+      // Lifecycle transitions go to the order owner's channel, tagged with the engine event name
+      const publishOrder = (event: string, order: Order, details: Record<string, unknown> = {}) => {
+        this.publish(`orders:${order.userId}`, { event, order, ...details });
+      };
+      orderbook.on('orderPlaced', ({ order }: { order: Order }) => publishOrder('orderPlaced', order));
+      orderbook.on('orderCancelled', (order: Order) => publishOrder('orderCancelled', order));
+      orderbook.on('orderExpired', (order: Order) => publishOrder('orderExpired', order));
+      orderbook.on('orderRejected', ({ order, reason }: { order: Order; reason: string }) =>
+        publishOrder('orderRejected', order, { reason }));
+      orderbook.on('stopTriggered', ({ order, lastPrice }: { order: Order; lastPrice: number }) =>
+        publishOrder('stopTriggered', order, { lastPrice }));
+      orderbook.on('icebergRefilled', ({ order, visibleQuantity }: { order: Order; visibleQuantity: number }) =>
+        publishOrder('icebergRefilled', order, { visibleQuantity }));
+
+      // A journal replay is silent; push the rebuilt books so subscribers can resync
+      orderbook.on('replayed', ({ symbols }: { symbols: string[] }) => {
+        for (const symbol of symbols) {
+          const book = orderbook.getOrderBook(symbol, 50);
+          if (!book) continue;
+          this.publish(`orderbook:${symbol}`, book);
+          this.broadcast(`orderbook.${symbol}`, book);
+        }
+      });
     }
   }
 
@@ -534,34 +800,11 @@ export class WebSocketServer extends EventEmitter {
     }, 30000); // Every 30 seconds
   }
 
-  /**
-   * Check if channel requires authentication
-   */
-  private requiresAuth(channel: string): boolean {
-    const authChannels = [
-      'user.',
-      'portfolio.',
-      'orders.',
-      'trades.user'
-    ];
-    
-    return authChannels.some(prefix => channel.startsWith(prefix));
-  }
-
   /**
    * Get available channels
    */
   private getAvailableChannels(): string[] {
-    return [
-      'orderbook.BTC',
-      'orderbook.ETH',
-      'orderbook.SOL',
-      'trades.all',
-      'ml.predictions',
-      'social.signals',
-      'news.sentiment',
-      'system.health'
-    ];
+    return this.registry.listChannels().map(channel => channel.pattern);
   }
 
   /**
@@ -585,11 +828,14 @@ export class WebSocketServer extends EventEmitter {
       },
       channels: {
         total: this.channels.size,
-        list: Array.from(this.channels.keys())
+        list: Array.from(this.channels.keys()),
+        registered: this.registry.listChannels(),
+        endpoints: this.registry.listEndpoints()
       },
       messages: {
         queued: Array.from(this.messageQueue.values()).reduce((sum, queue) => sum + queue.length, 0)
-      }
+      },
+      droppedClients: this.droppedClients
     };
   }
 }
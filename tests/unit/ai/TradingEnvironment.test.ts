@@ -0,0 +1,148 @@
+/**
+ * RL trading environment and evaluation harness tests (Jest)
+ */
+
+import {
+  buyAndHoldPolicy,
+  evaluateAgainstBuyAndHold,
+  runEpisode,
+  splitHoldout,
+  trainEngine,
+  type TradingPolicy
+} from '@/ai/AgentEvaluation';
+import type { ReinforcementLearningEngine } from '@/ai/ReinforcementLearningEngine';
+import { DifferentialSharpeReward, DrawdownPenalizedReward, TradingEnv, WARMUP_CANDLES } from '@/ai/TradingEnvironment';
+import type { Candle } from '@/lib/backtesting/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function candles(closes: number[], volume: number = 1_000_000): Candle[] {
+  return closes.map((close, i) => {
+    const open = i === 0 ? close : closes[i - 1];
+    return {
+      date: new Date(Date.UTC(2024, 0, 1) + i * DAY),
+      open,
+      high: Math.max(open, close) * 1.01,
+      low: Math.min(open, close) * 0.99,
+      close,
+      volume
+    };
+  });
+}
+
+// Flat through the warm-up, then +1 per candle
+const RISING = candles(Array.from({ length: 80 }, (_, i) => (i < WARMUP_CANDLES ? 100 : 100 + (i - WARMUP_CANDLES + 1))));
+const NO_SLIPPAGE = { feeRate: 0.001, slippage: 0.001, impact: 0 };
+
+describe('TradingEnv', () => {
+  it('fills at the next open with fees and slippage and marks to the close', () => {
+    const env = new TradingEnv({ candles: RISING, costs: NO_SLIPPAGE });
+    const first = env.reset();
+    expect(first.priceFeatures).toHaveLength(11);
+    expect(first.technicalIndicators.rsi).toBeGreaterThanOrEqual(0);
+
+    const { info, reward, done } = env.step({ type: 'market', side: 'buy', size: 0.5, confidence: 1 });
+    // Decided on candle 35 (close 101), filled at candle 36's open (101) plus 0.1%
+    const price = 101 * 1.001;
+    const quantity = 5_000 / 101;
+    expect(info.fill).toMatchObject({ side: 'buy', partial: false });
+    expect(info.fill.price).toBeCloseTo(price, 10);
+    expect(info.fill.quantity).toBeCloseTo(quantity, 10);
+    expect(info.fill.fee).toBeCloseTo(quantity * price * 0.001, 10);
+
+    const equity = 10_000 - quantity * price - info.fill.fee + quantity * 102;
+    expect(info.equity).toBeCloseTo(equity, 8);
+    expect(reward).toBeCloseTo((equity - 10_000) / 10_000, 10);
+    expect(done).toBe(false);
+  });
+
+  it('enforces position limits, volume participation and the no-short rule', () => {
+    const env = new TradingEnv({ candles: candles(RISING.map(c => c.close), 100), costs: NO_SLIPPAGE });
+    env.reset();
+
+    expect(env.step(2).info).toMatchObject({ fill: null, rejected: 'Position limit reached' });
+
+    // 10% of 100 units of volume caps the fill at 10 units
+    const { info } = env.step({ type: 'market', side: 'buy', size: 1, confidence: 1 });
+    expect(info.fill).toMatchObject({ quantity: 10, partial: true });
+
+    const leveraged = new TradingEnv({ candles: RISING, costs: NO_SLIPPAGE, limits: { maxPosition: 2, allowShort: true } });
+    leveraged.reset();
+    const short = leveraged.step({ type: 'market', side: 'sell', size: 5, confidence: 1 });
+    expect(short.info.position).toBeCloseTo(-20_000 / 101, 8);
+    expect(short.info.cash).toBeGreaterThan(20_000);
+  });
+
+  it('charges funding on open positions and fills limit orders only when touched', () => {
+    const env = new TradingEnv({ candles: RISING, costs: { ...NO_SLIPPAGE, fundingRate: 0.0001 } });
+    env.reset();
+    const bought = env.step({ type: 'market', side: 'buy', size: 0.5, confidence: 1 });
+    expect(bought.info.funding).toBe(0);
+
+    const held = env.step(0);
+    expect(held.info.funding).toBeCloseTo(bought.info.position * 102 * 0.0001, 10);
+
+    const missed = env.step({ type: 'limit', side: 'buy', size: 0.1, price: 90, confidence: 1 });
+    expect(missed.info).toMatchObject({ fill: null, rejected: 'Limit price not reached' });
+    const filled = env.step({ type: 'limit', side: 'buy', size: 0.1, price: 103.5, confidence: 1 });
+    expect(filled.info.fill.price).toBe(103.5); // maker fill below the 104 open, no slippage
+  });
+
+  it('ends the episode on the configured drawdown and at the end of the data', async () => {
+    const falling = candles(Array.from({ length: 60 }, (_, i) => (i < WARMUP_CANDLES ? 100 : 100 - (i - WARMUP_CANDLES) * 3)));
+    const env = new TradingEnv({ candles: falling, maxDrawdown: 0.1, costs: NO_SLIPPAGE });
+    const result = await runEpisode(env, buyAndHoldPolicy());
+    expect(result.maxDrawdown).toBeGreaterThan(0.1);
+    expect(result.steps).toBeLessThan(falling.length - 1 - WARMUP_CANDLES);
+
+    const full = await runEpisode(new TradingEnv({ candles: RISING, episodeLength: 10, seed: 7 }), buyAndHoldPolicy());
+    expect(full.steps).toBe(10);
+  });
+});
+
+describe('Reward functions', () => {
+  const context = { previousEquity: 100, equity: 101, stepReturn: 0.01, drawdown: 0, previousDrawdown: 0, costs: 0, exposure: 1, initialCapital: 100, done: false };
+
+  it('penalizes new drawdown and rewards Sharpe-improving returns', () => {
+    const drawdown = new DrawdownPenalizedReward(2);
+    expect(drawdown.compute({ ...context, stepReturn: -0.05, drawdown: 0.05 })).toBeCloseTo(-0.15, 10);
+    expect(drawdown.compute({ ...context, stepReturn: 0.02, drawdown: 0.03, previousDrawdown: 0.05 })).toBeCloseTo(0.02, 10);
+
+    const sharpe = new DifferentialSharpeReward(0.1);
+    [0.01, -0.005, 0.01, -0.005].forEach(r => sharpe.compute({ ...context, stepReturn: r }));
+    expect(sharpe.compute({ ...context, stepReturn: 0.02 })).toBeGreaterThan(0);
+    expect(sharpe.compute({ ...context, stepReturn: -0.02 })).toBeLessThan(0);
+  });
+});
+
+describe('Agent evaluation', () => {
+  const cash: TradingPolicy = { name: 'cash', act: () => 0 };
+
+  it('compares policies against buy-and-hold on held-out periods', async () => {
+    const { train, test } = splitHoldout(RISING.length, { testRatio: 0.25 });
+    expect(train.end).toBe(test.start);
+    expect(test.end).toBe(RISING.length - 1);
+
+    const report = await evaluateAgainstBuyAndHold({ candles: RISING, costs: NO_SLIPPAGE }, [cash], [test]);
+    const [period] = report.periods;
+    expect(period.benchmark.totalReturn).toBeGreaterThan(0);
+    expect(period.results[0]).toMatchObject({ policy: 'cash', totalReturn: 0, trades: 0 });
+    expect(period.results[0].excessReturn).toBeCloseTo(-period.benchmark.totalReturn, 10);
+    expect(report.summary[0]).toMatchObject({ policy: 'cash', periods: 1, periodsBeatingBenchmark: 0 });
+  });
+
+  it('feeds every transition to the engine while training', async () => {
+    const engine = {
+      setTrainingMode: jest.fn(),
+      selectAction: jest.fn().mockResolvedValue({ type: 'market', side: 'buy', size: 0.1, confidence: 1 }),
+      train: jest.fn().mockResolvedValue(undefined)
+    };
+    const env = new TradingEnv({ candles: RISING, episodeLength: 5 });
+
+    const results = await trainEngine(engine as unknown as ReinforcementLearningEngine, env, { episodes: 2 });
+    expect(results.map(r => r.steps)).toEqual([5, 5]);
+    expect(engine.train).toHaveBeenCalledTimes(10);
+    expect(engine.train.mock.calls[4][0].done).toBe(true);
+    expect(engine.setTrainingMode.mock.calls).toEqual([[true], [false]]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Address <-> scriptPubKey conversion tests (Jest)
+ * Vectors from BIP173, BIP350 and BIP352
+ */
+
+import { AddressType, AddressValidator } from '@/lib/addressValidation';
+
+const ALL_NETWORKS = ['mainnet', 'testnet', 'signet', 'regtest'];
+
+describe('AddressValidator', () => {
+  const validator = new AddressValidator();
+
+  it.each([
+    ['BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4', AddressType.P2WPKH, '0014751e76e8199196d454941c45d1b3a323f1433bd6'],
+    ['tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7', AddressType.P2WSH,
+      '00201863143c14c5166804bd19203356da136c985678cd4d27a1b8c6329604903262'],
+    ['bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0', AddressType.P2TR,
+      '512079be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'],
+    ['bc1zw508d6qejxtdg4y5r3zarvaryvaxxpcs', AddressType.WITNESS_UNKNOWN, '5210751e76e8199196d454941c45d1b3a323'],
+    ['BC1SW50QGDZ25J', AddressType.WITNESS_UNKNOWN, '6002751e'],
+    ['1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2', AddressType.P2PKH, '76a91477bff20c60e522dfaa3350c39b030a5d004e839a88ac'],
+    ['3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy', AddressType.P2SH, 'a914b472a266d0bd89c13706a4132ccfb16f7c3b9fcb87']
+  ])('should decode %s to its scriptPubKey and back', (address, type, script) => {
+    const decoded = validator.decodeAddress(address);
+
+    expect(decoded.addressType).toBe(type);
+    expect(decoded.scriptPubKey).toBe(script);
+    expect(validator.getScriptType(script)).toBe(type);
+    expect(validator.scriptPubKeyToAddress(script, decoded.network)).toBe(
+      type === AddressType.P2PKH || type === AddressType.P2SH ? address : address.toLowerCase()
+    );
+  });
+
+  it('should expose witness version and program', () => {
+    const decoded = validator.decodeAddress('bc1zw508d6qejxtdg4y5r3zarvaryvaxxpcs');
+    expect(decoded.witnessVersion).toBe(2);
+    expect(decoded.witnessProgram).toBe('751e76e8199196d454941c45d1b3a323');
+  });
+
+  it('should encode the same script for each network', () => {
+    const script = '0014751e76e8199196d454941c45d1b3a323f1433bd6';
+    expect(validator.scriptPubKeyToAddress(script, 'testnet')).toBe('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx');
+    expect(validator.scriptPubKeyToAddress(script, 'signet')).toBe('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx');
+    expect(validator.decodeAddress(validator.scriptPubKeyToAddress(script, 'regtest')).network).toBe('regtest');
+    expect(validator.decodeAddress('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx', ['signet']).network).toBe('signet');
+  });
+
+  it('should decode silent payment addresses as a distinct type', () => {
+    const address = 'sp1qqgste7k9hx0qftg6qmwlkqtwuy6cycyavzmzj85c6qdfhjdpdjtdgqjuexzk6murw56suy3e0rd2cgqvycxttddwsvgxe2usfpxumr70xc9pkqwv';
+    const result = validator.validateBitcoinAddress(address);
+
+    expect(result).toMatchObject({ isValid: true, addressType: AddressType.SILENT_PAYMENT, network: 'mainnet' });
+    expect(result.scriptPubKey).toBeUndefined();
+    expect(result.silentPayment).toEqual({
+      version: 0,
+      scanKey: '0220bcfac5b99e04ad1a06ddfb016ee13582609d60b6291e98d01a9bc9a16c96d4',
+      spendKey: '025cc9856d6f8375350e123978daac200c260cb5b5ae83106cab90484dcd8fcf36'
+    });
+    expect(() => validator.addressToScriptPubKey(address)).toThrow('no fixed scriptPubKey');
+  });
+
+  it('should reject bad checksums, mixed case and disallowed networks', () => {
+    // v0 program with a bech32m checksum (BIP350)
+    expect(validator.validateBitcoinAddress('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kemeawh').errors)
+      .toContain('Invalid bech32 checksum');
+    expect(validator.validateBitcoinAddress('bc1qW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4').errors)
+      .toContain('Mixed-case bech32 address');
+    expect(validator.validateBitcoinAddress('1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN3').isValid).toBe(false);
+    expect(() => validator.decodeAddress('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx', ['mainnet']))
+      .toThrow('Network testnet not allowed');
+    expect(() => validator.scriptPubKeyToAddress('6a0b68656c6c6f20776f726c64')).toThrow('Unsupported scriptPubKey');
+  });
+});
+
+describe('address validation across networks', () => {
+  it('should accept every supported network when asked to', () => {
+    const validator = new AddressValidator();
+    expect(validator.validateBitcoinAddress('mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn', ALL_NETWORKS)).toMatchObject({
+      isValid: true,
+      addressType: AddressType.P2PKH,
+      network: 'testnet',
+      scriptPubKey: '76a914243f1394f44554f4ce3fd68649c19adc483ce92488ac'
+    });
+  });
+});
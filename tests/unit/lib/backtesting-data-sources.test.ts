@@ -0,0 +1,164 @@
+/**
+ * Backtesting candle sources tests (Jest)
+ */
+
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import {
+  CachedCandleStore,
+  FileCandleSource,
+  normalizeCandles,
+  parseCandlesCsv,
+  parseCandlesJson,
+  resampleCandles
+} from '@/lib/backtesting/data-sources';
+import type { Candle, CandleQuery, CandleSource } from '@/lib/backtesting/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+function candle(day: number, close = 100 + day): Candle {
+  return { date: new Date(START + day * DAY), open: close, high: close + 1, low: close - 1, close, volume: 10 };
+}
+
+function query(fromDay: number, toDay: number): CandleQuery {
+  return {
+    symbol: 'BTCUSDT',
+    interval: '1d',
+    startDate: new Date(START + fromDay * DAY),
+    endDate: new Date(START + toDay * DAY)
+  };
+}
+
+describe('normalizeCandles', () => {
+  it('should sort, dedupe and report gaps', () => {
+    const input = [candle(3), candle(0), candle(1), candle(1), candle(1, 999), candle(5)];
+    const { candles, report } = normalizeCandles(input, '1d', 'test');
+
+    expect(candles.map(c => c.date.getTime())).toEqual([0, 1, 3, 5].map(d => START + d * DAY));
+    expect(report.duplicates).toBe(2);
+    expect(report.conflictingDuplicates).toBe(1);
+    expect(report.gaps).toHaveLength(2);
+    expect(report.gaps[0].missing).toBe(1);
+  });
+
+  it('should drop candles with inconsistent prices', () => {
+    const broken = { ...candle(2), high: 50 };
+    const { candles, report } = normalizeCandles([candle(1), broken], '1d');
+
+    expect(candles).toHaveLength(1);
+    expect(report.invalid).toBe(1);
+  });
+});
+
+describe('resampleCandles', () => {
+  it('should start weekly candles on Monday', () => {
+    // 2024-01-01 is a Monday
+    const daily = Array.from({ length: 14 }, (_, day) => candle(day));
+    const weekly = resampleCandles(daily, '1w');
+
+    expect(weekly.map(c => c.date.toISOString().slice(0, 10))).toEqual(['2024-01-01', '2024-01-08']);
+    expect(weekly[0]).toMatchObject({ open: 100, close: 106, high: 107, low: 99, volume: 70 });
+  });
+});
+
+describe('candle file parsing', () => {
+  it('should parse CSV with header in any column order', () => {
+    const csv = 'close,open,high,low,volume,timestamp\n101,100,102,99,5,1704067200\n';
+    const [parsed] = parseCandlesCsv(csv);
+
+    expect(parsed.date.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    expect(parsed.open).toBe(100);
+    expect(parsed.close).toBe(101);
+  });
+
+  it('should parse JSON arrays and objects', () => {
+    const fromArrays = parseCandlesJson('[[1704067200000, 1, 2, 0.5, 1.5, 10]]');
+    const fromObjects = parseCandlesJson('{"candles": [{"date": "2024-01-01", "open": 1, "high": 2, "low": 0.5, "close": 1.5}]}');
+
+    expect(fromArrays[0].date.getTime()).toBe(START);
+    expect(fromObjects[0].volume).toBe(0);
+  });
+
+  it('should filter file candles by query range', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'candles-'));
+    const json = JSON.stringify([0, 1, 2, 3].map(d => [START + d * DAY, 1, 2, 0.5, 1.5, 1]));
+    await fs.writeFile(path.join(dir, 'BTCUSDT-1d.json'), json);
+
+    const source = new FileCandleSource(path.join(dir, '{symbol}-{interval}.json'));
+    const candles = await source.getCandles(query(1, 2));
+
+    expect(candles).toHaveLength(2);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
+
+describe('CachedCandleStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'candle-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should only fetch missing ranges and replay offline', async () => {
+    const calls: CandleQuery[] = [];
+    const upstream: CandleSource = {
+      name: 'fake',
+      getCandles: async (q) => {
+        calls.push(q);
+        const candles: Candle[] = [];
+        const first = Math.ceil((q.startDate.getTime() - START) / DAY);
+        const last = Math.floor((q.endDate.getTime() - START) / DAY);
+        for (let day = first; day <= last; day++) candles.push(candle(day));
+        return candles;
+      }
+    };
+
+    const store = new CachedCandleStore(upstream, { directory: dir });
+    expect(await store.getCandles(query(0, 4))).toHaveLength(5);
+    expect(await store.getCandles(query(2, 6))).toHaveLength(5);
+    expect(calls).toHaveLength(2);
+    expect(calls[1].startDate.getTime()).toBeGreaterThan(START + 4 * DAY);
+
+    const offline = new CachedCandleStore(upstream, { directory: dir, offline: true });
+    const replayed = await offline.getCandles(query(0, 6));
+    expect(replayed.map(c => c.close)).toEqual([100, 101, 102, 103, 104, 105, 106]);
+    expect(calls).toHaveLength(2);
+
+    await expect(offline.getCandles(query(0, 10))).rejects.toThrow('Offline candle cache');
+  });
+
+  it('should refetch a candle cached while it was still forming', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(START + 3 * DAY + DAY / 2);
+    const calls: CandleQuery[] = [];
+    const upstream: CandleSource = {
+      name: 'fake',
+      getCandles: async (q) => {
+        calls.push(q);
+        const today = Math.floor((Date.now() - START) / DAY);
+        const candles: Candle[] = [];
+        const first = Math.ceil((q.startDate.getTime() - START) / DAY);
+        const last = Math.min(today, Math.floor((q.endDate.getTime() - START) / DAY));
+        for (let day = first; day <= last; day++) candles.push(candle(day, day === today ? 999 : 100 + day));
+        return candles;
+      }
+    };
+
+    try {
+      const store = new CachedCandleStore(upstream, { directory: dir });
+      expect((await store.getCandles(query(0, 5))).map(c => c.close)).toEqual([100, 101, 102, 999]);
+
+      now.mockReturnValue(START + 4 * DAY + DAY / 2);
+      expect((await store.getCandles(query(0, 5))).map(c => c.close)).toEqual([100, 101, 102, 103, 999]);
+      expect(calls).toHaveLength(2);
+      expect(calls[1].startDate.getTime()).toBe(START + 2 * DAY + 1);
+    } finally {
+      now.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Walk-forward optimizer tests (Jest)
+ */
+
+import {
+  WalkForwardOptimizer,
+  computeMetrics,
+  deflatedSharpeRatio,
+  probabilityOfBacktestOverfitting
+} from '@/lib/backtesting/optimizer';
+import { movingAverageCrossover, withParameters, type ParameterizedStrategy } from '@/lib/backtesting/strategies';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Deterministic uptrend with cycles, so crossovers have something to trade
+function bars(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    timestamp: Date.UTC(2023, 0, 1) + i * DAY,
+    close: 100 * (1 + i * 0.002) * (1 + 0.08 * Math.sin(i / 9))
+  }));
+}
+
+const threshold: ParameterizedStrategy = {
+  name: 'Momentum',
+  description: 'Compra quando o retorno de N candles passa do limite',
+  parameters: {
+    lookback: { min: 2, max: 10, step: 2, integer: true },
+    threshold: { min: 0, max: 0.04, step: 0.01 }
+  },
+  defaults: { lookback: 4, threshold: 0.01 },
+  isValid: params => !(params.lookback === 10 && params.threshold === 0.04),
+  signals: (closes, params) => closes.map((price, i) => {
+    if (i < params.lookback) return 'HOLD';
+    const change = price / closes[i - params.lookback] - 1;
+    if (change > params.threshold) return 'BUY';
+    if (change < -params.threshold) return 'SELL';
+    return 'HOLD';
+  })
+};
+
+describe('WalkForwardOptimizer', () => {
+  const data = bars(400);
+
+  it('should roll in-sample and out-of-sample windows without overlap', async () => {
+    const report = await new WalkForwardOptimizer().optimize(threshold, data, {
+      inSampleBars: 120, outOfSampleBars: 40
+    });
+
+    expect(report.windows).toHaveLength(7);
+    report.windows.forEach((window, i) => {
+      expect(window.inSample.start.getTime()).toBe(data[i * 40].timestamp);
+      expect(window.outOfSample.start.getTime()).toBe(data[120 + i * 40].timestamp);
+      // Full grid minus the combination rejected by isValid
+      expect(window.trials).toBe(24);
+    });
+    expect(report.outOfSample.bars).toBe(7 * 39);
+    expect(report.recommended).toEqual(report.windows[6].parameters);
+  });
+
+  it('should anchor the in-sample window to the first bar', async () => {
+    const report = await new WalkForwardOptimizer().optimize(threshold, data, {
+      inSampleBars: 120, outOfSampleBars: 40, anchored: true
+    });
+
+    expect(report.windows.every(w => w.inSample.start.getTime() === data[0].timestamp)).toBe(true);
+  });
+
+  it('should reproduce random search with the same seed', async () => {
+    const options = { inSampleBars: 150, outOfSampleBars: 50, method: 'random' as const, evaluations: 10, seed: 7 };
+    const a = await new WalkForwardOptimizer().optimize(movingAverageCrossover, data, options);
+    const b = await new WalkForwardOptimizer().optimize(movingAverageCrossover, data, options);
+
+    expect(a.windows.map(w => w.parameters)).toEqual(b.windows.map(w => w.parameters));
+    a.windows.forEach(w => {
+      expect(w.trials).toBeLessThanOrEqual(10);
+      expect(w.parameters.fastPeriod).toBeLessThan(w.parameters.slowPeriod);
+      expect(w.parameters.slowPeriod % 10).toBe(0);
+    });
+  });
+
+  it('should keep bayesian search within budget and report bounded overfitting metrics', async () => {
+    const report = await new WalkForwardOptimizer().optimize(movingAverageCrossover, data, {
+      inSampleBars: 150, outOfSampleBars: 50, method: 'bayesian', evaluations: 12
+    });
+
+    report.windows.forEach(w => expect(w.trials).toBeLessThanOrEqual(12));
+    expect(report.stability.score).toBeGreaterThanOrEqual(0);
+    expect(report.stability.score).toBeLessThanOrEqual(1);
+    expect(report.overfitting.deflatedSharpeRatio).toBeGreaterThanOrEqual(0);
+    expect(report.overfitting.deflatedSharpeRatio).toBeLessThanOrEqual(1);
+    expect(report.overfitting.probabilityOfOverfitting).not.toBeNull();
+    expect(report.overfitting.probabilityOfOverfitting!).toBeGreaterThanOrEqual(0);
+    expect(report.overfitting.probabilityOfOverfitting!).toBeLessThanOrEqual(1);
+  });
+
+  it('should stop when asked', async () => {
+    const optimizer = new WalkForwardOptimizer();
+    const run = optimizer.optimize(movingAverageCrossover, data, { inSampleBars: 150, outOfSampleBars: 50 });
+    optimizer.stop();
+
+    await expect(run).rejects.toThrow('Optimization stopped');
+  });
+
+  it('should reject overlapping steps and short series', async () => {
+    const optimizer = new WalkForwardOptimizer();
+    await expect(optimizer.optimize(threshold, data, { inSampleBars: 100, outOfSampleBars: 50, stepBars: 20 }))
+      .rejects.toThrow('stepBars');
+    await expect(optimizer.optimize(threshold, bars(50), { inSampleBars: 100, outOfSampleBars: 50 }))
+      .rejects.toThrow('Need at least 150 bars');
+  });
+
+  it('should cap the grid regardless of the evaluation budget', async () => {
+    const wide = { ...threshold, parameters: { ...threshold.parameters, lookback: { min: 1, max: 100_000, integer: true } } };
+    await expect(new WalkForwardOptimizer().optimize(wide, data, { inSampleBars: 120, outOfSampleBars: 40, evaluations: 1e9 }))
+      .rejects.toThrow('Grid has 500000 combinations (limit 5000)');
+  });
+});
+
+describe('overfitting statistics', () => {
+  it('should compute drawdown and returns from per-bar returns', () => {
+    const metrics = computeMetrics([0.1, -0.5, 0.2], 365);
+
+    expect(metrics.totalReturn).toBeCloseTo(1.1 * 0.5 * 1.2 - 1);
+    expect(metrics.maxDrawdown).toBeCloseTo(0.5);
+    expect(metrics.exposure).toBe(1);
+  });
+
+  it('should deflate the Sharpe ratio as the number of trials grows', () => {
+    const returns = Array.from({ length: 250 }, (_, i) => 0.001 + 0.01 * Math.sin(i));
+    const few = deflatedSharpeRatio(returns, [0.05, 0.1]);
+    const many = deflatedSharpeRatio(returns, Array.from({ length: 200 }, (_, i) => 0.1 * Math.sin(i)));
+
+    expect(few).toBeGreaterThan(many);
+  });
+
+  it('should flag a configuration that only wins in-sample', () => {
+    // Configuration 0 wins the first half and loses the second
+    const length = 160;
+    const configs = Array.from({ length: 6 }, (_, c) => Array.from({ length }, (_, i) => {
+      const noise = 0.001 * Math.sin(i * (c + 1));
+      if (c === 0) return (i < length / 2 ? 0.01 : -0.01) + noise;
+      return 0.0005 + noise;
+    }));
+
+    expect(probabilityOfBacktestOverfitting(configs, 4)).toBeGreaterThan(0);
+    expect(probabilityOfBacktestOverfitting([configs[1]], 4)).toBeNull();
+  });
+});
+
+describe('withParameters', () => {
+  it('should adapt a parameterized strategy to the engine interface', async () => {
+    const params = { fastPeriod: 5, slowPeriod: 20 };
+    const closes = bars(60).map(bar => bar.close);
+    const strategy = withParameters(movingAverageCrossover, params);
+    const signals = [];
+    for (const close of closes) signals.push(await strategy.execute({ close }));
+
+    expect(strategy.name).toBe('Moving Average Crossover (fastPeriod=5, slowPeriod=20)');
+    expect(signals.slice(0, 19).every(s => s === 'HOLD')).toBe(true);
+    expect(signals).toEqual(movingAverageCrossover.signals(closes, params));
+  });
+});
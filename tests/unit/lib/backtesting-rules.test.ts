@@ -0,0 +1,132 @@
+/**
+ * Backtesting rule compiler tests (Jest)
+ */
+
+import {
+  compileRules,
+  compileStrategy,
+  evaluateSignal,
+  parseIndicator,
+  RuleContext,
+  signalAt
+} from '@/lib/backtesting/rules';
+import type { Candle, TradingStrategy } from '@/lib/backtesting/types';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+function candlesFromCloses(closes: number[]): Candle[] {
+  return closes.map((close, i) => ({
+    date: new Date(START + i * HOUR),
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 100
+  }));
+}
+
+function strategy(overrides: Partial<TradingStrategy>): TradingStrategy {
+  return {
+    name: 'test',
+    entryRules: [],
+    exitRules: [],
+    positionSizing: { type: 'fixed', amount: 1 },
+    riskManagement: { maxDrawdown: 20, maxPositionSize: 1, maxDailyLoss: 5, maxOpenPositions: 1 },
+    ...overrides
+  };
+}
+
+describe('parseIndicator', () => {
+  it('should resolve params, fields, aliases and timeframes', () => {
+    expect(parseIndicator('rsi').key).toBe('rsi(14).value');
+    expect(parseIndicator('sma20').params).toEqual([20]);
+    expect(parseIndicator('macd(8,21).histogram').key).toBe('macd(8,21,9).histogram');
+    expect(parseIndicator('bb(20, 2.5).lower@4h')).toMatchObject({
+      name: 'bollingerBands',
+      params: [20, 2.5],
+      field: 'lower',
+      timeframe: '4h'
+    });
+    expect(parseIndicator('price').name).toBe('close');
+  });
+
+  it('should reject unknown indicators and fields', () => {
+    expect(() => parseIndicator('vwap(20)')).toThrow('Unknown indicator');
+    expect(() => parseIndicator('macd.foo')).toThrow('Unknown field');
+    expect(() => parseIndicator('ema(20)@3h')).toThrow('Unknown timeframe');
+  });
+});
+
+describe('rule evaluation', () => {
+  const closes = [10, 10, 10, 10, 9, 8, 7, 8, 10, 12, 14, 15];
+  const ctx = new RuleContext(candlesFromCloses(closes), '1h');
+
+  it('should detect crosses between two indicators only on the crossing candle', () => {
+    const rule = compileRules([{ indicator: 'sma(2)', condition: 'crosses_above', value: 'sma(4)' }]);
+    const hits = closes.map((_, i) => rule.evaluate(ctx, i));
+
+    expect(hits.filter(Boolean)).toHaveLength(1);
+    expect(hits.indexOf(true)).toBe(8);
+  });
+
+  it('should combine AND/OR groups', () => {
+    const rule = compileRules([
+      { indicator: 'close', condition: 'above', value: 9 },
+      {
+        operator: 'OR',
+        rules: [
+          { indicator: 'close', condition: 'above', value: 14 },
+          { indicator: 'close', condition: 'below', value: 10.5 }
+        ]
+      }
+    ]);
+
+    expect(rule.evaluate(ctx, 0)).toBe(true); // 10
+    expect(rule.evaluate(ctx, 9)).toBe(false); // 12
+    expect(rule.evaluate(ctx, 11)).toBe(true); // 15
+    expect(rule.evaluate(ctx, 6)).toBe(false); // 7
+  });
+
+  it('should only expose closed higher-timeframe candles', () => {
+    const ref = parseIndicator('close@4h');
+    // Candles 0-3 formam o primeiro candle de 4h, que só fecha no índice 3
+    expect(ctx.valueAt(ref, 2)).toBeNaN();
+    expect(ctx.valueAt(ref, 3)).toBe(10);
+    expect(ctx.valueAt(ref, 6)).toBe(10);
+    expect(ctx.valueAt(ref, 7)).toBe(8);
+  });
+});
+
+describe('evaluateSignal', () => {
+  it('should drive live signals from the same strategy definition', () => {
+    const definition = strategy({
+      entryRules: [{ indicator: 'close', condition: 'crosses_above', value: 'sma(3)' }],
+      exitRules: [
+        { type: 'stop_loss', value: 2 },
+        { type: 'indicator', indicator: 'close', condition: 'below', value: 5 }
+      ]
+    });
+
+    const compiled = compileStrategy(definition);
+    expect(compiled.stopLossPercent).toBe(2);
+
+    expect(evaluateSignal(compiled, candlesFromCloses([10, 9, 8, 12]), '1h')).toBe('BUY');
+    expect(evaluateSignal(compiled, candlesFromCloses([10, 9, 8, 4]), '1h')).toBe('SELL');
+    expect(evaluateSignal(compiled, candlesFromCloses([10, 11, 12, 13]), '1h')).toBe('HOLD');
+  });
+
+  it('should give the same signals from one context over the whole series as from each prefix', () => {
+    const compiled = compileStrategy(strategy({
+      entryRules: [{ indicator: 'rsi(3)', condition: 'crosses_above', value: 50 }],
+      exitRules: [{ type: 'indicator', indicator: 'close', condition: 'crosses_below', value: 'ema(4)' }]
+    }));
+    const candles = candlesFromCloses([10, 9, 8, 9, 11, 12, 10, 8, 9, 12, 13, 11, 9, 10, 14]);
+    const ctx = new RuleContext(candles, '1h');
+
+    const full = candles.map((_, i) => signalAt(compiled, ctx, i));
+    const prefixes = candles.map((_, i) => evaluateSignal(compiled, candles.slice(0, i + 1), '1h'));
+    expect(full).toEqual(prefixes);
+    expect(full).toEqual(expect.arrayContaining(['BUY', 'SELL']));
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Portfolio export and tax lot tests (Jest)
+ */
+
+import { PortfolioCalculator } from '@/lib/services/PortfolioCalculator';
+import { PortfolioExporter } from '@/lib/services/PortfolioExporter';
+import { crc32 } from '@/lib/export/zip';
+import type { Portfolio, Transaction } from '@/types/portfolio';
+
+const DAY = 24 * 60 * 60 * 1000;
+const JAN_10 = Date.UTC(2024, 0, 10);
+
+function tx(id: string, type: 'buy' | 'sell', amount: number, price: number, timestamp: number, feeUSD = 0): Transaction {
+  return {
+    id,
+    txid: `${id}-txid`,
+    date: new Date(timestamp).toISOString(),
+    timestamp,
+    type,
+    asset: 'BTC',
+    assetType: 'bitcoin',
+    amount,
+    price,
+    totalValue: amount * price,
+    fee: 0,
+    feeUSD,
+    confirmations: 6,
+    status: 'confirmed'
+  };
+}
+
+const transactions = [
+  tx('b1', 'buy', 1, 100, JAN_10),
+  tx('b2', 'buy', 1, 200, JAN_10 + DAY),
+  tx('s1', 'sell', 1, 300, Date.UTC(2024, 1, 5))
+];
+
+function portfolio(): Portfolio {
+  return {
+    address: 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4',
+    lastUpdated: '2024-03-01T00:00:00.000Z',
+    metrics: {
+      totalValue: 400, totalCost: 200, totalPNL: 400, totalPNLPercentage: 200, unrealizedPNL: 200, realizedPNL: 200,
+      dayReturnPercentage: 0, weekReturnPercentage: 0, monthReturnPercentage: 0, yearReturnPercentage: 0,
+      volatility: 0, sharpeRatio: 0, maxDrawdown: 0, winRate: 100, totalTransactions: 3, totalFees: 0, profitFactor: Infinity
+    } as any,
+    holdings: [{
+      asset: 'BTC', assetType: 'bitcoin', totalAmount: 1, averageBuyPrice: 200, currentPrice: 400, currentValue: 400,
+      totalCost: 200, unrealizedPNL: 200, realizedPNL: 200, totalPNL: 400, totalPNLPercentage: 200, dayChangePercentage: 0
+    } as any],
+    transactions,
+    performanceHistory: [],
+    riskAnalysis: {} as any,
+    aiInsights: [],
+    marketContext: {} as any,
+    settings: { costBasisMethod: 'FIFO', baseCurrency: 'USD', timezone: 'UTC' }
+  };
+}
+
+describe('PortfolioCalculator tax lots', () => {
+  it.each([
+    ['FIFO', 100, 200],
+    ['LIFO', 200, 100],
+    ['HIFO', 200, 100],
+    ['WAC', 150, 150]
+  ] as const)('should match sells with %s', (method, costBasis, openCost) => {
+    const ledger = new PortfolioCalculator(method).buildTaxLots(transactions);
+
+    expect(ledger.disposals.reduce((sum, d) => sum + d.costBasis, 0)).toBeCloseTo(costBasis);
+    expect(ledger.disposals.reduce((sum, d) => sum + d.realizedPNL, 0)).toBeCloseTo(300 - costBasis);
+    expect(ledger.lots.reduce((sum, lot) => sum + lot.remainingCost, 0)).toBeCloseTo(openCost);
+    expect(ledger.unmatched).toEqual([]);
+  });
+
+  it('should split a sell across lots and report unmatched quantity', () => {
+    const ledger = new PortfolioCalculator('FIFO').buildTaxLots([
+      ...transactions,
+      tx('s2', 'sell', 2, 250, Date.UTC(2024, 1, 20), 5)
+    ]);
+
+    const s2 = ledger.disposals.filter(d => d.sellTransactionId === 's2');
+    expect(s2).toHaveLength(1);
+    expect(s2[0]).toMatchObject({ lotId: 'b2-lot', quantity: 1, costBasis: 200, proceeds: 247.5 });
+    expect(ledger.unmatched).toEqual([{ transactionId: 's2', asset: 'BTC', quantity: 1, proceeds: 247.5 }]);
+  });
+
+  it('should report realized and unrealized P&L per month', () => {
+    const periods = new PortfolioCalculator('FIFO').calculatePnLByPeriod(
+      transactions, 'month', { BTC: 400 }, new Date(Date.UTC(2024, 2, 15))
+    );
+
+    expect(periods.map(p => p.period)).toEqual(['2024-01', '2024-02', '2024-03']);
+    // January: both lots marked at the last trade price (200)
+    expect(periods[0]).toMatchObject({ realizedPNL: 0, unrealizedPNL: 100 });
+    // February: lot b1 sold at 300, b2 marked at 300
+    expect(periods[1]).toMatchObject({ proceeds: 300, costBasis: 100, realizedPNL: 200, unrealizedPNL: 100, unrealizedChange: 0 });
+    // March (open period): b2 marked at the current price
+    expect(periods[2]).toMatchObject({ realizedPNL: 0, unrealizedPNL: 200, unrealizedChange: 100 });
+  });
+});
+
+describe('PortfolioExporter', () => {
+  const exporter = new PortfolioExporter();
+  const generatedAt = new Date(Date.UTC(2024, 2, 15));
+
+  it('should round-trip the canonical JSON export', () => {
+    const file = exporter.generate(portfolio(), 'json', { generatedAt });
+    const json = file.content as string;
+
+    expect(file.mimeType).toBe('application/json');
+    expect(exporter.generate(portfolio(), 'json', { generatedAt }).content).toBe(json);
+
+    const document = JSON.parse(json);
+    expect(Object.keys(document)).toEqual([...Object.keys(document)].sort());
+    expect(document.taxLots.disposals[0]).toMatchObject({ lotId: 'b1-lot', acquiredDate: '2024-01-10T00:00:00.000Z' });
+    expect(document.methodComparison.map((c: any) => c.realizedPNL)).toEqual([200, 100, 100, 150]);
+
+    const restored = exporter.importFromJSON(json);
+    expect(restored.transactions).toEqual(transactions);
+    expect(restored.metrics.profitFactor).toBeNull();
+    expect(() => exporter.importFromJSON('{"format":"other"}')).toThrow('Not a portfolio export');
+    expect(() => exporter.importFromJSON(json.replace('"version": 1', '"version": 2'))).toThrow('Unsupported');
+  });
+
+  it('should include lots and period P&L in the CSV', () => {
+    const csv = exporter.generate(portfolio(), 'csv', { generatedAt, costBasisMethod: 'LIFO' }).content as string;
+
+    expect(csv).toContain('"Cost Basis Method","LIFO"');
+    expect(csv).toContain('"Tax Lots (LIFO)"');
+    expect(csv).toContain('"b2-lot","BTC","2024-01-11","2024-02-05","1","300","200","100","short"');
+  });
+
+  it('should write an XLSX zip container', () => {
+    const content = exporter.generate(portfolio(), 'xlsx', { generatedAt }).content as Uint8Array;
+    const text = Buffer.from(content).toString('latin1');
+
+    expect(text.startsWith('PK\u0003\u0004')).toBe(true);
+    expect(text).toContain('xl/workbook.xml');
+    expect(text).toContain('<sheet name="Tax Lots (FIFO)" sheetId="4" r:id="rId4"/>');
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should write a PDF with a valid cross-reference table', () => {
+    const content = exporter.generate(portfolio(), 'pdf', { generatedAt }).content as Uint8Array;
+    const text = Buffer.from(content).toString('latin1');
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text).toContain('(Open Tax Lots) Tj');
+
+    const startxref = Number(text.match(/startxref\n(\d+)/)![1]);
+    expect(text.slice(startxref, startxref + 4)).toBe('xref');
+    const offsets = text.slice(startxref).match(/^\d{10} 00000 n $/gm)!.map(line => Number(line.slice(0, 10)));
+    offsets.forEach((offset, i) => expect(text.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+  });
+});
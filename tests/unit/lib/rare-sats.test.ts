@@ -0,0 +1,107 @@
+/**
+ * Ordinal theory / rare sats tests (Jest)
+ */
+
+import {
+  EXOTIC_CATEGORIES,
+  LAST_SAT,
+  SAT_SUPPLY,
+  analyzeSat,
+  findRareSatsInUTXO,
+  formatDecimal,
+  formatDegree,
+  getSatHeight,
+  getSatName,
+  getSatNumberFromBlockHeight,
+  getSatRarity,
+  parseDegree,
+  parseSatName
+} from '@/lib/rareSats';
+
+describe('ordinal numbering', () => {
+  it('should compute the total supply and epoch boundaries in closed form', () => {
+    expect(SAT_SUPPLY).toBe(2_099_999_997_690_000n);
+    expect(getSatNumberFromBlockHeight(210_000)).toBe(1_050_000_000_000_000n);
+    expect(getSatNumberFromBlockHeight(840_000)).toBe(1_968_750_000_000_000n);
+    expect(getSatNumberFromBlockHeight(840_001)).toBe(1_968_750_312_500_000n);
+  });
+
+  it('should map sats back to block height and offset', () => {
+    expect(getSatHeight(1_968_750_312_499_999n)).toBe(840_000);
+    expect(formatDecimal(1_968_750_000_000_123n)).toBe('840000.123');
+    expect(() => getSatHeight(SAT_SUPPLY)).toThrow('outside the supply');
+  });
+
+  it('should format and parse degree notation', () => {
+    expect(formatDegree(0n)).toBe('0°0′0″0‴');
+    expect(formatDegree(1_968_750_000_000_000n)).toBe('0°0′1344″0‴');
+    expect(formatDegree(getSatNumberFromBlockHeight(2016, 7n))).toBe('0°2016′0″7‴');
+
+    for (const sat of [0n, 1_968_750_000_000_000n, 1_234_567_890_123_456n, LAST_SAT]) {
+      expect(parseDegree(formatDegree(sat))).toBe(sat);
+    }
+    expect(parseDegree('1°0′0″0‴')).toBe(getSatNumberFromBlockHeight(1_260_000));
+    expect(() => parseDegree('0°0′1″0‴')).toThrow('does not match any block');
+  });
+
+  it('should encode and decode sat names', () => {
+    expect(getSatName(0n)).toBe('nvtdijuwxlp');
+    expect(getSatName(LAST_SAT)).toBe('a');
+    expect(getSatName(LAST_SAT - 26n)).toBe('aa');
+    expect(parseSatName('nvtdijuwxlp')).toBe(0n);
+    expect(parseSatName(getSatName(1_234_567_890n))).toBe(1_234_567_890n);
+    expect(() => parseSatName('zzzzzzzzzzzz')).toThrow('out of range');
+  });
+});
+
+describe('sat rarity', () => {
+  it('should classify the first sats of blocks, periods, epochs and cycles', () => {
+    expect(getSatRarity(0n)).toBe('mythic');
+    expect(getSatRarity(45_000_000_000n)).toBe('uncommon'); // block 9
+    expect(getSatRarity(getSatNumberFromBlockHeight(2016))).toBe('rare');
+    expect(getSatRarity(1_050_000_000_000_000n)).toBe('epic');
+    expect(getSatRarity(getSatNumberFromBlockHeight(1_260_000))).toBe('legendary');
+    expect(getSatRarity(45_000_000_001n)).toBe('common');
+  });
+
+  it('should tag exotic sats', () => {
+    const names = (sat: bigint) => analyzeSat(sat).categories.map(c => c.name);
+
+    expect(names(45_000_000_000n)).toEqual(['Uncommon', 'Alpha', 'Block 9', 'Vintage']);
+    expect(names(44_999_999_999n)).toEqual(['Black', 'Omega', 'Vintage']);
+    expect(names(1_234_554_321n)).toEqual(['Palindrome', 'Vintage']);
+    expect(analyzeSat(7_777_777_777_777n, { pizzaRanges: [[7_777_777_777_000n, 7_777_777_778_000n]] }).categories)
+      .toContain(EXOTIC_CATEGORIES.pizza);
+  });
+});
+
+describe('findRareSatsInUTXO', () => {
+  it('should list notable sats and satribute ranges with their output offsets', () => {
+    const { sats, ranges } = findRareSatsInUTXO({
+      satRanges: [
+        [44_999_999_990n, 45_000_000_010n],
+        [1_234_554_316n, 1_234_554_326n]
+      ]
+    });
+
+    expect(sats.map(s => [s.satNumber, s.offset, s.rarity])).toEqual([
+      [44_999_999_999n, 9n, 'common'],
+      [45_000_000_000n, 10n, 'uncommon'],
+      [1_234_554_321n, 25n, 'common']
+    ]);
+    expect(ranges.map(r => [r.category.name, r.start, r.end, r.offset])).toEqual([
+      ['Block 9', 45_000_000_000n, 45_000_000_010n, 10n],
+      ['Vintage', 44_999_999_990n, 45_000_000_010n, 0n],
+      ['Vintage', 1_234_554_316n, 1_234_554_326n, 20n]
+    ]);
+  });
+
+  it('should find every palindrome inside a range', () => {
+    const { sats } = findRareSatsInUTXO({ satRanges: [[1_968_750_000_000_000n, 1_968_750_001_000_000n]] });
+    const palindromes = sats.filter(s => s.categories.includes(EXOTIC_CATEGORIES.palindrome));
+
+    // 16 digits: the first half is fixed by the range prefix 19687500
+    expect(palindromes.map(s => s.satNumber)).toEqual([1_968_750_000_578_691n]);
+    expect(sats[0]).toMatchObject({ satNumber: 1_968_750_000_000_000n, rarity: 'epic' });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Runestone codec tests (Jest)
+ */
+
+import {
+  type RawTransaction,
+  type RuneBalances,
+  U128_MAX,
+  applyRunestone,
+  crossCheckRuneTransfer,
+  decipherRunestone,
+  decodeVarint,
+  encodeRunestone,
+  encodeVarint,
+  formatSpacedRune,
+  parseSpacedRune,
+  parseTransaction,
+  reservedRune,
+  runeNameToValue,
+  runeValueToName
+} from '@/lib/runestone';
+import { bytesToHex } from '@/lib/addressValidation';
+
+const P2WPKH = '0014751e76e8199196d454941c45d1b3a323f1433bd6';
+const P2TR = '5120a60869f0dbcf1dc659c9cecbaf8050135ea9e8cdc487053f1dc6880949dc684c';
+const RUNE = { block: 840000n, tx: 3 };
+
+function hex(values: number[]): string {
+  return values.map(v => v.toString(16).padStart(2, '0')).join('');
+}
+
+// OP_RETURN OP_13 <push of raw varints>
+function script(integers: bigint[]): string {
+  const payload = integers.flatMap(encodeVarint);
+  return hex([0x6a, 0x5d, payload.length, ...payload]);
+}
+
+function tx(outputs: string[]): RawTransaction {
+  return {
+    version: 2,
+    inputs: [{ txid: '00'.repeat(32), vout: 0, scriptSig: '', sequence: 0xffffffff, witness: [] }],
+    outputs: outputs.map(scriptPubKey => ({ value: scriptPubKey.startsWith('6a') ? 0n : 546n, scriptPubKey })),
+    locktime: 0
+  };
+}
+
+describe('rune names', () => {
+  it('should use modified base-26', () => {
+    expect(['A', 'Z', 'AA', 'AZ', 'BA'].map(runeNameToValue)).toEqual([0n, 25n, 26n, 51n, 52n]);
+    expect(runeValueToName(26n)).toBe('AA');
+    expect(runeValueToName(U128_MAX)).toBe('BCGDENLQRQWDSLRUGSNLBTMFIJAV');
+    expect(runeNameToValue('BCGDENLQRQWDSLRUGSNLBTMFIJAV')).toBe(U128_MAX);
+    expect(() => runeNameToValue('BCGDENLQRQWDSLRUGSNLBTMFIJAW')).toThrow('out of range');
+  });
+
+  it('should round-trip spaced names', () => {
+    const { rune, spacers } = parseSpacedRune('UNCOMMON•GOODS');
+
+    expect(spacers).toBe(0b1000_0000);
+    expect(formatSpacedRune(rune, spacers)).toBe('UNCOMMON•GOODS');
+    expect(parseSpacedRune('DOG.GO.TO.THE.MOON').spacers).toBe(parseSpacedRune('DOG•GO•TO•THE•MOON').spacers);
+    expect(() => parseSpacedRune('•A')).toThrow('Leading spacer');
+    expect(() => parseSpacedRune('A••B')).toThrow('Double spacer');
+    expect(() => parseSpacedRune('AB•')).toThrow('Trailing spacer');
+  });
+
+  it('should number reserved runes after the reserved threshold', () => {
+    expect(runeValueToName(reservedRune(0n, 0))).toBe('AAAAAAAAAAAAAAAAAAAAAAAAAAA');
+  });
+});
+
+describe('varints', () => {
+  it('should round-trip LEB128 up to u128', () => {
+    for (const value of [0n, 127n, 128n, 300n, U128_MAX]) {
+      const bytes = Uint8Array.from(encodeVarint(value));
+      expect(decodeVarint(bytes)).toEqual([value, bytes.length]);
+    }
+    expect(encodeVarint(300n)).toEqual([0xac, 0x02]);
+    expect(() => decodeVarint(Uint8Array.from([0x80]))).toThrow('Unterminated');
+    expect(() => decodeVarint(Uint8Array.from([...new Array(18).fill(0xff), 0x04]))).toThrow('overflows');
+  });
+});
+
+describe('decipherRunestone', () => {
+  it('should round-trip an etching with terms, mint, pointer and edicts', () => {
+    const runestone = {
+      edicts: [
+        { id: { block: 840001n, tx: 7 }, amount: 5n, output: 2 },
+        { id: RUNE, amount: 0n, output: 1 }
+      ],
+      etching: {
+        divisibility: 2,
+        premine: 1000n,
+        rune: parseSpacedRune('UNCOMMON•GOODS').rune,
+        spacers: 128,
+        symbol: '⧉',
+        terms: { amount: 100n, cap: 1_000_000n, heightStart: 840000n, offsetEnd: 10_000n },
+        turbo: true
+      },
+      mint: { block: 1n, tx: 0 },
+      pointer: 0
+    };
+
+    const decoded = decipherRunestone(tx([P2WPKH, bytesToHex(encodeRunestone(runestone)), P2TR]));
+
+    expect(decoded).toEqual({
+      type: 'runestone',
+      ...runestone,
+      // Sorted by rune ID for delta encoding
+      edicts: [runestone.edicts[1], runestone.edicts[0]],
+      etching: { ...runestone.etching, terms: { ...runestone.etching.terms, cap: 1_000_000n } }
+    });
+  });
+
+  it('should ignore transactions without an OP_13 output', () => {
+    expect(decipherRunestone(tx([P2WPKH, '6a0401020304']))).toBeNull();
+  });
+
+  it.each([
+    ['an unknown even tag', [126n, 1n], 'unrecognized_even_tag'],
+    ['a tag without value', [22n], 'truncated_field'],
+    ['a partial edict', [0n, 840000n, 3n, 10n], 'trailing_integers'],
+    ['an edict past the outputs', [0n, 840000n, 3n, 10n, 3n], 'edict_output'],
+    ['an edict with rune ID 0:1', [0n, 0n, 1n, 10n, 0n], 'edict_rune_id'],
+    ['an unknown flag', [2n, 1n << 5n], 'unrecognized_flag'],
+    ['a supply overflow', [2n, 3n, 6n, U128_MAX, 8n, 1n, 10n, 1n], 'supply_overflow']
+  ])('should flag %s as a cenotaph', (_, integers, flaw) => {
+    expect(decipherRunestone(tx([P2WPKH, script(integers as bigint[])]))).toMatchObject({ type: 'cenotaph', flaws: [flaw] });
+  });
+
+  it('should flag malformed scripts and varints', () => {
+    expect(decipherRunestone(tx([P2WPKH, '6a5d51']))).toMatchObject({ flaws: ['opcode'] });
+    expect(decipherRunestone(tx([P2WPKH, '6a5d0501']))).toMatchObject({ flaws: ['invalid_script'] });
+    expect(decipherRunestone(tx([P2WPKH, '6a5d0180']))).toMatchObject({ flaws: ['varint'] });
+  });
+
+  it('should keep the etched rune and mint of a cenotaph', () => {
+    const cenotaph = decipherRunestone(tx([P2WPKH, script([2n, 1n, 4n, 99n, 20n, 840000n, 20n, 3n, 126n, 0n])]));
+    expect(cenotaph).toEqual({ type: 'cenotaph', flaws: ['unrecognized_even_tag'], etching: 99n, mint: RUNE });
+  });
+});
+
+describe('applyRunestone', () => {
+  const inputs: RuneBalances[] = [{ '840000:3': 1000n }, { '840000:3': 500n, '840001:1': 42n }];
+
+  it('should apply edicts and send the rest to the pointer', () => {
+    const result = applyRunestone(tx([P2WPKH, P2TR, script([22n, 1n, 0n, 840000n, 3n, 300n, 0n])]), inputs);
+
+    expect(result.outputs).toEqual({
+      0: { '840000:3': 300n },
+      1: { '840000:3': 1200n, '840001:1': 42n }
+    });
+    expect(result.burned).toEqual({});
+  });
+
+  it('should split across non-OP_RETURN outputs and burn what goes to OP_RETURN', () => {
+    const result = applyRunestone(
+      tx([P2WPKH, script([0n, 840000n, 3n, 0n, 3n, 1n, 1n, 42n, 1n]), P2TR]),
+      inputs
+    );
+
+    // 1500 split evenly; the 840001:1 edict targets the runestone output itself
+    expect(result.outputs).toEqual({ 0: { '840000:3': 750n }, 2: { '840000:3': 750n } });
+    expect(result.burned).toEqual({ '840001:1': 42n });
+  });
+
+  it('should burn every input rune and the mint of a cenotaph', () => {
+    const result = applyRunestone(tx([P2WPKH, script([20n, 840000n, 20n, 3n, 126n, 0n])]), inputs, {
+      mintAmount: () => 100n
+    });
+
+    expect(result.outputs).toEqual({});
+    expect(result.burned).toEqual({ '840000:3': 1600n, '840001:1': 42n });
+  });
+
+  it('should allocate the premine of a new etching using the 0:0 edict', () => {
+    const runestone = bytesToHex(encodeRunestone({
+      etching: { premine: 1000n, turbo: false },
+      edicts: [{ id: { block: 0n, tx: 0 }, amount: 400n, output: 1 }]
+    }));
+    const result = applyRunestone(tx([P2WPKH, P2TR, runestone]), [], { block: 850000, txIndex: 12 });
+
+    expect(result.etched).toEqual({ id: '850000:12', rune: reservedRune(850000n, 12), premine: 1000n });
+    expect(result.outputs).toEqual({ 0: { '850000:12': 600n }, 1: { '850000:12': 400n } });
+  });
+});
+
+describe('parseTransaction and crossCheckRuneTransfer', () => {
+  const runestone = script([0n, 840000n, 3n, 300n, 1n]);
+  const raw = '02000000' + '0001' + '01' + '11'.repeat(32) + '01000000' + '00' + 'fdffffff'
+    + '03'
+    + '2202000000000000' + hex([P2WPKH.length / 2]) + P2WPKH
+    + '2202000000000000' + hex([P2TR.length / 2]) + P2TR
+    + '0000000000000000' + hex([runestone.length / 2]) + runestone
+    + '01' + '40' + 'ab'.repeat(64)
+    + '00000000';
+
+  it('should parse a segwit transaction', () => {
+    const parsed = parseTransaction(raw);
+
+    expect(parsed.inputs[0]).toMatchObject({ vout: 1, sequence: 0xfffffffd, witness: ['ab'.repeat(64)] });
+    expect(parsed.outputs.map(o => o.value)).toEqual([546n, 546n, 0n]);
+    expect(() => parseTransaction(raw + '00')).toThrow('Trailing bytes');
+  });
+
+  it('should report where an indexer disagrees with the replayed transfer', () => {
+    const parsed = parseTransaction(raw);
+    const result = applyRunestone(parsed, [{ '840000:3': 1000n }]);
+
+    expect(crossCheckRuneTransfer(parsed, result, [
+      { vout: 0, runeId: '840000:3', amount: '700' },
+      { vout: 1, runeId: '840000:3', amount: 300n }
+    ]).matches).toBe(true);
+
+    const check = crossCheckRuneTransfer(parsed, result, [
+      { address: 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4', runeId: '840000:3', amount: '1000' }
+    ]);
+    expect(check.discrepancies).toEqual([
+      { location: 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4', runeId: '840000:3', expected: 700n, reported: 1000n },
+      { location: expect.stringMatching(/^bc1p/), runeId: '840000:3', expected: 300n, reported: 0n }
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Smart Money Concepts analyzer tests (Jest)
+ */
+
+import { SMCAnalyzer } from '@/lib/smc/analyzer';
+import type { SMCCandle } from '@/lib/smc/types';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+function candles(rows: Array<[number, number, number, number]>): SMCCandle[] {
+  return rows.map(([open, high, low, close], i) => ({ timestamp: START + i * HOUR, open, high, low, close }));
+}
+
+const at = (index: number) => new Date(START + index * HOUR);
+
+describe('SMCAnalyzer', () => {
+  const analyzer = new SMCAnalyzer({ swingLength: 1 });
+
+  const data = candles([
+    [100, 101, 99, 100],
+    [100, 105, 99, 104],
+    [104, 110, 103, 108], // swing high 110
+    [108, 109, 100, 101],
+    [101, 102, 95, 96], // swing low 95, último candle de baixa antes do impulso
+    [96, 104, 96, 103],
+    [103, 112, 103, 111], // fecha acima de 110: BOS de alta
+    [111, 113, 108, 109], // swing high 113
+    [109, 110, 101, 102], // volta ao order block e preenche o FVG
+    [102, 103, 90, 91], // fecha abaixo de 95: CHoCH de baixa
+    [91, 114, 92, 100] // pavio acima de 113 e fecha abaixo: varredura
+  ]);
+
+  const result = analyzer.analyze(data);
+
+  it('should detect swing points with candle timestamps', () => {
+    expect(result.swingPoints.map(s => [s.type, s.price])).toEqual([
+      ['high', 110],
+      ['low', 95],
+      ['high', 113],
+      ['low', 90]
+    ]);
+    expect(result.swingPoints[0].timestamp).toEqual(at(2));
+  });
+
+  it('should classify BOS and CHoCH', () => {
+    expect(result.breakOfStructure.map(b => [b.type, b.kind, b.level])).toEqual([
+      ['bullish', 'BOS', 110],
+      ['bearish', 'CHoCH', 95]
+    ]);
+    expect(result.breakOfStructure[0].timestamp).toEqual(at(6));
+    expect(result.currentTrend).toBe('bearish');
+  });
+
+  it('should mark the order block as tested when price returns', () => {
+    const bullish = result.orderBlocks.find(b => b.type === 'bullish');
+    expect(bullish).toMatchObject({ high: 102, low: 95, tested: true });
+    expect(bullish?.timestamp).toEqual(at(4));
+    expect(bullish?.mitigatedAt).toEqual(at(8));
+  });
+
+  it('should track fair value gap fills', () => {
+    const gap = result.fairValueGaps.find(g => g.type === 'bullish' && g.bottom === 102);
+    expect(gap).toMatchObject({ top: 103, filled: true, fillPercent: 100 });
+    expect(gap?.timestamp).toEqual(at(5));
+    expect(gap?.filledAt).toEqual(at(8));
+  });
+
+  it('should report liquidity sweeps and premium/discount zones', () => {
+    expect(result.liquiditySweeps).toEqual([{ type: 'buy_side', level: 113, timestamp: at(10) }]);
+    expect(result.premiumDiscount).toMatchObject({ rangeHigh: 113, rangeLow: 90, equilibrium: 101.5 });
+    expect(result.premiumDiscount?.currentZone).toBe('discount');
+  });
+
+  it('should count a swept level once, at its first wick', () => {
+    // Outro pavio acima de 113 antes de um novo swing high
+    const rewick = { timestamp: at(11).getTime(), open: 100, high: 115, low: 95, close: 99 };
+    const sweeps = analyzer.analyze([...data, rewick]).liquiditySweeps;
+
+    expect(sweeps).toEqual([{ type: 'buy_side', level: 113, timestamp: at(10) }]);
+  });
+
+  it('should group equal highs into a liquidity pool', () => {
+    const pools = analyzer.analyze(candles([
+      [100, 101, 99, 100],
+      [100, 110, 99, 105],
+      [105, 106, 100, 101],
+      [101, 110.05, 100, 104],
+      [104, 105, 99, 100],
+      [100, 111, 99, 108]
+    ])).liquidityPools;
+
+    expect(pools).toHaveLength(1);
+    expect(pools[0]).toMatchObject({ type: 'equal_highs', level: 110.05, touches: 2, swept: true });
+    expect(pools[0].sweptAt).toEqual(at(5));
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Transaction monitoring rule language tests (Jest)
+ * Parsing, windowed aggregations, structuring/velocity detection, dry runs and cooldown dedup
+ */
+
+jest.mock('@/lib/securityLogs', () => ({
+  SecurityLogger: jest.fn().mockImplementation(() => ({ logSecurityEvent: jest.fn() })),
+  SecurityEventType: {},
+  LogLevel: {}
+}));
+
+import { TransactionMonitor, type TransactionRecord } from '@/lib/transactionMonitor';
+import { TransactionWindowIndex, evaluateRule, listReferences, parseRule } from '@/lib/transactionRules';
+import type { TransactionType } from '@/lib/walletSecurity';
+
+const BTC = 100_000_000;
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const START = Date.UTC(2024, 0, 1);
+const SEND = 'send' as TransactionType;
+
+let sequence = 0;
+function tx(minutes: number, amount: number, overrides: Partial<TransactionRecord> = {}): TransactionRecord {
+  return {
+    id: `tx${sequence++}`,
+    address: 'bc1qsender',
+    amount,
+    recipientAddress: 'bc1qrecipient',
+    timestamp: new Date(START + minutes * MINUTE),
+    type: SEND,
+    status: 'confirmed',
+    riskScore: 0,
+    flags: [],
+    metadata: {},
+    ...overrides
+  };
+}
+
+// Evaluates the rule on the last record with all records in its history
+function matches(source: string, records: TransactionRecord[], lists: Record<string, string[]> = {}): boolean {
+  const history = new TransactionWindowIndex();
+  records.forEach(record => history.add(record));
+  return evaluateRule(parseRule(source), {
+    transaction: records[records.length - 1],
+    history,
+    lists: new Map(Object.entries(lists).map(([name, items]) => [name, new Set(items)]))
+  });
+}
+
+describe('parseRule', () => {
+  it('parses units, membership and precedence into an AST', () => {
+    const ast = parseRule('sum(amount, 1h) > 2 BTC and to not in whitelist or not risk < 50');
+    expect(ast).toMatchObject({
+      kind: 'logical',
+      operator: 'or',
+      left: {
+        kind: 'logical',
+        operator: 'and',
+        left: {
+          kind: 'compare',
+          operator: '>',
+          left: { kind: 'aggregate', fn: 'sum', field: 'amount', window: HOUR, by: 'address' },
+          right: { kind: 'literal', value: 2 * BTC }
+        },
+        right: { kind: 'membership', negated: true, collection: { kind: 'list', name: 'whitelist' } }
+      },
+      right: { kind: 'not' }
+    });
+    expect(listReferences(ast)).toEqual(['whitelist']);
+    expect(parseRule('count(10m, user) >= 3')).toMatchObject({ left: { fn: 'count', window: 10 * MINUTE, by: 'user' } });
+  });
+
+  it('reports errors with their position', () => {
+    expect(() => parseRule('amont > 1')).toThrow("position 0: Unknown field 'amont'");
+    expect(() => parseRule('sum(amount, 1y) > 1')).toThrow("position 12: Unknown unit 'y'");
+    expect(() => parseRule('median(amount, 1h) > 1')).toThrow("Unknown function 'median'");
+    expect(() => parseRule('sum(to, 1h) > 1')).toThrow("needs a numeric field, got 'to'");
+    expect(() => parseRule('amount > (1')).toThrow("Expected ')'");
+    expect(() => parseRule('amount + 1')).toThrow('must be a condition');
+  });
+});
+
+describe('evaluateRule', () => {
+  it('sums amounts over a sliding window that ends at the transaction', () => {
+    const records = [tx(0, BTC), tx(30, BTC), tx(61, 0.5 * BTC)];
+    // The first transfer fell out of the hour by the time of the third
+    expect(matches('sum(amount, 1h) > 1.2 BTC', records)).toBe(true);
+    expect(matches('sum(amount, 1h) > 1.6 BTC', records)).toBe(false);
+    expect(matches('sum(amount, 2h) > 2 BTC and to not in whitelist', records, { whitelist: [] })).toBe(true);
+    expect(matches('sum(amount, 2h) > 2 BTC and to not in whitelist', records, { whitelist: ['bc1qrecipient'] })).toBe(false);
+  });
+
+  it('groups windows by user or recipient and reads metadata', () => {
+    const records = [
+      tx(0, 1000, { address: 'bc1qa', metadata: { userId: 'u1' } }),
+      tx(1, 1000, { address: 'bc1qb', metadata: { userId: 'u1' } }),
+      tx(2, 1000, { address: 'bc1qc', metadata: { userId: 'u1', channel: 'api' } })
+    ];
+    expect(matches('count(1h) == 1 and count(1h, user) == 3', records)).toBe(true);
+    expect(matches('distinct(from, 1h, user) == 3 and metadata.channel == "api"', records)).toBe(true);
+    expect(matches('count(1h, recipient) == 3 and to matches "^bc1q"', records)).toBe(true);
+  });
+
+  it('detects structuring just under a threshold and velocity against a baseline', () => {
+    const structured = [tx(0, 0.95 * BTC), tx(60, 0.99 * BTC), tx(120, 0.92 * BTC), tx(180, 1.2 * BTC), tx(240, 0.5 * BTC)];
+    expect(matches('structuring(1 BTC, 24h) >= 3', structured)).toBe(true);
+    expect(matches('structuring(1 BTC, 24h, 0.05) >= 3', structured)).toBe(false);
+
+    // One 0.1 BTC transfer a day for a week, then 1 BTC within the hour
+    const baseline = Array.from({ length: 7 }, (_, day) => tx(day * 24 * 60, 0.1 * BTC));
+    const burst = [...baseline, tx(7 * 24 * 60 + 10, 0.5 * BTC), tx(7 * 24 * 60 + 20, 0.5 * BTC)];
+    expect(matches('velocity(amount, 1d, 7d) > 5', burst)).toBe(true);
+    expect(matches('velocity(amount, 1d, 7d) > 5', baseline)).toBe(false);
+    expect(matches('velocity(1h, 7d) > 0', [tx(0, 1)])).toBe(false); // no baseline yet
+  });
+});
+
+describe('TransactionMonitor rule expressions', () => {
+  const send = (monitor: TransactionMonitor, address: string, amount: number) =>
+    monitor.recordTransaction({
+      address,
+      amount,
+      recipientAddress: 'bc1qexchange',
+      type: SEND,
+      status: 'pending',
+      metadata: {}
+    });
+
+  function structuringRule(cooldown?: number) {
+    return {
+      name: 'Structuring',
+      description: 'Repeated transfers just under 1 BTC',
+      enabled: true,
+      severity: 'high' as const,
+      conditions: [],
+      expression: 'structuring(1 BTC, 24h) >= 2 and to not in whitelist',
+      actions: [
+        { type: 'alert' as const, parameters: { title: 'Possible structuring' } },
+        { type: 'block' as const, parameters: { reason: 'Structuring' } }
+      ],
+      cooldown
+    };
+  }
+
+  it('rejects bad expressions and unknown lists when the rule is added', () => {
+    const monitor = new TransactionMonitor();
+    expect(() => monitor.addRule({ ...structuringRule(), expression: 'to in exchanges' })).toThrow('unknown address lists: exchanges');
+    expect(() => monitor.addRule({ ...structuringRule(), expression: 'count(1h) >' })).toThrow('Rule syntax error');
+
+    monitor.setAddressList('exchanges', ['bc1qexchange']);
+    expect(() => monitor.addRule({ ...structuringRule(), expression: 'to in exchanges' })).not.toThrow();
+  });
+
+  it('deduplicates alerts per rule and address within the cooldown but keeps blocking', () => {
+    const monitor = new TransactionMonitor();
+    const ruleId = monitor.addRule(structuringRule(HOUR));
+    const logger = (monitor as any).logger.logSecurityEvent as jest.Mock;
+
+    send(monitor, 'bc1qa', 0.95 * BTC);
+    send(monitor, 'bc1qa', 0.95 * BTC);
+    send(monitor, 'bc1qa', 0.95 * BTC);
+    send(monitor, 'bc1qb', 0.95 * BTC);
+    send(monitor, 'bc1qb', 0.95 * BTC);
+
+    const alerts = monitor.getAlerts().filter(alert => alert.metadata.ruleId === ruleId);
+    expect(alerts.map(alert => alert.address).sort()).toEqual(['bc1qa', 'bc1qb']);
+    expect(alerts.find(alert => alert.address === 'bc1qa')!.metadata.occurrences).toBe(2);
+
+    const blocks = logger.mock.calls.filter(([, details]) => details.reason === 'Structuring');
+    expect(blocks).toHaveLength(3);
+  });
+
+  it('dry-runs rules over historical records without raising alerts', () => {
+    const monitor = new TransactionMonitor();
+    const history = [
+      tx(300, 0.9 * BTC, { address: 'bc1qa' }),
+      tx(0, 0.95 * BTC, { address: 'bc1qa' }),
+      tx(30, 0.95 * BTC, { address: 'bc1qa' }),
+      tx(120, 0.95 * BTC, { address: 'bc1qa' }),
+      tx(10, 0.95 * BTC, { address: 'bc1qb' })
+    ];
+
+    const [result] = monitor.dryRun(history, [structuringRule(2 * HOUR)]);
+    expect(result).toMatchObject({ ruleName: 'Structuring', evaluated: 5, matched: 3, alerts: 2, suppressed: 1 });
+    expect(result.matches.map(match => [match.timestamp.getTime() - START, match.alerted])).toEqual([
+      [30 * MINUTE, true],
+      [120 * MINUTE, false],
+      [300 * MINUTE, true]
+    ]);
+    expect(monitor.getAlerts()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * AdvancedRiskManagement scenario analysis tests
+ */
+
+import {
+  AdvancedRiskManagement,
+  HISTORICAL_STRESS_SCENARIOS,
+  choleskyDecomposition
+} from '@/risk/AdvancedRiskManagement';
+
+// Deterministic normal draws so the fixtures do not change between runs
+function normals(count: number, seed: number): number[] {
+  let state = seed;
+  const uniform = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return (state + 1) / 4294967297;
+  };
+  return Array.from({ length: count }, () =>
+    Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform())
+  );
+}
+
+const market = normals(500, 1).map(z => z * 0.03);
+const noise = normals(500, 2).map(z => z * 0.02);
+const btcReturns = market;
+const solReturns = market.map((r, i) => 1.5 * r + noise[i]);
+
+function positions() {
+  return [
+    { symbol: 'BTC', allocation: 0.6, returns: btcReturns, price: 60000, volume: 20000 },
+    { symbol: 'SOL/USDT', allocation: 0.3, returns: solReturns, price: 150, volume: 1000 },
+    { symbol: 'USDT', allocation: 0.1, returns: new Array(500).fill(0), price: 1, volume: 1e9 }
+  ];
+}
+
+describe('choleskyDecomposition', () => {
+  it('reconstructs the matrix and tolerates singular covariances', () => {
+    const matrix = [[4, 2, 0.4], [2, 5, 1], [0.4, 1, 3]];
+    const lower = choleskyDecomposition(matrix);
+    const rebuilt = matrix.map((row, i) => row.map((_, j) =>
+      lower[i].reduce((sum, l, k) => sum + l * lower[j][k], 0)
+    ));
+    rebuilt.forEach((row, i) => row.forEach((value, j) => expect(value).toBeCloseTo(matrix[i][j], 10)));
+    expect(lower[0][1]).toBe(0);
+
+    // Two identical assets
+    const singular = choleskyDecomposition([[1, 1], [1, 1]]);
+    expect(singular[1][0]).toBeCloseTo(1, 6);
+  });
+});
+
+describe('AdvancedRiskManagement scenario analysis', () => {
+  const risk = new AdvancedRiskManagement();
+
+  it('replays historical shocks on the allocation', () => {
+    const ftx = risk.runStressTest(positions(), HISTORICAL_STRESS_SCENARIOS, 100000)
+      .find(result => result.scenarioId === 'ftx-collapse-2022')!;
+
+    expect(ftx.portfolioReturn).toBeCloseTo(0.6 * -0.24 + 0.3 * -0.6, 10);
+    expect(ftx.portfolioLoss).toBeCloseTo(32400, 6);
+    expect(ftx.worstPosition).toBe('SOL/USDT');
+    expect(ftx.positionImpacts.find(p => p.symbol === 'USDT')!.shock).toBe(0);
+  });
+
+  it('simulates correlated returns reproducibly and close to the parametric VaR', () => {
+    const first = risk.runMonteCarloSimulation(positions(), { simulations: 20000, seed: 7 });
+    const second = risk.runMonteCarloSimulation(positions(), { simulations: 20000, seed: 7 });
+    const parametric = risk.calculateVaREstimates(positions()).parametric;
+
+    expect(second).toEqual(first);
+    expect(first.valueAtRisk).toBeGreaterThan(parametric * 0.9);
+    expect(first.valueAtRisk).toBeLessThan(parametric * 1.1);
+    expect(first.conditionalValueAtRisk).toBeGreaterThan(first.valueAtRisk);
+    expect(first.percentiles.p1).toBeLessThan(first.percentiles.p50);
+  });
+
+  it('widens VaR for negatively skewed, fat-tailed returns with Cornish-Fisher', () => {
+    const crashes = market.map((r, i) => (i % 50 === 0 ? -0.25 : r));
+    const estimate = risk.calculateVaREstimates([{ symbol: 'BTC', allocation: 1, returns: crashes }], 0.99);
+
+    expect(estimate.skewness).toBeLessThan(0);
+    expect(estimate.excessKurtosis).toBeGreaterThan(0);
+    expect(estimate.cornishFisher).toBeGreaterThan(estimate.parametric);
+  });
+
+  it('splits portfolio VaR into component VaR per position', () => {
+    const risks = risk.calculatePositionRisks(positions(), 100000);
+    const total = risks.reduce((sum, p) => sum + p.componentVaR, 0);
+
+    const weights = [0.6, 0.3, 0.1];
+    const series = btcReturns.map((r, i) => weights[0] * r + weights[1] * solReturns[i]);
+    const mean = series.reduce((sum, r) => sum + r, 0) / series.length;
+    const sigma = Math.sqrt(series.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (series.length - 1));
+
+    expect(total).toBeCloseTo(1.6448536 * sigma, 6);
+    expect(risks.reduce((sum, p) => sum + p.contributionToPortfolioRisk, 0)).toBeCloseTo(1, 10);
+    expect(risks[2]).toMatchObject({ componentVaR: 0, marginalVaR: 0 });
+    // SOL is more volatile and carries more risk than its weight
+    expect(risks[1].contributionToPortfolioRisk).toBeGreaterThan(0.3);
+  });
+
+  it('reads historical VaR from the loss tail', () => {
+    const returns = [-0.1, -0.08, ...new Array(18).fill(0.01)];
+    const metrics = risk.calculatePortfolioRisk([{ symbol: 'BTC', allocation: 1, returns, price: 1, volume: 1 }], returns);
+
+    expect(metrics.valueAtRisk).toBeCloseTo(0.08, 10);
+    expect(metrics.conditionalValueAtRisk).toBeCloseTo(0.1, 10);
+  });
+
+  it('measures VaR and CVaR at 95% confidence, not 5%', () => {
+    // Six losses in a hundred days: the 95% VaR is the sixth worst, CVaR averages the five beyond it
+    const returns = [-0.2, -0.15, -0.12, -0.1, -0.08, -0.06, ...new Array(94).fill(0.01)];
+    const metrics = risk.calculatePortfolioRisk([{ symbol: 'BTC', allocation: 1, returns, price: 1, volume: 1 }], returns);
+
+    expect(metrics.valueAtRisk).toBeCloseTo(0.06, 10);
+    expect(metrics.conditionalValueAtRisk).toBeCloseTo(0.13, 10);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Fee estimation tests (Jest)
+ */
+
+import {
+  BitcoinFeeEstimator,
+  estimateTxVsize,
+  projectMempoolBlocks
+} from '@/services/fees/BitcoinFeeEstimator';
+import type { Block, MempoolService, Transaction } from '@/services/MempoolService';
+
+const P2WPKH_SCRIPT = '0014751e76e8199196d454941c45d1b3a323f1433bd6';
+
+function block(height: number, p10: number): Block {
+  return { height, extras: { feeRange: [p10 - 1, p10, p10 + 1, p10 + 2, p10 + 3, p10 + 4, p10 + 5] } } as Block;
+}
+
+function transaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    txid: 'ab'.repeat(32),
+    vin: [{ sequence: 0xfffffffd }],
+    vout: [
+      { scriptpubkey: P2WPKH_SCRIPT, value: 5_000 },
+      { scriptpubkey: P2WPKH_SCRIPT, value: 50_000 }
+    ],
+    weight: 561,
+    fee: 141,
+    status: { confirmed: false },
+    ...overrides
+  } as Transaction;
+}
+
+function fakeService(histogram: number[][], blocks: Block[], tx: Transaction = transaction()) {
+  return {
+    getFeeHistogram: jest.fn().mockResolvedValue(histogram),
+    getMempoolStats: jest.fn().mockResolvedValue({ count: 0, vsize: 0, total_fee: 0, fee_histogram: histogram }),
+    getRecentBlocks: jest.fn().mockResolvedValue(blocks),
+    getTransaction: jest.fn().mockResolvedValue(tx)
+  } as unknown as MempoolService;
+}
+
+describe('estimateTxVsize', () => {
+  it.each([
+    ['P2PKH', 'P2PKH', 192],
+    ['P2WPKH', 'P2WPKH', 110],
+    ['P2TR', 'P2TR', 111]
+  ] as const)('should size a 1-in 1-out %s transaction', (input, output, vsize) => {
+    expect(estimateTxVsize([{ type: input }], [{ type: output }])).toBe(vsize);
+  });
+
+  it('should count the empty witness of legacy inputs in a segwit transaction', () => {
+    const mixed = estimateTxVsize([{ type: 'P2PKH' }, { type: 'P2WPKH' }], [{ type: 'P2WPKH' }]);
+    expect(mixed).toBe(Math.ceil((40 + 2 + 4 * 148 + 1 + 4 * 41 + 108 + 4 * 31) / 4));
+    expect(estimateTxVsize([{ type: 'P2WPKH' }], [{ type: 'OP_RETURN', dataSize: 80 }])).toBe(
+      Math.ceil((42 + 272 + 4 * (8 + 1 + 1 + 2 + 80)) / 4)
+    );
+  });
+});
+
+describe('projectMempoolBlocks', () => {
+  it('should fill blocks from the highest fee rate down', () => {
+    const blocks = projectMempoolBlocks([[5, 600_000], [20, 500_000], [2, 700_000]], 3, 1_000_000);
+
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0]).toMatchObject({ vsize: 1_000_000, maxFeeRate: 20, minFeeRate: 5, medianFeeRate: 20, full: true });
+    expect(blocks[0].totalFees).toBe(20 * 500_000 + 5 * 500_000);
+    expect(blocks[1]).toMatchObject({ vsize: 800_000, maxFeeRate: 5, minFeeRate: 2, full: false });
+  });
+});
+
+describe('BitcoinFeeEstimator', () => {
+  const histogram = [[30, 900_000], [12, 1_500_000], [3, 400_000]];
+
+  it('should outbid the last full projected block of the target window', async () => {
+    const estimator = new BitcoinFeeEstimator(fakeService(histogram, []));
+
+    const next = await estimator.estimateFeeRate(1);
+    expect(next).toMatchObject({ feeRate: 12, confidence: null, historicalFeeRate: null });
+    expect((await estimator.estimateFeeRate(3)).feeRate).toBe(1);
+  });
+
+  it('should raise the rate to meet the requested historical confidence', async () => {
+    const blocks = [block(100, 4), block(101, 8), block(102, 15), block(103, 9), block(104, 20)];
+    const estimator = new BitcoinFeeEstimator(fakeService([[2, 10_000]], blocks));
+
+    const loose = await estimator.estimateFeeRate(1, 0.6);
+    const strict = await estimator.estimateFeeRate(1, 1);
+
+    expect(loose).toMatchObject({ feeRate: 9, confidence: 0.6 });
+    expect(strict).toMatchObject({ feeRate: 20, confidence: 1 });
+    // Two-block windows only need to beat the cheaper block of each pair
+    expect((await estimator.estimateFeeRate(2, 1)).feeRate).toBe(9);
+  });
+
+  it('should price an RBF replacement above the original fee plus relay cost', async () => {
+    const estimator = new BitcoinFeeEstimator(fakeService(histogram, []));
+
+    const cheap = await estimator.estimateRbfBump('tx', { feeRate: 1 });
+    expect(cheap).toMatchObject({ vsize: 141, signalsRbf: true, newFee: 141 + 141, additionalFee: 141 });
+
+    const target = await estimator.estimateRbfBump('tx', { targetBlocks: 1, replacedDescendantFees: 500 });
+    expect(target.newFee).toBe(12 * 141);
+  });
+
+  it('should compute the CPFP child fee from the largest output', async () => {
+    const estimator = new BitcoinFeeEstimator(fakeService(histogram, []));
+
+    const plan = await estimator.estimateCpfp('tx', { feeRate: 10 });
+
+    expect(plan).toMatchObject({ vout: 1, parentVsize: 141, childVsize: 110 });
+    expect(plan.childFee).toBe(10 * (141 + 110) - 141);
+    expect(plan.childOutputValue).toBe(50_000 - plan.childFee);
+    expect(plan.packageFeeRate).toBeCloseTo(10, 5);
+  });
+
+  it('should refuse bumps that are impossible', async () => {
+    const confirmed = new BitcoinFeeEstimator(fakeService(histogram, [], transaction({ status: { confirmed: true } } as any)));
+    await expect(confirmed.estimateRbfBump('tx', { feeRate: 5 })).rejects.toThrow('already confirmed');
+
+    const estimator = new BitcoinFeeEstimator(fakeService(histogram, []));
+    await expect(estimator.estimateCpfp('tx', { vout: 0, feeRate: 50 })).rejects.toThrow('dust');
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * CopyTradingEngine Test Suite
+ */
+
+import { CopyTradingEngine, type CopyOrderRequest, type CopyOrderResult } from '@/services/social/CopyTradingEngine';
+import { OrderBookEngine, type OrderRequest } from '@/services/orderbook/OrderBookEngine';
+import { SocialTradingPlatform, type CopyTrade, type TraderFill, type TraderPerformance } from '@/services/social/SocialTradingPlatform';
+
+type Fill = (order: CopyOrderRequest) => CopyOrderResult;
+
+// Fills everything at the limit price with a flat fee unless a test overrides it
+const atLimit: Fill = order => ({ filledQuantity: order.quantity, averagePrice: order.limitPrice, fee: 1 });
+
+async function setup(settings: Partial<CopyTrade['copySettings']> = {}, fill: Fill = atLimit) {
+  const platform = new SocialTradingPlatform();
+  const trader = await platform.registerTrader({
+    username: 'leader',
+    displayName: 'Leader',
+    verified: true,
+    tradingStyle: ['swing'],
+    specialties: ['BTC'],
+    preferences: {
+      allowCopying: true,
+      maxCopiers: 10,
+      minCopyAmount: 100,
+      copyFee: 0,
+      allowMessages: true,
+      publicProfile: true
+    }
+  });
+  const copyTrade = await platform.startCopyTrading({
+    copyerId: 'follower',
+    traderId: trader.id,
+    amount: 10000,
+    settings: {
+      amount: 10000,
+      percentage: 100,
+      maxPositions: 5,
+      maxRisk: 100,
+      copyOnlyProfitable: false,
+      excludeAssets: [],
+      includeAssets: [],
+      maxDrawdown: 50,
+      maxSlippage: 0.5,
+      ...settings
+    }
+  });
+
+  const orders: CopyOrderRequest[] = [];
+  const engine = new CopyTradingEngine(platform, {
+    executeOrder: async order => {
+      orders.push(order);
+      return fill(order);
+    }
+  });
+
+  let fills = 0;
+  const leaderFill = (side: 'buy' | 'sell', quantity: number, price: number): TraderFill => ({
+    id: `fill_${++fills}`,
+    traderId: trader.id,
+    symbol: 'BTC/USDT',
+    side,
+    quantity,
+    price,
+    leaderEquity: 100000,
+    timestamp: Date.now()
+  });
+
+  return { platform, engine, copyTrade, orders, leaderFill };
+}
+
+describe('CopyTradingEngine', () => {
+  it('sizes entries proportionally to follower equity within the slippage limit', async () => {
+    const { engine, copyTrade, orders, leaderFill } = await setup();
+
+    await engine.handleLeaderFill(leaderFill('buy', 1, 50000));
+
+    expect(orders).toHaveLength(1);
+    // 10,000 follower equity against 100,000 leader equity copies a tenth of the leader's size
+    expect(orders[0].quantity).toBeCloseTo(0.1, 10);
+    expect(orders[0].limitPrice).toBeCloseTo(50250, 6);
+
+    const [entry] = engine.getAuditTrail(copyTrade.id);
+    expect(entry).toMatchObject({ status: 'filled', slippage: expect.closeTo(0.005, 10), fee: 1 });
+    expect(engine.getAccount(copyTrade.id)!.positions.get('BTC/USDT')!.quantity).toBeCloseTo(0.1, 10);
+  });
+
+  it('applies a fixed ratio capped by the max position size', async () => {
+    const { engine, orders, leaderFill } = await setup({ sizingMode: 'fixed_ratio', fixedRatio: 0.5, maxRisk: 20 });
+
+    await engine.handleLeaderFill(leaderFill('buy', 1, 50000));
+
+    // 0.5 BTC requested by ratio, capped at 20% of 10,000 equity
+    expect(orders[0].quantity).toBeCloseTo(2000 / 50000, 10);
+  });
+
+  it('records unfilled orders when the market moved past the limit', async () => {
+    const { engine, copyTrade, leaderFill } = await setup({}, () => ({ filledQuantity: 0, averagePrice: 0, fee: 0 }));
+
+    await engine.handleLeaderFill(leaderFill('buy', 1, 50000));
+
+    expect(engine.getAuditTrail(copyTrade.id)[0]).toMatchObject({
+      status: 'unfilled',
+      reason: 'No liquidity within slippage limit'
+    });
+    expect(engine.getAccount(copyTrade.id)!.positions.size).toBe(0);
+  });
+
+  it('mirrors partial leader exits and flattens the follower on a full close', async () => {
+    let entryFilled = false;
+    const { engine, copyTrade, orders, leaderFill } = await setup({}, order => {
+      if (order.side === 'buy' && !entryFilled) {
+        entryFilled = true;
+        // Only half the entry fills, at the leader's price
+        return { filledQuantity: order.quantity / 2, averagePrice: 50000, fee: 0 };
+      }
+      return { filledQuantity: order.quantity, averagePrice: order.side === 'sell' ? 59000 : 50000, fee: 2 };
+    });
+
+    await engine.handleLeaderFill(leaderFill('buy', 1, 50000));
+    await engine.handleLeaderFill(leaderFill('sell', 0.5, 60000));
+    await engine.handleLeaderFill(leaderFill('sell', 0.5, 60000));
+
+    expect(orders.map(o => [o.side, o.quantity])).toEqual([['buy', 0.1], ['sell', 0.025], ['sell', 0.025]]);
+    expect(engine.getAuditTrail(copyTrade.id).map(e => e.status)).toEqual(['partial', 'filled', 'filled']);
+    expect(engine.getAccount(copyTrade.id)!.positions.size).toBe(0);
+
+    const reconciliation = engine.reconcile(copyTrade.id);
+    // Leader made 10,000 per BTC on 0.05 BTC; the follower sold 1,000 lower and paid 4 in fees
+    expect(reconciliation.expectedPnl).toBeCloseTo(500, 6);
+    expect(reconciliation.realizedPnl).toBeCloseTo(450 - 4, 6);
+    expect(reconciliation.difference).toBeCloseTo(reconciliation.slippageCost * -1 - reconciliation.fees, 6);
+    expect(reconciliation.partialFills).toBe(1);
+    expect(copyTrade.performance.winRate).toBe(100);
+  });
+
+  it('pauses new entries at the drawdown limit but keeps mirroring exits', async () => {
+    const { engine, copyTrade, orders, leaderFill } = await setup({ maxDrawdown: 10, maxRisk: 100, percentage: 1000 });
+
+    await engine.handleLeaderFill(leaderFill('buy', 1, 50000)); // ~all equity in BTC
+    await engine.handleLeaderFill(leaderFill('buy', 0.1, 40000)); // marks BTC 20% lower
+    expect(copyTrade.status).toBe('paused');
+
+    await engine.handleLeaderFill(leaderFill('buy', 0.1, 40000));
+    await engine.handleLeaderFill(leaderFill('sell', 1.2, 41000));
+
+    const trail = engine.getAuditTrail(copyTrade.id);
+    expect(trail[trail.length - 2]).toMatchObject({ status: 'skipped', reason: 'Copy trade paused' });
+    expect(orders[orders.length - 1].side).toBe('sell');
+    expect(engine.getAccount(copyTrade.id)!.positions.size).toBe(0);
+  });
+
+  it('listens for fills recorded on the platform', async () => {
+    const { platform, engine, copyTrade, leaderFill } = await setup();
+    engine.start();
+
+    const processed = new Promise(resolve => engine.once('leaderFillProcessed', resolve));
+    platform.recordTraderFill(leaderFill('buy', 1, 50000));
+    await processed;
+    engine.stop();
+
+    expect(engine.getAuditTrail(copyTrade.id)).toHaveLength(1);
+  });
+
+  it('only opens positions behind a profitable leader when copyOnlyProfitable is set', async () => {
+    const { platform, engine, copyTrade, orders, leaderFill } = await setup({ copyOnlyProfitable: true });
+    const performance = jest.spyOn(platform, 'getTraderPerformance').mockReturnValue({ totalReturn: -4 } as TraderPerformance);
+
+    await engine.handleLeaderFill(leaderFill('buy', 1, 50000));
+    expect(orders).toHaveLength(0);
+    expect(engine.getAuditTrail(copyTrade.id)[0]).toMatchObject({ status: 'skipped', reason: 'Leader not profitable over 30d' });
+
+    performance.mockReturnValue({ totalReturn: 12 } as TraderPerformance);
+    await engine.handleLeaderFill(leaderFill('buy', 1, 50000));
+    expect(orders).toHaveLength(1);
+  });
+
+  it('mirrors the leader\'s own order-book executions', async () => {
+    const { platform, engine, copyTrade, orders } = await setup();
+    const book = new OrderBookEngine({ snapshotInterval: 0 });
+    book.initializeOrderBook('BTC/USDT');
+    const disconnect = platform.connectOrderBook(book, { leaderEquity: () => 100000 });
+    engine.start();
+
+    const order = (userId: string, side: 'buy' | 'sell', price: number): OrderRequest => ({
+      userId, symbol: 'BTC/USDT', side, type: 'limit', quantity: 1, price, timeInForce: 'GTC', metadata: { source: 'test' }
+    });
+    const processed = new Promise(resolve => engine.once('leaderFillProcessed', resolve));
+    await book.placeOrder(order('market-maker', 'sell', 50000));
+    await book.placeOrder(order(copyTrade.traderId, 'buy', 50000));
+    await processed;
+    disconnect();
+    engine.stop();
+
+    expect(orders).toEqual([expect.objectContaining({ side: 'buy', symbol: 'BTC/USDT', quantity: 0.1 })]);
+    expect(engine.getAuditTrail(copyTrade.id)[0].leaderFillId).toMatch(/-buy$/);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Cypher AI knowledge retrieval tests (Jest)
+ * Local vector store, hashing embeddings, hybrid BM25 ranking and docs ingestion
+ */
+
+jest.mock('openai', () => ({ OpenAI: jest.fn().mockImplementation(() => ({})) }), { virtual: true });
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CypherAIRAG, type KnowledgeDocument } from '@/services/ai/CypherAIRAG';
+import { LocalEmbeddingProvider, cosineSimilarity } from '@/services/ai/EmbeddingProvider';
+import { Bm25Index, HybridRetriever } from '@/services/ai/HybridRetriever';
+import { chunkText, markdownToDocuments, parseMarkdown } from '@/services/ai/KnowledgeIngestion';
+import { LocalVectorStore } from '@/services/ai/VectorStore';
+
+const embedder = new LocalEmbeddingProvider({ dimensions: 256 });
+
+function doc(id: string, content: string, metadata: Partial<KnowledgeDocument['metadata']> = {}): KnowledgeDocument {
+  return {
+    id,
+    content,
+    metadata: { source: 'test', type: 'research', timestamp: 1_000, tags: [], relevance: 1, ...metadata },
+    embeddings: embedder.embedSync(content)
+  };
+}
+
+function randomVector(seed: number, dimensions: number): number[] {
+  let state = seed;
+  return Array.from({ length: dimensions }, () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  });
+}
+
+describe('LocalEmbeddingProvider', () => {
+  it('is deterministic and folds accents', async () => {
+    const [a, b] = await embedder.embed(['Análise técnica do Bitcoin', 'analise tecnica do bitcoin']);
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(256);
+    expect(cosineSimilarity(a, embedder.embedSync('ordinals inscriptions'))).toBeLessThan(0.5);
+  });
+});
+
+describe('LocalVectorStore', () => {
+  let dir: string;
+  beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vector-store-')); });
+  afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+  it('filters by type, tags and time and survives a reload', async () => {
+    const file = path.join(dir, 'kb.json');
+    const store = new LocalVectorStore({ path: file, embeddingModel: embedder.name });
+    await store.upsert([
+      doc('a', 'bitcoin halving supply schedule', { type: 'research', tags: ['bitcoin'], timestamp: 1_000 }),
+      doc('b', 'bitcoin halving price news', { type: 'news', tags: ['bitcoin', 'halving'], timestamp: 2_000 }),
+      doc('c', 'runes etching guide', { type: 'documentation', tags: ['runes'], timestamp: 3_000 })
+    ]);
+    const vector = embedder.embedSync('bitcoin halving');
+
+    expect((await store.query({ vector, topK: 5, filter: { type: 'news' } })).map(m => m.document.id)).toEqual(['b']);
+    expect((await store.query({ vector, topK: 5, filter: { tags: ['bitcoin', 'halving'] } })).map(m => m.document.id)).toEqual(['b']);
+    expect((await store.query({ vector, topK: 5, filter: { since: 1_500 } })).map(m => m.document.id)).toEqual(['b', 'c']);
+
+    await store.delete(['b']);
+    const reloaded = new LocalVectorStore({ path: file, embeddingModel: embedder.name });
+    expect(reloaded.load()).toBe(2);
+    const [top] = await reloaded.query({ vector, topK: 1 });
+    expect(top.document.id).toBe('a');
+    expect(top.document.embeddings).toBeUndefined();
+
+    const otherModel = new LocalVectorStore({ path: file, embeddingModel: 'openai:text-embedding-3-small' });
+    expect(() => otherModel.load()).toThrow('re-ingest');
+  });
+
+  it('finds the same neighbours through the HNSW graph as an exact scan', async () => {
+    const documents = Array.from({ length: 400 }, (_, i) => ({
+      ...doc(`v${i}`, `vector ${i}`, { tags: i % 2 === 0 ? ['even'] : [] }),
+      embeddings: randomVector(i + 1, 32)
+    }));
+    const exact = new LocalVectorStore();
+    const graph = new LocalVectorStore({ exactSearchLimit: 0 });
+    await exact.upsert(documents);
+    await graph.upsert(documents);
+
+    let overlap = 0;
+    for (let q = 0; q < 20; q++) {
+      const vector = randomVector(10_000 + q, 32);
+      const expected = (await exact.query({ vector, topK: 10 })).map(m => m.document.id);
+      const found = (await graph.query({ vector, topK: 10 })).map(m => m.document.id);
+      overlap += found.filter(id => expected.includes(id)).length;
+    }
+    expect(overlap / 200).toBeGreaterThan(0.9);
+
+    const filtered = await graph.query({ vector: randomVector(99, 32), topK: 10, filter: { tags: ['even'] } });
+    expect(filtered).toHaveLength(10);
+    expect(filtered.every(m => m.document.metadata.tags.includes('even'))).toBe(true);
+  });
+});
+
+describe('HybridRetriever', () => {
+  it('ranks exact keyword matches with BM25 alongside vector similarity', async () => {
+    const retriever = new HybridRetriever(new LocalVectorStore(), embedder, { alpha: 0.5 });
+    await retriever.add([
+      doc('fees', 'How transaction fees are estimated from the mempool'),
+      doc('rune', 'UNCOMMON•GOODS is the first rune etched at the halving block'),
+      doc('ordinals', 'Ordinals inscriptions are numbered in the order they were made')
+    ].map(d => ({ ...d, embeddings: undefined })));
+
+    const results = await retriever.search('UNCOMMON GOODS rune', { topK: 2 });
+    expect(results[0].id).toBe('rune');
+    expect(results[0].metadata.relevance).toBeGreaterThan(results[1].metadata.relevance);
+
+    const index = new Bm25Index();
+    index.add('x', 'runes runes runes');
+    index.add('y', 'ordinals');
+    expect(index.search('runes', 5)).toEqual([{ id: 'x', score: expect.any(Number) }]);
+  });
+});
+
+describe('Knowledge ingestion', () => {
+  const markdown = [
+    '---',
+    'title: Fee Guide',
+    'type: research',
+    'tags: [fees, mempool]',
+    'date: 2024-04-20',
+    '---',
+    '# Fee Guide',
+    'Intro paragraph.',
+    '## Priority',
+    'High priority targets the next block.',
+    '```',
+    '# not a heading',
+    '```'
+  ].join('\n');
+
+  it('parses front matter and heading sections, ignoring headings in code', () => {
+    const parsed = parseMarkdown(markdown);
+    expect(parsed.frontMatter).toMatchObject({ title: 'Fee Guide', tags: ['fees', 'mempool'] });
+    expect(parsed.sections.map(s => s.headings)).toEqual([['Fee Guide'], ['Fee Guide', 'Priority']]);
+    expect(parsed.sections[1].content).toContain('# not a heading');
+
+    const documents = markdownToDocuments(markdown, { source: 'docs/fees.md', tags: ['docs'] });
+    expect(documents.map(d => d.id)).toEqual(['docs/fees.md#0.0', 'docs/fees.md#1.0']);
+    expect(documents[1].content.startsWith('Fee Guide > Priority\n\n')).toBe(true);
+    expect(documents[1].metadata).toMatchObject({
+      type: 'research',
+      tags: ['docs', 'fees', 'mempool'],
+      timestamp: Date.parse('2024-04-20')
+    });
+  });
+
+  it('chunks long text on paragraph boundaries with overlap', () => {
+    const paragraphs = Array.from({ length: 6 }, (_, i) => `Paragraph ${i} ` + 'word '.repeat(15));
+    const chunks = chunkText(paragraphs.join('\n\n'), { chunkSize: 200, chunkOverlap: 100 });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.every(chunk => chunk.length <= 200)).toBe(true);
+    // Each chunk after the first repeats the last paragraph of the one before
+    expect(chunks[1].startsWith(chunks[0].split('\n\n').pop()!)).toBe(true);
+  });
+
+  it('lets CypherAIRAG answer from ingested docs with no API keys', async () => {
+    const ai = new CypherAIRAG({
+      openaiApiKey: '',
+      geminiApiKey: '',
+      elevenLabsApiKey: '',
+      personality: {} as any,
+      capabilities: {} as any
+    });
+    await ai.ingestMarkdown(markdown, { source: 'docs/fees.md' });
+    await ai.ingestMarkdown('# Fee Guide\nShorter now.', { source: 'docs/fees.md' });
+
+    const results = await ai.searchKnowledgeBase('fee guide', 5, { type: 'documentation' });
+    expect(results.map(r => r.id)).toEqual(['docs/fees.md#0.0']);
+    expect(results[0].content).toContain('Shorter now.');
+  });
+
+  it('replaces the previous version when the same source is added again', async () => {
+    const ai = new CypherAIRAG({
+      openaiApiKey: '',
+      geminiApiKey: '',
+      elevenLabsApiKey: '',
+      personality: {} as any,
+      capabilities: {} as any
+    });
+    const note = (content: string) => ({ content, metadata: { source: 'notes/halving', type: 'research', tags: [] } });
+    await ai.addToKnowledgeBase([note('Halving cuts the subsidy to 3.125 BTC.')]);
+    await ai.addToKnowledgeBase([note('Halving cuts the subsidy to 1.5625 BTC.')]);
+
+    const results = await ai.searchKnowledgeBase('halving subsidy', 5, { source: 'notes/halving' });
+    expect(results).toHaveLength(1);
+    expect(results[0].content).toContain('1.5625');
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Multisig vault tests (Jest)
+ * xpub derivation, descriptors, P2WSH/P2TR scripts, spend PSBTs, co-signing status and the recovery timelock
+ */
+
+import { addressValidator } from '@/lib/addressValidation';
+import { deriveChild, derivePath, parseExtendedPublicKey, serializeExtendedPublicKey } from '@/lib/bip32';
+import { descriptorChecksum, stripDescriptorChecksum } from '@/lib/descriptors';
+import { type Psbt, psbtFromBase64, psbtToBase64 } from '@/lib/psbt';
+import { parseTransaction } from '@/lib/runestone';
+import { tweakTaprootKey } from '@/lib/secp256k1';
+import type { MultiSigConfig } from '@/lib/walletSecurity';
+import { MultiSigVault, type VaultSigner, type VaultUtxo } from '@/services/wallet/MultiSigVault';
+
+// BIP32 test vector 1 and 2 master keys, m/5 of the second and m/0' of the first
+const ALICE: VaultSigner = { label: 'alice', xpub: 'xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8' };
+const BOB: VaultSigner = { label: 'bob', xpub: 'xpub661MyMwAqRbcFW31YEwpkMuc5THy2PSt5bDMsktWQcFF8syAmRUapSCGu8ED9W6oDMSgv6Zz8idoc4a6mr8BDzTJY47LJhkJ8UB7WEGuduB' };
+const CAROL: VaultSigner = {
+  label: 'carol',
+  xpub: serializeExtendedPublicKey(deriveChild(parseExtendedPublicKey(BOB.xpub), 5)),
+  fingerprint: 'bd16bee5',
+  path: 'm/5'
+};
+const BACKUP: VaultSigner = {
+  label: 'backup',
+  xpub: 'xpub68Gmy5EdvgibQVfPdqkBBCHxA5htiqg55crXYuXoQRKfDBFA1WEjWgP6LHhwBZeNK1VTsfTFUHCdrfp1bgwQ9xv5ski8PX9rL2dZXvgGDnw',
+  fingerprint: '3442193e',
+  path: "m/0'"
+};
+
+const DUMMY_ECDSA = '3044' + '02' + '20' + '11'.repeat(32) + '02' + '20' + '22'.repeat(32) + '01';
+const DUMMY_SCHNORR = '33'.repeat(64);
+
+function utxo(fill: string, value: number, index: number, confirmations: number = 6): VaultUtxo {
+  return { txid: fill.repeat(32), vout: 0, value, chain: 0, index, confirmations };
+}
+
+// A signer's copy of the PSBT with a dummy signature on every input it has a key in
+function sign(base64: string, xpub: string): string {
+  const psbt: Psbt = psbtFromBase64(base64);
+  const key = parseExtendedPublicKey(xpub);
+  psbt.inputs = psbt.inputs.map(input => {
+    const derivation = [...(input.bip32Derivation ?? []), ...(input.tapBip32Derivation ?? [])]
+      .find(candidate => {
+        const [chain, index] = candidate.path.split('/').slice(-2).map(Number);
+        const pubkey = Buffer.from(derivePath(key, [chain, index]).publicKey).toString('hex');
+        return pubkey === candidate.pubkey || pubkey.slice(2) === candidate.pubkey;
+      });
+    if (!derivation) return input;
+    if (input.tapLeafScripts) {
+      const leafHash = input.tapBip32Derivation!.find(d => d.pubkey === derivation.pubkey)!.leafHashes[0];
+      return { ...input, tapScriptSigs: [{ pubkey: derivation.pubkey, leafHash, signature: DUMMY_SCHNORR }] };
+    }
+    return { ...input, partialSigs: [{ pubkey: derivation.pubkey, signature: DUMMY_ECDSA }] };
+  });
+  return psbtToBase64(psbt);
+}
+
+describe('xpub derivation and descriptors', () => {
+  it('derives public children and taproot output keys matching the BIP32/BIP86 vectors', () => {
+    const child = deriveChild(parseExtendedPublicKey(BACKUP.xpub), 1);
+    expect(serializeExtendedPublicKey(child)).toBe(
+      'xpub6ASuArnXKPbfEwhqN6e3mwBcDTgzisQN1wXN9BJcM47sSikHjJf3UFHKkNAWbWMiGj7Wf5uMash7SyYq527Hqck2AxYysAA7xmALppuCkwQ'
+    );
+
+    const account = parseExtendedPublicKey(
+      'xpub6BgBgsespWvERF3LHQu6CnqdvfEvtMcQjYrcRzx53QJjSxarj2afYWcLteoGVky7D3UKDP9QyrLprQ3VCECoY49yfdDEHGCtMMj92pReUsQ'
+    );
+    const internalKey = derivePath(account, '0/0').publicKey.slice(1);
+    const { outputKey } = tweakTaprootKey(internalKey);
+    expect(addressValidator.scriptPubKeyToAddress('5120' + Buffer.from(outputKey).toString('hex')))
+      .toBe('bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr');
+  });
+
+  it('computes descriptor checksums and rejects private keys', () => {
+    expect(descriptorChecksum('raw(deadbeef)')).toBe('89f8spxm');
+    expect(() => stripDescriptorChecksum('raw(deadbeef)#89f8spxx')).toThrow('checksum mismatch');
+    expect(() => parseExtendedPublicKey(
+      'xprv9s21ZrQH143K3QTDL4LXw2F7HEK3wJUD2nW2nRk4stbPy6cq3jPPqjiChkVvvNKmPGJxWUtg6LnF5kejMRNNU3TGtRBeJgk33yuGBxrMPHi'
+    )).toThrow('Refusing an extended private key');
+  });
+});
+
+describe('MultiSigVault', () => {
+  it('builds a sorted 2-of-3 P2WSH vault with checksummed descriptors', () => {
+    const vault = new MultiSigVault({ threshold: 2, signers: [ALICE, BOB, CAROL] });
+    const { receive, change } = vault.getDescriptors();
+
+    expect(receive).toMatch(/^wsh\(sortedmulti\(2,\[3442193e\]xpub661MyMwAqRbcFtXg\w+\/0\/\*,\[bd16bee5\]xpub\w+\/0\/\*,\[bd16bee5\/5\]xpub\w+\/0\/\*\)\)#\w{8}$/);
+    expect(change).toContain('/1/*');
+    expect(() => stripDescriptorChecksum(receive)).not.toThrow();
+
+    const address = vault.deriveAddress(0);
+    const script = address.witnessScript!;
+    expect(script.slice(0, 2)).toBe('52');
+    expect(script.slice(-4)).toBe('53ae');
+    const keys = [0, 1, 2].map(i => script.slice(4 + i * 68, 4 + i * 68 + 66));
+    expect(keys).toEqual([...keys].sort());
+    expect(address.address).toMatch(/^bc1q\w{58}$/);
+    expect(vault.deriveAddresses(3).map(a => a.address)).toEqual(
+      expect.arrayContaining([address.address, vault.deriveAddress(2).address])
+    );
+    expect(vault.deriveAddress(0, true).address).not.toBe(address.address);
+  });
+
+  it('validates thresholds, networks, duplicate keys and key origins', () => {
+    expect(() => new MultiSigVault({ threshold: 3, signers: [ALICE, BOB] })).toThrow('threshold must be between 1 and 2');
+    expect(() => new MultiSigVault({ threshold: 1, signers: [ALICE, { ...ALICE, label: 'again' }] })).toThrow('Duplicate signer xpub');
+    expect(() => new MultiSigVault({ threshold: 1, signers: [ALICE], network: 'testnet' })).toThrow('mainnet keys, not testnet');
+    expect(() => new MultiSigVault({ threshold: 1, signers: [{ xpub: BACKUP.xpub }] })).toThrow('master fingerprint');
+    expect(() => MultiSigVault.fromMultiSigConfig(
+      { requiredSignatures: 2, totalSigners: 3, signerAddresses: [], threshold: 2, timelock: 144 },
+      [ALICE, BOB, CAROL]
+    )).toThrow('provide recovery signers');
+  });
+
+  it('builds from the wallet security config and logs the new vault', () => {
+    const config: MultiSigConfig = { requiredSignatures: 2, totalSigners: 3, signerAddresses: [], threshold: 2, timelock: 144 };
+    const security = { getMultiSigVaultConfig: jest.fn(() => config), logMultiSigVaultCreated: jest.fn() };
+
+    const vault = MultiSigVault.fromWalletSecurity(security, [ALICE, BOB, CAROL], { recovery: { timelock: 1, signers: [BACKUP] } });
+    expect(vault.recoveryTimelock).toBe(144);
+    expect(security.logMultiSigVaultCreated).toHaveBeenCalledWith({ type: 'p2wsh', threshold: 2, signers: 3, recoveryTimelock: 144 });
+
+    // Without a timelock in the config the recovery signers are left out
+    security.getMultiSigVaultConfig.mockReturnValue({ ...config, timelock: undefined });
+    const primaryOnly = MultiSigVault.fromWalletSecurity(security, [ALICE, BOB, CAROL], { recovery: { timelock: 1, signers: [BACKUP] } });
+    expect(primaryOnly.recoveryTimelock).toBeUndefined();
+  });
+
+  it('collects partial signatures from co-signers and finalizes a P2WSH spend', () => {
+    const vault = MultiSigVault.fromMultiSigConfig(
+      { requiredSignatures: 2, totalSigners: 3, signerAddresses: [], threshold: 2 },
+      [ALICE, BOB, CAROL]
+    );
+    const recipient = vault.deriveAddress(9).address;
+    const spend = vault.buildSpend({
+      utxos: [utxo('a1', 60_000, 0), utxo('b2', 50_000, 1)],
+      outputs: [{ address: recipient, value: 90_000 }],
+      feeRate: 2,
+      changeIndex: 4
+    });
+
+    const psbt = psbtFromBase64(spend.psbt);
+    expect(psbt.tx.version).toBe(2);
+    expect(psbt.inputs[0].bip32Derivation).toHaveLength(3);
+    expect(psbt.inputs[0].bip32Derivation![0].path).toMatch(/^m\/0\/[01]$/);
+    expect(spend.changeAddress).toBe(vault.deriveAddress(4, true).address);
+    expect(psbt.outputs[1].witnessScript).toBe(vault.deriveAddress(4, true).witnessScript);
+
+    let status = vault.getSigningStatus(spend.psbt);
+    expect(status).toMatchObject({ missingSignatures: 4, complete: false });
+    expect(status.pendingSigners.sort()).toEqual(['alice', 'bob', 'carol']);
+
+    const afterAlice = vault.addSignatures(spend.psbt, sign(spend.psbt, ALICE.xpub));
+    status = vault.getSigningStatus(afterAlice);
+    expect(status.inputs[0]).toMatchObject({ path: 'primary', required: 2, signedBy: ['alice'], missing: 1 });
+    expect(status.pendingSigners.sort()).toEqual(['bob', 'carol']);
+    expect(() => vault.finalize(afterAlice)).toThrow('input 0 needs 1 more');
+
+    const signed = vault.addSignatures(afterAlice, sign(spend.psbt, CAROL.xpub));
+    expect(vault.getSigningStatus(signed)).toMatchObject({ missingSignatures: 0, pendingSigners: [], complete: true });
+
+    const { txHex, txid } = vault.finalize(signed);
+    const tx = parseTransaction(txHex);
+    expect(txid).toMatch(/^[0-9a-f]{64}$/);
+    expect(tx.inputs[0].witness).toEqual(['', DUMMY_ECDSA, DUMMY_ECDSA, psbt.inputs[0].witnessScript]);
+  });
+
+  it('rejects signatures from keys outside the spend path', () => {
+    const vault = new MultiSigVault({ threshold: 2, signers: [ALICE, BOB] });
+    const spend = vault.buildSpend({
+      utxos: [utxo('a1', 60_000, 0)],
+      outputs: [{ address: vault.deriveAddress(1).address, value: 30_000 }],
+      feeRate: 1,
+      changeIndex: 0
+    });
+    const forged = psbtFromBase64(spend.psbt);
+    forged.inputs[0].partialSigs = [{ pubkey: '02' + '79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798', signature: DUMMY_ECDSA }];
+    expect(() => vault.addSignatures(spend.psbt, psbtToBase64(forged))).toThrow("can't sign the primary path");
+  });
+
+  it('only lets the recovery keys spend once the timelock has passed', () => {
+    const vault = new MultiSigVault({
+      threshold: 2,
+      signers: [ALICE, BOB, CAROL],
+      recovery: { timelock: 144, signers: [BACKUP] }
+    });
+    expect(vault.getDescriptors().receive).toMatch(
+      /^wsh\(or_d\(multi\(2,.+\),and_v\(v:multi\(1,\[3442193e\/0'\]xpub68Gmy5\w+\/0\/\*\),older\(144\)\)\)\)#\w{8}$/
+    );
+    const script = vault.deriveAddress(0).witnessScript!;
+    expect(script).toMatch(/^52(21\w{66}){3}53ae736451(21\w{66})51af029000b268$/);
+
+    const params = {
+      outputs: [{ address: vault.deriveAddress(3).address, value: 20_000 }],
+      feeRate: 1,
+      changeIndex: 0,
+      path: 'recovery' as const
+    };
+    expect(() => vault.buildSpend({ ...params, utxos: [utxo('a1', 50_000, 0, 143)] })).toThrow('144 block recovery timelock');
+
+    const spend = vault.buildSpend({ ...params, utxos: [utxo('a1', 50_000, 0, 143), utxo('b2', 50_000, 1, 200)] });
+    expect(spend.inputs.map(input => input.txid)).toEqual(['b2'.repeat(32)]);
+    expect(spend.warnings).toContain('1 UTXO(s) are still timelocked and were left out');
+    expect(psbtFromBase64(spend.psbt).tx.inputs[0].sequence).toBe(144);
+
+    const status = vault.getSigningStatus(spend.psbt);
+    expect(status.inputs[0]).toMatchObject({ path: 'recovery', required: 1, missing: 1, canSign: ['backup'] });
+    expect(() => vault.addSignatures(spend.psbt, sign(spend.psbt, ALICE.xpub))).not.toThrow(); // alice has no key on this path
+    expect(vault.getSigningStatus(vault.addSignatures(spend.psbt, sign(spend.psbt, ALICE.xpub))).complete).toBe(false);
+
+    const signed = vault.addSignatures(spend.psbt, sign(spend.psbt, BACKUP.xpub));
+    const tx = parseTransaction(vault.finalize(signed).txHex);
+    expect(tx.inputs[0].witness).toEqual(['', DUMMY_ECDSA, '', '', '', vault.deriveAddress(1).witnessScript]);
+  });
+
+  it('builds P2TR vaults with a multi_a leaf behind an unspendable internal key', () => {
+    const vault = new MultiSigVault({
+      type: 'p2tr',
+      threshold: 2,
+      signers: [ALICE, BOB, CAROL],
+      recovery: { timelock: 1000, signers: [BACKUP] }
+    });
+    expect(vault.getDescriptors().receive).toMatch(
+      /^tr\(50929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0,\{sortedmulti_a\(2,.+\),and_v\(v:multi_a\(1,.+\),older\(1000\)\)\}\)#\w{8}$/
+    );
+    expect(vault.deriveAddress(0).address).toMatch(/^bc1p\w{58}$/);
+
+    const spend = vault.buildSpend({
+      utxos: [utxo('c3', 80_000, 2)],
+      outputs: [{ address: vault.deriveAddress(7).address, value: 30_000 }],
+      feeRate: 3,
+      changeIndex: 1
+    });
+    const psbt = psbtFromBase64(spend.psbt);
+    const [leaf] = psbt.inputs[0].tapLeafScripts!;
+    expect(leaf.script).toMatch(/^20\w{64}ac20\w{64}ba20\w{64}ba529c$/);
+    expect(leaf.controlBlock).toMatch(/^c[01]50929b74\w{56}\w{64}$/);
+    expect(psbt.outputs[1].tapTree).toHaveLength(2);
+
+    const signed = vault.addSignatures(spend.psbt, sign(spend.psbt, BOB.xpub), sign(spend.psbt, CAROL.xpub));
+    expect(vault.getSigningStatus(signed).inputs[0].signedBy.sort()).toEqual(['bob', 'carol']);
+
+    // One witness item per key, last key first, then the leaf script and control block
+    const keys = [0, 1, 2].map(i => leaf.script.slice(2 + i * 68, 66 + i * 68));
+    const aliceKey = Buffer.from(derivePath(parseExtendedPublicKey(ALICE.xpub), [0, 2]).publicKey).toString('hex').slice(2);
+    const witness = parseTransaction(vault.finalize(signed).txHex).inputs[0].witness;
+    expect(witness.slice(0, 3)).toEqual(keys.map(key => (key === aliceKey ? '' : DUMMY_SCHNORR)).reverse());
+    expect(witness.slice(3)).toEqual([leaf.script, leaf.controlBlock]);
+  });
+});
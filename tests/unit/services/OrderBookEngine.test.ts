@@ -0,0 +1,174 @@
+/**
+ * OrderBook order lifecycle tests (Jest)
+ */
+
+import { OrderBookEngine, type OrderRequest } from '@/services/orderbook/OrderBookEngine';
+import { InMemoryOrderJournal } from '@/services/orderbook/OrderJournal';
+
+const SYMBOL = 'BTC-USD';
+
+function manualClock(start = 1_700_000_000_000) {
+  let now = start;
+  const clock = () => now;
+  clock.advance = (ms: number) => (now += ms);
+  return clock;
+}
+
+function order(userId: string, side: 'buy' | 'sell', quantity: number, extra: Partial<OrderRequest> = {}): OrderRequest {
+  return {
+    userId,
+    symbol: SYMBOL,
+    side,
+    type: 'limit',
+    quantity,
+    timeInForce: 'GTC',
+    metadata: { source: 'test' },
+    ...extra
+  };
+}
+
+function createEngine(journal?: InMemoryOrderJournal) {
+  const clock = manualClock();
+  const engine = new OrderBookEngine({ journal, snapshotInterval: 0, clock });
+  engine.initializeOrderBook(SYMBOL);
+  return { engine, clock };
+}
+
+describe('OrderBookEngine order lifecycle', () => {
+  it('should trigger stop orders on the last trade price', async () => {
+    const { engine } = createEngine();
+    const triggered = jest.fn();
+    engine.on('stopTriggered', triggered);
+
+    await engine.placeOrder(order('maker', 'sell', 5, { price: 105 }));
+    const stop = await engine.placeOrder(order('alice', 'buy', 1, { type: 'stop', stopPrice: 100 }));
+    expect(stop.newOrderStatus.status).toBe('pending');
+    expect(engine.getPendingStopOrders(SYMBOL)).toHaveLength(1);
+
+    // Trade at 99 does not cross the buy stop
+    await engine.placeOrder(order('bob', 'sell', 1, { price: 99 }));
+    await engine.placeOrder(order('carol', 'buy', 1, { price: 99 }));
+    expect(triggered).not.toHaveBeenCalled();
+
+    // Trade at 100 activates it as a market buy against the 105 ask
+    await engine.placeOrder(order('bob', 'sell', 1, { price: 100 }));
+    await engine.placeOrder(order('carol', 'buy', 1, { price: 100 }));
+
+    expect(triggered).toHaveBeenCalledTimes(1);
+    expect(engine.getPendingStopOrders(SYMBOL)).toHaveLength(0);
+    expect(stop.newOrderStatus).toMatchObject({ status: 'filled', avgFillPrice: 105 });
+    expect(engine.getRecentTrades(SYMBOL, 1)[0]).toMatchObject({ buyUserId: 'alice', sellUserId: 'maker', price: 105 });
+  });
+
+  it('should rest a triggered stop-limit at its limit price', async () => {
+    const { engine } = createEngine();
+    await engine.placeOrder(order('bob', 'sell', 1, { price: 100 }));
+    await engine.placeOrder(order('carol', 'buy', 1, { price: 100 }));
+
+    // Already crossed on arrival: a sell stop at 101 with a 98 limit
+    const result = await engine.placeOrder(order('alice', 'sell', 2, { type: 'stop_limit', stopPrice: 101, price: 98 }));
+
+    expect(result.newOrderStatus.status).toBe('open');
+    expect(result.newOrderStatus.triggeredAt).toBeDefined();
+    expect(engine.getOrderBook(SYMBOL)!.asks[0]).toMatchObject({ price: 98, quantity: 2 });
+  });
+
+  it('should show only the iceberg slice and refill it at the back of the queue', async () => {
+    const { engine } = createEngine();
+    const refills = jest.fn();
+    engine.on('icebergRefilled', refills);
+
+    const iceberg = await engine.placeOrder(order('whale', 'sell', 10, { type: 'iceberg', price: 100, icebergQuantity: 2 }));
+    const plain = await engine.placeOrder(order('bob', 'sell', 1, { price: 100 }));
+    expect(engine.getOrderBook(SYMBOL)!.asks[0]).toMatchObject({ quantity: 3, orderCount: 2 });
+
+    const taker = await engine.placeOrder(order('carol', 'buy', 3, { type: 'market' }));
+
+    // 2 from the first slice, then bob keeps priority over the refilled slice
+    expect(taker.trades.map(t => [t.sellOrderId, t.quantity])).toEqual([
+      [iceberg.newOrderStatus.id, 2],
+      [plain.newOrderStatus.id, 1]
+    ]);
+    expect(refills).toHaveBeenCalledTimes(1);
+    expect(iceberg.newOrderStatus).toMatchObject({ remainingQuantity: 8, visibleQuantity: 2, status: 'partial' });
+
+    const level = engine.getOrderBook(SYMBOL)!.asks[0];
+    expect(level).toMatchObject({ price: 100, quantity: 2, orderCount: 1 });
+  });
+
+  it('should reject post-only orders that would cross', async () => {
+    const { engine } = createEngine();
+    const rejected = jest.fn();
+    engine.on('orderRejected', rejected);
+
+    await engine.placeOrder(order('maker', 'sell', 1, { price: 100 }));
+    const crossing = await engine.placeOrder(order('alice', 'buy', 1, { type: 'post_only', price: 100 }));
+    const passive = await engine.placeOrder(order('alice', 'buy', 1, { price: 99, postOnly: true }));
+
+    expect(crossing.newOrderStatus.status).toBe('rejected');
+    expect(crossing.trades).toHaveLength(0);
+    expect(rejected).toHaveBeenCalledWith({ order: crossing.newOrderStatus, reason: 'post_only_would_cross' });
+    expect(passive.newOrderStatus.status).toBe('open');
+  });
+
+  it('should expire GTD orders once their expiry time passes', async () => {
+    const { engine, clock } = createEngine();
+    const expired = jest.fn();
+    engine.on('orderExpired', expired);
+
+    const gtd = await engine.placeOrder(order('alice', 'buy', 1, { price: 99, timeInForce: 'GTD', expiryTime: clock() + 60_000 }));
+    expect(engine.sweepExpiredOrders()).toEqual([]);
+
+    clock.advance(60_000);
+    // A crossing order arriving after expiry must not fill against it
+    const late = await engine.placeOrder(order('bob', 'sell', 1, { price: 99 }));
+
+    expect(gtd.newOrderStatus.status).toBe('expired');
+    expect(expired).toHaveBeenCalledTimes(1);
+    expect(late.trades).toHaveLength(0);
+    expect(engine.getOrderBook(SYMBOL)!.bids).toHaveLength(0);
+  });
+
+  it('should enforce reduce-only against the net position', async () => {
+    const { engine } = createEngine();
+
+    const flat = await engine.placeOrder(order('alice', 'sell', 1, { price: 101, reduceOnly: true }));
+    expect(flat.newOrderStatus.status).toBe('rejected');
+
+    // alice buys 2
+    await engine.placeOrder(order('bob', 'sell', 2, { price: 100 }));
+    await engine.placeOrder(order('alice', 'buy', 2, { type: 'market' }));
+    expect(engine.getPosition('alice', SYMBOL)).toBe(2);
+
+    // Clipped to the open position
+    const exit = await engine.placeOrder(order('alice', 'sell', 5, { price: 101, reduceOnly: true }));
+    expect(exit.newOrderStatus).toMatchObject({ quantity: 2, remainingQuantity: 2, status: 'open' });
+
+    // Closing the position elsewhere cancels the now-useless resting order
+    await engine.placeOrder(order('carol', 'buy', 2, { price: 99 }));
+    await engine.placeOrder(order('alice', 'sell', 2, { type: 'market' }));
+
+    expect(engine.getPosition('alice', SYMBOL)).toBe(0);
+    expect(exit.newOrderStatus.status).toBe('cancelled');
+    expect(engine.getOrderBook(SYMBOL)!.asks).toHaveLength(0);
+  });
+
+  it('should replay stops, icebergs and expiries without divergences', async () => {
+    const journal = new InMemoryOrderJournal();
+    const { engine, clock } = createEngine(journal);
+
+    await engine.placeOrder(order('whale', 'sell', 6, { type: 'iceberg', price: 100, icebergQuantity: 2 }));
+    await engine.placeOrder(order('alice', 'buy', 1, { type: 'stop', stopPrice: 100 }));
+    await engine.placeOrder(order('bob', 'buy', 1, { price: 98, timeInForce: 'GTD', expiryTime: clock() + 1000 }));
+    await engine.placeOrder(order('carol', 'buy', 3, { type: 'market' }));
+    clock.advance(1000);
+    engine.sweepExpiredOrders();
+
+    const replayed = new OrderBookEngine();
+    const report = replayed.replay(journal.getEntries());
+
+    expect(report.divergences).toEqual([]);
+    expect(replayed.createSnapshot()).toEqual({ ...engine.createSnapshot(), timestamp: expect.any(Number) });
+    expect(replayed.getPosition('alice', SYMBOL)).toBe(1);
+  });
+});
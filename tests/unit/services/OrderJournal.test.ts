@@ -0,0 +1,126 @@
+/**
+ * OrderBook journal, snapshot and replay tests (Jest)
+ */
+
+import os from 'os';
+import path from 'path';
+import fs from 'fs';
+import { OrderBookEngine, type OrderRequest } from '@/services/orderbook/OrderBookEngine';
+import { FileOrderJournal, InMemoryOrderJournal } from '@/services/orderbook/OrderJournal';
+
+function fakeClock(start = 1_700_000_000_000) {
+  let now = start;
+  return () => (now += 10);
+}
+
+function limit(userId: string, side: 'buy' | 'sell', price: number, quantity: number): OrderRequest {
+  return {
+    userId,
+    symbol: 'BTC-USD',
+    side,
+    type: 'limit',
+    quantity,
+    price,
+    timeInForce: 'GTC',
+    metadata: { source: 'test' }
+  };
+}
+
+async function runSession(engine: OrderBookEngine) {
+  engine.initializeOrderBook('BTC-USD');
+  await engine.placeOrder(limit('alice', 'sell', 101, 2));
+  await engine.placeOrder(limit('bob', 'sell', 102, 1));
+  const resting = await engine.placeOrder(limit('carol', 'buy', 99, 3));
+  await engine.placeOrder(limit('dave', 'buy', 101, 1.5));
+  await engine.cancelOrder(resting.newOrderStatus.id, 'carol');
+  await engine.placeOrder(limit('erin', 'buy', 102, 1));
+}
+
+function comparable(engine: OrderBookEngine) {
+  return { ...engine.createSnapshot(), timestamp: expect.any(Number) };
+}
+
+describe('OrderBookEngine journal', () => {
+  it('should rebuild an identical book from snapshot + journal', async () => {
+    const journal = new InMemoryOrderJournal();
+    const engine = new OrderBookEngine({ journal, snapshotInterval: 5, clock: fakeClock() });
+    await runSession(engine);
+
+    const snapshot = journal.latestSnapshot();
+    expect(snapshot).not.toBeNull();
+    expect(snapshot!.journalSequence).toBeLessThan(journal.getEntries().length);
+
+    const { engine: recovered, report } = OrderBookEngine.recover(journal);
+    expect(report.divergences).toEqual([]);
+    expect(report.fromSequence).toBe(snapshot!.journalSequence);
+    expect(recovered.createSnapshot()).toEqual(comparable(engine));
+  });
+
+  it('should replay a captured log from scratch', async () => {
+    const journal = new InMemoryOrderJournal();
+    const engine = new OrderBookEngine({ journal, snapshotInterval: 0, clock: fakeClock() });
+    await runSession(engine);
+
+    const replayed = new OrderBookEngine();
+    const report = replayed.replay(journal.getEntries());
+
+    expect(report.appliedEntries).toBe(journal.getEntries().length);
+    expect(report.divergences).toEqual([]);
+    expect(replayed.createSnapshot()).toEqual(comparable(engine));
+  });
+
+  it('should report trades that do not match the recorded log', async () => {
+    const journal = new InMemoryOrderJournal();
+    const engine = new OrderBookEngine({ journal, snapshotInterval: 0, clock: fakeClock() });
+    await runSession(engine);
+
+    const entries = journal.getEntries();
+    const matched = entries.find(entry => entry.type === 'order_matched');
+    if (matched?.type !== 'order_matched') throw new Error('expected a trade in the journal');
+    matched.trade.price = 1;
+
+    const report = new OrderBookEngine().replay(entries);
+    expect(report.divergences).toHaveLength(1);
+    expect(report.divergences[0]).toContain(matched.trade.id);
+  });
+
+  it('should not emit events while replaying', async () => {
+    const journal = new InMemoryOrderJournal();
+    await runSession(new OrderBookEngine({ journal, clock: fakeClock() }));
+
+    const replayed = new OrderBookEngine();
+    const listener = jest.fn();
+    const done = jest.fn();
+    replayed.on('tradeExecuted', listener);
+    replayed.on('replayed', done);
+    const report = replayed.replay(journal.getEntries());
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(done).toHaveBeenCalledTimes(1);
+    expect(done).toHaveBeenCalledWith({ report, symbols: ['BTC-USD'] });
+  });
+});
+
+describe('FileOrderJournal', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'orderbook-journal-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should recover after a crash that truncated the last entry', async () => {
+    const engine = new OrderBookEngine({ journal: new FileOrderJournal(dir), snapshotInterval: 3, clock: fakeClock() });
+    await runSession(engine);
+
+    // Simula um crash no meio da escrita da próxima entrada
+    fs.appendFileSync(path.join(dir, 'journal.jsonl'), '{"sequence": 99, "type": "order_pl');
+
+    const { engine: recovered, report } = OrderBookEngine.recover(new FileOrderJournal(dir));
+    expect(report.divergences).toEqual([]);
+    expect(recovered.createSnapshot()).toEqual(comparable(engine));
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * OrdinalsBacktester Test Suite
+ */
+
+import {
+  OrdinalsBacktester,
+  eventsFromActivities,
+  parseMarketHistory,
+  type OrdinalsMarketEvent
+} from '@/services/ordinals/OrdinalsBacktester';
+import { OrdinalsMarketplace } from '@/services/ordinals/integrations';
+import type { RiskParameters, TradingStrategy } from '@/services/ordinals/OrdinalsTrader';
+
+const valueHunting: TradingStrategy = {
+  name: 'value_hunting',
+  description: 'Listings under the floor',
+  enabled: true,
+  parameters: { minReturn: 10, maxPositionSize: 10 },
+  riskLevel: 'medium',
+  expectedReturn: 25,
+  maxDrawdown: 15,
+  timeframe: 'medium',
+  priority: 7
+};
+
+const risk: RiskParameters = {
+  maxPositionSize: 10,
+  maxPortfolioRisk: 50,
+  maxDailyLoss: 5,
+  maxDrawdown: 20,
+  minLiquidityScore: 60,
+  maxConcentration: 30,
+  stopLossPercentage: 15,
+  takeProfitPercentage: 30,
+  cooldownPeriod: 60
+};
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2024, 0, 1);
+const ME = OrdinalsMarketplace.MAGIC_EDEN;
+
+function event(hours: number, type: OrdinalsMarketEvent['type'], price: number, inscriptionId?: string): OrdinalsMarketEvent {
+  return { type, collectionId: 'puppets', timestamp: T0 + hours * HOUR, price, marketplace: ME, inscriptionId };
+}
+
+describe('OrdinalsBacktester', () => {
+  it('only fills entries that a recorded sale could have filled', () => {
+    const result = new OrdinalsBacktester().run([valueHunting], risk, 1, [
+      event(0, 'floor', 0.1),
+      event(1, 'listing', 0.08, 'i1'), // 20% under the floor, but nobody ever bought it
+      event(30, 'floor', 0.1)
+    ]);
+
+    expect(result.orders).toHaveLength(1);
+    expect(result.orders[0]).toMatchObject({ type: 'buy', price: 0.08, status: 'cancelled' });
+    expect(result.session.currentPositions).toHaveLength(0);
+    expect(result.session.availableBalance).toBe(1);
+  });
+
+  it('charges marketplace fees and royalties on a take-profit round trip', () => {
+    const result = new OrdinalsBacktester({ royalties: { puppets: 2.5 } }).run([valueHunting], risk, 1, [
+      event(0, 'floor', 0.1),
+      event(1, 'listing', 0.08, 'i2'),
+      event(2, 'sale', 0.08, 'i2'),
+      event(5, 'floor', 0.11), // above the 30% take profit of 0.104
+      event(6, 'sale', 0.105, 'i9'), // too cheap for the 0.11 limit
+      event(7, 'sale', 0.115, 'i10')
+    ]);
+
+    expect(result.trades).toHaveLength(1);
+    const [trade] = result.trades;
+    expect(trade).toMatchObject({ inscriptionId: 'i2', entryPrice: 0.08, exitPrice: 0.11, exitReason: 'take_profit' });
+    expect(trade.fees).toBeCloseTo(0.0016 + 0.0022, 10);
+    expect(trade.royalty).toBeCloseTo(0.00275, 10);
+    expect(trade.netPnL).toBeCloseTo(0.03 - 0.0038 - 0.00275, 10);
+
+    expect(result.performance).toMatchObject({ totalTrades: 1, winningTrades: 1, winRate: 100, averageHoldingPeriod: 5 });
+    expect(result.performance.totalPnL).toBeCloseTo(0.03, 10);
+    expect(result.performance.netPnL).toBeCloseTo(trade.netPnL, 10);
+    expect(result.performance.monthlyReturns).toEqual([{ month: '2024-01', return: expect.closeTo(trade.netPnL * 100, 8), trades: 1 }]);
+    expect(result.session.availableBalance).toBeCloseTo(1 + trade.netPnL, 10);
+  });
+
+  it('chases the floor down with a stop loss and cools down after the loss', () => {
+    const result = new OrdinalsBacktester().run([valueHunting], risk, 1, [
+      event(0, 'floor', 0.1),
+      event(1, 'listing', 0.085, 'i3'),
+      event(2, 'sale', 0.085, 'i3'),
+      event(3, 'floor', 0.07), // under the 0.07225 stop
+      event(4, 'floor', 0.06),
+      event(5, 'sale', 0.06, 'i4'),
+      event(5.5, 'listing', 0.05, 'i5') // still cooling down
+    ]);
+
+    expect(result.trades.map(t => [t.exitReason, t.exitPrice])).toEqual([['stop_loss', 0.06]]);
+    expect(result.performance).toMatchObject({ losingTrades: 1, consecutiveLosses: 1 });
+    expect(result.performance.maxDrawdown).toBeGreaterThan(0);
+    expect(result.orders.filter(o => o.type === 'buy')).toHaveLength(1);
+  });
+
+  it('enforces position size and rejects strategies without a signal', () => {
+    const whale = new OrdinalsBacktester().run([valueHunting], risk, 0.5, [
+      event(0, 'floor', 0.1),
+      event(1, 'listing', 0.08, 'i6') // 16% of a 0.5 BTC portfolio
+    ]);
+    expect(whale.orders).toHaveLength(0);
+
+    expect(() => new OrdinalsBacktester().run([{ ...valueHunting, name: 'grid' }], risk, 1, []))
+      .toThrow('No backtest signal for strategy grid');
+  });
+});
+
+describe('market history import', () => {
+  it('reads CSV exports and activity feeds', () => {
+    const events = parseMarketHistory([
+      'timestamp,collection_id,type,price,marketplace,inscription_id',
+      '2024-01-01T00:00:00Z,puppets,floor,0.1,magic_eden,',
+      `${T0 + HOUR},puppets,sale,0.09,okx,i1`
+    ].join('\n'));
+    expect(events).toEqual([
+      expect.objectContaining({ type: 'floor', timestamp: T0, price: 0.1, marketplace: ME }),
+      expect.objectContaining({ type: 'sale', timestamp: T0 + HOUR, inscriptionId: 'i1' })
+    ]);
+
+    expect(() => parseMarketHistory('timestamp,collection_id,type,price,marketplace\n1,puppets,floor,0,okx'))
+      .toThrow('Market history line 2: Invalid floor price 0 for puppets');
+
+    const fromFeed = eventsFromActivities([
+      { id: 'a', type: 'list', inscriptionId: 'i7', inscriptionNumber: 7, price: 0.2, timestamp: T0, txHash: '', marketplace: ME },
+      { id: 'b', type: 'transfer', inscriptionId: 'i7', inscriptionNumber: 7, timestamp: T0, txHash: '', marketplace: ME }
+    ], 'puppets');
+    expect(fromFeed).toEqual([expect.objectContaining({ type: 'listing', collectionId: 'puppets', inscriptionNumber: 7 })]);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Ordinals purchase PSBT tests (Jest)
+ */
+
+import { addressValidator } from '@/lib/addressValidation';
+import {
+  type Psbt,
+  createPsbt,
+  decodePsbt,
+  encodePsbt,
+  psbtFromBase64,
+  psbtToBase64
+} from '@/lib/psbt';
+import { locateSat } from '@/lib/ordinals/satTransfer';
+import { parseTransaction } from '@/lib/runestone';
+import {
+  type InscriptionUtxo,
+  type PsbtUtxo,
+  PurchasePsbtBuilder,
+  SELLER_SIGHASH
+} from '@/services/ordinals/PurchasePsbtBuilder';
+
+const CYPHER_SCRIPT = addressValidator.addressToScriptPubKey('bc1qa5wkgaew2dkv56kfvj49j0av5nml45x9ek9hz6');
+
+function p2tr(fill: string): string {
+  return addressValidator.scriptPubKeyToAddress('5120' + fill.repeat(32));
+}
+
+function p2wpkh(fill: string): string {
+  return addressValidator.scriptPubKeyToAddress('0014' + fill.repeat(20));
+}
+
+const SELLER_ORDINALS = p2tr('11');
+const SELLER_PAYMENT = p2wpkh('22');
+const BUYER_ORDINALS = p2tr('33');
+const BUYER_PAYMENT = p2wpkh('44');
+const PLATFORM = p2wpkh('55');
+
+const inscription: InscriptionUtxo = {
+  txid: 'aa'.repeat(32),
+  vout: 0,
+  value: 10_000,
+  address: SELLER_ORDINALS,
+  tapInternalKey: '11'.repeat(32),
+  inscriptionId: 'aa'.repeat(32) + 'i0'
+};
+
+const dummies: PsbtUtxo[] = [
+  { txid: 'b1'.repeat(32), vout: 0, value: 600, address: BUYER_PAYMENT },
+  { txid: 'b2'.repeat(32), vout: 1, value: 600, address: BUYER_PAYMENT }
+];
+
+const payments: PsbtUtxo[] = [
+  { txid: 'c1'.repeat(32), vout: 0, value: 50_000, address: BUYER_PAYMENT },
+  { txid: 'c2'.repeat(32), vout: 2, value: 2_000_000, address: BUYER_PAYMENT }
+];
+
+// Placeholder signatures: the builder only moves them around, it never verifies them
+function signSeller(base64: string): string {
+  const psbt = psbtFromBase64(base64);
+  psbt.inputs[0].tapKeySig = 'ee'.repeat(64) + '83';
+  return psbtToBase64(psbt);
+}
+
+function signBuyer(base64: string, indices: number[]): string {
+  const psbt = psbtFromBase64(base64);
+  for (const i of indices) {
+    psbt.inputs[i].partialSigs = [{ pubkey: '02' + 'dd'.repeat(32), signature: '30' + 'cc'.repeat(70) + '01' }];
+  }
+  return psbtToBase64(psbt);
+}
+
+describe('PSBT codec', () => {
+  it('round-trips every field, including unknown keys, through base64', () => {
+    const psbt: Psbt = createPsbt({
+      version: 2,
+      locktime: 840_000,
+      inputs: [{ txid: 'ab'.repeat(32), vout: 3, sequence: 0xfffffffd }],
+      outputs: [{ value: 12_345, script: '0014' + '44'.repeat(20) }]
+    });
+    psbt.inputs[0] = {
+      witnessUtxo: { value: 20_000, script: '5120' + '11'.repeat(32) },
+      sighashType: SELLER_SIGHASH,
+      tapInternalKey: '11'.repeat(32),
+      unknown: [{ key: '1f' + '02'.repeat(33), value: 'deadbeef' }]
+    };
+    psbt.outputs[0] = { unknown: [{ key: 'fc01', value: '00' }] };
+
+    const base64 = psbtToBase64(psbt);
+    expect(base64.startsWith('cHNidP8')).toBe(true);
+    expect(psbtFromBase64(base64)).toEqual(psbt);
+    expect(decodePsbt(encodePsbt(psbt))).toEqual(psbt);
+  });
+
+  it('rejects bad magic bytes and truncated data', () => {
+    const bytes = encodePsbt(createPsbt({
+      version: 2,
+      locktime: 0,
+      inputs: [{ txid: 'ab'.repeat(32), vout: 0, sequence: 0xffffffff }],
+      outputs: [{ value: 1000, script: '0014' + '44'.repeat(20) }]
+    }));
+
+    expect(() => decodePsbt(bytes.slice(0, bytes.length - 1))).toThrow('truncated');
+    const corrupted = bytes.slice();
+    corrupted[0] = 0x00;
+    expect(() => decodePsbt(corrupted)).toThrow('magic');
+  });
+});
+
+describe('PurchasePsbtBuilder', () => {
+  const builder = new PurchasePsbtBuilder();
+
+  it('follows sats first-in-first-out', () => {
+    expect(locateSat([600, 600, 10_000], [1_200, 10_000], 2, 0)).toEqual({ outputIndex: 1, offset: 0 });
+    expect(locateSat([600, 600, 10_000], [1_000, 10_000], 2, 0)).toEqual({ outputIndex: 1, offset: 200 });
+    expect(locateSat([600, 600, 10_000], [1_000], 2, 0)).toBeNull();
+  });
+
+  it('lays out the buyer PSBT around the seller pair and passes validation', () => {
+    const listing = builder.createSellerListing({ inscription, price: 1_000_000, sellerPaymentAddress: SELLER_PAYMENT });
+    const seller = psbtFromBase64(listing.psbt);
+    expect(seller.inputs[0].sighashType).toBe(SELLER_SIGHASH);
+    expect(seller.tx.outputs).toEqual([{ value: 1_000_000, script: addressValidator.addressToScriptPubKey(SELLER_PAYMENT) }]);
+
+    const result = builder.buildBuyerPsbt({
+      listing,
+      buyerPaymentAddress: BUYER_PAYMENT,
+      buyerOrdinalsAddress: BUYER_ORDINALS,
+      dummyUtxos: dummies,
+      paymentUtxos: payments,
+      feeRate: 10,
+      platformFee: { address: PLATFORM, amount: 20_000 }
+    });
+    const psbt = psbtFromBase64(result.psbt);
+    const { inputs, outputs } = psbt.tx;
+
+    expect(inputs.map(i => i.txid.slice(0, 2))).toEqual(['b1', 'b2', 'aa', 'c2']);
+    expect(outputs[0]).toEqual({ value: 1_200, script: addressValidator.addressToScriptPubKey(BUYER_PAYMENT) });
+    expect(outputs[1]).toEqual({ value: 10_000, script: addressValidator.addressToScriptPubKey(BUYER_ORDINALS) });
+    expect(outputs[2]).toEqual(seller.tx.outputs[0]);
+    expect(outputs[3].value).toBe(20_000);
+    expect(outputs[4]).toEqual({ value: 3_500, script: CYPHER_SCRIPT });
+    expect(outputs.slice(5, 7).map(o => o.value)).toEqual([600, 600]);
+    expect(result.cypherFee).toBe(3_500);
+    expect(result.buyerInputIndices).toEqual([0, 1, 3]);
+
+    const inTotal = 600 + 600 + 10_000 + 2_000_000;
+    const outTotal = outputs.reduce((sum, o) => sum + o.value, 0);
+    expect(inTotal - outTotal).toBe(result.networkFee);
+    expect(result.change).toBe(outputs[7].value);
+    expect(result.feeRate).toBeGreaterThanOrEqual(10);
+    expect(result.feeRate).toBeLessThan(10.1);
+
+    const validation = builder.validatePurchasePsbt(result.psbt, {
+      inscription,
+      buyerOrdinalsAddress: BUYER_ORDINALS,
+      price: 1_000_000,
+      sellerPaymentAddress: SELLER_PAYMENT,
+      platformFee: { address: PLATFORM, amount: 20_000 }
+    });
+    expect(validation.errors).toEqual([]);
+    expect(validation.valid).toBe(true);
+    expect(validation.inscriptionOutputIndex).toBe(1);
+  });
+
+  it('flags PSBTs that send the inscription or the fees elsewhere', () => {
+    const listing = builder.createSellerListing({ inscription, price: 1_000_000, sellerPaymentAddress: SELLER_PAYMENT });
+    const result = builder.buildBuyerPsbt({
+      listing,
+      buyerPaymentAddress: BUYER_PAYMENT,
+      buyerOrdinalsAddress: BUYER_ORDINALS,
+      dummyUtxos: dummies,
+      paymentUtxos: payments,
+      feeRate: 5
+    });
+
+    // Growing the first output by the postage pulls the inscription sat into the buyer's payment output
+    const tampered = psbtFromBase64(result.psbt);
+    tampered.tx.outputs[0].value += 10_000;
+    tampered.tx.outputs[1].value = 1_000;
+    tampered.tx.outputs.splice(3, 1);
+    tampered.outputs.splice(3, 1);
+    tampered.tx.outputs[tampered.tx.outputs.length - 1].value -= 1_000;
+
+    const validation = builder.validatePurchasePsbt(tampered, {
+      inscription,
+      buyerOrdinalsAddress: BUYER_ORDINALS,
+      price: 1_000_000
+    });
+    expect(validation.valid).toBe(false);
+    expect(validation.inscriptionOutputIndex).toBe(0);
+    expect(validation.errors).toEqual(expect.arrayContaining([
+      expect.stringContaining('does not pay the buyer ordinals address'),
+      expect.stringContaining('Missing Cypher fee output')
+    ]));
+  });
+
+  it('combines an offline seller signature and buyer signatures into a broadcastable transaction', () => {
+    const listing = builder.createSellerListing({ inscription, price: 1_000_000, sellerPaymentAddress: SELLER_PAYMENT });
+    const signedListing = { ...listing, psbt: signSeller(listing.psbt) };
+    const result = builder.buildBuyerPsbt({
+      listing: signedListing,
+      buyerPaymentAddress: BUYER_PAYMENT,
+      buyerOrdinalsAddress: BUYER_ORDINALS,
+      dummyUtxos: dummies,
+      paymentUtxos: payments,
+      feeRate: 10
+    });
+
+    const imported = builder.importSignedPsbt(signBuyer(result.psbt, result.buyerInputIndices), result.psbt);
+    expect(imported.signedInputs).toEqual([0, 1, 2, 3]);
+    expect(imported.complete).toBe(true);
+
+    const { txHex, txid } = builder.finalizePurchase(imported.base64);
+    const tx = parseTransaction(txHex);
+    expect(txid).toBe(imported.txid);
+    expect(tx.inputs[2].witness).toEqual(['ee'.repeat(64) + '83']);
+    expect(tx.inputs[0].witness).toEqual(['30' + 'cc'.repeat(70) + '01', '02' + 'dd'.repeat(32)]);
+
+    // A signer that changed the transaction is refused
+    const altered = psbtFromBase64(imported.base64);
+    altered.tx.outputs[1].script = addressValidator.addressToScriptPubKey(BUYER_PAYMENT);
+    expect(() => builder.importSignedPsbt(psbtToBase64(altered), result.psbt)).toThrow('does not match');
+  });
+
+  it('adds the seller signature to an unsigned buyer PSBT and checks the pair', () => {
+    const listing = builder.createSellerListing({ inscription, price: 1_000_000, sellerPaymentAddress: SELLER_PAYMENT });
+    const result = builder.buildBuyerPsbt({
+      listing,
+      buyerPaymentAddress: BUYER_PAYMENT,
+      buyerOrdinalsAddress: BUYER_ORDINALS,
+      dummyUtxos: dummies,
+      paymentUtxos: payments,
+      feeRate: 10
+    });
+
+    const combined = psbtFromBase64(builder.combineSellerSignature(result.psbt, signSeller(listing.psbt)));
+    expect(combined.inputs[2].tapKeySig).toBe('ee'.repeat(64) + '83');
+
+    const otherPrice = builder.createSellerListing({ inscription, price: 900_000, sellerPaymentAddress: SELLER_PAYMENT });
+    expect(() => builder.combineSellerSignature(result.psbt, signSeller(otherPrice.psbt))).toThrow('does not match');
+    expect(() => builder.combineSellerSignature(result.psbt, listing.psbt)).toThrow('not signed');
+  });
+
+  it('creates dummy UTXOs and reports insufficient funds', () => {
+    const dummy = builder.buildDummyUtxoPsbt({ paymentUtxos: [payments[0]], address: BUYER_PAYMENT, feeRate: 4 });
+    const outputs = psbtFromBase64(dummy.psbt).tx.outputs;
+    expect(outputs.slice(0, 2).map(o => o.value)).toEqual([600, 600]);
+    expect(50_000 - outputs.reduce((sum, o) => sum + o.value, 0)).toBe(dummy.networkFee);
+
+    const listing = builder.createSellerListing({ inscription, price: 1_000_000, sellerPaymentAddress: SELLER_PAYMENT });
+    expect(() => builder.buildBuyerPsbt({
+      listing,
+      buyerPaymentAddress: BUYER_PAYMENT,
+      buyerOrdinalsAddress: BUYER_ORDINALS,
+      dummyUtxos: dummies,
+      paymentUtxos: [payments[0]],
+      feeRate: 10
+    })).toThrow('Insufficient funds');
+  });
+});
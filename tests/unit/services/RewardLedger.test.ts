@@ -0,0 +1,105 @@
+/**
+ * RewardLedger Test Suite
+ */
+
+import { RewardLedger, type LedgerRewardToken } from '@/services/staking/RewardLedger';
+import type { StakingBoost } from '@/services/staking/StakingRewardsSystem';
+
+const T0 = Date.UTC(2024, 0, 1);
+const at = (seconds: number) => T0 + seconds * 1000;
+
+const cypher: LedgerRewardToken = { symbol: 'CYPHER', decimals: 18, emissionRate: 1, remainingRewards: 1000000 };
+
+function boost(multiplier: number, from: number, to?: number): StakingBoost {
+  return {
+    id: `boost_${multiplier}`,
+    type: 'loyalty',
+    multiplier,
+    description: 'test boost',
+    startDate: at(from),
+    endDate: to === undefined ? undefined : at(to),
+    isActive: true
+  };
+}
+
+function amountOf(ledger: RewardLedger, positionId: string, seconds: number, token = 'CYPHER'): number {
+  return ledger.pending(positionId, at(seconds)).find(r => r.token === token)!.amount;
+}
+
+describe('RewardLedger', () => {
+  it('splits each second of emission by share of the pool', () => {
+    const ledger = new RewardLedger();
+    ledger.addPool('pool', [cypher], at(0));
+    ledger.deposit('a', 'pool', 100, [], at(0));
+    ledger.deposit('b', 'pool', 300, [], at(10));
+
+    expect(amountOf(ledger, 'a', 20)).toBe(12.5);
+    expect(amountOf(ledger, 'b', 20)).toBe(7.5);
+
+    // Reading pending is a view and never moves the ledger
+    expect(amountOf(ledger, 'a', 20)).toBe(12.5);
+  });
+
+  it('applies emission changes and new reward tokens from the moment they happen', () => {
+    const ledger = new RewardLedger();
+    ledger.addPool('pool', [{ ...cypher, remainingRewards: 35 }], at(0));
+    ledger.deposit('a', 'pool', 1, [], at(0));
+    ledger.updateRewardToken('pool', 'CYPHER', { emissionRate: 3 }, at(10));
+    ledger.addRewardToken('pool', { symbol: 'ORDI', decimals: 8, emissionRate: 0.5, remainingRewards: 100 }, at(15));
+
+    // 10 at the old rate, then 3/s until the 35 token budget runs out
+    expect(amountOf(ledger, 'a', 16)).toBe(28);
+    expect(amountOf(ledger, 'a', 30)).toBe(35);
+    expect(amountOf(ledger, 'a', 30, 'ORDI')).toBe(7.5);
+    expect(() => ledger.pending('a', at(5))).toThrow('Ledger time cannot move backwards for pool pool');
+  });
+
+  it('weights boosted positions only while the boost is live', () => {
+    const ledger = new RewardLedger();
+    ledger.addPool('pool', [cypher], at(0));
+    ledger.deposit('a', 'pool', 100, [boost(2, 10, 20)], at(0));
+    ledger.deposit('b', 'pool', 100, [], at(0));
+
+    // 5 each, then 2:1 for ten seconds, then 5 each again
+    expect(amountOf(ledger, 'a', 30)).toBeCloseTo(5 + 20 / 3 + 5, 12);
+    expect(amountOf(ledger, 'b', 30)).toBeCloseTo(5 + 10 / 3 + 5, 12);
+  });
+
+  it('locks harvested rewards until the vesting cliff', () => {
+    const ledger = new RewardLedger();
+    ledger.addPool('pool', [{ ...cypher, vestingCliff: 3600 }], at(0));
+    ledger.deposit('a', 'pool', 1, [], at(0));
+
+    expect(ledger.harvest('a', at(10))).toEqual([
+      { token: 'CYPHER', amount: 10, vestedAt: at(10), claimableAt: at(3610), claimed: false }
+    ]);
+    expect(ledger.pending('a', at(20))[0]).toMatchObject({ amount: 10, vesting: 10, claimable: 0 });
+    expect(ledger.claimVested('a', at(100))).toEqual([]);
+
+    expect(ledger.claimVested('a', at(3610))).toEqual([expect.objectContaining({ amount: 10, claimed: true })]);
+    expect(ledger.pending('a', at(3610))[0]).toMatchObject({ vesting: 0, claimable: 0 });
+  });
+
+  it('replays a position history into segments that add up to its pending reward', () => {
+    const ledger = new RewardLedger();
+    ledger.addPool('pool', [{ ...cypher, emissionRate: 0.1 }], at(0));
+    ledger.deposit('a', 'pool', 3, [boost(1.5, 50, 70)], at(0));
+    ledger.deposit('b', 'pool', 7, [], at(13));
+    ledger.pending('a', at(40));
+    ledger.harvest('a', at(41));
+    ledger.updateRewardToken('pool', 'CYPHER', { emissionRate: 0.37 }, at(60));
+    ledger.withdraw('b', 2, at(77));
+
+    const explanation = ledger.explain('a', at(100));
+    const pending = ledger.pending('a', at(100))[0].amount;
+
+    expect(explanation.reconciled).toBe(true);
+    expect(explanation.totals).toEqual([{ token: 'CYPHER', accrued: expect.any(Number), harvested: expect.any(Number), pending }]);
+    expect(explanation.totals[0].accrued - explanation.totals[0].harvested).toBeCloseTo(pending, 12);
+    expect(explanation.segments.reduce((sum, s) => sum + s.reward, 0)).toBeCloseTo(explanation.totals[0].accrued, 12);
+    expect(explanation.segments.find(s => s.from === at(0))).toMatchObject({ seconds: 13, reward: 1.3, positionShares: 3 });
+    expect(explanation.events.map(e => e.type)).toEqual([
+      'pool_added', 'deposit', 'harvest', 'boost_boundary', 'token_updated', 'boost_boundary'
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * RunesAMM Test Suite
+ */
+
+import {
+  MINIMUM_LIQUIDITY,
+  calculateLiquidityBurn,
+  calculateLiquidityMint,
+  findBestRoute,
+  getAmountIn,
+  getAmountOut,
+  impermanentLoss,
+  projectImpermanentLoss,
+  quoteExactIn,
+  quoteRouteExactOut,
+  sqrt,
+  verifySwapQuote
+} from '@/services/runes/RunesAMM';
+import type { LiquidityPool, LiquidityPosition, RuneToken } from '@/services/runes/RunesDEX';
+
+function token(id: string): RuneToken {
+  return { id, name: id, symbol: id, decimals: 8 } as RuneToken;
+}
+
+function pool(id: string, a: string, b: string, reserveA: bigint, reserveB: bigint, fee = 30): LiquidityPool {
+  return {
+    id,
+    tokenA: token(a),
+    tokenB: token(b),
+    reserveA,
+    reserveB,
+    lpTokenSupply: sqrt(reserveA * reserveB),
+    fee,
+    isActive: true
+  } as LiquidityPool;
+}
+
+describe('RunesAMM', () => {
+  const dogBtc = pool('dog-btc', 'DOG', 'BTC', 1_000_000_000n, 10_000_000n);
+  const dogPup = pool('dog-pup', 'DOG', 'PUP', 1_000_000_000n, 4_000_000_000n);
+  const pupBtc = pool('pup-btc', 'PUP', 'BTC', 4_000_000_000n, 12_000_000n);
+
+  describe('swap quotes', () => {
+    it('should match the constant-product formula with a 0.3% fee', () => {
+      // 997 * 1000 * 10000 / (100000 * 1000 + 997 * 1000)
+      expect(getAmountOut(1000n, 100_000n, 10_000n, 30)).toBe(98n);
+      expect(getAmountIn(98n, 100_000n, 10_000n, 30)).toBeLessThanOrEqual(1000n);
+      expect(getAmountOut(getAmountIn(98n, 100_000n, 10_000n, 30), 100_000n, 10_000n, 30)).toBeGreaterThanOrEqual(98n);
+      expect(() => getAmountIn(10_000n, 100_000n, 10_000n, 30)).toThrow('exceeds pool reserves');
+    });
+
+    it('should report price impact excluding the fee', () => {
+      const small = quoteExactIn(dogBtc, 'DOG', 1_000_000n);
+      const large = quoteExactIn(dogBtc, 'DOG', 100_000_000n);
+
+      expect(small.priceImpact).toBeLessThan(0.2);
+      // Post-fee input is ~9.97% of the reserve, so impact is ~9.07%
+      expect(large.priceImpact).toBeCloseTo(9.07, 1);
+      expect(large.fee).toBe(300_000n);
+      expect(large.reserveOutAfter).toBe(dogBtc.reserveB - large.amountOut);
+    });
+
+    it('should route through an intermediate pool when it pays more', () => {
+      const route = findBestRoute([dogBtc, dogPup, pupBtc], 'DOG', 'BTC', 1_000_000n)!;
+
+      // DOG -> PUP -> BTC prices DOG at 0.012 BTC vs 0.01 direct
+      expect(route.pools.map(p => p.id)).toEqual(['dog-pup', 'pup-btc']);
+      expect(route.path.map(t => t.id)).toEqual(['DOG', 'PUP', 'BTC']);
+      expect(route.midPrice).toBeCloseTo(0.012);
+      expect(route.fee).toBe(1_000_000n - (1_000_000n * 9970n * 9970n) / 100_000_000n);
+    });
+
+    it('should quote exact output routes that deliver at least the requested amount', () => {
+      const route = quoteRouteExactOut([dogPup, pupBtc], 'DOG', 50_000n);
+
+      expect(route.amountOut).toBe(50_000n);
+      expect(route.hops[0].amountOut).toBe(route.hops[1].amountIn);
+      const best = findBestRoute([dogBtc, dogPup, pupBtc], 'DOG', 'BTC', 50_000n, { exactOut: true })!;
+      expect(best.amountIn).toBe(route.amountIn);
+      expect(findBestRoute([dogBtc], 'DOG', 'PUP', 1000n)).toBeNull();
+    });
+  });
+
+  describe('liquidity', () => {
+    it('should mint proportionally and trim the excess side', () => {
+      const deposit = calculateLiquidityMint(dogBtc, 10_000_000n, 1_000_000n);
+
+      expect(deposit.amountA).toBe(10_000_000n);
+      expect(deposit.amountB).toBe(100_000n);
+      expect(deposit.lpTokens).toBe(dogBtc.lpTokenSupply / 100n);
+
+      const withdrawal = calculateLiquidityBurn(dogBtc, deposit.lpTokens);
+      expect(withdrawal.amountA).toBeLessThanOrEqual(deposit.amountA);
+      expect(withdrawal.amountB).toBeLessThanOrEqual(deposit.amountB);
+      expect(() => calculateLiquidityBurn(dogBtc, dogBtc.lpTokenSupply + 1n)).toThrow('exceeds pool supply');
+    });
+
+    it('should lock the minimum liquidity on the first deposit', () => {
+      const empty = { ...dogBtc, reserveA: 0n, reserveB: 0n, lpTokenSupply: 0n };
+      expect(calculateLiquidityMint(empty, 4_000_000n, 1_000_000n).lpTokens).toBe(2_000_000n - MINIMUM_LIQUIDITY);
+    });
+
+    it('should project impermanent loss along the curve', () => {
+      const position = { id: 'p1', poolId: 'dog-btc', lpTokens: dogBtc.lpTokenSupply / 10n } as LiquidityPosition;
+      const [down, up] = projectImpermanentLoss(position, dogBtc, [-75, 300]);
+
+      // A 4x move either way costs 20%
+      expect(impermanentLoss(4)).toBeCloseTo(-20);
+      expect(down.impermanentLoss).toBeCloseTo(-20, 2);
+      expect(up.impermanentLoss).toBeCloseTo(-20, 2);
+      expect(Number(up.amountB) / Number(up.amountA)).toBeCloseTo(0.04, 4);
+    });
+  });
+
+  describe('quote verification', () => {
+    const local = quoteExactIn(dogBtc, 'DOG', 1_000_000n);
+    const quote = {
+      tokenIn: dogBtc.tokenA,
+      tokenOut: dogBtc.tokenB,
+      amountIn: 1_000_000n,
+      amountOut: local.amountOut,
+      minimumAmountOut: (local.amountOut * 995n) / 1000n,
+      slippage: 0.5
+    };
+
+    it('should accept a quote that matches the pools', () => {
+      expect(verifySwapQuote(quote, [dogBtc])).toMatchObject({ valid: true, deviationBps: 0, issues: [] });
+    });
+
+    it('should reject inflated outputs and loose minimums', () => {
+      const inflated = verifySwapQuote({ ...quote, amountOut: (local.amountOut * 102n) / 100n }, [dogBtc]);
+      expect(inflated.valid).toBe(false);
+      expect(inflated.issues[0]).toContain('above what the pools can pay');
+
+      const loose = verifySwapQuote({ ...quote, minimumAmountOut: local.amountOut / 2n }, [dogBtc]);
+      expect(loose.valid).toBe(false);
+      expect(loose.issues[0]).toContain('slippage floor');
+    });
+  });
+});
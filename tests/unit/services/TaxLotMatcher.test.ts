@@ -0,0 +1,346 @@
+/**
+ * Tax lot matching, exchange CSV import and form export tests
+ */
+
+import { matchTaxLots } from '@/services/compliance/TaxLotMatcher';
+import { importExchangeCsv } from '@/services/compliance/TaxCsvImporter';
+import { buildSA108Summary, toForm8949CSV } from '@/services/compliance/TaxFormExporter';
+import { TaxComplianceSystem, type TaxEvent } from '@/services/compliance/TaxComplianceSystem';
+
+function trade(id: string, side: 'buy' | 'sell', date: string, amount: number, fiatValue: number, asset = 'BTC'): TaxEvent {
+  return {
+    id,
+    type: 'trade',
+    subtype: side,
+    timestamp: Date.parse(date),
+    asset,
+    amount,
+    fiatValue,
+    fiatCurrency: 'USD',
+    fees: 0,
+    description: `${side} ${amount} ${asset}`,
+    tags: []
+  };
+}
+
+const threeLots = [
+  trade('b1', 'buy', '2023-01-01T00:00:00Z', 1, 10000),
+  trade('b2', 'buy', '2023-02-01T00:00:00Z', 1, 30000),
+  trade('b3', 'buy', '2023-03-01T00:00:00Z', 1, 20000),
+  trade('s1', 'sell', '2023-04-01T00:00:00Z', 1, 25000)
+];
+
+describe('matchTaxLots', () => {
+  it('relieves lots in FIFO, LIFO and HIFO order', () => {
+    const gainFor = (method: 'FIFO' | 'LIFO' | 'HIFO') =>
+      matchTaxLots(threeLots, { method, longTermHoldingPeriod: 365 }).gains[0];
+
+    expect(gainFor('FIFO')).toMatchObject({ lotId: 'lot_b1', gainLoss: 15000 });
+    expect(gainFor('LIFO')).toMatchObject({ lotId: 'lot_b3', gainLoss: 5000 });
+    expect(gainFor('HIFO')).toMatchObject({ lotId: 'lot_b2', gainLoss: -5000 });
+  });
+
+  it('relieves specifically identified lots first and rejects oversized selections', () => {
+    const result = matchTaxLots(threeLots, {
+      method: 'SPECIFIC_ID',
+      longTermHoldingPeriod: 365,
+      lotSelections: { s1: [{ lotId: 'lot_b3', amount: 0.4 }] }
+    });
+
+    expect(result.gains.map(g => [g.lotId, g.amount])).toEqual([['lot_b3', 0.4], ['lot_b1', 0.6]]);
+    expect(result.lots.find(l => l.id === 'lot_b3')!.remainingAmount).toBeCloseTo(0.6);
+
+    expect(() => matchTaxLots(threeLots, {
+      method: 'SPECIFIC_ID',
+      longTermHoldingPeriod: 365,
+      lotSelections: { s1: [{ lotId: 'lot_b3', amount: 2 }] }
+    })).toThrow('Lot lot_b3 cannot cover 2 BTC for sale s1');
+  });
+
+  it('reports one gain per lot when a selection covers part of the oldest lot', () => {
+    const events = [
+      trade('b1', 'buy', '2023-01-01T00:00:00Z', 1, 10000),
+      trade('b2', 'buy', '2023-02-01T00:00:00Z', 1, 30000),
+      trade('s1', 'sell', '2023-04-01T00:00:00Z', 1.5, 37500)
+    ];
+    const { gains } = matchTaxLots(events, {
+      method: 'SPECIFIC_ID',
+      longTermHoldingPeriod: 365,
+      lotSelections: { s1: [{ lotId: 'lot_b1', amount: 0.25 }] }
+    });
+
+    expect(gains.map(g => [g.id, g.amount, g.costBasis])).toEqual([
+      ['gain_s1_lot_b1', 1, 10000],
+      ['gain_s1_lot_b2', 0.5, 15000]
+    ]);
+    expect(gains[0].gainLoss).toBeCloseTo(15000);
+  });
+
+  it('defers a wash-sale loss into the replacement lot', () => {
+    const events = [
+      trade('b1', 'buy', '2023-01-01T00:00:00Z', 1, 30000),
+      trade('s1', 'sell', '2023-02-01T00:00:00Z', 1, 20000),
+      trade('b2', 'buy', '2023-02-10T00:00:00Z', 1, 21000),
+      trade('s2', 'sell', '2023-06-01T00:00:00Z', 1, 25000)
+    ];
+
+    const [loss, later] = matchTaxLots(events, { method: 'FIFO', longTermHoldingPeriod: 365, washSaleDays: 30 }).gains;
+    expect(loss).toMatchObject({ washSale: true, washSaleAdjustment: 10000, gainLoss: 0 });
+    expect(later).toMatchObject({ lotId: 'lot_b2', costBasis: 31000, gainLoss: -6000 });
+
+    const plain = matchTaxLots(events, { method: 'FIFO', longTermHoldingPeriod: 365 }).gains;
+    expect(plain.map(g => g.gainLoss)).toEqual([-10000, 4000]);
+  });
+
+  it('carries the sold units\' own holding period through repeated wash sales', () => {
+    const events = [
+      trade('b1', 'buy', '2023-01-01T00:00:00Z', 1, 30000),
+      trade('s1', 'sell', '2023-02-01T00:00:00Z', 1, 20000),
+      trade('b2', 'buy', '2023-02-10T00:00:00Z', 1, 21000),
+      trade('s2', 'sell', '2023-03-01T00:00:00Z', 1, 25000),
+      trade('b3', 'buy', '2023-03-05T00:00:00Z', 1, 26000)
+    ];
+
+    const { lots } = matchTaxLots(events, { method: 'FIFO', longTermHoldingPeriod: 365, washSaleDays: 30 });
+    // b2 inherits 31 days from b1; s2 sells it after 50 days in total, which b3 inherits
+    expect(lots.find(l => l.id === 'lot_b2')!.holdingPeriodStart).toBe(Date.parse('2023-01-10T00:00:00Z'));
+    expect(lots.find(l => l.id === 'lot_b3')!.holdingPeriodStart).toBe(Date.parse('2023-01-14T00:00:00Z'));
+  });
+
+  it('gives every split replacement lot its own id', () => {
+    const events = [
+      trade('b1', 'buy', '2023-01-01T00:00:00Z', 2, 60000),
+      trade('s1', 'sell', '2023-02-01T00:00:00Z', 1, 20000),
+      trade('s2', 'sell', '2023-02-02T00:00:00Z', 1, 20000),
+      trade('b2', 'buy', '2023-02-10T00:00:00Z', 3, 63000)
+    ];
+
+    const { lots } = matchTaxLots(events, { method: 'FIFO', longTermHoldingPeriod: 365, washSaleDays: 30 });
+    const ids = lots.map(l => l.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(lots.filter(l => l.id.startsWith('lot_b2')).map(l => [l.id, l.amount, l.costBasis])).toEqual([
+      ['lot_b2', 1, 21000],
+      ['lot_b2-w2', 1, 31000],
+      ['lot_b2-w1', 1, 31000]
+    ]);
+  });
+
+  it('applies UK same-day, bed and breakfast and Section 104 matching in that order', () => {
+    const events = [
+      trade('b1', 'buy', '2022-01-01T00:00:00Z', 100, 100, 'XYZ'),
+      trade('b2', 'buy', '2022-06-01T00:00:00Z', 100, 200, 'XYZ'),
+      trade('s1', 'sell', '2023-05-01T10:00:00Z', 50, 150, 'XYZ'),
+      trade('b3', 'buy', '2023-05-01T15:00:00Z', 20, 50, 'XYZ'),
+      trade('b4', 'buy', '2023-05-10T00:00:00Z', 10, 40, 'XYZ')
+    ];
+
+    const result = matchTaxLots(events, { method: 'SHARE_POOLING', longTermHoldingPeriod: 0 });
+    expect(result.gains.map(g => [g.matchRule, g.amount, g.costBasis, g.gainLoss])).toEqual([
+      ['same-day', 20, 50, 10],
+      ['bed-and-breakfast', 10, 40, -10],
+      ['section-104', 20, 30, 30]
+    ]);
+    expect(result.pools.XYZ).toEqual({ amount: 180, cost: 270 });
+  });
+
+  it('matches bed and breakfast acquisitions at the average cost of their day', () => {
+    const events = [
+      trade('b1', 'buy', '2022-01-01T00:00:00Z', 100, 100, 'XYZ'),
+      trade('s1', 'sell', '2023-05-01T00:00:00Z', 15, 90, 'XYZ'),
+      trade('b2', 'buy', '2023-05-10T09:00:00Z', 10, 40, 'XYZ'),
+      trade('b3', 'buy', '2023-05-10T16:00:00Z', 10, 80, 'XYZ')
+    ];
+
+    const { gains } = matchTaxLots(events, { method: 'SHARE_POOLING', longTermHoldingPeriod: 0 });
+    expect(gains.map(g => [g.matchRule, g.lotId, g.amount, g.costBasis, g.gainLoss])).toEqual([
+      ['bed-and-breakfast', 'lot_b2', 10, 60, 0],
+      ['bed-and-breakfast', 'lot_b3', 5, 30, 0]
+    ]);
+  });
+});
+
+describe('importExchangeCsv', () => {
+  it('reads Binance trade history with fees in the base asset', () => {
+    const csv = [
+      'Date(UTC),Pair,Side,Price,Executed,Amount,Fee',
+      '2023-01-05 10:00:00,BTCUSDT,BUY,20000,0.5BTC,"10,000USDT",0.0005BTC'
+    ].join('\n');
+
+    expect(importExchangeCsv(csv, 'binance')).toEqual([expect.objectContaining({
+      type: 'trade',
+      subtype: 'buy',
+      timestamp: Date.UTC(2023, 0, 5, 10),
+      asset: 'BTC',
+      amount: 0.5,
+      fiatValue: 10000,
+      fiatCurrency: 'USD',
+      fees: 10
+    })]);
+  });
+
+  it('reads Coinbase reports with preamble, converts and income, skipping transfers', () => {
+    const csv = [
+      'You can use this transaction report to inform your likely tax obligations.',
+      '',
+      'Timestamp,Transaction Type,Asset,Quantity Transacted,Spot Price Currency,Spot Price at Transaction,Subtotal,Total (inclusive of fees and/or spread),Fees and/or Spread,Notes',
+      '2023-02-01 12:00:00 UTC,Buy,ETH,2,USD,1500,"$3,000.00","$3,010.00",$10.00,Bought 2 ETH',
+      '2023-03-01T12:00:00Z,Convert,ETH,1,USD,1600,1600,1600,0,Converted 1 ETH to 20 SOL',
+      '2023-03-02T12:00:00Z,Send,ETH,0.5,USD,1600,800,800,0,',
+      '2023-03-03T12:00:00Z,Staking Income,SOL,0.1,USD,80,8,8,0,'
+    ].join('\n');
+
+    const events = importExchangeCsv(csv);
+    expect(events.map(e => [e.type, e.subtype, e.asset, e.amount, e.fiatValue, e.fees])).toEqual([
+      ['trade', 'buy', 'ETH', 2, 3000, 10],
+      ['trade', 'sell', 'ETH', 1, 1600, 0],
+      ['trade', 'buy', 'SOL', 20, 1600, 0],
+      ['staking', 'receive', 'SOL', 0.1, 8, 0]
+    ]);
+    expect(events[0].timestamp).toBe(Date.UTC(2023, 1, 1, 12));
+  });
+
+  it('reads Kraken trades and maps legacy asset codes', () => {
+    const csv = [
+      '"txid","ordertxid","pair","time","type","ordertype","price","cost","fee","vol","margin","misc","ledgers"',
+      '"T1","O1","XXBTZUSD","2023-04-01 09:30:00.1234","sell","limit","28000","14000","22.4","0.5","0","",""'
+    ].join('\n');
+
+    expect(importExchangeCsv(csv, 'kraken')).toEqual([expect.objectContaining({
+      subtype: 'sell',
+      asset: 'BTC',
+      amount: 0.5,
+      fiatValue: 14000,
+      fees: 22.4,
+      txHash: 'T1'
+    })]);
+  });
+
+  it('reports the failing line', () => {
+    const csv = [
+      'Date(UTC),Pair,Side,Price,Executed,Amount,Fee',
+      '2023-01-05 10:00:00,BTCUSDT,BUY,20000,0.5BTC,10000USDT,0.0005BTC',
+      '2023-01-06 10:00:00,BTCUSDT,HOLD,20000,0.5BTC,10000USDT,0.0005BTC'
+    ].join('\n');
+
+    expect(() => importExchangeCsv(csv)).toThrow('binance CSV line 3: Unknown side HOLD');
+    expect(() => importExchangeCsv(csv, 'kraken')).toThrow('Expected a kraken export, got binance');
+  });
+});
+
+describe('importExchangeCsv crypto-to-crypto pairs', () => {
+  const csv = [
+    'Date(UTC),Pair,Side,Price,Executed,Amount,Fee',
+    '2023-01-05 10:00:00,ETHBTC,BUY,0.05,2ETH,0.1BTC,0.002ETH'
+  ].join('\n');
+
+  it('values both legs through the price lookup', () => {
+    const priceLookup = jest.fn().mockReturnValue(30000);
+    const events = importExchangeCsv(csv, 'binance', { priceLookup });
+
+    expect(priceLookup).toHaveBeenCalledWith('BTC', Date.UTC(2023, 0, 5, 10));
+    expect(events.map(e => [e.subtype, e.asset, e.amount, e.fiatValue, e.fiatCurrency, e.fees])).toEqual([
+      ['buy', 'ETH', 2, 3000, 'USD', 3],
+      ['sell', 'BTC', 0.1, 3000, 'USD', 0]
+    ]);
+  });
+
+  it('tags both legs as unvalued without a price instead of failing the file', () => {
+    const events = importExchangeCsv(csv);
+    expect(events.map(e => [e.asset, e.fiatValue])).toEqual([['ETH', 0], ['BTC', 0]]);
+    expect(events.every(e => e.tags.includes('unvalued:0.1 BTC'))).toBe(true);
+  });
+});
+
+describe('tax form exports', () => {
+  it('writes Form 8949 parts with wash-sale adjustments', () => {
+    const events = [
+      trade('b1', 'buy', '2022-01-01T00:00:00Z', 1, 30000),
+      trade('s1', 'sell', '2023-02-01T00:00:00Z', 0.5, 20000),
+      trade('s2', 'sell', '2023-03-01T00:00:00Z', 0.5, 10000),
+      trade('b2', 'buy', '2023-03-15T00:00:00Z', 0.5, 9000)
+    ];
+    const { gains } = matchTaxLots(events, { method: 'FIFO', longTermHoldingPeriod: 365, washSaleDays: 30 });
+    const lines = toForm8949CSV(gains).split('\n');
+
+    expect(lines[0]).toBe('Part,Box,(a) Description of property,(b) Date acquired,(c) Date sold or disposed of,(d) Proceeds,(e) Cost or other basis,(f) Code(s),(g) Amount of adjustment,(h) Gain or (loss)');
+    expect(lines.slice(1)).toEqual([
+      'II,F,0.5 BTC,01/01/2022,02/01/2023,20000.00,15000.00,,,5000.00',
+      'II,F,0.5 BTC,01/01/2022,03/01/2023,10000.00,15000.00,W,5000.00,0.00',
+      'II,F,Totals,,,30000.00,30000.00,,5000.00,5000.00'
+    ]);
+  });
+
+  it('summarises UK disposals for SA108', () => {
+    const events = [
+      trade('b1', 'buy', '2022-01-01T00:00:00Z', 100, 100, 'XYZ'),
+      { ...trade('s1', 'sell', '2023-05-01T00:00:00Z', 50, 160, 'XYZ'), fees: 10 }
+    ];
+    const { gains } = matchTaxLots(events, { method: 'SHARE_POOLING', longTermHoldingPeriod: 0 });
+    const uk = { rules: { requiresReporting: { minAmount: 12300 } } } as any;
+
+    expect(buildSA108Summary(gains, 2023, uk)).toEqual({
+      taxYear: '2023-24',
+      numberOfDisposals: 1,
+      disposalProceeds: 160,
+      allowableCosts: 60,
+      gainsInYear: 100,
+      lossesInYear: 0,
+      netGains: 100,
+      annualExemptAmount: 6000,
+      taxableGains: 0,
+      reportingRequired: false
+    });
+  });
+});
+
+describe('TaxComplianceSystem reports', () => {
+  it('matches across years and keeps UK gains inside 6 April - 5 April', async () => {
+    const system = new TaxComplianceSystem();
+    const record = (event: TaxEvent) => {
+      const input: Partial<TaxEvent> = { ...event, fiatCurrency: 'GBP' };
+      delete input.id;
+      return system.recordTaxEvent('alice', input as Omit<TaxEvent, 'id'>);
+    };
+
+    await record(trade('b1', 'buy', '2022-01-10T00:00:00Z', 2, 20000));
+    await record(trade('s1', 'sell', '2023-04-05T12:00:00Z', 1, 15000));
+    await record(trade('s2', 'sell', '2023-04-06T12:00:00Z', 1, 16000));
+
+    const report = await system.generateTaxReport('alice', 2023, 'UK');
+    expect(report.capitalGains).toHaveLength(1);
+    expect(report.capitalGains[0]).toMatchObject({ matchRule: 'section-104', costBasis: 10000, gainLoss: 6000 });
+    expect(report.forms.custom.sa108.netGains).toBe(6000);
+    expect(system.exportTaxReport(report, 'sa108')).toContain('Reporting required,No');
+  });
+
+  it('rejects values in another currency unless a conversion is given', async () => {
+    const system = new TaxComplianceSystem();
+    await system.recordTaxEvent('bob', { ...trade('b1', 'buy', '2023-01-10T00:00:00Z', 1, 20000), fiatCurrency: 'EUR' });
+    await system.recordTaxEvent('bob', { ...trade('s1', 'sell', '2023-06-10T00:00:00Z', 1, 24000), fiatCurrency: 'EUR' });
+
+    await expect(system.generateTaxReport('bob', 2023, 'US')).rejects.toThrow('valued in EUR, US reports need USD');
+
+    const convertFiat = jest.fn((value: number) => value * 1.1);
+    const report = await system.generateTaxReport('bob', 2023, 'US', { convertFiat });
+    expect(convertFiat).toHaveBeenCalledWith(20000, 'EUR', 'USD', Date.parse('2023-01-10T00:00:00Z'));
+    expect(report.capitalGains[0].costBasis).toBeCloseTo(22000);
+    expect(report.capitalGains[0].gainLoss).toBeCloseTo(4400);
+  });
+
+  it('imports a CSV with a single lot rematch and flags unvalued trades', async () => {
+    const system = new TaxComplianceSystem();
+    const rematch = jest.spyOn(system as any, 'updateTaxLots');
+    const csv = [
+      'Date(UTC),Pair,Side,Price,Executed,Amount,Fee',
+      '2023-01-05 10:00:00,BTCUSDT,BUY,20000,1BTC,20000USDT,0USDT',
+      '2023-01-06 10:00:00,ETHBTC,BUY,0.05,2ETH,0.1BTC,0ETH',
+      '2023-02-05 10:00:00,BTCUSDT,SELL,25000,0.5BTC,12500USDT,0USDT'
+    ].join('\n');
+
+    expect(await system.importTransactions('carol', 'binance', csv)).toBe(4);
+    expect(rematch).toHaveBeenCalledTimes(1);
+
+    const report = await system.generateTaxReport('carol', 2023, 'US');
+    expect(report.warnings).toContainEqual(expect.stringContaining('0.1 BTC has no fiat value'));
+  });
+});
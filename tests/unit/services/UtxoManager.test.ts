@@ -0,0 +1,164 @@
+/**
+ * Inscription-aware UTXO manager tests (Jest)
+ */
+
+jest.mock('@/lib/hiro-api', () => ({ hiroAPI: { makeRequest: jest.fn() } }));
+
+import { addressValidator } from '@/lib/addressValidation';
+import { psbtFromBase64 } from '@/lib/psbt';
+import { getSatNumberFromBlockHeight } from '@/lib/rareSats';
+import type { MempoolService, UTXO } from '@/services/MempoolService';
+import { type SelectableUtxo, selectCoins } from '@/services/wallet/CoinSelection';
+import { type UtxoDataSource, UtxoManager } from '@/services/wallet/UtxoManager';
+
+const ADDRESS = addressValidator.scriptPubKeyToAddress('5120' + '77'.repeat(32));
+const PADDING = addressValidator.scriptPubKeyToAddress('0014' + '88'.repeat(20));
+const BLOCK_800K = getSatNumberFromBlockHeight(800_000);
+
+function utxo(fill: string, value: number, confirmed: boolean = true): UTXO {
+  return { txid: fill.repeat(32), vout: 0, value, status: { confirmed, block_height: confirmed ? 850_000 : undefined } };
+}
+
+function coin(outpoint: string, value: number, address: string = 'a'): SelectableUtxo {
+  return { outpoint, value, address, input: { type: 'P2WPKH' }, confirmed: true };
+}
+
+const UTXOS = [utxo('a1', 50_000), utxo('b2', 10_000), utxo('c3', 10_000), utxo('d4', 10_000), utxo('e5', 20_000, false)];
+
+function setup(overrides: Partial<UtxoDataSource> = {}) {
+  const service = { getAddressUTXOs: jest.fn().mockResolvedValue(UTXOS) } as unknown as MempoolService;
+  const dataSource: UtxoDataSource = {
+    getInscriptions: jest.fn().mockResolvedValue([
+      { id: 'b2'.repeat(32) + 'i0', output: `${'b2'.repeat(32)}:0`, offset: 4_000 },
+      { id: 'ff'.repeat(32) + 'i0', output: `${'ff'.repeat(32)}:0`, offset: 0 } // already spent
+    ]),
+    getRuneOutputs: jest.fn().mockResolvedValue([{ output: `${'c3'.repeat(32)}:0`, rune: 'DOG•GO•TO•THE•MOON', amount: '1000' }]),
+    // d4 starts on the first sat of block 800,000; everything else holds common sats
+    getSatRanges: jest.fn().mockImplementation(async (output: string) => (
+      output.startsWith('d4')
+        ? [[BLOCK_800K, BLOCK_800K + 10_000n]]
+        : [[BLOCK_800K + 100_000n, BLOCK_800K + 200_000n]]
+    )),
+    ...overrides
+  };
+  return { manager: new UtxoManager(service, dataSource), service, dataSource };
+}
+
+describe('UtxoManager', () => {
+  it('tags UTXOs and keeps protected ones out of the spendable balance', async () => {
+    const { manager } = setup();
+    const utxos = await manager.refresh(ADDRESS);
+    const tags = Object.fromEntries(utxos.map(u => [u.txid.slice(0, 2), u.tags]));
+
+    expect(tags).toEqual({
+      a1: ['cardinal'],
+      b2: ['inscription'],
+      c3: ['rune'],
+      d4: ['rare_sat'],
+      e5: ['cardinal']
+    });
+    expect(manager.getUtxo(`${'b2'.repeat(32)}:0`)!.inscriptions).toEqual([{ id: 'b2'.repeat(32) + 'i0', offset: 4_000 }]);
+    expect(manager.getUtxo(`${'d4'.repeat(32)}:0`)!.rareSats[0]).toMatchObject({ rarity: 'uncommon', offset: 0 });
+    expect(manager.getBalance(ADDRESS)).toEqual({
+      total: 100_000,
+      spendable: 70_000,
+      protected: 30_000,
+      locked: 0,
+      unconfirmed: 20_000
+    });
+    expect(() => manager.assertSpendable([`${'c3'.repeat(32)}:0`])).toThrow('runes');
+  });
+
+  it('locks everything when inscription data is unavailable', async () => {
+    const { manager } = setup({ getInscriptions: jest.fn().mockRejectedValue(new Error('rate limited')) });
+    await manager.refresh(ADDRESS);
+
+    expect(manager.getSpendable()).toEqual([]);
+    expect(manager.getUtxo(`${'a1'.repeat(32)}:0`)!.tags).toEqual(['unverified']);
+    expect(() => manager.selectCoins({ target: 10_000, feeRate: 2 })).toThrow('Insufficient funds');
+  });
+
+  it('requires force to release protected UTXOs and keeps manual locks across refreshes', async () => {
+    const { manager } = setup();
+    await manager.refresh(ADDRESS);
+    const inscription = `${'b2'.repeat(32)}:0`;
+    const cardinal = `${'a1'.repeat(32)}:0`;
+
+    expect(() => manager.unlock(inscription)).toThrow('pass force');
+    manager.unlock(inscription, true);
+    expect(manager.isSpendable(inscription)).toBe(true);
+
+    manager.lock(cardinal, 'Reserved by pending send');
+    await manager.refresh(ADDRESS);
+    expect(manager.getUtxo(cardinal)).toMatchObject({ locked: true, lockReason: 'Reserved by pending send' });
+    expect(manager.getBalance(ADDRESS).locked).toBe(50_000);
+
+    const selection = manager.selectCoins({ target: 5_000, feeRate: 2, strategy: 'smallest_first' });
+    expect(selection.inputs.map(u => u.outpoint)).toEqual([inscription]);
+  });
+
+  it('splits padding around an inscription and keeps the inscription sat in its own output', async () => {
+    const { manager } = setup();
+    await manager.refresh(ADDRESS);
+
+    const plan = manager.planPaddingSplit(`${'b2'.repeat(32)}:0`, { feeRate: 2, postage: 546, paddingAddress: PADDING });
+    expect(plan.outputs.map(o => [o.kind, o.value])).toEqual([
+      ['padding', 4_000],
+      ['protected', 546],
+      ['padding', 10_000 - 4_546 - plan.fee]
+    ]);
+    expect(plan.outputs[1].inscriptions).toEqual([{ id: 'b2'.repeat(32) + 'i0', offset: 0 }]);
+    expect(plan.freedPadding).toBe(10_000 - 546 - plan.fee);
+
+    const psbt = psbtFromBase64(plan.psbt);
+    expect(psbt.tx.inputs).toHaveLength(1);
+    expect(psbt.tx.outputs[1].script).toBe(addressValidator.addressToScriptPubKey(ADDRESS));
+
+    expect(() => manager.planPaddingSplit(`${'c3'.repeat(32)}:0`, { feeRate: 2 })).toThrow('carries runes');
+  });
+
+  it('pulls in a funding UTXO when the padding cannot pay the fee', async () => {
+    const { manager } = setup({
+      getInscriptions: jest.fn().mockResolvedValue([{ id: 'x', output: `${'b2'.repeat(32)}:0`, offset: 9_000 }])
+    });
+    await manager.refresh(ADDRESS);
+
+    const funding = manager.getUtxo(`${'a1'.repeat(32)}:0`)!;
+    const plan = manager.planPaddingSplit(`${'b2'.repeat(32)}:0`, { feeRate: 5, postage: 1_000, fundingUtxos: [funding] });
+
+    expect(plan.inputs.map(u => u.outpoint)).toEqual([`${'b2'.repeat(32)}:0`, funding.outpoint]);
+    expect(plan.outputs.map(o => o.kind)).toEqual(['padding', 'protected', 'change']);
+    expect(plan.outputs[1].value).toBe(1_000);
+    expect(plan.outputs[2].value).toBe(50_000 - plan.fee);
+  });
+});
+
+describe('selectCoins', () => {
+  const coins = [coin('big', 50_000), coin('mid', 30_000), coin('low', 20_000), coin('tiny', 12_000)];
+
+  it('finds a changeless combination with branch-and-bound', () => {
+    // Effective values at 1 sat/vB: 30,000 + 20,000 - 2 x 68 = 49,864, less the 43 sat base
+    const result = selectCoins(coins, 'branch_and_bound', { target: 49_820, feeRate: 1 });
+    expect(result.inputs.map(c => c.outpoint).sort()).toEqual(['low', 'mid']);
+    expect(result.change).toBe(0);
+    expect(result.total - result.fee).toBe(49_820);
+    expect(result.waste).toBeLessThan(5);
+  });
+
+  it('spends the smallest UTXOs first', () => {
+    const result = selectCoins(coins, 'smallest_first', { target: 15_000, feeRate: 1 });
+    expect(result.inputs.map(c => c.outpoint)).toEqual(['tiny', 'low']);
+    expect(result.total - result.fee - result.change).toBe(15_000);
+  });
+
+  it('pays from a single address before linking addresses', () => {
+    const mixed = [coin('a', 40_000, 'one'), coin('b', 30_000, 'two'), coin('c', 25_000, 'two')];
+    const result = selectCoins(mixed, 'privacy', { target: 50_000, feeRate: 1 });
+    expect(result.addresses).toEqual(['two']);
+    expect(result.warnings).toEqual([]);
+
+    const linked = selectCoins(mixed, 'privacy', { target: 80_000, feeRate: 1 });
+    expect(linked.addresses.sort()).toEqual(['one', 'two']);
+    expect(linked.warnings[0]).toContain('links 2 addresses');
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Watch-only wallet tests (Jest)
+ * Descriptor parsing, xpub/descriptor import, gap-limit discovery, history paging and the portfolio view
+ */
+
+import { addressValidator } from '@/lib/addressValidation';
+import { parseExtendedPublicKey, serializeExtendedPublicKey } from '@/lib/bip32';
+import { addDescriptorChecksum, deriveDescriptorScript, parseDescriptor } from '@/lib/descriptors';
+import type { MempoolService, Transaction } from '@/services/MempoolService';
+import { XversePortfolioService } from '@/services/portfolio/XversePortfolioService';
+import { WatchOnlyWalletManager } from '@/services/wallet/WatchOnlyWallets';
+
+// BIP84 test vector account key (m/84'/0'/0') and its first addresses
+const ZPUB = 'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs';
+const XPUB = serializeExtendedPublicKey(parseExtendedPublicKey(ZPUB));
+const RECEIVE_0 = 'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu';
+const RECEIVE_1 = 'bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g';
+const CHANGE_0 = 'bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el';
+const EXTERNAL = 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq';
+
+function tx(
+  txid: string,
+  inputs: Array<[string, number]>,
+  outputs: Array<[string, number]>,
+  confirmed: boolean = true,
+  height: number = 800_000
+): Transaction {
+  return {
+    txid,
+    vin: inputs.map(([address, value]) => ({ prevout: { scriptpubkey_address: address, value } })),
+    vout: outputs.map(([address, value]) => ({ scriptpubkey_address: address, value })),
+    fee: 500,
+    status: confirmed ? { confirmed, block_height: height, block_time: height * 600 } : { confirmed }
+  } as unknown as Transaction;
+}
+
+function service(histories: Record<string, Transaction[]>) {
+  const getAddressTransactions = jest.fn().mockImplementation(async (address: string, lastSeen?: string) => {
+    const history = histories[address] ?? [];
+    if (!lastSeen) return history.slice(0, 25);
+    const start = history.findIndex(entry => entry.txid === lastSeen) + 1;
+    return history.slice(start, start + 25);
+  });
+  return { getAddressTransactions } as unknown as MempoolService & { getAddressTransactions: jest.Mock };
+}
+
+describe('parseDescriptor', () => {
+  it('derives BIP84 addresses from a multipath descriptor with key origin', () => {
+    const parsed = parseDescriptor(`wpkh([73c5da0a/84'/0'/0']${XPUB}/<0;1>/*)`);
+    expect(parsed).toMatchObject({ type: 'wpkh', ranged: true, branches: 2, network: 'mainnet' });
+    expect(parsed.keys[0].origin).toEqual({ fingerprint: '73c5da0a', path: "m/84'/0'/0'" });
+
+    const address = (index: number, branch: number) =>
+      addressValidator.scriptPubKeyToAddress(deriveDescriptorScript(parsed, index, branch));
+    expect([address(0, 0), address(1, 0), address(0, 1)]).toEqual([RECEIVE_0, RECEIVE_1, CHANGE_0]);
+  });
+
+  it('parses nested multisig and rejects what it cannot watch', () => {
+    const multisig = parseDescriptor(addDescriptorChecksum(`sh(wsh(sortedmulti(1,${XPUB}/0/*,02${'79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'})))`));
+    expect(multisig).toMatchObject({ type: 'sh-wsh', threshold: 1, sorted: true, branches: 1 });
+    expect(addressValidator.scriptPubKeyToAddress(deriveDescriptorScript(multisig, 0))).toMatch(/^3/);
+
+    expect(() => parseDescriptor(`wpkh(${XPUB}/0/*)#00000000`)).toThrow('checksum mismatch');
+    expect(() => parseDescriptor(`wpkh(${XPUB}/0'/*)`)).toThrow("Hardened step '0'' can't be derived");
+    expect(() => parseDescriptor(`tr(${XPUB}/0/*,pk(${XPUB}/1/*))`)).toThrow('script trees are not supported');
+    expect(() => parseDescriptor(`wsh(multi(3,${XPUB}/0/*))`)).toThrow('threshold must be between 1 and 1');
+    expect(() => parseDescriptor(`combo(${XPUB}/0/*)`)).toThrow("Unsupported descriptor 'combo(...)'");
+  });
+});
+
+describe('WatchOnlyWalletManager', () => {
+  const histories = () => ({
+    [RECEIVE_0]: [tx('a1', [[EXTERNAL, 150_000]], [[RECEIVE_0, 100_000]], true, 800_000), tx('b2', [[RECEIVE_0, 100_000]], [[EXTERNAL, 60_000], [CHANGE_0, 39_500]], true, 800_100)],
+    [CHANGE_0]: [tx('b2', [[RECEIVE_0, 100_000]], [[EXTERNAL, 60_000], [CHANGE_0, 39_500]], true, 800_100)],
+    [RECEIVE_1]: [tx('c3', [[EXTERNAL, 30_000]], [[RECEIVE_1, 20_000]], false)]
+  });
+
+  it('imports a zpub and discovers used addresses up to the gap limit', async () => {
+    const mempool = service(histories());
+    const manager = new WatchOnlyWalletManager({ service: mempool, batchSize: 2 });
+
+    const wallet = await manager.importExtendedKey(ZPUB, { label: 'Cold storage', gapLimit: 3 });
+    expect(wallet.descriptors[0]).toMatch(/^wpkh\(xpub6CatWdiZ\w+\/0\/\*\)#\w{8}$/);
+    expect(wallet.addresses.map(a => [a.address, a.chain, a.index])).toEqual([
+      [RECEIVE_0, 0, 0],
+      [RECEIVE_1, 0, 1],
+      [CHANGE_0, 1, 0]
+    ]);
+    expect(wallet.nextIndex).toEqual([2, 1]);
+    expect(wallet.balance).toEqual({ confirmed: 39_500, unconfirmed: 20_000, total: 59_500 });
+    expect(wallet.transactions.map(t => [t.txid, t.net])).toEqual([['c3', 20_000], ['b2', -60_500], ['a1', 100_000]]);
+    expect(manager.getReceiveAddress(wallet.id)).not.toBe(RECEIVE_1);
+
+    // Lookups go in batches of two: receive 0..5 (gap reached at 4), change 0..3
+    const looked = mempool.getAddressTransactions.mock.calls.map(([address]) => address);
+    expect(looked).toHaveLength(6 + 4);
+  });
+
+  it('imports the equivalent descriptor to the same wallet and refuses duplicates', async () => {
+    const manager = new WatchOnlyWalletManager({ service: service(histories()) });
+    const fromDescriptor = await manager.importDescriptor(`wpkh([73c5da0a/84'/0'/0']${XPUB}/<0;1>/*)`);
+    expect(fromDescriptor.source).toBe('descriptor');
+    expect(fromDescriptor.addresses.map(a => a.address)).toEqual([RECEIVE_0, RECEIVE_1, CHANGE_0]);
+    await expect(manager.importDescriptor(`wpkh([73c5da0a/84'/0'/0']${XPUB}/<0;1>/*)`)).rejects.toThrow('already being watched');
+
+    await expect(manager.importExtendedKey(ZPUB, { scriptType: 'p2tr' })).rejects.toThrow('prefix is for p2wpkh');
+    await expect(manager.importExtendedKey(ZPUB, { network: 'testnet' })).rejects.toThrow('mainnet keys, not testnet');
+  });
+
+  it('pages through long histories and restores persisted wallets', async () => {
+    const incoming = Array.from({ length: 30 }, (_, i) => tx(`t${i}`, [[EXTERNAL, 2_000]], [[RECEIVE_0, 1_000]], true, 800_000 - i));
+    const mempool = service({ [RECEIVE_0]: incoming });
+    const manager = new WatchOnlyWalletManager({ service: mempool });
+
+    const wallet = await manager.importExtendedKey(ZPUB, { gapLimit: 2 });
+    expect(wallet.addresses[0]).toMatchObject({ address: RECEIVE_0, txCount: 30 });
+    expect(wallet.balance.confirmed).toBe(30_000);
+    expect(mempool.getAddressTransactions).toHaveBeenCalledWith(RECEIVE_0, 't24');
+
+    const restored = new WatchOnlyWalletManager({ service: mempool });
+    restored.restore(JSON.parse(JSON.stringify(manager.getConfigs())));
+    expect(restored.getWallet(wallet.id)).toMatchObject({ label: wallet.label, lastSynced: null });
+    expect((await restored.sync(wallet.id)).balance).toEqual(wallet.balance);
+  });
+
+  it('shows watch-only wallets in the portfolio next to connected ones', async () => {
+    const manager = new WatchOnlyWalletManager({ service: service(histories()) });
+    await manager.importExtendedKey(ZPUB, { label: 'Cold storage', gapLimit: 2 });
+
+    const portfolio = new XversePortfolioService('test');
+    jest.spyOn(portfolio as any, 'getBTCPrice').mockResolvedValue(100_000);
+    jest.spyOn(portfolio, 'getWallet').mockRejectedValue(new Error('offline'));
+
+    const wallets = await portfolio.getPortfolioWallets(['bc1qconnected'], manager);
+    expect(wallets).toHaveLength(1);
+    expect(wallets[0]).toMatchObject({
+      address: RECEIVE_0,
+      type: 'segwit',
+      balance: { sats: 59_500, btc: 0.000595 },
+      watchOnly: { label: 'Cold storage', addressCount: 3 }
+    });
+    expect(wallets[0].balance.usd).toBeCloseTo(59.5);
+  });
+});
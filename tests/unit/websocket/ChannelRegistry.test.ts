@@ -0,0 +1,75 @@
+/**
+ * ChannelRegistry / ChannelHistory Test Suite
+ */
+
+import { ChannelHistory, ChannelRegistry, matchChannelPattern } from '@/websocket/ChannelRegistry';
+
+describe('matchChannelPattern', () => {
+  it('extracts parameters from single segments', () => {
+    expect(matchChannelPattern('orderbook:{symbol}', 'orderbook:BTC-USDT')).toEqual({ symbol: 'BTC-USDT' });
+    expect(matchChannelPattern('user.{userId}.payments', 'user.42.payments')).toEqual({ userId: '42' });
+    expect(matchChannelPattern('mempool:blocks', 'mempool:blocks')).toEqual({});
+    expect(matchChannelPattern('orderbook:{symbol}', 'orderbook:BTC:extra')).toBeNull();
+    expect(matchChannelPattern('orderbook.{symbol}', 'orderbook.BTC.trades')).toBeNull();
+  });
+});
+
+describe('ChannelRegistry', () => {
+  const context = (overrides: Partial<{ userId: string; authenticated: boolean }> = {}) => ({
+    channel: 'portfolio:alice',
+    params: { userId: 'alice' },
+    clientId: 'client_1',
+    authenticated: false,
+    ...overrides
+  });
+
+  it('runs per-channel auth checks', async () => {
+    const registry = new ChannelRegistry();
+    registry.registerChannel({
+      pattern: 'portfolio:{userId}',
+      requiresAuth: true,
+      authorize: ({ userId, params }) => userId === params.userId
+    });
+
+    const resolved = registry.resolveChannel('portfolio:alice')!;
+    expect(resolved.params).toEqual({ userId: 'alice' });
+
+    expect(await registry.authorizeChannel(resolved, context())).toEqual({
+      allowed: false,
+      reason: 'Authentication required for this channel'
+    });
+    expect(await registry.authorizeChannel(resolved, context({ authenticated: true, userId: 'bob' }))).toEqual({
+      allowed: false,
+      reason: 'Not authorized for this channel'
+    });
+    expect(await registry.authorizeChannel(resolved, context({ authenticated: true, userId: 'alice' }))).toEqual({ allowed: true });
+  });
+
+  it('rejects duplicate registrations', () => {
+    const registry = new ChannelRegistry();
+    registry.registerChannel({ pattern: 'trades:{symbol}' });
+    registry.registerEndpoint({ name: 'orderbook', handler: () => null });
+
+    expect(() => registry.registerChannel({ pattern: 'trades:{symbol}' })).toThrow('Channel trades:{symbol} is already registered');
+    expect(() => registry.registerEndpoint({ name: 'orderbook', handler: () => null })).toThrow('Endpoint orderbook is already registered');
+    expect(registry.resolveChannel('unknown')).toBeNull();
+  });
+});
+
+describe('ChannelHistory', () => {
+  it('replays missed messages while buffered and signals when a snapshot is needed', () => {
+    const history = new ChannelHistory(3);
+    for (let i = 1; i <= 5; i++) history.append('trades:BTC', { price: i }, i);
+
+    expect(history.currentSeq('trades:BTC')).toBe(5);
+    expect(history.since('trades:BTC', 5)).toEqual([]);
+    expect(history.since('trades:BTC', 2)!.map(e => e.seq)).toEqual([3, 4, 5]);
+    // seq 2 has been evicted
+    expect(history.since('trades:BTC', 1)).toBeNull();
+    // Client ahead of the server
+    expect(history.since('trades:BTC', 9)).toBeNull();
+
+    history.clear('trades:BTC');
+    expect(history.currentSeq('trades:BTC')).toBe(0);
+  });
+});